@@ -0,0 +1,295 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import {
+  BrowserBridgeSource,
+  NativeMessageDecoder,
+  browserMatchesApp,
+  encodeNativeMessage,
+  parseBridgeTab,
+} from '../capture/browserBridge';
+import type { BridgeMessage } from '../capture/browserBridge';
+import { installNativeHostManifests, runNativeHost } from '../capture/browserBridgeHost';
+import { CaptureSourceRegistry } from '../capture/captureSource';
+import { ContextEventPipeline } from '../pipeline/contextEventPipeline';
+import type { PipelineEvent } from '../pipeline/contextEventPipeline';
+import type { ContextEventStore } from '../store/contextEventStore';
+import type { AccessibilityCaptureResult, DeepContextEngineConfig } from '../types';
+import { DEFAULT_ENGINE_CONFIG } from '../types';
+import { FakeCaptureSource } from './fixtures/fakeCaptureSource';
+
+/**
+ * Plays the browser: writes framed messages to the host's stdin and
+ * collects the frames it writes to stdout
+ */
+class FakeExtension {
+  readonly stdin = new PassThrough();
+  readonly stdout = new PassThrough();
+  readonly received: BridgeMessage[] = [];
+  private decoder = new NativeMessageDecoder();
+
+  constructor() {
+    this.stdout.on('data', (chunk: Buffer) => {
+      this.received.push(...(this.decoder.push(chunk) as BridgeMessage[]));
+    });
+  }
+
+  send(message: unknown): void {
+    this.stdin.write(encodeNativeMessage(message as BridgeMessage));
+  }
+
+  disconnect(): void {
+    this.stdin.end();
+  }
+}
+
+const tab = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  url: 'https://github.com/isyncso/sync-desktop/pull/42',
+  title: 'Add browser bridge by jan · Pull Request #42',
+  incognito: false,
+  page: { siteName: 'GitHub', description: 'Contribute to isyncso/sync-desktop' },
+  ...overrides,
+});
+
+describe('native message framing', () => {
+  it('reassembles messages split across and packed into chunks', () => {
+    const a = encodeNativeMessage({ type: 'ping' });
+    const b = encodeNativeMessage({ type: 'hello', browser: 'Brave', protocolVersion: 1 });
+    const stream = Buffer.concat([a, b]);
+    const decoder = new NativeMessageDecoder();
+
+    expect(decoder.push(stream.subarray(0, 3))).toEqual([]);
+    expect(decoder.push(stream.subarray(3, a.length + 5))).toEqual([{ type: 'ping' }]);
+    expect(decoder.push(stream.subarray(a.length + 5))).toEqual([{ type: 'hello', browser: 'Brave', protocolVersion: 1 }]);
+  });
+
+  it('rejects oversized frames', () => {
+    const header = Buffer.alloc(4);
+    header.writeUInt32LE(64 * 1024 * 1024, 0);
+    expect(() => new NativeMessageDecoder().push(header)).toThrow('too large');
+  });
+});
+
+describe('tab reports', () => {
+  it('validates and trims tab reports', () => {
+    expect(parseBridgeTab(tab({ page: { siteName: 'GitHub', bogus: 1 } }))).toEqual({
+      id: 7,
+      url: 'https://github.com/isyncso/sync-desktop/pull/42',
+      title: 'Add browser bridge by jan · Pull Request #42',
+      incognito: false,
+      page: { siteName: 'GitHub', description: undefined, canonicalUrl: undefined, language: undefined },
+    });
+    expect(parseBridgeTab(tab({ page: {} })).page).toBeUndefined();
+    expect(() => parseBridgeTab(tab({ url: 'github.com' }))).toThrow('valid url');
+    expect(() => parseBridgeTab(tab({ incognito: 'no' }))).toThrow('incognito');
+  });
+
+  it('matches reported browser names to app names', () => {
+    expect(browserMatchesApp('Brave', 'Brave Browser')).toBe(true);
+    expect(browserMatchesApp('Google Chrome', 'Google Chrome')).toBe(true);
+    expect(browserMatchesApp('Google Chrome', 'Safari')).toBe(false);
+    expect(browserMatchesApp('', 'Safari')).toBe(false);
+  });
+});
+
+describe('BrowserBridgeSource with the native host', () => {
+  let dir: string;
+  let socketPath: string;
+  let bridge: BrowserBridgeSource;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-'));
+    socketPath = path.join(dir, 'bridge.sock');
+    bridge = new BrowserBridgeSource({ ...DEFAULT_ENGINE_CONFIG, browserBridgeSocket: socketPath });
+    const listening = new Promise((resolve) => bridge.once('listening', resolve));
+    bridge.start();
+    await listening;
+  });
+
+  afterEach(() => {
+    bridge.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function connect(): { extension: FakeExtension; host: Promise<void> } {
+    const extension = new FakeExtension();
+    const host = runNativeHost({ input: extension.stdin, output: extension.stdout, socketPath });
+    return { extension, host };
+  }
+
+  it('relays the handshake and tracks the active tab until the browser disconnects', async () => {
+    const { extension, host } = connect();
+    extension.send({ type: 'hello', browser: 'Google Chrome', protocolVersion: 1 });
+    extension.send({ type: 'tab', tab: tab() });
+    extension.send({ type: 'ping' });
+
+    await vi.waitFor(() => expect(extension.received).toEqual([
+      { type: 'welcome', protocolVersion: 1 },
+      { type: 'pong' },
+    ]));
+    expect(bridge.activeTab('Google Chrome')).toMatchObject({ browser: 'Google Chrome', url: tab().url, incognito: false });
+    expect(bridge.activeTab('Safari')).toBeNull();
+    expect(bridge.getStats()).toMatchObject({ browsers: ['Google Chrome'], tabReports: 1 });
+
+    extension.disconnect();
+    await host;
+    await vi.waitFor(() => expect(bridge.activeTab('Google Chrome')).toBeNull());
+  });
+
+  it('answers bad messages with errors', async () => {
+    const { extension } = connect();
+    extension.send({ type: 'tab', tab: tab() });
+    extension.send({ type: 'hello', browser: 'Firefox', protocolVersion: 1 });
+    extension.send({ type: 'tab', tab: tab({ url: 42 }) });
+    extension.send({ type: 'reload' });
+
+    await vi.waitFor(() => expect(extension.received).toHaveLength(4));
+    expect(extension.received).toEqual([
+      { type: 'error', message: 'Send hello before tab reports' },
+      { type: 'welcome', protocolVersion: 1 },
+      { type: 'error', message: 'Tab report has no valid url' },
+      { type: 'error', message: 'Unknown message type: reload' },
+    ]);
+    expect(bridge.activeTab('Firefox')).toBeNull();
+    extension.disconnect();
+  });
+
+  it('refuses other protocol versions', async () => {
+    const { extension, host } = connect();
+    extension.send({ type: 'hello', browser: 'Firefox', protocolVersion: 2 });
+
+    await host;
+    expect(extension.received).toEqual([{ type: 'error', message: 'Unsupported protocol version: 2' }]);
+  });
+
+  it('tells the extension when the app is not running', async () => {
+    bridge.stop();
+    const { extension, host } = connect();
+
+    await host;
+    await vi.waitFor(() => expect(extension.received).toEqual([{ type: 'error', message: 'SYNC Desktop is not running' }]));
+  });
+});
+
+describe('installNativeHostManifests', () => {
+  it('writes a manifest for each installed Chromium browser', () => {
+    const home = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-home-'));
+    fs.mkdirSync(path.join(home, 'Library/Application Support/Google/Chrome'), { recursive: true });
+
+    const written = installNativeHostManifests('/opt/sync/host', ['abcdefghijklmnop'], home, 'darwin');
+
+    expect(written).toEqual([path.join(home, 'Library/Application Support/Google/Chrome/NativeMessagingHosts/com.isyncso.sync_desktop.json')]);
+    expect(JSON.parse(fs.readFileSync(written[0], 'utf8'))).toEqual({
+      name: 'com.isyncso.sync_desktop',
+      description: 'SYNC Desktop browser bridge',
+      path: '/opt/sync/host',
+      type: 'stdio',
+      allowed_origins: ['chrome-extension://abcdefghijklmnop/'],
+    });
+    expect(() => installNativeHostManifests('/opt/sync/host', [], home, 'darwin')).toThrow('extension id');
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+});
+
+describe('ContextEventPipeline with the browser bridge', () => {
+  let dir: string;
+  let bridge: BrowserBridgeSource;
+  let extension: FakeExtension;
+
+  async function makePipeline(overrides: Partial<DeepContextEngineConfig> = {}) {
+    const config = { ...DEFAULT_ENGINE_CONFIG, browserBridgeSocket: path.join(dir, 'bridge.sock'), ...overrides };
+    const accessibility = new FakeCaptureSource('accessibility', 'content');
+    bridge = new BrowserBridgeSource(config);
+    const registry = new CaptureSourceRegistry([
+      { id: 'accessibility', create: () => accessibility },
+      { id: 'browser', create: () => bridge },
+    ]);
+    const store = { insert: vi.fn(() => 1) };
+    const pipeline = new ContextEventPipeline(config, store as unknown as ContextEventStore, registry);
+    const events: PipelineEvent[] = [];
+    pipeline.on('pipeline', (event: PipelineEvent) => events.push(event));
+
+    const listening = new Promise((resolve) => bridge.once('listening', resolve));
+    pipeline.start();
+    await listening;
+
+    extension = new FakeExtension();
+    runNativeHost({ input: extension.stdin, output: extension.stdout, socketPath: bridge.socketPath() });
+    extension.send({ type: 'hello', browser: 'Google Chrome', protocolVersion: 1 });
+    await vi.waitFor(() => expect(extension.received).toHaveLength(1));
+
+    const capture = (): AccessibilityCaptureResult => ({
+      timestamp: Date.now(),
+      appName: 'Google Chrome',
+      windowTitle: 'Add browser bridge by jan · Pull Request #42 - Google Chrome',
+      focusedElementText: '',
+      focusedElementRole: '',
+      visibleText: '',
+      url: 'https://github.com',
+    });
+    return { pipeline, accessibility, store, events, capture };
+  }
+
+  async function reportTab(overrides: Record<string, unknown> = {}): Promise<void> {
+    const reports = bridge.getStats().tabReports;
+    extension.send({ type: 'tab', tab: tab(overrides) });
+    await vi.waitFor(() => expect(bridge.getStats().tabReports).toBe(reports + 1));
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bridge-pipeline-'));
+  });
+
+  afterEach(() => {
+    extension?.disconnect();
+    bridge.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('uses the reported tab instead of the guessed URL', async () => {
+    const { accessibility, events, capture } = await makePipeline();
+    await reportTab();
+
+    accessibility.push({ kind: 'accessibility', data: capture() });
+
+    const stored = events.find((e) => e.type === 'event_stored')!.event!;
+    expect(stored.source).toMatchObject({
+      application: 'Google Chrome',
+      windowTitle: 'Add browser bridge by jan · Pull Request #42',
+      url: 'https://github.com/isyncso/sync-desktop/pull/42',
+    });
+    expect(stored.semanticPayload.entities[0]).toBe('GitHub');
+  });
+
+  it('applies excluded domains to the reported URL', async () => {
+    const { accessibility, store, events, capture } = await makePipeline({ excludedDomains: ['mybank.com'] });
+    await reportTab({ url: 'https://online.mybank.com/accounts', title: 'Accounts' });
+
+    accessibility.push({ kind: 'accessibility', data: capture() });
+
+    expect(store.insert).not.toHaveBeenCalled();
+    expect(events[0].type).toBe('event_filtered');
+  });
+
+  it('drops captures of incognito tabs', async () => {
+    const { accessibility, store, events, capture } = await makePipeline();
+    await reportTab({ incognito: true });
+
+    accessibility.push({ kind: 'accessibility', data: { ...capture(), visibleText: 'Private notes' } });
+
+    expect(store.insert).not.toHaveBeenCalled();
+    expect(events).toEqual([{ type: 'event_filtered', reason: 'Excluded: incognito tab in Google Chrome' }]);
+  });
+
+  it('falls back to the captured URL for other browsers', async () => {
+    const { accessibility, events, capture } = await makePipeline();
+    await reportTab();
+
+    accessibility.push({ kind: 'accessibility', data: { ...capture(), appName: 'Safari', url: 'https://example.com' } });
+
+    expect(events.find((e) => e.type === 'event_stored')!.event!.source.url).toBe('https://example.com');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContextEventPipeline } from '../pipeline/contextEventPipeline';
+import type { ContextEventStore } from '../store/contextEventStore';
+import type { DeepContextEngineConfig } from '../types';
+import { DEFAULT_ENGINE_CONFIG } from '../types';
+
+function makePipeline(overrides: Partial<DeepContextEngineConfig> = {}) {
+  const store = { insert: vi.fn(() => 1) };
+  const pipeline = new ContextEventPipeline(
+    { ...DEFAULT_ENGINE_CONFIG, ...overrides },
+    store as unknown as ContextEventStore,
+  );
+  return { pipeline, store };
+}
+
+describe('ContextEventPipeline.previewCapture', () => {
+  it('diffs stripped PII against the original text', () => {
+    const { pipeline, store } = makePipeline();
+    const preview = pipeline.previewCapture({
+      appName: 'Slack',
+      windowTitle: 'general',
+      visibleText: 'Mail jan@example.nl or call +31 6 12345678',
+    });
+
+    expect(preview).toMatchObject({ action: 'allow', ruleId: null, stored: true, privacyLevel: 'sync_allowed' });
+    expect(preview.pii).toEqual([
+      { field: 'visibleText', recognizerId: 'email', token: '[email]' },
+      { field: 'visibleText', recognizerId: 'phone-intl', token: '[phone]' },
+    ]);
+    const text = preview.fields.find((f) => f.field === 'visibleText')!;
+    expect(text.stored).toBe('Mail [email] or call [phone]');
+    expect(text.segments).toEqual([
+      { op: 'equal', text: 'Mail ' },
+      { op: 'removed', text: 'jan@example.nl' },
+      { op: 'added', text: '[email]' },
+      { op: 'equal', text: ' or call ' },
+      { op: 'removed', text: '+31 6 12345678' },
+      { op: 'added', text: '[phone]' },
+    ]);
+    expect(preview.event?.summary).not.toContain('jan@example.nl');
+    expect(store.insert).not.toHaveBeenCalled();
+  });
+
+  it('reports the rule that dropped a capture', () => {
+    const { pipeline } = makePipeline();
+    const preview = pipeline.previewCapture({ appName: '1Password 8', windowTitle: 'Vault', visibleText: 'hunter2' });
+
+    expect(preview).toMatchObject({ action: 'deny', ruleId: 'builtin:password-managers', stored: false, privacyLevel: null, event: null });
+    expect(preview.trace.at(-1)).toEqual({ ruleId: 'builtin:password-managers', matched: true });
+    expect(preview.fields.find((f) => f.field === 'visibleText')).toMatchObject({
+      stored: '',
+      segments: [{ op: 'removed', text: 'hunter2' }],
+    });
+  });
+
+  it('explains which settings rule matched and why others did not', () => {
+    const { pipeline } = makePipeline({ excludedDomains: ['bank.example'] });
+    const denied = pipeline.previewCapture({ appName: 'Safari', windowTitle: 'Login', url: 'https://www.bank.example/login' });
+    expect(denied.ruleId).toBe('settings:excluded-domains');
+    expect(denied.trace[0]).toEqual({ ruleId: 'settings:excluded-domains', matched: true });
+
+    const other = pipeline.previewCapture({ appName: 'Safari', windowTitle: 'Docs', url: 'https://docs.example/' });
+    expect(other.trace[0]).toEqual({ ruleId: 'settings:excluded-domains', matched: false, failed: 'urlHosts' });
+  });
+
+  it('applies redact and local_only policy rules', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'capture-preview-'));
+    const policyPath = path.join(dir, 'privacy-policy.json');
+    fs.writeFileSync(policyPath, JSON.stringify({
+      version: 1,
+      rules: [
+        { id: 'hr-portal', action: 'redact', urlHosts: ['hr.example'] },
+        { id: 'client-work', action: 'local_only', apps: ['Xcode'] },
+      ],
+    }));
+    const { pipeline } = makePipeline({ privacyPolicyPath: policyPath });
+
+    const redacted = pipeline.previewCapture({
+      appName: 'Chrome',
+      windowTitle: 'Salary review',
+      url: 'https://hr.example/reviews/42',
+      visibleText: 'Mail jan@example.nl',
+    });
+    expect(redacted).toMatchObject({ action: 'redact', ruleId: 'hr-portal', privacyLevel: 'sync_allowed', pii: [] });
+    expect(redacted.fields.find((f) => f.field === 'windowTitle')!.segments).toEqual([
+      { op: 'removed', text: 'Salary review' },
+      { op: 'added', text: '[redacted]' },
+    ]);
+    expect(redacted.fields.find((f) => f.field === 'url')!.stored).toBe('https://hr.example');
+
+    const local = pipeline.previewCapture({ appName: 'Xcode', windowTitle: 'App.swift' });
+    expect(local).toMatchObject({ action: 'local_only', ruleId: 'client-work', stored: true, privacyLevel: 'local_only' });
+
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
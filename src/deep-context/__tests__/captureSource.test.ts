@@ -0,0 +1,170 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CaptureSourceRegistry } from '../capture/captureSource';
+import { ContextEventPipeline } from '../pipeline/contextEventPipeline';
+import type { PipelineEvent } from '../pipeline/contextEventPipeline';
+import type { ContextEventStore } from '../store/contextEventStore';
+import type { CapturePrivacyClass, DeepContextEngineConfig } from '../types';
+import { DEFAULT_ENGINE_CONFIG } from '../types';
+import { FakeCaptureSource } from './fixtures/fakeCaptureSource';
+
+function makePipeline(overrides: Partial<DeepContextEngineConfig> = {}, privacyClass: CapturePrivacyClass = 'metadata') {
+  const source = new FakeCaptureSource('fake', privacyClass);
+  const registry = new CaptureSourceRegistry([{ id: 'fake', create: () => source }]);
+  const store = { insert: vi.fn(() => 1) };
+  const pipeline = new ContextEventPipeline(
+    { ...DEFAULT_ENGINE_CONFIG, ...overrides },
+    store as unknown as ContextEventStore,
+    registry,
+  );
+  const events: PipelineEvent[] = [];
+  pipeline.on('pipeline', (event: PipelineEvent) => events.push(event));
+  return { pipeline, source, store, events };
+}
+
+describe('CaptureSourceRegistry', () => {
+  it('registers the built-in sources by default', () => {
+    const registry = new CaptureSourceRegistry();
+    expect(registry.list()).toEqual(['accessibility', 'file_watcher', 'git', 'shell', 'browser']);
+
+    const sources = registry.createAll(DEFAULT_ENGINE_CONFIG);
+    expect(sources.map((s) => [s.id, s.privacyClass])).toEqual([
+      ['accessibility', 'content'],
+      ['file_watcher', 'metadata'],
+      ['git', 'metadata'],
+      ['shell', 'metadata'],
+      ['browser', 'metadata'],
+    ]);
+    expect(sources.every((s) => s.health().status === 'stopped')).toBe(true);
+  });
+
+  it('rejects duplicate ids and factories that return the wrong source', () => {
+    const registry = new CaptureSourceRegistry([]);
+    registry.register({ id: 'git', create: () => new FakeCaptureSource('git') });
+    expect(() => registry.register({ id: 'git', create: () => new FakeCaptureSource('git') })).toThrow('already registered');
+
+    registry.register({ id: 'shell', create: () => new FakeCaptureSource('zsh') });
+    expect(() => registry.createAll(DEFAULT_ENGINE_CONFIG)).toThrow('created a source with id zsh');
+
+    expect(registry.unregister('shell')).toBe(true);
+    expect(registry.unregister('shell')).toBe(false);
+    expect(registry.createAll(DEFAULT_ENGINE_CONFIG).map((s) => s.id)).toEqual(['git']);
+  });
+});
+
+describe('ContextEventPipeline sources', () => {
+  it('starts and stops registered sources with the pipeline', () => {
+    const { pipeline, source } = makePipeline();
+    expect(source.pushActivity()).toBe(false);
+
+    pipeline.start();
+    expect(pipeline.getSourceStatuses()).toEqual([
+      { id: 'fake', privacyClass: 'metadata', status: 'running', captureCount: 0, lastCaptureAt: null, lastError: null },
+    ]);
+
+    pipeline.stop();
+    expect(source.health().status).toBe('stopped');
+  });
+
+  it('stores activity captures with PII stripped', () => {
+    const { pipeline, source, store, events } = makePipeline();
+    pipeline.start();
+
+    source.pushActivity({ summary: 'Mailed jan@example.nl the release notes', entities: ['jan@example.nl', 'release'] });
+
+    expect(store.insert).toHaveBeenCalledTimes(1);
+    const stored = events.find((e) => e.type === 'event_stored')!.event!;
+    expect(stored).toMatchObject({
+      eventType: 'task_started',
+      source: { application: 'Terminal', windowTitle: 'zsh' },
+      semanticPayload: { summary: 'Mailed [email] the release notes', entities: ['[email]', 'release'] },
+      privacyLevel: 'sync_allowed',
+      synced: false,
+    });
+    expect(pipeline.getStats().processedCount).toBe(1);
+  });
+
+  it('applies the privacy policy to activity captures', () => {
+    const { pipeline, source, store, events } = makePipeline({ excludedApps: ['Terminal'] });
+    pipeline.start();
+
+    source.pushActivity();
+
+    expect(store.insert).not.toHaveBeenCalled();
+    expect(events[0]).toMatchObject({ type: 'event_filtered' });
+    expect(events[0].reason).toContain('from fake');
+    expect(pipeline.getStats().filteredCount).toBe(1);
+  });
+
+  it('keeps events from local_only sources on the device', () => {
+    const { pipeline, source, events } = makePipeline({}, 'local_only');
+    pipeline.start();
+
+    source.pushActivity();
+
+    expect(events[0].event?.privacyLevel).toBe('local_only');
+  });
+
+  it('drops screen text from metadata sources', () => {
+    const { pipeline, source, store, events } = makePipeline();
+    pipeline.start();
+
+    source.push({
+      kind: 'accessibility',
+      data: {
+        timestamp: Date.now(),
+        appName: 'Notes',
+        windowTitle: 'Diary',
+        focusedElementText: '',
+        focusedElementRole: '',
+        visibleText: 'private',
+      },
+    });
+
+    expect(store.insert).not.toHaveBeenCalled();
+    expect(events[0]).toMatchObject({ type: 'error', reason: 'Source fake is declared metadata-only' });
+    expect(pipeline.getStats().errorCount).toBe(1);
+  });
+
+  it('isolates a source that fails to start', () => {
+    const { pipeline, source } = makePipeline();
+    const broken = new FakeCaptureSource('broken');
+    broken.failOnStart = true;
+    pipeline.addSource(broken);
+
+    expect(() => pipeline.start()).not.toThrow();
+    expect(source.health().status).toBe('running');
+    expect(broken.health().status).toBe('stopped');
+  });
+
+  it('starts sources added at runtime and detaches removed ones', () => {
+    const { pipeline, store } = makePipeline();
+    pipeline.start();
+
+    const git = new FakeCaptureSource('git');
+    pipeline.addSource(git);
+    expect(git.startCount).toBe(1);
+    expect(() => pipeline.addSource(new FakeCaptureSource('git'))).toThrow('already attached');
+
+    git.pushActivity({ appName: 'git', summary: 'Committed to main' });
+    expect(store.insert).toHaveBeenCalledTimes(1);
+
+    expect(pipeline.removeSource('git')).toBe(true);
+    expect(git.health().status).toBe('stopped');
+    git.start();
+    git.pushActivity();
+    expect(store.insert).toHaveBeenCalledTimes(1);
+    expect(pipeline.removeSource('git')).toBe(false);
+  });
+
+  it('reports per-source health and omits stats for missing built-ins', () => {
+    const { pipeline, source } = makePipeline();
+    pipeline.start();
+    source.pushActivity({ timestamp: 1_000 });
+    source.fail('permission revoked');
+
+    const stats = pipeline.getStats();
+    expect(stats.accessibilityStats).toBeNull();
+    expect(stats.fileWatcherStats).toBeNull();
+    expect(stats.sources[0]).toMatchObject({ id: 'fake', status: 'degraded', captureCount: 1, lastCaptureAt: 1_000, lastError: 'permission revoked' });
+  });
+});
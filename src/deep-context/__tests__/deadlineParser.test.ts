@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { DeadlineParser } from '../pipeline/deadlineParser';
+import type { DeadlineSettings } from '../types';
+
+// Monday 19 October 2026, 10:00 in Amsterdam (CEST, UTC+2)
+const NOW = Date.parse('2026-10-19T10:00:00+02:00');
+
+function parse(text: string, settings: DeadlineSettings = {}, language?: 'en' | 'nl' | 'de') {
+  return new DeadlineParser({ timeZone: 'Europe/Amsterdam', ...settings }).parse(text, { now: NOW, language });
+}
+
+function dueAt(text: string, settings: DeadlineSettings = {}, language?: 'en' | 'nl' | 'de'): string | undefined {
+  const parsed = parse(text, settings, language);
+  return parsed ? new Date(parsed.dueAt).toISOString() : undefined;
+}
+
+const iso = (local: string) => new Date(Date.parse(local)).toISOString();
+
+describe('DeadlineParser', () => {
+  describe('absolute dates', () => {
+    it('reads month names in either order, with or without a year', () => {
+      expect(dueAt('send it by Nov 3')).toBe(iso('2026-11-03T17:00:00+01:00'));
+      expect(dueAt('3rd of November')).toBe(iso('2026-11-03T17:00:00+01:00'));
+      expect(dueAt('uiterlijk 3 november', {}, 'nl')).toBe(iso('2026-11-03T17:00:00+01:00'));
+      expect(dueAt('bis zum 3. März 2027', {}, 'de')).toBe(iso('2027-03-03T17:00:00+01:00'));
+    });
+
+    it('rolls dates that have passed over to next year', () => {
+      expect(dueAt('March 1')).toBe(iso('2027-03-01T17:00:00+01:00'));
+    });
+
+    it('reads numeric dates in the order of the language', () => {
+      expect(dueAt('by 3/11', {}, 'en')).toBe(iso('2027-03-11T17:00:00+01:00'));
+      expect(dueAt('vóór 3/11', {}, 'nl')).toBe(iso('2026-11-03T17:00:00+01:00'));
+      expect(dueAt('by 3/11', { dateOrder: 'dmy' }, 'en')).toBe(iso('2026-11-03T17:00:00+01:00'));
+      expect(dueAt('bis 3.11.')).toBe(iso('2026-11-03T17:00:00+01:00'));
+      // Only one reading makes sense
+      expect(dueAt('by 11/25', {}, 'en')).toBe(iso('2026-11-25T17:00:00+01:00'));
+    });
+
+    it('is less sure of numeric dates that read both ways', () => {
+      expect(parse('3/11', {}, 'en')!.confidence).toBeLessThan(parse('Nov 3')!.confidence);
+    });
+
+    it('reads ISO dates with a time', () => {
+      expect(dueAt('2026-11-03T14:30')).toBe(iso('2026-11-03T14:30:00+01:00'));
+    });
+
+    it('ignores numbers that are not dates', () => {
+      expect(parse('we offer 24/7 support')).toBeNull();
+      expect(parse('upgrade to version 1.2.3')).toBeNull();
+      expect(parse('it took 3.5 hours')).toBeNull();
+      expect(parse('whenever you get to it')).toBeNull();
+    });
+  });
+
+  describe('relative dates', () => {
+    it('resolves days to the end of the workday', () => {
+      expect(dueAt('today')).toBe(iso('2026-10-19T17:00:00+02:00'));
+      expect(dueAt('tomorrow')).toBe(iso('2026-10-20T17:00:00+02:00'));
+      expect(dueAt('the day after tomorrow')).toBe(iso('2026-10-21T17:00:00+02:00'));
+      expect(dueAt('tonight')).toBe(iso('2026-10-19T21:00:00+02:00'));
+      expect(dueAt('tomorrow morning')).toBe(iso('2026-10-20T12:00:00+02:00'));
+    });
+
+    it('resolves weekdays, counting "next" from next week', () => {
+      expect(dueAt('by Friday')).toBe(iso('2026-10-23T17:00:00+02:00'));
+      expect(dueAt('next Friday')).toBe(iso('2026-10-30T17:00:00+01:00'));
+      expect(dueAt('Monday')).toBe(iso('2026-10-19T17:00:00+02:00'));
+      expect(dueAt('vóór vrijdag', {}, 'nl')).toBe(iso('2026-10-23T17:00:00+02:00'));
+    });
+
+    it('adds durations and business days', () => {
+      expect(dueAt('in 2 days')).toBe(iso('2026-10-21T17:00:00+02:00'));
+      expect(dueAt('in 3 hours')).toBe(iso('2026-10-19T13:00:00+02:00'));
+      expect(dueAt('within a week')).toBe(iso('2026-10-26T17:00:00+01:00'));
+      expect(dueAt('in 5 business days')).toBe(iso('2026-10-26T17:00:00+01:00'));
+      expect(dueAt('binnen twee werkdagen', {}, 'nl')).toBe(iso('2026-10-21T17:00:00+02:00'));
+      expect(dueAt('innerhalb von drei Tagen', {}, 'de')).toBe(iso('2026-10-22T17:00:00+02:00'));
+    });
+
+    it('resolves weeks and months to their last workday', () => {
+      expect(dueAt('end of week')).toBe(iso('2026-10-23T17:00:00+02:00'));
+      expect(dueAt('EOM')).toBe(iso('2026-10-30T17:00:00+01:00'));
+      expect(parse('next week')).toMatchObject({
+        kind: 'period',
+        startsAt: Date.parse('2026-10-26T09:00:00+01:00'),
+        dueAt: Date.parse('2026-10-30T17:00:00+01:00'),
+      });
+    });
+
+    it('does not take "Guten Morgen" for tomorrow', () => {
+      expect(parse('Guten Morgen, ich schicke es dir', {}, 'de')).toBeNull();
+    });
+  });
+
+  describe('times and time zones', () => {
+    it('attaches times before or after the date', () => {
+      expect(dueAt('Friday at 3pm')).toBe(iso('2026-10-23T15:00:00+02:00'));
+      expect(dueAt('by 5pm on Friday')).toBe(iso('2026-10-23T17:00:00+02:00'));
+      expect(dueAt('morgen um 14 Uhr', {}, 'de')).toBe(iso('2026-10-20T14:00:00+02:00'));
+      expect(dueAt('vrijdag om 15:30', {}, 'nl')).toBe(iso('2026-10-23T15:30:00+02:00'));
+    });
+
+    it('resolves a time on its own to the next time the clock reads it', () => {
+      expect(dueAt('by noon')).toBe(iso('2026-10-19T12:00:00+02:00'));
+      expect(dueAt('at 9am')).toBe(iso('2026-10-20T09:00:00+02:00'));
+    });
+
+    it('resolves the date and time in a named zone', () => {
+      expect(dueAt('EOD Pacific')).toBe(iso('2026-10-19T17:00:00-07:00'));
+      expect(dueAt('Friday 5pm ET')).toBe(iso('2026-10-23T17:00:00-04:00'));
+      expect(dueAt('Friday 9:00 (Europe/London)')).toBe(iso('2026-10-23T09:00:00+01:00'));
+    });
+
+    it('reads abbreviations only in capitals or parentheses', () => {
+      expect(dueAt('Friday 5pm (et)')).toBe(iso('2026-10-23T17:00:00-04:00'));
+      expect(dueAt('Morgen ist der Bericht fertig', {}, 'de')).toBe(iso('2026-10-20T17:00:00+02:00'));
+      expect(dueAt('Freitag ist die Deadline', {}, 'de')).toBe(iso('2026-10-23T17:00:00+02:00'));
+      expect(parse('morgen et cetera', {}, 'nl')?.text).toBe('morgen');
+      expect(dueAt('vrijdag et cetera', {}, 'nl')).toBe(iso('2026-10-23T17:00:00+02:00'));
+    });
+
+    it('uses the configured workday hours and days', () => {
+      expect(dueAt('tomorrow', { workdayEndHour: 18.5 })).toBe(iso('2026-10-20T18:30:00+02:00'));
+      // A Sunday to Thursday week
+      expect(dueAt('end of week', { workdays: [0, 1, 2, 3, 4] })).toBe(iso('2026-10-22T17:00:00+02:00'));
+    });
+  });
+
+  describe('ranges', () => {
+    it('is due when the range ends', () => {
+      expect(parse('Nov 3-5')).toMatchObject({
+        kind: 'range',
+        startsAt: Date.parse('2026-11-03T09:00:00+01:00'),
+        dueAt: Date.parse('2026-11-05T17:00:00+01:00'),
+      });
+      expect(parse('between Monday and Wednesday')).toMatchObject({
+        kind: 'range',
+        text: 'between Monday and Wednesday',
+        dueAt: Date.parse('2026-10-21T17:00:00+02:00'),
+      });
+      expect(dueAt('van maandag tot woensdag', {}, 'nl')).toBe(iso('2026-10-21T17:00:00+02:00'));
+    });
+
+    it('wraps weekday ranges into the next week', () => {
+      expect(dueAt('Thursday to Monday')).toBe(iso('2026-10-26T17:00:00+01:00'));
+    });
+
+    it('does not read "and" as a range without "between"', () => {
+      expect(parse('Monday and Wednesday')!.kind).toBe('weekday');
+    });
+  });
+
+  describe('sprints', () => {
+    const sprint = { start: '2026-10-05', lengthDays: 14 };
+
+    it('follows the sprint calendar', () => {
+      expect(parse('by the end of sprint', { sprint })).toMatchObject({
+        kind: 'sprint',
+        dueAt: Date.parse('2026-10-30T17:00:00+01:00'),
+      });
+      expect(parse('next sprint', { sprint })).toMatchObject({
+        startsAt: Date.parse('2026-11-02T09:00:00+01:00'),
+        dueAt: Date.parse('2026-11-13T17:00:00+01:00'),
+      });
+      expect(dueAt('bis Ende des Sprints', { sprint }, 'de')).toBe(iso('2026-10-30T17:00:00+01:00'));
+    });
+
+    it('guesses with low confidence without a calendar', () => {
+      const parsed = parse('end of sprint')!;
+      expect(parsed.dueAt).toBe(Date.parse('2026-10-30T17:00:00+01:00'));
+      expect(parsed.confidence).toBeLessThan(0.5);
+    });
+  });
+
+  describe('matches', () => {
+    it('returns the matched span', () => {
+      const text = "I'll send the deck by Friday at 3pm, promise.";
+      const parsed = parse(text)!;
+      expect(parsed.text).toBe('Friday at 3pm');
+      expect(text.slice(parsed.start, parsed.end)).toBe('Friday at 3pm');
+    });
+
+    it('prefers the most confident deadline and the ones marked as deadlines', () => {
+      expect(parse('asap, or by Nov 3 at the latest')!.kind).toBe('date');
+      expect(parse('by tomorrow')!.confidence).toBeGreaterThan(parse('tomorrow')!.confidence);
+    });
+
+    it('reads Dutch and German words when no language is given', () => {
+      expect(dueAt('overmorgen')).toBe(iso('2026-10-21T17:00:00+02:00'));
+      expect(dueAt('spätestens Freitag')).toBe(iso('2026-10-23T17:00:00+02:00'));
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { EventClassifier } from '../pipeline/eventClassifier';
+import { detectLanguage } from '../pipeline/languagePacks';
 import type { AccessibilityCaptureResult, FileChangeEvent } from '../types';
 
 describe('EventClassifier', () => {
@@ -81,6 +82,102 @@ describe('EventClassifier', () => {
     });
   });
 
+  // ==========================================================================
+  // Language Detection
+  // ==========================================================================
+
+  describe('detectLanguage', () => {
+    it('detects English, Dutch and German', () => {
+      expect(detectLanguage("I'll send you the report by tomorrow.")).toBe('en');
+      expect(detectLanguage('Ik stuur je de offerte vóór vrijdag.')).toBe('nl');
+      expect(detectLanguage('Ich schicke dir den Bericht bis Freitag.')).toBe('de');
+    });
+
+    it('falls back to English for short or unknown text', () => {
+      expect(detectLanguage('Offerte')).toBe('en');
+      expect(detectLanguage('Lorem ipsum dolor sit amet')).toBe('en');
+      expect(detectLanguage('')).toBe('en');
+    });
+  });
+
+  // ==========================================================================
+  // Dutch Commitments
+  // ==========================================================================
+
+  describe('extractCommitments (Dutch)', () => {
+    // Dates without a time are due at the end of the workday
+    const tomorrowAt17 = () => {
+      const d = new Date();
+      d.setDate(d.getDate() + 1);
+      d.setHours(17, 0, 0, 0);
+      return d.getTime();
+    };
+
+    it('detects "ik stuur" commitments with a deadline', () => {
+      const commitments = classifier.extractCommitments('Ik stuur je de offerte vóór vrijdag.');
+      expect(commitments.map((c) => c.requiredAction)).toEqual(expect.arrayContaining(['send_email', 'send_file', 'deadline']));
+      expect(new Date(commitments[0].dueDate!).getDay()).toBe(5);
+    });
+
+    it('detects "ik zal ... sturen" with the verb at the end', () => {
+      const commitments = classifier.extractCommitments('Ik zal het contract morgen naar Jan de Vries sturen.');
+      expect(commitments[0]).toMatchObject({ requiredAction: 'send_email', dueDate: tomorrowAt17(), involvedParties: ['Jan'] });
+    });
+
+    it('detects calls, meetings and follow-ups', () => {
+      expect(classifier.extractCommitments('Ik bel Pieter morgen even.')[0].requiredAction).toBe('make_call');
+      expect(classifier.extractCommitments('Ik ga een afspraak met het team inplannen.')[0].requiredAction).toBe('create_event');
+      expect(classifier.extractCommitments('Ik kom er morgen bij je op terug.')[0].requiredAction).toBe('follow_up');
+    });
+
+    it('detects delegation and reminders', () => {
+      expect(classifier.extractCommitments('Kun je de planning nog even nakijken?')).toHaveLength(1);
+      expect(classifier.extractCommitments('Vergeet niet de factuur te versturen.')).toHaveLength(1);
+      expect(classifier.extractCommitments('Herinner me eraan om de huur te betalen.')).toHaveLength(1);
+    });
+
+    it('ignores ordinary Dutch text', () => {
+      expect(classifier.extractCommitments('Het weer is vandaag erg mooi in de stad.')).toHaveLength(0);
+    });
+  });
+
+  // ==========================================================================
+  // German Commitments
+  // ==========================================================================
+
+  describe('extractCommitments (German)', () => {
+    it('detects "ich schicke" commitments with a deadline', () => {
+      const commitments = classifier.extractCommitments('Ich schicke dir den Bericht bis Freitag.');
+      expect(commitments.map((c) => c.requiredAction)).toEqual(expect.arrayContaining(['send_email', 'send_file', 'deadline']));
+      expect(new Date(commitments[0].dueDate!).getDay()).toBe(5);
+    });
+
+    it('detects "ich werde ... schicken" and resolves übermorgen', () => {
+      const commitments = classifier.extractCommitments('Ich werde das Angebot übermorgen an Petra schicken.');
+      const inTwoDays = new Date();
+      inTwoDays.setDate(inTwoDays.getDate() + 2);
+      expect(commitments[0].requiredAction).toBe('send_email');
+      expect(new Date(commitments[0].dueDate!).getDate()).toBe(inTwoDays.getDate());
+      expect(commitments[0].involvedParties).toEqual(['Petra']);
+    });
+
+    it('detects calls, meetings and follow-ups', () => {
+      expect(classifier.extractCommitments('Ich rufe den Kunden morgen an.')[0].requiredAction).toBe('make_call');
+      expect(classifier.extractCommitments('Ich werde einen Termin mit dem Team einplanen.')[0].requiredAction).toBe('create_event');
+      expect(classifier.extractCommitments('Ich melde mich morgen bei dir.')[0].requiredAction).toBe('follow_up');
+    });
+
+    it('detects delegation and reminders', () => {
+      expect(classifier.extractCommitments('Kannst du den Vertrag bitte prüfen?')).toHaveLength(1);
+      expect(classifier.extractCommitments('Könnten Sie mir die Rechnung schicken?')).toHaveLength(1);
+      expect(classifier.extractCommitments('Vergiss nicht, die Folien zu aktualisieren.')).toHaveLength(1);
+    });
+
+    it('does not read a goodbye as a deadline', () => {
+      expect(classifier.extractCommitments('Danke dir, bis morgen! Schönen Abend noch.', 'de')).toHaveLength(0);
+    });
+  });
+
   // ==========================================================================
   // Entity Extraction
   // ==========================================================================
@@ -211,6 +308,24 @@ describe('EventClassifier', () => {
       expect(event.semanticPayload.commitments!.length).toBeGreaterThan(0);
     });
 
+    it('detects commitments in Dutch and German captures', () => {
+      const dutch = classifier.classifyCapture(makeCapture({
+        appName: 'Slack',
+        windowTitle: '#sales',
+        visibleText: 'Ik stuur de offerte morgen naar Sanne.',
+      }));
+      const german = classifier.classifyCapture(makeCapture({
+        appName: 'Mail',
+        windowTitle: 'Re: Angebot',
+        visibleText: 'Ich schicke Ihnen das Angebot bis Montag.',
+      }));
+
+      expect(dutch.eventType).toBe('commitment_detected');
+      expect(dutch.semanticPayload.commitments![0].involvedParties).toEqual(['Sanne']);
+      expect(german.eventType).toBe('commitment_detected');
+      expect(new Date(german.semanticPayload.commitments![0].dueDate!).getDay()).toBe(1);
+    });
+
     it('detects skill signals', () => {
       const capture = makeCapture({
         appName: 'Visual Studio Code',
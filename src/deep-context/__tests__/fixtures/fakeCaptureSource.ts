@@ -0,0 +1,84 @@
+/**
+ * Fake capture source
+ *
+ * Emits whatever the test pushes, but only while started, like a real
+ * source. `fail()` puts it in the degraded state; `failOnStart` makes
+ * start() throw.
+ */
+
+import { EventEmitter } from 'events';
+import type { CaptureSource } from '../../capture/captureSource';
+import type {
+  ActivityCapture,
+  CapturePrivacyClass,
+  CaptureSourceHealth,
+  SourceCapture,
+} from '../../types';
+
+export class FakeCaptureSource extends EventEmitter implements CaptureSource {
+  readonly id: string;
+  readonly privacyClass: CapturePrivacyClass;
+  failOnStart = false;
+  startCount = 0;
+
+  private running = false;
+  private captureCount = 0;
+  private lastCaptureAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(id: string = 'fake', privacyClass: CapturePrivacyClass = 'metadata') {
+    super();
+    this.id = id;
+    this.privacyClass = privacyClass;
+  }
+
+  start(): void {
+    this.startCount++;
+    if (this.failOnStart) throw new Error(`${this.id} refused to start`);
+    this.running = true;
+  }
+
+  stop(): void {
+    this.running = false;
+  }
+
+  health(): CaptureSourceHealth {
+    return {
+      status: !this.running ? 'stopped' : this.lastError ? 'degraded' : 'running',
+      captureCount: this.captureCount,
+      lastCaptureAt: this.lastCaptureAt,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * @returns false if the source is stopped and nothing was emitted
+   */
+  push(capture: SourceCapture): boolean {
+    if (!this.running) return false;
+    this.captureCount++;
+    this.lastCaptureAt = capture.data.timestamp;
+    this.emit('capture', capture);
+    return true;
+  }
+
+  pushActivity(overrides: Partial<ActivityCapture> = {}): boolean {
+    return this.push({
+      kind: 'activity',
+      data: {
+        timestamp: Date.now(),
+        eventType: 'task_started',
+        appName: 'Terminal',
+        windowTitle: 'zsh',
+        summary: 'Ran npm test',
+        entities: [],
+        confidence: 0.8,
+        ...overrides,
+      },
+    });
+  }
+
+  fail(error: string): void {
+    this.lastError = error;
+  }
+}
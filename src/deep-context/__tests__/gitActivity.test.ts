@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GitActivitySource, parseShortstat, parseWorkBranch } from '../capture/gitActivity';
+import type { ActivityCapture, SourceCapture } from '../types';
+import { DEFAULT_ENGINE_CONFIG } from '../types';
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync('git', ['-c', 'user.name=Dev', '-c', 'user.email=dev@example.com', ...args], { cwd, stdio: 'ignore' });
+}
+
+function commitFile(cwd: string, file: string, lines: number, message: string): void {
+  fs.writeFileSync(path.join(cwd, file), Array.from({ length: lines }, (_, i) => `line ${i}`).join('\n') + '\n');
+  git(cwd, 'add', file);
+  git(cwd, 'commit', '-q', '-m', message);
+}
+
+describe('parseWorkBranch', () => {
+  it('recognises PR-style branch names and their tickets', () => {
+    expect(parseWorkBranch('feat/ABC-123-login')).toEqual({ kind: 'feature', ticket: 'ABC-123' });
+    expect(parseWorkBranch('jan/bugfix/crash-on-start')).toEqual({ kind: 'fix', ticket: null });
+    expect(parseWorkBranch('fix/42-typo')).toEqual({ kind: 'fix', ticket: '#42' });
+    expect(parseWorkBranch('pr/17')).toEqual({ kind: 'pull request', ticket: '#17' });
+    expect(parseWorkBranch('feature/login-page-2')).toEqual({ kind: 'feature', ticket: null });
+  });
+
+  it('ignores default and personal branches', () => {
+    expect(parseWorkBranch('main')).toBeNull();
+    expect(parseWorkBranch('jan-experiments')).toBeNull();
+    expect(parseWorkBranch('release-2026')).toBeNull();
+  });
+});
+
+describe('parseShortstat', () => {
+  it('reads file and line counts', () => {
+    expect(parseShortstat(' 3 files changed, 42 insertions(+), 7 deletions(-)\n')).toEqual({ files: 3, insertions: 42, deletions: 7 });
+    expect(parseShortstat(' 1 file changed, 1 insertion(+)\n')).toEqual({ files: 1, insertions: 1, deletions: 0 });
+    expect(parseShortstat('')).toEqual({ files: 0, insertions: 0, deletions: 0 });
+  });
+});
+
+describe('GitActivitySource', () => {
+  let root: string;
+  let repo: string;
+  let source: GitActivitySource;
+  let captures: ActivityCapture[];
+
+  beforeEach(async () => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-activity-'));
+    repo = path.join(root, 'code', 'sync-app');
+    fs.mkdirSync(repo, { recursive: true });
+    git(repo, 'init', '-q', '-b', 'main');
+    commitFile(repo, 'README.md', 2, 'Initial import with secret roadmap');
+
+    captures = [];
+    source = new GitActivitySource(
+      { ...DEFAULT_ENGINE_CONFIG, watchedDirectories: [root] },
+      { pollIntervalMs: 60_000, rescanIntervalMs: 60_000 },
+    );
+    source.on('capture', (capture: SourceCapture) => {
+      if (capture.kind === 'activity') captures.push(capture.data);
+    });
+    source.start();
+    await vi.waitFor(() => expect(source.getStats().repositories).toBe(1));
+  });
+
+  afterEach(() => {
+    source.stop();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('does not replay history from before discovery', async () => {
+    await source.poll();
+    expect(captures).toEqual([]);
+  });
+
+  it('records commits with line counts but not their messages', async () => {
+    commitFile(repo, 'app.ts', 5, 'Add the secret pricing model');
+    await source.poll();
+
+    expect(captures).toHaveLength(1);
+    expect(captures[0]).toMatchObject({
+      eventType: 'task_completed',
+      appName: 'Git',
+      windowTitle: 'sync-app',
+      filePath: repo,
+      summary: 'Committed in sync-app on main: 1 file, +5 -0',
+      entities: ['sync-app', 'main'],
+      intent: 'commit',
+    });
+    expect(JSON.stringify(captures)).not.toContain('secret');
+  });
+
+  it('starts a task when switching to a work branch and tags its ticket', async () => {
+    git(repo, 'checkout', '-q', '-b', 'feat/ABC-12-login');
+    commitFile(repo, 'login.ts', 3, 'Login form');
+    git(repo, 'checkout', '-q', 'main');
+    await source.poll();
+
+    expect(captures.map((c) => [c.eventType, c.summary])).toEqual([
+      ['task_started', 'Switched to feature branch feat/ABC-12-login in sync-app (ABC-12)'],
+      ['task_completed', 'Committed in sync-app on feat/ABC-12-login: 1 file, +3 -0'],
+      ['context_switch', 'Switched from feat/ABC-12-login to main in sync-app'],
+    ]);
+    expect(captures[1].entities).toEqual(['sync-app', 'feat/ABC-12-login', 'ABC-12']);
+    expect(captures[2].entities).toEqual(['sync-app', 'main']);
+  });
+
+  it('records finished rebases with their base branch', async () => {
+    git(repo, 'checkout', '-q', '-b', 'fix/42-typo');
+    commitFile(repo, 'typo.md', 1, 'Fix typo');
+    git(repo, 'checkout', '-q', 'main');
+    commitFile(repo, 'other.md', 1, 'Other');
+    git(repo, 'checkout', '-q', 'fix/42-typo');
+    await source.poll();
+    captures = [];
+
+    git(repo, 'rebase', '-q', 'main');
+    await source.poll();
+
+    expect(captures).toHaveLength(1);
+    expect(captures[0]).toMatchObject({
+      eventType: 'task_completed',
+      summary: 'Rebased fix/42-typo onto main in sync-app',
+      entities: ['sync-app', 'fix/42-typo', '#42'],
+      intent: 'rebase',
+    });
+  });
+
+  it('stays off when git activity is disabled', () => {
+    const disabled = new GitActivitySource({ ...DEFAULT_ENGINE_CONFIG, watchedDirectories: [root], gitActivityEnabled: false });
+    disabled.start();
+    expect(disabled.health().status).toBe('stopped');
+  });
+});
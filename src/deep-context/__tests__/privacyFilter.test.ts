@@ -1,4 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { PrivacyFilter } from '../privacy/privacyFilter';
 import type { DeepContextEngineConfig } from '../types';
 import { DEFAULT_ENGINE_CONFIG } from '../types';
@@ -36,6 +39,10 @@ describe('PrivacyFilter', () => {
       expect(filter.shouldCapture('MyChart', 'Messages')).toBe(false);
     });
 
+    it('does not block apps that merely contain a sensitive word', () => {
+      expect(filter.shouldCapture('Health Dashboard', 'Team metrics')).toBe(true);
+    });
+
     it('blocks Keychain Access', () => {
       expect(filter.shouldCapture('Keychain Access', 'login')).toBe(false);
     });
@@ -110,6 +117,12 @@ describe('PrivacyFilter', () => {
     it('accepts capture when no time windows configured', () => {
       expect(filter.shouldCapture('Code', 'index.ts')).toBe(true);
     });
+
+    it('keeps capturing when a settings time window is malformed', () => {
+      const malformed = new PrivacyFilter(makeConfig({ excludedTimeWindows: [{ start: '9:00 AM', end: '' }] }));
+      expect(malformed.getPolicyError()).toBeNull();
+      expect(malformed.shouldCapture('Code', 'index.ts')).toBe(true);
+    });
   });
 
   // ==========================================================================
@@ -126,12 +139,28 @@ describe('PrivacyFilter', () => {
     });
 
     it('strips credit card numbers', () => {
-      const text = 'Card: 4532 1234 5678 9012';
+      const text = 'Card: 4532 0151 1283 0366';
       const sanitized = filter.stripPII(text);
-      expect(sanitized).not.toContain('4532 1234 5678 9012');
+      expect(sanitized).not.toContain('4532 0151 1283 0366');
       expect(sanitized).toContain('[card]');
     });
 
+    it('keeps card-shaped numbers that fail the Luhn check', () => {
+      expect(filter.stripPII('Order: 4532 1234 5678 9012')).toBe('Order: 4532 1234 5678 9012');
+    });
+
+    it('strips EU identifiers', () => {
+      const sanitized = filter.stripPII('IBAN NL91ABNA0417164300, VAT NL123456789B01, BSN 111222333');
+      expect(sanitized).toBe('IBAN [iban], VAT [vat], BSN [bsn]');
+    });
+
+    it('applies PII settings from the config', () => {
+      const customFilter = new PrivacyFilter(makeConfig({
+        pii: { recognizers: { email: { token: '<email>' } } },
+      }));
+      expect(customFilter.stripPII('jan@example.nl')).toBe('<email>');
+    });
+
     it('strips SSN-like patterns', () => {
       const text = 'SSN: 123-45-6789';
       const sanitized = filter.stripPII(text);
@@ -165,6 +194,78 @@ describe('PrivacyFilter', () => {
     });
   });
 
+  // ==========================================================================
+  // Policy File
+  // ==========================================================================
+
+  describe('policy file', () => {
+    function writePolicy(policy: unknown): string {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'privacy-policy-'));
+      const file = path.join(dir, 'privacy-policy.json');
+      fs.writeFileSync(file, typeof policy === 'string' ? policy : JSON.stringify(policy));
+      return file;
+    }
+
+    it('runs policy rules before settings and built-in rules', () => {
+      const policyFilter = new PrivacyFilter(makeConfig({
+        excludedApps: ['Slack'],
+        privacyPolicyPath: writePolicy({
+          version: 1,
+          rules: [
+            { id: 'slack-ops', action: 'local_only', apps: ['Slack'], titlePattern: '#ops' },
+            { id: 'health-app', action: 'deny', bundleIds: ['com.apple.Health'] },
+          ],
+        }),
+      }));
+      expect(policyFilter.evaluate({ appName: 'Slack', windowTitle: '#ops' }).ruleId).toBe('slack-ops');
+      expect(policyFilter.evaluate({ appName: 'Slack', windowTitle: '#general' }).ruleId).toBe('settings:excluded-apps');
+      expect(policyFilter.evaluate({ appName: 'Bitwarden', windowTitle: '' }).ruleId).toBe('builtin:password-managers');
+    });
+
+    it('can turn off the built-in rules', () => {
+      const policyFilter = new PrivacyFilter(makeConfig({
+        privacyPolicyPath: writePolicy({ version: 1, builtinRules: false, rules: [] }),
+      }));
+      expect(policyFilter.shouldCapture('Bitwarden', 'Vault')).toBe(true);
+    });
+
+    it('uses the defaults when the file does not exist', () => {
+      const policyFilter = new PrivacyFilter(makeConfig({
+        privacyPolicyPath: path.join(os.tmpdir(), 'missing-privacy-policy.json'),
+      }));
+      expect(policyFilter.getPolicyError()).toBeNull();
+      expect(policyFilter.shouldCapture('Slack', '#general')).toBe(true);
+    });
+
+    it('blocks all captures while the policy file is invalid', () => {
+      const file = writePolicy('{ "version": 1, "rules": [{ "id": "x", "action": "nope" }] }');
+      const policyFilter = new PrivacyFilter(makeConfig({ privacyPolicyPath: file }));
+      expect(policyFilter.getPolicyError()).toMatch(/action/);
+      expect(policyFilter.evaluate({ appName: 'Slack', windowTitle: '#general' }).ruleId).toBe('invalid-policy');
+
+      fs.writeFileSync(file, JSON.stringify({ version: 1, rules: [] }));
+      policyFilter.reloadPolicy();
+      expect(policyFilter.getPolicyError()).toBeNull();
+      expect(policyFilter.shouldCapture('Slack', '#general')).toBe(true);
+    });
+
+    it('redacts everything but the app and URL host', () => {
+      const redacted = filter.redact({
+        timestamp: 1,
+        appName: 'Safari',
+        windowTitle: 'Payroll - Acme',
+        focusedElementText: 'salary',
+        focusedElementRole: 'AXTextField',
+        visibleText: 'salary table',
+        url: 'https://hr.acme.com/payroll?id=1',
+      });
+      expect(redacted.appName).toBe('Safari');
+      expect(redacted.windowTitle).toBe('[redacted]');
+      expect(redacted.visibleText).toBe('');
+      expect(redacted.url).toBe('https://hr.acme.com');
+    });
+  });
+
   // ==========================================================================
   // Config Updates
   // ==========================================================================
@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PrivacyPolicyEvaluator,
+  BUILTIN_PRIVACY_RULES,
+  parsePrivacyPolicy,
+  rulesFromConfig,
+  validatePrivacyRule,
+} from '../privacy/privacyPolicy';
+import type { PrivacyRule } from '../privacy/privacyPolicy';
+
+// Monday 2026-03-02, local time
+function at(hours: number, minutes: number = 0): number {
+  return new Date(2026, 2, 2, hours, minutes).getTime();
+}
+
+describe('PrivacyPolicyEvaluator', () => {
+  // ==========================================================================
+  // Rule Matching
+  // ==========================================================================
+
+  describe('conditions', () => {
+    it('matches app names exactly or by glob, case-insensitively', () => {
+      const evaluator = new PrivacyPolicyEvaluator([
+        { id: 'exact', action: 'deny', apps: ['Health'] },
+        { id: 'glob', action: 'redact', apps: ['*bank*'] },
+      ]);
+      expect(evaluator.evaluate({ appName: 'health', windowTitle: '' }).ruleId).toBe('exact');
+      expect(evaluator.evaluate({ appName: 'Health Dashboard', windowTitle: '' }).action).toBe('allow');
+      expect(evaluator.evaluate({ appName: 'My Bank App', windowTitle: '' }).ruleId).toBe('glob');
+    });
+
+    it('matches bundle ids and title patterns', () => {
+      const evaluator = new PrivacyPolicyEvaluator([
+        { id: 'bundle', action: 'deny', bundleIds: ['com.apple.Health'] },
+        { id: 'title', action: 'local_only', titlePattern: '^\\[HR\\]' },
+      ]);
+      expect(evaluator.evaluate({ appName: 'Health', bundleId: 'com.apple.health', windowTitle: '' }).ruleId).toBe('bundle');
+      expect(evaluator.evaluate({ appName: 'Health', windowTitle: '' }).ruleId).toBeNull();
+      expect(evaluator.evaluate({ appName: 'Mail', windowTitle: '[HR] Salary review' }).action).toBe('local_only');
+    });
+
+    it('matches URL hosts with subdomains and URL paths', () => {
+      const evaluator = new PrivacyPolicyEvaluator([
+        { id: 'host', action: 'deny', urlHosts: ['example.com'] },
+        { id: 'path', action: 'redact', urlHosts: ['github.com'], urlPathPattern: '^/acme-private/' },
+      ]);
+      expect(evaluator.evaluate({ appName: 'Safari', windowTitle: '', url: 'https://docs.example.com/a' }).ruleId).toBe('host');
+      expect(evaluator.evaluate({ appName: 'Safari', windowTitle: '', url: 'https://notexample.com' }).ruleId).toBeNull();
+      expect(evaluator.evaluate({ appName: 'Safari', windowTitle: '', url: 'https://github.com/acme-private/api' }).ruleId).toBe('path');
+      expect(evaluator.evaluate({ appName: 'Safari', windowTitle: '', url: 'https://github.com/acme/api' }).ruleId).toBeNull();
+      expect(evaluator.evaluate({ appName: 'Safari', windowTitle: '', url: 'not-a-url' }).ruleId).toBeNull();
+    });
+
+    it('matches weekdays and time windows, including windows past midnight', () => {
+      const evaluator = new PrivacyPolicyEvaluator([
+        { id: 'weekend', action: 'deny', days: [0, 6] },
+        { id: 'night', action: 'deny', startTime: '22:00', endTime: '06:00' },
+      ]);
+      expect(evaluator.evaluate({ appName: 'Code', windowTitle: '', timestamp: at(12) }).action).toBe('allow');
+      expect(evaluator.evaluate({ appName: 'Code', windowTitle: '', timestamp: at(23, 30) }).ruleId).toBe('night');
+      expect(evaluator.evaluate({ appName: 'Code', windowTitle: '', timestamp: at(5, 59) }).ruleId).toBe('night');
+      // The end minute is part of the window
+      expect(evaluator.evaluate({ appName: 'Code', windowTitle: '', timestamp: at(6) }).ruleId).toBe('night');
+      expect(evaluator.evaluate({ appName: 'Code', windowTitle: '', timestamp: at(6, 1) }).action).toBe('allow');
+      expect(evaluator.evaluate({ appName: 'Code', windowTitle: '', timestamp: at(21, 59) }).action).toBe('allow');
+
+      const saturday = new Date(2026, 2, 7, 12).getTime();
+      expect(evaluator.evaluate({ appName: 'Code', windowTitle: '', timestamp: saturday }).ruleId).toBe('weekend');
+    });
+  });
+
+  // ==========================================================================
+  // Ordering & Tracing
+  // ==========================================================================
+
+  describe('ordering and tracing', () => {
+    it('applies the first matching rule', () => {
+      const evaluator = new PrivacyPolicyEvaluator([
+        { id: 'allow-dashboard', action: 'allow', apps: ['Health Dashboard'] },
+        { id: 'deny-health', action: 'deny', apps: ['*health*'] },
+      ]);
+      expect(evaluator.evaluate({ appName: 'Health Dashboard', windowTitle: '' }).ruleId).toBe('allow-dashboard');
+      expect(evaluator.evaluate({ appName: 'Apple Health', windowTitle: '' }).ruleId).toBe('deny-health');
+    });
+
+    it('traces every rule checked and the condition that failed', () => {
+      const evaluator = new PrivacyPolicyEvaluator([
+        { id: 'a', action: 'deny', apps: ['Slack'] },
+        { id: 'b', action: 'redact', apps: ['Mail'], titlePattern: 'invoice' },
+        { id: 'c', action: 'local_only', apps: ['Mail'] },
+        { id: 'd', action: 'deny' },
+      ]);
+      const decision = evaluator.evaluate({ appName: 'Mail', windowTitle: 'Inbox' });
+      expect(decision).toEqual({
+        action: 'local_only',
+        ruleId: 'c',
+        trace: [
+          { ruleId: 'a', matched: false, failed: 'apps' },
+          { ruleId: 'b', matched: false, failed: 'titlePattern' },
+          { ruleId: 'c', matched: true },
+        ],
+      });
+    });
+
+    it('falls back to the default action', () => {
+      const evaluator = new PrivacyPolicyEvaluator([], 'local_only');
+      expect(evaluator.evaluate({ appName: 'Code', windowTitle: '' })).toEqual({
+        action: 'local_only',
+        ruleId: null,
+        trace: [],
+      });
+    });
+  });
+
+  // ==========================================================================
+  // Built-in & Settings Rules
+  // ==========================================================================
+
+  describe('built-in and settings rules', () => {
+    const evaluator = new PrivacyPolicyEvaluator(BUILTIN_PRIVACY_RULES);
+
+    it('denies sensitive apps and private windows', () => {
+      expect(evaluator.evaluate({ appName: '1Password 7', windowTitle: '' }).ruleId).toBe('builtin:password-managers');
+      expect(evaluator.evaluate({ appName: 'Chase Mobile', windowTitle: '' }).ruleId).toBe('builtin:banking');
+      expect(evaluator.evaluate({ appName: 'Health', windowTitle: '' }).ruleId).toBe('builtin:health');
+      expect(evaluator.evaluate({ appName: 'Safari', windowTitle: 'Private Browsing' }).ruleId).toBe('builtin:private-window');
+    });
+
+    it('denies private windows in browser channel builds', () => {
+      expect(evaluator.evaluate({ appName: 'Google Chrome Canary', windowTitle: 'New Incognito Tab' }).ruleId)
+        .toBe('builtin:private-window');
+      expect(evaluator.evaluate({ appName: 'Firefox Developer Edition', windowTitle: 'Private Browsing' }).ruleId)
+        .toBe('builtin:private-window');
+      expect(evaluator.evaluate({ appName: 'Safari Technology Preview', windowTitle: 'Private Window' }).ruleId)
+        .toBe('builtin:private-window');
+    });
+
+    it('does not match unrelated apps by substring', () => {
+      expect(evaluator.evaluate({ appName: 'Health Dashboard', windowTitle: '' }).action).toBe('allow');
+      expect(evaluator.evaluate({ appName: 'Notion', windowTitle: 'Private notes' }).action).toBe('allow');
+    });
+
+    it('converts settings exclusions into deny rules', () => {
+      const rules = rulesFromConfig({
+        excludedApps: ['Tinder'],
+        excludedDomains: ['facebook.com'],
+        excludedTimeWindows: [{ start: '18:00', end: '23:00' }],
+      });
+      expect(rules.map((r) => r.id)).toEqual([
+        'settings:excluded-apps',
+        'settings:excluded-domains',
+        'settings:excluded-time-1',
+      ]);
+      expect(rules.every((r) => r.action === 'deny')).toBe(true);
+    });
+
+    it('skips malformed settings time windows instead of failing the rule set', () => {
+      const rules = rulesFromConfig({
+        excludedApps: [],
+        excludedDomains: [],
+        excludedTimeWindows: [{ start: '9:00 AM', end: '17:00' }, { start: '', end: '' }, { start: '18:00', end: '23:00' }],
+      });
+      expect(rules.map((r) => r.id)).toEqual(['settings:excluded-time-3']);
+
+      const settings = new PrivacyPolicyEvaluator(rules);
+      expect(settings.evaluate({ appName: 'Code', windowTitle: '', timestamp: at(12) }).action).toBe('allow');
+      expect(settings.evaluate({ appName: 'Code', windowTitle: '', timestamp: at(23) }).ruleId).toBe('settings:excluded-time-3');
+    });
+
+    it('matches excluded apps anywhere in the app name', () => {
+      const settings = new PrivacyPolicyEvaluator(rulesFromConfig({
+        excludedApps: ['Teams', 'Zoom*'],
+        excludedDomains: [],
+        excludedTimeWindows: [],
+      }));
+      expect(settings.evaluate({ appName: 'Microsoft Teams', windowTitle: '' }).ruleId).toBe('settings:excluded-apps');
+      expect(settings.evaluate({ appName: 'zoom.us', windowTitle: '' }).ruleId).toBe('settings:excluded-apps');
+      expect(settings.evaluate({ appName: 'Slack', windowTitle: '' }).action).toBe('allow');
+    });
+  });
+});
+
+// ============================================================================
+// Policy Parsing
+// ============================================================================
+
+describe('parsePrivacyPolicy', () => {
+  it('parses a policy and fills in defaults', () => {
+    const policy = parsePrivacyPolicy(JSON.stringify({
+      version: 1,
+      rules: [{ id: 'hr', action: 'local_only', titlePattern: 'payroll' }],
+    }));
+    expect(policy.defaultAction).toBe('allow');
+    expect(policy.builtinRules).toBe(true);
+    expect(policy.rules).toHaveLength(1);
+  });
+
+  it('rejects unknown versions, actions and duplicate ids', () => {
+    expect(() => parsePrivacyPolicy('{"version":2,"rules":[]}')).toThrow(/version/);
+    expect(() => parsePrivacyPolicy('{"version":1,"defaultAction":"maybe"}')).toThrow(/defaultAction/);
+    expect(() => parsePrivacyPolicy(JSON.stringify({
+      version: 1,
+      rules: [{ id: 'a', action: 'deny' }, { id: 'a', action: 'allow' }],
+    }))).toThrow(/Duplicate/);
+    expect(() => parsePrivacyPolicy('not json')).toThrow();
+  });
+
+  it('validates rule conditions', () => {
+    const rule = (extra: Partial<PrivacyRule>): PrivacyRule => ({ id: 'r', action: 'deny', ...extra });
+    expect(validatePrivacyRule(rule({}))).toBeNull();
+    expect(validatePrivacyRule(rule({ action: 'block' as any }))).toMatch(/action/);
+    expect(validatePrivacyRule(rule({ apps: 'Slack' as any }))).toMatch(/apps/);
+    expect(validatePrivacyRule(rule({ titlePattern: '(' }))).toMatch(/titlePattern/);
+    expect(validatePrivacyRule(rule({ days: [7] }))).toMatch(/days/);
+    expect(validatePrivacyRule(rule({ startTime: '09:00' }))).toMatch(/together/);
+    expect(validatePrivacyRule(rule({ startTime: '9am', endTime: '17:00' }))).toMatch(/HH:MM/);
+  });
+});
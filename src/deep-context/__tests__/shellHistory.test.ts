@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ShellHistorySource,
+  parseFishHistory,
+  parseHookLines,
+  parseShHistory,
+  parseShellCommand,
+  unmetafyZsh,
+} from '../capture/shellHistory';
+import type { ActivityCapture, SourceCapture } from '../types';
+import { DEFAULT_ENGINE_CONFIG } from '../types';
+
+describe('parseShellCommand', () => {
+  it('finds the tool, subcommand and category', () => {
+    expect(parseShellCommand('git commit -m "wip"')).toEqual({ tool: 'git', subcommand: 'commit', category: 'version control' });
+    expect(parseShellCommand('npm run build:prod')).toEqual({ tool: 'npm', subcommand: 'run build:prod', category: 'build' });
+    expect(parseShellCommand('kubectl -n prod rollout restart deploy/api')).toMatchObject({ tool: 'kubectl', category: 'deploy' });
+    expect(parseShellCommand('kubectl logs -f api-123')).toMatchObject({ category: 'monitor' });
+    expect(parseShellCommand('terraform plan')).toMatchObject({ category: 'infrastructure' });
+    expect(parseShellCommand('pnpm add zod')).toMatchObject({ category: 'install packages' });
+    expect(parseShellCommand('python script.py')).toEqual({ tool: 'python', subcommand: 'script.py', category: 'run command' });
+  });
+
+  it('looks through env assignments, wrappers and runners', () => {
+    expect(parseShellCommand('CI=1 npx vitest run')).toEqual({ tool: 'vitest', subcommand: 'run', category: 'test' });
+    expect(parseShellCommand('sudo docker compose up -d')).toEqual({ tool: 'docker-compose', subcommand: 'up', category: 'infrastructure' });
+    expect(parseShellCommand('/usr/local/bin/pytest -x tests/')).toMatchObject({ tool: 'pytest', category: 'test' });
+  });
+
+  it('describes chained commands by their most significant part', () => {
+    expect(parseShellCommand('cd site && npm test && vercel --prod')).toMatchObject({ tool: 'vercel', category: 'deploy' });
+    expect(parseShellCommand('go test ./... | tee out.log')).toMatchObject({ tool: 'go', category: 'test' });
+  });
+
+  it('ignores navigation', () => {
+    expect(parseShellCommand('cd ~/code')).toBeNull();
+    expect(parseShellCommand('ls -la; clear')).toBeNull();
+    expect(parseShellCommand('   ')).toBeNull();
+  });
+});
+
+describe('history formats', () => {
+  it('reads zsh extended history with continuations', () => {
+    const text = ': 1760000000:0;git status\n: 1760000010:12;make \\\n  test\n';
+    expect(parseShHistory(text, 5)).toEqual([
+      { command: 'git status', timestamp: 1760000000_000, cwd: null, exitStatus: null, durationMs: null },
+      { command: 'make \n  test', timestamp: 1760000010_000, cwd: null, exitStatus: null, durationMs: 12_000 },
+    ]);
+  });
+
+  it('reads bash history with and without timestamps', () => {
+    expect(parseShHistory('#1760000000\nnpm ci\nls\n', 5).map((e) => [e.command, e.timestamp])).toEqual([
+      ['npm ci', 1760000000_000],
+      ['ls', 5],
+    ]);
+  });
+
+  it('reads fish history', () => {
+    const text = '- cmd: cargo test\n  when: 1760000000\n- cmd: echo a\\nb\n  when: 1760000005\n  paths:\n    - a\n';
+    expect(parseFishHistory(text, 5).map((e) => [e.command, e.timestamp])).toEqual([
+      ['cargo test', 1760000000_000],
+      ['echo a\nb', 1760000005_000],
+    ]);
+  });
+
+  it('reads hook lines with cwd, exit status and duration', () => {
+    expect(parseHookLines('1760000000\t1760000042\t1\t/Users/dev/code/api\tnpm test\ngarbage\n')).toEqual([
+      { command: 'npm test', timestamp: 1760000000_000, cwd: '/Users/dev/code/api', exitStatus: 1, durationMs: 42_000 },
+    ]);
+  });
+
+  it('undoes zsh metafication', () => {
+    // "é" is 0xc3 0xa9; zsh writes 0xa9 as 0x83 0x89
+    expect(unmetafyZsh(Buffer.from([0x63, 0x61, 0x66, 0xc3, 0x83, 0x89])).toString('utf8')).toBe('café');
+  });
+});
+
+describe('ShellHistorySource', () => {
+  let root: string;
+  let history: string;
+  let hook: string;
+  let source: ShellHistorySource;
+  let captures: ActivityCapture[];
+
+  function start(): void {
+    source = new ShellHistorySource(
+      { ...DEFAULT_ENGINE_CONFIG, shellHistoryFiles: [history], shellHookFile: hook },
+      { pollIntervalMs: 60_000 },
+    );
+    source.on('capture', (capture: SourceCapture) => {
+      if (capture.kind === 'activity') captures.push(capture.data);
+    });
+    source.start();
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'shell-history-'));
+    history = path.join(root, '.zsh_history');
+    hook = path.join(root, 'shell-hook.tsv');
+    fs.writeFileSync(history, ': 1760000000:0;npm publish\n');
+    captures = [];
+  });
+
+  afterEach(() => {
+    source?.stop();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('emits new history lines but not older ones', () => {
+    start();
+    fs.appendFileSync(history, ': 1760000100:3;cd api\n: 1760000105:9;npm test\n: 1760000200:0;git pu');
+    source.poll();
+
+    expect(captures).toEqual([{
+      timestamp: 1760000105_000,
+      eventType: 'task_started',
+      appName: 'Shell',
+      windowTitle: 'npm test',
+      filePath: undefined,
+      summary: 'Ran npm test (9s)',
+      entities: ['npm'],
+      intent: 'test',
+      confidence: 0.85,
+    }]);
+
+    // The partly written line is read once it is complete
+    fs.appendFileSync(history, 'sh\n');
+    source.poll();
+    expect(captures.map((c) => c.windowTitle)).toEqual(['npm test', 'git push']);
+  });
+
+  it('prefers the hook file and completes successful deploys', () => {
+    fs.writeFileSync(hook, '');
+    start();
+    fs.appendFileSync(history, ': 1760000100:0;vercel --prod\n');
+    fs.appendFileSync(hook, '1760000100\t1760000141\t0\t/Users/dev/code/site\tvercel --prod\n');
+    source.poll();
+
+    expect(captures).toHaveLength(1);
+    expect(captures[0]).toMatchObject({
+      eventType: 'task_completed',
+      filePath: '/Users/dev/code/site',
+      summary: 'Ran vercel --prod (in site, exit 0, 41s)',
+      intent: 'deploy',
+      confidence: 0.95,
+    });
+  });
+
+  it('skips commands hidden with a leading space', () => {
+    start();
+    fs.appendFileSync(history, ': 1760000100:0; export TOKEN=abc\n: 1760000101:0; vercel --prod\n');
+    source.poll();
+    expect(captures).toEqual([]);
+  });
+
+  it('starts over when the history file is rewritten', () => {
+    start();
+    fs.writeFileSync(history, ': 1760000300:0;make\n');
+    source.poll();
+    expect(captures).toEqual([]);
+
+    fs.appendFileSync(history, ': 1760000301:2;make test\n');
+    source.poll();
+    expect(captures.map((c) => c.intent)).toEqual(['test']);
+  });
+
+  it('stays off when shell history is disabled', () => {
+    source = new ShellHistorySource({ ...DEFAULT_ENGINE_CONFIG, shellHistoryFiles: [history], shellHistoryEnabled: false });
+    source.start();
+    expect(source.health().status).toBe('stopped');
+  });
+});
@@ -16,7 +16,13 @@
 import { execSync } from 'child_process';
 import { EventEmitter } from 'events';
 import { systemPreferences } from 'electron';
-import type { AccessibilityCaptureResult, DeepContextEngineConfig } from '../types';
+import type { CaptureSource } from './captureSource';
+import type {
+  AccessibilityCaptureResult,
+  CaptureSourceHealth,
+  DeepContextEngineConfig,
+  SourceCapture,
+} from '../types';
 
 // ============================================================================
 // Constants
@@ -29,13 +35,18 @@ const EXEC_TIMEOUT_MS = 3000;
 // Accessibility Capture Service
 // ============================================================================
 
-export class AccessibilityCaptureService extends EventEmitter {
+export class AccessibilityCaptureService extends EventEmitter implements CaptureSource {
+  readonly id = 'accessibility';
+  readonly privacyClass = 'content' as const;
+
   private captureInterval: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
   private config: DeepContextEngineConfig;
   private lastTextHash: string | null = null;
   private captureCount: number = 0;
   private consecutiveErrors: number = 0;
+  private lastCaptureAt: number | null = null;
+  private lastError: string | null = null;
 
   constructor(config: DeepContextEngineConfig) {
     super();
@@ -127,15 +138,17 @@ export class AccessibilityCaptureService extends EventEmitter {
 
       this.captureCount++;
       this.consecutiveErrors = 0;
+      this.lastCaptureAt = result.timestamp;
 
       console.log(
         `[accessibility] Captured #${this.captureCount}: ${result.appName} - ${result.windowTitle.substring(0, 40)}`
       );
 
-      this.emit('capture', result);
+      this.emit('capture', { kind: 'accessibility', data: result } as SourceCapture);
       return result;
     } catch (error) {
       this.consecutiveErrors++;
+      this.lastError = String(error);
 
       // Log first error and every 5th error after
       if (this.consecutiveErrors === 1 || this.consecutiveErrors % 5 === 0) {
@@ -158,6 +171,14 @@ export class AccessibilityCaptureService extends EventEmitter {
     }
   }
 
+  /**
+   * Read the focused window without deduplicating, counting or emitting it.
+   * Used by the privacy debugger; works whether or not capture is running.
+   */
+  readCurrent(): Promise<AccessibilityCaptureResult | null> {
+    return this.readAccessibilityData();
+  }
+
   // ============================================================================
   // macOS Accessibility API (via AppleScript)
   // ============================================================================
@@ -177,6 +198,11 @@ export class AccessibilityCaptureService extends EventEmitter {
           set frontApp to first application process whose frontmost is true
           set appName to name of frontApp
 
+          set bundleId to ""
+          try
+            set bundleId to bundle identifier of frontApp
+          end try
+
           -- Get window title
           set windowTitle to ""
           try
@@ -252,7 +278,7 @@ export class AccessibilityCaptureService extends EventEmitter {
           end if
 
           -- Build output with delimiters
-          return appName & "|||" & windowTitle & "|||" & focusedText & "|||" & focusedRole & "|||" & visibleText
+          return appName & "|||" & bundleId & "|||" & windowTitle & "|||" & focusedText & "|||" & focusedRole & "|||" & visibleText
         end tell
       `;
 
@@ -266,7 +292,7 @@ export class AccessibilityCaptureService extends EventEmitter {
         }
       ).trim();
 
-      const [appName, windowTitle, focusedText, focusedRole, visibleText] = output.split('|||');
+      const [appName, bundleId, windowTitle, focusedText, focusedRole, visibleText] = output.split('|||');
 
       if (!appName) return null;
 
@@ -276,6 +302,7 @@ export class AccessibilityCaptureService extends EventEmitter {
       return {
         timestamp: Date.now(),
         appName: appName.trim(),
+        bundleId: bundleId?.trim() || undefined,
         windowTitle: (windowTitle || '').trim(),
         focusedElementText: (focusedText || '').trim().substring(0, MAX_TEXT_LENGTH),
         focusedElementRole: (focusedRole || '').trim(),
@@ -383,6 +410,15 @@ export class AccessibilityCaptureService extends EventEmitter {
     return this.isRunning;
   }
 
+  health(): CaptureSourceHealth {
+    return {
+      status: !this.isRunning ? 'stopped' : this.consecutiveErrors > 0 ? 'degraded' : 'running',
+      captureCount: this.captureCount,
+      lastCaptureAt: this.lastCaptureAt,
+      lastError: this.lastError,
+    };
+  }
+
   getStats(): {
     isRunning: boolean;
     captureCount: number;
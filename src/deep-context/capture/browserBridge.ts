@@ -0,0 +1,404 @@
+/**
+ * Browser Bridge
+ *
+ * Receives the active tab from a browser extension, so browser captures
+ * get the real URL, tab title and page metadata instead of what the
+ * accessibility capture can guess from the window title.
+ *
+ * The extension talks to a native-messaging host (browserBridgeHost.ts)
+ * that the browser starts. The host relays its stdio to a local socket
+ * this source listens on, unchanged, so both legs speak the browser's
+ * native-messaging framing: a 32-bit little-endian length followed by
+ * that many bytes of UTF-8 JSON.
+ *
+ * Extension → app:
+ *   { type: 'hello', browser: 'Google Chrome', protocolVersion: 1 }
+ *   { type: 'tab', tab: { id, url, title, incognito, page? } }
+ *   { type: 'ping' }
+ *
+ * App → extension:
+ *   { type: 'welcome', protocolVersion: 1 }
+ *   { type: 'pong' }
+ *   { type: 'error', message }
+ *
+ * The bridge emits no captures of its own: the accessibility capture of
+ * the browser window is still the event. The pipeline asks activeTab()
+ * for its URL and drops captures of incognito tabs.
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import type { CaptureSource } from './captureSource';
+import type {
+  BrowserPageMetadata,
+  CaptureSourceHealth,
+  DeepContextEngineConfig,
+} from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const BRIDGE_PROTOCOL_VERSION = 1;
+
+// Browsers cap host → extension messages at 1 MB; tab reports are far smaller
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+const MAX_FIELD_LENGTH = 2048;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BridgeMessage =
+  | { type: 'hello'; browser: string; protocolVersion: number; extensionVersion?: string }
+  | { type: 'tab'; tab: BridgeTab }
+  | { type: 'ping' }
+  | { type: 'welcome'; protocolVersion: number }
+  | { type: 'pong' }
+  | { type: 'error'; message: string };
+
+export interface BridgeTab {
+  id: number;
+  url: string;
+  title: string;
+  incognito: boolean;
+  page?: BrowserPageMetadata;
+}
+
+export interface BrowserTab extends BridgeTab {
+  browser: string;
+  receivedAt: number;
+}
+
+interface BridgeConnection {
+  socket: net.Socket;
+  decoder: NativeMessageDecoder;
+  browser: string | null;
+}
+
+// ============================================================================
+// Framing
+// ============================================================================
+
+export function encodeNativeMessage(message: BridgeMessage): Buffer {
+  const body = Buffer.from(JSON.stringify(message), 'utf8');
+  const header = Buffer.alloc(4);
+  header.writeUInt32LE(body.length, 0);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Reassembles length-prefixed messages from stream chunks
+ */
+export class NativeMessageDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /**
+   * @returns every message completed by this chunk
+   * @throws Error on an oversized frame or a body that is not JSON
+   */
+  push(chunk: Buffer): unknown[] {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    const messages: unknown[] = [];
+
+    while (this.buffer.length >= 4) {
+      const length = this.buffer.readUInt32LE(0);
+      if (length > MAX_MESSAGE_BYTES) {
+        throw new Error(`Native message too large: ${length} bytes`);
+      }
+      if (this.buffer.length < 4 + length) break;
+
+      const body = this.buffer.subarray(4, 4 + length).toString('utf8');
+      this.buffer = this.buffer.subarray(4 + length);
+      messages.push(JSON.parse(body));
+    }
+    return messages;
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.slice(0, MAX_FIELD_LENGTH) : undefined;
+}
+
+function parsePage(value: unknown): BrowserPageMetadata | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const page = value as Record<string, unknown>;
+  const metadata: BrowserPageMetadata = {
+    siteName: text(page.siteName),
+    description: text(page.description),
+    canonicalUrl: text(page.canonicalUrl),
+    language: text(page.language),
+  };
+  return Object.values(metadata).some((v) => v !== undefined) ? metadata : undefined;
+}
+
+/**
+ * Check a tab report from the extension
+ *
+ * @throws Error naming the first invalid field
+ */
+export function parseBridgeTab(value: unknown): BridgeTab {
+  if (!value || typeof value !== 'object') throw new Error('Tab report has no tab');
+  const tab = value as Record<string, unknown>;
+
+  if (typeof tab.id !== 'number') throw new Error('Tab report has no id');
+  if (typeof tab.url !== 'string' || !/^[a-z][a-z0-9+.-]*:/i.test(tab.url)) {
+    throw new Error('Tab report has no valid url');
+  }
+  if (typeof tab.incognito !== 'boolean') throw new Error('Tab report has no incognito flag');
+
+  return {
+    id: tab.id,
+    url: tab.url.slice(0, MAX_FIELD_LENGTH),
+    title: text(tab.title) ?? '',
+    incognito: tab.incognito,
+    page: parsePage(tab.page),
+  };
+}
+
+/**
+ * Whether a reported browser name ("Brave") refers to a macOS app ("Brave Browser")
+ */
+export function browserMatchesApp(browser: string, appName: string): boolean {
+  const a = browser.toLowerCase().trim();
+  const b = appName.toLowerCase().trim();
+  return a.length > 0 && b.length > 0 && (a.includes(b) || b.includes(a));
+}
+
+export function defaultBridgeSocketPath(): string {
+  if (process.platform === 'win32') return '\\\\.\\pipe\\sync-desktop-browser-bridge';
+  return path.join(os.homedir(), '.sync-desktop', 'browser-bridge.sock');
+}
+
+// ============================================================================
+// Browser Bridge Source
+// ============================================================================
+
+export class BrowserBridgeSource extends EventEmitter implements CaptureSource {
+  readonly id = 'browser';
+  readonly privacyClass = 'metadata' as const;
+
+  private config: DeepContextEngineConfig;
+  private server: net.Server | null = null;
+  private connections: Set<BridgeConnection> = new Set();
+  private tabs: Map<string, BrowserTab> = new Map();
+  private isRunning: boolean = false;
+  private captureCount: number = 0;
+  private lastCaptureAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(config: DeepContextEngineConfig) {
+    super();
+    this.config = config;
+  }
+
+  // ============================================================================
+  // Lifecycle
+  // ============================================================================
+
+  start(): void {
+    if (this.isRunning) return;
+
+    if (!this.config.browserBridgeEnabled) {
+      console.log('[browser-bridge] Browser bridge disabled');
+      return;
+    }
+
+    const socketPath = this.socketPath();
+    this.isRunning = true;
+    this.lastError = null;
+
+    if (process.platform !== 'win32') {
+      fs.mkdirSync(path.dirname(socketPath), { recursive: true });
+      // A stale socket file from a previous run would make listen() fail
+      if (fs.existsSync(socketPath)) fs.unlinkSync(socketPath);
+    }
+
+    const server = net.createServer((socket) => this.handleConnection(socket));
+    server.on('error', (error) => {
+      this.lastError = String(error);
+      console.error('[browser-bridge] Server error:', error);
+    });
+    server.listen(socketPath, () => {
+      // Only this user may talk to the bridge
+      if (process.platform !== 'win32') fs.chmodSync(socketPath, 0o600);
+      console.log(`[browser-bridge] Listening on ${socketPath}`);
+      this.emit('listening', socketPath);
+    });
+    server.unref();
+    this.server = server;
+  }
+
+  stop(): void {
+    if (!this.isRunning) return;
+
+    console.log('[browser-bridge] Stopping browser bridge');
+    this.isRunning = false;
+
+    for (const connection of this.connections) {
+      connection.socket.destroy();
+    }
+    this.connections.clear();
+    this.tabs.clear();
+
+    this.server?.close();
+    this.server = null;
+  }
+
+  updateConfig(config: Partial<DeepContextEngineConfig>): void {
+    const socketChanged = config.browserBridgeSocket !== undefined
+      && config.browserBridgeSocket !== this.config.browserBridgeSocket;
+    this.config = { ...this.config, ...config };
+
+    if (config.browserBridgeEnabled === false) {
+      this.stop();
+    } else if (this.isRunning && socketChanged) {
+      this.stop();
+      this.start();
+    }
+  }
+
+  socketPath(): string {
+    return this.config.browserBridgeSocket ?? defaultBridgeSocketPath();
+  }
+
+  // ============================================================================
+  // Tabs
+  // ============================================================================
+
+  /**
+   * The active tab of a connected browser, matched by app name
+   */
+  activeTab(appName: string): BrowserTab | null {
+    for (const [browser, tab] of this.tabs) {
+      if (browserMatchesApp(browser, appName)) return tab;
+    }
+    return null;
+  }
+
+  // ============================================================================
+  // Connections
+  // ============================================================================
+
+  private handleConnection(socket: net.Socket): void {
+    const connection: BridgeConnection = { socket, decoder: new NativeMessageDecoder(), browser: null };
+    this.connections.add(connection);
+
+    socket.on('data', (chunk: Buffer) => {
+      let messages: unknown[];
+      try {
+        messages = connection.decoder.push(chunk);
+      } catch (error) {
+        // Out of sync with the framing: nothing after this can be trusted
+        this.lastError = String(error);
+        console.error('[browser-bridge] Dropping connection:', error);
+        socket.destroy();
+        return;
+      }
+      for (const message of messages) {
+        this.handleMessage(connection, message);
+      }
+    });
+
+    socket.on('error', (error) => {
+      console.error('[browser-bridge] Connection error:', error.message);
+    });
+
+    socket.on('close', () => {
+      this.connections.delete(connection);
+      if (connection.browser) {
+        console.log(`[browser-bridge] ${connection.browser} disconnected`);
+        this.tabs.delete(connection.browser);
+      }
+    });
+  }
+
+  private handleMessage(connection: BridgeConnection, raw: unknown): void {
+    const message = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+    switch (message.type) {
+      case 'hello': {
+        if (message.protocolVersion !== BRIDGE_PROTOCOL_VERSION) {
+          this.send(connection, { type: 'error', message: `Unsupported protocol version: ${message.protocolVersion}` });
+          connection.socket.end();
+          return;
+        }
+        const browser = text(message.browser)?.trim();
+        if (!browser) {
+          this.send(connection, { type: 'error', message: 'Hello has no browser name' });
+          return;
+        }
+        connection.browser = browser;
+        console.log(`[browser-bridge] ${browser} connected`);
+        this.send(connection, { type: 'welcome', protocolVersion: BRIDGE_PROTOCOL_VERSION });
+        return;
+      }
+
+      case 'tab': {
+        if (!connection.browser) {
+          this.send(connection, { type: 'error', message: 'Send hello before tab reports' });
+          return;
+        }
+        try {
+          const tab = parseBridgeTab(message.tab);
+          const now = Date.now();
+          this.tabs.set(connection.browser, { ...tab, browser: connection.browser, receivedAt: now });
+          this.captureCount++;
+          this.lastCaptureAt = now;
+        } catch (error) {
+          this.send(connection, { type: 'error', message: (error as Error).message });
+        }
+        return;
+      }
+
+      case 'ping':
+        this.send(connection, { type: 'pong' });
+        return;
+
+      default:
+        this.send(connection, { type: 'error', message: `Unknown message type: ${String(message.type)}` });
+    }
+  }
+
+  private send(connection: BridgeConnection, message: BridgeMessage): void {
+    if (!connection.socket.destroyed) {
+      connection.socket.write(encodeNativeMessage(message));
+    }
+  }
+
+  // ============================================================================
+  // Status
+  // ============================================================================
+
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  health(): CaptureSourceHealth {
+    return {
+      status: !this.isRunning ? 'stopped' : this.lastError ? 'degraded' : 'running',
+      captureCount: this.captureCount,
+      lastCaptureAt: this.lastCaptureAt,
+      lastError: this.lastError,
+    };
+  }
+
+  getStats(): {
+    isRunning: boolean;
+    browsers: string[];
+    tabReports: number;
+  } {
+    return {
+      isRunning: this.isRunning,
+      browsers: [...this.connections].map((c) => c.browser).filter((b): b is string => b !== null),
+      tabReports: this.captureCount,
+    };
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Browser Bridge Host
+ *
+ * The native-messaging host the browser extension connects to. The browser
+ * starts it with the extension's messages on stdin and reads replies from
+ * stdout; the host relays both directions to the app's bridge socket
+ * unchanged (see browserBridge.ts for the protocol). It never parses tab
+ * data itself, so a host from an older build keeps working.
+ *
+ * Browsers only start hosts listed in a manifest in their
+ * NativeMessagingHosts directory. To install one for an unpacked
+ * extension, after `npm run build:main`:
+ * `node dist/deep-context/capture/browserBridgeHost.js --install <extension-id>`
+ */
+
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import type { Readable, Writable } from 'stream';
+import { defaultBridgeSocketPath, encodeNativeMessage } from './browserBridge';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const NATIVE_HOST_NAME = 'com.isyncso.sync_desktop';
+
+// Per-user manifest directories of Chromium-based browsers
+const MANIFEST_DIRS: Record<string, string[]> = {
+  darwin: [
+    'Library/Application Support/Google/Chrome',
+    'Library/Application Support/Chromium',
+    'Library/Application Support/BraveSoftware/Brave-Browser',
+    'Library/Application Support/Microsoft Edge',
+    'Library/Application Support/Arc/User Data',
+  ],
+  linux: [
+    '.config/google-chrome',
+    '.config/chromium',
+    '.config/BraveSoftware/Brave-Browser',
+    '.config/microsoft-edge',
+  ],
+};
+
+// ============================================================================
+// Relay
+// ============================================================================
+
+export interface NativeHostOptions {
+  input: Readable;
+  output: Writable;
+  socketPath?: string;
+}
+
+/**
+ * Relay the extension's stdio to the bridge socket until either side closes.
+ * If the app is not running, the extension gets an error message instead.
+ */
+export function runNativeHost(options: NativeHostOptions): Promise<void> {
+  const { input, output } = options;
+
+  return new Promise((resolve) => {
+    const socket = net.createConnection(options.socketPath ?? defaultBridgeSocketPath());
+    let connected = false;
+
+    socket.once('connect', () => {
+      connected = true;
+      input.pipe(socket);
+      socket.pipe(output, { end: false });
+    });
+
+    socket.on('error', (error) => {
+      if (!connected) {
+        output.write(encodeNativeMessage({ type: 'error', message: 'SYNC Desktop is not running' }));
+      } else {
+        console.error('[browser-host] Bridge connection error:', error.message);
+      }
+    });
+
+    // The browser closes stdin when the extension disconnects
+    input.once('end', () => socket.end());
+    socket.once('close', () => {
+      input.unpipe(socket);
+      resolve();
+    });
+  });
+}
+
+// ============================================================================
+// Manifest Installation
+// ============================================================================
+
+export interface NativeHostManifest {
+  name: string;
+  description: string;
+  path: string;
+  type: 'stdio';
+  allowed_origins: string[];
+}
+
+export function buildNativeHostManifest(hostPath: string, extensionIds: string[]): NativeHostManifest {
+  return {
+    name: NATIVE_HOST_NAME,
+    description: 'SYNC Desktop browser bridge',
+    path: hostPath,
+    type: 'stdio',
+    allowed_origins: extensionIds.map((id) => `chrome-extension://${id}/`),
+  };
+}
+
+/**
+ * Write the host manifest for every installed Chromium-based browser
+ *
+ * @returns the manifest files written
+ * @throws Error if no extension ids are given
+ */
+export function installNativeHostManifests(
+  hostPath: string,
+  extensionIds: string[],
+  home: string = os.homedir(),
+  platform: NodeJS.Platform = process.platform,
+): string[] {
+  if (extensionIds.length === 0) {
+    throw new Error('At least one extension id is required');
+  }
+
+  const manifest = JSON.stringify(buildNativeHostManifest(hostPath, extensionIds), null, 2);
+  const written: string[] = [];
+
+  for (const browserDir of MANIFEST_DIRS[platform] ?? []) {
+    const root = path.join(home, browserDir);
+    if (!fs.existsSync(root)) continue;
+
+    const file = path.join(root, 'NativeMessagingHosts', `${NATIVE_HOST_NAME}.json`);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, manifest + '\n');
+    written.push(file);
+  }
+  return written;
+}
+
+/**
+ * Browsers start the host directly, so it needs an executable wrapper
+ * that runs this script with the current Node or Electron binary
+ */
+function writeLauncher(dir: string): string {
+  const launcher = path.join(dir, 'browser-bridge-host');
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    launcher,
+    `#!/bin/sh\nELECTRON_RUN_AS_NODE=1 exec "${process.execPath}" "${__filename}" "$@"\n`,
+    { mode: 0o755 },
+  );
+  return launcher;
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+
+  if (args[0] === '--install') {
+    const ids = args.slice(1);
+    const launcher = writeLauncher(path.join(os.homedir(), '.sync-desktop'));
+    // stdout is free here: no browser is attached
+    for (const file of installNativeHostManifests(launcher, ids)) {
+      console.log(`[browser-host] Installed ${file}`);
+    }
+  } else {
+    // Started by the browser: stdout carries protocol frames, so never log to it
+    runNativeHost({ input: process.stdin, output: process.stdout }).then(() => process.exit(0));
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Capture Sources
+ *
+ * Plugin interface between the context event pipeline and whatever
+ * produces captures. A source starts and stops itself, reports its health
+ * and emits typed captures on 'capture'; the pipeline runs each one
+ * through the privacy policy, PII stripping and classification.
+ *
+ * Sources are created from a registry of factories, so a new source
+ * (browser bridge, terminal history, git activity) is one definition and
+ * no pipeline changes. A source that is disabled in the config should
+ * still be created and simply not start.
+ */
+
+import { AccessibilityCaptureService } from './accessibilityCapture';
+import { BrowserBridgeSource } from './browserBridge';
+import { FileWatcherService } from './fileWatcher';
+import { GitActivitySource } from './gitActivity';
+import { ShellHistorySource } from './shellHistory';
+import type {
+  CapturePrivacyClass,
+  CaptureSourceHealth,
+  DeepContextEngineConfig,
+  SourceCapture,
+} from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CaptureSource {
+  readonly id: string;
+  readonly privacyClass: CapturePrivacyClass;
+  start(): void;
+  stop(): void;
+  health(): CaptureSourceHealth;
+  updateConfig?(config: Partial<DeepContextEngineConfig>): void;
+  on(event: 'capture', listener: (capture: SourceCapture) => void): this;
+  off(event: 'capture', listener: (capture: SourceCapture) => void): this;
+}
+
+export interface CaptureSourceDefinition {
+  id: string;
+  create: (config: DeepContextEngineConfig) => CaptureSource;
+}
+
+export const BUILTIN_CAPTURE_SOURCES: CaptureSourceDefinition[] = [
+  { id: 'accessibility', create: (config) => new AccessibilityCaptureService(config) },
+  { id: 'file_watcher', create: (config) => new FileWatcherService(config) },
+  { id: 'git', create: (config) => new GitActivitySource(config) },
+  { id: 'shell', create: (config) => new ShellHistorySource(config) },
+  { id: 'browser', create: (config) => new BrowserBridgeSource(config) },
+];
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class CaptureSourceRegistry {
+  private definitions: CaptureSourceDefinition[] = [];
+
+  constructor(definitions: CaptureSourceDefinition[] = BUILTIN_CAPTURE_SOURCES) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * @throws Error if the id is taken
+   */
+  register(definition: CaptureSourceDefinition): void {
+    if (this.definitions.some((d) => d.id === definition.id)) {
+      throw new Error(`Capture source already registered: ${definition.id}`);
+    }
+    this.definitions.push(definition);
+  }
+
+  unregister(id: string): boolean {
+    const before = this.definitions.length;
+    this.definitions = this.definitions.filter((d) => d.id !== id);
+    return this.definitions.length < before;
+  }
+
+  list(): string[] {
+    return this.definitions.map((d) => d.id);
+  }
+
+  /**
+   * Instantiate every registered source, in registration order
+   *
+   * @throws Error if a factory returns a source with a different id
+   */
+  createAll(config: DeepContextEngineConfig): CaptureSource[] {
+    return this.definitions.map((definition) => {
+      const source = definition.create(config);
+      if (source.id !== definition.id) {
+        throw new Error(`Capture source ${definition.id} created a source with id ${source.id}`);
+      }
+      return source;
+    });
+  }
+}
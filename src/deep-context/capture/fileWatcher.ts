@@ -13,7 +13,13 @@ import { EventEmitter } from 'events';
 import fs from 'fs';
 import path from 'path';
 import { app } from 'electron';
-import type { FileChangeEvent, DeepContextEngineConfig } from '../types';
+import type { CaptureSource } from './captureSource';
+import type {
+  CaptureSourceHealth,
+  DeepContextEngineConfig,
+  FileChangeEvent,
+  SourceCapture,
+} from '../types';
 
 // ============================================================================
 // Constants
@@ -54,16 +60,45 @@ const IGNORED_PATTERNS = [
   '~$', // Office temp files
 ];
 
+// ============================================================================
+// Watched Directories
+// ============================================================================
+
+/**
+ * The configured directories, or ~/Desktop, ~/Documents and ~/Downloads.
+ * Directories that do not exist are skipped.
+ */
+export function resolveWatchDirectories(config: DeepContextEngineConfig): string[] {
+  if (config.watchedDirectories.length > 0) {
+    return config.watchedDirectories.filter((d) => fs.existsSync(d));
+  }
+
+  // Default: watch common user directories
+  const homeDir = app.getPath('home');
+  const defaults = [
+    path.join(homeDir, 'Desktop'),
+    path.join(homeDir, 'Documents'),
+    path.join(homeDir, 'Downloads'),
+  ];
+
+  return defaults.filter((d) => fs.existsSync(d));
+}
+
 // ============================================================================
 // File Watcher Service
 // ============================================================================
 
-export class FileWatcherService extends EventEmitter {
+export class FileWatcherService extends EventEmitter implements CaptureSource {
+  readonly id = 'file_watcher';
+  readonly privacyClass = 'metadata' as const;
+
   private watchers: Map<string, fs.FSWatcher> = new Map();
   private isRunning: boolean = false;
   private config: DeepContextEngineConfig;
   private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
   private eventCount: number = 0;
+  private lastEventAt: number | null = null;
+  private lastError: string | null = null;
 
   constructor(config: DeepContextEngineConfig) {
     super();
@@ -88,6 +123,7 @@ export class FileWatcherService extends EventEmitter {
     console.log('[fileWatcher] Starting file watcher');
 
     this.isRunning = true;
+    this.lastError = null;
 
     // Get directories to watch
     const directories = this.getWatchDirectories();
@@ -123,19 +159,7 @@ export class FileWatcherService extends EventEmitter {
   // ============================================================================
 
   private getWatchDirectories(): string[] {
-    if (this.config.watchedDirectories.length > 0) {
-      return this.config.watchedDirectories.filter((d) => fs.existsSync(d));
-    }
-
-    // Default: watch common user directories
-    const homeDir = app.getPath('home');
-    const defaults = [
-      path.join(homeDir, 'Desktop'),
-      path.join(homeDir, 'Documents'),
-      path.join(homeDir, 'Downloads'),
-    ];
-
-    return defaults.filter((d) => fs.existsSync(d));
+    return resolveWatchDirectories(this.config);
   }
 
   private watchDirectory(dirPath: string): void {
@@ -149,6 +173,7 @@ export class FileWatcherService extends EventEmitter {
 
       watcher.on('error', (error) => {
         console.error(`[fileWatcher] Error watching ${dirPath}:`, error);
+        this.lastError = String(error);
         // Remove and potentially re-add
         this.watchers.delete(dirPath);
       });
@@ -157,6 +182,7 @@ export class FileWatcherService extends EventEmitter {
       console.log(`[fileWatcher] Watching: ${dirPath}`);
     } catch (error) {
       console.error(`[fileWatcher] Failed to watch ${dirPath}:`, error);
+      this.lastError = String(error);
     }
   }
 
@@ -221,12 +247,13 @@ export class FileWatcherService extends EventEmitter {
     };
 
     this.eventCount++;
+    this.lastEventAt = event.timestamp;
 
     console.log(
       `[fileWatcher] ${fileEventType}: ${event.fileName} (${extension})`
     );
 
-    this.emit('fileChange', event);
+    this.emit('capture', { kind: 'file_change', data: event } as SourceCapture);
   }
 
   // ============================================================================
@@ -258,6 +285,18 @@ export class FileWatcherService extends EventEmitter {
     return this.isRunning;
   }
 
+  /**
+   * Degraded when a directory failed to watch or its watcher errored since start
+   */
+  health(): CaptureSourceHealth {
+    return {
+      status: !this.isRunning ? 'stopped' : this.lastError ? 'degraded' : 'running',
+      captureCount: this.eventCount,
+      lastCaptureAt: this.lastEventAt,
+      lastError: this.lastError,
+    };
+  }
+
   getStats(): {
     isRunning: boolean;
     watchedDirectories: number;
@@ -0,0 +1,487 @@
+/**
+ * Git Activity Source
+ *
+ * Finds git repositories under the watched directories and turns the
+ * HEAD reflog (`.git/logs/HEAD`) into activity captures:
+ * - commits, with file and line counts from `git show --shortstat`
+ * - branch switches; switching to a work branch (feat/ABC-123-login)
+ *   starts a task
+ * - finished rebases
+ *
+ * Only names and counts are recorded: no commit messages, no diffs.
+ * The reflog is tailed from where it was when the repo was discovered, so
+ * history from before the app started is never replayed.
+ *
+ * Every event carries `entities: [repository, branch, ticket?]`; the
+ * entity registry reads them as project and branch entities.
+ */
+
+import { execFile } from 'child_process';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { resolveWatchDirectories } from './fileWatcher';
+import type { CaptureSource } from './captureSource';
+import type {
+  ActivityCapture,
+  CaptureSourceHealth,
+  DeepContextEngineConfig,
+  SourceCapture,
+} from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const GIT_APPLICATION = 'Git';
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const RESCAN_INTERVAL_MS = 10 * 60 * 1000;
+const EXEC_TIMEOUT_MS = 5000;
+const MAX_SCAN_DEPTH = 4;
+const MAX_REPOSITORIES = 100;
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'Library', 'vendor', 'dist', 'build', '__pycache__']);
+
+// <old> <new> <name> <<email>> <unix seconds> <tz>\t<message>
+const REFLOG_LINE = /^([0-9a-f]{40,64}) ([0-9a-f]{40,64}) .*> (\d+) [+-]\d{4}\t(.*)$/;
+const COMMIT_MESSAGE = /^commit(?: \((initial|amend|merge)\))?: /;
+const CHECKOUT_MESSAGE = /^checkout: moving from (\S+) to (\S+)$/;
+const REBASE_START_MESSAGE = /^rebase(?: -i)? \(start\): checkout (\S+)$/;
+const REBASE_FINISH_MESSAGE = /^rebase(?: -i)? \(finish\): returning to refs\/heads\/(\S+)$/;
+const SHA_PATTERN = /^[0-9a-f]{7,64}$/;
+
+const WORK_BRANCH_PATTERN = /^(?:[\w.-]+\/)?(feat|feature|fix|bugfix|hotfix|chore|refactor|docs|perf|test)\/(.+)$/i;
+const PR_BRANCH_PATTERN = /^(?:pr|pull)\/(\d+)(?:\/|$)/i;
+const TICKET_PATTERN = /(?:^|[/_-])([A-Z][A-Z0-9]{1,9}-\d{1,6})(?=$|[/_-])/;
+const ISSUE_NUMBER_PATTERN = /^(\d{1,6})(?=$|[/_-])/;
+
+const WORK_KIND: Record<string, string> = {
+  feat: 'feature', feature: 'feature',
+  fix: 'fix', bugfix: 'fix', hotfix: 'hotfix',
+  chore: 'chore', refactor: 'refactor', docs: 'docs', perf: 'performance', test: 'tests',
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WorkBranch {
+  kind: string; // feature, fix, hotfix, ... or 'pull request'
+  ticket: string | null; // ABC-123, or #42 for pr/42 and fix/42-crash
+}
+
+interface RepositoryState {
+  root: string;
+  name: string;
+  reflogPath: string;
+  headPath: string;
+  offset: number;
+  branch: string | null;
+  rebaseOnto: string | null;
+}
+
+export interface GitActivityOptions {
+  pollIntervalMs?: number;
+  rescanIntervalMs?: number;
+  runGit?: (cwd: string, args: string[]) => Promise<string>;
+}
+
+// ============================================================================
+// Branch Names
+// ============================================================================
+
+/**
+ * Recognise PR-style branch names: `feat/ABC-123-login`, `jan/fix/crash`,
+ * `fix/42-typo`, `pr/42`. Default and personal branches return null.
+ * Ticket keys must be upper case; `login-page-2` is not a ticket.
+ */
+export function parseWorkBranch(branch: string): WorkBranch | null {
+  const pr = branch.match(PR_BRANCH_PATTERN);
+  if (pr) return { kind: 'pull request', ticket: `#${pr[1]}` };
+
+  const work = branch.match(WORK_BRANCH_PATTERN);
+  if (!work) return null;
+
+  const ticket = work[2].match(TICKET_PATTERN)?.[1];
+  const issue = work[2].match(ISSUE_NUMBER_PATTERN)?.[1];
+  return {
+    kind: WORK_KIND[work[1].toLowerCase()],
+    ticket: ticket ?? (issue ? `#${issue}` : null),
+  };
+}
+
+/**
+ * Parse `git --shortstat` output, e.g. " 3 files changed, 42 insertions(+), 7 deletions(-)"
+ */
+export function parseShortstat(output: string): { files: number; insertions: number; deletions: number } {
+  const count = (pattern: RegExp) => Number(output.match(pattern)?.[1] ?? 0);
+  return {
+    files: count(/(\d+) files? changed/),
+    insertions: count(/(\d+) insertions?\(\+\)/),
+    deletions: count(/(\d+) deletions?\(-\)/),
+  };
+}
+
+function defaultRunGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, timeout: EXEC_TIMEOUT_MS }, (error, stdout) => {
+      if (error) reject(error);
+      else resolve(stdout);
+    });
+  });
+}
+
+// ============================================================================
+// Git Activity Source
+// ============================================================================
+
+export class GitActivitySource extends EventEmitter implements CaptureSource {
+  readonly id = 'git';
+  readonly privacyClass = 'metadata' as const;
+
+  private config: DeepContextEngineConfig;
+  private options: Required<GitActivityOptions>;
+  private repositories: Map<string, RepositoryState> = new Map();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private rescanTimer: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private polling: boolean = false;
+  private captureCount: number = 0;
+  private lastCaptureAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(config: DeepContextEngineConfig, options: GitActivityOptions = {}) {
+    super();
+    this.config = config;
+    this.options = {
+      pollIntervalMs: options.pollIntervalMs ?? POLL_INTERVAL_MS,
+      rescanIntervalMs: options.rescanIntervalMs ?? RESCAN_INTERVAL_MS,
+      runGit: options.runGit ?? defaultRunGit,
+    };
+  }
+
+  // ============================================================================
+  // Lifecycle
+  // ============================================================================
+
+  start(): void {
+    if (this.isRunning) return;
+
+    if (!this.config.gitActivityEnabled) {
+      console.log('[git] Git activity disabled');
+      return;
+    }
+
+    console.log('[git] Starting git activity source');
+    this.isRunning = true;
+    this.lastError = null;
+
+    void this.scan();
+
+    this.pollTimer = setInterval(() => void this.poll(), this.options.pollIntervalMs);
+    this.pollTimer.unref?.();
+    this.rescanTimer = setInterval(() => void this.scan(), this.options.rescanIntervalMs);
+    this.rescanTimer.unref?.();
+  }
+
+  stop(): void {
+    if (!this.isRunning) return;
+
+    console.log('[git] Stopping git activity source');
+    this.isRunning = false;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.rescanTimer) {
+      clearInterval(this.rescanTimer);
+      this.rescanTimer = null;
+    }
+    this.repositories.clear();
+  }
+
+  updateConfig(config: Partial<DeepContextEngineConfig>): void {
+    this.config = { ...this.config, ...config };
+
+    if (config.gitActivityEnabled === false) {
+      this.stop();
+    } else if (this.isRunning && config.watchedDirectories) {
+      void this.scan();
+    }
+  }
+
+  // ============================================================================
+  // Discovery
+  // ============================================================================
+
+  /**
+   * Find repositories under the watched directories. Known repositories
+   * keep their reflog position; new ones start at the end of theirs.
+   */
+  async scan(): Promise<void> {
+    if (!this.isRunning) return;
+
+    try {
+      const found = new Set<string>();
+      for (const dir of resolveWatchDirectories(this.config)) {
+        await this.findRepositories(dir, 0, found);
+      }
+
+      for (const root of found) {
+        if (!this.repositories.has(root)) {
+          const state = await this.openRepository(root);
+          if (state) this.repositories.set(root, state);
+        }
+      }
+      for (const root of this.repositories.keys()) {
+        if (!found.has(root)) this.repositories.delete(root);
+      }
+
+      console.log(`[git] Tracking ${this.repositories.size} repositories`);
+    } catch (error) {
+      this.lastError = String(error);
+      console.error('[git] Repository scan failed:', error);
+    }
+  }
+
+  private async findRepositories(dir: string, depth: number, found: Set<string>): Promise<void> {
+    if (found.size >= MAX_REPOSITORIES) return;
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // unreadable or gone
+    }
+
+    if (entries.some((e) => e.name === '.git')) {
+      found.add(dir);
+      return; // nested repos and submodules are not followed
+    }
+    if (depth >= MAX_SCAN_DEPTH) return;
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || SKIPPED_DIRECTORIES.has(entry.name)) continue;
+      await this.findRepositories(path.join(dir, entry.name), depth + 1, found);
+    }
+  }
+
+  private async openRepository(root: string): Promise<RepositoryState | null> {
+    const gitDir = await this.resolveGitDir(root);
+    if (!gitDir) return null;
+
+    const reflogPath = path.join(gitDir, 'logs', 'HEAD');
+    const headPath = path.join(gitDir, 'HEAD');
+    const size = await fs.promises.stat(reflogPath).then((s) => s.size, () => 0);
+
+    return {
+      root,
+      name: path.basename(root),
+      reflogPath,
+      headPath,
+      offset: size,
+      branch: await this.readBranch(headPath),
+      rebaseOnto: null,
+    };
+  }
+
+  /**
+   * `.git` is a directory, or for worktrees a file pointing at one
+   */
+  private async resolveGitDir(root: string): Promise<string | null> {
+    const dotGit = path.join(root, '.git');
+    try {
+      const stat = await fs.promises.stat(dotGit);
+      if (stat.isDirectory()) return dotGit;
+      const pointer = (await fs.promises.readFile(dotGit, 'utf8')).match(/^gitdir:\s*(.+)$/m);
+      return pointer ? path.resolve(root, pointer[1].trim()) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async readBranch(headPath: string): Promise<string | null> {
+    try {
+      const head = await fs.promises.readFile(headPath, 'utf8');
+      return head.match(/^ref: refs\/heads\/(.+)$/m)?.[1].trim() ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // Reflog Polling
+  // ============================================================================
+
+  /**
+   * Read new reflog lines in every repository and emit their captures
+   */
+  async poll(): Promise<void> {
+    if (!this.isRunning || this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const repo of this.repositories.values()) {
+        try {
+          for (const capture of await this.readRepository(repo)) {
+            if (!this.isRunning) return;
+            this.captureCount++;
+            this.lastCaptureAt = capture.timestamp;
+            this.emit('capture', { kind: 'activity', data: capture } as SourceCapture);
+          }
+        } catch (error) {
+          this.lastError = String(error);
+          console.error(`[git] Failed to read ${repo.name}:`, error);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async readRepository(repo: RepositoryState): Promise<ActivityCapture[]> {
+    const size = await fs.promises.stat(repo.reflogPath).then((s) => s.size, () => 0);
+    if (size < repo.offset) {
+      // Reflog expired or rewritten: start over from its end
+      repo.offset = size;
+      return [];
+    }
+    if (size === repo.offset) return [];
+
+    const handle = await fs.promises.open(repo.reflogPath, 'r');
+    let chunk: string;
+    try {
+      const buffer = Buffer.alloc(size - repo.offset);
+      await handle.read(buffer, 0, buffer.length, repo.offset);
+      chunk = buffer.toString('utf8');
+    } finally {
+      await handle.close();
+    }
+
+    // Leave a partly written last line for the next poll
+    const complete = chunk.lastIndexOf('\n') + 1;
+    repo.offset += Buffer.byteLength(chunk.slice(0, complete));
+
+    const captures: ActivityCapture[] = [];
+    for (const line of chunk.slice(0, complete).split('\n')) {
+      const capture = await this.parseReflogLine(repo, line);
+      if (capture) captures.push(capture);
+    }
+    return captures;
+  }
+
+  private async parseReflogLine(repo: RepositoryState, line: string): Promise<ActivityCapture | null> {
+    const match = line.match(REFLOG_LINE);
+    if (!match) return null;
+    const [, , newSha, seconds, message] = match;
+    const timestamp = Number(seconds) * 1000;
+
+    const commit = message.match(COMMIT_MESSAGE);
+    if (commit) {
+      const stat = parseShortstat(
+        await this.options.runGit(repo.root, ['show', '--shortstat', '--format=', '--diff-merges=first-parent', newSha]),
+      );
+      const where = repo.branch ? `${repo.name} on ${repo.branch}` : repo.name;
+      const files = `${stat.files} ${stat.files === 1 ? 'file' : 'files'}`;
+      return this.capture(repo, {
+        timestamp,
+        eventType: 'task_completed',
+        summary: `${commit[1] === 'amend' ? 'Amended a commit' : 'Committed'} in ${where}: ${files}, +${stat.insertions} -${stat.deletions}`,
+        intent: commit[1] === 'amend' ? 'amend commit' : 'commit',
+      });
+    }
+
+    const checkout = message.match(CHECKOUT_MESSAGE);
+    if (checkout) {
+      const to = checkout[2];
+      if (SHA_PATTERN.test(to)) {
+        repo.branch = null; // detached HEAD
+        return null;
+      }
+      if (to === repo.branch) return null;
+      repo.branch = to;
+      const work = parseWorkBranch(to);
+      if (work) {
+        return this.capture(repo, {
+          timestamp,
+          eventType: 'task_started',
+          summary: `Switched to ${work.kind} branch ${to} in ${repo.name}${work.ticket ? ` (${work.ticket})` : ''}`,
+          intent: `work on ${work.kind}`,
+        });
+      }
+      return this.capture(repo, {
+        timestamp,
+        eventType: 'context_switch',
+        summary: `Switched from ${checkout[1]} to ${to} in ${repo.name}`,
+        intent: 'switch branch',
+      });
+    }
+
+    const rebaseStart = message.match(REBASE_START_MESSAGE);
+    if (rebaseStart) {
+      repo.rebaseOnto = rebaseStart[1];
+      return null;
+    }
+
+    const rebaseFinish = message.match(REBASE_FINISH_MESSAGE);
+    if (rebaseFinish) {
+      repo.branch = rebaseFinish[1];
+      const onto = repo.rebaseOnto && !SHA_PATTERN.test(repo.rebaseOnto) ? ` onto ${repo.rebaseOnto}` : '';
+      repo.rebaseOnto = null;
+      return this.capture(repo, {
+        timestamp,
+        eventType: 'task_completed',
+        summary: `Rebased ${repo.branch}${onto} in ${repo.name}`,
+        intent: 'rebase',
+      });
+    }
+
+    return null;
+  }
+
+  private capture(
+    repo: RepositoryState,
+    event: Pick<ActivityCapture, 'timestamp' | 'eventType' | 'summary' | 'intent'>,
+  ): ActivityCapture {
+    const ticket = repo.branch ? parseWorkBranch(repo.branch)?.ticket : null;
+    return {
+      ...event,
+      appName: GIT_APPLICATION,
+      windowTitle: repo.name,
+      filePath: repo.root,
+      entities: [repo.name, ...(repo.branch ? [repo.branch] : []), ...(ticket ? [ticket] : [])],
+      confidence: 0.95,
+    };
+  }
+
+  // ============================================================================
+  // Status
+  // ============================================================================
+
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  health(): CaptureSourceHealth {
+    return {
+      status: !this.isRunning ? 'stopped' : this.lastError ? 'degraded' : 'running',
+      captureCount: this.captureCount,
+      lastCaptureAt: this.lastCaptureAt,
+      lastError: this.lastError,
+    };
+  }
+
+  getStats(): {
+    isRunning: boolean;
+    repositories: number;
+    eventCount: number;
+  } {
+    return {
+      isRunning: this.isRunning,
+      repositories: this.repositories.size,
+      eventCount: this.captureCount,
+    };
+  }
+}
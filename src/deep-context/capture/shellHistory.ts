@@ -0,0 +1,515 @@
+/**
+ * Shell History Source
+ *
+ * Tails zsh, bash and fish history files and turns each command into an
+ * activity capture with its tool, subcommand and category (deploy, test,
+ * build, ...). The category becomes the event's intent, which the activity
+ * rule engine maps to OPERATING/deploying, OPERATING/testing_infra, etc.
+ *
+ * History files have no working directory or exit status. A shell hook
+ * can append one line per command to a hook file instead:
+ *
+ *   <start seconds>\t<end seconds>\t<exit status>\t<cwd>\t<command>
+ *
+ * When the hook file exists, history files are not read, so commands are
+ * not recorded twice. Commands go through the privacy policy and PII
+ * stripping in the pipeline like any other capture, which removes tokens
+ * and `PASSWORD=...` style secrets.
+ */
+
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { CaptureSource } from './captureSource';
+import type {
+  ActivityCapture,
+  CaptureSourceHealth,
+  ContextEventType,
+  DeepContextEngineConfig,
+  SourceCapture,
+} from '../types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SHELL_APPLICATION = 'Shell';
+
+const POLL_INTERVAL_MS = 15 * 1000;
+const MAX_COMMAND_LENGTH = 300;
+
+// Navigation and housekeeping, not work
+const IGNORED_TOOLS = new Set(['ls', 'll', 'la', 'cd', 'z', 'pwd', 'clear', 'exit', 'history', 'fg', 'bg', 'jobs']);
+
+// Prefixes that run the real command
+const WRAPPERS = new Set(['sudo', 'time', 'nohup', 'env', 'command', 'exec', 'noglob', 'caffeinate']);
+const RUNNERS = new Set(['npx', 'bunx', 'pnpx']);
+const SCRIPT_RUNNERS = new Set(['npm', 'yarn', 'pnpm', 'bun']);
+
+// zsh extended history: ": <start>:<elapsed>;<command>"
+const ZSH_EXTENDED_LINE = /^: (\d+):(\d+);(.*)$/;
+// bash with HISTTIMEFORMAT: "#<start>" before each command
+const BASH_TIMESTAMP_LINE = /^#(\d{9,})$/;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CommandCategory =
+  | 'deploy'
+  | 'test'
+  | 'build'
+  | 'infrastructure'
+  | 'monitor'
+  | 'install packages'
+  | 'version control'
+  | 'run command';
+
+export interface ParsedCommand {
+  tool: string;
+  subcommand: string | null;
+  category: CommandCategory;
+}
+
+export interface ShellCommand extends ParsedCommand {
+  command: string;
+  timestamp: number;
+  cwd: string | null;
+  exitStatus: number | null;
+  durationMs: number | null;
+}
+
+interface TailedFile {
+  path: string;
+  format: 'sh' | 'fish' | 'hook';
+  offset: number;
+}
+
+export interface ShellHistoryOptions {
+  pollIntervalMs?: number;
+  now?: () => number;
+}
+
+// Highest first: a line that tests and then deploys is a deploy
+const CATEGORY_PRIORITY: CommandCategory[] = [
+  'deploy', 'test', 'build', 'infrastructure', 'monitor', 'install packages', 'version control', 'run command',
+];
+
+// ============================================================================
+// Command Semantics
+// ============================================================================
+
+function categorize(tool: string, sub: string | null, args: string[]): CommandCategory {
+  const rest = args.join(' ');
+  const script = SCRIPT_RUNNERS.has(tool) && sub?.startsWith('run ') ? sub.slice(4) : null;
+
+  // Deploys and releases
+  if (script && /^(deploy|release|publish)/.test(script)) return 'deploy';
+  if (SCRIPT_RUNNERS.has(tool) && sub === 'publish') return 'deploy';
+  if (['vercel', 'netlify', 'fly', 'flyctl', 'firebase', 'serverless', 'sls', 'eb', 'cap'].includes(tool)
+      && (sub === null || sub === 'deploy' || sub === '--prod')) return 'deploy';
+  // kubectl options often come first (-n prod rollout ...), so look at every argument
+  if (tool === 'kubectl' && ['apply', 'rollout', 'scale', 'set'].some((verb) => args.includes(verb))) return 'deploy';
+  if (tool === 'helm' && ['install', 'upgrade', 'rollback'].includes(sub ?? '')) return 'deploy';
+  if (tool === 'terraform' && ['apply', 'destroy'].includes(sub ?? '')) return 'deploy';
+  if (tool === 'pulumi' && sub === 'up') return 'deploy';
+  if (tool === 'docker' && sub === 'push') return 'deploy';
+  if (tool === 'gcloud' && /\bdeploy\b/.test(rest)) return 'deploy';
+  if (tool === 'aws' && /\b(deploy|s3 sync)\b/.test(`${sub} ${rest}`)) return 'deploy';
+  if (tool === 'supabase' && /\b(deploy|db push)\b/.test(`${sub} ${rest}`)) return 'deploy';
+  if (tool === 'git' && sub === 'push' && /\bheroku\b/.test(rest)) return 'deploy';
+
+  // Tests
+  if (['jest', 'vitest', 'pytest', 'mocha', 'cypress', 'playwright', 'rspec', 'phpunit', 'tox', 'ava'].includes(tool)) return 'test';
+  if (SCRIPT_RUNNERS.has(tool) && (sub === 'test' || sub === 't' || script?.startsWith('test'))) return 'test';
+  if (['go', 'cargo', 'swift', 'dotnet', 'mvn', 'gradle', 'make', 'deno', 'mix'].includes(tool) && sub === 'test') return 'test';
+  if (tool === 'xcodebuild' && args.includes('test')) return 'test';
+
+  // Builds
+  if (script?.startsWith('build') || (SCRIPT_RUNNERS.has(tool) && sub === 'build')) return 'build';
+  if (['tsc', 'webpack', 'rollup', 'esbuild', 'xcodebuild', 'cmake', 'gcc', 'clang'].includes(tool)) return 'build';
+  if (tool === 'make') return 'build';
+  if (['go', 'cargo', 'swift', 'dotnet', 'gradle', 'vite', 'next'].includes(tool) && sub === 'build') return 'build';
+  if (tool === 'mvn' && ['package', 'install', 'compile'].includes(sub ?? '')) return 'build';
+  if (tool === 'docker' && sub === 'build') return 'build';
+
+  // Infrastructure and monitoring
+  if (['kubectl', 'docker', 'stern'].includes(tool) && sub === 'logs') return 'monitor';
+  if (['htop', 'top', 'journalctl', 'stern', 'k9s'].includes(tool)) return 'monitor';
+  if (tool === 'tail' && args.includes('-f')) return 'monitor';
+  if (['terraform', 'kubectl', 'helm', 'docker', 'docker-compose', 'ansible', 'ansible-playbook', 'pulumi', 'aws', 'gcloud', 'az', 'ssh'].includes(tool)) {
+    return 'infrastructure';
+  }
+
+  // Dependencies
+  if (SCRIPT_RUNNERS.has(tool) && ['install', 'i', 'ci', 'add', 'update', 'upgrade', 'remove', 'uninstall'].includes(sub ?? '')) return 'install packages';
+  if (['pip', 'pip3', 'brew', 'apt', 'apt-get', 'poetry', 'bundle', 'gem', 'composer'].includes(tool)
+      && ['install', 'add', 'update', 'upgrade', 'remove', 'uninstall'].includes(sub ?? '')) return 'install packages';
+  if ((tool === 'cargo' && sub === 'add') || (tool === 'go' && sub === 'get')) return 'install packages';
+
+  if (['git', 'gh', 'hg', 'svn'].includes(tool)) return 'version control';
+  return 'run command';
+}
+
+/**
+ * Split a command on unquoted whitespace
+ */
+function tokenize(segment: string): string[] {
+  return segment.match(/'[^']*'|"[^"]*"|\S+/g) ?? [];
+}
+
+function parseSegment(segment: string): ParsedCommand | null {
+  const tokens = tokenize(segment);
+  let i = 0;
+
+  // Skip VAR=value prefixes and wrappers (sudo, time, env ...)
+  while (i < tokens.length && (/^\w+=/.test(tokens[i]) || WRAPPERS.has(tokens[i]))) i++;
+  if (i < tokens.length && RUNNERS.has(tokens[i])) i++;
+  if (i >= tokens.length) return null;
+
+  const tool = path.basename(tokens[i]).toLowerCase();
+  const args = tokens.slice(i + 1);
+  const first = args.findIndex((arg) => !arg.startsWith('-'));
+  let subcommand = first >= 0 ? args[first] : null;
+
+  // docker compose up / npm run build
+  if (tool === 'docker' && subcommand === 'compose') {
+    return { tool: 'docker-compose', subcommand: args[first + 1] ?? null, category: 'infrastructure' };
+  }
+  if (SCRIPT_RUNNERS.has(tool) && subcommand === 'run' && args[first + 1]) {
+    subcommand = `run ${args[first + 1]}`;
+  }
+
+  return { tool, subcommand, category: categorize(tool, subcommand, args) };
+}
+
+/**
+ * Find the tool, subcommand and category of a command line. Chained
+ * commands (`&&`, `||`, `;`, `|`) are described by their most significant
+ * part. Navigation commands (cd, ls) return null.
+ */
+export function parseShellCommand(line: string): ParsedCommand | null {
+  const parsed = line
+    .split(/&&|\|\||;|\|/)
+    .map((segment) => parseSegment(segment.trim()))
+    .filter((p): p is ParsedCommand => p !== null && !IGNORED_TOOLS.has(p.tool));
+  if (parsed.length === 0) return null;
+
+  return parsed.reduce((best, next) =>
+    CATEGORY_PRIORITY.indexOf(next.category) < CATEGORY_PRIORITY.indexOf(best.category) ? next : best);
+}
+
+// ============================================================================
+// History Formats
+// ============================================================================
+
+/**
+ * zsh writes bytes >= 0x83 as 0x83 followed by the byte XOR 32
+ */
+export function unmetafyZsh(buffer: Buffer): Buffer {
+  if (!buffer.includes(0x83)) return buffer;
+  const out = Buffer.alloc(buffer.length);
+  let j = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    out[j++] = buffer[i] === 0x83 && i + 1 < buffer.length ? buffer[++i] ^ 32 : buffer[i];
+  }
+  return out.subarray(0, j);
+}
+
+type HistoryEntry = Pick<ShellCommand, 'command' | 'timestamp' | 'cwd' | 'exitStatus' | 'durationMs'>;
+
+/**
+ * Parse zsh or bash history lines. Lines ending in a backslash continue
+ * the command on the next line.
+ */
+export function parseShHistory(text: string, now: number): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  let pendingTimestamp: number | null = null;
+  let current: HistoryEntry | null = null;
+
+  for (const line of text.split('\n')) {
+    if (current) {
+      current.command += `\n${line.replace(/\\$/, '')}`;
+      if (!line.endsWith('\\')) current = null;
+      continue;
+    }
+
+    const stamp = line.match(BASH_TIMESTAMP_LINE);
+    if (stamp) {
+      pendingTimestamp = Number(stamp[1]) * 1000;
+      continue;
+    }
+
+    const extended = line.match(ZSH_EXTENDED_LINE);
+    const command = extended ? extended[3] : line;
+    if (!command.trim()) continue;
+
+    const entry: HistoryEntry = {
+      command: command.replace(/\\$/, ''),
+      timestamp: extended ? Number(extended[1]) * 1000 : pendingTimestamp ?? now,
+      cwd: null,
+      exitStatus: null,
+      // zsh only records elapsed time once the command finishes
+      durationMs: extended && extended[2] !== '0' ? Number(extended[2]) * 1000 : null,
+    };
+    pendingTimestamp = null;
+    entries.push(entry);
+    if (command.endsWith('\\')) current = entry;
+  }
+  return entries;
+}
+
+/**
+ * Parse fish history ("- cmd: ..." followed by "  when: ...")
+ */
+export function parseFishHistory(text: string, now: number): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  for (const line of text.split('\n')) {
+    const cmd = line.match(/^- cmd: (.*)$/);
+    if (cmd) {
+      const command = cmd[1].replace(/\\n/g, '\n').replace(/\\\\/g, '\\');
+      entries.push({ command, timestamp: now, cwd: null, exitStatus: null, durationMs: null });
+      continue;
+    }
+    const when = line.match(/^\s+when: (\d+)$/);
+    if (when && entries.length > 0) entries[entries.length - 1].timestamp = Number(when[1]) * 1000;
+  }
+  return entries;
+}
+
+/**
+ * Parse hook lines: start, end, exit status, cwd and command, tab-separated
+ */
+export function parseHookLines(text: string): HistoryEntry[] {
+  const entries: HistoryEntry[] = [];
+  for (const line of text.split('\n')) {
+    const [start, end, exit, cwd, ...command] = line.split('\t');
+    if (command.length === 0 || !/^\d+$/.test(start)) continue;
+    const startMs = Number(start) * 1000;
+    entries.push({
+      command: command.join('\t'),
+      timestamp: startMs,
+      cwd: cwd || null,
+      exitStatus: /^\d+$/.test(exit) ? Number(exit) : null,
+      durationMs: /^\d+$/.test(end) ? Math.max(0, Number(end) * 1000 - startMs) : null,
+    });
+  }
+  return entries;
+}
+
+export function defaultShellHistoryFiles(): string[] {
+  const home = os.homedir();
+  const files = [
+    process.env.HISTFILE,
+    path.join(home, '.zsh_history'),
+    path.join(home, '.bash_history'),
+    path.join(home, '.local', 'share', 'fish', 'fish_history'),
+  ].filter((f): f is string => !!f);
+  return [...new Set(files)];
+}
+
+export function defaultShellHookFile(): string {
+  return path.join(os.homedir(), '.sync-desktop', 'shell-hook.tsv');
+}
+
+// ============================================================================
+// Shell History Source
+// ============================================================================
+
+export class ShellHistorySource extends EventEmitter implements CaptureSource {
+  readonly id = 'shell';
+  readonly privacyClass = 'metadata' as const;
+
+  private config: DeepContextEngineConfig;
+  private pollIntervalMs: number;
+  private now: () => number;
+  private files: TailedFile[] = [];
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private captureCount: number = 0;
+  private lastCaptureAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(config: DeepContextEngineConfig, options: ShellHistoryOptions = {}) {
+    super();
+    this.config = config;
+    this.pollIntervalMs = options.pollIntervalMs ?? POLL_INTERVAL_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  // ============================================================================
+  // Lifecycle
+  // ============================================================================
+
+  start(): void {
+    if (this.isRunning) return;
+
+    if (!this.config.shellHistoryEnabled) {
+      console.log('[shell] Shell history disabled');
+      return;
+    }
+
+    this.isRunning = true;
+    this.lastError = null;
+    this.files = this.openFiles();
+    console.log(`[shell] Tailing ${this.files.map((f) => f.path).join(', ') || 'no history files'}`);
+
+    this.pollTimer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.pollTimer.unref?.();
+  }
+
+  stop(): void {
+    if (!this.isRunning) return;
+
+    console.log('[shell] Stopping shell history source');
+    this.isRunning = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.files = [];
+  }
+
+  updateConfig(config: Partial<DeepContextEngineConfig>): void {
+    this.config = { ...this.config, ...config };
+
+    if (config.shellHistoryEnabled === false) {
+      this.stop();
+    } else if (this.isRunning && (config.shellHistoryFiles || config.shellHookFile)) {
+      this.files = this.openFiles();
+    }
+  }
+
+  /**
+   * The hook file if it exists, else every history file that exists.
+   * Reading starts at the current end of each file.
+   */
+  private openFiles(): TailedFile[] {
+    const hookPath = this.config.shellHookFile ?? defaultShellHookFile();
+    const candidates: Omit<TailedFile, 'offset'>[] = fs.existsSync(hookPath)
+      ? [{ path: hookPath, format: 'hook' }]
+      : (this.config.shellHistoryFiles ?? defaultShellHistoryFiles()).map((p) => ({
+        path: p,
+        format: path.basename(p).includes('fish') ? 'fish' : 'sh',
+      }));
+
+    return candidates
+      .filter((file) => fs.existsSync(file.path))
+      .map((file) => ({ ...file, offset: fs.statSync(file.path).size }));
+  }
+
+  // ============================================================================
+  // Tailing
+  // ============================================================================
+
+  /**
+   * Read what was appended to each file since the last poll and emit it
+   */
+  poll(): void {
+    if (!this.isRunning) return;
+
+    for (const file of this.files) {
+      try {
+        for (const entry of this.readFile(file)) {
+          const capture = this.toCapture(entry, file.format);
+          if (!capture) continue;
+          this.captureCount++;
+          this.lastCaptureAt = capture.timestamp;
+          this.emit('capture', { kind: 'activity', data: capture } as SourceCapture);
+        }
+      } catch (error) {
+        this.lastError = String(error);
+        console.error(`[shell] Failed to read ${file.path}:`, error);
+      }
+    }
+  }
+
+  private readFile(file: TailedFile): HistoryEntry[] {
+    const size = fs.existsSync(file.path) ? fs.statSync(file.path).size : 0;
+    if (size < file.offset) {
+      // Truncated or rewritten (zsh saves on exit): continue from the new end
+      file.offset = size;
+      return [];
+    }
+    if (size === file.offset) return [];
+
+    const buffer = Buffer.alloc(size - file.offset);
+    const fd = fs.openSync(file.path, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, file.offset);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    // Leave a partly written last line for the next poll
+    const complete = buffer.lastIndexOf(0x0a) + 1;
+    file.offset += complete;
+    const bytes = buffer.subarray(0, complete);
+    const text = (file.format === 'sh' ? unmetafyZsh(bytes) : bytes).toString('utf8');
+
+    switch (file.format) {
+      case 'hook': return parseHookLines(text);
+      case 'fish': return parseFishHistory(text, this.now());
+      default: return parseShHistory(text, this.now());
+    }
+  }
+
+  private toCapture(entry: HistoryEntry, format: TailedFile['format']): ActivityCapture | null {
+    // A leading space hides a command from history by convention
+    if (entry.command.startsWith(' ')) return null;
+    const parsed = parseShellCommand(entry.command);
+    if (!parsed) return null;
+
+    const command = entry.command.replace(/\s+/g, ' ').trim().slice(0, MAX_COMMAND_LENGTH);
+    const details = [
+      entry.cwd ? `in ${path.basename(entry.cwd)}` : null,
+      entry.exitStatus !== null ? `exit ${entry.exitStatus}` : null,
+      entry.durationMs !== null ? `${Math.round(entry.durationMs / 1000)}s` : null,
+    ].filter(Boolean).join(', ');
+
+    const finished = entry.exitStatus === 0 && ['deploy', 'test', 'build'].includes(parsed.category);
+    const eventType: ContextEventType = finished ? 'task_completed' : 'task_started';
+
+    return {
+      timestamp: entry.timestamp,
+      eventType,
+      appName: SHELL_APPLICATION,
+      windowTitle: parsed.subcommand ? `${parsed.tool} ${parsed.subcommand}` : parsed.tool,
+      filePath: entry.cwd ?? undefined,
+      summary: `Ran ${command}${details ? ` (${details})` : ''}`,
+      entities: [parsed.tool],
+      intent: parsed.category,
+      confidence: format === 'hook' ? 0.95 : 0.85,
+    };
+  }
+
+  // ============================================================================
+  // Status
+  // ============================================================================
+
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  health(): CaptureSourceHealth {
+    return {
+      status: !this.isRunning ? 'stopped' : this.lastError ? 'degraded' : 'running',
+      captureCount: this.captureCount,
+      lastCaptureAt: this.lastCaptureAt,
+      lastError: this.lastError,
+    };
+  }
+
+  getStats(): {
+    isRunning: boolean;
+    files: string[];
+    eventCount: number;
+  } {
+    return {
+      isRunning: this.isRunning,
+      files: this.files.map((f) => f.path),
+      eventCount: this.captureCount,
+    };
+  }
+}
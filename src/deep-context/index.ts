@@ -16,24 +16,37 @@
  *   const events = engine.getRecentEvents(60);
  *   const commitments = engine.getCommitments();
  *   const summary = engine.getDailySummary();
+ *
+ * Extra capture sources are attached with registerCaptureSource(), or
+ * passed in as a CaptureSourceRegistry.
+ *
+ * Commitments found in events are recorded with the CommitmentService, in
+ * the same table as the screen capture pipeline's, so getCommitments()
+ * returns both.
  */
 
 import { EventEmitter } from 'events';
 import { ContextEventPipeline, PipelineEvent } from './pipeline/contextEventPipeline';
 import { ContextEventStore } from './store/contextEventStore';
+import type { CaptureSource, CaptureSourceRegistry } from './capture/captureSource';
+import { CommitmentService, toCommitmentType } from '../main/services/commitmentService';
 import type {
   ContextEvent,
   ContextEventType,
-  Commitment,
   SkillSignal,
   DailySummary,
   DeepContextEngineConfig,
   DEFAULT_ENGINE_CONFIG,
+  CaptureSourceStatus,
 } from './types';
+import type { CapturePreview, CapturePreviewInput, Commitment } from '../shared/types';
 
 // Re-export for convenience
 export { DeepContextEngineConfig, DEFAULT_ENGINE_CONFIG } from './types';
-export type { ContextEvent, Commitment, SkillSignal, DailySummary } from './types';
+export type { ContextEvent, DetectedCommitment, SkillSignal, DailySummary } from './types';
+export type { ActivityCapture, SourceCapture, CapturePrivacyClass, CaptureSourceHealth, CaptureSourceStatus } from './types';
+export { CaptureSourceRegistry, BUILTIN_CAPTURE_SOURCES } from './capture/captureSource';
+export type { CaptureSource, CaptureSourceDefinition } from './capture/captureSource';
 
 // ============================================================================
 // Deep Context Engine
@@ -42,12 +55,18 @@ export type { ContextEvent, Commitment, SkillSignal, DailySummary } from './type
 export class DeepContextEngine extends EventEmitter {
   private pipeline: ContextEventPipeline;
   private store: ContextEventStore;
+  private commitments: CommitmentService;
   private config: DeepContextEngineConfig;
   private cleanupInterval: NodeJS.Timeout | null = null;
   private running: boolean = false;
 
-  constructor(config?: Partial<DeepContextEngineConfig>) {
+  constructor(
+    config?: Partial<DeepContextEngineConfig>,
+    sources?: CaptureSourceRegistry,
+    commitments: CommitmentService = new CommitmentService()
+  ) {
     super();
+    this.commitments = commitments;
 
     // Import DEFAULT_ENGINE_CONFIG at runtime to avoid circular dependency issues
     const { DEFAULT_ENGINE_CONFIG: defaults } = require('./types');
@@ -57,11 +76,12 @@ export class DeepContextEngine extends EventEmitter {
     this.store = new ContextEventStore(this.config.encryptionEnabled);
 
     // Initialize pipeline
-    this.pipeline = new ContextEventPipeline(this.config, this.store);
+    this.pipeline = new ContextEventPipeline(this.config, this.store, sources);
 
     // Forward pipeline events
     this.pipeline.on('pipeline', (event: PipelineEvent) => {
       if (event.type === 'event_stored' && event.event) {
+        this.recordCommitments(event.event);
         this.emit('event', event.event);
       }
     });
@@ -98,15 +118,16 @@ export class DeepContextEngine extends EventEmitter {
       const stats = this.pipeline.getStats();
       console.log('[deep-context-engine] Pipeline status after start:', {
         pipelineRunning: stats.isRunning,
-        accessibilityRunning: stats.accessibilityStats.isRunning,
-        accessibilityCaptures: stats.accessibilityStats.captureCount,
-        accessibilityErrors: stats.accessibilityStats.consecutiveErrors,
+        accessibilityRunning: stats.accessibilityStats?.isRunning ?? false,
+        accessibilityCaptures: stats.accessibilityStats?.captureCount ?? 0,
+        accessibilityErrors: stats.accessibilityStats?.consecutiveErrors ?? 0,
+        sources: stats.sources.map((s) => `${s.id}:${s.status}`),
         processedCount: stats.processedCount,
         filteredCount: stats.filteredCount,
         duplicateCount: stats.duplicateCount,
         errorCount: stats.errorCount,
       });
-      if (!stats.accessibilityStats.isRunning) {
+      if (stats.accessibilityStats && !stats.accessibilityStats.isRunning) {
         console.warn('[deep-context-engine] Accessibility capture is NOT running — context_events will be empty. Check permissions.');
       }
     }, 5000);
@@ -144,6 +165,27 @@ export class DeepContextEngine extends EventEmitter {
     this.pipeline.updateConfig(config);
   }
 
+  // ============================================================================
+  // Capture Sources
+  // ============================================================================
+
+  /**
+   * Attach a capture source; it starts immediately if the engine is running
+   *
+   * @throws Error if a source with the same id is attached
+   */
+  registerCaptureSource(source: CaptureSource): void {
+    this.pipeline.addSource(source);
+  }
+
+  unregisterCaptureSource(id: string): boolean {
+    return this.pipeline.removeSource(id);
+  }
+
+  getCaptureSources(): CaptureSourceStatus[] {
+    return this.pipeline.getSourceStatuses();
+  }
+
   // ============================================================================
   // Query API
   // ============================================================================
@@ -170,10 +212,11 @@ export class DeepContextEngine extends EventEmitter {
   }
 
   /**
-   * Get all commitments detected in the last 24 hours.
+   * Get commitments from both detectors, by default those detected in the
+   * last 24 hours.
    */
-  getCommitments(since?: number): Commitment[] {
-    return this.store.getCommitments(since);
+  getCommitments(since?: number, until?: number): Commitment[] {
+    return this.commitments.list({ since: since ?? Date.now() - 24 * 60 * 60 * 1000, until });
   }
 
   /**
@@ -197,6 +240,34 @@ export class DeepContextEngine extends EventEmitter {
     return this.store.getCount();
   }
 
+  // ============================================================================
+  // Privacy Debugger
+  // ============================================================================
+
+  /**
+   * Show what the pipeline would store for a capture: the rules checked, the
+   * resulting privacy level and a diff of original vs stored text. Without
+   * input, the focused window is read now.
+   *
+   * @returns null when no live capture is available (not macOS, or no permission)
+   */
+  async previewCapture(input?: CapturePreviewInput): Promise<CapturePreview | null> {
+    if (input) return this.pipeline.previewCapture(input);
+
+    const live = await this.pipeline.readLiveCapture();
+    if (!live) return null;
+    return this.pipeline.previewCapture({
+      appName: live.appName,
+      windowTitle: live.windowTitle,
+      bundleId: live.bundleId,
+      url: live.url,
+      filePath: live.filePath,
+      visibleText: live.visibleText,
+      focusedElementText: live.focusedElementText,
+      timestamp: live.timestamp,
+    });
+  }
+
   // ============================================================================
   // Daily Summary
   // ============================================================================
@@ -242,15 +313,10 @@ export class DeepContextEngine extends EventEmitter {
       .sort((a, b) => b.duration - a.duration)
       .slice(0, 10);
 
-    // Collect commitments
-    const allCommitments: Commitment[] = [];
     const allSkillSignals: SkillSignal[] = [];
     const achievements: string[] = [];
 
     for (const event of events) {
-      if (event.semanticPayload.commitments) {
-        allCommitments.push(...event.semanticPayload.commitments);
-      }
       if (event.semanticPayload.skillSignals) {
         allSkillSignals.push(...event.semanticPayload.skillSignals);
       }
@@ -259,10 +325,11 @@ export class DeepContextEngine extends EventEmitter {
       }
     }
 
-    // Categorize commitments
-    const commitmentsMade = allCommitments.filter((c) => c.status === 'detected');
-    const commitmentsFollowedUp = allCommitments.filter((c) => c.status === 'fulfilled');
-    const commitmentsMissed = allCommitments.filter((c) => c.status === 'overdue');
+    // Commitments made that day, and those completed or missed that day
+    const dayEnd = endOfDay.getTime() + 1;
+    const commitmentsMade = this.commitments.list({ since: startOfDay.getTime(), until: dayEnd });
+    const commitmentsFollowedUp = this.commitments.listTransitionedTo(['completed'], startOfDay.getTime(), dayEnd);
+    const commitmentsMissed = this.commitments.listTransitionedTo(['overdue'], startOfDay.getTime(), dayEnd);
 
     // Count context switches
     const contextSwitchCount = events.filter(
@@ -301,7 +368,6 @@ export class DeepContextEngine extends EventEmitter {
    */
   getContextForSync(): string {
     const recentEvents = this.getRecentEvents(15, 20);
-    const commitments = this.getCommitments(Date.now() - 24 * 60 * 60 * 1000);
 
     if (recentEvents.length === 0) {
       return '';
@@ -339,24 +405,26 @@ export class DeepContextEngine extends EventEmitter {
     }
 
     // Pending commitments (the big differentiator)
-    const pendingCommitments = commitments.filter(
-      (c) => c.status === 'detected' || c.status === 'pending_action'
-    );
+    const pendingCommitments = this.commitments.list({
+      statuses: ['detected', 'pending'],
+      since: Date.now() - 24 * 60 * 60 * 1000,
+    });
     if (pendingCommitments.length > 0) {
       lines.push(`Pending commitments (${pendingCommitments.length}):`);
       for (const c of pendingCommitments.slice(0, 5)) {
-        const due = c.dueDate ? ` (due: ${new Date(c.dueDate).toLocaleString()})` : ' (no deadline)';
-        const parties = c.involvedParties.length > 0 ? ` [${c.involvedParties.join(', ')}]` : '';
-        lines.push(`  - ${c.description}${due}${parties}`);
+        const due = c.deadline ? ` (due: ${new Date(c.deadline).toLocaleString()})` : ' (no deadline)';
+        const parties = c.involvedParties?.length ? ` [${c.involvedParties.join(', ')}]` : '';
+        const owner = c.assignee ? ` (assigned to ${c.assignee})` : '';
+        lines.push(`  - ${c.text}${due}${parties}${owner}`);
       }
     }
 
-    // Overdue commitments (urgent)
-    const overdueCommitments = commitments.filter((c) => c.status === 'overdue');
+    // Overdue commitments (urgent), however long ago they were made
+    const overdueCommitments = this.commitments.list({ statuses: ['overdue'] });
     if (overdueCommitments.length > 0) {
       lines.push(`OVERDUE (${overdueCommitments.length}):`);
       for (const c of overdueCommitments.slice(0, 3)) {
-        lines.push(`  ! ${c.description}`);
+        lines.push(`  ! ${c.text}`);
       }
     }
 
@@ -383,6 +451,29 @@ export class DeepContextEngine extends EventEmitter {
     return lines.join('\n');
   }
 
+  // ============================================================================
+  // Commitments
+  // ============================================================================
+
+  private recordCommitments(event: ContextEvent): void {
+    for (const detected of event.semanticPayload.commitments ?? []) {
+      try {
+        this.commitments.record({
+          text: detected.description,
+          type: toCommitmentType(detected.requiredAction),
+          source: 'accessibility',
+          detectedAt: event.timestamp,
+          confidence: event.confidence,
+          involvedParties: detected.involvedParties,
+          deadline: detected.dueDate,
+          contextEventId: event.id,
+        });
+      } catch (error) {
+        console.error('[deep-context-engine] Failed to record commitment:', error);
+      }
+    }
+  }
+
   // ============================================================================
   // Cleanup
   // ============================================================================
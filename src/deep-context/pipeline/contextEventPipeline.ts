@@ -4,26 +4,48 @@
  * Orchestrator that connects capture sources to the event store.
  * Flow: capture → privacy filter → event classifier → store
  *
- * Handles:
+ * Sources come from a CaptureSourceRegistry (accessibility and file watcher
+ * by default) and can be added at runtime. Handles:
  * - Accessibility captures (every 15s)
  * - File system changes (on change)
+ * - Browser tabs from the browser bridge, which replace the URL guessed
+ *   from the window title and keep incognito tabs out
+ * - Activity captures from other sources (git, shell, browser)
  * - Deduplication via content hashing
- * - Error isolation (one failed capture doesn't stop others)
+ * - Error isolation (one failed capture or source doesn't stop others)
+ * - Dry runs of the privacy steps for the privacy debugger (previewCapture)
  */
 
 import { EventEmitter } from 'events';
 import { createHash } from 'crypto';
 import { AccessibilityCaptureService } from '../capture/accessibilityCapture';
+import { BrowserBridgeSource } from '../capture/browserBridge';
 import { FileWatcherService } from '../capture/fileWatcher';
+import { CaptureSourceRegistry } from '../capture/captureSource';
+import type { CaptureSource } from '../capture/captureSource';
+import type { BrowserTab } from '../capture/browserBridge';
 import { PrivacyFilter } from '../privacy/privacyFilter';
+import type { PolicyDecision } from '../privacy/privacyPolicy';
+import type { PiiMatch } from '../privacy/piiRecognizers';
 import { EventClassifier } from './eventClassifier';
 import { ContextEventStore } from '../store/contextEventStore';
 import type {
   ContextEvent,
   AccessibilityCaptureResult,
+  ActivityCapture,
+  CaptureSourceStatus,
   FileChangeEvent,
   DeepContextEngineConfig,
+  PrivacyLevel,
+  SourceCapture,
 } from '../types';
+import type {
+  CaptureFieldDiff,
+  CapturePreview,
+  CapturePreviewInput,
+  CaptureTextField,
+  TextDiffSegment,
+} from '../../shared/types';
 
 // ============================================================================
 // Pipeline Events
@@ -33,15 +55,56 @@ export interface PipelineEvent {
   type: 'event_stored' | 'event_filtered' | 'event_duplicate' | 'error';
   event?: ContextEvent;
   reason?: string;
+  decision?: PolicyDecision; // privacy rule that fired, with its trace
+}
+
+// ============================================================================
+// Preview Helpers
+// ============================================================================
+
+const PREVIEW_FIELDS: CaptureTextField[] = ['windowTitle', 'url', 'filePath', 'focusedElementText', 'visibleText'];
+const PII_FIELDS: CaptureTextField[] = ['focusedElementText', 'visibleText'];
+
+/**
+ * Diff a field's original and stored value. PII matches give an exact
+ * per-match diff; any other change (deny, redact) replaces the whole value.
+ */
+function diffField(field: CaptureTextField, original: string, stored: string, matches: PiiMatch[]): CaptureFieldDiff {
+  const segments: TextDiffSegment[] = [];
+  const push = (op: TextDiffSegment['op'], text: string) => {
+    if (text) segments.push({ op, text });
+  };
+
+  if (matches.length > 0) {
+    let cursor = 0;
+    for (const match of matches) {
+      push('equal', original.slice(cursor, match.start));
+      push('removed', match.value);
+      push('added', match.token);
+      cursor = match.end;
+    }
+    push('equal', original.slice(cursor));
+  } else if (original === stored) {
+    push('equal', original);
+  } else {
+    push('removed', original);
+    push('added', stored);
+  }
+
+  return { field, original, stored, segments };
 }
 
 // ============================================================================
 // Context Event Pipeline
 // ============================================================================
 
+interface AttachedSource {
+  source: CaptureSource;
+  listener: (capture: SourceCapture) => void;
+}
+
 export class ContextEventPipeline extends EventEmitter {
-  private accessibilityCapture: AccessibilityCaptureService;
-  private fileWatcher: FileWatcherService;
+  private sources: Map<string, AttachedSource> = new Map();
   private privacyFilter: PrivacyFilter;
   private classifier: EventClassifier;
   private store: ContextEventStore;
@@ -53,28 +116,23 @@ export class ContextEventPipeline extends EventEmitter {
   private filteredCount: number = 0;
   private duplicateCount: number = 0;
   private errorCount: number = 0;
+  private lastDecision: PolicyDecision | null = null;
 
   constructor(
     config: DeepContextEngineConfig,
     store: ContextEventStore,
+    registry: CaptureSourceRegistry = new CaptureSourceRegistry(),
   ) {
     super();
 
     this.config = config;
     this.store = store;
     this.privacyFilter = new PrivacyFilter(config);
-    this.classifier = new EventClassifier();
-    this.accessibilityCapture = new AccessibilityCaptureService(config);
-    this.fileWatcher = new FileWatcherService(config);
-
-    // Wire up capture events
-    this.accessibilityCapture.on('capture', (result: AccessibilityCaptureResult) => {
-      this.processAccessibilityCapture(result);
-    });
+    this.classifier = new EventClassifier(config.deadlines);
 
-    this.fileWatcher.on('fileChange', (event: FileChangeEvent) => {
-      this.processFileChange(event);
-    });
+    for (const source of registry.createAll(config)) {
+      this.addSource(source);
+    }
   }
 
   // ============================================================================
@@ -87,8 +145,12 @@ export class ContextEventPipeline extends EventEmitter {
     console.log('[pipeline] Starting context event pipeline');
     this.isRunning = true;
 
-    this.accessibilityCapture.start();
-    this.fileWatcher.start();
+    // Pick up edits to the privacy policy file
+    this.privacyFilter.reloadPolicy();
+
+    for (const { source } of this.sources.values()) {
+      this.startSource(source);
+    }
   }
 
   stop(): void {
@@ -97,31 +159,138 @@ export class ContextEventPipeline extends EventEmitter {
     console.log('[pipeline] Stopping context event pipeline');
     this.isRunning = false;
 
-    this.accessibilityCapture.stop();
-    this.fileWatcher.stop();
+    for (const { source } of this.sources.values()) {
+      source.stop();
+    }
   }
 
   updateConfig(config: Partial<DeepContextEngineConfig>): void {
     this.config = { ...this.config, ...config };
     this.privacyFilter.updateConfig(config);
-    this.accessibilityCapture.updateConfig(config);
+    if (config.deadlines) this.classifier.updateDeadlineSettings(config.deadlines);
+    for (const { source } of this.sources.values()) {
+      source.updateConfig?.(config);
+    }
+  }
+
+  // ============================================================================
+  // Sources
+  // ============================================================================
+
+  /**
+   * Attach a source. It starts right away if the pipeline is running.
+   *
+   * @throws Error if a source with the same id is attached
+   */
+  addSource(source: CaptureSource): void {
+    if (this.sources.has(source.id)) {
+      throw new Error(`Capture source already attached: ${source.id}`);
+    }
+
+    const listener = (capture: SourceCapture) => this.handleCapture(source, capture);
+    source.on('capture', listener);
+    this.sources.set(source.id, { source, listener });
+
+    if (this.isRunning) this.startSource(source);
+  }
+
+  /**
+   * Stop and detach a source
+   *
+   * @returns false if no source has this id
+   */
+  removeSource(id: string): boolean {
+    const attached = this.sources.get(id);
+    if (!attached) return false;
+
+    attached.source.stop();
+    attached.source.off('capture', attached.listener);
+    this.sources.delete(id);
+    return true;
+  }
+
+  getSource(id: string): CaptureSource | undefined {
+    return this.sources.get(id)?.source;
+  }
+
+  getSourceStatuses(): CaptureSourceStatus[] {
+    return [...this.sources.values()].map(({ source }) => ({
+      id: source.id,
+      privacyClass: source.privacyClass,
+      ...source.health(),
+    }));
+  }
+
+  private startSource(source: CaptureSource): void {
+    try {
+      source.start();
+    } catch (error) {
+      console.error(`[pipeline] Capture source ${source.id} failed to start:`, error);
+    }
+  }
+
+  /**
+   * Route a capture by kind. Metadata sources may not hand over screen text.
+   */
+  private handleCapture(source: CaptureSource, capture: SourceCapture): void {
+    if (capture.kind === 'accessibility' && source.privacyClass === 'metadata') {
+      this.errorCount++;
+      console.error(`[pipeline] Metadata source ${source.id} emitted screen text; dropped`);
+      this.emit('pipeline', {
+        type: 'error',
+        reason: `Source ${source.id} is declared metadata-only`,
+      } as PipelineEvent);
+      return;
+    }
+
+    switch (capture.kind) {
+      case 'accessibility':
+        this.processAccessibilityCapture(capture.data, source);
+        break;
+      case 'file_change':
+        this.processFileChange(capture.data, source);
+        break;
+      case 'activity':
+        this.processActivity(capture.data, source);
+        break;
+    }
   }
 
   // ============================================================================
   // Accessibility Capture Processing
   // ============================================================================
 
-  private processAccessibilityCapture(capture: AccessibilityCaptureResult): void {
+  private processAccessibilityCapture(capture: AccessibilityCaptureResult, source: CaptureSource): void {
     try {
-      // Step 1: Privacy filter
-      if (!this.privacyFilter.shouldCapture(capture.appName, capture.windowTitle, capture.url)) {
+      // Step 0: Take URL and title from the browser bridge when it knows the tab
+      const tab = this.activeBrowserTab(capture.appName);
+      if (tab?.incognito) {
         this.filteredCount++;
         this.emit('pipeline', {
           type: 'event_filtered',
-          reason: `Excluded: ${capture.appName}`,
+          reason: `Excluded: incognito tab in ${capture.appName}`,
         } as PipelineEvent);
         return;
       }
+      if (tab) {
+        capture = { ...capture, windowTitle: tab.title || capture.windowTitle, url: tab.url, page: tab.page };
+      }
+
+      // Step 1: Privacy policy
+      const decision = this.evaluateCapture(capture);
+      this.lastDecision = decision;
+      if (decision.action === 'deny') {
+        this.filteredCount++;
+        this.emit('pipeline', {
+          type: 'event_filtered',
+          reason: `Excluded: ${capture.appName} (rule: ${decision.ruleId ?? 'default'})`,
+          decision,
+        } as PipelineEvent);
+        return;
+      }
+      if (decision.action === 'redact') {
+        capture = this.privacyFilter.redact(capture);
+      }
 
       // Step 2: Deduplication — include app+title so window changes are always processed
       const contentForHash = `${capture.appName}|${capture.windowTitle}|${capture.visibleText || capture.focusedElementText || ''}`;
@@ -137,17 +306,13 @@ export class ContextEventPipeline extends EventEmitter {
       this.lastContentHash = contentHash;
 
       // Step 3: Strip PII from text
-      const sanitizedCapture: AccessibilityCaptureResult = {
-        ...capture,
-        visibleText: this.privacyFilter.stripPII(capture.visibleText),
-        focusedElementText: this.privacyFilter.stripPII(capture.focusedElementText),
-      };
+      const sanitizedCapture = this.stripCapturePII(capture);
 
       // Step 4: Classify
       const event = this.classifier.classifyCapture(sanitizedCapture);
 
-      // Step 5: Apply privacy level from config
-      event.privacyLevel = this.config.privacyLevel;
+      // Step 5: Apply privacy level from config, unless the policy or source keeps it local
+      event.privacyLevel = this.privacyLevelFor(decision, source);
 
       // Step 6: Store
       const id = this.store.insert(event);
@@ -158,6 +323,7 @@ export class ContextEventPipeline extends EventEmitter {
       this.emit('pipeline', {
         type: 'event_stored',
         event,
+        decision,
       } as PipelineEvent);
     } catch (error) {
       this.errorCount++;
@@ -173,10 +339,17 @@ export class ContextEventPipeline extends EventEmitter {
   // File Change Processing
   // ============================================================================
 
-  private processFileChange(fileEvent: FileChangeEvent): void {
+  private processFileChange(fileEvent: FileChangeEvent, source: CaptureSource): void {
     try {
-      // Step 1: Privacy filter (use file path as context)
-      if (!this.privacyFilter.shouldCapture('Finder', fileEvent.fileName)) {
+      // Step 1: Privacy policy (use file name as context). File events are
+      // nothing but the path, so `redact` drops them like `deny`.
+      const decision = this.privacyFilter.evaluate({
+        appName: 'Finder',
+        windowTitle: fileEvent.fileName,
+        timestamp: fileEvent.timestamp,
+      });
+      this.lastDecision = decision;
+      if (decision.action === 'deny' || decision.action === 'redact') {
         this.filteredCount++;
         return;
       }
@@ -185,7 +358,7 @@ export class ContextEventPipeline extends EventEmitter {
       const event = this.classifier.classifyFileEvent(fileEvent);
 
       // Step 3: Apply privacy level
-      event.privacyLevel = this.config.privacyLevel;
+      event.privacyLevel = this.privacyLevelFor(decision, source);
 
       // Step 4: Store
       const id = this.store.insert(event);
@@ -196,6 +369,7 @@ export class ContextEventPipeline extends EventEmitter {
       this.emit('pipeline', {
         type: 'event_stored',
         event,
+        decision,
       } as PipelineEvent);
     } catch (error) {
       this.errorCount++;
@@ -203,10 +377,189 @@ export class ContextEventPipeline extends EventEmitter {
     }
   }
 
+  // ============================================================================
+  // Activity Processing
+  // ============================================================================
+
+  /**
+   * Activity captures arrive already summarised, so there is nothing to
+   * redact down to: `redact` drops them like `deny`. Text fields are still
+   * PII-stripped.
+   */
+  private processActivity(activity: ActivityCapture, source: CaptureSource): void {
+    try {
+      // Step 1: Privacy policy
+      const decision = this.privacyFilter.evaluate({
+        appName: activity.appName,
+        windowTitle: activity.windowTitle,
+        url: activity.url,
+        timestamp: activity.timestamp,
+      });
+      this.lastDecision = decision;
+      if (decision.action === 'deny' || decision.action === 'redact') {
+        this.filteredCount++;
+        this.emit('pipeline', {
+          type: 'event_filtered',
+          reason: `Excluded: ${activity.appName} from ${source.id} (rule: ${decision.ruleId ?? 'default'})`,
+          decision,
+        } as PipelineEvent);
+        return;
+      }
+
+      // Step 2: Strip PII and build the event
+      const event: ContextEvent = {
+        timestamp: activity.timestamp,
+        eventType: activity.eventType,
+        source: {
+          application: activity.appName,
+          windowTitle: this.privacyFilter.stripPII(activity.windowTitle),
+          url: activity.url,
+          filePath: activity.filePath,
+        },
+        semanticPayload: {
+          summary: this.privacyFilter.stripPII(activity.summary),
+          entities: activity.entities.map((entity) => this.privacyFilter.stripPII(entity)),
+          intent: activity.intent,
+        },
+        confidence: activity.confidence,
+        privacyLevel: this.privacyLevelFor(decision, source),
+        synced: false,
+      };
+
+      // Step 3: Store
+      const id = this.store.insert(event);
+      event.id = id;
+
+      this.processedCount++;
+
+      this.emit('pipeline', {
+        type: 'event_stored',
+        event,
+        decision,
+      } as PipelineEvent);
+    } catch (error) {
+      this.errorCount++;
+      console.error(`[pipeline] Error processing activity from ${source.id}:`, error);
+      this.emit('pipeline', {
+        type: 'error',
+        reason: String(error),
+      } as PipelineEvent);
+    }
+  }
+
+  // ============================================================================
+  // Privacy Preview
+  // ============================================================================
+
+  /**
+   * Run a capture through the same privacy steps as processAccessibilityCapture
+   * (policy → redaction → PII stripping → classification) without storing it.
+   * Deduplication is skipped and a fresh classifier is used, so previews never
+   * change what the live pipeline does next.
+   */
+  previewCapture(input: CapturePreviewInput): CapturePreview {
+    const capture: AccessibilityCaptureResult = {
+      timestamp: input.timestamp ?? Date.now(),
+      appName: input.appName,
+      bundleId: input.bundleId,
+      windowTitle: input.windowTitle,
+      focusedElementText: input.focusedElementText ?? '',
+      focusedElementRole: '',
+      visibleText: input.visibleText ?? '',
+      url: input.url,
+      filePath: input.filePath,
+    };
+
+    const decision = this.evaluateCapture(capture);
+    const preview: CapturePreview = {
+      capture: { ...input, timestamp: capture.timestamp },
+      action: decision.action,
+      ruleId: decision.ruleId,
+      trace: decision.trace,
+      stored: decision.action !== 'deny',
+      privacyLevel: null,
+      pii: [],
+      fields: [],
+      event: null,
+    };
+
+    if (decision.action === 'deny') {
+      preview.fields = PREVIEW_FIELDS.map((field) => diffField(field, capture[field] ?? '', '', []));
+      return preview;
+    }
+
+    const redacted = decision.action === 'redact' ? this.privacyFilter.redact(capture) : capture;
+    const sanitized = this.stripCapturePII(redacted);
+
+    for (const field of PREVIEW_FIELDS) {
+      const original = capture[field] ?? '';
+      const afterPolicy = redacted[field] ?? '';
+      // Only the text fields go through PII stripping, and only when the policy kept them
+      const matches = PII_FIELDS.includes(field) && afterPolicy === original
+        ? this.privacyFilter.detectPII(original)
+        : [];
+      for (const match of matches) {
+        preview.pii.push({ field, recognizerId: match.recognizerId, token: match.token });
+      }
+      preview.fields.push(diffField(field, original, sanitized[field] ?? '', matches));
+    }
+
+    const event = new EventClassifier(this.config.deadlines).classifyCapture(sanitized);
+    preview.privacyLevel = this.privacyLevelFor(decision, this.getSource('accessibility'));
+    preview.event = {
+      eventType: event.eventType,
+      summary: event.semanticPayload.summary,
+      entities: event.semanticPayload.entities,
+      intent: event.semanticPayload.intent,
+    };
+    return preview;
+  }
+
+  /**
+   * Read the focused window now, without emitting or counting a capture
+   */
+  readLiveCapture(): Promise<AccessibilityCaptureResult | null> {
+    const source = this.getSource('accessibility');
+    if (!(source instanceof AccessibilityCaptureService)) return Promise.resolve(null);
+    return source.readCurrent();
+  }
+
   // ============================================================================
   // Helpers
   // ============================================================================
 
+  private activeBrowserTab(appName: string): BrowserTab | null {
+    const bridge = this.getSource('browser');
+    return bridge instanceof BrowserBridgeSource ? bridge.activeTab(appName) : null;
+  }
+
+  private evaluateCapture(capture: AccessibilityCaptureResult): PolicyDecision {
+    return this.privacyFilter.evaluate({
+      appName: capture.appName,
+      windowTitle: capture.windowTitle,
+      bundleId: capture.bundleId,
+      url: capture.url,
+      timestamp: capture.timestamp,
+    });
+  }
+
+  private stripCapturePII(capture: AccessibilityCaptureResult): AccessibilityCaptureResult {
+    return {
+      ...capture,
+      visibleText: this.privacyFilter.stripPII(capture.visibleText),
+      focusedElementText: this.privacyFilter.stripPII(capture.focusedElementText),
+      page: capture.page && {
+        ...capture.page,
+        description: capture.page.description && this.privacyFilter.stripPII(capture.page.description),
+      },
+    };
+  }
+
+  private privacyLevelFor(decision: PolicyDecision, source?: CaptureSource): PrivacyLevel {
+    if (decision.action === 'local_only' || source?.privacyClass === 'local_only') return 'local_only';
+    return this.config.privacyLevel;
+  }
+
   private hashContent(text: string): string {
     if (!text) return '';
     return createHash('md5').update(text.substring(0, 1000)).digest('hex');
@@ -226,17 +579,23 @@ export class ContextEventPipeline extends EventEmitter {
     filteredCount: number;
     duplicateCount: number;
     errorCount: number;
-    accessibilityStats: ReturnType<AccessibilityCaptureService['getStats']>;
-    fileWatcherStats: ReturnType<FileWatcherService['getStats']>;
+    lastDecision: PolicyDecision | null;
+    accessibilityStats: ReturnType<AccessibilityCaptureService['getStats']> | null;
+    fileWatcherStats: ReturnType<FileWatcherService['getStats']> | null;
+    sources: CaptureSourceStatus[];
   } {
+    const accessibility = this.getSource('accessibility');
+    const fileWatcher = this.getSource('file_watcher');
     return {
       isRunning: this.isRunning,
       processedCount: this.processedCount,
       filteredCount: this.filteredCount,
       duplicateCount: this.duplicateCount,
       errorCount: this.errorCount,
-      accessibilityStats: this.accessibilityCapture.getStats(),
-      fileWatcherStats: this.fileWatcher.getStats(),
+      lastDecision: this.lastDecision,
+      accessibilityStats: accessibility instanceof AccessibilityCaptureService ? accessibility.getStats() : null,
+      fileWatcherStats: fileWatcher instanceof FileWatcherService ? fileWatcher.getStats() : null,
+      sources: this.getSourceStatuses(),
     };
   }
 }
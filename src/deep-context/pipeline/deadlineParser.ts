@@ -0,0 +1,873 @@
+/**
+ * Deadline Parser
+ *
+ * Turns the deadline in a piece of text ("by Friday", "Nov 3", "3/11",
+ * "in 2 business days", "EOD Pacific", "vóór vrijdag 15:00", "bis Ende
+ * des Sprints") into a timestamp, with a confidence and the span of text
+ * it came from. Shared by the event classifier and DeepContextManager.
+ *
+ * Words come from the language packs. English is always understood as
+ * well, since "EOD" and "ASAP" turn up in Dutch and German text too.
+ * Calendar math runs on wall-clock dates in the deadline's time zone, so
+ * "Friday 5pm ET" is Friday in New York whatever the machine's zone.
+ *
+ * Resolution rules:
+ * - A date without a time is due at the end of the workday
+ * - "Friday" is the coming Friday, today included; "next Friday" is
+ *   Friday of next week
+ * - Dates without a year that have passed roll over to next year
+ * - Ranges ("Nov 3-5", "Monday to Wednesday") are due when they end
+ * - Sprints follow the sprint calendar; without one, a sprint is assumed
+ *   to start today, with low confidence
+ * - When the text holds several deadlines, the most confident one wins
+ */
+
+import type { DeadlineSettings } from '../types';
+import { LANGUAGE_PACKS, detectLanguage } from './languagePacks';
+import type { CommitmentLanguage, DateWords, DurationUnit } from './languagePacks';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_WORKDAY_START = 9;
+const DEFAULT_WORKDAY_END = 17;
+const DEFAULT_WORKDAYS = [1, 2, 3, 4, 5];
+const DEFAULT_SPRINT_DAYS = 14;
+
+const MORNING: ClockTime = { hour: 12, minute: 0 }; // "tomorrow morning" is due by noon
+const EVENING: ClockTime = { hour: 21, minute: 0 };
+const MIDNIGHT: ClockTime = { hour: 23, minute: 59 };
+const NOON: ClockTime = { hour: 12, minute: 0 };
+
+const ASAP_MS = 2 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Plain-word time zones; IANA names ("Europe/Amsterdam") work as well
+const TIME_ZONE_NAMES: Record<string, string> = {
+  pacific: 'America/Los_Angeles',
+  mountain: 'America/Denver',
+  central: 'America/Chicago',
+  eastern: 'America/New_York',
+};
+
+// Abbreviations count only in capitals or in parentheses: "ist" and "et"
+// are everyday German and Latin words
+const TIME_ZONE_ABBREVIATIONS: Record<string, string> = {
+  pt: 'America/Los_Angeles',
+  pst: 'America/Los_Angeles',
+  pdt: 'America/Los_Angeles',
+  mt: 'America/Denver',
+  mst: 'America/Denver',
+  mdt: 'America/Denver',
+  ct: 'America/Chicago',
+  cst: 'America/Chicago',
+  cdt: 'America/Chicago',
+  et: 'America/New_York',
+  est: 'America/New_York',
+  edt: 'America/New_York',
+  utc: 'UTC',
+  gmt: 'UTC',
+  uk: 'Europe/London',
+  bst: 'Europe/London',
+  cet: 'Europe/Berlin',
+  cest: 'Europe/Berlin',
+  ist: 'Asia/Kolkata',
+  aest: 'Australia/Sydney',
+};
+
+// Word boundaries that also work for words starting or ending with ü, é, ...
+const B = '(?<![\\p{L}\\d])';
+const E = '(?![\\p{L}\\d])';
+
+const AM_PM = 'a\\.m\\.|p\\.m\\.|am|pm';
+const HOUR_SUFFIX = 'uhr|uur|u';
+const NOON_WORDS = 'noon|midday|mittag';
+const MIDNIGHT_WORDS = 'midnight|middernacht|mitternacht';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DeadlineKind =
+  | 'date'
+  | 'relative'
+  | 'weekday'
+  | 'duration'
+  | 'period'
+  | 'sprint'
+  | 'range'
+  | 'time'
+  | 'asap';
+
+export interface ParsedDeadline {
+  dueAt: number;
+  startsAt?: number; // ranges and periods: when the window opens
+  confidence: number; // 0-1
+  kind: DeadlineKind;
+  text: string; // the matched span
+  start: number; // offsets of the span in the parsed text
+  end: number;
+}
+
+export interface DeadlineParseOptions {
+  language?: CommitmentLanguage; // every language is read when omitted
+  now?: number;
+}
+
+interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+interface ClockTime {
+  hour: number;
+  minute: number;
+}
+
+// What a date expression means, given today's date where the deadline applies
+type Resolution =
+  | { day: CalendarDate; from?: CalendarDate; time?: ClockTime }
+  | { instant: number };
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+interface DateToken extends Span {
+  kind: DeadlineKind;
+  confidence: number;
+  resolve: (today: CalendarDate, now: number) => Resolution | null;
+}
+
+interface TimeToken extends Span {
+  time: ClockTime;
+  timeZone?: string;
+}
+
+interface ZoneToken extends Span {
+  timeZone: string;
+}
+
+interface PartToken extends Span {
+  time: ClockTime;
+}
+
+interface Candidate extends Span {
+  token: DateToken | null; // null for a time on its own
+  time?: ClockTime;
+  partOfDay?: ClockTime;
+  timeZone?: string;
+}
+
+interface Matchers {
+  weekdays: RegExp[];
+  months: RegExp[];
+  numbers: RegExp[];
+  units: [DurationUnit, RegExp][];
+  iso: RegExp;
+  monthFirst: RegExp;
+  dayFirst: RegExp;
+  numeric: RegExp;
+  relative: RegExp;
+  weekday: RegExp;
+  duration: RegExp;
+  period: RegExp;
+  sprint: RegExp;
+  asap: RegExp;
+  time: RegExp;
+  zone: RegExp;
+  part: RegExp;
+  by: RegExp;
+  between: RegExp;
+  rangeJoin: RegExp;
+  gap: RegExp;
+}
+
+// ============================================================================
+// Calendar
+// ============================================================================
+
+function toUtc(date: CalendarDate): number {
+  return Date.UTC(date.year, date.month - 1, date.day);
+}
+
+function fromUtc(ms: number): CalendarDate {
+  const d = new Date(ms);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  return fromUtc(toUtc(date) + days * DAY_MS);
+}
+
+function daysBetween(from: CalendarDate, to: CalendarDate): number {
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+}
+
+function dayOfWeek(date: CalendarDate): number {
+  return new Date(toUtc(date)).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function addMonths(date: CalendarDate, months: number): CalendarDate {
+  const index = date.month - 1 + months;
+  const year = date.year + Math.floor(index / 12);
+  const month = ((index % 12) + 12) % 12 + 1;
+  return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+}
+
+/**
+ * A date given without a year is the next one on or after today
+ */
+function upcomingDate(today: CalendarDate, month: number, day: number, year?: number): CalendarDate | null {
+  if (year !== undefined) {
+    return isValidDate(year, month, day) ? { year, month, day } : null;
+  }
+  for (const y of [today.year, today.year + 1]) {
+    if (isValidDate(y, month, day) && daysBetween(today, { year: y, month, day }) >= 0) {
+      return { year: y, month, day };
+    }
+  }
+  // Feb 29 with no leap year coming up
+  return null;
+}
+
+function parseIsoDate(value: string): CalendarDate | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  return isValidDate(year, month, day) ? { year, month, day } : null;
+}
+
+// ============================================================================
+// Time Zones
+// ============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * The wall-clock reading of an instant in a time zone, as if it were UTC
+ */
+function wallClock(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+function todayIn(instant: number, timeZone: string): CalendarDate {
+  return fromUtc(wallClock(instant, timeZone));
+}
+
+/**
+ * The instant a wall-clock time occurs in a time zone. The second pass
+ * corrects the offset when the first guess lands across a DST change.
+ */
+function zonedTime(date: CalendarDate, time: ClockTime, timeZone: string): number {
+  const wall = toUtc(date) + (time.hour * 60 + time.minute) * 60_000;
+  const offset = (instant: number) => wallClock(instant, timeZone) - Math.floor(instant / 1000) * 1000;
+  const guess = wall - offset(wall);
+  return wall - offset(guess);
+}
+
+// ============================================================================
+// Matchers
+// ============================================================================
+
+/**
+ * Combine two vocabularies slot by slot
+ */
+function mergeWords(a: DateWords, b: DateWords): DateWords {
+  const merged: Record<string, unknown> = {};
+  for (const key of Object.keys(a) as (keyof DateWords)[]) {
+    const x = a[key];
+    const y = b[key];
+    if (typeof x === 'string') {
+      merged[key] = `${x}|${y as string}`;
+    } else if (Array.isArray(x)) {
+      merged[key] = x.map((v, i) => `${v}|${(y as string[])[i]}`);
+    } else {
+      merged[key] = Object.fromEntries(
+        Object.entries(x).map(([unit, v]) => [unit, `${v}|${(y as Record<string, string>)[unit]}`]),
+      );
+    }
+  }
+  return merged as unknown as DateWords;
+}
+
+function exact(source: string): RegExp {
+  return new RegExp(`^(?:${source})$`, 'iu');
+}
+
+function global(source: string): RegExp {
+  return new RegExp(source, 'giu');
+}
+
+function buildMatchers(words: DateWords): Matchers {
+  const alt = (list: string[]) => list.join('|');
+  const units: [DurationUnit, RegExp][] = (['businessDay', 'minute', 'hour', 'day', 'week', 'month'] as const)
+    .map((unit) => [unit, exact(words.units[unit])]);
+  const zones = [...Object.keys(TIME_ZONE_NAMES), ...Object.keys(TIME_ZONE_ABBREVIATIONS)]
+    .sort((a, b) => b.length - a.length)
+    .join('|');
+  const ordinal = '(?:st|nd|rd|th|e|\\.)?';
+
+  return {
+    weekdays: words.weekdays.map(exact),
+    months: words.months.map(exact),
+    numbers: words.numbers.map(exact),
+    units,
+    iso: global(`${B}(\\d{4})-(\\d{2})-(\\d{2})(?:[T ](\\d{2}):(\\d{2}))?${E}`),
+    monthFirst: global(
+      `${B}(${alt(words.months)})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:\\s*[-–]\\s*(\\d{1,2})(?:st|nd|rd|th)?)?(?:,?\\s+(\\d{4}))?${E}`,
+    ),
+    dayFirst: global(
+      `${B}(\\d{1,2})${ordinal}(?:\\s*[-–]\\s*(\\d{1,2})${ordinal})?\\s+(?:of\\s+)?(${alt(words.months)})(?:\\s+(\\d{4}))?${E}`,
+    ),
+    // "24/7" is not a date
+    numeric: global(`${B}(?!24/7${E})(\\d{1,2})([/.])(\\d{1,2})(?:\\2(\\d{4}|\\d{2}))?(?![\\p{L}\\d/])(?!\\.\\d)`),
+    // "Guten Morgen" is a greeting, not tomorrow
+    relative: global(
+      `${B}(?<!(?:guten|goede)\\s)(?:(${words.dayAfterTomorrow})|(${words.tonight})|(${words.today})|(${words.tomorrow}))${E}`,
+    ),
+    weekday: global(`${B}(?:(${words.this})\\s+|(${words.next})\\s+)?(${alt(words.weekdays)})${E}`),
+    duration: global(
+      `${B}(?:${words.within})\\s+(\\d+|${alt(words.numbers)})\\s+(${units.map(([unit]) => words.units[unit]).join('|')})${E}`,
+    ),
+    period: global(`${B}(?:(${words.thisWeek})|(${words.nextWeek})|(${words.endOfMonth}))${E}`),
+    sprint: global(`${B}(?:(${words.nextSprint})|(${words.thisSprint}))${E}`),
+    asap: global(`${B}(?:${words.asap})(?![\\p{L}\\d])`),
+    time: global(
+      `${B}(?:(\\d{1,2}):(\\d{2})(?:\\s*(${AM_PM}))?|(\\d{1,2})(?:[.:](\\d{2}))?\\s*(${AM_PM}|${HOUR_SUFFIX})|(${NOON_WORDS})|(${MIDNIGHT_WORDS}))${E}`,
+    ),
+    zone: global(`\\(?${B}(${zones}|[a-z]+/[a-z_]+(?:/[a-z_]+)?)(?:\\s+time)?${E}\\)?`),
+    part: global(`${B}(?:(${words.morning})|(${words.evening}))${E}`),
+    by: new RegExp(`${B}(?:${words.by})\\s*$`, 'iu'),
+    between: new RegExp(`${B}(?:${words.between})\\s+$`, 'iu'),
+    rangeJoin: new RegExp(`^\\s*(?:(${words.rangeTo})|(${words.and}))\\s*$`, 'iu'),
+    gap: new RegExp(`^[\\s,]*(?:(?:${words.at})[\\s,]*)?$`, 'iu'),
+  };
+}
+
+const matcherCache = new Map<CommitmentLanguage | 'all', Matchers>();
+
+function matchersFor(language: CommitmentLanguage | 'all'): Matchers {
+  let matchers = matcherCache.get(language);
+  if (!matchers) {
+    const packs = language === 'all'
+      ? Object.values(LANGUAGE_PACKS)
+      : [LANGUAGE_PACKS[language], ...(language === 'en' ? [] : [LANGUAGE_PACKS.en])];
+    matchers = buildMatchers(packs.map((pack) => pack.dates).reduce(mergeWords));
+    matcherCache.set(language, matchers);
+  }
+  return matchers;
+}
+
+function indexOfWord(patterns: RegExp[], value: string): number {
+  return patterns.findIndex((pattern) => pattern.test(value));
+}
+
+function parseClock(hourText: string, minuteText: string | undefined, suffix: string | undefined): ClockTime | null {
+  let hour = Number(hourText);
+  const minute = minuteText ? Number(minuteText) : 0;
+  const meridiem = suffix?.toLowerCase().replace(/\./g, '');
+
+  if (meridiem === 'am' || meridiem === 'pm') {
+    if (hour < 1 || hour > 12) return null;
+    if (meridiem === 'pm' && hour < 12) hour += 12;
+    if (meridiem === 'am' && hour === 12) hour = 0;
+  }
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+}
+
+// ============================================================================
+// Deadline Parser
+// ============================================================================
+
+export class DeadlineParser {
+  private settings: DeadlineSettings;
+
+  constructor(settings: DeadlineSettings = {}) {
+    this.settings = settings;
+  }
+
+  updateSettings(settings: Partial<DeadlineSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  /**
+   * Find the deadline in a piece of text
+   *
+   * @returns the most confident deadline, or null if the text names none
+   */
+  parse(text: string, options: DeadlineParseOptions = {}): ParsedDeadline | null {
+    if (!text) return null;
+
+    const now = options.now ?? Date.now();
+    const m = matchersFor(options.language ?? 'all');
+    // Numeric dates are read month first in English text
+    const language = options.language ?? detectLanguage(text);
+
+    const dates = this.findRanges(text, m, this.findDates(text, m, language));
+    const times = this.findTimes(text, m).filter((t) => !dates.some((d) => overlaps(d, t)));
+    const zones = this.findZones(text, m).filter((z) => !dates.some((d) => overlaps(d, z)));
+    const parts = this.findParts(text, m);
+
+    const candidates = this.attach(text, m, dates, times, zones, parts);
+
+    let best: ParsedDeadline | null = null;
+    for (const candidate of candidates) {
+      const parsed = this.resolve(text, m, candidate, now);
+      if (!parsed) continue;
+      if (
+        !best
+        || parsed.confidence > best.confidence
+        || (parsed.confidence === best.confidence && parsed.end - parsed.start > best.end - best.start)
+      ) {
+        best = parsed;
+      }
+    }
+    return best;
+  }
+
+  // ============================================================================
+  // Dates
+  // ============================================================================
+
+  private findDates(text: string, m: Matchers, language: CommitmentLanguage): DateToken[] {
+    const tokens: DateToken[] = [];
+    const add = (match: RegExpMatchArray, kind: DeadlineKind, confidence: number, resolve: DateToken['resolve']) => {
+      tokens.push({ start: match.index!, end: match.index! + match[0].length, kind, confidence, resolve });
+    };
+
+    for (const match of text.matchAll(m.iso)) {
+      const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+      if (!isValidDate(year, month, day)) continue;
+      const time = match[4] !== undefined ? parseClock(match[4], match[5], undefined) : undefined;
+      if (time === null) continue;
+      add(match, 'date', 0.95, () => ({ day: { year, month, day }, time }));
+    }
+
+    const monthDates = (match: RegExpMatchArray, monthText: string, firstDay: string, lastDay: string | undefined, year: string | undefined) => {
+      const month = indexOfWord(m.months, monthText) + 1;
+      if (month === 0) return;
+      add(match, lastDay ? 'range' : 'date', 0.9, (today) => {
+        const y = year ? Number(year) : undefined;
+        const first = upcomingDate(today, month, Number(firstDay), y);
+        if (!first) return null;
+        if (!lastDay) return { day: first };
+        const last = upcomingDate(first, month, Number(lastDay), first.year);
+        return last ? { from: first, day: last } : null;
+      });
+    };
+    for (const match of text.matchAll(m.monthFirst)) monthDates(match, match[1], match[2], match[3], match[4]);
+    for (const match of text.matchAll(m.dayFirst)) monthDates(match, match[3], match[1], match[2], match[4]);
+
+    for (const match of text.matchAll(m.numeric)) {
+      const [a, separator, b, yearText] = [Number(match[1]), match[2], Number(match[3]), match[4]];
+      const end = match.index! + match[0].length;
+      // "3.5" is a number; "3.11." and "3.11.2026" are dates
+      if (separator === '.' && !yearText && text[end] !== '.') continue;
+
+      // Dotted dates are always day first
+      const order = separator === '.' ? 'dmy' : this.settings.dateOrder ?? (language === 'en' ? 'mdy' : 'dmy');
+      let day: number;
+      let month: number;
+      let ambiguous = false;
+      if (a > 12 && b <= 12) {
+        [day, month] = [a, b];
+      } else if (b > 12 && a <= 12) {
+        [month, day] = [a, b];
+      } else if (a <= 12 && b <= 12) {
+        [day, month] = order === 'dmy' ? [a, b] : [b, a];
+        ambiguous = a !== b;
+      } else {
+        continue;
+      }
+      const year = yearText ? (yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText)) : undefined;
+      const confidence = (ambiguous ? 0.6 : 0.8) + (year ? 0.1 : 0);
+      add(match, 'date', confidence, (today) => {
+        const date = upcomingDate(today, month, day, year);
+        return date ? { day: date } : null;
+      });
+    }
+
+    for (const match of text.matchAll(m.relative)) {
+      const [, dayAfterTomorrow, tonight, today] = match;
+      add(match, 'relative', 0.9, (date) => {
+        if (dayAfterTomorrow) return { day: addDays(date, 2) };
+        if (tonight) return { day: date, time: EVENING };
+        if (today) return { day: date };
+        return { day: addDays(date, 1) };
+      });
+    }
+
+    for (const match of text.matchAll(m.weekday)) {
+      const target = indexOfWord(m.weekdays, match[3]);
+      if (target < 0) continue;
+      const next = match[2] !== undefined;
+      add(match, 'weekday', next ? 0.8 : 0.85, (today) => {
+        const current = dayOfWeek(today);
+        if (!next) return { day: addDays(today, (target - current + 7) % 7) };
+        // Friday of next week
+        const nextWeek = addDays(this.startOfWeek(today), 7);
+        return { day: addDays(nextWeek, (target - dayOfWeek(nextWeek) + 7) % 7) };
+      });
+    }
+
+    for (const match of text.matchAll(m.duration)) {
+      const amount = /^\d+$/.test(match[1]) ? Number(match[1]) : indexOfWord(m.numbers, match[1]) + 1;
+      const unit = m.units.find(([, pattern]) => pattern.test(match[2]))?.[0];
+      if (!unit || amount <= 0) continue;
+      add(match, 'duration', unit === 'month' ? 0.8 : 0.9, (today, now) => {
+        switch (unit) {
+          case 'minute': return { instant: now + amount * 60_000 };
+          case 'hour': return { instant: now + amount * 3_600_000 };
+          case 'day': return { day: addDays(today, amount) };
+          case 'businessDay': return { day: this.addWorkdays(today, amount) };
+          case 'week': return { day: addDays(today, amount * 7) };
+          case 'month': return { day: addMonths(today, amount) };
+        }
+      });
+    }
+
+    for (const match of text.matchAll(m.period)) {
+      const [, thisWeek, nextWeek] = match;
+      add(match, 'period', nextWeek ? 0.7 : 0.8, (today) => {
+        const weekStart = this.startOfWeek(today);
+        if (thisWeek) return { day: this.latest(today, this.lastWorkday(addDays(weekStart, 6))) };
+        if (nextWeek) {
+          return { from: this.firstWorkday(addDays(weekStart, 7)), day: this.lastWorkday(addDays(weekStart, 13)) };
+        }
+        const lastOfMonth = { ...today, day: daysInMonth(today.year, today.month) };
+        return { day: this.latest(today, this.lastWorkday(lastOfMonth)) };
+      });
+    }
+
+    const calendar = this.sprintCalendar();
+    for (const match of text.matchAll(m.sprint)) {
+      const next = match[1] !== undefined;
+      add(match, 'sprint', calendar ? 0.8 : 0.3, (today) => {
+        // Without a calendar, assume a sprint starts today
+        const anchor = calendar?.start ?? today;
+        const length = calendar?.lengthDays ?? DEFAULT_SPRINT_DAYS;
+        const index = Math.floor(daysBetween(anchor, today) / length) + (next ? 1 : 0);
+        const first = addDays(anchor, index * length);
+        const last = this.latest(today, this.lastWorkday(addDays(first, length - 1)));
+        return next ? { from: this.firstWorkday(first), day: last } : { day: last };
+      });
+    }
+
+    for (const match of text.matchAll(m.asap)) {
+      add(match, 'asap', 0.5, (_today, now) => ({ instant: now + ASAP_MS }));
+    }
+
+    return tokens.sort((a, b) => a.start - b.start || b.end - a.end);
+  }
+
+  /**
+   * Join adjacent dates into ranges: "Monday to Wednesday", "between
+   * 3/11 and 5/11", "van maandag tot woensdag"
+   */
+  private findRanges(text: string, m: Matchers, dates: DateToken[]): DateToken[] {
+    const result = [...dates];
+
+    for (let i = 0; i < dates.length; i++) {
+      const first = dates[i];
+      const second = dates.slice(i + 1).find((d) => d.start >= first.end);
+      if (!second || first.kind === 'duration' || second.kind === 'duration') continue;
+
+      const join = text.slice(first.end, second.start).match(m.rangeJoin);
+      if (!join) continue;
+      const opener = text.slice(0, first.start).match(m.between);
+      // "and" only joins a range that opened with "between"
+      if (join[2] && !opener) continue;
+
+      result.push({
+        start: opener ? opener.index! : first.start,
+        end: second.end,
+        kind: 'range',
+        confidence: Math.min(first.confidence, second.confidence),
+        resolve: (today, now) => {
+          const a = first.resolve(today, now);
+          const b = second.resolve(today, now);
+          if (!a || !b || !('day' in a) || !('day' in b)) return null;
+          let day = b.day;
+          // "Friday to Monday" ends the Monday after
+          if (second.kind === 'weekday') {
+            while (daysBetween(a.day, day) < 0) day = addDays(day, 7);
+          }
+          return { from: a.from ?? a.day, day, time: b.time };
+        },
+      });
+    }
+    return result;
+  }
+
+  // ============================================================================
+  // Times, Zones and Parts of Day
+  // ============================================================================
+
+  private findTimes(text: string, m: Matchers): TimeToken[] {
+    const tokens: TimeToken[] = [];
+    for (const match of text.matchAll(m.time)) {
+      const time = match[7]
+        ? NOON
+        : match[8]
+          ? MIDNIGHT
+          : match[1] !== undefined
+            ? parseClock(match[1], match[2], match[3])
+            : parseClock(match[4], match[5], match[6]);
+      if (time) tokens.push({ start: match.index!, end: match.index! + match[0].length, time });
+    }
+    return tokens;
+  }
+
+  private findZones(text: string, m: Matchers): ZoneToken[] {
+    const tokens: ZoneToken[] = [];
+    for (const match of text.matchAll(m.zone)) {
+      const name = match[1].toLowerCase();
+      const abbreviation = TIME_ZONE_ABBREVIATIONS[name];
+      const parenthesized = match[0].startsWith('(') && match[0].endsWith(')');
+      if (abbreviation && match[1] !== match[1].toUpperCase() && !parenthesized) continue;
+      const timeZone = TIME_ZONE_NAMES[name] ?? abbreviation ?? match[1];
+      if (timeZone.includes('/') && !isValidTimeZone(timeZone)) continue;
+      tokens.push({ start: match.index!, end: match.index! + match[0].length, timeZone });
+    }
+    return tokens;
+  }
+
+  private findParts(text: string, m: Matchers): PartToken[] {
+    return [...text.matchAll(m.part)].map((match) => ({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      time: match[1] ? MORNING : EVENING,
+    }));
+  }
+
+  /**
+   * Attach times, zones and parts of day to the dates next to them:
+   * "Friday at 3pm ET", "5pm on Friday", "EOD Pacific", "tomorrow
+   * morning". Times next to no date stand on their own.
+   */
+  private attach(
+    text: string,
+    m: Matchers,
+    dates: DateToken[],
+    times: TimeToken[],
+    zones: ZoneToken[],
+    parts: PartToken[],
+  ): Candidate[] {
+    const adjacent = <T extends Span>(list: T[], after: number, gap: RegExp) =>
+      list.find((t) => t.start >= after && gap.test(text.slice(after, t.start)));
+    const adjacentBefore = <T extends Span>(list: T[], before: number, gap: RegExp) =>
+      list.find((t) => t.end <= before && gap.test(text.slice(t.end, before)));
+    const space = /^\s*$/;
+
+    // "3pm ET", "15:00 (CET)"
+    for (const time of times) {
+      const zone = adjacent(zones, time.end, space);
+      if (zone) {
+        time.timeZone = zone.timeZone;
+        time.end = zone.end;
+      }
+    }
+
+    const used = new Set<TimeToken>();
+    const candidates: Candidate[] = dates.map((token) => {
+      const candidate: Candidate = { token, start: token.start, end: token.end };
+
+      const time = adjacent(times, token.end, m.gap) ?? adjacentBefore(times, token.start, m.gap);
+      if (time) {
+        used.add(time);
+        candidate.time = time.time;
+        candidate.timeZone = time.timeZone;
+        candidate.start = Math.min(candidate.start, time.start);
+        candidate.end = Math.max(candidate.end, time.end);
+      } else {
+        const part = adjacent(parts, token.end, space);
+        if (part) {
+          candidate.partOfDay = part.time;
+          candidate.end = part.end;
+        }
+      }
+
+      if (!candidate.timeZone) {
+        const zone = adjacent(zones, candidate.end, space);
+        if (zone) {
+          candidate.timeZone = zone.timeZone;
+          candidate.end = zone.end;
+        }
+      }
+      return candidate;
+    });
+
+    for (const time of times) {
+      if (used.has(time)) continue;
+      candidates.push({ token: null, start: time.start, end: time.end, time: time.time, timeZone: time.timeZone });
+    }
+    return candidates;
+  }
+
+  // ============================================================================
+  // Resolution
+  // ============================================================================
+
+  private resolve(text: string, m: Matchers, candidate: Candidate, now: number): ParsedDeadline | null {
+    const timeZone = candidate.timeZone ?? this.settings.timeZone ?? systemTimeZone();
+    const today = todayIn(now, timeZone);
+    const endOfWorkday = this.clock(this.settings.workdayEndHour ?? DEFAULT_WORKDAY_END);
+    const startOfWorkday = this.clock(this.settings.workdayStartHour ?? DEFAULT_WORKDAY_START);
+
+    let dueAt: number;
+    let startsAt: number | undefined;
+    let kind: DeadlineKind;
+    let confidence: number;
+
+    if (candidate.token) {
+      const resolution = candidate.token.resolve(today, now);
+      if (!resolution) return null;
+      kind = candidate.token.kind;
+      confidence = candidate.token.confidence;
+
+      if ('instant' in resolution) {
+        dueAt = resolution.instant;
+      } else {
+        const time = candidate.time ?? resolution.time ?? candidate.partOfDay ?? endOfWorkday;
+        dueAt = zonedTime(resolution.day, time, timeZone);
+        if (resolution.from) startsAt = zonedTime(resolution.from, startOfWorkday, timeZone);
+      }
+      if (candidate.time) confidence += 0.05;
+    } else {
+      // A time on its own is the next time the clock reads it
+      kind = 'time';
+      confidence = 0.75;
+      dueAt = zonedTime(today, candidate.time!, timeZone);
+      if (dueAt <= now) dueAt = zonedTime(addDays(today, 1), candidate.time!, timeZone);
+    }
+
+    if (m.by.test(text.slice(Math.max(0, candidate.start - 30), candidate.start))) {
+      confidence += 0.05;
+    }
+
+    return {
+      dueAt,
+      startsAt,
+      confidence: Math.round(Math.min(confidence, 1) * 100) / 100,
+      kind,
+      text: text.slice(candidate.start, candidate.end),
+      start: candidate.start,
+      end: candidate.end,
+    };
+  }
+
+  // ============================================================================
+  // Workdays
+  // ============================================================================
+
+  private clock(hours: number): ClockTime {
+    return { hour: Math.floor(hours), minute: Math.round((hours % 1) * 60) };
+  }
+
+  private isWorkday(date: CalendarDate): boolean {
+    return (this.settings.workdays ?? DEFAULT_WORKDAYS).includes(dayOfWeek(date));
+  }
+
+  private addWorkdays(date: CalendarDate, count: number): CalendarDate {
+    let day = date;
+    // A calendar with no workdays would never finish
+    if ((this.settings.workdays ?? DEFAULT_WORKDAYS).length === 0) return addDays(date, count);
+    for (let added = 0; added < count;) {
+      day = addDays(day, 1);
+      if (this.isWorkday(day)) added++;
+    }
+    return day;
+  }
+
+  /**
+   * Weeks start on the first workday after the weekend: Monday for a
+   * Monday to Friday week, Sunday for a Sunday to Thursday one
+   */
+  private startOfWeek(date: CalendarDate): CalendarDate {
+    const workdays = this.settings.workdays ?? DEFAULT_WORKDAYS;
+    const first = [0, 1, 2, 3, 4, 5, 6].find((d) => workdays.includes(d) && !workdays.includes((d + 6) % 7)) ?? 1;
+    return addDays(date, -((dayOfWeek(date) - first + 7) % 7));
+  }
+
+  /**
+   * The last workday on or before a date, within the week before it
+   */
+  private lastWorkday(date: CalendarDate): CalendarDate {
+    for (let i = 0; i < 7; i++) {
+      const day = addDays(date, -i);
+      if (this.isWorkday(day)) return day;
+    }
+    return date;
+  }
+
+  private firstWorkday(date: CalendarDate): CalendarDate {
+    for (let i = 0; i < 7; i++) {
+      const day = addDays(date, i);
+      if (this.isWorkday(day)) return day;
+    }
+    return date;
+  }
+
+  private latest(a: CalendarDate, b: CalendarDate): CalendarDate {
+    return daysBetween(a, b) > 0 ? b : a;
+  }
+
+  private sprintCalendar(): { start: CalendarDate; lengthDays: number } | null {
+    const sprint = this.settings.sprint;
+    if (!sprint || !(sprint.lengthDays > 0)) return null;
+    const start = parseIsoDate(sprint.start);
+    return start ? { start, lengthDays: Math.round(sprint.lengthDays) } : null;
+  }
+}
+
+function overlaps(a: Span, b: Span): boolean {
+  return a.start < b.end && b.start < a.end;
+}
@@ -5,7 +5,8 @@
  * using regex patterns and heuristics. No LLM calls in Phase 1.
  *
  * Detects:
- * - Commitments (promises, agreements, deadlines)
+ * - Commitments (promises, agreements, deadlines) in English, Dutch and
+ *   German, using the language pack detected for each capture
  * - Activity types (email, calendar, coding, browsing, etc.)
  * - Entities (people, projects, tools)
  * - Skill signals (tool/domain proficiency indicators)
@@ -15,11 +16,15 @@
 import type {
   ContextEvent,
   ContextEventType,
-  Commitment,
+  DetectedCommitment,
   SkillSignal,
   AccessibilityCaptureResult,
   FileChangeEvent,
+  DeadlineSettings,
 } from '../types';
+import { DeadlineParser } from './deadlineParser';
+import { LANGUAGE_PACKS, detectLanguage } from './languagePacks';
+import type { CommitmentLanguage, LanguagePack } from './languagePacks';
 
 // ============================================================================
 // Activity Detection Map
@@ -128,138 +133,6 @@ const SKILL_CATEGORY_MAP: Record<ActivityCategory, { category: string; path: str
   other: { category: 'General', path: ['General'] },
 };
 
-// ============================================================================
-// Commitment Patterns
-// ============================================================================
-
-const COMMITMENT_PATTERNS: {
-  regex: RegExp;
-  action: string;
-}[] = [
-  // "I will / I'll" patterns
-  { regex: /I(?:'ll| will) (?:send|email|forward)(?: you| them| him| her)? (?:a |the )?(.+?)(?:\.|!|$)/gi, action: 'send_email' },
-  { regex: /I(?:'ll| will) (?:create|schedule|set up|book) (?:a |the )?(?:meeting|event|call|appointment)(.+?)(?:\.|!|$)/gi, action: 'create_event' },
-  { regex: /I(?:'ll| will) (?:send|share|forward) (?:the |a )?(?:file|document|doc|pdf|attachment|report|spreadsheet)(.+?)(?:\.|!|$)/gi, action: 'send_file' },
-  { regex: /I(?:'ll| will) (?:follow up|get back to|reach out|circle back|touch base)(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
-  { regex: /I(?:'ll| will) (?:call|phone|ring)(.+?)(?:\.|!|$)/gi, action: 'make_call' },
-  // "Let me" patterns
-  { regex: /let me (?:send|email|schedule|create|set up|share|forward)(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
-  // "Going to" patterns
-  { regex: /(?:going to|gonna) (?:send|email|schedule|create|share)(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
-  // "Need to / Have to" patterns
-  { regex: /(?:need|have) to (?:send|email|call|follow up|schedule|finish|complete|submit)(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
-  // "Remind me" patterns
-  { regex: /remind(?:er)?(?:\s+me)?\s+to\s+(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
-  // "By [deadline]" patterns
-  { regex: /(?:by|before|due|deadline)\s+(?:end of day|eod|tomorrow|next week|friday|monday|tuesday|wednesday|thursday|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\w*\s+\d+)/gi, action: 'deadline' },
-  // "Agreed to" / "promised" patterns
-  { regex: /(?:agreed|promised|committed) to (.+?)(?:\.|!|$)/gi, action: 'follow_up' },
-  // Slack/Teams channel patterns
-  { regex: /@(?:channel|here|everyone)\s+(?:reminder|heads up|please|action|todo):\s*(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
-  // Calendar invite patterns
-  { regex: /(?:invited? (?:you |them )?to|scheduled?|booked?)\s+(?:a |the )?(.+?)(?:\.|!|$)/gi, action: 'create_event' },
-  // "Can you" / "Could you" delegation patterns
-  { regex: /(?:can|could|would) you (?:please )?(?:send|email|schedule|create|forward|share|review|check|update)(.+?)(?:\?|$)/gi, action: 'follow_up' },
-  // "Will do" / "On it" confirmation patterns
-  { regex: /(?:will do|on it|sure thing|absolutely|got it|consider it done)[,.]?\s*(?:I'll |will )?(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
-  // Sprint/agile deadline patterns
-  { regex: /(?:by|before|due|deadline)\s+(?:end of sprint|next sprint|standup|retro|demo|release|launch|go-?live|asap|eob|eow)/gi, action: 'deadline' },
-  // "Don't forget" / "Make sure" patterns
-  { regex: /(?:don't forget|make sure|remember) to (.+?)(?:\.|!|$)/gi, action: 'follow_up' },
-];
-
-// ============================================================================
-// Deadline Patterns
-// ============================================================================
-
-const DEADLINE_PATTERNS: { regex: RegExp; resolver: () => number }[] = [
-  {
-    regex: /\b(?:today|end of day|eod|tonight)\b/i,
-    resolver: () => {
-      const d = new Date();
-      d.setHours(17, 0, 0, 0);
-      return d.getTime();
-    },
-  },
-  {
-    regex: /\btomorrow\b/i,
-    resolver: () => {
-      const d = new Date();
-      d.setDate(d.getDate() + 1);
-      d.setHours(9, 0, 0, 0);
-      return d.getTime();
-    },
-  },
-  {
-    regex: /\bnext week\b/i,
-    resolver: () => {
-      const d = new Date();
-      d.setDate(d.getDate() + 7);
-      return d.getTime();
-    },
-  },
-  {
-    regex: /\b(?:this |next )?(?:monday)\b/i,
-    resolver: () => nextDayOfWeek(1),
-  },
-  {
-    regex: /\b(?:this |next )?(?:tuesday)\b/i,
-    resolver: () => nextDayOfWeek(2),
-  },
-  {
-    regex: /\b(?:this |next )?(?:wednesday)\b/i,
-    resolver: () => nextDayOfWeek(3),
-  },
-  {
-    regex: /\b(?:this |next )?(?:thursday)\b/i,
-    resolver: () => nextDayOfWeek(4),
-  },
-  {
-    regex: /\b(?:this |next )?(?:friday)\b/i,
-    resolver: () => nextDayOfWeek(5),
-  },
-  {
-    regex: /\b(?:asap|as soon as possible|urgent|immediately)\b/i,
-    resolver: () => {
-      const d = new Date();
-      d.setHours(d.getHours() + 2); // 2 hours from now
-      return d.getTime();
-    },
-  },
-  {
-    regex: /\b(?:end of week|eow|this week)\b/i,
-    resolver: () => nextDayOfWeek(5), // Friday
-  },
-  {
-    regex: /\b(?:end of month|eom)\b/i,
-    resolver: () => {
-      const d = new Date();
-      d.setMonth(d.getMonth() + 1, 0); // Last day of current month
-      d.setHours(17, 0, 0, 0);
-      return d.getTime();
-    },
-  },
-  {
-    regex: /\b(?:next sprint|end of sprint)\b/i,
-    resolver: () => {
-      const d = new Date();
-      d.setDate(d.getDate() + 14); // ~2 weeks
-      d.setHours(9, 0, 0, 0);
-      return d.getTime();
-    },
-  },
-];
-
-function nextDayOfWeek(dayOfWeek: number): number {
-  const d = new Date();
-  const currentDay = d.getDay();
-  let daysAhead = dayOfWeek - currentDay;
-  if (daysAhead <= 0) daysAhead += 7;
-  d.setDate(d.getDate() + daysAhead);
-  d.setHours(9, 0, 0, 0);
-  return d.getTime();
-}
-
 // ============================================================================
 // Entity Extraction Patterns
 // ============================================================================
@@ -320,6 +193,15 @@ const FILE_SKILL_MAP: Record<string, { skill: string; category: string }> = {
 export class EventClassifier {
   private lastAppName: string | null = null;
   private lastCategory: ActivityCategory | null = null;
+  private deadlines: DeadlineParser;
+
+  constructor(deadlineSettings: DeadlineSettings = {}) {
+    this.deadlines = new DeadlineParser(deadlineSettings);
+  }
+
+  updateDeadlineSettings(settings: DeadlineSettings): void {
+    this.deadlines.updateSettings(settings);
+  }
 
   // ============================================================================
   // Main Classification
@@ -330,7 +212,8 @@ export class EventClassifier {
    */
   classifyCapture(capture: AccessibilityCaptureResult): ContextEvent {
     const category = this.detectCategory(capture.appName, capture.windowTitle, capture.visibleText);
-    const text = capture.visibleText || capture.focusedElementText || '';
+    // Browsers rarely expose page text; the bridge's page description stands in
+    const text = capture.visibleText || capture.focusedElementText || capture.page?.description || '';
 
     // Detect context switch
     const isContextSwitch = this.detectContextSwitch(capture.appName, category);
@@ -338,8 +221,11 @@ export class EventClassifier {
     this.lastCategory = category;
 
     // Extract information
-    const commitments = this.extractCommitments(text);
+    const commitments = this.extractCommitments(text, detectLanguage(text));
     const entities = this.extractEntities(text);
+    if (capture.page?.siteName && !entities.includes(capture.page.siteName)) {
+      entities.unshift(capture.page.siteName);
+    }
     const skillSignals = this.detectSkillSignals(category, capture.appName, text, capture.windowTitle);
 
     // Determine event type (priority order matters)
@@ -490,13 +376,18 @@ export class EventClassifier {
   // Commitment Extraction
   // ============================================================================
 
-  extractCommitments(text: string): Commitment[] {
+  /**
+   * Find commitments using one language pack; detected from the text
+   * unless given.
+   */
+  extractCommitments(text: string, language?: CommitmentLanguage): DetectedCommitment[] {
     if (!text || text.length < 10) return [];
 
-    const commitments: Commitment[] = [];
+    const pack = LANGUAGE_PACKS[language ?? detectLanguage(text)];
+    const commitments: DetectedCommitment[] = [];
     const seen = new Set<string>();
 
-    for (const pattern of COMMITMENT_PATTERNS) {
+    for (const pattern of pack.commitments) {
       // Reset regex lastIndex for global regexes
       pattern.regex.lastIndex = 0;
       const matches = text.matchAll(pattern.regex);
@@ -510,16 +401,15 @@ export class EventClassifier {
         seen.add(normalized);
 
         // Extract deadline if present
-        const dueDate = this.extractDeadline(fullMatch);
+        const dueDate = this.deadlines.parse(fullMatch, { language: pack.language })?.dueAt;
 
         // Extract involved parties
-        const parties = this.extractParties(fullMatch);
+        const parties = this.extractParties(fullMatch, pack);
 
         commitments.push({
           description: fullMatch,
           dueDate,
           involvedParties: parties,
-          status: 'detected',
           requiredAction: pattern.action,
         });
       }
@@ -528,20 +418,11 @@ export class EventClassifier {
     return commitments;
   }
 
-  private extractDeadline(text: string): number | undefined {
-    for (const pattern of DEADLINE_PATTERNS) {
-      if (pattern.regex.test(text)) {
-        return pattern.resolver();
-      }
-    }
-    return undefined;
-  }
-
-  private extractParties(text: string): string[] {
+  private extractParties(text: string, pack: LanguagePack): string[] {
     const parties: string[] = [];
 
-    // Look for "to [Name]" or "with [Name]"
-    const toMatch = text.match(/(?:to|with|for)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/);
+    // Look for "to [Name]" or "with [Name]" (or the pack's equivalents)
+    const toMatch = text.match(pack.partyPrefixes);
     if (toMatch) {
       parties.push(toMatch[1]);
     }
@@ -850,7 +731,7 @@ export class EventClassifier {
   // Confidence Calculation
   // ============================================================================
 
-  private calculateConfidence(text: string, commitments: Commitment[]): number {
+  private calculateConfidence(text: string, commitments: DetectedCommitment[]): number {
     let confidence = 0.5;
 
     // More text = more confidence in classification
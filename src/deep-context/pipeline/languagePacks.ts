@@ -0,0 +1,337 @@
+/**
+ * Commitment Language Packs
+ *
+ * Per-language patterns for the event classifier: commitments ("I'll send",
+ * "ik stuur", "ich schicke"), delegation ("can you", "kun je", "kannst du"),
+ * the date words the deadline parser reads ("morgen", "vóór vrijdag",
+ * "bis Freitag"), and the prepositions that introduce the other party.
+ * detectLanguage() picks one pack per capture from its function words;
+ * text it cannot place is treated as English.
+ *
+ * Commitment patterns must be global (matchAll).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CommitmentLanguage = 'en' | 'nl' | 'de';
+
+export interface CommitmentPattern {
+  regex: RegExp;
+  action: string;
+}
+
+export type DurationUnit = 'minute' | 'hour' | 'day' | 'businessDay' | 'week' | 'month';
+
+/**
+ * Date words for the deadline parser (deadlineParser.ts). Each entry is a
+ * regex alternation without capture groups.
+ */
+export interface DateWords {
+  weekdays: string[]; // Sunday to Saturday
+  months: string[]; // January to December
+  numbers: string[]; // one to ten, for "in two days"
+  units: Record<DurationUnit, string>;
+  today: string; // end of today's workday
+  tonight: string;
+  tomorrow: string;
+  dayAfterTomorrow: string;
+  thisWeek: string;
+  nextWeek: string;
+  endOfMonth: string;
+  thisSprint: string;
+  nextSprint: string;
+  asap: string;
+  this: string; // "this Friday"
+  next: string; // "next Friday"
+  within: string; // "in 2 days"
+  by: string; // words that mark what follows as a deadline
+  between: string; // opens a range
+  rangeTo: string; // "Monday to Wednesday"
+  and: string; // "between Monday and Wednesday"
+  at: string; // "Friday at 3pm"
+  morning: string;
+  evening: string;
+}
+
+export interface LanguagePack {
+  language: CommitmentLanguage;
+  name: string;
+  functionWords: Set<string>; // frequent words that identify the language
+  commitments: CommitmentPattern[];
+  dates: DateWords;
+  partyPrefixes: RegExp; // "to Sarah", "aan Jan", "an Petra"; group 1 is the name
+}
+
+// ============================================================================
+// English
+// ============================================================================
+
+const ENGLISH: LanguagePack = {
+  language: 'en',
+  name: 'English',
+  functionWords: new Set([
+    'the', 'and', 'to', 'of', 'is', 'are', 'you', 'i', "i'll", 'will', 'with', 'for', 'this', 'that',
+    'it', 'we', 'be', 'have', 'please', 'can', 'could', 'would', 'send', 'on', 'by', 'my', 'your',
+  ]),
+  commitments: [
+    // "I will / I'll" patterns
+    { regex: /I(?:'ll| will) (?:send|email|forward)(?: you| them| him| her)? (?:a |the )?(.+?)(?:\.|!|$)/gi, action: 'send_email' },
+    { regex: /I(?:'ll| will) (?:create|schedule|set up|book) (?:a |the )?(?:meeting|event|call|appointment)(.+?)(?:\.|!|$)/gi, action: 'create_event' },
+    { regex: /I(?:'ll| will) (?:send|share|forward) (?:the |a )?(?:file|document|doc|pdf|attachment|report|spreadsheet)(.+?)(?:\.|!|$)/gi, action: 'send_file' },
+    { regex: /I(?:'ll| will) (?:follow up|get back to|reach out|circle back|touch base)(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
+    { regex: /I(?:'ll| will) (?:call|phone|ring)(.+?)(?:\.|!|$)/gi, action: 'make_call' },
+    // "Let me" patterns
+    { regex: /let me (?:send|email|schedule|create|set up|share|forward)(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
+    // "Going to" patterns
+    { regex: /(?:going to|gonna) (?:send|email|schedule|create|share)(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
+    // "Need to / Have to" patterns
+    { regex: /(?:need|have) to (?:send|email|call|follow up|schedule|finish|complete|submit)(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
+    // "Remind me" patterns
+    { regex: /remind(?:er)?(?:\s+me)?\s+to\s+(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
+    // "By [deadline]" patterns
+    { regex: /(?:by|before|due|deadline)\s+(?:end of day|eod|tomorrow|next week|friday|monday|tuesday|wednesday|thursday|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)\w*\s+\d+)/gi, action: 'deadline' },
+    // "Agreed to" / "promised" patterns
+    { regex: /(?:agreed|promised|committed) to (.+?)(?:\.|!|$)/gi, action: 'follow_up' },
+    // Slack/Teams channel patterns
+    { regex: /@(?:channel|here|everyone)\s+(?:reminder|heads up|please|action|todo):\s*(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
+    // Calendar invite patterns
+    { regex: /(?:invited? (?:you |them )?to|scheduled?|booked?)\s+(?:a |the )?(.+?)(?:\.|!|$)/gi, action: 'create_event' },
+    // "Can you" / "Could you" delegation patterns
+    { regex: /(?:can|could|would) you (?:please )?(?:send|email|schedule|create|forward|share|review|check|update)(.+?)(?:\?|$)/gi, action: 'follow_up' },
+    // "Will do" / "On it" confirmation patterns
+    { regex: /(?:will do|on it|sure thing|absolutely|got it|consider it done)[,.]?\s*(?:I'll |will )?(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
+    // Sprint/agile deadline patterns
+    { regex: /(?:by|before|due|deadline)\s+(?:end of sprint|next sprint|standup|retro|demo|release|launch|go-?live|asap|eob|eow)/gi, action: 'deadline' },
+    // "Don't forget" / "Make sure" patterns
+    { regex: /(?:don't forget|make sure|remember) to (.+?)(?:\.|!|$)/gi, action: 'follow_up' },
+  ],
+  dates: {
+    weekdays: ['sunday', 'monday', 'tuesday|tues', 'wednesday|weds', 'thursday|thurs', 'friday|fri', 'saturday'],
+    months: [
+      'january|jan', 'february|feb', 'march|mar', 'april|apr', 'may', 'june|jun',
+      'july|jul', 'august|aug', 'september|sept|sep', 'october|oct', 'november|nov', 'december|dec',
+    ],
+    numbers: ['an?|one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten'],
+    units: {
+      minute: 'minutes?|mins?',
+      hour: 'hours?|hrs?',
+      day: 'days?',
+      businessDay: '(?:business|working) days?|workdays?',
+      week: 'weeks?',
+      month: 'months?',
+    },
+    today: 'today|end of (?:the )?day|eod|end of business|eob|close of business|cob',
+    tonight: 'tonight',
+    tomorrow: 'tomorrow|tmrw',
+    dayAfterTomorrow: '(?:the )?day after tomorrow',
+    thisWeek: 'end of (?:the )?week|eow|this week',
+    nextWeek: 'next week',
+    endOfMonth: 'end of (?:the )?month|eom',
+    thisSprint: 'end of (?:the |this )?sprint|this sprint',
+    nextSprint: '(?:end of )?(?:the )?next sprint',
+    asap: 'asap|as soon as possible|urgent|immediately',
+    this: 'this|coming',
+    next: 'next',
+    within: 'in|within',
+    by: 'by|before|due|until|deadline|no later than',
+    between: 'between|from',
+    rangeTo: 'to|until|through|till|-|–',
+    and: 'and',
+    at: 'at|on|@',
+    morning: 'morning',
+    evening: 'evening|night',
+  },
+  partyPrefixes: /(?:to|with|for)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/,
+};
+
+// ============================================================================
+// Dutch
+// ============================================================================
+
+const DUTCH_WEEKDAYS = 'maandag|dinsdag|woensdag|donderdag|vrijdag|zaterdag|zondag';
+const DUTCH_MONTHS = 'jan|feb|mrt|maart|apr|mei|jun|jul|aug|sep|okt|nov|dec';
+
+const DUTCH: LanguagePack = {
+  language: 'nl',
+  name: 'Nederlands',
+  functionWords: new Set([
+    'de', 'het', 'een', 'en', 'ik', 'je', 'jij', 'jullie', 'niet', 'van', 'voor', 'met', 'dat', 'dit',
+    'deze', 'wij', 'we', 'zal', 'zijn', 'heb', 'hebben', 'naar', 'ook', 'nog', 'wel', 'maar', 'graag',
+    'even', 'kun', 'kunt', 'morgen', 'vandaag', 'stuur', 'bij', 'aan', 'op', 'wordt', 'moet', 'om',
+    'te', 'eraan', 'mij', 'ons', 'hij', 'zij',
+  ]),
+  commitments: [
+    // "Ik stuur / ik zal ... sturen"
+    { regex: /\bik (?:stuur|mail|(?:zal|ga)\b[^.!?]{0,60}?\b(?:sturen|mailen|doorsturen|opsturen))\b[^.!?]*/gi, action: 'send_email' },
+    { regex: /\bik (?:stuur|deel|(?:zal|ga)\b[^.!?]{0,60}?\b(?:sturen|delen))\b[^.!?]*?\b(?:bestand|document|pdf|bijlage|rapport|offerte|spreadsheet)\b/gi, action: 'send_file' },
+    { regex: /\bik (?:plan|zet|boek|zal|ga)\b(?=[^.!?]*\b(?:plan|plannen|inplannen|zet|boek|boeken|organiseren)\b)[^.!?]*?\b(?:meeting|afspraak|overleg|call|vergadering)\b[^.!?]*/gi, action: 'create_event' },
+    { regex: /\bik (?:kom|zal|ga|laat)\b[^.!?]*?\b(?:terug|opvolgen|navragen|weten|contact opnemen)\b[^.!?]*/gi, action: 'follow_up' },
+    { regex: /\bik (?:bel\b|(?:zal|ga)\b[^.!?]*?\bbellen\b)[^.!?]*/gi, action: 'make_call' },
+    // "Ik moet / we moeten"
+    { regex: /\b(?:ik|we|wij) moet(?:en)?\b[^.!?]*?\b(?:sturen|mailen|bellen|afmaken|afronden|inleveren|indienen|plannen|opvolgen)\b[^.!?]*/gi, action: 'follow_up' },
+    // "Herinner me eraan om ..."
+    { regex: /\bherinner(?:ing)?(?: me| mij)?(?: eraan)?(?: om)?\s+(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
+    // "Vóór vrijdag / uiterlijk morgen"
+    { regex: new RegExp(`\\b(?:vóór|voor|uiterlijk|deadline)\\s+(?:het )?(?:einde? van de (?:dag|week|maand|sprint)|eod|overmorgen|morgen|volgende (?:week|sprint)|${DUTCH_WEEKDAYS}|\\d{1,2}\\s+(?:${DUTCH_MONTHS})\\w*)`, 'gi'), action: 'deadline' },
+    // "Zoals afgesproken / beloofd / toegezegd"
+    { regex: /\b(?:afgesproken|beloofd|toegezegd)\b[^.!?]*/gi, action: 'follow_up' },
+    // "Kun je / zou je ... sturen?" delegation
+    { regex: /\b(?:kun|kan|kunt|zou|wil) (?:je|jij|u)\b[^?]*?\b(?:sturen|mailen|plannen|doorsturen|delen|bekijken|checken|nakijken|reviewen|updaten|bijwerken)\b[^?]*?(?:\?|$)/gi, action: 'follow_up' },
+    // "Komt goed / doe ik" confirmation
+    { regex: /\b(?:komt goed|doe ik|regel ik|ik pak (?:het|dit|dat) op|ben ermee bezig)\b[^.!?]*/gi, action: 'follow_up' },
+    // "Vergeet niet / zorg dat"
+    { regex: /\b(?:vergeet niet|niet vergeten|zorg (?:er ?voor )?dat)\b[^.!?]*/gi, action: 'follow_up' },
+  ],
+  dates: {
+    weekdays: ['zondag', 'maandag', 'dinsdag', 'woensdag', 'donderdag', 'vrijdag', 'zaterdag'],
+    months: [
+      'januari|jan', 'februari|feb', 'maart|mrt', 'april|apr', 'mei', 'juni|jun',
+      'juli|jul', 'augustus|aug', 'september|sept|sep', 'oktober|okt', 'november|nov', 'december|dec',
+    ],
+    numbers: ['een|één', 'twee', 'drie', 'vier', 'vijf', 'zes', 'zeven', 'acht', 'negen', 'tien'],
+    units: {
+      minute: 'minuten|minuut',
+      hour: 'uur|uren',
+      day: 'dagen|dag',
+      businessDay: 'werkdagen|werkdag',
+      week: 'weken|week',
+      month: 'maanden|maand',
+    },
+    today: 'vandaag|einde? van de dag|eod',
+    tonight: 'vanavond',
+    tomorrow: 'morgen(?:ochtend|middag)?',
+    dayAfterTomorrow: 'overmorgen',
+    thisWeek: 'einde? van de week|deze week',
+    nextWeek: '(?:volgende|komende) week',
+    endOfMonth: 'einde? van de maand',
+    thisSprint: 'einde? van de sprint|deze sprint',
+    nextSprint: 'volgende sprint',
+    asap: 'asap|zo snel mogelijk|z\\.s\\.m\\.?|zsm|dringend|meteen',
+    this: 'deze|komende',
+    next: 'volgende',
+    within: 'over|binnen',
+    by: 'vóór|voor|uiterlijk|deadline|tegen',
+    between: 'tussen|van',
+    rangeTo: 'tot en met|t/m|tot',
+    and: 'en',
+    at: 'om|op',
+    morning: 'ochtend',
+    evening: 'avond',
+  },
+  partyPrefixes: /(?:aan|met|voor|naar)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/,
+};
+
+// ============================================================================
+// German
+// ============================================================================
+
+const GERMAN_WEEKDAYS = 'montag|dienstag|mittwoch|donnerstag|freitag|samstag|sonntag';
+const GERMAN_MONTHS = 'jan|feb|mär|apr|mai|jun|jul|aug|sep|okt|nov|dez';
+
+const GERMAN: LanguagePack = {
+  language: 'de',
+  name: 'Deutsch',
+  functionWords: new Set([
+    'der', 'die', 'das', 'und', 'ich', 'nicht', 'ist', 'ein', 'eine', 'mit', 'für', 'bis', 'zu', 'den',
+    'dem', 'wir', 'sie', 'werde', 'wird', 'bitte', 'auch', 'noch', 'schon', 'kann', 'kannst', 'auf',
+    'dir', 'mir', 'uns', 'euch', 'morgen', 'heute', 'schicke', 'muss', 'sich', 'es', 'du',
+  ]),
+  commitments: [
+    // "Ich schicke / ich werde ... schicken"
+    { regex: /\bich (?:schicke?|sende|maile|leite|werde\b[^.!?]{0,60}?\b(?:schicken|senden|mailen|weiterleiten|zuschicken))\b[^.!?]*/gi, action: 'send_email' },
+    { regex: /\bich (?:schicke?|sende|teile|werde\b[^.!?]{0,60}?\b(?:schicken|senden|teilen))\b[^.!?]*?\b(?:datei|dokument|pdf|anhang|bericht|angebot|tabelle)\b/gi, action: 'send_file' },
+    { regex: /\bich (?:plane|lege|buche|organisiere|werde)\b(?=[^.!?]*\b(?:plane|planen|einplanen|buche|buchen|ansetzen|organisiere|organisieren|lege)\b)[^.!?]*?\b(?:meeting|termin|besprechung|call|treffen)\b[^.!?]*/gi, action: 'create_event' },
+    { regex: /\bich (?:melde mich|gebe (?:dir |euch |ihnen )?bescheid|(?:komme|werde|frage|hake)\b[^.!?]*?\b(?:zurück|nach|melden|bescheid geben))[^.!?]*/gi, action: 'follow_up' },
+    { regex: /\bich (?:rufe?\b|werde\b[^.!?]*?\banrufen\b)[^.!?]*/gi, action: 'make_call' },
+    // "Ich muss / wir müssen"
+    { regex: /\b(?:ich muss|wir müssen)[^.!?]*?\b(?:schicken|senden|anrufen|fertigstellen|abschließen|einreichen|abgeben|planen|nachfassen|erledigen)\b[^.!?]*/gi, action: 'follow_up' },
+    // "Erinnere mich daran, ..."
+    { regex: /\berinner(?:e|ung)\b(?: mich)?(?: daran)?,?\s+(.+?)(?:\.|!|$)/gi, action: 'follow_up' },
+    // "Bis Freitag / spätestens morgen"; "Bis morgen." opening a sentence
+    // or "bis morgen!" is a goodbye, not a deadline
+    { regex: new RegExp(`(?<!(?:^|[.!?])\\s*)\\b(?:bis|vor|spätestens|deadline|fällig)\\s+(?:(?:zum |am )?(?:ende (?:des tages|der woche|des monats|des sprints)|feierabend|eod|übermorgen|morgen|nächste(?:n)? (?:woche|sprint)|${GERMAN_WEEKDAYS})|(?:zum |am )?\\d{1,2}\\.\\s*(?:${GERMAN_MONTHS})\\w*)(?!\\s*!)`, 'gi'), action: 'deadline' },
+    // "Wie vereinbart / versprochen / zugesagt"
+    { regex: /\b(?:vereinbart|versprochen|zugesagt|abgemacht)\b[^.!?]*/gi, action: 'follow_up' },
+    // "Kannst du / könnten Sie ... schicken?" delegation
+    { regex: /(?:kannst|könntest|würdest) du\b[^?]*?\b(?:schicken|senden|planen|weiterleiten|teilen|prüfen|checken|anschauen|reviewen|aktualisieren)\b[^?]*?(?:\?|$)/gi, action: 'follow_up' },
+    { regex: /(?:können|könnten|würden) sie\b[^?]*?\b(?:schicken|senden|planen|weiterleiten|teilen|prüfen|checken|anschauen|aktualisieren)\b[^?]*?(?:\?|$)/gi, action: 'follow_up' },
+    // "Mach ich / bin dran" confirmation
+    { regex: /(?:mach ich|mache ich|wird erledigt|kümmere mich (?:darum|drum)|bin dran|geht klar)[^.!?]*/gi, action: 'follow_up' },
+    // "Vergiss nicht / denk daran"
+    { regex: /\b(?:vergiss nicht|nicht vergessen|denke? daran|achte darauf)\b[^.!?]*/gi, action: 'follow_up' },
+  ],
+  dates: {
+    weekdays: ['sonntag', 'montag', 'dienstag', 'mittwoch', 'donnerstag', 'freitag', 'samstag'],
+    months: [
+      'januar|jänner|jan', 'februar|feb', 'märz|mär', 'april|apr', 'mai', 'juni|jun',
+      'juli|jul', 'august|aug', 'september|sept|sep', 'oktober|okt', 'november|nov', 'dezember|dez',
+    ],
+    numbers: ['eine[mnr]?|ein', 'zwei', 'drei', 'vier', 'fünf', 'sechs', 'sieben', 'acht', 'neun', 'zehn'],
+    units: {
+      minute: 'minuten|minute',
+      hour: 'stunden|stunde',
+      day: 'tagen?|tag',
+      businessDay: '(?:werk|arbeits)tagen?|(?:werk|arbeits)tag',
+      week: 'wochen|woche',
+      month: 'monaten?|monat',
+    },
+    today: 'heute|ende des tages|feierabend|eod',
+    tonight: 'heute abend',
+    tomorrow: 'morgen',
+    dayAfterTomorrow: 'übermorgen',
+    thisWeek: 'ende der woche|diese woche',
+    nextWeek: 'nächste(?:n)? woche|kommende(?:n)? woche',
+    endOfMonth: 'ende des monats|monatsende',
+    thisSprint: 'ende des sprints|diese(?:n|m)? sprint',
+    nextSprint: 'nächste(?:n|r)? sprint',
+    asap: 'asap|so schnell wie möglich|schnellstmöglich|dringend|sofort',
+    this: 'diese[nmr]?|kommende[nmr]?',
+    next: 'nächste[nmr]?',
+    within: 'in|innerhalb von|binnen',
+    by: 'bis|vor|spätestens|fällig|deadline',
+    between: 'zwischen|von|vom',
+    rangeTo: 'bis',
+    and: 'und',
+    at: 'um|am',
+    morning: 'früh|vormittag',
+    evening: 'abend',
+  },
+  partyPrefixes: /(?:an|mit|für|bei)\s+([A-Z][a-zäöüß]+(?:\s+[A-Z][a-zäöüß]+)?)/,
+};
+
+// ============================================================================
+// Language Detection
+// ============================================================================
+
+export const LANGUAGE_PACKS: Record<CommitmentLanguage, LanguagePack> = {
+  en: ENGLISH,
+  nl: DUTCH,
+  de: GERMAN,
+};
+
+// Below this many function words, text is too short to tell
+const MIN_LANGUAGE_HITS = 2;
+
+/**
+ * Guess the language of a capture by counting each language's function
+ * words. Dutch or German must beat English outright; ties and short or
+ * unrecognised text stay English.
+ */
+export function detectLanguage(text: string): CommitmentLanguage {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  const scores: Record<CommitmentLanguage, number> = { en: 0, nl: 0, de: 0 };
+
+  for (const w of words) {
+    for (const pack of Object.values(LANGUAGE_PACKS)) {
+      if (pack.functionWords.has(w)) scores[pack.language]++;
+    }
+  }
+
+  let best: CommitmentLanguage = 'en';
+  for (const language of ['nl', 'de'] as const) {
+    if (scores[language] >= MIN_LANGUAGE_HITS && scores[language] > scores[best]) best = language;
+  }
+  return best;
+}
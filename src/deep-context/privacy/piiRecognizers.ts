@@ -0,0 +1,408 @@
+/**
+ * PII Recognizers
+ *
+ * Registry of detectors for personal data and secrets in captured text.
+ * Each recognizer has:
+ * - a pattern, plus an optional checksum (Luhn, mod-97, 11-proof) to cut false positives
+ * - the locales it applies to ('global' recognizers always run)
+ * - a replacement token and an enable flag that can be overridden per recognizer
+ *
+ * Recognizers are checked in registration order. When two matches overlap,
+ * the earlier recognizer wins, so specific shapes (JWTs, IBANs) are
+ * registered before generic ones (phone numbers, hex tokens).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PiiLocale = 'global' | 'eu' | 'us' | 'nl' | 'de';
+
+export interface PiiRecognizer {
+  id: string;
+  description: string;
+  locales: PiiLocale[];
+  pattern: RegExp; // must be global
+  token: string;
+  enabled: boolean;
+  validate?: (match: string) => boolean;
+}
+
+export interface PiiRecognizerOverride {
+  enabled?: boolean;
+  token?: string;
+}
+
+export interface PiiSettings {
+  locales?: PiiLocale[]; // empty or unset: all locales
+  recognizers?: Record<string, PiiRecognizerOverride>;
+}
+
+export interface PiiMatch {
+  recognizerId: string;
+  start: number;
+  end: number;
+  value: string;
+  token: string;
+}
+
+// ============================================================================
+// Checksums
+// ============================================================================
+
+function digitsOf(value: string): number[] {
+  return value.replace(/\D/g, '').split('').map(Number);
+}
+
+/**
+ * Luhn check used by payment card numbers
+ */
+export function luhnValid(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length === 0) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = digits[digits.length - 1 - i];
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 check for IBANs
+ */
+export function ibanValid(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const code = /[A-Z]/.test(ch) ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * Dutch BSN 11-proof (elfproef)
+ */
+export function bsnValid(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 9) return false;
+  let sum = 0;
+  for (let i = 0; i < 8; i++) {
+    sum += digits[i] * (9 - i);
+  }
+  sum -= digits[8];
+  return sum !== 0 && sum % 11 === 0;
+}
+
+/**
+ * German tax ID (Steuer-IdNr) ISO 7064 mod 11,10 check
+ */
+export function germanTaxIdValid(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 11 || digits[0] === 0) return false;
+  let product = 10;
+  for (let i = 0; i < 10; i++) {
+    let sum = (digits[i] + product) % 10;
+    if (sum === 0) sum = 10;
+    product = (sum * 2) % 11;
+  }
+  const check = (11 - product) % 10;
+  return check === digits[10];
+}
+
+function ssnValid(value: string): boolean {
+  const [area, group, serial] = value.split('-');
+  return area !== '000' && area !== '666' && area[0] !== '9' && group !== '00' && serial !== '0000';
+}
+
+function ipv4Valid(value: string): boolean {
+  return value.split('.').every((octet) => Number(octet) <= 255);
+}
+
+// ============================================================================
+// Built-in Recognizers
+// ============================================================================
+
+export const BUILTIN_PII_RECOGNIZERS: PiiRecognizer[] = [
+  // Secrets
+  {
+    id: 'jwt',
+    description: 'JSON Web Token',
+    locales: ['global'],
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g,
+    token: '[jwt]',
+    enabled: true,
+  },
+  {
+    id: 'bearer',
+    description: 'Bearer token in an Authorization header',
+    locales: ['global'],
+    pattern: /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]+=*/gi,
+    token: '[token]',
+    enabled: true,
+  },
+  {
+    id: 'aws-access-key',
+    description: 'AWS access key ID',
+    locales: ['global'],
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+    token: '[aws-key]',
+    enabled: true,
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub personal access or app token',
+    locales: ['global'],
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+    token: '[github-token]',
+    enabled: true,
+  },
+  {
+    id: 'stripe-key',
+    description: 'Stripe secret, publishable or restricted key',
+    locales: ['global'],
+    pattern: /\b(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+    token: '[stripe-key]',
+    enabled: true,
+  },
+  {
+    id: 'secret-assignment',
+    description: 'Password, token or key passed as VAR=value or --flag value',
+    locales: ['global'],
+    pattern: /(?<![\w-])(?:\w*(?:password|passwd|secret|token|(?:api|access|secret|private)[_-]?key)=|--(?:password|passwd|secret|token|api-key|access-key)[=\s]+)(?:'[^']*'|"[^"]*"|[^\s'"]+)/gi,
+    token: '[secret]',
+    enabled: true,
+  },
+
+  // Contact details & financial
+  {
+    id: 'email',
+    description: 'Email address',
+    locales: ['global'],
+    pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[A-Za-z]{2,}/g,
+    token: '[email]',
+    enabled: true,
+  },
+  {
+    id: 'iban',
+    description: 'IBAN (mod-97 checked)',
+    locales: ['eu'],
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    token: '[iban]',
+    enabled: true,
+    validate: ibanValid,
+  },
+  {
+    id: 'eu-vat',
+    description: 'EU VAT number (NL, DE, BE, FR, AT, IT, ES)',
+    locales: ['eu'],
+    pattern: /\b(?:NL\d{9}B\d{2}|DE\d{9}|BE[01]\d{9}|FR[0-9A-HJ-NP-Z]{2}\d{9}|ATU\d{8}|IT\d{11}|ES[A-Z0-9]\d{7}[A-Z0-9])\b/g,
+    token: '[vat]',
+    enabled: true,
+  },
+  {
+    id: 'card',
+    description: 'Payment card number (Luhn checked)',
+    locales: ['global'],
+    // 13-19 digits in any grouping (4-4-4-4, Amex 4-6-5, ...); Luhn and the
+    // length check weed out other long numbers
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    token: '[card]',
+    enabled: true,
+    validate: (match) => {
+      const length = digitsOf(match).length;
+      return length >= 13 && length <= 19 && luhnValid(match);
+    },
+  },
+  {
+    id: 'us-ssn',
+    description: 'US Social Security number',
+    locales: ['us'],
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+    token: '[ssn]',
+    enabled: true,
+    validate: ssnValid,
+  },
+  {
+    id: 'ipv4',
+    description: 'IPv4 address',
+    locales: ['global'],
+    pattern: /\b\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\b/g,
+    token: '[ip]',
+    enabled: true,
+    validate: ipv4Valid,
+  },
+
+  // Phone numbers
+  {
+    id: 'phone-intl',
+    description: 'Phone number with a country code',
+    locales: ['global'],
+    pattern: /(?<![\w+])\+\d{1,3}[ .-]?\(?\d{1,4}\)?(?:[ .-]?\d{2,4}){2,4}\b/g,
+    token: '[phone]',
+    enabled: true,
+    validate: (match) => digitsOf(match).length >= 8,
+  },
+  {
+    id: 'phone-us',
+    description: 'US phone number',
+    locales: ['us'],
+    pattern: /(?<!\w)\(?\d{3}\)?[ .-]\d{3}[ .-]\d{4}\b/g,
+    token: '[phone]',
+    enabled: true,
+  },
+  {
+    id: 'phone-nl',
+    description: 'Dutch phone number (06 mobile or area code)',
+    locales: ['nl'],
+    pattern: /\b0(?:6[ -]?\d{8}|[1-57-9]\d{1,2}[ -]\d{6,7})\b/g,
+    token: '[phone]',
+    enabled: true,
+  },
+  {
+    id: 'phone-de',
+    description: 'German mobile number',
+    locales: ['de'],
+    pattern: /\b01[5-7]\d[ /-]?\d{7,8}\b/g,
+    token: '[phone]',
+    enabled: true,
+  },
+
+  // National IDs
+  {
+    id: 'nl-bsn',
+    description: 'Dutch citizen service number (BSN, 11-proof checked)',
+    locales: ['nl'],
+    pattern: /\b\d{4}\.?\d{2}\.?\d{3}\b/g,
+    token: '[bsn]',
+    enabled: true,
+    validate: bsnValid,
+  },
+  {
+    id: 'de-tax-id',
+    description: 'German tax ID (Steuer-IdNr, checksum validated)',
+    locales: ['de'],
+    pattern: /\b\d{2} ?\d{3} ?\d{3} ?\d{3}\b/g,
+    token: '[tax-id]',
+    enabled: true,
+    validate: germanTaxIdValid,
+  },
+
+  // Generic
+  {
+    id: 'hex-token',
+    description: 'Long hex string (API keys, hashes)',
+    locales: ['global'],
+    pattern: /\b[a-fA-F0-9]{32,}\b/g,
+    token: '[token]',
+    enabled: true,
+  },
+];
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class PiiRecognizerRegistry {
+  private recognizers: PiiRecognizer[] = [];
+  private defaults = new Map<string, PiiRecognizerOverride>();
+  private locales: Set<PiiLocale> | null = null;
+
+  constructor(recognizers: PiiRecognizer[] = BUILTIN_PII_RECOGNIZERS) {
+    for (const recognizer of recognizers) {
+      this.register(recognizer);
+    }
+  }
+
+  /**
+   * Add a recognizer. It runs after those already registered.
+   *
+   * @throws Error if the id is taken or the pattern is not global
+   */
+  register(recognizer: PiiRecognizer): void {
+    if (this.recognizers.some((r) => r.id === recognizer.id)) {
+      throw new Error(`PII recognizer already registered: ${recognizer.id}`);
+    }
+    if (!recognizer.pattern.global) {
+      throw new Error(`PII recognizer pattern must be global: ${recognizer.id}`);
+    }
+    this.recognizers.push({ ...recognizer });
+    this.defaults.set(recognizer.id, { enabled: recognizer.enabled, token: recognizer.token });
+  }
+
+  list(): PiiRecognizer[] {
+    return this.recognizers.map((r) => ({ ...r }));
+  }
+
+  /**
+   * Apply locale selection and per-recognizer overrides on top of the
+   * registered defaults
+   */
+  configure(settings: PiiSettings): void {
+    this.locales = settings.locales && settings.locales.length > 0 ? new Set(settings.locales) : null;
+    for (const recognizer of this.recognizers) {
+      const base = this.defaults.get(recognizer.id)!;
+      const override = settings.recognizers?.[recognizer.id];
+      recognizer.enabled = override?.enabled ?? base.enabled!;
+      recognizer.token = override?.token ?? base.token!;
+    }
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    const recognizer = this.recognizers.find((r) => r.id === id);
+    if (!recognizer) throw new Error(`Unknown PII recognizer: ${id}`);
+    recognizer.enabled = enabled;
+  }
+
+  isActive(recognizer: PiiRecognizer): boolean {
+    if (!recognizer.enabled) return false;
+    if (!this.locales || recognizer.locales.includes('global')) return true;
+    return recognizer.locales.some((locale) => this.locales!.has(locale));
+  }
+
+  /**
+   * Find PII in text. Overlapping matches are resolved in favour of the
+   * earlier recognizer.
+   *
+   * @returns Matches sorted by position
+   */
+  detect(text: string): PiiMatch[] {
+    const accepted: PiiMatch[] = [];
+    for (const recognizer of this.recognizers) {
+      if (!this.isActive(recognizer)) continue;
+      recognizer.pattern.lastIndex = 0;
+      for (const m of text.matchAll(recognizer.pattern)) {
+        const start = m.index ?? 0;
+        const end = start + m[0].length;
+        if (m[0].length === 0) continue;
+        if (recognizer.validate && !recognizer.validate(m[0])) continue;
+        if (accepted.some((a) => start < a.end && end > a.start)) continue;
+        accepted.push({ recognizerId: recognizer.id, start, end, value: m[0], token: recognizer.token });
+      }
+    }
+    return accepted.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Replace every match with its recognizer's token
+   */
+  redact(text: string): string {
+    const matches = this.detect(text);
+    let result = '';
+    let cursor = 0;
+    for (const match of matches) {
+      result += text.slice(cursor, match.start) + match.token;
+      cursor = match.end;
+    }
+    return result + text.slice(cursor);
+  }
+}
@@ -6,217 +6,133 @@
  * never leaves the device — only structured events sync.
  *
  * Features:
- * - App exclusion (sensitive apps, password managers, banking)
- * - Domain exclusion (configurable)
- * - Time window exclusion (e.g., "don't capture after 6 PM")
- * - PII stripping (emails, phone numbers, card numbers, SSNs)
- * - Private/incognito browser window detection
+ * - Capture decisions from the declarative privacy policy (see privacyPolicy.ts):
+ *   policy file rules, then excluded apps/domains/time windows from settings,
+ *   then built-in rules for sensitive apps and private browser windows
+ * - Redaction of captures the policy marks `redact`
+ * - PII stripping with locale-aware recognizers (see piiRecognizers.ts)
  */
 
-import { SENSITIVE_APP_PATTERNS, BROWSER_APPS } from '../../shared/constants';
-import type { DeepContextEngineConfig } from '../types';
-
-// ============================================================================
-// Extended Sensitive Patterns
-// ============================================================================
-
-const SENSITIVE_APP_PATTERNS_EXTENDED = [
-  // From shared constants
-  ...SENSITIVE_APP_PATTERNS,
-  // Banking & finance
-  'banking',
-  'chase',
-  'wells fargo',
-  'bank of america',
-  'credit card',
-  'venmo',
-  'paypal',
-  'zelle',
-  'wise',
-  'revolut',
-  // Password managers
-  '1password',
-  'lastpass',
-  'bitwarden',
-  'dashlane',
-  'keepass',
-  'keychain',
-  // Medical / health
-  'medical',
-  'health',
-  'doctor',
-  'pharmacy',
-  'hipaa',
-  'mychart',
-  // Privacy indicators
-  'private',
-  'incognito',
-  'vpn',
-  // System / security
-  'system preferences',
-  'system settings',
-  'security',
-  'filevault',
-];
-
-const PRIVATE_WINDOW_PATTERNS = [
-  'private browsing',
-  'incognito',
-  'inprivate',
-  'private window',
-  'private tab',
-];
+import {
+  BUILTIN_PRIVACY_RULES,
+  CaptureContext,
+  DEFAULT_PRIVACY_POLICY,
+  PolicyDecision,
+  PrivacyPolicy,
+  PrivacyPolicyEvaluator,
+  loadPrivacyPolicy,
+  rulesFromConfig,
+} from './privacyPolicy';
+import { PiiMatch, PiiRecognizerRegistry } from './piiRecognizers';
+import type { AccessibilityCaptureResult, DeepContextEngineConfig } from '../types';
 
 // ============================================================================
 // Privacy Filter Class
 // ============================================================================
 
 export class PrivacyFilter {
-  private excludedApps: Set<string>;
-  private excludedDomains: Set<string>;
-  private excludedTimeWindows: { start: number; end: number }[];
+  private config: DeepContextEngineConfig;
+  private policy: PrivacyPolicy = DEFAULT_PRIVACY_POLICY;
+  private evaluator!: PrivacyPolicyEvaluator;
+  private policyError: string | null = null;
+  private piiRegistry = new PiiRecognizerRegistry();
 
   constructor(config: DeepContextEngineConfig) {
-    this.excludedApps = new Set(
-      config.excludedApps.map((a) => a.toLowerCase())
-    );
-    this.excludedDomains = new Set(
-      config.excludedDomains.map((d) => d.toLowerCase())
-    );
-    this.excludedTimeWindows = config.excludedTimeWindows.map((tw) => ({
-      start: this.parseTimeToMinutes(tw.start),
-      end: this.parseTimeToMinutes(tw.end),
-    }));
+    this.config = config;
+    this.reloadPolicy();
+    this.piiRegistry.configure(config.pii ?? {});
   }
 
   // ============================================================================
   // Main Filter Check
   // ============================================================================
 
+  /**
+   * Decide what to do with a capture. The decision's trace lists every rule
+   * checked up to the one that fired.
+   */
+  evaluate(ctx: CaptureContext): PolicyDecision {
+    return this.evaluator.evaluate(ctx);
+  }
+
   /**
    * Check if we should capture data from this application/window.
-   * Returns false if the app/window should be excluded.
+   * Returns false if the policy denies it.
    */
   shouldCapture(
     appName: string,
     windowTitle: string,
     url?: string
   ): boolean {
-    const lowerApp = appName.toLowerCase();
-    const lowerTitle = windowTitle.toLowerCase();
-
-    // Check built-in sensitive app patterns
-    if (this.isSensitiveApp(lowerApp)) {
-      return false;
-    }
-
-    // Check user-configured excluded apps
-    if (this.isUserExcludedApp(lowerApp)) {
-      return false;
-    }
-
-    // Check for private/incognito browser windows
-    if (this.isPrivateWindow(lowerApp, lowerTitle)) {
-      return false;
-    }
-
-    // Check excluded domains (for browser URLs)
-    if (url && this.isExcludedDomain(url)) {
-      return false;
-    }
-
-    // Check time windows
-    if (this.isExcludedTimeWindow()) {
-      return false;
-    }
-
-    return true;
+    return this.evaluate({ appName, windowTitle, url }).action !== 'deny';
   }
 
-  // ============================================================================
-  // App Exclusion Checks
-  // ============================================================================
-
-  private isSensitiveApp(lowerAppName: string): boolean {
-    return SENSITIVE_APP_PATTERNS_EXTENDED.some((pattern) =>
-      lowerAppName.includes(pattern.toLowerCase())
-    );
-  }
-
-  private isUserExcludedApp(lowerAppName: string): boolean {
-    for (const excluded of this.excludedApps) {
-      if (lowerAppName.includes(excluded)) {
-        return true;
+  /**
+   * Strip a capture down to the app and URL host
+   */
+  redact(capture: AccessibilityCaptureResult): AccessibilityCaptureResult {
+    let url: string | undefined;
+    if (capture.url) {
+      try {
+        url = new URL(capture.url).origin;
+      } catch {
+        url = undefined;
       }
     }
-    return false;
-  }
-
-  private isPrivateWindow(lowerAppName: string, lowerTitle: string): boolean {
-    // Check if this is a browser app
-    const isBrowser = BROWSER_APPS.some(
-      (browser) => lowerAppName.includes(browser.toLowerCase())
-    );
-
-    if (!isBrowser) return false;
-
-    // Check window title for private browsing indicators
-    return PRIVATE_WINDOW_PATTERNS.some((pattern) =>
-      lowerTitle.includes(pattern)
-    );
+    return {
+      ...capture,
+      windowTitle: '[redacted]',
+      focusedElementText: '',
+      focusedElementRole: '',
+      visibleText: '',
+      url,
+      filePath: undefined,
+      page: undefined,
+    };
   }
 
   // ============================================================================
-  // Domain Exclusion
+  // Policy Loading
   // ============================================================================
 
-  private isExcludedDomain(url: string): boolean {
-    if (this.excludedDomains.size === 0) return false;
-
+  /**
+   * Re-read the policy file and rebuild the rule set.
+   * An unreadable or invalid policy file blocks all captures until it is fixed;
+   * malformed settings time windows are skipped (see rulesFromConfig).
+   */
+  reloadPolicy(): void {
+    this.policyError = null;
     try {
-      const hostname = new URL(url).hostname.toLowerCase();
-      for (const domain of this.excludedDomains) {
-        if (hostname === domain || hostname.endsWith('.' + domain)) {
-          return true;
-        }
-      }
-    } catch {
-      // Invalid URL, don't exclude
+      this.policy = this.config.privacyPolicyPath
+        ? loadPrivacyPolicy(this.config.privacyPolicyPath)
+        : DEFAULT_PRIVACY_POLICY;
+      this.evaluator = new PrivacyPolicyEvaluator(
+        [
+          ...this.policy.rules,
+          ...rulesFromConfig(this.config),
+          ...(this.policy.builtinRules ? BUILTIN_PRIVACY_RULES : []),
+        ],
+        this.policy.defaultAction,
+      );
+    } catch (error) {
+      this.policyError = error instanceof Error ? error.message : String(error);
+      console.error('[privacy] Invalid privacy policy, blocking all captures:', this.policyError);
+      this.policy = DEFAULT_PRIVACY_POLICY;
+      this.evaluator = new PrivacyPolicyEvaluator(
+        [{ id: 'invalid-policy', action: 'deny', description: this.policyError }],
+      );
     }
-
-    return false;
   }
 
-  // ============================================================================
-  // Time Window Exclusion
-  // ============================================================================
-
-  private isExcludedTimeWindow(): boolean {
-    if (this.excludedTimeWindows.length === 0) return false;
-
-    const now = new Date();
-    const currentMinutes = now.getHours() * 60 + now.getMinutes();
-
-    for (const window of this.excludedTimeWindows) {
-      if (window.start <= window.end) {
-        // Normal range (e.g., 18:00 - 23:00)
-        if (currentMinutes >= window.start && currentMinutes <= window.end) {
-          return true;
-        }
-      } else {
-        // Overnight range (e.g., 22:00 - 06:00)
-        if (currentMinutes >= window.start || currentMinutes <= window.end) {
-          return true;
-        }
-      }
-    }
-
-    return false;
+  getPolicy(): PrivacyPolicy {
+    return this.policy;
   }
 
-  private parseTimeToMinutes(timeStr: string): number {
-    const [hours, minutes] = timeStr.split(':').map(Number);
-    return (hours || 0) * 60 + (minutes || 0);
+  /**
+   * Why the policy file was rejected, or null if it loaded
+   */
+  getPolicyError(): string | null {
+    return this.policyError;
   }
 
   // ============================================================================
@@ -225,54 +141,21 @@ export class PrivacyFilter {
 
   /**
    * Strip personally identifiable information from text.
-   * Replaces sensitive patterns with placeholder tokens.
+   * Replaces matches of the enabled PII recognizers with their tokens.
    */
   stripPII(text: string): string {
-    let sanitized = text;
-
-    // Email addresses
-    sanitized = sanitized.replace(
-      /[\w.-]+@[\w.-]+\.\w+/g,
-      '[email]'
-    );
-
-    // Credit card numbers (4 groups of 4 digits) — BEFORE phone pattern
-    sanitized = sanitized.replace(
-      /\b\d{4}[\s-]?\d{4}[\s-]?\d{4}[\s-]?\d{4}\b/g,
-      '[card]'
-    );
-
-    // SSN-like patterns (XXX-XX-XXXX) — BEFORE phone pattern
-    sanitized = sanitized.replace(
-      /\b\d{3}-\d{2}-\d{4}\b/g,
-      '[ssn]'
-    );
-
-    // IP addresses — BEFORE phone pattern
-    sanitized = sanitized.replace(
-      /\b\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\b/g,
-      '[ip]'
-    );
-
-    // Phone numbers (various formats) — more specific pattern
-    sanitized = sanitized.replace(
-      /(?:\+\d{1,3}[\s-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g,
-      '[phone]'
-    );
-
-    // API keys / tokens (long hex or base64 strings)
-    sanitized = sanitized.replace(
-      /\b[a-fA-F0-9]{32,}\b/g,
-      '[token]'
-    );
+    return this.piiRegistry.redact(text);
+  }
 
-    // Bearer tokens
-    sanitized = sanitized.replace(
-      /Bearer\s+[A-Za-z0-9._-]+/gi,
-      'Bearer [token]'
-    );
+  /**
+   * Find PII without changing the text
+   */
+  detectPII(text: string): PiiMatch[] {
+    return this.piiRegistry.detect(text);
+  }
 
-    return sanitized;
+  getPiiRegistry(): PiiRecognizerRegistry {
+    return this.piiRegistry;
   }
 
   // ============================================================================
@@ -280,21 +163,10 @@ export class PrivacyFilter {
   // ============================================================================
 
   updateConfig(config: Partial<DeepContextEngineConfig>): void {
-    if (config.excludedApps) {
-      this.excludedApps = new Set(
-        config.excludedApps.map((a) => a.toLowerCase())
-      );
-    }
-    if (config.excludedDomains) {
-      this.excludedDomains = new Set(
-        config.excludedDomains.map((d) => d.toLowerCase())
-      );
-    }
-    if (config.excludedTimeWindows) {
-      this.excludedTimeWindows = config.excludedTimeWindows.map((tw) => ({
-        start: this.parseTimeToMinutes(tw.start),
-        end: this.parseTimeToMinutes(tw.end),
-      }));
+    this.config = { ...this.config, ...config };
+    this.reloadPolicy();
+    if (config.pii) {
+      this.piiRegistry.configure(config.pii);
     }
   }
 }
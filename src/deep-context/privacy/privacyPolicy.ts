@@ -0,0 +1,379 @@
+/**
+ * Privacy Policy
+ *
+ * Declarative, ordered capture rules. Each rule has an action and a set of
+ * conditions; every condition that is set must match, and the first matching
+ * rule decides what happens to a capture:
+ * - allow: capture normally
+ * - deny: drop the capture
+ * - redact: keep only the app and URL host (no title, text or path)
+ * - local_only: capture, but never sync the event
+ *
+ * Rules come from three places, checked in this order:
+ * 1. The JSON policy file (see loadPrivacyPolicy)
+ * 2. The user's excluded apps, domains and time windows from settings
+ * 3. Built-in rules for password managers, banking, health and private windows
+ *
+ * Every decision carries a trace of the rules that were checked, so it is
+ * always possible to tell which rule fired for a capture.
+ */
+
+import fs from 'fs';
+import type { DeepContextEngineConfig } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PolicyAction = 'allow' | 'deny' | 'redact' | 'local_only';
+
+export interface PrivacyRule {
+  id: string;
+  action: PolicyAction;
+  description?: string;
+  apps?: string[]; // app names, case-insensitive; `*` matches any characters
+  bundleIds?: string[]; // case-insensitive
+  titlePattern?: string; // regular expression, case-insensitive
+  urlHosts?: string[]; // host or any of its subdomains
+  urlPathPattern?: string; // regular expression on the URL path, case-insensitive
+  days?: number[]; // 0 = Sunday
+  startTime?: string; // 'HH:MM' local time
+  endTime?: string; // 'HH:MM', inclusive; may be earlier than startTime to wrap past midnight
+}
+
+export interface PrivacyPolicy {
+  version: 1;
+  defaultAction: PolicyAction;
+  builtinRules: boolean; // append the built-in rules after the policy and settings rules
+  rules: PrivacyRule[];
+}
+
+export interface CaptureContext {
+  appName: string;
+  windowTitle: string;
+  bundleId?: string;
+  url?: string;
+  timestamp?: number;
+}
+
+export type RuleCondition = 'apps' | 'bundleIds' | 'titlePattern' | 'urlHosts' | 'urlPathPattern' | 'days' | 'time';
+
+export interface RuleTrace {
+  ruleId: string;
+  matched: boolean;
+  failed?: RuleCondition; // first condition that did not match
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  ruleId: string | null; // null when no rule matched and the default action applied
+  trace: RuleTrace[];
+}
+
+const POLICY_ACTIONS: PolicyAction[] = ['allow', 'deny', 'redact', 'local_only'];
+
+export const DEFAULT_PRIVACY_POLICY: PrivacyPolicy = {
+  version: 1,
+  defaultAction: 'allow',
+  builtinRules: true,
+  rules: [],
+};
+
+// ============================================================================
+// Built-in Rules
+// ============================================================================
+
+export const BUILTIN_PRIVACY_RULES: PrivacyRule[] = [
+  {
+    id: 'builtin:password-managers',
+    action: 'deny',
+    apps: ['1Password*', 'LastPass', 'Bitwarden', 'Dashlane', 'KeePass*', 'Keychain Access', '*password*'],
+  },
+  {
+    id: 'builtin:banking',
+    action: 'deny',
+    apps: [
+      '*banking*', 'Chase*', 'Wells Fargo*', 'Bank of America*', '*credit card*',
+      'Venmo', 'PayPal', 'Zelle', 'Wise', 'Revolut',
+    ],
+  },
+  {
+    id: 'builtin:health',
+    action: 'deny',
+    apps: ['Health', 'MyChart', '*medical*', '*pharmacy*', '*hipaa*'],
+  },
+  {
+    id: 'builtin:system-security',
+    action: 'deny',
+    apps: ['System Preferences', 'System Settings', 'FileVault*', '*VPN*'],
+  },
+  {
+    id: 'builtin:private-window',
+    action: 'deny',
+    // Globs so Canary, Beta and Developer Edition builds are covered too
+    apps: ['Google Chrome*', 'Chromium*', 'Firefox*', 'Safari*', 'Microsoft Edge*', 'Arc', 'Brave*', 'Opera*', 'Vivaldi*'],
+    titlePattern: 'private browsing|incognito|inprivate|private window|private tab',
+  },
+];
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a rule is well-formed
+ *
+ * @returns Error message, or null if the rule is valid
+ */
+export function validatePrivacyRule(rule: PrivacyRule): string | null {
+  if (!rule || typeof rule !== 'object') return 'rule must be an object';
+  if (typeof rule.id !== 'string' || rule.id.length === 0) return 'id must be a non-empty string';
+  if (!POLICY_ACTIONS.includes(rule.action)) {
+    return `${rule.id}: action must be one of ${POLICY_ACTIONS.join(', ')}`;
+  }
+  for (const key of ['apps', 'bundleIds', 'urlHosts'] as const) {
+    if (rule[key] !== undefined && !isStringList(rule[key])) {
+      return `${rule.id}: ${key} must be a list of strings`;
+    }
+  }
+  for (const key of ['titlePattern', 'urlPathPattern'] as const) {
+    const pattern = rule[key];
+    if (pattern !== undefined && (typeof pattern !== 'string' || !isValidPattern(pattern))) {
+      return `${rule.id}: ${key} must be a valid regular expression`;
+    }
+  }
+  if (rule.days !== undefined && (!Array.isArray(rule.days) || rule.days.some((d) => !Number.isInteger(d) || d < 0 || d > 6))) {
+    return `${rule.id}: days must be numbers from 0 (Sunday) to 6`;
+  }
+  if ((rule.startTime === undefined) !== (rule.endTime === undefined)) {
+    return `${rule.id}: startTime and endTime must be set together`;
+  }
+  if (rule.startTime !== undefined && (parseTime(rule.startTime) === null || parseTime(rule.endTime!) === null)) {
+    return `${rule.id}: startTime and endTime must be HH:MM`;
+  }
+  return null;
+}
+
+/**
+ * Parse and validate a policy document
+ *
+ * @throws Error describing the first problem found
+ */
+export function parsePrivacyPolicy(json: string): PrivacyPolicy {
+  const raw = JSON.parse(json) as Partial<PrivacyPolicy>;
+  if (!raw || typeof raw !== 'object') throw new Error('Policy must be a JSON object');
+  if (raw.version !== 1) throw new Error(`Unsupported policy version: ${raw.version}`);
+
+  const defaultAction = raw.defaultAction ?? DEFAULT_PRIVACY_POLICY.defaultAction;
+  if (!POLICY_ACTIONS.includes(defaultAction)) {
+    throw new Error(`defaultAction must be one of ${POLICY_ACTIONS.join(', ')}`);
+  }
+  if (raw.builtinRules !== undefined && typeof raw.builtinRules !== 'boolean') {
+    throw new Error('builtinRules must be a boolean');
+  }
+  const rules = raw.rules ?? [];
+  if (!Array.isArray(rules)) throw new Error('rules must be an array');
+
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    const error = validatePrivacyRule(rule);
+    if (error) throw new Error(error);
+    if (ids.has(rule.id)) throw new Error(`Duplicate rule id: ${rule.id}`);
+    ids.add(rule.id);
+  }
+
+  return {
+    version: 1,
+    defaultAction,
+    builtinRules: raw.builtinRules ?? DEFAULT_PRIVACY_POLICY.builtinRules,
+    rules,
+  };
+}
+
+/**
+ * Read the policy file. A missing file means the default policy.
+ *
+ * @throws Error if the file exists but cannot be read or is invalid
+ */
+export function loadPrivacyPolicy(filePath: string): PrivacyPolicy {
+  if (!fs.existsSync(filePath)) return DEFAULT_PRIVACY_POLICY;
+  return parsePrivacyPolicy(fs.readFileSync(filePath, 'utf8'));
+}
+
+// ============================================================================
+// Settings Rules
+// ============================================================================
+
+/**
+ * Turn the excluded apps, domains and time windows from settings into deny rules
+ *
+ * A malformed time window is skipped with a warning rather than failing the
+ * whole rule set; only the policy file blocks all captures when invalid.
+ */
+export function rulesFromConfig(
+  config: Pick<DeepContextEngineConfig, 'excludedApps' | 'excludedDomains' | 'excludedTimeWindows'>,
+): PrivacyRule[] {
+  const rules: PrivacyRule[] = [];
+  if (config.excludedApps.length > 0) {
+    // Excluded apps have always matched anywhere in the app name ("Teams"
+    // blocks "Microsoft Teams"); entries with a `*` are already globs
+    const apps = config.excludedApps.map((app) => (app.includes('*') ? app : `*${app}*`));
+    rules.push({ id: 'settings:excluded-apps', action: 'deny', apps });
+  }
+  if (config.excludedDomains.length > 0) {
+    rules.push({ id: 'settings:excluded-domains', action: 'deny', urlHosts: [...config.excludedDomains] });
+  }
+  config.excludedTimeWindows.forEach((tw, i) => {
+    const rule: PrivacyRule = { id: `settings:excluded-time-${i + 1}`, action: 'deny', startTime: tw.start, endTime: tw.end };
+    const error = validatePrivacyRule(rule);
+    if (error) {
+      console.warn(`[privacy] Ignoring excluded time window: ${error}`);
+      return;
+    }
+    rules.push(rule);
+  });
+  return rules;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+interface CompiledRule {
+  rule: PrivacyRule;
+  apps: RegExp[] | null;
+  bundleIds: string[] | null;
+  title: RegExp | null;
+  urlHosts: string[] | null;
+  urlPath: RegExp | null;
+  days: number[] | null;
+  window: { start: number; end: number } | null;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function compileRule(rule: PrivacyRule): CompiledRule {
+  const nonEmpty = <T>(list?: T[]): T[] | null => (list && list.length > 0 ? list : null);
+  return {
+    rule,
+    apps: nonEmpty(rule.apps)?.map(globToRegExp) ?? null,
+    bundleIds: nonEmpty(rule.bundleIds)?.map((b) => b.toLowerCase()) ?? null,
+    title: rule.titlePattern ? new RegExp(rule.titlePattern, 'i') : null,
+    urlHosts: nonEmpty(rule.urlHosts)?.map((h) => h.toLowerCase().replace(/^\*\./, '')) ?? null,
+    urlPath: rule.urlPathPattern ? new RegExp(rule.urlPathPattern, 'i') : null,
+    days: nonEmpty(rule.days),
+    window: rule.startTime !== undefined && rule.endTime !== undefined
+      ? { start: parseTime(rule.startTime)!, end: parseTime(rule.endTime)! }
+      : null,
+  };
+}
+
+function parseUrl(url?: string): URL | null {
+  if (!url) return null;
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+function firstFailedCondition(compiled: CompiledRule, ctx: CaptureContext, url: URL | null, now: Date): RuleCondition | null {
+  if (compiled.apps && !compiled.apps.some((re) => re.test(ctx.appName))) {
+    return 'apps';
+  }
+  if (compiled.bundleIds && !(ctx.bundleId && compiled.bundleIds.includes(ctx.bundleId.toLowerCase()))) {
+    return 'bundleIds';
+  }
+  if (compiled.title && !compiled.title.test(ctx.windowTitle)) {
+    return 'titlePattern';
+  }
+  if (compiled.urlHosts) {
+    const host = url?.hostname.toLowerCase();
+    if (!host || !compiled.urlHosts.some((h) => host === h || host.endsWith('.' + h))) return 'urlHosts';
+  }
+  if (compiled.urlPath && !(url && compiled.urlPath.test(url.pathname))) {
+    return 'urlPathPattern';
+  }
+  if (compiled.days && !compiled.days.includes(now.getDay())) {
+    return 'days';
+  }
+  if (compiled.window) {
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const { start, end } = compiled.window;
+    const inWindow = start <= end
+      ? minutes >= start && minutes <= end
+      : minutes >= start || minutes <= end; // wraps past midnight
+    if (!inWindow) return 'time';
+  }
+  return null;
+}
+
+/**
+ * Compiled, ordered rule set. Build once and evaluate per capture.
+ */
+export class PrivacyPolicyEvaluator {
+  private compiled: CompiledRule[];
+  private defaultAction: PolicyAction;
+
+  /**
+   * @throws Error if a rule is invalid
+   */
+  constructor(rules: PrivacyRule[], defaultAction: PolicyAction = 'allow') {
+    for (const rule of rules) {
+      const error = validatePrivacyRule(rule);
+      if (error) throw new Error(error);
+    }
+    this.compiled = rules.map(compileRule);
+    this.defaultAction = defaultAction;
+  }
+
+  getRules(): PrivacyRule[] {
+    return this.compiled.map((c) => c.rule);
+  }
+
+  evaluate(ctx: CaptureContext): PolicyDecision {
+    const now = new Date(ctx.timestamp ?? Date.now());
+    const url = parseUrl(ctx.url);
+    const trace: RuleTrace[] = [];
+
+    for (const compiled of this.compiled) {
+      const failed = firstFailedCondition(compiled, ctx, url, now);
+      if (failed) {
+        trace.push({ ruleId: compiled.rule.id, matched: false, failed });
+        continue;
+      }
+      trace.push({ ruleId: compiled.rule.id, matched: true });
+      return { action: compiled.rule.action, ruleId: compiled.rule.id, trace };
+    }
+
+    return { action: this.defaultAction, ruleId: null, trace };
+  }
+}
@@ -2,65 +2,26 @@
  * Context Event Store
  *
  * CRUD operations for ContextEvent objects in the local SQLite database.
- * Sensitive text fields (summary, entities, commitments) are encrypted
- * with AES-256-GCM before storage and decrypted on read.
+ * Sensitive text fields (window title, URL, file path, summary, entities,
+ * commitments) are encrypted with the database field key before storage
+ * and decrypted on read (see main/db/fieldEncryption.ts).
  *
  * Uses the same database instance as the rest of the app (via getDatabase()).
  */
 
-import { createCipheriv, createDecipheriv, randomBytes, createHash } from 'crypto';
 import { getDatabase } from '../../main/db/database';
-import type { ContextEvent, ContextEventType, Commitment, SkillSignal } from '../types';
-
-// ============================================================================
-// Encryption Helpers
-// ============================================================================
-
-const ALGORITHM = 'aes-256-gcm';
-const IV_LENGTH = 16;
-const AUTH_TAG_LENGTH = 16;
-
-// Derive a 32-byte key from the app's encryption passphrase
-function deriveKey(passphrase: string): Buffer {
-  return createHash('sha256').update(passphrase).digest();
-}
-
-function encrypt(text: string, key: Buffer): string {
-  const iv = randomBytes(IV_LENGTH);
-  const cipher = createCipheriv(ALGORITHM, key, iv);
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  const authTag = cipher.getAuthTag();
-  // Format: iv:authTag:encrypted
-  return iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
-}
-
-function decrypt(data: string, key: Buffer): string {
-  const parts = data.split(':');
-  if (parts.length !== 3) return data; // Not encrypted, return as-is
-  const iv = Buffer.from(parts[0], 'hex');
-  const authTag = Buffer.from(parts[1], 'hex');
-  const encrypted = parts[2];
-  const decipher = createDecipheriv(ALGORITHM, key, iv);
-  decipher.setAuthTag(authTag);
-  let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-  return decrypted;
-}
+import { encryptField, decryptField } from '../../main/db/fieldEncryption';
+import type { ContextEvent, ContextEventType, DetectedCommitment, SkillSignal } from '../types';
 
 // ============================================================================
 // Context Event Store
 // ============================================================================
 
 export class ContextEventStore {
-  private encryptionKey: Buffer | null = null;
   private encryptionEnabled: boolean;
 
-  constructor(encryptionEnabled: boolean = true, passphrase?: string) {
+  constructor(encryptionEnabled: boolean = true) {
     this.encryptionEnabled = encryptionEnabled;
-    if (encryptionEnabled) {
-      this.encryptionKey = deriveKey(passphrase || 'sync-desktop-deep-context-v1');
-    }
   }
 
   // ============================================================================
@@ -82,9 +43,9 @@ export class ContextEventStore {
       event.timestamp,
       event.eventType,
       event.source.application,
-      event.source.windowTitle,
-      event.source.url || null,
-      event.source.filePath || null,
+      this.encryptField(event.source.windowTitle),
+      event.source.url ? this.encryptField(event.source.url) : null,
+      event.source.filePath ? this.encryptField(event.source.filePath) : null,
       this.encryptField(event.semanticPayload.summary),
       this.encryptField(JSON.stringify(event.semanticPayload.entities)),
       event.semanticPayload.intent || null,
@@ -145,32 +106,11 @@ export class ContextEventStore {
   getUnsynced(limit: number = 100): ContextEvent[] {
     const db = getDatabase();
     const rows = db.prepare(
-      'SELECT * FROM context_events WHERE synced = 0 AND privacy_level = ? ORDER BY timestamp ASC LIMIT ?'
+      'SELECT * FROM context_events WHERE synced = 0 AND privacy_level = ? ORDER BY sync_error IS NOT NULL, timestamp ASC LIMIT ?'
     ).all('sync_allowed', limit) as any[];
     return rows.map((row) => this.rowToEvent(row));
   }
 
-  getCommitments(since?: number): Commitment[] {
-    const db = getDatabase();
-    const cutoff = since || Date.now() - 24 * 60 * 60 * 1000; // Default: last 24h
-
-    const rows = db.prepare(
-      'SELECT commitments FROM context_events WHERE event_type = ? AND timestamp >= ? AND commitments IS NOT NULL ORDER BY timestamp DESC'
-    ).all('commitment_detected', cutoff) as any[];
-
-    const allCommitments: Commitment[] = [];
-    for (const row of rows) {
-      try {
-        const decrypted = this.decryptField(row.commitments);
-        const parsed = JSON.parse(decrypted) as Commitment[];
-        allCommitments.push(...parsed);
-      } catch {
-        // Skip malformed commitment data
-      }
-    }
-    return allCommitments;
-  }
-
   getContextSwitchCount(since: number): number {
     const db = getDatabase();
     const row = db.prepare(
@@ -200,7 +140,7 @@ export class ContextEventStore {
     if (ids.length === 0) return;
     const db = getDatabase();
     const placeholders = ids.map(() => '?').join(',');
-    db.prepare(`UPDATE context_events SET synced = 1 WHERE id IN (${placeholders})`).run(...ids);
+    db.prepare(`UPDATE context_events SET synced = 1, sync_error = NULL WHERE id IN (${placeholders})`).run(...ids);
   }
 
   // ============================================================================
@@ -232,7 +172,7 @@ export class ContextEventStore {
       entities = [];
     }
 
-    let commitments: Commitment[] | undefined;
+    let commitments: DetectedCommitment[] | undefined;
     if (row.commitments) {
       try {
         commitments = JSON.parse(this.decryptField(row.commitments));
@@ -256,9 +196,9 @@ export class ContextEventStore {
       eventType: row.event_type as ContextEventType,
       source: {
         application: row.source_application,
-        windowTitle: row.source_window_title || '',
-        url: row.source_url || undefined,
-        filePath: row.source_file_path || undefined,
+        windowTitle: this.decryptField(row.source_window_title || ''),
+        url: row.source_url ? this.decryptField(row.source_url) : undefined,
+        filePath: row.source_file_path ? this.decryptField(row.source_file_path) : undefined,
       },
       semanticPayload: {
         summary: this.decryptField(row.summary || ''),
@@ -278,20 +218,12 @@ export class ContextEventStore {
   // ============================================================================
 
   private encryptField(value: string): string {
-    if (!this.encryptionEnabled || !this.encryptionKey) return value;
-    try {
-      return encrypt(value, this.encryptionKey);
-    } catch {
-      return value;
-    }
+    if (!this.encryptionEnabled) return value;
+    return encryptField(value);
   }
 
+  // Always decrypt: rows may have been written while encryption was enabled
   private decryptField(value: string): string {
-    if (!this.encryptionEnabled || !this.encryptionKey) return value;
-    try {
-      return decrypt(value, this.encryptionKey);
-    } catch {
-      return value; // Return as-is if decryption fails (unencrypted data)
-    }
+    return decryptField(value) ?? '';
   }
 }
@@ -6,6 +6,9 @@
  * that runs alongside the existing screen capture pipeline.
  */
 
+import type { PiiSettings } from './privacy/piiRecognizers';
+import type { Commitment } from '../shared/types';
+
 // ============================================================================
 // Core Context Event
 // ============================================================================
@@ -36,7 +39,7 @@ export interface ContextEvent {
     summary: string;
     entities: string[];
     intent?: string;
-    commitments?: Commitment[];
+    commitments?: DetectedCommitment[];
     skillSignals?: SkillSignal[];
   };
   confidence: number;
@@ -48,13 +51,15 @@ export interface ContextEvent {
 // Commitment
 // ============================================================================
 
-export type CommitmentStatus = 'detected' | 'pending_action' | 'fulfilled' | 'overdue';
-
-export interface Commitment {
+/**
+ * A commitment as found in one event. Its lifecycle (status, snoozes,
+ * escalation) is tracked in the `commitments` table by the main process's
+ * commitmentService.ts, shared with the screen capture detector.
+ */
+export interface DetectedCommitment {
   description: string;
   dueDate?: number;
   involvedParties: string[];
-  status: CommitmentStatus;
   requiredAction?: string;
 }
 
@@ -100,12 +105,24 @@ export interface DailySummary {
 export interface AccessibilityCaptureResult {
   timestamp: number;
   appName: string;
+  bundleId?: string;
   windowTitle: string;
   focusedElementText: string;
   focusedElementRole: string;
   visibleText: string;
   url?: string;
   filePath?: string;
+  page?: BrowserPageMetadata; // from the browser bridge, when connected
+}
+
+/**
+ * Page metadata reported by the browser extension (meta and og: tags)
+ */
+export interface BrowserPageMetadata {
+  siteName?: string;
+  description?: string;
+  canonicalUrl?: string;
+  language?: string;
 }
 
 export interface FileChangeEvent {
@@ -117,10 +134,73 @@ export interface FileChangeEvent {
   extension: string;
 }
 
+/**
+ * A capture that already knows what it means (a commit, a shell command,
+ * a page visit). appName/windowTitle/url feed the privacy policy.
+ */
+export interface ActivityCapture {
+  timestamp: number;
+  eventType: ContextEventType;
+  appName: string;
+  windowTitle: string;
+  url?: string;
+  filePath?: string;
+  summary: string;
+  entities: string[];
+  intent?: string;
+  confidence: number;
+}
+
+export type SourceCapture =
+  | { kind: 'accessibility'; data: AccessibilityCaptureResult }
+  | { kind: 'file_change'; data: FileChangeEvent }
+  | { kind: 'activity'; data: ActivityCapture };
+
+// ============================================================================
+// Capture Sources
+// ============================================================================
+
+/**
+ * What a source may hand the pipeline:
+ * - content: text read from the screen or other apps
+ * - metadata: names, titles, paths and commands, never screen text
+ * - local_only: anything, but its events never leave the device
+ */
+export type CapturePrivacyClass = 'content' | 'metadata' | 'local_only';
+
+export interface CaptureSourceHealth {
+  status: 'running' | 'stopped' | 'degraded';
+  captureCount: number;
+  lastCaptureAt: number | null;
+  lastError: string | null;
+}
+
+export interface CaptureSourceStatus extends CaptureSourceHealth {
+  id: string;
+  privacyClass: CapturePrivacyClass;
+}
+
 // ============================================================================
 // Configuration
 // ============================================================================
 
+/**
+ * How deadlines in text resolve to timestamps (pipeline/deadlineParser.ts)
+ */
+export interface DeadlineSettings {
+  timeZone?: string; // IANA zone; defaults to the system zone
+  workdayStartHour?: number; // when ranges open; default 9
+  workdayEndHour?: number; // when a date without a time is due; default 17
+  workdays?: number[]; // 0 = Sunday; default Monday to Friday
+  sprint?: SprintCalendar;
+  dateOrder?: 'dmy' | 'mdy'; // numeric dates like 3/11; defaults to mdy for English text, dmy otherwise
+}
+
+export interface SprintCalendar {
+  start: string; // first day of any sprint, YYYY-MM-DD
+  lengthDays: number;
+}
+
 export interface DeepContextEngineConfig {
   enabled: boolean;
   captureIntervalMs: number;
@@ -129,9 +209,18 @@ export interface DeepContextEngineConfig {
   excludedTimeWindows: { start: string; end: string }[];
   fileWatcherEnabled: boolean;
   watchedDirectories: string[];
+  gitActivityEnabled: boolean; // git repos found under watchedDirectories
+  shellHistoryEnabled: boolean;
+  shellHistoryFiles?: string[]; // defaults to $HISTFILE and the zsh, bash and fish history files
+  shellHookFile?: string; // tab-separated hook output, see capture/shellHistory.ts
+  browserBridgeEnabled: boolean;
+  browserBridgeSocket?: string; // defaults to ~/.sync-desktop/browser-bridge.sock
   encryptionEnabled: boolean;
   retentionDays: number;
   privacyLevel: PrivacyLevel;
+  privacyPolicyPath?: string; // JSON privacy policy, see privacy/privacyPolicy.ts
+  pii?: PiiSettings; // PII recognizer locales and per-recognizer overrides
+  deadlines?: DeadlineSettings; // workday hours, time zone and sprint calendar for deadlines
 }
 
 export const DEFAULT_ENGINE_CONFIG: DeepContextEngineConfig = {
@@ -142,6 +231,9 @@ export const DEFAULT_ENGINE_CONFIG: DeepContextEngineConfig = {
   excludedTimeWindows: [],
   fileWatcherEnabled: true,
   watchedDirectories: [],  // Will be populated with ~/Desktop, ~/Documents, ~/Downloads at runtime
+  gitActivityEnabled: true,
+  shellHistoryEnabled: true,
+  browserBridgeEnabled: true,
   encryptionEnabled: true,
   retentionDays: 30,
   privacyLevel: 'sync_allowed',
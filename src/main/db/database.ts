@@ -9,12 +9,22 @@ import Database from 'better-sqlite3';
 import { app } from 'electron';
 import path from 'path';
 import fs from 'fs';
+import { DEFAULT_PROFILE_ID, DatabaseEncryptionStatus } from '../../shared/types';
+import { setFieldKey } from './fieldEncryption';
+import {
+  deleteStoredDatabaseKey,
+  getDatabaseEncryptionStatus,
+  setDatabasePassphrase,
+  unlockDatabase,
+  unlockDatabaseWithPassphrase,
+} from './databaseKey';
 
 // ============================================================================
 // Database Instance
 // ============================================================================
 
 let db: Database.Database | null = null;
+let dbProfileId: string = DEFAULT_PROFILE_ID;
 
 export function getDatabase(): Database.Database {
   if (!db) {
@@ -27,10 +37,16 @@ export function getDatabase(): Database.Database {
 // Initialization
 // ============================================================================
 
-export async function initDatabase(): Promise<void> {
-  // Get user data directory
-  const userDataPath = app.getPath('userData');
-  const dbPath = path.join(userDataPath, 'sync-desktop.db');
+/**
+ * Database file for a profile. The default profile keeps the original file name.
+ */
+export function getDatabasePath(profileId: string = DEFAULT_PROFILE_ID): string {
+  const fileName = profileId === DEFAULT_PROFILE_ID ? 'sync-desktop.db' : `sync-desktop-${profileId}.db`;
+  return path.join(app.getPath('userData'), fileName);
+}
+
+export async function initDatabase(profileId: string = DEFAULT_PROFILE_ID): Promise<void> {
+  const dbPath = getDatabasePath(profileId);
 
   console.log('[db] Initializing database at:', dbPath);
 
@@ -42,6 +58,7 @@ export async function initDatabase(): Promise<void> {
 
   // Open database
   db = new Database(dbPath);
+  dbProfileId = profileId;
 
   // Enable WAL mode for better performance
   db.pragma('journal_mode = WAL');
@@ -52,6 +69,9 @@ export async function initDatabase(): Promise<void> {
   // Run migrations
   runMigrations();
 
+  // Load the field encryption key (encrypts existing plaintext on first run)
+  await unlockDatabase(db, profileId);
+
   console.log('[db] Database initialized successfully');
 }
 
@@ -721,6 +741,115 @@ function runMigrations(): void {
           ON intent_sequences(intent_id, activity_id);
       `,
     },
+    {
+      name: '019_pseudonym_vault',
+      sql: `
+        -- Token -> real name/email mapping for pseudonymized sync (see pseudonymVault.ts)
+        CREATE TABLE IF NOT EXISTS pseudonyms (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          token TEXT NOT NULL UNIQUE,
+          kind TEXT NOT NULL,
+          value TEXT NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+      `,
+    },
+    {
+      name: '020_outbound_audit',
+      sql: `
+        -- Append-only ledger of every payload sent off the device (see outboundAudit.ts)
+        CREATE TABLE IF NOT EXISTS outbound_audit (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          timestamp INTEGER NOT NULL,
+          channel TEXT NOT NULL,
+          destination TEXT NOT NULL,
+          table_name TEXT NOT NULL,
+          row_ids TEXT NOT NULL DEFAULT '[]',
+          byte_size INTEGER NOT NULL,
+          payload_hash TEXT NOT NULL,
+          privacy_levels TEXT NOT NULL DEFAULT '[]',
+          status INTEGER,
+          entry_hash TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_outbound_audit_timestamp ON outbound_audit(timestamp);
+
+        CREATE TRIGGER IF NOT EXISTS outbound_audit_no_update
+          BEFORE UPDATE ON outbound_audit
+          BEGIN SELECT RAISE(ABORT, 'outbound_audit is append-only'); END;
+        CREATE TRIGGER IF NOT EXISTS outbound_audit_no_delete
+          BEFORE DELETE ON outbound_audit
+          BEGIN SELECT RAISE(ABORT, 'outbound_audit is append-only'); END;
+      `,
+    },
+    {
+      name: '021_tracking_pauses',
+      sql: `
+        -- Snoozed stretches (see snoozeService.ts); ended_at is NULL while snoozed
+        CREATE TABLE IF NOT EXISTS tracking_pauses (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          started_at INTEGER NOT NULL,
+          ended_at INTEGER,
+          kind TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_tracking_pauses_started ON tracking_pauses(started_at);
+
+        ALTER TABLE hourly_summaries ADD COLUMN paused_intervals TEXT; -- JSON
+      `,
+    },
+    {
+      name: '022_commitment_lifecycle',
+      sql: `
+        -- One table for commitments from both detectors (see commitmentService.ts).
+        -- The accessibility commitments in context_events.commitments are encrypted,
+        -- so CommitmentService imports them once the field key is loaded.
+        -- Status: 'detected', 'pending', 'snoozed', 'overdue', 'completed', 'dismissed', 'expired'
+        ALTER TABLE commitments ADD COLUMN source TEXT NOT NULL DEFAULT 'screen'; -- 'screen', 'accessibility'
+        ALTER TABLE commitments ADD COLUMN context_event_id INTEGER;
+        ALTER TABLE commitments ADD COLUMN involved_parties TEXT; -- JSON
+        ALTER TABLE commitments ADD COLUMN assignee TEXT; -- NULL = the user
+        ALTER TABLE commitments ADD COLUMN last_seen_at INTEGER;
+        ALTER TABLE commitments ADD COLUMN sightings INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE commitments ADD COLUMN snoozed_until INTEGER;
+        ALTER TABLE commitments ADD COLUMN escalation_level INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE commitments ADD COLUMN updated_at INTEGER;
+        UPDATE commitments SET last_seen_at = detected_at, updated_at = COALESCE(completed_at, detected_at);
+        CREATE INDEX IF NOT EXISTS idx_commitments_last_seen ON commitments(last_seen_at);
+
+        -- Every status change, plus snoozes and reassignments
+        CREATE TABLE IF NOT EXISTS commitment_transitions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          commitment_id INTEGER NOT NULL REFERENCES commitments(id) ON DELETE CASCADE,
+          from_status TEXT, -- NULL when the commitment was first recorded
+          to_status TEXT NOT NULL,
+          at INTEGER NOT NULL,
+          reason TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_commitment_transitions_commitment ON commitment_transitions(commitment_id);
+        CREATE INDEX IF NOT EXISTS idx_commitment_transitions_to ON commitment_transitions(to_status, at);
+
+        INSERT INTO commitment_transitions (commitment_id, from_status, to_status, at, reason)
+          SELECT id, NULL, 'pending', detected_at, 'migrated' FROM commitments;
+        INSERT INTO commitment_transitions (commitment_id, from_status, to_status, at, reason)
+          SELECT id, 'pending', status, COALESCE(completed_at, detected_at), 'migrated' FROM commitments
+          WHERE status IS NOT NULL AND status != 'pending';
+      `,
+    },
+    {
+      name: '023_sync_quarantine',
+      sql: `
+        -- Why cloud sync refused a row (see CloudSyncService.checkRow); NULL once it passes.
+        -- Quarantined rows stay unsynced and are re-checked after the other rows.
+        ALTER TABLE hourly_summaries ADD COLUMN sync_error TEXT;
+        ALTER TABLE daily_journals ADD COLUMN sync_error TEXT;
+        ALTER TABLE context_events ADD COLUMN sync_error TEXT;
+        ALTER TABLE screen_captures ADD COLUMN sync_error TEXT;
+        ALTER TABLE semantic_entities ADD COLUMN sync_error TEXT;
+        ALTER TABLE semantic_activities ADD COLUMN sync_error TEXT;
+        ALTER TABLE semantic_threads ADD COLUMN sync_error TEXT;
+        ALTER TABLE semantic_intents ADD COLUMN sync_error TEXT;
+        ALTER TABLE behavioral_signatures ADD COLUMN sync_error TEXT;
+      `,
+    },
   ];
 
   // Apply unapplied migrations
@@ -753,6 +882,59 @@ export function closeDatabase(): void {
   if (db) {
     db.close();
     db = null;
+    setFieldKey(null);
     console.log('[db] Database closed');
   }
 }
+
+/**
+ * Close the current database and open the one for another profile
+ */
+export async function switchDatabase(profileId: string): Promise<void> {
+  closeDatabase();
+  await initDatabase(profileId);
+}
+
+/**
+ * Delete a profile's database file (and its WAL/SHM files).
+ * The database must not be open.
+ */
+export function deleteDatabaseFiles(profileId: string): void {
+  if (profileId === DEFAULT_PROFILE_ID) {
+    throw new Error('The default profile database cannot be deleted');
+  }
+  const dbPath = getDatabasePath(profileId);
+  for (const file of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  }
+  deleteStoredDatabaseKey(profileId).catch((err) => {
+    console.warn('[db] Failed to delete database key:', err);
+  });
+  console.log('[db] Deleted database for profile:', profileId);
+}
+
+// ============================================================================
+// Encryption
+// ============================================================================
+
+export function getEncryptionStatus(): DatabaseEncryptionStatus {
+  return getDatabaseEncryptionStatus(getDatabase());
+}
+
+/**
+ * Unlock the open database with its passphrase (needed when the keychain entry is missing)
+ *
+ * @returns true if the passphrase was right
+ */
+export function unlockWithPassphrase(passphrase: string): Promise<boolean> {
+  return unlockDatabaseWithPassphrase(getDatabase(), dbProfileId, passphrase);
+}
+
+/**
+ * Protect the open database with a passphrase, or go back to a keychain-only key with null
+ */
+export function changePassphrase(passphrase: string | null): Promise<void> {
+  return setDatabasePassphrase(getDatabase(), dbProfileId, passphrase);
+}
@@ -0,0 +1,237 @@
+/**
+ * Database Key Management
+ *
+ * Each profile database has its own field encryption key (see fieldEncryption.ts).
+ * The derived key is kept in the OS keychain via keytar, falling back to an
+ * encrypted electron-store like the pairing keys. The salt, the key mode and a
+ * key check value live in the database's sync_metadata table.
+ *
+ * Modes:
+ * - keychain: the key is derived from a random secret; only the keychain can unlock it
+ * - passphrase: the key is derived from the user's passphrase; the keychain caches
+ *   it so the app starts unattended, and the passphrase unlocks the database when
+ *   the keychain entry is missing (e.g. after restoring the database elsewhere)
+ */
+
+import Store from 'electron-store';
+import crypto from 'crypto';
+import os from 'os';
+import type Database from 'better-sqlite3';
+import {
+  FIELD_ENCRYPTION_META,
+  createKeyCheck,
+  deriveFieldKey,
+  getFieldKey,
+  isFieldEncryptionLocked,
+  lockFields,
+  reencryptDatabase,
+  setFieldKey,
+  verifyKeyCheck,
+} from './fieldEncryption';
+import { DatabaseEncryptionStatus, DatabaseKeyMode } from '../../shared/types';
+
+// ============================================================================
+// Keychain Storage
+// ============================================================================
+
+const SERVICE_NAME = 'frogody-sync-desktop';
+const SALT_LENGTH = 16;
+
+function accountName(profileId: string): string {
+  return `database-key-${profileId}`;
+}
+
+let keytar: any = null;
+try {
+  keytar = require('keytar');
+} catch {
+  console.warn('[db] keytar not available, database keys will use electron-store fallback');
+}
+
+// Created on first use so importing this module has no side effects
+let fallbackStore: any = null;
+function getFallbackStore(): any {
+  if (!fallbackStore) {
+    const machineId = `${os.hostname()}:${os.userInfo().username}:sync-desktop-database`;
+    fallbackStore = new Store({
+      name: 'sync-desktop-keys',
+      encryptionKey: crypto.createHash('sha256').update(machineId).digest('hex'),
+    });
+  }
+  return fallbackStore;
+}
+
+export async function getStoredDatabaseKey(profileId: string): Promise<Buffer | undefined> {
+  let raw: string | undefined;
+  try {
+    if (keytar && typeof keytar.getPassword === 'function') {
+      raw = (await keytar.getPassword(SERVICE_NAME, accountName(profileId))) || undefined;
+    }
+  } catch (e) {
+    console.warn('[db] keytar getPassword failed, falling back to electron-store:', e);
+  }
+  raw = raw ?? (getFallbackStore().get(accountName(profileId)) as string | undefined);
+  return raw ? Buffer.from(raw, 'base64') : undefined;
+}
+
+export async function storeDatabaseKey(profileId: string, key: Buffer): Promise<void> {
+  const raw = key.toString('base64');
+  try {
+    if (keytar && typeof keytar.setPassword === 'function') {
+      await keytar.setPassword(SERVICE_NAME, accountName(profileId), raw);
+      return;
+    }
+  } catch (e) {
+    console.warn('[db] keytar setPassword failed, falling back to electron-store:', e);
+  }
+  getFallbackStore().set(accountName(profileId), raw);
+}
+
+export async function deleteStoredDatabaseKey(profileId: string): Promise<void> {
+  try {
+    if (keytar && typeof keytar.deletePassword === 'function') {
+      await keytar.deletePassword(SERVICE_NAME, accountName(profileId));
+    }
+  } catch (e) {
+    console.warn('[db] keytar deletePassword failed:', e);
+  }
+  getFallbackStore().delete(accountName(profileId));
+}
+
+// ============================================================================
+// Metadata Helpers
+// ============================================================================
+
+function getMeta(db: Database.Database, key: string): string | null {
+  const row = db.prepare('SELECT value FROM sync_metadata WHERE key = ?').get(key) as { value: string | null } | undefined;
+  return row?.value ?? null;
+}
+
+function setMeta(db: Database.Database, key: string, value: string): void {
+  db.prepare(`
+    INSERT INTO sync_metadata (key, value, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+  `).run(key, value);
+}
+
+function getSalt(db: Database.Database): Buffer | null {
+  const salt = getMeta(db, FIELD_ENCRYPTION_META.salt);
+  return salt ? Buffer.from(salt, 'base64') : null;
+}
+
+export function getDatabaseEncryptionStatus(db: Database.Database): DatabaseEncryptionStatus {
+  return {
+    mode: getMeta(db, FIELD_ENCRYPTION_META.mode) as DatabaseKeyMode | null,
+    locked: isFieldEncryptionLocked(),
+  };
+}
+
+/**
+ * Re-encrypt all data with a new key and record its salt, mode and check value.
+ * The key is written to the keychain first; if the database update fails the
+ * previous key is put back.
+ */
+async function applyKey(
+  db: Database.Database,
+  profileId: string,
+  oldKey: Buffer | null,
+  newKey: Buffer,
+  salt: Buffer,
+  mode: DatabaseKeyMode,
+): Promise<void> {
+  await storeDatabaseKey(profileId, newKey);
+  try {
+    db.transaction(() => {
+      const rewritten = reencryptDatabase(db, oldKey, newKey);
+      setMeta(db, FIELD_ENCRYPTION_META.salt, salt.toString('base64'));
+      setMeta(db, FIELD_ENCRYPTION_META.check, createKeyCheck(newKey));
+      setMeta(db, FIELD_ENCRYPTION_META.mode, mode);
+      console.log(`[db] Encrypted ${rewritten} rows with the ${mode} key`);
+    })();
+  } catch (err) {
+    if (oldKey) {
+      await storeDatabaseKey(profileId, oldKey);
+    } else {
+      await deleteStoredDatabaseKey(profileId);
+    }
+    throw err;
+  }
+  setFieldKey(newKey);
+}
+
+// ============================================================================
+// Unlock / Re-key
+// ============================================================================
+
+/**
+ * Activate field encryption for an open database. On first run this creates a
+ * keychain key and encrypts existing plaintext in place.
+ *
+ * @returns false if the keychain key is missing or wrong and the database
+ *   stays locked until unlockDatabaseWithPassphrase() succeeds
+ */
+export async function unlockDatabase(db: Database.Database, profileId: string): Promise<boolean> {
+  const check = getMeta(db, FIELD_ENCRYPTION_META.check);
+
+  if (!check) {
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    const key = deriveFieldKey(crypto.randomBytes(32).toString('base64'), salt);
+    await applyKey(db, profileId, null, key, salt, 'keychain');
+    return true;
+  }
+
+  const stored = await getStoredDatabaseKey(profileId);
+  if (stored && verifyKeyCheck(check, stored)) {
+    setFieldKey(stored);
+    return true;
+  }
+
+  console.warn('[db] Database key missing from the keychain; database is locked');
+  lockFields();
+  return false;
+}
+
+/**
+ * Unlock a passphrase-protected database whose keychain entry is missing
+ *
+ * @returns true if the passphrase was right
+ */
+export async function unlockDatabaseWithPassphrase(
+  db: Database.Database,
+  profileId: string,
+  passphrase: string,
+): Promise<boolean> {
+  const salt = getSalt(db);
+  const check = getMeta(db, FIELD_ENCRYPTION_META.check);
+  if (!salt || !check) return false;
+
+  const key = deriveFieldKey(passphrase, salt);
+  if (!verifyKeyCheck(check, key)) return false;
+
+  await storeDatabaseKey(profileId, key);
+  setFieldKey(key);
+  return true;
+}
+
+/**
+ * Re-key the database: derive the key from a passphrase, or from a new random
+ * keychain secret when passphrase is null. All encrypted columns are
+ * re-encrypted in one transaction.
+ *
+ * @throws Error if the database is locked
+ */
+export async function setDatabasePassphrase(
+  db: Database.Database,
+  profileId: string,
+  passphrase: string | null,
+): Promise<void> {
+  const currentKey = getFieldKey();
+  if (!currentKey) {
+    throw new Error('Database is locked; unlock it before changing the passphrase');
+  }
+
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const secret = passphrase ?? crypto.randomBytes(32).toString('base64');
+  const key = deriveFieldKey(secret, salt);
+  await applyKey(db, profileId, currentKey, key, salt, passphrase ? 'passphrase' : 'keychain');
+}
@@ -0,0 +1,278 @@
+/**
+ * Field Encryption
+ *
+ * Sensitive text columns are encrypted at rest with AES-256-GCM.
+ * - The key is derived with scrypt from a secret (a random keychain secret
+ *   or the user's passphrase) and a per-database salt
+ * - Encrypted values look like `enc:v1:<base64 iv|tag|ciphertext>`, so
+ *   plaintext written before encryption was enabled is still readable
+ * - Columns used in WHERE / GROUP BY / indexes (app names, entity names,
+ *   aliases, types, timestamps) stay in plaintext
+ *
+ * The key lives in memory only; see databaseKey.ts for how it is stored.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import type Database from 'better-sqlite3';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+// scrypt cost: ~32 MB and ~100 ms per derivation
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+// Value encrypted with each key so a wrong key is detected before any data is touched
+const KEY_CHECK_PLAINTEXT = 'sync-desktop-field-key';
+
+/** sync_metadata keys */
+export const FIELD_ENCRYPTION_META = {
+  salt: 'field_encryption_salt',
+  check: 'field_encryption_check',
+  mode: 'field_encryption_mode', // 'keychain' | 'passphrase'
+} as const;
+
+/**
+ * Encrypted columns per table. Every listed table has an `id` primary key.
+ */
+export const ENCRYPTED_COLUMNS: Record<string, string[]> = {
+  activity_logs: ['window_title', 'url'],
+  hourly_summaries: ['ocr_text', 'commitments'],
+  daily_journals: ['overview', 'highlights', 'focus_areas'],
+  chat_sessions: ['messages'],
+  screen_captures: ['window_title', 'text_content', 'analysis'],
+  commitments: ['text', 'recipient', 'context', 'involved_parties', 'assignee'],
+  action_items: ['text', 'context'],
+  completed_actions: ['details'],
+  email_contexts: ['recipient', 'subject', 'body_preview'],
+  calendar_contexts: ['event_title', 'participants'],
+  context_events: ['source_window_title', 'source_url', 'source_file_path', 'summary', 'entities', 'commitments'],
+  semantic_entities: ['metadata'],
+  semantic_activities: ['metadata'],
+  semantic_threads: ['title', 'metadata'],
+  semantic_intents: ['evidence'],
+  pseudonyms: ['value'],
+};
+
+// ============================================================================
+// Key State
+// ============================================================================
+
+let fieldKey: Buffer | null = null;
+let locked = false;
+let warnedUnreadable = false;
+
+/**
+ * Derive the 32-byte field key from a secret and the database salt
+ */
+export function deriveFieldKey(secret: string, salt: Buffer): Buffer {
+  return scryptSync(secret, salt, KEY_LENGTH, SCRYPT_PARAMS);
+}
+
+/**
+ * Set the key used by encryptField / decryptField. Pass null to disable encryption.
+ */
+export function setFieldKey(key: Buffer | null): void {
+  if (key && key.length !== KEY_LENGTH) {
+    throw new Error(`Field key must be ${KEY_LENGTH} bytes`);
+  }
+  fieldKey = key;
+  locked = false;
+  warnedUnreadable = false;
+}
+
+export function getFieldKey(): Buffer | null {
+  return fieldKey;
+}
+
+/**
+ * Block writes of encrypted columns until a key is set (e.g. the passphrase
+ * is needed because the keychain entry is missing). Reads of encrypted values return null.
+ */
+export function lockFields(): void {
+  fieldKey = null;
+  locked = true;
+}
+
+export function isFieldEncryptionActive(): boolean {
+  return fieldKey !== null;
+}
+
+export function isFieldEncryptionLocked(): boolean {
+  return locked;
+}
+
+// ============================================================================
+// Encrypt / Decrypt
+// ============================================================================
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+function seal(text: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return ENCRYPTED_PREFIX + Buffer.concat([iv, tag, ciphertext]).toString('base64');
+}
+
+function open(value: string, key: Buffer): string {
+  const raw = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64');
+  const iv = raw.subarray(0, IV_LENGTH);
+  const tag = raw.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Encrypt a column value. Returns the value unchanged when no key is set.
+ *
+ * @throws Error if the database is locked
+ */
+export function encryptField<T extends string | null | undefined>(value: T): T | string {
+  if (value === null || value === undefined || isEncryptedValue(value)) return value;
+  if (locked) {
+    throw new Error('Database is locked; enter the passphrase to unlock it');
+  }
+  if (!fieldKey) return value;
+  return seal(value, fieldKey);
+}
+
+/**
+ * Decrypt a column value. Plaintext values are returned as-is; values that
+ * cannot be decrypted (no key, wrong key, corrupted) read as null.
+ */
+export function decryptField(value: string | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  if (!isEncryptedValue(value)) return value;
+  if (fieldKey) {
+    try {
+      return open(value, fieldKey);
+    } catch {
+      // fall through
+    }
+  }
+  if (!warnedUnreadable) {
+    warnedUnreadable = true;
+    console.warn('[db] Encrypted field could not be decrypted with the current key');
+  }
+  return null;
+}
+
+/**
+ * Decrypt a JSON column, falling back when it is missing or unreadable
+ */
+export function decryptJson<T>(value: string | null | undefined, fallback: T): T {
+  const text = decryptField(value);
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+// ============================================================================
+// Legacy Context Event Encryption
+// ============================================================================
+
+// ContextEventStore used to encrypt summary/entities/commitments with a
+// sha256-of-passphrase key in `ivHex:tagHex:ciphertextHex` form.
+const LEGACY_CONTEXT_KEY = createHash('sha256').update('sync-desktop-deep-context-v1').digest();
+
+function openLegacy(value: string): string | null {
+  const parts = value.split(':');
+  if (parts.length !== 3 || !parts.every((p) => /^[0-9a-f]*$/i.test(p))) return null;
+  try {
+    const decipher = createDecipheriv(ALGORITHM, LEGACY_CONTEXT_KEY, Buffer.from(parts[0], 'hex'));
+    decipher.setAuthTag(Buffer.from(parts[1], 'hex'));
+    return decipher.update(parts[2], 'hex', 'utf8') + decipher.final('utf8');
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Key Check & Migration
+// ============================================================================
+
+/**
+ * Encrypted marker stored alongside the data to verify a key later
+ */
+export function createKeyCheck(key: Buffer): string {
+  return seal(KEY_CHECK_PLAINTEXT, key);
+}
+
+export function verifyKeyCheck(check: string, key: Buffer): boolean {
+  try {
+    return open(check, key) === KEY_CHECK_PLAINTEXT;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Re-encrypt every encrypted column in place, in one transaction.
+ * Plaintext and legacy context-event values are encrypted with `newKey`;
+ * values already encrypted with `oldKey` are re-encrypted. With a null
+ * `newKey` everything is decrypted back to plaintext.
+ *
+ * @returns Number of values rewritten
+ * @throws Error if a value is encrypted with a key other than `oldKey`
+ */
+export function reencryptDatabase(db: Database.Database, oldKey: Buffer | null, newKey: Buffer | null): number {
+  const tables = new Set(
+    (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[]).map((r) => r.name),
+  );
+
+  let rewritten = 0;
+  db.transaction(() => {
+    for (const [table, columns] of Object.entries(ENCRYPTED_COLUMNS)) {
+      if (!tables.has(table)) continue;
+      const rows = db.prepare(`SELECT id, ${columns.join(', ')} FROM ${table}`).all() as Record<string, unknown>[];
+      const update = db.prepare(`UPDATE ${table} SET ${columns.map((c) => `${c} = ?`).join(', ')} WHERE id = ?`);
+
+      for (const row of rows) {
+        let changed = false;
+        const values = columns.map((column) => {
+          const value = row[column];
+          if (typeof value !== 'string') return value;
+
+          let plain: string = value;
+          if (isEncryptedValue(value)) {
+            if (oldKey && newKey && oldKey.equals(newKey)) return value;
+            if (!oldKey) throw new Error(`${table}.${column} is encrypted but no current key was given`);
+            try {
+              plain = open(value, oldKey);
+            } catch {
+              throw new Error(`${table}.${column} could not be decrypted with the current key`);
+            }
+          } else if (table === 'context_events') {
+            plain = openLegacy(value) ?? value;
+          }
+
+          const next = newKey ? seal(plain, newKey) : plain;
+          if (next !== value) changed = true;
+          return next;
+        });
+
+        if (changed) {
+          update.run(...values, row.id);
+          rewritten++;
+        }
+      }
+    }
+  })();
+
+  return rewritten;
+}
@@ -5,7 +5,8 @@
  */
 
 import { getDatabase } from './database';
-import { ActivityLog, HourlySummary, DailyJournal } from '../../shared/types';
+import { encryptField, decryptField, decryptJson } from './fieldEncryption';
+import { ActivityLog, HourlySummary, DailyJournal, PausedInterval, SnoozeKind } from '../../shared/types';
 import type {
   Entity,
   EntityAlias,
@@ -40,8 +41,8 @@ export function insertActivityLog(
   const result = stmt.run(
     activity.timestamp,
     activity.appName,
-    activity.windowTitle,
-    activity.url || null,
+    encryptField(activity.windowTitle),
+    encryptField(activity.url || null),
     activity.bundleId || null,
     activity.durationSeconds || 0,
     activity.synced ? 1 : 0
@@ -50,6 +51,10 @@ export function insertActivityLog(
   return result.lastInsertRowid as number;
 }
 
+function decryptActivityRow(row: any): any {
+  return { ...row, windowTitle: decryptField(row.windowTitle) ?? '', url: decryptField(row.url) };
+}
+
 export function updateActivityDuration(id: number, durationSeconds: number): void {
   const db = getDatabase();
 
@@ -77,7 +82,7 @@ export function getRecentActivity(minutes: number = 10): ActivityLog[] {
   const rows = stmt.all(cutoff) as any[];
 
   return rows.map((row) => ({
-    ...row,
+    ...decryptActivityRow(row),
     synced: row.synced === 1,
   }));
 }
@@ -98,7 +103,7 @@ export function getUnsyncedActivity(limit: number = 100): ActivityLog[] {
   const rows = stmt.all(limit) as any[];
 
   return rows.map((row) => ({
-    ...row,
+    ...decryptActivityRow(row),
     synced: false,
   }));
 }
@@ -134,7 +139,7 @@ export function getActivityByDateRange(
   const rows = stmt.all(startDate.getTime(), endDate.getTime()) as any[];
 
   return rows.map((row) => ({
-    ...row,
+    ...decryptActivityRow(row),
     synced: row.synced === 1,
   }));
 }
@@ -149,8 +154,8 @@ export function insertHourlySummary(
   const db = getDatabase();
 
   const stmt = db.prepare(`
-    INSERT INTO hourly_summaries (hour_start, app_breakdown, total_minutes, focus_score, ocr_text, semantic_category, commitments, synced)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO hourly_summaries (hour_start, app_breakdown, total_minutes, focus_score, ocr_text, semantic_category, commitments, paused_intervals, synced)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
   const result = stmt.run(
@@ -158,9 +163,10 @@ export function insertHourlySummary(
     JSON.stringify(summary.appBreakdown),
     summary.totalMinutes,
     summary.focusScore,
-    summary.ocrText || null,
+    encryptField(summary.ocrText || null),
     summary.semanticCategory || null,
-    summary.commitments || null,
+    encryptField(summary.commitments || null),
+    JSON.stringify(summary.pausedIntervals ?? []),
     summary.synced ? 1 : 0
   );
 
@@ -171,8 +177,8 @@ export function upsertHourlySummary(summary: Omit<HourlySummary, 'id'>): void {
   const db = getDatabase();
 
   const stmt = db.prepare(`
-    INSERT INTO hourly_summaries (hour_start, app_breakdown, total_minutes, focus_score, ocr_text, semantic_category, commitments, synced)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO hourly_summaries (hour_start, app_breakdown, total_minutes, focus_score, ocr_text, semantic_category, commitments, paused_intervals, synced)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(hour_start) DO UPDATE SET
       app_breakdown = excluded.app_breakdown,
       total_minutes = excluded.total_minutes,
@@ -180,6 +186,7 @@ export function upsertHourlySummary(summary: Omit<HourlySummary, 'id'>): void {
       ocr_text = COALESCE(excluded.ocr_text, ocr_text),
       semantic_category = COALESCE(excluded.semantic_category, semantic_category),
       commitments = COALESCE(excluded.commitments, commitments),
+      paused_intervals = excluded.paused_intervals,
       synced = 0
   `);
 
@@ -188,9 +195,10 @@ export function upsertHourlySummary(summary: Omit<HourlySummary, 'id'>): void {
     JSON.stringify(summary.appBreakdown),
     summary.totalMinutes,
     summary.focusScore,
-    summary.ocrText || null,
+    encryptField(summary.ocrText || null),
     summary.semanticCategory || null,
-    summary.commitments || null,
+    encryptField(summary.commitments || null),
+    JSON.stringify(summary.pausedIntervals ?? []),
     summary.synced ? 1 : 0
   );
 }
@@ -205,7 +213,7 @@ export function getHourlySummaryByRange(
     SELECT id, hour_start as hourStart, app_breakdown as appBreakdown,
            total_minutes as totalMinutes, focus_score as focusScore,
            ocr_text as ocrText, semantic_category as semanticCategory,
-           commitments, synced
+           commitments, paused_intervals as pausedIntervals, synced
     FROM hourly_summaries
     WHERE hour_start >= ? AND hour_start < ?
     ORDER BY hour_start ASC
@@ -216,6 +224,9 @@ export function getHourlySummaryByRange(
   return rows.map((row) => ({
     ...row,
     appBreakdown: JSON.parse(row.appBreakdown || '[]'),
+    pausedIntervals: JSON.parse(row.pausedIntervals || '[]'),
+    ocrText: decryptField(row.ocrText),
+    commitments: decryptField(row.commitments),
     synced: row.synced === 1,
   }));
 }
@@ -227,10 +238,10 @@ export function getUnsyncedHourlySummaries(limit: number = 50): HourlySummary[]
     SELECT id, hour_start as hourStart, app_breakdown as appBreakdown,
            total_minutes as totalMinutes, focus_score as focusScore,
            ocr_text as ocrText, semantic_category as semanticCategory,
-           commitments, synced
+           commitments, paused_intervals as pausedIntervals, synced
     FROM hourly_summaries
     WHERE synced = 0
-    ORDER BY hour_start ASC
+    ORDER BY sync_error IS NOT NULL, hour_start ASC
     LIMIT ?
   `);
 
@@ -239,6 +250,9 @@ export function getUnsyncedHourlySummaries(limit: number = 50): HourlySummary[]
   return rows.map((row) => ({
     ...row,
     appBreakdown: JSON.parse(row.appBreakdown || '[]'),
+    pausedIntervals: JSON.parse(row.pausedIntervals || '[]'),
+    ocrText: decryptField(row.ocrText),
+    commitments: decryptField(row.commitments),
     synced: false,
   }));
 }
@@ -251,7 +265,7 @@ export function markHourlySummaryAsSynced(id: number): void {
   const db = getDatabase();
 
   const stmt = db.prepare(`
-    UPDATE hourly_summaries SET synced = 1 WHERE id = ?
+    UPDATE hourly_summaries SET synced = 1, sync_error = NULL WHERE id = ?
   `);
 
   stmt.run(id);
@@ -264,12 +278,69 @@ export function markSummariesSynced(ids: number[]): void {
 
   const placeholders = ids.map(() => '?').join(',');
   const stmt = db.prepare(`
-    UPDATE hourly_summaries SET synced = 1 WHERE id IN (${placeholders})
+    UPDATE hourly_summaries SET synced = 1, sync_error = NULL WHERE id IN (${placeholders})
   `);
 
   stmt.run(...ids);
 }
 
+// ============================================================================
+// Tracking Pauses
+// ============================================================================
+
+/**
+ * Open a paused interval (ended_at stays NULL until `endTrackingPause`)
+ */
+export function insertTrackingPause(startedAt: number, kind: SnoozeKind): number {
+  const db = getDatabase();
+
+  const result = db.prepare(`
+    INSERT INTO tracking_pauses (started_at, kind) VALUES (?, ?)
+  `).run(startedAt, kind);
+
+  return result.lastInsertRowid as number;
+}
+
+/**
+ * Close every open paused interval
+ */
+export function endTrackingPause(endedAt: number): void {
+  const db = getDatabase();
+
+  db.prepare(`
+    UPDATE tracking_pauses SET ended_at = MAX(started_at, ?) WHERE ended_at IS NULL
+  `).run(endedAt);
+}
+
+/**
+ * Paused intervals overlapping a range, clipped to it. Open intervals run
+ * until `now`.
+ */
+export function getTrackingPausesByRange(
+  startDate: Date,
+  endDate: Date,
+  now: number = Date.now()
+): PausedInterval[] {
+  const db = getDatabase();
+  const start = startDate.getTime();
+  const end = endDate.getTime();
+
+  const rows = db.prepare(`
+    SELECT started_at as startedAt, ended_at as endedAt, kind
+    FROM tracking_pauses
+    WHERE started_at < ? AND COALESCE(ended_at, ?) > ?
+    ORDER BY started_at ASC
+  `).all(end, now, start) as { startedAt: number; endedAt: number | null; kind: SnoozeKind }[];
+
+  return rows
+    .map((row) => ({
+      start: Math.max(row.startedAt, start),
+      end: Math.min(row.endedAt ?? now, end),
+      kind: row.kind,
+    }))
+    .filter((interval) => interval.end > interval.start);
+}
+
 // ============================================================================
 // Daily Journals
 // ============================================================================
@@ -286,9 +357,9 @@ export function insertDailyJournal(
 
   const result = stmt.run(
     journal.journalDate,
-    journal.overview,
-    JSON.stringify(journal.highlights),
-    JSON.stringify(journal.focusAreas),
+    encryptField(journal.overview),
+    encryptField(JSON.stringify(journal.highlights)),
+    encryptField(JSON.stringify(journal.focusAreas)),
     journal.synced ? 1 : 0
   );
 
@@ -310,9 +381,9 @@ export function upsertDailyJournal(journal: Omit<DailyJournal, 'id'>): void {
 
   stmt.run(
     journal.journalDate,
-    journal.overview,
-    JSON.stringify(journal.highlights),
-    JSON.stringify(journal.focusAreas),
+    encryptField(journal.overview),
+    encryptField(JSON.stringify(journal.highlights)),
+    encryptField(JSON.stringify(journal.focusAreas)),
     journal.synced ? 1 : 0
   );
 }
@@ -339,8 +410,9 @@ export function getDailyJournalByDate(date: Date): DailyJournal | null {
 
   return {
     ...row,
-    highlights: JSON.parse(row.highlights || '[]'),
-    focusAreas: JSON.parse(row.focusAreas || '[]'),
+    overview: decryptField(row.overview),
+    highlights: decryptJson(row.highlights, []),
+    focusAreas: decryptJson(row.focusAreas, []),
     synced: row.synced === 1,
   };
 }
@@ -356,7 +428,7 @@ export function getUnsyncedDailyJournals(limit: number = 50): DailyJournal[] {
     SELECT id, journal_date as journalDate, overview, highlights, focus_areas as focusAreas, synced
     FROM daily_journals
     WHERE synced = 0
-    ORDER BY journal_date ASC
+    ORDER BY sync_error IS NOT NULL, journal_date ASC
     LIMIT ?
   `);
 
@@ -364,8 +436,9 @@ export function getUnsyncedDailyJournals(limit: number = 50): DailyJournal[] {
 
   return rows.map((row) => ({
     ...row,
-    highlights: JSON.parse(row.highlights || '[]'),
-    focusAreas: JSON.parse(row.focusAreas || '[]'),
+    overview: decryptField(row.overview),
+    highlights: decryptJson(row.highlights, []),
+    focusAreas: decryptJson(row.focusAreas, []),
     synced: false,
   }));
 }
@@ -374,7 +447,7 @@ export function markDailyJournalAsSynced(id: number): void {
   const db = getDatabase();
 
   const stmt = db.prepare(`
-    UPDATE daily_journals SET synced = 1 WHERE id = ?
+    UPDATE daily_journals SET synced = 1, sync_error = NULL WHERE id = ?
   `);
 
   stmt.run(id);
@@ -397,8 +470,9 @@ export function getJournalHistory(days: number = 30): DailyJournal[] {
 
   return rows.map((row) => ({
     ...row,
-    highlights: JSON.parse(row.highlights || '[]'),
-    focusAreas: JSON.parse(row.focusAreas || '[]'),
+    overview: decryptField(row.overview),
+    highlights: decryptJson(row.highlights, []),
+    focusAreas: decryptJson(row.focusAreas, []),
     synced: row.synced === 1,
   }));
 }
@@ -430,6 +504,55 @@ export function setSyncMetadata(key: string, value: string): void {
   stmt.run(key, value);
 }
 
+// ============================================================================
+// Sync Quarantine
+// ============================================================================
+
+/** Local tables cloud sync uploads from, with the id column of each */
+const SYNC_ROW_KEYS = {
+  hourly_summaries: 'id',
+  daily_journals: 'id',
+  context_events: 'id',
+  screen_captures: 'id',
+  semantic_entities: 'entity_id',
+  semantic_activities: 'activity_id',
+  semantic_threads: 'thread_id',
+  semantic_intents: 'intent_id',
+  behavioral_signatures: 'signature_id',
+} as const;
+
+export type SyncTable = keyof typeof SYNC_ROW_KEYS;
+
+/**
+ * Record why a row failed validation for cloud sync. The row stays unsynced;
+ * the unsynced queries return it after the other rows until it passes.
+ *
+ * @returns False if the row was already quarantined with the same error
+ */
+export function quarantineSyncRow(table: SyncTable, rowId: string | number, error: string): boolean {
+  const db = getDatabase();
+  const result = db.prepare(
+    `UPDATE ${table} SET sync_error = ? WHERE ${SYNC_ROW_KEYS[table]} = ? AND sync_error IS NOT ?`
+  ).run(error, rowId, error);
+  return result.changes > 0;
+}
+
+/**
+ * Number of quarantined (unsynced, failed validation) rows per table; tables
+ * without any are left out
+ */
+export function getSyncQuarantineCounts(): Partial<Record<SyncTable, number>> {
+  const db = getDatabase();
+  const counts: Partial<Record<SyncTable, number>> = {};
+  for (const table of Object.keys(SYNC_ROW_KEYS) as SyncTable[]) {
+    const row = db.prepare(
+      `SELECT COUNT(*) as count FROM ${table} WHERE synced = 0 AND sync_error IS NOT NULL`
+    ).get() as { count: number } | undefined;
+    if (row?.count) counts[table] = row.count;
+  }
+  return counts;
+}
+
 // ============================================================================
 // Chat Sessions
 // ============================================================================
@@ -445,7 +568,7 @@ export function saveChatSession(sessionId: string, messages: any[]): void {
       last_activity = CURRENT_TIMESTAMP
   `);
 
-  stmt.run(sessionId, JSON.stringify(messages));
+  stmt.run(sessionId, encryptField(JSON.stringify(messages)));
 }
 
 export function getChatSession(sessionId: string): any[] | null {
@@ -456,7 +579,7 @@ export function getChatSession(sessionId: string): any[] | null {
 
   if (!row) return null;
 
-  return JSON.parse(row.messages);
+  return decryptJson(row.messages, []);
 }
 
 // ============================================================================
@@ -522,7 +645,7 @@ export function insertEntity(entity: Omit<Entity, 'id'>): number {
   const result = stmt.run(
     entity.entityId, entity.name, entity.type, entity.confidence,
     entity.firstSeen, entity.lastSeen, entity.occurrenceCount,
-    JSON.stringify(entity.metadata), entity.privacyLevel,
+    encryptField(JSON.stringify(entity.metadata)), entity.privacyLevel,
     entity.synced ? 1 : 0, entity.createdAt, entity.updatedAt
   );
   return result.lastInsertRowid as number;
@@ -537,7 +660,7 @@ export function updateEntity(entityId: string, updates: Partial<Pick<Entity, 'na
   if (updates.confidence !== undefined) { sets.push('confidence = ?'); values.push(updates.confidence); }
   if (updates.lastSeen !== undefined) { sets.push('last_seen = ?'); values.push(updates.lastSeen); }
   if (updates.occurrenceCount !== undefined) { sets.push('occurrence_count = ?'); values.push(updates.occurrenceCount); }
-  if (updates.metadata !== undefined) { sets.push('metadata = ?'); values.push(JSON.stringify(updates.metadata)); }
+  if (updates.metadata !== undefined) { sets.push('metadata = ?'); values.push(encryptField(JSON.stringify(updates.metadata))); }
 
   if (sets.length === 0) return;
   sets.push('updated_at = ?'); values.push(Date.now());
@@ -557,7 +680,7 @@ export function getEntityById(entityId: string): Entity | null {
   `).get(entityId) as any;
 
   if (!row) return null;
-  return { ...row, metadata: JSON.parse(row.metadata || '{}'), synced: row.synced === 1 };
+  return { ...row, metadata: decryptJson(row.metadata, {}), synced: row.synced === 1 };
 }
 
 export function findEntityByName(name: string, type?: string): Entity[] {
@@ -574,7 +697,7 @@ export function findEntityByName(name: string, type?: string): Entity[] {
 
   const params = type ? [name, type] : [name];
   const rows = db.prepare(sql).all(...params) as any[];
-  return rows.map(row => ({ ...row, metadata: JSON.parse(row.metadata || '{}'), synced: row.synced === 1 }));
+  return rows.map(row => ({ ...row, metadata: decryptJson(row.metadata, {}), synced: row.synced === 1 }));
 }
 
 export function findEntityByAlias(alias: string): Entity | null {
@@ -592,7 +715,7 @@ export function findEntityByAlias(alias: string): Entity | null {
   `).get(alias) as any;
 
   if (!row) return null;
-  return { ...row, metadata: JSON.parse(row.metadata || '{}'), synced: row.synced === 1 };
+  return { ...row, metadata: decryptJson(row.metadata, {}), synced: row.synced === 1 };
 }
 
 export function getRecentEntities(limit: number = 50): Entity[] {
@@ -605,7 +728,7 @@ export function getRecentEntities(limit: number = 50): Entity[] {
     ORDER BY last_seen DESC
     LIMIT ?
   `).all(limit) as any[];
-  return rows.map(row => ({ ...row, metadata: JSON.parse(row.metadata || '{}'), synced: row.synced === 1 }));
+  return rows.map(row => ({ ...row, metadata: decryptJson(row.metadata, {}), synced: row.synced === 1 }));
 }
 
 export function upsertEntityAlias(alias: Omit<EntityAlias, 'id'>): void {
@@ -680,7 +803,7 @@ export function insertSemanticActivity(activity: Omit<SemanticActivity, 'id'>):
   `).run(
     activity.activityId, activity.eventId, activity.activityType, activity.activitySubtype,
     activity.confidence, activity.classificationMethod, activity.durationMs,
-    JSON.stringify(activity.metadata), activity.privacyLevel, activity.synced ? 1 : 0, activity.createdAt
+    encryptField(JSON.stringify(activity.metadata)), activity.privacyLevel, activity.synced ? 1 : 0, activity.createdAt
   );
   return result.lastInsertRowid as number;
 }
@@ -693,7 +816,7 @@ export function getActivitiesByType(activityType: string, limit: number = 100):
       duration_ms as durationMs, metadata, privacy_level as privacyLevel, synced, created_at as createdAt
     FROM semantic_activities WHERE activity_type = ? ORDER BY created_at DESC LIMIT ?
   `).all(activityType, limit) as any[];
-  return rows.map(row => ({ ...row, metadata: JSON.parse(row.metadata || '{}'), synced: row.synced === 1 }));
+  return rows.map(row => ({ ...row, metadata: decryptJson(row.metadata, {}), synced: row.synced === 1 }));
 }
 
 export function getActivitiesByTimeRange(startTime: number, endTime: number): SemanticActivity[] {
@@ -704,7 +827,7 @@ export function getActivitiesByTimeRange(startTime: number, endTime: number): Se
       duration_ms as durationMs, metadata, privacy_level as privacyLevel, synced, created_at as createdAt
     FROM semantic_activities WHERE created_at >= ? AND created_at < ? ORDER BY created_at ASC
   `).all(startTime, endTime) as any[];
-  return rows.map(row => ({ ...row, metadata: JSON.parse(row.metadata || '{}'), synced: row.synced === 1 }));
+  return rows.map(row => ({ ...row, metadata: decryptJson(row.metadata, {}), synced: row.synced === 1 }));
 }
 
 export function insertActivityTransition(transition: Omit<ActivityTransition, 'id'>): number {
@@ -746,9 +869,9 @@ export function insertThread(thread: Omit<SemanticThread, 'id'>): number {
       event_count, primary_entities, primary_activity_type, metadata, privacy_level, synced, created_at, updated_at)
     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
-    thread.threadId, thread.title, thread.status, thread.startedAt, thread.lastActivityAt,
+    thread.threadId, encryptField(thread.title), thread.status, thread.startedAt, thread.lastActivityAt,
     thread.eventCount, JSON.stringify(thread.primaryEntities), thread.primaryActivityType,
-    JSON.stringify(thread.metadata), thread.privacyLevel, thread.synced ? 1 : 0, thread.createdAt, thread.updatedAt
+    encryptField(JSON.stringify(thread.metadata)), thread.privacyLevel, thread.synced ? 1 : 0, thread.createdAt, thread.updatedAt
   );
   return result.lastInsertRowid as number;
 }
@@ -758,7 +881,7 @@ export function updateThread(threadId: string, updates: Partial<Pick<SemanticThr
   const sets: string[] = [];
   const values: unknown[] = [];
 
-  if (updates.title !== undefined) { sets.push('title = ?'); values.push(updates.title); }
+  if (updates.title !== undefined) { sets.push('title = ?'); values.push(encryptField(updates.title)); }
   if (updates.status !== undefined) { sets.push('status = ?'); values.push(updates.status); }
   if (updates.lastActivityAt !== undefined) { sets.push('last_activity_at = ?'); values.push(updates.lastActivityAt); }
   if (updates.eventCount !== undefined) { sets.push('event_count = ?'); values.push(updates.eventCount); }
@@ -786,8 +909,9 @@ export function getThreadById(threadId: string): SemanticThread | null {
   if (!row) return null;
   return {
     ...row,
+    title: decryptField(row.title),
     primaryEntities: JSON.parse(row.primaryEntities || '[]'),
-    metadata: JSON.parse(row.metadata || '{}'),
+    metadata: decryptJson(row.metadata, {}),
     synced: row.synced === 1,
   };
 }
@@ -805,8 +929,9 @@ export function getActiveThreads(): SemanticThread[] {
 
   return rows.map(row => ({
     ...row,
+    title: decryptField(row.title),
     primaryEntities: JSON.parse(row.primaryEntities || '[]'),
-    metadata: JSON.parse(row.metadata || '{}'),
+    metadata: decryptJson(row.metadata, {}),
     synced: row.synced === 1,
   }));
 }
@@ -849,7 +974,7 @@ export function insertIntent(intent: Omit<SemanticIntent, 'id'>): number {
     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     intent.intentId, intent.threadId, intent.intentType, intent.intentSubtype,
-    intent.confidence, intent.classificationMethod, JSON.stringify(intent.evidence),
+    intent.confidence, intent.classificationMethod, encryptField(JSON.stringify(intent.evidence)),
     intent.resolvedAt, intent.outcome, intent.privacyLevel, intent.synced ? 1 : 0,
     intent.createdAt, intent.updatedAt
   );
@@ -885,7 +1010,7 @@ export function getActiveIntents(): SemanticIntent[] {
     FROM semantic_intents WHERE resolved_at IS NULL
     ORDER BY created_at DESC
   `).all() as any[];
-  return rows.map(row => ({ ...row, evidence: JSON.parse(row.evidence || '[]'), synced: row.synced === 1 }));
+  return rows.map(row => ({ ...row, evidence: decryptJson(row.evidence, []), synced: row.synced === 1 }));
 }
 
 export function getIntentByThread(threadId: string): SemanticIntent | null {
@@ -900,7 +1025,7 @@ export function getIntentByThread(threadId: string): SemanticIntent | null {
   `).get(threadId) as any;
 
   if (!row) return null;
-  return { ...row, evidence: JSON.parse(row.evidence || '[]'), synced: row.synced === 1 };
+  return { ...row, evidence: decryptJson(row.evidence, []), synced: row.synced === 1 };
 }
 
 export function linkIntentToActivity(seq: Omit<IntentSequence, 'id'>): number {
@@ -947,7 +1072,7 @@ export function getActivitiesForThread(threadId: string, limit: number = 50): Se
 
   return rows.map(row => ({
     ...row,
-    metadata: JSON.parse(row.metadata || '{}'),
+    metadata: decryptJson(row.metadata, {}),
     synced: row.synced === 1,
   }));
 }
@@ -969,8 +1094,9 @@ export function getThreadsNeedingIntentFromDB(limit: number = 50): SemanticThrea
   `).all(limit) as any[];
   return rows.map(row => ({
     ...row,
+    title: decryptField(row.title),
     primaryEntities: JSON.parse(row.primaryEntities || '[]'),
-    metadata: JSON.parse(row.metadata || '{}'),
+    metadata: decryptJson(row.metadata, {}),
     synced: row.synced === 1,
   }));
 }
@@ -1037,16 +1163,16 @@ export function getUnsyncedEntities(limit: number = 100): Entity[] {
       last_seen as lastSeen, occurrence_count as occurrenceCount, metadata,
       privacy_level as privacyLevel, synced, created_at as createdAt, updated_at as updatedAt
     FROM semantic_entities WHERE synced = 0 AND privacy_level = 'sync_allowed'
-    ORDER BY updated_at ASC LIMIT ?
+    ORDER BY sync_error IS NOT NULL, updated_at ASC LIMIT ?
   `).all(limit) as any[];
-  return rows.map(row => ({ ...row, metadata: JSON.parse(row.metadata || '{}'), synced: false }));
+  return rows.map(row => ({ ...row, metadata: decryptJson(row.metadata, {}), synced: false }));
 }
 
 export function markEntitiesSynced(entityIds: string[]): void {
   if (entityIds.length === 0) return;
   const db = getDatabase();
   const placeholders = entityIds.map(() => '?').join(',');
-  db.prepare(`UPDATE semantic_entities SET synced = 1 WHERE entity_id IN (${placeholders})`).run(...entityIds);
+  db.prepare(`UPDATE semantic_entities SET synced = 1, sync_error = NULL WHERE entity_id IN (${placeholders})`).run(...entityIds);
 }
 
 export function getUnsyncedActivities(limit: number = 100): SemanticActivity[] {
@@ -1056,16 +1182,16 @@ export function getUnsyncedActivities(limit: number = 100): SemanticActivity[] {
       activity_subtype as activitySubtype, confidence, classification_method as classificationMethod,
       duration_ms as durationMs, metadata, privacy_level as privacyLevel, synced, created_at as createdAt
     FROM semantic_activities WHERE synced = 0 AND privacy_level = 'sync_allowed'
-    ORDER BY created_at ASC LIMIT ?
+    ORDER BY sync_error IS NOT NULL, created_at ASC LIMIT ?
   `).all(limit) as any[];
-  return rows.map(row => ({ ...row, metadata: JSON.parse(row.metadata || '{}'), synced: false }));
+  return rows.map(row => ({ ...row, metadata: decryptJson(row.metadata, {}), synced: false }));
 }
 
 export function markActivitiesSynced(activityIds: string[]): void {
   if (activityIds.length === 0) return;
   const db = getDatabase();
   const placeholders = activityIds.map(() => '?').join(',');
-  db.prepare(`UPDATE semantic_activities SET synced = 1 WHERE activity_id IN (${placeholders})`).run(...activityIds);
+  db.prepare(`UPDATE semantic_activities SET synced = 1, sync_error = NULL WHERE activity_id IN (${placeholders})`).run(...activityIds);
 }
 
 export function getUnsyncedThreads(limit: number = 100): SemanticThread[] {
@@ -1076,12 +1202,13 @@ export function getUnsyncedThreads(limit: number = 100): SemanticThread[] {
       primary_entities as primaryEntities, primary_activity_type as primaryActivityType,
       metadata, privacy_level as privacyLevel, synced, created_at as createdAt, updated_at as updatedAt
     FROM semantic_threads WHERE synced = 0 AND privacy_level = 'sync_allowed'
-    ORDER BY updated_at ASC LIMIT ?
+    ORDER BY sync_error IS NOT NULL, updated_at ASC LIMIT ?
   `).all(limit) as any[];
   return rows.map(row => ({
     ...row,
+    title: decryptField(row.title),
     primaryEntities: JSON.parse(row.primaryEntities || '[]'),
-    metadata: JSON.parse(row.metadata || '{}'),
+    metadata: decryptJson(row.metadata, {}),
     synced: false,
   }));
 }
@@ -1090,7 +1217,7 @@ export function markThreadsSynced(threadIds: string[]): void {
   if (threadIds.length === 0) return;
   const db = getDatabase();
   const placeholders = threadIds.map(() => '?').join(',');
-  db.prepare(`UPDATE semantic_threads SET synced = 1 WHERE thread_id IN (${placeholders})`).run(...threadIds);
+  db.prepare(`UPDATE semantic_threads SET synced = 1, sync_error = NULL WHERE thread_id IN (${placeholders})`).run(...threadIds);
 }
 
 export function getUnsyncedIntents(limit: number = 100): SemanticIntent[] {
@@ -1101,16 +1228,16 @@ export function getUnsyncedIntents(limit: number = 100): SemanticIntent[] {
       evidence, resolved_at as resolvedAt, outcome, privacy_level as privacyLevel,
       synced, created_at as createdAt, updated_at as updatedAt
     FROM semantic_intents WHERE synced = 0 AND privacy_level = 'sync_allowed'
-    ORDER BY updated_at ASC LIMIT ?
+    ORDER BY sync_error IS NOT NULL, updated_at ASC LIMIT ?
   `).all(limit) as any[];
-  return rows.map(row => ({ ...row, evidence: JSON.parse(row.evidence || '[]'), synced: false }));
+  return rows.map(row => ({ ...row, evidence: decryptJson(row.evidence, []), synced: false }));
 }
 
 export function markIntentsSynced(intentIds: string[]): void {
   if (intentIds.length === 0) return;
   const db = getDatabase();
   const placeholders = intentIds.map(() => '?').join(',');
-  db.prepare(`UPDATE semantic_intents SET synced = 1 WHERE intent_id IN (${placeholders})`).run(...intentIds);
+  db.prepare(`UPDATE semantic_intents SET synced = 1, sync_error = NULL WHERE intent_id IN (${placeholders})`).run(...intentIds);
 }
 
 export function getUnsyncedSignatures(limit: number = 100): BehavioralSignature[] {
@@ -1121,7 +1248,7 @@ export function getUnsyncedSignatures(limit: number = 100): BehavioralSignature[
       window_days as windowDays, computed_at as computedAt, privacy_level as privacyLevel,
       synced, created_at as createdAt, updated_at as updatedAt
     FROM behavioral_signatures WHERE synced = 0 AND privacy_level = 'sync_allowed'
-    ORDER BY computed_at ASC LIMIT ?
+    ORDER BY sync_error IS NOT NULL, computed_at ASC LIMIT ?
   `).all(limit) as any[];
   return rows.map(row => ({ ...row, currentValue: JSON.parse(row.currentValue), synced: false }));
 }
@@ -1130,7 +1257,7 @@ export function markSignaturesSynced(signatureIds: string[]): void {
   if (signatureIds.length === 0) return;
   const db = getDatabase();
   const placeholders = signatureIds.map(() => '?').join(',');
-  db.prepare(`UPDATE behavioral_signatures SET synced = 1 WHERE signature_id IN (${placeholders})`).run(...signatureIds);
+  db.prepare(`UPDATE behavioral_signatures SET synced = 1, sync_error = NULL WHERE signature_id IN (${placeholders})`).run(...signatureIds);
 }
 
 // ============================================================================
@@ -23,7 +23,7 @@ process.on('unhandledRejection', (reason) => {
   console.error('[main] Unhandled rejection:', reason);
 });
 
-import { app, BrowserWindow, ipcMain, nativeImage, protocol, shell } from 'electron';
+import { app, BrowserWindow, ipcMain, nativeImage, powerMonitor, protocol, shell } from 'electron';
 import path from 'path';
 import { createFloatingWidget, getFloatingWidget, setNativeWidgetActive } from './windows/floatingWidget';
 import { createSystemTray, updateTrayMenu } from './tray/systemTray';
@@ -40,8 +40,17 @@ import { checkAndRequestPermissions, checkPermissions } from './services/permiss
 import { initAutoUpdater, stopAutoUpdater } from './services/autoUpdater';
 import { NotchBridge } from './services/notchBridge';
 import { ActionService } from './services/actionService';
+import { ProfileService } from './services/profileService';
+import { PresentationDetector, PresentingSignal } from './services/presentationDetector';
+import { SnoozeService } from './services/snoozeService';
+import { CommitmentService, CommitmentEscalationEvent } from './services/commitmentService';
 import { EntityRegistry, SemanticProcessor, ThreadManager, IntentClassifier, SignatureComputer } from './services/semantic';
 import { initDatabase, closeDatabase } from './db/database';
+import { Transport } from '../transport/Transport';
+import { UploadPolicy } from '../transport/uploadPolicy';
+import { DevicePairing } from '../pairing/devicePairing';
+import { AppSettings, DEFAULT_SETTINGS, PairingState, Profile, SnoozeState } from '../shared/types';
+import { IPC_CHANNELS } from '../shared/ipcChannels';
 import { APP_PROTOCOL, WEB_APP_URL, SUPABASE_URL, SUPABASE_ANON_KEY } from '../shared/constants';
 import {
   store,
@@ -55,6 +64,7 @@ import {
   setRefreshToken,
   setAuthState,
   setUser,
+  getActiveProfile,
 } from './store';
 
 export type { StoreSchema };
@@ -78,6 +88,13 @@ let semanticProcessor: SemanticProcessor | null = null;
 let threadManager: ThreadManager | null = null;
 let intentClassifier: IntentClassifier | null = null;
 let signatureComputer: SignatureComputer | null = null;
+let transport: Transport | null = null;
+let uploadPolicy: UploadPolicy | null = null;
+let devicePairing: DevicePairing | null = null;
+let profileService: ProfileService | null = null;
+let presentationDetector: PresentationDetector | null = null;
+let snoozeService: SnoozeService | null = null;
+let commitmentService: CommitmentService | null = null;
 let mainWindow: BrowserWindow | null = null;
 let pendingDeepLink: string | null = null;
 
@@ -299,6 +316,117 @@ async function handleDeepLink(url: string) {
   }
 }
 
+// ============================================================================
+// Profile Switching
+// ============================================================================
+
+/**
+ * Stop everything that writes to the database before the profile's DB is closed
+ */
+async function pauseProfileServices(): Promise<void> {
+  snoozeService?.beforeDatabaseSwitch();
+  commitmentService?.stop();
+  scheduler?.stop();
+  deepContextEngine?.stop();
+  deepContextManager?.stop();
+  activityTracker?.stop();
+  intentClassifier?.stop();
+  threadManager?.stop();
+  semanticProcessor?.stop();
+  entityRegistry?.stop();
+}
+
+/**
+ * Restart services against the new profile's database and settings
+ */
+async function resumeProfileServices(profile: Profile): Promise<void> {
+  const settings = getSettings();
+
+  await entityRegistry?.start();
+  await semanticProcessor?.start();
+  await threadManager?.start();
+  await intentClassifier?.start();
+  snoozeService?.afterDatabaseSwitch();
+  commitmentService?.start();
+
+  // Same semantics as the tray's pause/resume: no tracker instance while paused
+  if (settings.trackingEnabled) {
+    if (!activityTracker) {
+      activityTracker = new ActivityTracker();
+    }
+    if (!snoozeService?.isSnoozed()) {
+      activityTracker.start();
+      if (!presentationDetector?.isPresenting()) {
+        deepContextManager?.start();
+        deepContextEngine?.start();
+      }
+    }
+  } else {
+    activityTracker = null;
+  }
+  scheduler?.start();
+
+  applyUploadPolicySettings(settings);
+  applyPresentingSettings(settings);
+  devicePairing?.setEndpoint(settings.pairingEndpoint ?? DEFAULT_SETTINGS.pairingEndpoint);
+  notchBridge?.sendAuthUpdate();
+  updateTrayMenu();
+
+  const widget = getFloatingWidget();
+  if (widget) {
+    widget.webContents.send(IPC_CHANNELS.PROFILES_CHANGED, { activeProfileId: profile.id, user: getUser() ?? null });
+  }
+}
+
+// ============================================================================
+// Presenting Pause
+// ============================================================================
+
+/**
+ * Pause content capture (deep context engine, screen capture + OCR) and hold
+ * back notch pills while the screen is shared or a slide show is running.
+ * App usage tracking keeps going.
+ */
+function applyPresentingPause(signal: PresentingSignal | null): void {
+  if (signal) {
+    deepContextEngine?.stop();
+    deepContextManager?.stop();
+  } else if (getSettings().trackingEnabled && !snoozeService?.isSnoozed()) {
+    deepContextManager?.start();
+    deepContextEngine?.start();
+  }
+  actionService?.setSuppressed(signal !== null);
+  updateTrayMenu();
+}
+
+// ============================================================================
+// Snooze
+// ============================================================================
+
+/**
+ * Stop or restart every tracking service (activity tracker, deep context
+ * engine with its file watcher, screen capture) for a snooze
+ */
+function applySnooze(state: SnoozeState | null): void {
+  if (state) {
+    activityTracker?.stop();
+    deepContextEngine?.stop();
+    deepContextManager?.stop();
+  } else if (getSettings().trackingEnabled) {
+    activityTracker?.start();
+    if (!presentationDetector?.isPresenting()) {
+      deepContextManager?.start();
+      deepContextEngine?.start();
+    }
+  }
+  updateTrayMenu();
+
+  const widget = getFloatingWidget();
+  if (widget) {
+    widget.webContents.send(IPC_CHANNELS.SNOOZE_CHANGED, state);
+  }
+}
+
 // ============================================================================
 // App Lifecycle
 // ============================================================================
@@ -320,8 +448,14 @@ app.whenReady().then(async () => {
     app.setAsDefaultProtocolClient(APP_PROTOCOL);
   }
 
-  // Initialize database
-  await initDatabase();
+  // Initialize database for the active profile
+  await initDatabase(getActiveProfile().id);
+
+  // Restore a snooze from before the last quit; tracking starts only once it ends
+  snoozeService = new SnoozeService();
+  snoozeService.on('change', applySnooze);
+  snoozeService.start();
+  const snoozed = snoozeService.isSnoozed();
 
   // Create main floating widget
   mainWindow = await createFloatingWidget();
@@ -351,22 +485,29 @@ app.whenReady().then(async () => {
   summaryService = new SummaryService();
   journalService = new JournalService(summaryService);
 
+  // Commitments from both detectors: deadlines, snoozes and escalation
+  commitmentService = new CommitmentService();
+  commitmentService.on('escalation', (event: CommitmentEscalationEvent) => {
+    console.log(`[main] Commitment ${event.commitment.id} overdue, escalation level ${event.level}`);
+  });
+  commitmentService.start();
+
   // Start activity tracking if enabled and permissions granted
   if (settings.trackingEnabled) {
     if (permissions.accessibility || process.platform !== 'darwin') {
       activityTracker = new ActivityTracker();
       contextManager = new ContextManager(activityTracker);
 
-      activityTracker.start();
+      if (!snoozed) activityTracker.start();
       contextManager.start();
 
-      console.log('[main] Activity tracking started');
+      console.log(`[main] Activity tracking ${snoozed ? 'snoozed' : 'started'}`);
 
       // Start deep context manager (screen capture, OCR, semantic analysis)
       // Requires screen capture permission on macOS
       if (permissions.screenCapture || process.platform !== 'darwin') {
-        deepContextManager = new DeepContextManager();
-        deepContextManager.start();
+        deepContextManager = new DeepContextManager({}, commitmentService);
+        if (!snoozed) deepContextManager.start();
 
         // Log deep context events
         deepContextManager.on('event', (event) => {
@@ -383,8 +524,10 @@ app.whenReady().then(async () => {
       }
 
       // Start deep context engine (accessibility-based, no screen capture needed)
-      deepContextEngine = new DeepContextEngine();
-      deepContextEngine.start();
+      deepContextEngine = new DeepContextEngine({
+        privacyPolicyPath: path.join(app.getPath('userData'), 'privacy-policy.json'),
+      }, undefined, commitmentService);
+      if (!snoozed) deepContextEngine.start();
       console.log('[main] Deep context engine started');
     } else {
       console.log('[main] Activity tracking disabled - accessibility permission not granted');
@@ -446,8 +589,26 @@ app.whenReady().then(async () => {
   }
   console.log('[main] Semantic processor started');
 
+  // Shared upload policy: one byte budget across cloud sync and transport uploads
+  uploadPolicy = new UploadPolicy({
+    getPowerState: () => ({ onBattery: powerMonitor.isOnBatteryPower() }),
+    getNetworkState: () => ({ metered: !!getSettings().meteredConnection }),
+  });
+  applyUploadPolicySettings(getSettings());
+
+  // Device pairing for the Transport upload path
+  devicePairing = new DevicePairing({
+    endpoint: getSettings().pairingEndpoint ?? DEFAULT_SETTINGS.pairingEndpoint,
+  });
+  devicePairing.on('state', (state: PairingState) => {
+    // A new pairing or rotated key makes uploads possible again after a 401
+    if (state.status === 'paired') {
+      transport?.clearAuthRevoked();
+    }
+  });
+
   // Create cloud sync service (after deepContextEngine so it can sync context events)
-  cloudSyncService = new CloudSyncService(summaryService, journalService, deepContextEngine || undefined);
+  cloudSyncService = new CloudSyncService(summaryService, journalService, deepContextEngine || undefined, uploadPolicy);
 
   // Update tray menu now that tracker state is known
   updateTrayMenu();
@@ -475,6 +636,14 @@ app.whenReady().then(async () => {
 
   console.log('[main] Scheduler started');
 
+  // Local profiles: switching swaps the database, settings and sign-in
+  profileService = new ProfileService({
+    beforeSwitch: pauseProfileServices,
+    afterSwitch: resumeProfileServices,
+    getCurrentApp: () => activityTracker?.getCurrentActivity()?.appName ?? null,
+  });
+  profileService.start();
+
   // On startup: try to generate summary for last hour (may have been missed)
   // and trigger an immediate sync if authenticated
   if (summaryService) {
@@ -546,6 +715,11 @@ app.whenReady().then(async () => {
     }
   }
 
+  // Pause capture and pills while screen sharing or presenting
+  presentationDetector = new PresentationDetector();
+  presentationDetector.on('change', applyPresentingPause);
+  applyPresentingSettings(settings);
+
   // Set app name to "Sync" (displayed in menu bar, dock, notifications)
   app.setName('Sync');
 
@@ -604,11 +778,32 @@ app.on('before-quit', () => {
     actionService.stop();
   }
 
+  // Stop presentation detector (before the services it would restart)
+  if (presentationDetector) {
+    presentationDetector.removeAllListeners('change');
+    presentationDetector.stop();
+  }
+
+  // Stop watching for the snooze end; an active snooze is restored on next launch
+  if (snoozeService) {
+    snoozeService.stop();
+  }
+
+  // Stop commitment checks; missed deadlines are caught up on next launch
+  if (commitmentService) {
+    commitmentService.stop();
+  }
+
   // Stop notch widget bridge
   if (notchBridge) {
     notchBridge.stop();
   }
 
+  // Stop profile rule checks
+  if (profileService) {
+    profileService.stop();
+  }
+
   // Stop scheduler first
   if (scheduler) {
     scheduler.stop();
@@ -645,6 +840,16 @@ app.on('before-quit', () => {
     activityTracker.stop();
   }
 
+  // Close transport queue
+  if (transport) {
+    transport.close();
+  }
+
+  // Stop pairing poll
+  if (devicePairing) {
+    devicePairing.close();
+  }
+
   // Stop auto-updater interval
   stopAutoUpdater();
 
@@ -725,3 +930,66 @@ export function getIntentClassifier() {
 export function getSignatureComputer() {
   return signatureComputer;
 }
+
+/**
+ * Transport upload path. Transports should be created with
+ * `onUpload: recordTransportUpload` so their batches land in the outbound audit ledger.
+ */
+export function getTransport() {
+  return transport;
+}
+
+export function setTransport(instance: Transport | null) {
+  transport = instance;
+}
+
+/**
+ * Device pairing for the Transport upload path.
+ * Transports should be created with `onAuthRevoked: () => getDevicePairing()?.markRevoked()`
+ * so a revoked key shows up in Settings.
+ */
+export function getDevicePairing() {
+  return devicePairing;
+}
+
+export function getProfileService() {
+  return profileService;
+}
+
+export function getUploadPolicy() {
+  return uploadPolicy;
+}
+
+export function getPresentationDetector() {
+  return presentationDetector;
+}
+
+export function getSnoozeService() {
+  return snoozeService;
+}
+
+export function getCommitmentService() {
+  return commitmentService;
+}
+
+/**
+ * Start or stop presenting detection. Stopping it ends any active pause.
+ */
+export function applyPresentingSettings(settings: AppSettings) {
+  if (settings.pauseWhilePresenting ?? DEFAULT_SETTINGS.pauseWhilePresenting) {
+    presentationDetector?.start();
+  } else {
+    presentationDetector?.stop();
+  }
+}
+
+/**
+ * Push upload-related settings into the shared upload policy.
+ * Settings saved before these fields existed fall back to defaults.
+ */
+export function applyUploadPolicySettings(settings: AppSettings) {
+  uploadPolicy?.updateConfig({
+    deferOnBattery: settings.deferUploadsOnBattery ?? DEFAULT_SETTINGS.deferUploadsOnBattery,
+    maxBytesPerHour: (settings.maxUploadMbPerHour ?? DEFAULT_SETTINGS.maxUploadMbPerHour) * 1024 * 1024,
+  });
+}
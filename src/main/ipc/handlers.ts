@@ -4,9 +4,11 @@
  * Handle communication between main and renderer processes.
  */
 
-import { ipcMain, shell, app } from 'electron';
+import { ipcMain, shell, app, dialog } from 'electron';
+import fs from 'fs';
+import path from 'path';
 import { IPC_CHANNELS } from '../../shared/ipcChannels';
-import { AppSettings } from '../../shared/types';
+import { AppSettings, CapturePreviewInput, CommitmentStatus, ErasureSelector, ProfileRule, SnoozeRequest } from '../../shared/types';
 import { WEB_APP_URL, AUTH_CALLBACK_PATH, SUPABASE_URL, SUPABASE_ANON_KEY } from '../../shared/constants';
 import {
   getFloatingWidget,
@@ -30,6 +32,13 @@ import {
   getThreadManager,
   getIntentClassifier,
   getSignatureComputer,
+  getTransport,
+  getDevicePairing,
+  getProfileService,
+  getSnoozeService,
+  getCommitmentService,
+  applyUploadPolicySettings,
+  applyPresentingSettings,
 } from '../index';
 import { refreshAccessToken } from '../services/authUtils';
 import {
@@ -42,6 +51,10 @@ import {
   getAllCurrentSignatures,
   getActivityDistribution,
 } from '../db/queries';
+import { getEncryptionStatus, unlockWithPassphrase, changePassphrase } from '../db/database';
+import { pseudonymizeText, resolvePseudonyms } from '../services/pseudonymVault';
+import { getOutboundAudit, getOutboundAuditSummary, exportOutboundAudit } from '../services/outboundAudit';
+import { eraseData } from '../services/erasureService';
 import {
   store,
   getSettings,
@@ -215,6 +228,7 @@ export function setupIpcHandlers(
     }
   });
 
+  // The renderer sends this context to the SYNC agent, so names are pseudonymized
   ipcMain.handle(IPC_CHANNELS.ACTIVITY_GET_CONTEXT_FOR_SYNC, () => {
     try {
       // Primary: DeepContextEngine (rich context)
@@ -232,7 +246,7 @@ export function setupIpcHandlers(
           const extras = [focusLine, idleLine].filter(Boolean).join('\n');
 
           const merged = extras ? `${deepContext}\n${extras}` : deepContext;
-          return { success: true, data: merged };
+          return { success: true, data: pseudonymizeText(merged) };
         }
       }
 
@@ -240,7 +254,7 @@ export function setupIpcHandlers(
       const contextManager = getContextManager();
       if (contextManager) {
         const context = contextManager.getContextForSync();
-        return { success: true, data: context };
+        return { success: true, data: pseudonymizeText(context) };
       }
       return { success: true, data: '' };
     } catch (error) {
@@ -248,7 +262,7 @@ export function setupIpcHandlers(
       // Fallback to basic on any error
       try {
         const contextManager = getContextManager();
-        return { success: true, data: contextManager?.getContextForSync() || '' };
+        return { success: true, data: pseudonymizeText(contextManager?.getContextForSync() || '') };
       } catch {
         return { success: false, error: String(error) };
       }
@@ -412,6 +426,10 @@ export function setupIpcHandlers(
       if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
         return { success: false, error: 'Updates must be a non-null object' };
       }
+      // SEC-006: The pairing endpoint receives device keys, so only accept http(s) URLs
+      if ('pairingEndpoint' in updates && !isHttpUrl(updates.pairingEndpoint)) {
+        return { success: false, error: 'pairingEndpoint must be an http(s) URL' };
+      }
       const newSettings = updateSettings(updates);
 
       // Apply side-effects for settings that affect OS behavior
@@ -425,6 +443,15 @@ export function setupIpcHandlers(
           app.dock?.hide();
         }
       }
+      if ('deferUploadsOnBattery' in updates || 'maxUploadMbPerHour' in updates) {
+        applyUploadPolicySettings(newSettings);
+      }
+      if ('pairingEndpoint' in updates) {
+        getDevicePairing()?.setEndpoint(newSettings.pairingEndpoint);
+      }
+      if ('pauseWhilePresenting' in updates) {
+        applyPresentingSettings(newSettings);
+      }
 
       return { success: true, data: newSettings };
     } catch (error) {
@@ -597,10 +624,10 @@ export function setupIpcHandlers(
 
   ipcMain.handle(IPC_CHANNELS.DEEP_CONTEXT_GET_COMMITMENTS, (_event, status?: string) => {
     try {
-      const deepContext = getDeepContextManager();
-      if (deepContext) {
-        const commitments = deepContext.getCommitments(status as 'pending' | 'completed' | 'expired' | 'dismissed' | undefined);
-        return { success: true, data: commitments };
+      const commitments = getCommitmentService();
+      if (commitments) {
+        const statuses = status ? [status as CommitmentStatus] : undefined;
+        return { success: true, data: commitments.list({ statuses, limit: 20 }) };
       }
       return { success: true, data: [] };
     } catch (error) {
@@ -627,12 +654,11 @@ export function setupIpcHandlers(
       if (typeof commitmentId !== 'number' || !Number.isInteger(commitmentId) || commitmentId < 1) {
         return { success: false, error: 'commitmentId must be a positive integer' };
       }
-      const deepContext = getDeepContextManager();
-      if (deepContext) {
-        deepContext.dismissCommitment(commitmentId);
-        return { success: true };
+      const commitments = getCommitmentService();
+      if (commitments) {
+        return { success: true, data: commitments.dismiss(commitmentId) };
       }
-      return { success: false, error: 'Deep context manager not available' };
+      return { success: false, error: 'Commitment service not available' };
     } catch (error) {
       return { success: false, error: String(error) };
     }
@@ -644,12 +670,62 @@ export function setupIpcHandlers(
       if (typeof commitmentId !== 'number' || !Number.isInteger(commitmentId) || commitmentId < 1) {
         return { success: false, error: 'commitmentId must be a positive integer' };
       }
-      const deepContext = getDeepContextManager();
-      if (deepContext) {
-        deepContext.completeCommitment(commitmentId);
-        return { success: true };
+      const commitments = getCommitmentService();
+      if (commitments) {
+        return { success: true, data: commitments.complete(commitmentId) };
+      }
+      return { success: false, error: 'Commitment service not available' };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.DEEP_CONTEXT_SNOOZE_COMMITMENT, (_event, commitmentId: number, until: number) => {
+    try {
+      // SEC-006: Validate commitmentId is a positive integer
+      if (typeof commitmentId !== 'number' || !Number.isInteger(commitmentId) || commitmentId < 1) {
+        return { success: false, error: 'commitmentId must be a positive integer' };
+      }
+      if (typeof until !== 'number') {
+        return { success: false, error: 'until must be a timestamp' };
+      }
+      const commitments = getCommitmentService();
+      if (commitments) {
+        return { success: true, data: commitments.snooze(commitmentId, until) };
+      }
+      return { success: false, error: 'Commitment service not available' };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.DEEP_CONTEXT_REASSIGN_COMMITMENT, (_event, commitmentId: number, assignee: string | null) => {
+    try {
+      // SEC-006: Validate commitmentId is a positive integer
+      if (typeof commitmentId !== 'number' || !Number.isInteger(commitmentId) || commitmentId < 1) {
+        return { success: false, error: 'commitmentId must be a positive integer' };
+      }
+      if (assignee !== null && typeof assignee !== 'string') {
+        return { success: false, error: 'assignee must be a string or null' };
+      }
+      const commitments = getCommitmentService();
+      if (commitments) {
+        return { success: true, data: commitments.reassign(commitmentId, assignee) };
       }
-      return { success: false, error: 'Deep context manager not available' };
+      return { success: false, error: 'Commitment service not available' };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.DEEP_CONTEXT_GET_COMMITMENT_HISTORY, (_event, commitmentId: number) => {
+    try {
+      // SEC-006: Validate commitmentId is a positive integer
+      if (typeof commitmentId !== 'number' || !Number.isInteger(commitmentId) || commitmentId < 1) {
+        return { success: false, error: 'commitmentId must be a positive integer' };
+      }
+      const commitments = getCommitmentService();
+      return { success: true, data: commitments ? commitments.getHistory(commitmentId) : [] };
     } catch (error) {
       return { success: false, error: String(error) };
     }
@@ -744,6 +820,466 @@ export function setupIpcHandlers(
     }
   });
 
+  // ============================================================================
+  // Transport Dead Letters
+  // ============================================================================
+
+  ipcMain.handle(IPC_CHANNELS.TRANSPORT_GET_DEAD_LETTERS, (_event, limit?: number) => {
+    try {
+      // SEC-006: Validate limit is a positive integer (capped at 1000)
+      const validLimit = (typeof limit === 'number' && Number.isInteger(limit) && limit > 0)
+        ? Math.min(limit, 1000) : 100;
+      const transport = getTransport();
+      if (transport) {
+        return { success: true, data: transport.getDeadLetters(validLimit) };
+      }
+      return { success: true, data: [] };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TRANSPORT_REQUEUE_DEAD_LETTER, (_event, id: string, editedEvent?: object) => {
+    try {
+      // SEC-006: Validate id is a non-empty string and the edited event is a plain object
+      if (typeof id !== 'string' || id.length === 0 || id.length > 100) {
+        return { success: false, error: 'id must be a non-empty string' };
+      }
+      if (editedEvent !== undefined && (typeof editedEvent !== 'object' || editedEvent === null || Array.isArray(editedEvent))) {
+        return { success: false, error: 'editedEvent must be an object' };
+      }
+      const transport = getTransport();
+      if (!transport) {
+        return { success: false, error: 'Transport not available' };
+      }
+      if (!transport.requeueDeadLetter(id, editedEvent)) {
+        return { success: false, error: 'Dead letter not found' };
+      }
+      transport.flushSoon();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.TRANSPORT_PURGE_DEAD_LETTERS, (_event, ids?: string[]) => {
+    try {
+      // SEC-006: Validate ids is an array of strings when provided
+      if (ids !== undefined && (!Array.isArray(ids) || !ids.every(id => typeof id === 'string'))) {
+        return { success: false, error: 'ids must be an array of strings' };
+      }
+      const transport = getTransport();
+      if (!transport) {
+        return { success: false, error: 'Transport not available' };
+      }
+      return { success: true, data: { purged: transport.purgeDeadLetters(ids) } };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  // ============================================================================
+  // Device Pairing
+  // ============================================================================
+
+  ipcMain.handle(IPC_CHANNELS.PAIRING_GET_STATE, () => {
+    try {
+      const pairing = getDevicePairing();
+      if (!pairing) {
+        return { success: false, error: 'Pairing not available' };
+      }
+      return { success: true, data: pairing.getState() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PAIRING_START, async () => {
+    try {
+      const pairing = getDevicePairing();
+      if (!pairing) {
+        return { success: false, error: 'Pairing not available' };
+      }
+      return { success: true, data: await pairing.start() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PAIRING_CANCEL, () => {
+    try {
+      const pairing = getDevicePairing();
+      if (!pairing) {
+        return { success: false, error: 'Pairing not available' };
+      }
+      pairing.cancel();
+      return { success: true, data: pairing.getState() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PAIRING_ROTATE_KEY, async () => {
+    try {
+      const pairing = getDevicePairing();
+      if (!pairing) {
+        return { success: false, error: 'Pairing not available' };
+      }
+      return { success: true, data: await pairing.rotateKey() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PAIRING_UNPAIR, async () => {
+    try {
+      const pairing = getDevicePairing();
+      if (!pairing) {
+        return { success: false, error: 'Pairing not available' };
+      }
+      await pairing.unpair();
+      return { success: true, data: pairing.getState() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  // ============================================================================
+  // Local Profiles
+  // ============================================================================
+
+  ipcMain.handle(IPC_CHANNELS.PROFILES_GET, () => {
+    try {
+      const profiles = getProfileService();
+      if (!profiles) {
+        return { success: false, error: 'Profiles not available' };
+      }
+      return { success: true, data: profiles.getConfig() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PROFILES_CREATE, (_event, name: string) => {
+    try {
+      // SEC-006: Validate profile name
+      if (typeof name !== 'string' || name.trim().length === 0 || name.length > 64) {
+        return { success: false, error: 'name must be a non-empty string of at most 64 characters' };
+      }
+      const profiles = getProfileService();
+      if (!profiles) {
+        return { success: false, error: 'Profiles not available' };
+      }
+      return { success: true, data: profiles.create(name) };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PROFILES_DELETE, (_event, id: string) => {
+    try {
+      // SEC-006: Validate profile id
+      if (typeof id !== 'string' || id.length === 0) {
+        return { success: false, error: 'id must be a non-empty string' };
+      }
+      const profiles = getProfileService();
+      if (!profiles) {
+        return { success: false, error: 'Profiles not available' };
+      }
+      profiles.delete(id);
+      return { success: true, data: profiles.getConfig() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PROFILES_SWITCH, async (_event, id: string) => {
+    try {
+      // SEC-006: Validate profile id
+      if (typeof id !== 'string' || id.length === 0) {
+        return { success: false, error: 'id must be a non-empty string' };
+      }
+      const profiles = getProfileService();
+      if (!profiles) {
+        return { success: false, error: 'Profiles not available' };
+      }
+      return { success: true, data: await profiles.switchTo(id, 'manual') };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PROFILES_UPDATE_RULES, (_event, updates: { rules?: ProfileRule[]; autoSwitch?: boolean }) => {
+    try {
+      // SEC-006: Validate shape; rule contents are checked by the profile service
+      if (!updates || typeof updates !== 'object') {
+        return { success: false, error: 'updates must be an object' };
+      }
+      if (updates.rules !== undefined && (!Array.isArray(updates.rules) || !updates.rules.every(r => r && typeof r === 'object'))) {
+        return { success: false, error: 'rules must be an array of objects' };
+      }
+      if (updates.autoSwitch !== undefined && typeof updates.autoSwitch !== 'boolean') {
+        return { success: false, error: 'autoSwitch must be a boolean' };
+      }
+      const profiles = getProfileService();
+      if (!profiles) {
+        return { success: false, error: 'Profiles not available' };
+      }
+      return { success: true, data: profiles.updateRules(updates) };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  // ============================================================================
+  // Snooze
+  // ============================================================================
+
+  ipcMain.handle(IPC_CHANNELS.SNOOZE_GET, () => {
+    try {
+      return { success: true, data: getSnoozeService()?.getState() ?? null };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SNOOZE_START, async (_event, request: SnoozeRequest) => {
+    try {
+      // SEC-006: Validate snooze request; the duration range is checked by the snooze service
+      if (!request || typeof request !== 'object') {
+        return { success: false, error: 'request must be an object' };
+      }
+      if (!['duration', 'until_tomorrow', 'until_app_blur'].includes(request.kind)) {
+        return { success: false, error: 'kind must be duration, until_tomorrow or until_app_blur' };
+      }
+      if (request.kind === 'duration' && typeof request.minutes !== 'number') {
+        return { success: false, error: 'minutes must be a number' };
+      }
+      if (request.kind === 'until_app_blur' && request.app !== undefined && typeof request.app !== 'string') {
+        return { success: false, error: 'app must be a string' };
+      }
+      const snooze = getSnoozeService();
+      if (!snooze) {
+        return { success: false, error: 'Snooze not available' };
+      }
+      return { success: true, data: await snooze.snooze(request) };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SNOOZE_RESUME, () => {
+    try {
+      const snooze = getSnoozeService();
+      if (!snooze) {
+        return { success: false, error: 'Snooze not available' };
+      }
+      snooze.resume();
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  // ============================================================================
+  // Database Encryption
+  // ============================================================================
+
+  ipcMain.handle(IPC_CHANNELS.DATABASE_ENCRYPTION_STATUS, () => {
+    try {
+      return { success: true, data: getEncryptionStatus() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.DATABASE_UNLOCK, async (_event, passphrase: string) => {
+    try {
+      // SEC-006: Validate passphrase
+      if (typeof passphrase !== 'string' || passphrase.length === 0) {
+        return { success: false, error: 'passphrase must be a non-empty string' };
+      }
+      if (!(await unlockWithPassphrase(passphrase))) {
+        return { success: false, error: 'Wrong passphrase' };
+      }
+      return { success: true, data: getEncryptionStatus() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.DATABASE_SET_PASSPHRASE, async (_event, passphrase: string | null) => {
+    try {
+      // SEC-006: Validate passphrase (null switches back to a keychain-only key)
+      if (passphrase !== null && (typeof passphrase !== 'string' || passphrase.length < 8)) {
+        return { success: false, error: 'passphrase must be at least 8 characters or null' };
+      }
+      await changePassphrase(passphrase);
+      return { success: true, data: getEncryptionStatus() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  // ============================================================================
+  // Pseudonym Vault
+  // ============================================================================
+
+  ipcMain.handle(IPC_CHANNELS.PSEUDONYMS_PSEUDONYMIZE, (_event, text: string) => {
+    try {
+      // SEC-006: Validate text
+      if (typeof text !== 'string') {
+        return { success: false, error: 'text must be a string' };
+      }
+      return { success: true, data: pseudonymizeText(text) };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.PSEUDONYMS_RESOLVE, (_event, text: string) => {
+    try {
+      // SEC-006: Validate text
+      if (typeof text !== 'string') {
+        return { success: false, error: 'text must be a string' };
+      }
+      return { success: true, data: resolvePseudonyms(text) };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  // ============================================================================
+  // Outbound Audit
+  // ============================================================================
+
+  ipcMain.handle(IPC_CHANNELS.AUDIT_GET_ENTRIES, (_event, query?: { limit?: number; beforeId?: number; privacyLevel?: string }) => {
+    try {
+      // SEC-006: Validate query
+      const q = query ?? {};
+      if (typeof q !== 'object') {
+        return { success: false, error: 'query must be an object' };
+      }
+      if (q.limit !== undefined && (!Number.isInteger(q.limit) || q.limit < 1 || q.limit > 1000)) {
+        return { success: false, error: 'limit must be an integer between 1 and 1000' };
+      }
+      if (q.beforeId !== undefined && !Number.isInteger(q.beforeId)) {
+        return { success: false, error: 'beforeId must be an integer' };
+      }
+      if (q.privacyLevel !== undefined && typeof q.privacyLevel !== 'string') {
+        return { success: false, error: 'privacyLevel must be a string' };
+      }
+      return { success: true, data: getOutboundAudit({ limit: q.limit, beforeId: q.beforeId, privacyLevel: q.privacyLevel }) };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.AUDIT_GET_SUMMARY, () => {
+    try {
+      return { success: true, data: getOutboundAuditSummary() };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.AUDIT_EXPORT, async (_event, format: 'json' | 'csv') => {
+    try {
+      // SEC-006: Validate format
+      if (format !== 'json' && format !== 'csv') {
+        return { success: false, error: 'format must be "json" or "csv"' };
+      }
+      const date = new Date().toISOString().split('T')[0];
+      const { canceled, filePath } = await dialog.showSaveDialog({
+        title: 'Export Upload Log',
+        defaultPath: path.join(app.getPath('downloads'), `sync-outbound-audit-${date}.${format}`),
+        filters: [{ name: format.toUpperCase(), extensions: [format] }],
+      });
+      if (canceled || !filePath) {
+        return { success: true, data: null };
+      }
+      fs.writeFileSync(filePath, exportOutboundAudit(format), 'utf8');
+      return { success: true, data: filePath };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  // ============================================================================
+  // Privacy Debugger
+  // ============================================================================
+
+  ipcMain.handle(IPC_CHANNELS.PRIVACY_PREVIEW_CAPTURE, async (_event, capture?: CapturePreviewInput) => {
+    try {
+      // SEC-006: Validate capture
+      if (capture !== undefined && capture !== null) {
+        if (typeof capture !== 'object') {
+          return { success: false, error: 'capture must be an object' };
+        }
+        if (typeof capture.appName !== 'string' || capture.appName.length === 0 || typeof capture.windowTitle !== 'string') {
+          return { success: false, error: 'capture needs appName and windowTitle strings' };
+        }
+        for (const key of ['bundleId', 'url', 'filePath', 'visibleText', 'focusedElementText'] as const) {
+          if (capture[key] !== undefined && typeof capture[key] !== 'string') {
+            return { success: false, error: `${key} must be a string` };
+          }
+        }
+        if ((capture.visibleText?.length ?? 0) + (capture.focusedElementText?.length ?? 0) > 100000) {
+          return { success: false, error: 'capture text is too long' };
+        }
+        if (capture.timestamp !== undefined && !Number.isFinite(capture.timestamp)) {
+          return { success: false, error: 'timestamp must be a number' };
+        }
+      }
+
+      const deepEngine = getDeepContextEngine();
+      if (!deepEngine) {
+        return { success: false, error: 'Deep context engine not available' };
+      }
+      return { success: true, data: await deepEngine.previewCapture(capture ?? undefined) };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  });
+
+  // ============================================================================
+  // Erasure
+  // ============================================================================
+
+  const runErasure = async (selector: ErasureSelector, dryRun: boolean) => {
+    try {
+      // SEC-006: Validate selector
+      if (!selector || typeof selector !== 'object') {
+        return { success: false, error: 'selector must be an object' };
+      }
+      if (selector.kind === 'entity' || selector.kind === 'app') {
+        const value = selector.kind === 'entity' ? selector.name : selector.appName;
+        if (typeof value !== 'string' || value.trim().length === 0 || value.length > 500) {
+          return { success: false, error: `${selector.kind === 'entity' ? 'name' : 'appName'} must be a non-empty string` };
+        }
+      } else if (selector.kind === 'time_range') {
+        if (!Number.isSafeInteger(selector.start) || !Number.isSafeInteger(selector.end) || selector.start >= selector.end) {
+          return { success: false, error: 'start and end must be timestamps with start before end' };
+        }
+      } else {
+        return { success: false, error: 'kind must be "entity", "app" or "time_range"' };
+      }
+
+      const data = await eraseData(selector, {
+        dryRun,
+        transport: getTransport(),
+        cloudSync: getCloudSyncService(),
+      });
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: String(error) };
+    }
+  };
+
+  ipcMain.handle(IPC_CHANNELS.ERASURE_PREVIEW, (_event, selector: ErasureSelector) => runErasure(selector, true));
+
+  ipcMain.handle(IPC_CHANNELS.ERASURE_RUN, (_event, selector: ErasureSelector) => runErasure(selector, false));
+
   // ============================================================================
   // Health Check (INF-009)
   // ============================================================================
@@ -761,3 +1297,13 @@ export function setupIpcHandlers(
 
   console.log('[ipc] Handlers registered');
 }
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
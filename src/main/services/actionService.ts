@@ -10,6 +10,7 @@
  * - POSTs to analyze-action / execute-action edge functions
  * - Subscribes to Supabase Realtime for pending_actions updates
  * - Handles deduplication, acknowledgment, and fallback polling
+ * - Holds pills back while suppressed (e.g. during screen sharing)
  * - Cleans up expired actions
  */
 
@@ -66,6 +67,7 @@ interface LocalAction {
 
 interface ActionServiceStatus {
   running: boolean;
+  suppressed: boolean;
   localActionCount: number;
   pendingSyncCount: number;
   realtimeConnected: boolean;
@@ -115,6 +117,9 @@ export class ActionService {
   private actionQueue: QueuedAction[] = [];
   private queueDrainTimer: ReturnType<typeof setInterval> | null = null;
 
+  // While suppressed, new pills are queued and pill updates are dropped
+  private suppressed: boolean = false;
+
   // ============================================================================
   // Lifecycle
   // ============================================================================
@@ -180,7 +185,13 @@ export class ActionService {
   getStatus(): ActionServiceStatus {
     const db = this.getDb();
     if (!db) {
-      return { running: this.running, localActionCount: 0, pendingSyncCount: 0, realtimeConnected: this.realtimeConnected };
+      return {
+        running: this.running,
+        suppressed: this.suppressed,
+        localActionCount: 0,
+        pendingSyncCount: 0,
+        realtimeConnected: this.realtimeConnected,
+      };
     }
 
     const totalRow = db.prepare('SELECT COUNT(*) as count FROM local_actions').get() as { count: number } | undefined;
@@ -188,19 +199,43 @@ export class ActionService {
 
     return {
       running: this.running,
+      suppressed: this.suppressed,
       localActionCount: totalRow?.count ?? 0,
       pendingSyncCount: unsyncedRow?.count ?? 0,
       realtimeConnected: this.realtimeConnected,
     };
   }
 
+  // ============================================================================
+  // Suppression
+  // ============================================================================
+
+  /**
+   * Hold pills back, e.g. while the screen is shared. Actions that arrive in
+   * the meantime are queued and shown through the normal frequency cap once
+   * suppression ends.
+   */
+  setSuppressed(suppressed: boolean): void {
+    if (this.suppressed === suppressed) return;
+    this.suppressed = suppressed;
+    console.log(`[action-service] Pills ${suppressed ? 'suppressed' : 'resumed'}`);
+    if (!suppressed && this.actionQueue.length > 0) {
+      this.ensureQueueDrain();
+    }
+  }
+
+  isSuppressed(): boolean {
+    return this.suppressed;
+  }
+
   // ============================================================================
   // Frequency Capping
   // ============================================================================
 
   /**
    * Determines whether a new action should be shown immediately.
-   * Returns false if rate limits are exceeded (action gets queued instead).
+   * Returns false if rate limits are exceeded or pills are suppressed
+   * (action gets queued instead).
    */
   private shouldShowAction(shouldNotify: boolean): boolean {
     // If cloud says don't notify, skip entirely
@@ -208,6 +243,11 @@ export class ActionService {
       return false;
     }
 
+    if (this.suppressed) {
+      console.log('[action-service] Pills suppressed, queueing action');
+      return false;
+    }
+
     const now = Date.now();
 
     // Prune timestamps older than 1 hour
@@ -833,7 +873,7 @@ export class ActionService {
       this.clearAckTimer(actionId);
 
       // Update notch if cloud enriched the title
-      if (cloudTitle !== localAction.local_title && this.notchBridge) {
+      if (cloudTitle !== localAction.local_title && this.notchBridge && !this.suppressed) {
         this.notchBridge.sendAction({
           id: actionId,
           title: cloudTitle,
@@ -923,7 +963,7 @@ export class ActionService {
 
       case 'pending':
         // Cloud may have enriched the action — update notch
-        if (title) {
+        if (title && !this.suppressed) {
           const db = this.getDb();
           const localAction = db?.prepare('SELECT action_type FROM local_actions WHERE action_id = ?').get(actionId) as { action_type: string } | undefined;
           if (localAction) {
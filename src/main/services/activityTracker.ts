@@ -11,20 +11,6 @@
  * - Event emission for UI updates
  */
 
-// get-windows is ESM-only — use dynamic import to load it from CJS context
-// eslint-disable-next-line @typescript-eslint/no-implied-eval
-const importESM = new Function('modulePath', 'return import(modulePath)') as (m: string) => Promise<any>;
-
-let _activeWindow: ((options?: any) => Promise<any>) | null = null;
-
-async function loadActiveWindow(): Promise<(options?: any) => Promise<any>> {
-  if (!_activeWindow) {
-    const mod = await importESM('get-windows');
-    _activeWindow = mod.activeWindow;
-  }
-  return _activeWindow!;
-}
-
 // Local type matching get-windows Result shape
 interface ActiveWinResult {
   title: string;
@@ -47,6 +33,12 @@ import {
   getRecentActivity,
   getActivityByDateRange,
 } from '../db/queries';
+import { loadGetWindows } from './getWindowsLoader';
+
+async function loadActiveWindow(): Promise<(options?: any) => Promise<any>> {
+  const { activeWindow } = await loadGetWindows();
+  return activeWindow;
+}
 
 // ============================================================================
 // Types
@@ -3,6 +3,8 @@
  *
  * Syncs local activity data to Supabase cloud.
  * Handles authentication and offline-first sync.
+ * People, organizations and emails are replaced with vault tokens
+ * (see pseudonymVault.ts) before anything is uploaded.
  */
 
 import { SummaryService } from './summaryService';
@@ -15,12 +17,18 @@ import {
   getUnsyncedThreads, markThreadsSynced,
   getUnsyncedIntents, markIntentsSynced,
   getUnsyncedSignatures, markSignaturesSynced,
+  quarantineSyncRow, getSyncQuarantineCounts, SyncTable,
 } from '../db/queries';
 import { getAccessToken, getUser, setUser } from '../store';
 import { getDatabase } from '../db/database';
+import { decryptField, decryptJson } from '../db/fieldEncryption';
+import { importEntityPseudonyms, pseudonymizeEntityName, pseudonymizeJson, pseudonymizeText } from './pseudonymVault';
+import { collectPrivacyLevels, recordOutbound } from './outboundAudit';
 import { refreshAccessToken } from './authUtils';
 import { DeepContextEngine } from '../../deep-context';
 import type { ContextEvent } from '../../deep-context/types';
+import { UploadPolicy, UploadDecision } from '../../transport/uploadPolicy';
+import { validatePayload } from '../../transport/eventSchema';
 
 // ============================================================================
 // Constants (imported from shared — single source of truth)
@@ -52,6 +60,9 @@ async function fetchWithTimeout(
   }
 }
 
+// Values per `in.(...)` filter in erasure deletes, to keep URLs short
+const ERASURE_CHUNK_SIZE = 100;
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -59,6 +70,8 @@ async function fetchWithTimeout(
 export interface SyncResult {
   success: boolean;
   error?: string;
+  /** Set when the upload policy deferred this sync */
+  deferred?: UploadDecision;
   syncedItems: {
     activities: number;
     summaries: number;
@@ -77,6 +90,27 @@ interface SupabaseResponse<T = any> {
   error?: { message: string };
 }
 
+/**
+ * Cloud rows to delete for an erasure request. Context events carry no local
+ * id in the cloud, so they are matched by app, time range or exact timestamp.
+ */
+export interface CloudErasure {
+  appNames: string[];
+  range: { start: number; end: number } | null;
+  eventTimestamps: number[];
+  hourStarts: number[];
+  entityIds: string[];
+  activityIds: string[];
+  threadIds: string[];
+  intentIds: string[];
+}
+
+/** Local rows behind an upload, for the outbound audit ledger */
+interface AuditSource {
+  table: string;
+  rowIds: (string | number)[];
+}
+
 // ============================================================================
 // Cloud Sync Service Class
 // ============================================================================
@@ -88,15 +122,22 @@ export class CloudSyncService {
   private isSyncing: boolean = false;
   private lastSyncTime: Date | null = null;
   private syncErrors: string[] = [];
+  private uploadPolicy: UploadPolicy | null;
+  // Whether this sync checks each request against the upload policy (off for forced syncs)
+  private enforceUploadPolicy: boolean = false;
+  // Set once the policy defers a request; the rest of the sync is skipped
+  private uploadDeferral: UploadDecision | null = null;
 
   constructor(
     summaryService: SummaryService,
     journalService: JournalService,
-    deepContextEngine?: DeepContextEngine
+    deepContextEngine?: DeepContextEngine,
+    uploadPolicy?: UploadPolicy
   ) {
     this.summaryService = summaryService;
     this.journalService = journalService;
     this.deepContextEngine = deepContextEngine || null;
+    this.uploadPolicy = uploadPolicy || null;
   }
 
   // ============================================================================
@@ -122,7 +163,8 @@ export class CloudSyncService {
     method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
     body?: any,
     isRetry: boolean = false,
-    upsert: boolean = false
+    upsert: boolean = false,
+    audit?: AuditSource
   ): Promise<SupabaseResponse<T>> {
     const accessToken = getAccessToken();
 
@@ -130,7 +172,37 @@ export class CloudSyncService {
       return { error: { message: 'Not authenticated' } };
     }
 
+    const requestBody = body ? JSON.stringify(body) : undefined;
+    const url = `${SUPABASE_URL}/rest/v1/${endpoint}`;
+    const recordAudit = (status: number | null) => {
+      if (!requestBody) return;
+      recordOutbound({
+        channel: 'cloud_sync',
+        destination: url.split('?')[0],
+        tableName: audit?.table ?? endpoint.split('?')[0],
+        rowIds: audit?.rowIds ?? [],
+        body: requestBody,
+        privacyLevels: collectPrivacyLevels(body),
+        status,
+      });
+    };
+
     try {
+      if (requestBody) {
+        const bytes = Buffer.byteLength(requestBody, 'utf8');
+        if (!this.uploadDeferral && this.enforceUploadPolicy && this.uploadPolicy) {
+          const decision = this.uploadPolicy.shouldUpload(bytes);
+          if (!decision.allowed) {
+            console.log(`[sync] Deferred by upload policy: ${decision.detail}`);
+            this.uploadDeferral = decision;
+          }
+        }
+        if (this.uploadDeferral) {
+          return { error: { message: `Upload deferred: ${this.uploadDeferral.detail}` } };
+        }
+        this.uploadPolicy?.recordUpload(bytes);
+      }
+
       // Build Prefer header: upsert needs resolution=merge-duplicates
       let prefer = 'return=representation';
       if (method === 'POST') {
@@ -139,16 +211,23 @@ export class CloudSyncService {
           : 'return=minimal';
       }
 
-      const response = await fetchWithTimeout(`${SUPABASE_URL}/rest/v1/${endpoint}`, {
-        method,
-        headers: {
-          'apikey': SUPABASE_ANON_KEY,
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-          'Prefer': prefer,
-        },
-        body: body ? JSON.stringify(body) : undefined,
-      });
+      let response: Response;
+      try {
+        response = await fetchWithTimeout(url, {
+          method,
+          headers: {
+            'apikey': SUPABASE_ANON_KEY,
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+            'Prefer': prefer,
+          },
+          body: requestBody,
+        });
+      } catch (error) {
+        recordAudit(null);
+        throw error;
+      }
+      recordAudit(response.status);
 
       // Handle expired token — attempt refresh and retry once
       if ((response.status === 401 || response.status === 403) && !isRetry) {
@@ -156,7 +235,7 @@ export class CloudSyncService {
         const newToken = await refreshAccessToken();
         if (newToken) {
           console.log('[sync] Token refreshed, retrying request');
-          return this.supabaseRequest<T>(endpoint, method, body, true, upsert);
+          return this.supabaseRequest<T>(endpoint, method, body, true, upsert, audit);
         } else {
           console.error('[sync] Token refresh failed, cannot retry');
           return { error: { message: 'Authentication expired and refresh failed' } };
@@ -193,8 +272,13 @@ export class CloudSyncService {
 
   /**
    * Main sync method - syncs all unsynced data to cloud
+   *
+   * Scheduled syncs go through the upload policy (battery, metered network,
+   * hourly byte cap, coalescing); pass `force` for user-initiated syncs.
+   * Each request is checked before it is sent, and the first one the policy
+   * defers ends the sync; the rows it carried stay unsynced.
    */
-  async sync(): Promise<SyncResult> {
+  async sync(opts: { force?: boolean } = {}): Promise<SyncResult> {
     if (this.isSyncing) {
       return {
         success: false,
@@ -211,8 +295,23 @@ export class CloudSyncService {
       };
     }
 
+    if (this.uploadPolicy && !opts.force) {
+      const decision = this.uploadPolicy.shouldFlush();
+      if (!decision.allowed) {
+        console.log(`[sync] Deferred by upload policy: ${decision.detail}`);
+        return {
+          success: false,
+          error: `Upload deferred: ${decision.detail}`,
+          deferred: decision,
+          syncedItems: { activities: 0, summaries: 0, journals: 0, contextEvents: 0, semanticEntities: 0, semanticActivities: 0, semanticThreads: 0, semanticIntents: 0, behavioralSignatures: 0 },
+        };
+      }
+    }
+
     this.isSyncing = true;
     this.syncErrors = [];
+    this.enforceUploadPolicy = !opts.force;
+    this.uploadDeferral = null;
 
     const result: SyncResult = {
       success: true,
@@ -222,6 +321,9 @@ export class CloudSyncService {
     try {
       console.log('[sync] Starting cloud sync');
 
+      // Give every known person/organization a token before anything is uploaded
+      importEntityPseudonyms();
+
       // Sync hourly summaries
       const summaryCount = await this.syncHourlySummaries();
       result.syncedItems.summaries = summaryCount;
@@ -260,6 +362,13 @@ export class CloudSyncService {
         }
       }
 
+      // Set by supabaseRequest during the awaits above
+      const deferral = this.uploadDeferral as UploadDecision | null;
+      if (deferral) {
+        this.syncErrors.unshift(`Upload deferred: ${deferral.detail}`);
+        result.deferred = deferral;
+      }
+
       if (this.syncErrors.length > 0) {
         console.error('[sync] Sync errors:', this.syncErrors);
         result.success = false;
@@ -271,6 +380,8 @@ export class CloudSyncService {
       result.error = (error as Error).message;
     } finally {
       this.isSyncing = false;
+      this.enforceUploadPolicy = false;
+      this.uploadDeferral = null;
     }
 
     return result;
@@ -319,21 +430,27 @@ export class CloudSyncService {
           app_breakdown: summary.appBreakdown,
           total_minutes: summary.totalMinutes,
           focus_score: summary.focusScore,
-          ocr_text: summary.ocrText || null,
+          ocr_text: pseudonymizeText(summary.ocrText) || null,
           semantic_category: summary.semanticCategory || null,
-          commitments: summary.commitments || null,
+          commitments: pseudonymizeJson(summary.commitments) || null,
         };
 
+        if (!this.checkRow('hourly_summaries', summary.id, 'hourly_summary', `Summary ${summary.id}`, cloudData)) {
+          continue;
+        }
+
         // Use upsert to handle duplicate hours (unique_user_hour constraint)
         const { error } = await this.supabaseRequest(
           'desktop_activity_logs?on_conflict=user_id,hour_start',
           'POST',
           cloudData,
           false,
-          true
+          true,
+          { table: 'hourly_summaries', rowIds: [summary.id] }
         );
 
         if (error) {
+          if (this.uploadDeferral) break;
           this.syncErrors.push(`Summary ${summary.id}: ${error.message}`);
           continue;
         }
@@ -381,21 +498,27 @@ export class CloudSyncService {
           user_id: currentUser.id,
           company_id: currentUser.companyId,
           journal_date: new Date(journal.journalDate).toISOString().split('T')[0],
-          overview: journal.overview,
-          highlights: journal.highlights,
-          focus_areas: journal.focusAreas,
+          overview: pseudonymizeText(journal.overview),
+          highlights: pseudonymizeJson(journal.highlights),
+          focus_areas: pseudonymizeJson(journal.focusAreas),
         };
 
+        if (!this.checkRow('daily_journals', journal.id, 'daily_journal', `Journal ${journal.id}`, cloudData)) {
+          continue;
+        }
+
         // Use upsert to handle duplicate dates
         const { error } = await this.supabaseRequest(
           'daily_journals?on_conflict=user_id,journal_date',
           'POST',
           cloudData,
           false,
-          true
+          true,
+          { table: 'daily_journals', rowIds: [journal.id] }
         );
 
         if (error) {
+          if (this.uploadDeferral) break;
           this.syncErrors.push(`Journal ${journal.id}: ${error.message}`);
           continue;
         }
@@ -429,40 +552,36 @@ export class CloudSyncService {
     // Batch upload (chunks of 10)
     for (let i = 0; i < unsyncedEvents.length; i += 10) {
       const batch = unsyncedEvents.slice(i, i + 10);
-      const cloudData = batch.map((event) => ({
+      const rows = batch.map((event) => ({
         user_id: user.id,
         company_id: user.companyId,
         event_type: event.eventType,
         source_application: event.source.application,
-        source_window_title: event.source.windowTitle?.substring(0, 200),
-        summary: event.semanticPayload.summary,
-        entities: event.semanticPayload.entities,
+        source_window_title: pseudonymizeText(event.source.windowTitle)?.substring(0, 200),
+        summary: pseudonymizeText(event.semanticPayload.summary),
+        entities: pseudonymizeJson(event.semanticPayload.entities),
         intent: event.semanticPayload.intent || null,
-        commitments: event.semanticPayload.commitments || [],
+        commitments: pseudonymizeJson(event.semanticPayload.commitments || []),
         skill_signals: event.semanticPayload.skillSignals || [],
         confidence: event.confidence,
         privacy_level: event.privacyLevel,
         created_at: new Date(event.timestamp).toISOString(),
       }));
+      const valid = rows.map((row, j) => this.checkRow('context_events', batch[j].id!, 'context_event', `Context event ${batch[j].id}`, row));
+      const cloudData = rows.filter((_, j) => valid[j]);
+      const sentIds = batch.filter((_, j) => valid[j]).map((event) => event.id!);
+      if (cloudData.length === 0) continue;
 
-      const { error } = await this.supabaseRequest(
-        'desktop_context_events',
-        'POST',
-        cloudData
-      );
+      const { error } = await this.supabaseRequest('desktop_context_events', 'POST', cloudData, false, false, { table: 'context_events', rowIds: sentIds });
 
       if (error) {
+        if (this.uploadDeferral) break;
         console.error('[sync] Context events batch failed:', error.message);
         this.syncErrors.push(`Context events: ${error.message}`);
       } else {
         // Mark as synced locally
-        const ids = batch
-          .map((event) => event.id)
-          .filter((id): id is number => id !== undefined);
-        if (ids.length > 0) {
-          this.deepContextEngine!.markEventsSynced(ids);
-        }
-        syncedCount += batch.length;
+        this.deepContextEngine!.markEventsSynced(sentIds);
+        syncedCount += cloudData.length;
       }
     }
 
@@ -482,9 +601,9 @@ export class CloudSyncService {
       SELECT id, timestamp, app_name, window_title, text_content, analysis
       FROM screen_captures
       WHERE synced = 0
-      ORDER BY timestamp ASC
+      ORDER BY sync_error IS NOT NULL, timestamp ASC
       LIMIT 50
-    `).all() as any[];
+    `).all().map((row: any) => ({ ...row, window_title: decryptField(row.window_title) })) as any[];
 
     if (rows.length === 0) return 0;
 
@@ -493,9 +612,8 @@ export class CloudSyncService {
 
     for (let i = 0; i < rows.length; i += 10) {
       const batch = rows.slice(i, i + 10);
-      const cloudData = batch.map((row) => {
-        let analysis: any = {};
-        try { analysis = row.analysis ? JSON.parse(row.analysis) : {}; } catch {}
+      const cloudRows = batch.map((row) => {
+        const analysis: any = decryptJson(row.analysis, {});
 
         const commitments = (analysis.commitments || []).map((c: any) => ({
           description: c.text || c.description || '',
@@ -529,31 +647,31 @@ export class CloudSyncService {
           company_id: user.companyId,
           event_type: analysis.appContext?.activity || 'screen_capture',
           source_application: row.app_name,
-          source_window_title: row.window_title?.substring(0, 200) || null,
-          summary: summary.substring(0, 500),
-          entities,
+          source_window_title: pseudonymizeText(row.window_title)?.substring(0, 200) || null,
+          summary: pseudonymizeText(summary).substring(0, 500),
+          entities: pseudonymizeJson(entities),
           intent: analysis.appContext?.activity || null,
-          commitments,
+          commitments: pseudonymizeJson(commitments),
           skill_signals: [],
           confidence: analysis.workSummary ? 0.9 : 0.7,
           privacy_level: 'sync_allowed',
           created_at: new Date(row.timestamp).toISOString(),
         };
       });
+      const valid = cloudRows.map((row, j) => this.checkRow('screen_captures', batch[j].id, 'context_event', `Screen capture ${batch[j].id}`, row));
+      const cloudData = cloudRows.filter((_, j) => valid[j]);
+      const sentIds = batch.filter((_, j) => valid[j]).map((row: any) => row.id);
+      if (cloudData.length === 0) continue;
 
-      const { error } = await this.supabaseRequest(
-        'desktop_context_events',
-        'POST',
-        cloudData
-      );
+      const { error } = await this.supabaseRequest('desktop_context_events', 'POST', cloudData, false, false, { table: 'screen_captures', rowIds: sentIds });
 
       if (error) {
+        if (this.uploadDeferral) break;
         console.error('[sync] Screen captures batch failed:', error.message);
         this.syncErrors.push(`Screen captures: ${error.message}`);
       } else {
-        const ids = batch.map((r: any) => r.id);
-        db.prepare(`UPDATE screen_captures SET synced = 1 WHERE id IN (${ids.map(() => '?').join(',')})`).run(...ids);
-        syncedCount += batch.length;
+        db.prepare(`UPDATE screen_captures SET synced = 1, sync_error = NULL WHERE id IN (${sentIds.map(() => '?').join(',')})`).run(...sentIds);
+        syncedCount += cloudData.length;
       }
     }
 
@@ -577,31 +695,31 @@ export class CloudSyncService {
       user_id: user.id,
       company_id: user.companyId,
       entity_id: e.entityId,
-      name: e.name,
+      name: pseudonymizeEntityName(e.name, e.type),
       type: e.type,
       confidence: e.confidence,
       first_seen: new Date(e.firstSeen).toISOString(),
       last_seen: new Date(e.lastSeen).toISOString(),
       occurrence_count: e.occurrenceCount,
-      metadata: e.metadata,
+      metadata: pseudonymizeJson(e.metadata),
       privacy_level: e.privacyLevel,
       created_at: new Date(e.createdAt).toISOString(),
       updated_at: new Date(e.updatedAt).toISOString(),
-    }));
+    })).filter((row) => this.checkRow('semantic_entities', row.entity_id, 'semantic_entity', `Semantic entity ${row.entity_id}`, row));
 
-    const { error } = await this.supabaseRequest(
-      'semantic_entities?on_conflict=user_id,entity_id',
-      'POST', cloudData, false, true
-    );
+    const { error } = cloudData.length > 0
+      ? await this.supabaseRequest('semantic_entities?on_conflict=user_id,entity_id', 'POST', cloudData, false, true, { table: 'semantic_entities', rowIds: cloudData.map((r) => r.entity_id) })
+      : { error: null };
 
     if (error) {
+      if (this.uploadDeferral) return 0;
       console.error('[sync] Semantic entities sync failed:', error.message);
       this.syncErrors.push(`Semantic entities: ${error.message}`);
       return 0;
     }
 
-    markEntitiesSynced(unsynced.map(e => e.entityId));
-    return unsynced.length;
+    markEntitiesSynced(cloudData.map((r) => r.entity_id));
+    return cloudData.length;
   }
 
   private async syncSemanticActivities(): Promise<number> {
@@ -623,24 +741,24 @@ export class CloudSyncService {
       confidence: a.confidence,
       classification_method: a.classificationMethod,
       duration_ms: a.durationMs,
-      metadata: a.metadata,
+      metadata: pseudonymizeJson(a.metadata),
       privacy_level: a.privacyLevel,
       created_at: new Date(a.createdAt).toISOString(),
-    }));
+    })).filter((row) => this.checkRow('semantic_activities', row.activity_id, 'semantic_activity', `Semantic activity ${row.activity_id}`, row));
 
-    const { error } = await this.supabaseRequest(
-      'semantic_activities?on_conflict=user_id,activity_id',
-      'POST', cloudData, false, true
-    );
+    const { error } = cloudData.length > 0
+      ? await this.supabaseRequest('semantic_activities?on_conflict=user_id,activity_id', 'POST', cloudData, false, true, { table: 'semantic_activities', rowIds: cloudData.map((r) => r.activity_id) })
+      : { error: null };
 
     if (error) {
+      if (this.uploadDeferral) return 0;
       console.error('[sync] Semantic activities sync failed:', error.message);
       this.syncErrors.push(`Semantic activities: ${error.message}`);
       return 0;
     }
 
-    markActivitiesSynced(unsynced.map(a => a.activityId));
-    return unsynced.length;
+    markActivitiesSynced(cloudData.map((r) => r.activity_id));
+    return cloudData.length;
   }
 
   private async syncSemanticThreads(): Promise<number> {
@@ -656,32 +774,32 @@ export class CloudSyncService {
       user_id: user.id,
       company_id: user.companyId,
       thread_id: t.threadId,
-      title: t.title,
+      title: pseudonymizeText(t.title),
       status: t.status,
       started_at: new Date(t.startedAt).toISOString(),
       last_activity_at: new Date(t.lastActivityAt).toISOString(),
       event_count: t.eventCount,
-      primary_entities: t.primaryEntities,
+      primary_entities: pseudonymizeJson(t.primaryEntities),
       primary_activity_type: t.primaryActivityType,
-      metadata: t.metadata,
+      metadata: pseudonymizeJson(t.metadata),
       privacy_level: t.privacyLevel,
       created_at: new Date(t.createdAt).toISOString(),
       updated_at: new Date(t.updatedAt).toISOString(),
-    }));
+    })).filter((row) => this.checkRow('semantic_threads', row.thread_id, 'semantic_thread', `Semantic thread ${row.thread_id}`, row));
 
-    const { error } = await this.supabaseRequest(
-      'semantic_threads?on_conflict=user_id,thread_id',
-      'POST', cloudData, false, true
-    );
+    const { error } = cloudData.length > 0
+      ? await this.supabaseRequest('semantic_threads?on_conflict=user_id,thread_id', 'POST', cloudData, false, true, { table: 'semantic_threads', rowIds: cloudData.map((r) => r.thread_id) })
+      : { error: null };
 
     if (error) {
+      if (this.uploadDeferral) return 0;
       console.error('[sync] Semantic threads sync failed:', error.message);
       this.syncErrors.push(`Semantic threads: ${error.message}`);
       return 0;
     }
 
-    markThreadsSynced(unsynced.map(t => t.threadId));
-    return unsynced.length;
+    markThreadsSynced(cloudData.map((r) => r.thread_id));
+    return cloudData.length;
   }
 
   private async syncSemanticIntents(): Promise<number> {
@@ -702,27 +820,27 @@ export class CloudSyncService {
       intent_subtype: i.intentSubtype,
       confidence: i.confidence,
       classification_method: i.classificationMethod,
-      evidence: i.evidence,
+      evidence: pseudonymizeJson(i.evidence),
       resolved_at: i.resolvedAt ? new Date(i.resolvedAt).toISOString() : null,
       outcome: i.outcome,
       privacy_level: i.privacyLevel,
       created_at: new Date(i.createdAt).toISOString(),
       updated_at: new Date(i.updatedAt).toISOString(),
-    }));
+    })).filter((row) => this.checkRow('semantic_intents', row.intent_id, 'semantic_intent', `Semantic intent ${row.intent_id}`, row));
 
-    const { error } = await this.supabaseRequest(
-      'semantic_intents?on_conflict=user_id,intent_id',
-      'POST', cloudData, false, true
-    );
+    const { error } = cloudData.length > 0
+      ? await this.supabaseRequest('semantic_intents?on_conflict=user_id,intent_id', 'POST', cloudData, false, true, { table: 'semantic_intents', rowIds: cloudData.map((r) => r.intent_id) })
+      : { error: null };
 
     if (error) {
+      if (this.uploadDeferral) return 0;
       console.error('[sync] Semantic intents sync failed:', error.message);
       this.syncErrors.push(`Semantic intents: ${error.message}`);
       return 0;
     }
 
-    markIntentsSynced(unsynced.map(i => i.intentId));
-    return unsynced.length;
+    markIntentsSynced(cloudData.map((r) => r.intent_id));
+    return cloudData.length;
   }
 
   private async syncBehavioralSignatures(): Promise<number> {
@@ -749,21 +867,43 @@ export class CloudSyncService {
       privacy_level: s.privacyLevel,
       created_at: new Date(s.createdAt).toISOString(),
       updated_at: new Date(s.updatedAt).toISOString(),
-    }));
+    })).filter((row) => this.checkRow('behavioral_signatures', row.signature_id, 'behavioral_signature', `Behavioral signature ${row.signature_id}`, row));
 
-    const { error } = await this.supabaseRequest(
-      'behavioral_signatures?on_conflict=user_id,category,metric_name,window_days',
-      'POST', cloudData, false, true
-    );
+    const { error } = cloudData.length > 0
+      ? await this.supabaseRequest('behavioral_signatures?on_conflict=user_id,category,metric_name,window_days', 'POST', cloudData, false, true, { table: 'behavioral_signatures', rowIds: cloudData.map((r) => r.signature_id) })
+      : { error: null };
 
     if (error) {
+      if (this.uploadDeferral) return 0;
       console.error('[sync] Behavioral signatures sync failed:', error.message);
       this.syncErrors.push(`Behavioral signatures: ${error.message}`);
       return 0;
     }
 
-    markSignaturesSynced(unsynced.map(s => s.signatureId));
-    return unsynced.length;
+    markSignaturesSynced(cloudData.map((r) => r.signature_id));
+    return cloudData.length;
+  }
+
+  /**
+   * Check a mapped row against the event schema for its kind (see eventSchema.ts)
+   *
+   * Malformed rows are left out of the upload and quarantined: they stay
+   * unsynced with the errors in their `sync_error` column, are fetched after
+   * the other rows so they cannot hold them back, and are checked again on
+   * every sync. Only newly quarantined rows are reported in syncErrors; the
+   * rest show up in `getStatus().quarantinedItems`.
+   *
+   * @returns True if the row may be uploaded
+   */
+  private checkRow(table: SyncTable, rowId: string | number, kind: string, label: string, row: object): boolean {
+    const errors = validatePayload(kind, row);
+    if (errors.length === 0) return true;
+    const reason = `malformed ${kind} (${errors.join('; ')})`;
+    if (quarantineSyncRow(table, rowId, reason)) {
+      console.warn(`[sync] Quarantined ${label}: ${reason}`);
+      this.syncErrors.push(`${label}: ${reason}`);
+    }
+    return false;
   }
 
   // ============================================================================
@@ -854,6 +994,9 @@ export class CloudSyncService {
     lastSyncTime: Date | null;
     isAuthenticated: boolean;
     pendingItems: { summaries: number; journals: number };
+    /** Unsynced rows that failed validation, per local table */
+    quarantinedItems: Partial<Record<SyncTable, number>>;
+    uploadDecision: UploadDecision | null;
   } {
     const unsyncedSummaries = this.summaryService.getUnsyncedSummaries();
     const unsyncedJournals = this.journalService.getUnsyncedJournals();
@@ -866,6 +1009,8 @@ export class CloudSyncService {
         summaries: unsyncedSummaries.length,
         journals: unsyncedJournals.length,
       },
+      quarantinedItems: getSyncQuarantineCounts(),
+      uploadDecision: this.uploadPolicy?.getLastDecision() ?? null,
     };
   }
 
@@ -877,10 +1022,10 @@ export class CloudSyncService {
   }
 
   /**
-   * Force immediate sync
+   * Force immediate sync (bypasses the upload policy)
    */
   async forceSync(): Promise<SyncResult> {
-    return this.sync();
+    return this.sync({ force: true });
   }
 
   /**
@@ -918,4 +1063,62 @@ export class CloudSyncService {
       return null;
     }
   }
+
+  // ============================================================================
+  // Erasure
+  // ============================================================================
+
+  /**
+   * Delete the rows behind an erasure request from the cloud
+   *
+   * Every request is attempted; failures are collected instead of stopping
+   * the rest.
+   */
+  async eraseFromCloud(erasure: CloudErasure): Promise<{ requests: number; errors: string[] }> {
+    const user = getUser();
+    if (!user?.id) {
+      return { requests: 0, errors: ['Not authenticated'] };
+    }
+
+    const userFilter = `user_id=eq.${encodeURIComponent(user.id)}`;
+    const iso = (ts: number) => new Date(ts).toISOString();
+    const requests: string[] = [];
+
+    for (const app of erasure.appNames) {
+      requests.push(`desktop_context_events?${userFilter}&source_application=eq.${encodeURIComponent(app)}`);
+    }
+    if (erasure.range) {
+      requests.push(
+        `desktop_context_events?${userFilter}&created_at=gte.${iso(erasure.range.start)}&created_at=lt.${iso(erasure.range.end)}`
+      );
+    }
+
+    const byKey: [string, string, string[]][] = [
+      ['desktop_context_events', 'created_at', erasure.eventTimestamps.map(iso)],
+      ['desktop_activity_logs', 'hour_start', erasure.hourStarts.map(iso)],
+      ['semantic_intents', 'intent_id', erasure.intentIds],
+      ['semantic_threads', 'thread_id', erasure.threadIds],
+      ['semantic_activities', 'activity_id', erasure.activityIds],
+      ['semantic_entities', 'entity_id', erasure.entityIds],
+    ];
+    for (const [table, column, values] of byKey) {
+      for (let i = 0; i < values.length; i += ERASURE_CHUNK_SIZE) {
+        const list = values.slice(i, i + ERASURE_CHUNK_SIZE)
+          .map((v) => `"${encodeURIComponent(v)}"`)
+          .join(',');
+        requests.push(`${table}?${userFilter}&${column}=in.(${list})`);
+      }
+    }
+
+    const errors: string[] = [];
+    for (const endpoint of requests) {
+      const { error } = await this.supabaseRequest(endpoint, 'DELETE');
+      if (error) {
+        errors.push(`${endpoint.split('?')[0]}: ${error.message}`);
+      }
+    }
+
+    console.log(`[sync] Erasure: ${requests.length} delete requests, ${errors.length} failed`);
+    return { requests: requests.length, errors };
+  }
 }
@@ -0,0 +1,659 @@
+/**
+ * Commitment Service
+ *
+ * The one place commitments are stored and moved through their lifecycle,
+ * for both detectors: OCR of screen captures (deepContextManager.ts) and the
+ * accessibility pipeline (deep-context/index.ts).
+ *
+ *   detected ──► pending ──► overdue ──► expired
+ *      │            │  ▲        │
+ *      │            ▼  │        │
+ *      │          snoozed       │
+ *      └──────────────┴─────────┴──► completed / dismissed
+ *
+ * - A new commitment is `detected`; it becomes `pending` when it is seen
+ *   with enough confidence, or seen again by either detector
+ * - Sightings of the same commitment within the dedup window are merged into
+ *   one row instead of adding a new one
+ * - `pending` commitments past their deadline become `overdue` and escalate
+ *   one level per escalation step; `detected` ones that are never confirmed
+ *   expire
+ * - Snoozed commitments come back as `pending` when the snooze ends
+ *
+ * Every change is written to `commitment_transitions` with its timestamp.
+ * Commitment text is encrypted, so dedup compares decrypted text of the
+ * open commitments in the window rather than a stored hash. For the same
+ * reason the accessibility commitments stored in `context_events` before
+ * this table existed are imported here, once the field key is loaded,
+ * rather than in the migration.
+ */
+
+import { EventEmitter } from 'events';
+import { getDatabase } from '../db/database';
+import { encryptField, decryptField, decryptJson, isFieldEncryptionLocked } from '../db/fieldEncryption';
+import { getSyncMetadata, setSyncMetadata } from '../db/queries';
+import type {
+  Commitment,
+  CommitmentSource,
+  CommitmentStatus,
+  CommitmentTransition,
+  CommitmentType,
+} from '../../shared/types';
+import type { DetectedCommitment } from '../../deep-context/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CommitmentServiceOptions {
+  /** How often deadlines, snoozes and escalations are checked (default: 1 min) */
+  checkIntervalMs?: number;
+  /** Sightings this close to the last one are merged (default: 24 h) */
+  dedupWindowMs?: number;
+  /** Word overlap (Dice coefficient) at which two texts are the same commitment (default: 0.8) */
+  similarityThreshold?: number;
+  /** Confidence at which a new commitment skips `detected` (default: 0.7) */
+  confirmConfidence?: number;
+  /** Unconfirmed commitments expire after this long (default: 24 h) */
+  unconfirmedTtlMs?: number;
+  /** Time after the deadline at which each escalation level is reached (default: 0, 1 h, 4 h, 24 h) */
+  escalationStepsMs?: number[];
+  /** Overdue commitments expire this long after their deadline (default: 7 days) */
+  expireOverdueAfterMs?: number;
+}
+
+/** A sighting from one of the detectors */
+export interface CommitmentInput {
+  text: string;
+  type: CommitmentType;
+  source: CommitmentSource;
+  detectedAt: number;
+  confidence: number;
+  recipient?: string;
+  involvedParties?: string[];
+  deadline?: number;
+  sourceCaptureId?: number;
+  contextEventId?: number;
+  context?: Record<string, unknown>;
+}
+
+export interface RecordResult {
+  commitment: Commitment;
+  /** True when the sighting was merged into an existing commitment */
+  duplicate: boolean;
+}
+
+export interface CommitmentQuery {
+  statuses?: CommitmentStatus[];
+  /** Detected at or after */
+  since?: number;
+  /** Detected before */
+  until?: number;
+  limit?: number;
+}
+
+export interface CommitmentTransitionEvent {
+  commitment: Commitment;
+  from: CommitmentStatus | null;
+  to: CommitmentStatus;
+  reason: string;
+}
+
+export interface CommitmentEscalationEvent {
+  commitment: Commitment;
+  level: number;
+}
+
+interface CommitmentRow {
+  id: number;
+  text: string;
+  type: string;
+  source: string;
+  recipient: string | null;
+  involved_parties: string | null;
+  assignee: string | null;
+  deadline: number | null;
+  detected_at: number;
+  last_seen_at: number | null;
+  sightings: number;
+  completed_at: number | null;
+  status: string;
+  snoozed_until: number | null;
+  escalation_level: number;
+  source_capture_id: number | null;
+  context_event_id: number | null;
+  context: string | null;
+  confidence: number;
+  synced: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Allowed moves; `snoozed` → `snoozed` extends a snooze */
+const TRANSITIONS: Record<CommitmentStatus, CommitmentStatus[]> = {
+  detected: ['pending', 'snoozed', 'completed', 'dismissed', 'expired'],
+  pending: ['snoozed', 'overdue', 'completed', 'dismissed'],
+  snoozed: ['snoozed', 'pending', 'overdue', 'completed', 'dismissed'],
+  overdue: ['snoozed', 'completed', 'dismissed', 'expired'],
+  completed: [],
+  dismissed: [],
+  expired: [],
+};
+
+/** Statuses a commitment can still move on from */
+export const OPEN_STATUSES = (Object.keys(TRANSITIONS) as CommitmentStatus[])
+  .filter((status) => TRANSITIONS[status].length > 0);
+
+const COMMITMENT_TYPES: CommitmentType[] = ['send_email', 'create_event', 'send_file', 'follow_up', 'make_call', 'other'];
+
+/** sync_metadata key set once the context event commitments are imported */
+const CONTEXT_EVENTS_IMPORTED_KEY = 'commitments_imported_from_context_events';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_ASSIGNEE_LENGTH = 200;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function canTransition(from: CommitmentStatus, to: CommitmentStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/** Language pack actions are commitment types, apart from 'deadline' */
+export function toCommitmentType(action?: string): CommitmentType {
+  return COMMITMENT_TYPES.find((type) => type === action) ?? 'other';
+}
+
+function words(text: string): Set<string> {
+  const normalized = text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+  return new Set((normalized.match(/[\p{L}\p{N}]+/gu) ?? []).filter((word) => word.length > 1));
+}
+
+/**
+ * Word overlap of two texts, from 0 (nothing shared) to 1 (same words)
+ */
+export function commitmentSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  for (const word of left) {
+    if (right.has(word)) shared++;
+  }
+  return (2 * shared) / (left.size + right.size);
+}
+
+function toCommitment(row: CommitmentRow): Commitment {
+  return {
+    id: row.id,
+    text: decryptField(row.text) ?? '',
+    type: row.type as CommitmentType,
+    source: row.source as CommitmentSource,
+    recipient: decryptField(row.recipient) || undefined,
+    involvedParties: decryptJson<string[] | undefined>(row.involved_parties, undefined),
+    assignee: decryptField(row.assignee) || undefined,
+    deadline: row.deadline ?? undefined,
+    detectedAt: row.detected_at,
+    lastSeenAt: row.last_seen_at ?? undefined,
+    sightings: row.sightings,
+    completedAt: row.completed_at ?? undefined,
+    status: row.status as CommitmentStatus,
+    snoozedUntil: row.snoozed_until ?? undefined,
+    escalationLevel: row.escalation_level,
+    sourceCaptureId: row.source_capture_id ?? undefined,
+    contextEventId: row.context_event_id ?? undefined,
+    context: decryptJson<Record<string, unknown> | undefined>(row.context, undefined),
+    confidence: row.confidence,
+    synced: !!row.synced,
+  };
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+// ============================================================================
+// Commitment Service Class
+// ============================================================================
+
+export class CommitmentService extends EventEmitter {
+  private checkIntervalMs: number;
+  private dedupWindowMs: number;
+  private similarityThreshold: number;
+  private confirmConfidence: number;
+  private unconfirmedTtlMs: number;
+  private escalationStepsMs: number[];
+  private expireOverdueAfterMs: number;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: CommitmentServiceOptions = {}) {
+    super();
+    this.checkIntervalMs = options.checkIntervalMs ?? 60 * 1000;
+    this.dedupWindowMs = options.dedupWindowMs ?? 24 * HOUR_MS;
+    this.similarityThreshold = options.similarityThreshold ?? 0.8;
+    this.confirmConfidence = options.confirmConfidence ?? 0.7;
+    this.unconfirmedTtlMs = options.unconfirmedTtlMs ?? 24 * HOUR_MS;
+    this.escalationStepsMs = [...(options.escalationStepsMs ?? [0, HOUR_MS, 4 * HOUR_MS, 24 * HOUR_MS])].sort((a, b) => a - b);
+    this.expireOverdueAfterMs = options.expireOverdueAfterMs ?? 7 * 24 * HOUR_MS;
+  }
+
+  // ============================================================================
+  // Lifecycle
+  // ============================================================================
+
+  /**
+   * Catch up on deadlines and snoozes that passed while the app was closed,
+   * then keep checking.
+   */
+  start(now: number = Date.now()): void {
+    this.check(now);
+
+    if (this.timer) return;
+    this.timer = setInterval(() => this.check(), this.checkIntervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ============================================================================
+  // Recording
+  // ============================================================================
+
+  /**
+   * Record a sighting. Merges it into an open commitment with the same text
+   * seen within the dedup window, otherwise stores a new one.
+   */
+  record(input: CommitmentInput, now: number = Date.now()): RecordResult {
+    const existing = this.findDuplicate(input);
+    if (existing) {
+      return { commitment: this.merge(existing, input, now), duplicate: true };
+    }
+
+    const db = getDatabase();
+    const id = db.transaction(() => {
+      const result = db.prepare(`
+        INSERT INTO commitments (
+          text, type, source, recipient, involved_parties, deadline, detected_at, last_seen_at,
+          status, source_capture_id, context_event_id, context, confidence, synced, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'detected', ?, ?, ?, ?, 0, ?)
+      `).run(
+        encryptField(input.text),
+        input.type,
+        input.source,
+        encryptField(input.recipient || null),
+        input.involvedParties?.length ? encryptField(JSON.stringify(input.involvedParties)) : null,
+        input.deadline ?? null,
+        input.detectedAt,
+        input.detectedAt,
+        input.sourceCaptureId ?? null,
+        input.contextEventId ?? null,
+        encryptField(input.context ? JSON.stringify(input.context) : null),
+        input.confidence,
+        now
+      );
+      const id = Number(result.lastInsertRowid);
+      this.logTransition(id, null, 'detected', now, input.source);
+      return id;
+    })();
+
+    console.log(`[commitments] Recorded ${input.source} commitment ${id}`);
+    let commitment = this.get(id)!;
+    this.emit('transition', { commitment, from: null, to: 'detected', reason: input.source } as CommitmentTransitionEvent);
+
+    if (input.confidence >= this.confirmConfidence) {
+      commitment = this.transition(id, 'pending', 'confident', now);
+    }
+    return { commitment, duplicate: false };
+  }
+
+  /**
+   * Import the commitments the accessibility detector kept in
+   * `context_events.commitments`, as `accessibility` sightings. Runs once per
+   * database, and waits while the database is locked.
+   *
+   * @returns Number of commitments added, or null if there was nothing to do
+   */
+  importContextEventCommitments(): number | null {
+    if (isFieldEncryptionLocked() || getSyncMetadata(CONTEXT_EVENTS_IMPORTED_KEY)) return null;
+
+    // Events recorded since the lifecycle was added are already in the table
+    const events = getDatabase().prepare(`
+      SELECT id, timestamp, confidence, commitments FROM context_events
+      WHERE event_type = 'commitment_detected' AND commitments IS NOT NULL
+        AND id NOT IN (SELECT context_event_id FROM commitments WHERE context_event_id IS NOT NULL)
+      ORDER BY timestamp
+    `).all() as Array<{ id: number; timestamp: number; confidence: number | null; commitments: string }>;
+
+    let added = 0;
+    for (const event of events) {
+      for (const detected of decryptJson<DetectedCommitment[]>(event.commitments, [])) {
+        if (!detected.description) continue;
+        const result = this.record({
+          text: detected.description,
+          type: toCommitmentType(detected.requiredAction),
+          source: 'accessibility',
+          detectedAt: event.timestamp,
+          confidence: event.confidence ?? 0.5,
+          involvedParties: detected.involvedParties,
+          deadline: detected.dueDate,
+          contextEventId: event.id,
+        }, event.timestamp);
+        if (!result.duplicate) added++;
+      }
+    }
+
+    setSyncMetadata(CONTEXT_EVENTS_IMPORTED_KEY, String(Date.now()));
+    console.log(`[commitments] Imported ${added} commitments from ${events.length} context events`);
+    return added;
+  }
+
+  private findDuplicate(input: CommitmentInput): CommitmentRow | null {
+    const rows = getDatabase().prepare(`
+      SELECT * FROM commitments
+      WHERE status IN (${placeholders(OPEN_STATUSES)}) AND COALESCE(last_seen_at, detected_at) >= ?
+      ORDER BY COALESCE(last_seen_at, detected_at) DESC
+    `).all(...OPEN_STATUSES, input.detectedAt - this.dedupWindowMs) as CommitmentRow[];
+
+    let best: CommitmentRow | null = null;
+    let bestScore = this.similarityThreshold;
+    for (const row of rows) {
+      const score = commitmentSimilarity(decryptField(row.text) ?? '', input.text);
+      if (score >= bestScore) {
+        best = row;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  private merge(row: CommitmentRow, input: CommitmentInput, now: number): Commitment {
+    const parties = new Set(decryptJson<string[]>(row.involved_parties, []));
+    for (const party of input.involvedParties ?? []) parties.add(party);
+
+    getDatabase().prepare(`
+      UPDATE commitments SET
+        sightings = sightings + 1,
+        last_seen_at = MAX(COALESCE(last_seen_at, detected_at), ?),
+        confidence = MAX(confidence, ?),
+        deadline = COALESCE(deadline, ?),
+        recipient = COALESCE(recipient, ?),
+        involved_parties = ?,
+        source_capture_id = COALESCE(source_capture_id, ?),
+        context_event_id = COALESCE(context_event_id, ?),
+        updated_at = ?
+      WHERE id = ?
+    `).run(
+      input.detectedAt,
+      input.confidence,
+      input.deadline ?? null,
+      encryptField(input.recipient || null),
+      parties.size > 0 ? encryptField(JSON.stringify([...parties])) : null,
+      input.sourceCaptureId ?? null,
+      input.contextEventId ?? null,
+      now,
+      row.id
+    );
+
+    // Seen twice, by either detector: no longer a guess
+    if (row.status === 'detected') {
+      return this.transition(row.id, 'pending', 'confirmed', now);
+    }
+    return this.get(row.id)!;
+  }
+
+  // ============================================================================
+  // User Actions
+  // ============================================================================
+
+  /**
+   * @throws Error if the commitment doesn't exist or is already closed
+   */
+  complete(id: number, reason: string = 'user', now: number = Date.now()): Commitment {
+    return this.transition(id, 'completed', reason, now);
+  }
+
+  /**
+   * @throws Error if the commitment doesn't exist or is already closed
+   */
+  dismiss(id: number, reason: string = 'user', now: number = Date.now()): Commitment {
+    return this.transition(id, 'dismissed', reason, now);
+  }
+
+  /**
+   * Hide a commitment until `until`; it comes back as pending. Snoozing again
+   * moves the end of the snooze.
+   *
+   * @throws Error if `until` isn't in the future, or the commitment is closed
+   */
+  snooze(id: number, until: number, now: number = Date.now()): Commitment {
+    if (!Number.isFinite(until) || until <= now) {
+      throw new Error('until must be a time in the future');
+    }
+    return this.transition(id, 'snoozed', 'snoozed', now, { snoozed_until: until });
+  }
+
+  /**
+   * Hand a commitment to someone else, or back to the user with null.
+   * Logged as a transition to the same status.
+   *
+   * @throws Error if the commitment doesn't exist or is already closed
+   */
+  reassign(id: number, assignee: string | null, now: number = Date.now()): Commitment {
+    const name = assignee?.trim() || null;
+    if (name && name.length > MAX_ASSIGNEE_LENGTH) {
+      throw new Error(`assignee must be at most ${MAX_ASSIGNEE_LENGTH} characters`);
+    }
+    const row = this.getRow(id);
+    const status = row.status as CommitmentStatus;
+    if (!OPEN_STATUSES.includes(status)) {
+      throw new Error(`Commitment ${id} is ${status} and can't be reassigned`);
+    }
+
+    const db = getDatabase();
+    db.transaction(() => {
+      db.prepare('UPDATE commitments SET assignee = ?, updated_at = ? WHERE id = ?').run(encryptField(name), now, id);
+      this.logTransition(id, status, status, now, 'reassigned');
+    })();
+
+    const commitment = this.get(id)!;
+    this.emit('reassigned', commitment);
+    return commitment;
+  }
+
+  // ============================================================================
+  // Deadlines, Snoozes and Escalation
+  // ============================================================================
+
+  /**
+   * Wake snoozed commitments, expire unconfirmed ones, mark missed deadlines
+   * overdue and escalate overdue ones.
+   */
+  tick(now: number = Date.now()): void {
+    const db = getDatabase();
+
+    const woken = db.prepare(`SELECT id FROM commitments WHERE status = 'snoozed' AND snoozed_until <= ?`)
+      .pluck().all(now) as number[];
+    for (const id of woken) {
+      this.transition(id, 'pending', 'snooze_ended', now, { snoozed_until: null });
+    }
+
+    const unconfirmed = db.prepare(`SELECT id FROM commitments WHERE status = 'detected' AND detected_at <= ?`)
+      .pluck().all(now - this.unconfirmedTtlMs) as number[];
+    for (const id of unconfirmed) {
+      this.transition(id, 'expired', 'unconfirmed', now);
+    }
+
+    const missed = db.prepare(`SELECT id FROM commitments WHERE status = 'pending' AND deadline IS NOT NULL AND deadline <= ?`)
+      .pluck().all(now) as number[];
+    for (const id of missed) {
+      this.transition(id, 'overdue', 'deadline_passed', now);
+    }
+
+    const overdue = db.prepare(`SELECT id, deadline, escalation_level FROM commitments WHERE status = 'overdue'`)
+      .all() as Array<{ id: number; deadline: number | null; escalation_level: number }>;
+    for (const row of overdue) {
+      // Overdue without a deadline only happens to rows edited by hand
+      const deadline = row.deadline ?? now;
+      if (now - deadline >= this.expireOverdueAfterMs) {
+        this.transition(row.id, 'expired', 'overdue_too_long', now);
+        continue;
+      }
+
+      const level = this.escalationStepsMs.filter((step) => now - deadline >= step).length;
+      if (level > row.escalation_level) {
+        db.prepare('UPDATE commitments SET escalation_level = ?, updated_at = ? WHERE id = ?').run(level, now, row.id);
+        const commitment = this.get(row.id)!;
+        console.log(`[commitments] Commitment ${row.id} escalated to level ${level}`);
+        this.emit('escalation', { commitment, level } as CommitmentEscalationEvent);
+      }
+    }
+  }
+
+  private check(now: number = Date.now()): void {
+    try {
+      this.importContextEventCommitments();
+      this.tick(now);
+    } catch (error) {
+      console.error('[commitments] Check failed:', error);
+    }
+  }
+
+  // ============================================================================
+  // State Machine
+  // ============================================================================
+
+  private transition(
+    id: number,
+    to: CommitmentStatus,
+    reason: string,
+    now: number,
+    extra: { snoozed_until?: number | null } = {}
+  ): Commitment {
+    const row = this.getRow(id);
+    const from = row.status as CommitmentStatus;
+    if (!canTransition(from, to)) {
+      throw new Error(`Commitment ${id} can't go from ${from} to ${to}`);
+    }
+
+    const db = getDatabase();
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE commitments SET
+          status = ?,
+          completed_at = CASE WHEN ? = 'completed' THEN ? ELSE completed_at END,
+          snoozed_until = ?,
+          updated_at = ?
+        WHERE id = ?
+      `).run(to, to, now, 'snoozed_until' in extra ? extra.snoozed_until : row.snoozed_until, now, id);
+      this.logTransition(id, from, to, now, reason);
+    })();
+
+    const commitment = this.get(id)!;
+    if (from !== to) {
+      console.log(`[commitments] Commitment ${id}: ${from} -> ${to} (${reason})`);
+    }
+    this.emit('transition', { commitment, from, to, reason } as CommitmentTransitionEvent);
+
+    // Woken after the deadline: straight back to overdue
+    if (to === 'pending' && commitment.deadline !== undefined && commitment.deadline <= now) {
+      return this.transition(id, 'overdue', 'deadline_passed', now);
+    }
+    return commitment;
+  }
+
+  private logTransition(id: number, from: CommitmentStatus | null, to: CommitmentStatus, at: number, reason: string): void {
+    getDatabase().prepare(`
+      INSERT INTO commitment_transitions (commitment_id, from_status, to_status, at, reason) VALUES (?, ?, ?, ?, ?)
+    `).run(id, from, to, at, reason);
+  }
+
+  // ============================================================================
+  // Queries
+  // ============================================================================
+
+  private getRow(id: number): CommitmentRow {
+    const row = getDatabase().prepare('SELECT * FROM commitments WHERE id = ?').get(id) as CommitmentRow | undefined;
+    if (!row) {
+      throw new Error(`Commitment ${id} not found`);
+    }
+    return row;
+  }
+
+  get(id: number): Commitment | null {
+    const row = getDatabase().prepare('SELECT * FROM commitments WHERE id = ?').get(id) as CommitmentRow | undefined;
+    return row ? toCommitment(row) : null;
+  }
+
+  /**
+   * Commitments from both detectors, newest first
+   */
+  list(query: CommitmentQuery = {}): Commitment[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.statuses?.length) {
+      conditions.push(`status IN (${placeholders(query.statuses)})`);
+      params.push(...query.statuses);
+    }
+    if (query.since !== undefined) {
+      conditions.push('detected_at >= ?');
+      params.push(query.since);
+    }
+    if (query.until !== undefined) {
+      conditions.push('detected_at < ?');
+      params.push(query.until);
+    }
+
+    let sql = 'SELECT * FROM commitments';
+    if (conditions.length > 0) sql += ` WHERE ${conditions.join(' AND ')}`;
+    sql += ' ORDER BY detected_at DESC';
+    if (query.limit !== undefined) {
+      sql += ' LIMIT ?';
+      params.push(query.limit);
+    }
+
+    const rows = getDatabase().prepare(sql).all(...params) as CommitmentRow[];
+    return rows.map(toCommitment);
+  }
+
+  /**
+   * Commitments that moved into one of `statuses` within [since, until)
+   */
+  listTransitionedTo(statuses: CommitmentStatus[], since: number, until: number): Commitment[] {
+    const rows = getDatabase().prepare(`
+      SELECT * FROM commitments WHERE id IN (
+        SELECT commitment_id FROM commitment_transitions
+        WHERE to_status IN (${placeholders(statuses)}) AND from_status IS NOT to_status AND at >= ? AND at < ?
+      )
+      ORDER BY detected_at DESC
+    `).all(...statuses, since, until) as CommitmentRow[];
+    return rows.map(toCommitment);
+  }
+
+  /**
+   * Every recorded change of a commitment, oldest first
+   */
+  getHistory(id: number): CommitmentTransition[] {
+    const rows = getDatabase().prepare(`
+      SELECT commitment_id, from_status, to_status, at, reason FROM commitment_transitions
+      WHERE commitment_id = ? ORDER BY at ASC, id ASC
+    `).all(id) as Array<{ commitment_id: number; from_status: string | null; to_status: string; at: number; reason: string | null }>;
+
+    return rows.map((row) => ({
+      commitmentId: row.commitment_id,
+      from: row.from_status as CommitmentStatus | null,
+      to: row.to_status as CommitmentStatus,
+      at: row.at,
+      reason: row.reason ?? undefined,
+    }));
+  }
+}
@@ -5,7 +5,7 @@
  * 1. Screen Capture → captures active window
  * 2. OCR → extracts text from screenshot
  * 3. Semantic Analysis → understands content
- * 4. Storage → saves commitments, actions, context
+ * 4. Storage → saves commitments (through CommitmentService), actions, context
  * 5. Cross-Reference → matches commitments to completed actions
  *
  * This is the central hub for all deep context features.
@@ -18,6 +18,7 @@ import { SemanticAnalyzer } from './semanticAnalyzer';
 import {
   ScreenCapture,
   Commitment,
+  CommitmentStatus,
   ActionItem,
   CompletedAction,
   EmailContext,
@@ -28,8 +29,11 @@ import {
   DEFAULT_DEEP_CONTEXT_SETTINGS,
 } from '../../shared/types';
 import { getDatabase } from '../db/database';
+import { encryptField, decryptField, decryptJson } from '../db/fieldEncryption';
 import { getTogetherApiKey } from '../store';
 import { CROSS_REFERENCE_INTERVAL_MS } from '../../shared/constants';
+import { DeadlineParser } from '../../deep-context/pipeline/deadlineParser';
+import { CommitmentService, OPEN_STATUSES } from './commitmentService';
 
 // ============================================================================
 // Types
@@ -58,6 +62,8 @@ export class DeepContextManager extends EventEmitter {
   private screenCapture: ScreenCaptureService;
   private ocrService: OCRService;
   private semanticAnalyzer: SemanticAnalyzer;
+  private deadlines: DeadlineParser = new DeadlineParser();
+  private commitments: CommitmentService;
   private settings: DeepContextSettings;
 
   private _isRunning: boolean = false;
@@ -68,9 +74,10 @@ export class DeepContextManager extends EventEmitter {
 
   private crossReferenceInterval: NodeJS.Timeout | null = null;
 
-  constructor(settings: Partial<DeepContextSettings> = {}) {
+  constructor(settings: Partial<DeepContextSettings> = {}, commitments: CommitmentService = new CommitmentService()) {
     super();
     this.settings = { ...DEFAULT_DEEP_CONTEXT_SETTINGS, ...settings };
+    this.commitments = commitments;
 
     // Initialize services
     this.screenCapture = new ScreenCaptureService(this.settings);
@@ -207,17 +214,18 @@ export class DeepContextManager extends EventEmitter {
       // Step 4: Process commitments
       if (analysis && analysis.commitments.length > 0 && this.settings.commitmentTrackingEnabled) {
         for (const commitment of analysis.commitments) {
-          this.storeCommitment({
+          const { duplicate } = this.commitments.record({
             text: commitment.text,
             type: commitment.type,
+            source: 'screen',
             recipient: commitment.recipient,
-            deadline: commitment.deadline ? this.parseDeadline(commitment.deadline) : undefined,
+            deadline: commitment.deadline ? this.deadlines.parse(commitment.deadline)?.dueAt : undefined,
             detectedAt: capture.timestamp,
-            status: 'pending',
             sourceCaptureId: captureId,
             confidence: commitment.confidence,
-            synced: false,
           });
+          // Seen again on a later capture, or already found by the accessibility pipeline
+          if (duplicate) continue;
           this.commitmentsDetected++;
 
           this.emit('event', {
@@ -277,40 +285,15 @@ export class DeepContextManager extends EventEmitter {
     const result = stmt.run(
       capture.timestamp,
       capture.appName,
-      capture.windowTitle,
-      capture.textContent,
-      capture.analysis ? JSON.stringify(capture.analysis) : null,
+      encryptField(capture.windowTitle),
+      encryptField(capture.textContent),
+      encryptField(capture.analysis ? JSON.stringify(capture.analysis) : null),
       capture.imageHash
     );
 
     return result.lastInsertRowid as number;
   }
 
-  private storeCommitment(commitment: Omit<Commitment, 'id'>): number {
-    const db = getDatabase();
-    const stmt = db.prepare(`
-      INSERT INTO commitments (text, type, recipient, deadline, detected_at, completed_at, status, source_capture_id, context, confidence, synced)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    const result = stmt.run(
-      commitment.text,
-      commitment.type,
-      commitment.recipient || null,
-      commitment.deadline || null,
-      commitment.detectedAt,
-      commitment.completedAt || null,
-      commitment.status,
-      commitment.sourceCaptureId || null,
-      commitment.context ? JSON.stringify(commitment.context) : null,
-      commitment.confidence,
-      commitment.synced ? 1 : 0
-    );
-
-    console.log(`[deepContext] Stored commitment: "${commitment.text.substring(0, 50)}..."`);
-    return result.lastInsertRowid as number;
-  }
-
   private storeActionItem(item: Omit<ActionItem, 'id'>): number {
     const db = getDatabase();
     const stmt = db.prepare(`
@@ -319,14 +302,14 @@ export class DeepContextManager extends EventEmitter {
     `);
 
     const result = stmt.run(
-      item.text,
+      encryptField(item.text),
       item.priority,
       item.source,
       item.detectedAt,
       item.completedAt || null,
       item.status,
       item.sourceCaptureId || null,
-      item.context ? JSON.stringify(item.context) : null
+      encryptField(item.context ? JSON.stringify(item.context) : null)
     );
 
     return result.lastInsertRowid as number;
@@ -350,9 +333,9 @@ export class DeepContextManager extends EventEmitter {
       Date.now(),
       appName,
       context.composing ? 'composing' : 'reading',
-      context.to.join(', ') || null,
-      context.subject || null,
-      context.bodyPreview || null,
+      encryptField(context.to.join(', ') || null),
+      encryptField(context.subject || null),
+      encryptField(context.bodyPreview || null),
       context.attachments.length > 0 ? 1 : 0,
       captureId
     );
@@ -376,9 +359,9 @@ export class DeepContextManager extends EventEmitter {
         Date.now(),
         appName,
         context.creating ? 'creating' : 'viewing',
-        context.eventTitle || null,
+        encryptField(context.eventTitle || null),
         context.eventTime || null,
-        context.participants ? JSON.stringify(context.participants) : null,
+        encryptField(context.participants ? JSON.stringify(context.participants) : null),
         captureId
       );
 
@@ -409,27 +392,9 @@ export class DeepContextManager extends EventEmitter {
   }
 
   getPendingFollowUps(): PendingFollowUp[] {
-    const db = getDatabase();
-
     // Get commitments from the last 2 hours that are still pending
     const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000;
-
-    const commitments = db
-      .prepare(`
-        SELECT * FROM commitments
-        WHERE status = 'pending'
-          AND detected_at > ?
-        ORDER BY detected_at DESC
-      `)
-      .all(twoHoursAgo) as Array<{
-        id: number;
-        text: string;
-        type: string;
-        recipient: string | null;
-        deadline: number | null;
-        detected_at: number;
-        confidence: number;
-      }>;
+    const commitments = this.commitments.list({ statuses: ['pending'], since: twoHoursAgo });
 
     const pendingFollowUps: PendingFollowUp[] = [];
 
@@ -438,7 +403,7 @@ export class DeepContextManager extends EventEmitter {
       const hasMatchingAction = this.checkForMatchingAction(commitment);
 
       if (!hasMatchingAction) {
-        const ageMinutes = Math.round((Date.now() - commitment.detected_at) / 60000);
+        const ageMinutes = Math.round((Date.now() - commitment.detectedAt) / 60000);
         let urgency: PendingFollowUp['urgency'] = 'low';
 
         if (ageMinutes > 60) {
@@ -448,17 +413,7 @@ export class DeepContextManager extends EventEmitter {
         }
 
         pendingFollowUps.push({
-          commitment: {
-            id: commitment.id,
-            text: commitment.text,
-            type: commitment.type as Commitment['type'],
-            recipient: commitment.recipient || undefined,
-            deadline: commitment.deadline || undefined,
-            detectedAt: commitment.detected_at,
-            status: 'pending',
-            confidence: commitment.confidence,
-            synced: false,
-          },
+          commitment,
           suggestedAction: this.getSuggestedAction(commitment.type),
           context: `Mentioned ${ageMinutes} minutes ago but no action detected`,
           urgency,
@@ -469,11 +424,7 @@ export class DeepContextManager extends EventEmitter {
     return pendingFollowUps;
   }
 
-  private checkForMatchingAction(commitment: {
-    type: string;
-    recipient: string | null;
-    detected_at: number;
-  }): boolean {
+  private checkForMatchingAction(commitment: Commitment): boolean {
     const db = getDatabase();
 
     switch (commitment.type) {
@@ -485,7 +436,7 @@ export class DeepContextManager extends EventEmitter {
             WHERE action = 'creating' AND timestamp > ?
             LIMIT 1
           `)
-          .get(commitment.detected_at);
+          .get(commitment.detectedAt);
         return !!calendarAction;
       }
 
@@ -497,7 +448,7 @@ export class DeepContextManager extends EventEmitter {
             WHERE action IN ('composing', 'sending', 'sent') AND timestamp > ?
             LIMIT 1
           `)
-          .get(commitment.detected_at);
+          .get(commitment.detectedAt);
         return !!emailAction;
       }
 
@@ -509,7 +460,7 @@ export class DeepContextManager extends EventEmitter {
             WHERE timestamp > ?
             LIMIT 1
           `)
-          .get(commitment.detected_at);
+          .get(commitment.detectedAt);
         return !!completedAction;
     }
   }
@@ -517,20 +468,16 @@ export class DeepContextManager extends EventEmitter {
   private tryMatchCalendarCommitment(eventTitle: string): void {
     const db = getDatabase();
 
-    // Find recent "create_event" commitments
+    // Find recent "create_event" commitments that are still open
     const oneHourAgo = Date.now() - 60 * 60 * 1000;
-    const commitments = db
-      .prepare(`
-        SELECT * FROM commitments
-        WHERE type = 'create_event'
-          AND status = 'pending'
-          AND detected_at > ?
-      `)
-      .all(oneHourAgo) as Array<{ id: number; text: string }>;
+    const commitments = this.commitments
+      .list({ statuses: OPEN_STATUSES, since: oneHourAgo })
+      .filter((commitment) => commitment.type === 'create_event');
 
     // Simple matching: if any commitment text mentions similar keywords
     for (const commitment of commitments) {
-      const lowerCommitment = commitment.text.toLowerCase();
+      const text = commitment.text;
+      const lowerCommitment = text.toLowerCase();
       const lowerTitle = eventTitle.toLowerCase();
 
       // Basic fuzzy match
@@ -539,11 +486,7 @@ export class DeepContextManager extends EventEmitter {
 
       if (hasMatch) {
         // Mark commitment as completed
-        db.prepare(`
-          UPDATE commitments
-          SET status = 'completed', completed_at = ?
-          WHERE id = ?
-        `).run(Date.now(), commitment.id);
+        this.commitments.complete(commitment.id!, 'calendar_event');
 
         // Record the completed action
         db.prepare(`
@@ -551,14 +494,14 @@ export class DeepContextManager extends EventEmitter {
           VALUES (?, ?, ?, ?, ?)
         `).run(
           'created_event',
-          JSON.stringify({ eventTitle }),
+          encryptField(JSON.stringify({ eventTitle })),
           Date.now(),
           'Calendar',
           commitment.id
         );
 
         this.actionsCompleted++;
-        console.log(`[deepContext] Matched commitment "${commitment.text.substring(0, 40)}..." with calendar event`);
+        console.log(`[deepContext] Matched commitment "${text.substring(0, 40)}..." with calendar event`);
 
         this.emit('event', {
           type: 'action_completed',
@@ -589,37 +532,6 @@ export class DeepContextManager extends EventEmitter {
     }
   }
 
-  private parseDeadline(deadlineStr: string): number | undefined {
-    const lowerStr = deadlineStr.toLowerCase();
-
-    // Handle relative times
-    if (lowerStr.includes('tomorrow')) {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      tomorrow.setHours(9, 0, 0, 0); // Default to 9 AM
-      return tomorrow.getTime();
-    }
-
-    if (lowerStr.includes('today')) {
-      const today = new Date();
-      today.setHours(17, 0, 0, 0); // Default to 5 PM
-      return today.getTime();
-    }
-
-    if (lowerStr.includes('next week')) {
-      const nextWeek = new Date();
-      nextWeek.setDate(nextWeek.getDate() + 7);
-      return nextWeek.getTime();
-    }
-
-    // Try to parse as date
-    const parsed = Date.parse(deadlineStr);
-    if (!isNaN(parsed)) {
-      return parsed;
-    }
-
-    return undefined;
-  }
 
   // ============================================================================
   // Public API
@@ -645,87 +557,12 @@ export class DeepContextManager extends EventEmitter {
     };
   }
 
-  getCommitments(status?: 'pending' | 'completed' | 'expired' | 'dismissed', limit: number = 20): Commitment[] {
-    const db = getDatabase();
-    let query = `SELECT * FROM commitments`;
-    const params: (string | number)[] = [];
-
-    if (status) {
-      query += ` WHERE status = ?`;
-      params.push(status);
-    }
-
-    query += ` ORDER BY detected_at DESC LIMIT ?`;
-    params.push(limit);
-
-    const rows = db.prepare(query).all(...params) as Array<{
-      id: number;
-      text: string;
-      type: string;
-      recipient: string | null;
-      deadline: number | null;
-      detected_at: number;
-      completed_at: number | null;
-      status: string;
-      source_capture_id: number | null;
-      context: string | null;
-      confidence: number;
-      synced: number;
-    }>;
-
-    return rows.map((row) => ({
-      id: row.id,
-      text: row.text,
-      type: row.type as Commitment['type'],
-      recipient: row.recipient || undefined,
-      deadline: row.deadline || undefined,
-      detectedAt: row.detected_at,
-      completedAt: row.completed_at || undefined,
-      status: row.status as Commitment['status'],
-      sourceCaptureId: row.source_capture_id || undefined,
-      context: row.context ? JSON.parse(row.context) : undefined,
-      confidence: row.confidence,
-      synced: !!row.synced,
-    }));
+  getCommitments(status?: CommitmentStatus, limit: number = 20): Commitment[] {
+    return this.commitments.list({ statuses: status ? [status] : undefined, limit });
   }
 
   getRecentCommitments(limit: number = 10): Commitment[] {
-    const db = getDatabase();
-    const rows = db
-      .prepare(`
-        SELECT * FROM commitments
-        ORDER BY detected_at DESC
-        LIMIT ?
-      `)
-      .all(limit) as Array<{
-        id: number;
-        text: string;
-        type: string;
-        recipient: string | null;
-        deadline: number | null;
-        detected_at: number;
-        completed_at: number | null;
-        status: string;
-        source_capture_id: number | null;
-        context: string | null;
-        confidence: number;
-        synced: number;
-      }>;
-
-    return rows.map((row) => ({
-      id: row.id,
-      text: row.text,
-      type: row.type as Commitment['type'],
-      recipient: row.recipient || undefined,
-      deadline: row.deadline || undefined,
-      detectedAt: row.detected_at,
-      completedAt: row.completed_at || undefined,
-      status: row.status as Commitment['status'],
-      sourceCaptureId: row.source_capture_id || undefined,
-      context: row.context ? JSON.parse(row.context) : undefined,
-      confidence: row.confidence,
-      synced: !!row.synced,
-    }));
+    return this.commitments.list({ limit });
   }
 
   getRecentActionItems(limit: number = 10): ActionItem[] {
@@ -750,14 +587,14 @@ export class DeepContextManager extends EventEmitter {
 
     return rows.map((row) => ({
       id: row.id,
-      text: row.text,
+      text: decryptField(row.text) ?? '',
       priority: row.priority as ActionItem['priority'],
       source: row.source as ActionItem['source'],
       detectedAt: row.detected_at,
       completedAt: row.completed_at || undefined,
       status: row.status as ActionItem['status'],
       sourceCaptureId: row.source_capture_id || undefined,
-      context: row.context ? JSON.parse(row.context) : undefined,
+      context: decryptJson<Record<string, unknown> | undefined>(row.context, undefined),
     }));
   }
 
@@ -781,10 +618,10 @@ export class DeepContextManager extends EventEmitter {
     }
 
     // Recent commitments
-    const pendingCommitments = recentCommitments.filter((c) => c.status === 'pending');
-    if (pendingCommitments.length > 0) {
+    const openCommitments = recentCommitments.filter((c) => OPEN_STATUSES.includes(c.status));
+    if (openCommitments.length > 0) {
       lines.push('RECENT COMMITMENTS:');
-      for (const commitment of pendingCommitments.slice(0, 3)) {
+      for (const commitment of openCommitments.slice(0, 3)) {
         const age = Math.round((Date.now() - commitment.detectedAt) / 60000);
         lines.push(`- "${commitment.text}" (${age} min ago, ${commitment.status})`);
       }
@@ -805,28 +642,21 @@ export class DeepContextManager extends EventEmitter {
 
   /**
    * Manually mark a commitment as completed
+   *
+   * @throws Error if the commitment doesn't exist or is already closed
    */
   completeCommitment(commitmentId: number): void {
-    const db = getDatabase();
-    db.prepare(`
-      UPDATE commitments
-      SET status = 'completed', completed_at = ?
-      WHERE id = ?
-    `).run(Date.now(), commitmentId);
-
+    this.commitments.complete(commitmentId);
     this.actionsCompleted++;
   }
 
   /**
    * Dismiss a commitment (user doesn't need to complete it)
+   *
+   * @throws Error if the commitment doesn't exist or is already closed
    */
   dismissCommitment(commitmentId: number): void {
-    const db = getDatabase();
-    db.prepare(`
-      UPDATE commitments
-      SET status = 'dismissed'
-      WHERE id = ?
-    `).run(commitmentId);
+    this.commitments.dismiss(commitmentId);
   }
 
   /**
@@ -919,7 +749,7 @@ export class DeepContextManager extends EventEmitter {
 
     // Aggregate OCR text (sample, don't include everything to save space)
     const allText = captures
-      .map(c => c.text_content)
+      .map(c => decryptField(c.text_content))
       .filter(t => t && t.length > 20)
       .join(' ');
     const ocrText = allText.length > 500 ? allText.substring(0, 500) + '...' : allText;
@@ -968,9 +798,9 @@ export class DeepContextManager extends EventEmitter {
       }>;
 
     const commitments = commitmentRows.map(c => ({
-      text: c.text,
+      text: decryptField(c.text) ?? '',
       type: c.type,
-      recipient: c.recipient,
+      recipient: decryptField(c.recipient),
       deadline: c.deadline,
       confidence: c.confidence,
     }));
@@ -0,0 +1,464 @@
+/**
+ * Erasure Service
+ *
+ * Targeted deletion for right-to-erasure requests, where cleanupOldData and
+ * cleanupSemanticData only delete by age:
+ * - Everything about an entity (the entity, its aliases and relationships,
+ *   the context events it was found in, and commitments, action items,
+ *   emails and calendar events that mention it)
+ * - Everything from an app
+ * - Everything in a time range
+ *
+ * The matching rows are collected into a plan first and deleted in one
+ * transaction, children before parents. Context-event dependents (entity
+ * links, semantic activities, thread events) follow their event; threads
+ * left without events are deleted with their intents. A dry run performs the
+ * same deletes and rolls them back, so the preview counts are exact.
+ *
+ * After the local delete, matching transport events are dropped and the plan's
+ * keys are sent to the cloud as delete requests. Cloud failures are reported,
+ * not retried. The outbound audit ledger is append-only and holds only ids
+ * and hashes, so it is left as is.
+ */
+
+import type Database from 'better-sqlite3';
+import { getDatabase } from '../db/database';
+import { decryptField, isFieldEncryptionLocked } from '../db/fieldEncryption';
+import { forgetPseudonyms } from './pseudonymVault';
+import type { CloudErasure, CloudSyncService } from './cloudSyncService';
+import type { Transport } from '../../transport/Transport';
+import type { AppBreakdownItem, ErasureResult, ErasureSelector } from '../../shared/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ErasureOptions {
+  /** Count what would be deleted without deleting anything */
+  dryRun?: boolean;
+  transport?: Transport | null;
+  /** Cloud deletes are skipped when this is missing or signed out */
+  cloudSync?: CloudSyncService | null;
+}
+
+interface ErasurePlan {
+  activityLogIds: number[];
+  captureIds: number[];
+  contextEventIds: number[];
+  commitmentIds: number[];
+  actionItemIds: number[];
+  completedActionIds: number[];
+  emailContextIds: number[];
+  calendarContextIds: number[];
+  entityIds: string[];
+  activityIds: string[];
+  threadIds: string[];
+  intentIds: string[];
+  hourStarts: number[]; // hourly summaries to delete
+  rewrites: { id: number; appBreakdown: AppBreakdownItem[] }[]; // summaries with the app removed
+  pseudonymValues: string[];
+  matchesEvent: (event: any) => boolean;
+  cloud: CloudErasure;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Bound parameters per statement, well below SQLite's limit
+const CHUNK_SIZE = 500;
+
+const APP_KEYS = ['source_application', 'app_name', 'appName', 'app', 'application'];
+const TIME_KEYS = ['timestamp', 'created_at'];
+
+// Sentinel thrown to roll back a dry run
+const DRY_RUN_ROLLBACK = new Error('dry run');
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(',');
+}
+
+/**
+ * First column of every row matched by `sql`, which takes the values as `IN (...)`
+ */
+function selectIn<T>(db: Database.Database, sql: (list: string) => string, values: (string | number)[]): T[] {
+  const result: T[] = [];
+  for (let i = 0; i < values.length; i += CHUNK_SIZE) {
+    const chunk = values.slice(i, i + CHUNK_SIZE);
+    result.push(...(db.prepare(sql(placeholders(chunk))).pluck().all(...chunk) as T[]));
+  }
+  return result;
+}
+
+function deleteIn(db: Database.Database, table: string, column: string, values: (string | number)[]): number {
+  let changes = 0;
+  for (let i = 0; i < values.length; i += CHUNK_SIZE) {
+    const chunk = values.slice(i, i + CHUNK_SIZE);
+    changes += db.prepare(`DELETE FROM ${table} WHERE ${column} IN (${placeholders(chunk)})`).run(...chunk).changes;
+  }
+  return changes;
+}
+
+function column<T>(db: Database.Database, sql: string, ...params: unknown[]): T[] {
+  return db.prepare(sql).pluck().all(...params) as T[];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word, case-insensitive match for any of the names
+ */
+function namePattern(names: string[]): RegExp {
+  const alternatives = names.map((n) => escapeRegExp(n.trim())).sort((a, b) => b.length - a.length);
+  return new RegExp(`(?<![\\w@.])(?:${alternatives.join('|')})(?![\\w@])`, 'i');
+}
+
+/**
+ * Ids of rows where any of the (possibly encrypted) text columns mention a name
+ */
+function idsMentioning(db: Database.Database, table: string, columns: string[], pattern: RegExp): number[] {
+  const rows = db.prepare(`SELECT id, ${columns.join(', ')} FROM ${table}`).all() as Record<string, any>[];
+  return rows
+    .filter((row) => columns.some((c) => pattern.test(decryptField(row[c]) ?? '')))
+    .map((row) => row.id as number);
+}
+
+function toTime(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+}
+
+/**
+ * Queued transport events keep their data in `payload` (envelopes) or at the top level
+ */
+function eventBody(event: any): Record<string, unknown> {
+  return event?.payload && typeof event.payload === 'object' ? event.payload : (event ?? {});
+}
+
+/**
+ * @throws Error if the selector is malformed
+ */
+function assertSelector(selector: ErasureSelector): void {
+  switch (selector?.kind) {
+    case 'entity':
+      if (typeof selector.name !== 'string' || selector.name.trim().length === 0) {
+        throw new Error('name must be a non-empty string');
+      }
+      return;
+    case 'app':
+      if (typeof selector.appName !== 'string' || selector.appName.trim().length === 0) {
+        throw new Error('appName must be a non-empty string');
+      }
+      return;
+    case 'time_range':
+      if (!Number.isSafeInteger(selector.start) || !Number.isSafeInteger(selector.end) || selector.start >= selector.end) {
+        throw new Error('start and end must be timestamps with start before end');
+      }
+      return;
+    default:
+      throw new Error('kind must be "entity", "app" or "time_range"');
+  }
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+function emptyPlan(): ErasurePlan {
+  return {
+    activityLogIds: [],
+    captureIds: [],
+    contextEventIds: [],
+    commitmentIds: [],
+    actionItemIds: [],
+    completedActionIds: [],
+    emailContextIds: [],
+    calendarContextIds: [],
+    entityIds: [],
+    activityIds: [],
+    threadIds: [],
+    intentIds: [],
+    hourStarts: [],
+    rewrites: [],
+    pseudonymValues: [],
+    matchesEvent: () => false,
+    cloud: {
+      appNames: [],
+      range: null,
+      eventTimestamps: [],
+      hourStarts: [],
+      entityIds: [],
+      activityIds: [],
+      threadIds: [],
+      intentIds: [],
+    },
+  };
+}
+
+function planTimeRange(db: Database.Database, plan: ErasurePlan, start: number, end: number): void {
+  const inRange = (col: string) => `${col} >= ? AND ${col} < ?`;
+
+  plan.activityLogIds = column(db, `SELECT id FROM activity_logs WHERE ${inRange('timestamp')}`, start, end);
+  plan.captureIds = column(db, `SELECT id FROM screen_captures WHERE ${inRange('timestamp')}`, start, end);
+  plan.contextEventIds = column(db, `SELECT id FROM context_events WHERE ${inRange('timestamp')}`, start, end);
+  plan.commitmentIds = column(db, `SELECT id FROM commitments WHERE ${inRange('detected_at')}`, start, end);
+  plan.actionItemIds = column(db, `SELECT id FROM action_items WHERE ${inRange('detected_at')}`, start, end);
+  plan.completedActionIds = column(db, `SELECT id FROM completed_actions WHERE ${inRange('timestamp')}`, start, end);
+  plan.emailContextIds = column(db, `SELECT id FROM email_contexts WHERE ${inRange('timestamp')}`, start, end);
+  plan.calendarContextIds = column(db, `SELECT id FROM calendar_contexts WHERE ${inRange('timestamp')}`, start, end);
+  plan.activityIds = column(db, `SELECT activity_id FROM semantic_activities WHERE ${inRange('created_at')}`, start, end);
+  // Any hour that overlaps the range
+  plan.hourStarts = column(db, 'SELECT hour_start FROM hourly_summaries WHERE hour_start > ? AND hour_start < ?', start - HOUR_MS, end);
+
+  plan.cloud.range = { start, end };
+  plan.matchesEvent = (event) => {
+    const body = eventBody(event);
+    return TIME_KEYS.some((key) => {
+      const time = toTime(body[key]);
+      return time !== null && time >= start && time < end;
+    });
+  };
+}
+
+function planApp(db: Database.Database, plan: ErasurePlan, appName: string): void {
+  const app = appName.trim();
+  const key = app.toLowerCase();
+
+  plan.activityLogIds = column(db, 'SELECT id FROM activity_logs WHERE app_name = ? COLLATE NOCASE', app);
+  plan.captureIds = column(db, 'SELECT id FROM screen_captures WHERE app_name = ? COLLATE NOCASE', app);
+  plan.contextEventIds = column(db, 'SELECT id FROM context_events WHERE source_application = ? COLLATE NOCASE', app);
+  plan.completedActionIds = column(db, 'SELECT id FROM completed_actions WHERE app_name = ? COLLATE NOCASE', app);
+  plan.emailContextIds = column(db, 'SELECT id FROM email_contexts WHERE app_name = ? COLLATE NOCASE', app);
+  plan.calendarContextIds = column(db, 'SELECT id FROM calendar_contexts WHERE app_name = ? COLLATE NOCASE', app);
+
+  // Hourly summaries lose the app's share; an hour with nothing else left goes entirely
+  const summaries = db.prepare('SELECT id, hour_start, app_breakdown FROM hourly_summaries').all() as
+    { id: number; hour_start: number; app_breakdown: string }[];
+  for (const row of summaries) {
+    const breakdown = JSON.parse(row.app_breakdown) as AppBreakdownItem[];
+    const kept = breakdown.filter((item) => item.appName.toLowerCase() !== key);
+    if (kept.length === breakdown.length) continue;
+    if (kept.length === 0) {
+      plan.hourStarts.push(row.hour_start);
+    } else {
+      plan.rewrites.push({ id: row.id, appBreakdown: kept });
+    }
+  }
+
+  // The cloud matches names exactly, so send every spelling seen locally
+  plan.cloud.appNames = unique([
+    app,
+    ...column<string>(db, 'SELECT DISTINCT app_name FROM activity_logs WHERE app_name = ? COLLATE NOCASE', app),
+    ...column<string>(db, 'SELECT DISTINCT app_name FROM screen_captures WHERE app_name = ? COLLATE NOCASE', app),
+    ...column<string>(db, 'SELECT DISTINCT source_application FROM context_events WHERE source_application = ? COLLATE NOCASE', app),
+  ]);
+  plan.matchesEvent = (event) => {
+    const body = eventBody(event);
+    return APP_KEYS.some((k) => typeof body[k] === 'string' && (body[k] as string).toLowerCase() === key);
+  };
+}
+
+function planEntity(db: Database.Database, plan: ErasurePlan, name: string): void {
+  const trimmed = name.trim();
+
+  plan.entityIds = column(db, `
+    SELECT entity_id FROM semantic_entities WHERE name = ? COLLATE NOCASE
+    UNION
+    SELECT entity_id FROM entity_aliases WHERE alias = ? COLLATE NOCASE
+  `, trimmed, trimmed);
+
+  const names = unique([
+    trimmed,
+    ...selectIn<string>(db, (list) => `SELECT name FROM semantic_entities WHERE entity_id IN (${list})`, plan.entityIds),
+    ...selectIn<string>(db, (list) => `SELECT alias FROM entity_aliases WHERE entity_id IN (${list})`, plan.entityIds),
+  ]);
+  plan.pseudonymValues = names;
+
+  const linkedEvents = selectIn<string>(db, (list) => `SELECT DISTINCT event_id FROM event_entity_links WHERE entity_id IN (${list})`, plan.entityIds);
+  plan.contextEventIds = selectIn<number>(db, (list) => `SELECT id FROM context_events WHERE CAST(id AS TEXT) IN (${list})`, linkedEvents);
+
+  const pattern = namePattern(names);
+  plan.commitmentIds = idsMentioning(db, 'commitments', ['text', 'recipient', 'involved_parties', 'assignee'], pattern);
+  plan.actionItemIds = idsMentioning(db, 'action_items', ['text'], pattern);
+  plan.emailContextIds = idsMentioning(db, 'email_contexts', ['recipient', 'subject'], pattern);
+  plan.calendarContextIds = idsMentioning(db, 'calendar_contexts', ['event_title', 'participants'], pattern);
+
+  plan.cloud.eventTimestamps = selectIn<number>(db, (list) => `SELECT timestamp FROM context_events WHERE id IN (${list})`, plan.contextEventIds);
+  plan.matchesEvent = (event) => {
+    const text = JSON.stringify(eventBody(event));
+    return pattern.test(text) || plan.entityIds.some((id) => text.includes(id));
+  };
+}
+
+/**
+ * Collect the rows a selector reaches, including dependents of captures and events
+ */
+function planErasure(db: Database.Database, selector: ErasureSelector): ErasurePlan {
+  const plan = emptyPlan();
+  switch (selector.kind) {
+    case 'time_range':
+      planTimeRange(db, plan, selector.start, selector.end);
+      break;
+    case 'app':
+      planApp(db, plan, selector.appName);
+      break;
+    case 'entity':
+      planEntity(db, plan, selector.name);
+      break;
+  }
+
+  // Rows extracted from an erased capture go with it
+  const fromCaptures = (table: string) =>
+    selectIn<number>(db, (list) => `SELECT id FROM ${table} WHERE source_capture_id IN (${list})`, plan.captureIds);
+  plan.commitmentIds = unique([
+    ...plan.commitmentIds,
+    ...fromCaptures('commitments'),
+    ...selectIn<number>(db, (list) => `SELECT id FROM commitments WHERE context_event_id IN (${list})`, plan.contextEventIds),
+  ]);
+  plan.actionItemIds = unique([...plan.actionItemIds, ...fromCaptures('action_items')]);
+  plan.emailContextIds = unique([...plan.emailContextIds, ...fromCaptures('email_contexts')]);
+  plan.calendarContextIds = unique([...plan.calendarContextIds, ...fromCaptures('calendar_contexts')]);
+
+  // Semantic rows reference context events by their id as text
+  const eventKeys = plan.contextEventIds.map(String);
+  plan.activityIds = unique([
+    ...plan.activityIds,
+    ...selectIn<string>(db, (list) => `SELECT activity_id FROM semantic_activities WHERE event_id IN (${list})`, eventKeys),
+  ]);
+
+  const erasedEvents = new Set(eventKeys);
+  const touchedThreads = unique(selectIn<string>(db, (list) => `SELECT thread_id FROM thread_events WHERE event_id IN (${list})`, eventKeys));
+  const threadEvents = db.prepare('SELECT event_id FROM thread_events WHERE thread_id = ?').pluck();
+  plan.threadIds = touchedThreads.filter((threadId) =>
+    (threadEvents.all(threadId) as string[]).every((eventId) => erasedEvents.has(eventId))
+  );
+  plan.intentIds = selectIn<string>(db, (list) => `SELECT intent_id FROM semantic_intents WHERE thread_id IN (${list})`, plan.threadIds);
+
+  plan.cloud.hourStarts = plan.hourStarts;
+  plan.cloud.entityIds = plan.entityIds;
+  plan.cloud.activityIds = plan.activityIds;
+  plan.cloud.threadIds = plan.threadIds;
+  plan.cloud.intentIds = plan.intentIds;
+  return plan;
+}
+
+// ============================================================================
+// Local Delete
+// ============================================================================
+
+function deletePlan(db: Database.Database, plan: ErasurePlan): Record<string, number> {
+  const counts: Record<string, number> = {};
+  const add = (table: string, changes: number) => {
+    counts[table] = (counts[table] ?? 0) + changes;
+  };
+  const eventKeys = plan.contextEventIds.map(String);
+
+  // Completed actions outlive the commitments they matched
+  for (let i = 0; i < plan.commitmentIds.length; i += CHUNK_SIZE) {
+    const chunk = plan.commitmentIds.slice(i, i + CHUNK_SIZE);
+    db.prepare(`UPDATE completed_actions SET matched_commitment_id = NULL WHERE matched_commitment_id IN (${placeholders(chunk)})`)
+      .run(...chunk);
+  }
+  add('completed_actions', deleteIn(db, 'completed_actions', 'id', plan.completedActionIds));
+  add('commitment_transitions', deleteIn(db, 'commitment_transitions', 'commitment_id', plan.commitmentIds));
+  add('commitments', deleteIn(db, 'commitments', 'id', plan.commitmentIds));
+  add('action_items', deleteIn(db, 'action_items', 'id', plan.actionItemIds));
+  add('email_contexts', deleteIn(db, 'email_contexts', 'id', plan.emailContextIds));
+  add('calendar_contexts', deleteIn(db, 'calendar_contexts', 'id', plan.calendarContextIds));
+  add('screen_captures', deleteIn(db, 'screen_captures', 'id', plan.captureIds));
+  add('activity_logs', deleteIn(db, 'activity_logs', 'id', plan.activityLogIds));
+  add('context_events', deleteIn(db, 'context_events', 'id', plan.contextEventIds));
+
+  // Link tables are deleted explicitly (not by cascade) so they are counted
+  add('event_entity_links', deleteIn(db, 'event_entity_links', 'event_id', eventKeys));
+  add('event_entity_links', deleteIn(db, 'event_entity_links', 'entity_id', plan.entityIds));
+  add('thread_events', deleteIn(db, 'thread_events', 'event_id', eventKeys));
+  add('thread_events', deleteIn(db, 'thread_events', 'thread_id', plan.threadIds));
+  add('semantic_intents', deleteIn(db, 'semantic_intents', 'intent_id', plan.intentIds));
+  add('semantic_threads', deleteIn(db, 'semantic_threads', 'thread_id', plan.threadIds));
+  add('semantic_activities', deleteIn(db, 'semantic_activities', 'activity_id', plan.activityIds));
+  add('entity_aliases', deleteIn(db, 'entity_aliases', 'entity_id', plan.entityIds));
+  add('entity_relationships', deleteIn(db, 'entity_relationships', 'source_entity_id', plan.entityIds));
+  add('entity_relationships', deleteIn(db, 'entity_relationships', 'target_entity_id', plan.entityIds));
+  add('semantic_entities', deleteIn(db, 'semantic_entities', 'entity_id', plan.entityIds));
+  add('hourly_summaries', deleteIn(db, 'hourly_summaries', 'hour_start', plan.hourStarts));
+
+  // Rewritten summaries are marked unsynced so the next sync overwrites the cloud copy
+  const rewrite = db.prepare('UPDATE hourly_summaries SET app_breakdown = ?, total_minutes = ?, synced = 0 WHERE id = ?');
+  for (const { id, appBreakdown } of plan.rewrites) {
+    const totalMinutes = appBreakdown.reduce((sum, item) => sum + item.minutes, 0);
+    const items = appBreakdown.map((item) => ({
+      ...item,
+      percentage: totalMinutes > 0 ? Math.round((item.minutes / totalMinutes) * 100) : 0,
+    }));
+    rewrite.run(JSON.stringify(items), totalMinutes, id);
+  }
+
+  return counts;
+}
+
+// ============================================================================
+// Erasure
+// ============================================================================
+
+/**
+ * Delete (or, with `dryRun`, count) everything a selector reaches, locally,
+ * in the transport queue and in the cloud
+ *
+ * @throws Error if the selector is malformed or the database is locked
+ */
+export async function eraseData(selector: ErasureSelector, options: ErasureOptions = {}): Promise<ErasureResult> {
+  assertSelector(selector);
+  if (isFieldEncryptionLocked()) {
+    // Encrypted text can't be matched, so an entity erasure would miss rows
+    throw new Error('Database is locked; unlock it before erasing data');
+  }
+
+  const dryRun = options.dryRun ?? false;
+  const db = getDatabase();
+  const plan = planErasure(db, selector);
+
+  let counts: Record<string, number> = {};
+  try {
+    db.transaction(() => {
+      counts = deletePlan(db, plan);
+      if (dryRun) throw DRY_RUN_ROLLBACK;
+    })();
+  } catch (error) {
+    if (error !== DRY_RUN_ROLLBACK) throw error;
+  }
+  counts.pseudonyms = forgetPseudonyms(plan.pseudonymValues, dryRun);
+
+  const transportQueue = options.transport?.removeMatching(plan.matchesEvent, dryRun) ?? 0;
+
+  const cloudSync = options.cloudSync;
+  const cloud = !dryRun && cloudSync?.isAuthenticated() ? await cloudSync.eraseFromCloud(plan.cloud) : null;
+
+  const total = Object.values(counts).reduce((sum, n) => sum + n, 0);
+  console.log(`[erasure] ${dryRun ? 'Dry run' : 'Erased'} (${selector.kind}): ${total} local rows, ${transportQueue} queued events`);
+
+  return {
+    selector,
+    dryRun,
+    counts,
+    rewrittenSummaries: plan.rewrites.length,
+    transportQueue,
+    cloud,
+  };
+}
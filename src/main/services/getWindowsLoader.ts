@@ -0,0 +1,22 @@
+/**
+ * get-windows Loader
+ *
+ * get-windows is ESM-only, so the CJS main process loads it with a dynamic
+ * import. Shared by the activity tracker, snooze service and presentation
+ * detector so the module is only imported once.
+ */
+
+// eslint-disable-next-line @typescript-eslint/no-implied-eval
+const importESM = new Function('modulePath', 'return import(modulePath)') as (m: string) => Promise<any>;
+
+let _getWindows: any = null;
+
+/**
+ * Load the get-windows module (`activeWindow`, `openWindows`, ...)
+ */
+export async function loadGetWindows(): Promise<any> {
+  if (!_getWindows) {
+    _getWindows = await importESM('get-windows');
+  }
+  return _getWindows;
+}
@@ -0,0 +1,274 @@
+/**
+ * Outbound Audit Ledger
+ *
+ * Records every payload that leaves the device through CloudSyncService or
+ * Transport: destination, local table and row ids, byte size, a hash of the
+ * exact body, the privacy levels it carried and the response status. The
+ * payload itself is not stored.
+ *
+ * - The table is append-only (UPDATE/DELETE triggers abort)
+ * - Each entry hashes the previous entry's hash, so edits made outside the
+ *   app (e.g. dropping the triggers) show up in `verifyOutboundAudit`
+ * - Recording never throws: a failed audit write must not fail the upload
+ */
+
+import { createHash } from 'crypto';
+import { getDatabase } from '../db/database';
+import type { OutboundAuditEntry, OutboundAuditSummary, OutboundChannel } from '../../shared/types';
+import type { TransportUploadRecord } from '../../transport/Transport';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OutboundRecordInput {
+  channel: OutboundChannel;
+  destination: string;
+  tableName: string;
+  rowIds: (string | number)[];
+  /** Exact body sent over the wire */
+  body: string | Buffer;
+  privacyLevels: string[];
+  status: number | null;
+}
+
+export interface OutboundAuditQuery {
+  limit?: number;
+  /** Only entries with an id below this (for paging, newest first) */
+  beforeId?: number;
+  /** Only entries whose payload carried this privacy level */
+  privacyLevel?: string;
+}
+
+export type OutboundExportFormat = 'json' | 'csv';
+
+interface AuditRow {
+  id: number;
+  timestamp: number;
+  channel: OutboundChannel;
+  destination: string;
+  table_name: string;
+  row_ids: string;
+  byte_size: number;
+  payload_hash: string;
+  privacy_levels: string;
+  status: number | null;
+  entry_hash: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const GENESIS_HASH = '0'.repeat(64);
+const MAX_QUERY_LIMIT = 1000;
+
+const CSV_COLUMNS: (keyof OutboundAuditEntry)[] = [
+  'id', 'timestamp', 'channel', 'destination', 'tableName', 'rowIds',
+  'byteSize', 'payloadHash', 'privacyLevels', 'status', 'entryHash',
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hashEntry(prevHash: string, row: Omit<AuditRow, 'id' | 'entry_hash'>): string {
+  return sha256([
+    prevHash,
+    row.timestamp,
+    row.channel,
+    row.destination,
+    row.table_name,
+    row.row_ids,
+    row.byte_size,
+    row.payload_hash,
+    row.privacy_levels,
+    row.status ?? '',
+  ].join('|'));
+}
+
+function rowToEntry(row: AuditRow): OutboundAuditEntry {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    channel: row.channel,
+    destination: row.destination,
+    tableName: row.table_name,
+    rowIds: JSON.parse(row.row_ids),
+    byteSize: row.byte_size,
+    payloadHash: row.payload_hash,
+    privacyLevels: JSON.parse(row.privacy_levels),
+    status: row.status,
+    entryHash: row.entry_hash,
+  };
+}
+
+/**
+ * Distinct `privacy_level` values of the rows in a payload
+ */
+export function collectPrivacyLevels(rows: unknown): string[] {
+  const list = Array.isArray(rows) ? rows : [rows];
+  const levels = new Set<string>();
+  for (const row of list) {
+    const level = (row as { privacy_level?: unknown } | null)?.privacy_level;
+    if (typeof level === 'string') levels.add(level);
+  }
+  return [...levels].sort();
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Append an entry for one outbound request
+ */
+export function recordOutbound(input: OutboundRecordInput): void {
+  try {
+    const db = getDatabase();
+    db.transaction(() => {
+      const last = db.prepare('SELECT entry_hash FROM outbound_audit ORDER BY id DESC LIMIT 1').get() as
+        { entry_hash: string } | undefined;
+
+      const row = {
+        timestamp: Date.now(),
+        channel: input.channel,
+        destination: input.destination,
+        table_name: input.tableName,
+        row_ids: JSON.stringify(input.rowIds.map(String)),
+        byte_size: Buffer.byteLength(input.body),
+        payload_hash: sha256(input.body),
+        privacy_levels: JSON.stringify([...new Set(input.privacyLevels)].sort()),
+        status: input.status,
+      };
+
+      db.prepare(`
+        INSERT INTO outbound_audit (
+          timestamp, channel, destination, table_name, row_ids, byte_size,
+          payload_hash, privacy_levels, status, entry_hash
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        row.timestamp, row.channel, row.destination, row.table_name, row.row_ids, row.byte_size,
+        row.payload_hash, row.privacy_levels, row.status, hashEntry(last?.entry_hash ?? GENESIS_HASH, row),
+      );
+    })();
+
+    if (input.privacyLevels.includes('local_only')) {
+      console.error(`[audit] local_only data sent to ${input.destination} (${input.tableName})`);
+    }
+  } catch (error) {
+    console.error('[audit] Failed to record outbound payload:', error);
+  }
+}
+
+/**
+ * `onUpload` callback for Transport instances
+ */
+export function recordTransportUpload(record: TransportUploadRecord): void {
+  recordOutbound({
+    channel: 'transport',
+    destination: record.destination,
+    tableName: record.eventTypes.join(',') || 'transport_queue',
+    rowIds: record.eventIds,
+    body: record.body,
+    privacyLevels: record.privacyLevels,
+    status: record.status,
+  });
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Ledger entries, newest first
+ */
+export function getOutboundAudit(query: OutboundAuditQuery = {}): OutboundAuditEntry[] {
+  const limit = Math.min(Math.max(1, query.limit ?? 100), MAX_QUERY_LIMIT);
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (query.beforeId !== undefined) {
+    conditions.push('id < ?');
+    params.push(query.beforeId);
+  }
+  if (query.privacyLevel) {
+    conditions.push('EXISTS (SELECT 1 FROM json_each(privacy_levels) WHERE value = ?)');
+    params.push(query.privacyLevel);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = getDatabase().prepare(`
+    SELECT * FROM outbound_audit ${where} ORDER BY id DESC LIMIT ?
+  `).all(...params, limit) as AuditRow[];
+  return rows.map(rowToEntry);
+}
+
+/**
+ * Recompute the hash chain from the first entry
+ */
+export function verifyOutboundAudit(): { valid: boolean; firstBrokenId: number | null } {
+  const rows = getDatabase().prepare('SELECT * FROM outbound_audit ORDER BY id ASC').all() as AuditRow[];
+  let prevHash = GENESIS_HASH;
+  for (const row of rows) {
+    if (hashEntry(prevHash, row) !== row.entry_hash) {
+      return { valid: false, firstBrokenId: row.id };
+    }
+    prevHash = row.entry_hash;
+  }
+  return { valid: true, firstBrokenId: null };
+}
+
+export function getOutboundAuditSummary(): OutboundAuditSummary {
+  const totals = getDatabase().prepare(`
+    SELECT
+      COUNT(*) AS entries,
+      COALESCE(SUM(byte_size), 0) AS bytes,
+      COALESCE(SUM(EXISTS (SELECT 1 FROM json_each(privacy_levels) WHERE value = 'local_only')), 0) AS local_only
+    FROM outbound_audit
+  `).get() as { entries: number; bytes: number; local_only: number };
+  const chain = verifyOutboundAudit();
+
+  return {
+    totalEntries: totals.entries,
+    totalBytes: totals.bytes,
+    localOnlyEntries: totals.local_only,
+    chainValid: chain.valid,
+    firstBrokenId: chain.firstBrokenId,
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function csvCell(value: unknown): string {
+  const text = Array.isArray(value) ? value.join(' ') : value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize the whole ledger, oldest first
+ */
+export function exportOutboundAudit(format: OutboundExportFormat): string {
+  const rows = getDatabase().prepare('SELECT * FROM outbound_audit ORDER BY id ASC').all() as AuditRow[];
+  const entries = rows.map(rowToEntry);
+
+  if (format === 'csv') {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const entry of entries) {
+      lines.push(CSV_COLUMNS.map((column) => csvCell(entry[column])).join(','));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    summary: getOutboundAuditSummary(),
+    entries,
+  }, null, 2);
+}
@@ -0,0 +1,267 @@
+/**
+ * Presentation Detector
+ *
+ * Detects when the screen is being shown to others, so capture can pause:
+ * - Screen-share indicator windows from meeting apps (Zoom share toolbar,
+ *   Teams sharing control bar, "meet.google.com is sharing your screen")
+ * - Keynote / PowerPoint slide shows and presenter view, or either app
+ *   filling a whole display
+ *
+ * Open windows are polled every few seconds. Presenting starts on the first
+ * match and ends only after several checks in a row without one, so a share
+ * toolbar that briefly hides does not flip capture back on mid-meeting.
+ */
+
+import { EventEmitter } from 'events';
+import { screen } from 'electron';
+import { loadGetWindows } from './getWindowsLoader';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PresentingReason = 'screen_share' | 'slideshow';
+
+export interface WindowBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface WindowSnapshot {
+  app: string;
+  title: string;
+  bounds?: WindowBounds;
+}
+
+export interface PresentingRule {
+  id: string;
+  reason: PresentingReason;
+  apps?: string[]; // app names, case-insensitive; `*` matches any characters
+  titlePattern?: RegExp;
+  fullScreen?: boolean; // window covers a whole display
+}
+
+export interface PresentingSignal {
+  ruleId: string;
+  reason: PresentingReason;
+  app: string;
+  title: string;
+  since: number;
+}
+
+export interface PresentationDetectorOptions {
+  /** On-screen windows (default: get-windows `openWindows`) */
+  listWindows?: () => Promise<WindowSnapshot[]>;
+  /** Display bounds for full-screen checks (default: Electron `screen`) */
+  getDisplays?: () => WindowBounds[];
+  /** How often windows are checked (default: 3s) */
+  checkIntervalMs?: number;
+  /** Checks in a row without a match before presenting ends (default: 2) */
+  clearAfterChecks?: number;
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+const SLIDESHOW_APPS = ['Keynote', 'Microsoft PowerPoint', 'PowerPoint'];
+
+export const PRESENTING_RULES: PresentingRule[] = [
+  {
+    id: 'zoom-share',
+    reason: 'screen_share',
+    apps: ['zoom.us', 'Zoom*'],
+    titlePattern: /^zoom share (toolbar|statusbar) window$|you are screen sharing/i,
+  },
+  {
+    id: 'teams-share',
+    reason: 'screen_share',
+    apps: ['Microsoft Teams*', 'Teams'],
+    titlePattern: /sharing control bar/i,
+  },
+  {
+    // Browsers (Google Meet, Teams web), Webex, Slack huddles and others
+    id: 'sharing-indicator',
+    reason: 'screen_share',
+    titlePattern: /\bis sharing (your|a|this) (screen|window|tab)\b|\byou('re| are) (screen )?(sharing|presenting)\b/i,
+  },
+  {
+    id: 'slideshow-window',
+    reason: 'slideshow',
+    apps: SLIDESHOW_APPS,
+    titlePattern: /slide ?show|presenter view/i,
+  },
+  {
+    id: 'slideshow-fullscreen',
+    reason: 'slideshow',
+    apps: SLIDESHOW_APPS,
+    fullScreen: true,
+  },
+];
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+// A couple of pixels of slack for menu bar rounding and scaled displays
+const FULL_SCREEN_TOLERANCE = 2;
+
+function coversDisplay(bounds: WindowBounds, displays: WindowBounds[]): boolean {
+  return displays.some((d) =>
+    Math.abs(bounds.x - d.x) <= FULL_SCREEN_TOLERANCE &&
+    Math.abs(bounds.y - d.y) <= FULL_SCREEN_TOLERANCE &&
+    bounds.width >= d.width - FULL_SCREEN_TOLERANCE &&
+    bounds.height >= d.height - FULL_SCREEN_TOLERANCE,
+  );
+}
+
+/**
+ * First rule matching any window, in rule order
+ */
+export function matchPresenting(
+  windows: WindowSnapshot[],
+  displays: WindowBounds[],
+  rules: PresentingRule[] = PRESENTING_RULES,
+): { rule: PresentingRule; window: WindowSnapshot } | null {
+  for (const rule of rules) {
+    const apps = rule.apps?.map(globToRegExp);
+    for (const window of windows) {
+      if (apps && !apps.some((re) => re.test(window.app))) continue;
+      if (rule.titlePattern && !rule.titlePattern.test(window.title)) continue;
+      if (rule.fullScreen && !(window.bounds && coversDisplay(window.bounds, displays))) continue;
+      return { rule, window };
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// Default Window Source
+// ============================================================================
+
+async function listOpenWindows(): Promise<WindowSnapshot[]> {
+  const { openWindows } = await loadGetWindows();
+  const windows = (await openWindows()) as { title: string; owner: { name: string }; bounds: WindowBounds }[];
+  return windows.map((w) => ({ app: w.owner.name, title: w.title, bounds: w.bounds }));
+}
+
+function getDisplayBounds(): WindowBounds[] {
+  return screen.getAllDisplays().map((d) => d.bounds);
+}
+
+// ============================================================================
+// Presentation Detector
+// ============================================================================
+
+export class PresentationDetector extends EventEmitter {
+  private listWindows: () => Promise<WindowSnapshot[]>;
+  private getDisplays: () => WindowBounds[];
+  private checkIntervalMs: number;
+  private clearAfterChecks: number;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+  private signal: PresentingSignal | null = null;
+  private clearChecks = 0;
+
+  constructor(options: PresentationDetectorOptions = {}) {
+    super();
+    this.listWindows = options.listWindows ?? listOpenWindows;
+    this.getDisplays = options.getDisplays ?? getDisplayBounds;
+    this.checkIntervalMs = options.checkIntervalMs ?? 3000;
+    this.clearAfterChecks = options.clearAfterChecks ?? 2;
+  }
+
+  // ============================================================================
+  // Lifecycle
+  // ============================================================================
+
+  start(): void {
+    if (this.timer) return;
+    console.log('[presenting] Starting presentation detector');
+    this.timer = setInterval(() => {
+      this.check().catch(() => {});
+    }, this.checkIntervalMs);
+    this.check().catch(() => {});
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    // Don't leave capture paused once nothing is watching for the end
+    this.setSignal(null);
+  }
+
+  // ============================================================================
+  // Detection
+  // ============================================================================
+
+  /**
+   * Check open windows once and update the presenting state
+   *
+   * @returns Current signal, or null when not presenting
+   */
+  async check(): Promise<PresentingSignal | null> {
+    if (this.checking) return this.signal;
+    this.checking = true;
+    try {
+      const match = matchPresenting(await this.listWindows(), this.getDisplays());
+      if (match) {
+        this.clearChecks = 0;
+        if (!this.signal) {
+          this.setSignal({
+            ruleId: match.rule.id,
+            reason: match.rule.reason,
+            app: match.window.app,
+            title: match.window.title,
+            since: Date.now(),
+          });
+        }
+      } else if (this.signal && ++this.clearChecks >= this.clearAfterChecks) {
+        this.setSignal(null);
+      }
+    } catch (error) {
+      // Keep the current state; a failed read says nothing about sharing
+      console.error('[presenting] Failed to list windows:', error);
+    } finally {
+      this.checking = false;
+    }
+    return this.signal;
+  }
+
+  private setSignal(signal: PresentingSignal | null): void {
+    if (signal === this.signal) return;
+    this.signal = signal;
+    this.clearChecks = 0;
+    if (signal) {
+      console.log(`[presenting] Presenting detected (${signal.ruleId}: ${signal.app}), pausing capture`);
+    } else {
+      console.log('[presenting] Presenting ended, resuming capture');
+    }
+    this.emit('change', signal);
+  }
+
+  // ============================================================================
+  // Status
+  // ============================================================================
+
+  isPresenting(): boolean {
+    return this.signal !== null;
+  }
+
+  getSignal(): PresentingSignal | null {
+    return this.signal;
+  }
+}
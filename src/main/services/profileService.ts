@@ -0,0 +1,264 @@
+/**
+ * Profile Service
+ *
+ * Local profiles (e.g. work / personal) keep separate timelines:
+ * - Each profile has its own database file, settings (including privacy
+ *   rules such as excluded apps) and cloud sign-in
+ * - Profiles are switched from the tray, over IPC, or automatically by
+ *   selection rules matching the frontmost app and the time of day
+ *
+ * Switching closes the current profile's database and opens the next one.
+ * The host stops services that hold database state before the switch and
+ * restarts them afterwards (see the `beforeSwitch` / `afterSwitch` hooks).
+ */
+
+import { EventEmitter } from 'events';
+import {
+  getProfileConfig,
+  getActiveProfile,
+  setActiveProfileId,
+  createProfile,
+  deleteProfile,
+  updateProfileConfig,
+} from '../store';
+import { switchDatabase, deleteDatabaseFiles } from '../db/database';
+import { Profile, ProfileConfig, ProfileRule } from '../../shared/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ProfileSwitchReason = 'manual' | 'rule';
+
+export interface ProfileServiceOptions {
+  /** Called before the database is switched (flush and stop DB-backed services) */
+  beforeSwitch?: (from: Profile, to: Profile) => Promise<void> | void;
+  /** Called once the new profile's database and settings are active */
+  afterSwitch?: (profile: Profile, reason: ProfileSwitchReason) => Promise<void> | void;
+  /** Frontmost app name for app-based rules */
+  getCurrentApp?: () => string | null | undefined;
+  /** How often rules are re-checked (default: 30s) */
+  checkIntervalMs?: number;
+}
+
+// ============================================================================
+// Rule Matching
+// ============================================================================
+
+function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check that a rule is well-formed (known profile, valid times and days)
+ *
+ * @returns Error message, or null if the rule is valid
+ */
+export function validateProfileRule(rule: ProfileRule, profiles: Profile[]): string | null {
+  if (!profiles.some((p) => p.id === rule.profileId)) {
+    return `Unknown profile: ${rule.profileId}`;
+  }
+  if (rule.apps && (!Array.isArray(rule.apps) || rule.apps.some((a) => typeof a !== 'string'))) {
+    return 'apps must be a list of app names';
+  }
+  if (rule.days && (!Array.isArray(rule.days) || rule.days.some((d) => !Number.isInteger(d) || d < 0 || d > 6))) {
+    return 'days must be numbers from 0 (Sunday) to 6';
+  }
+  if ((rule.startTime === undefined) !== (rule.endTime === undefined)) {
+    return 'startTime and endTime must be set together';
+  }
+  if (rule.startTime !== undefined && (parseTime(rule.startTime) === null || parseTime(rule.endTime!) === null)) {
+    return 'startTime and endTime must be HH:MM';
+  }
+  return null;
+}
+
+/**
+ * Find the first rule matching the given app and time
+ *
+ * @returns Index of the matching rule, or -1
+ */
+export function matchProfileRule(rules: ProfileRule[], appName: string | null | undefined, now: Date): number {
+  const app = appName?.toLowerCase();
+  const minutes = now.getHours() * 60 + now.getMinutes();
+
+  return rules.findIndex((rule) => {
+    if (rule.apps && rule.apps.length > 0) {
+      if (!app || !rule.apps.some((a) => a.toLowerCase() === app)) return false;
+    }
+    if (rule.days && rule.days.length > 0 && !rule.days.includes(now.getDay())) {
+      return false;
+    }
+    if (rule.startTime !== undefined && rule.endTime !== undefined) {
+      const start = parseTime(rule.startTime);
+      const end = parseTime(rule.endTime);
+      if (start === null || end === null) return false;
+      const inWindow = start <= end
+        ? minutes >= start && minutes < end
+        : minutes >= start || minutes < end; // wraps past midnight
+      if (!inWindow) return false;
+    }
+    return true;
+  });
+}
+
+// ============================================================================
+// Profile Service Class
+// ============================================================================
+
+export class ProfileService extends EventEmitter {
+  private opts: ProfileServiceOptions;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private switching: Promise<Profile> | null = null;
+  // Rule that matched on the last check. Rules only switch when the match
+  // changes, so a manual switch sticks until the situation changes.
+  private lastMatch: string | null = null;
+
+  constructor(opts: ProfileServiceOptions = {}) {
+    super();
+    this.opts = { checkIntervalMs: 30000, ...opts };
+  }
+
+  // ============================================================================
+  // Lifecycle
+  // ============================================================================
+
+  start(): void {
+    if (this.checkTimer) return;
+    this.checkTimer = setInterval(() => {
+      this.evaluateRules().catch((err) => {
+        console.error('[profiles] Rule check failed:', err);
+      });
+    }, this.opts.checkIntervalMs);
+    this.checkTimer.unref?.();
+    console.log('[profiles] Started, active profile:', getActiveProfile().name);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  // ============================================================================
+  // Profiles
+  // ============================================================================
+
+  getConfig(): ProfileConfig {
+    return getProfileConfig();
+  }
+
+  getActiveProfile(): Profile {
+    return getActiveProfile();
+  }
+
+  create(name: string): Profile {
+    const profile = createProfile(name);
+    console.log('[profiles] Created profile:', profile.name);
+    this.emit('changed', this.getConfig());
+    return profile;
+  }
+
+  /**
+   * Delete a profile with its settings, credentials and database
+   */
+  delete(id: string): void {
+    deleteProfile(id);
+    deleteDatabaseFiles(id);
+    console.log('[profiles] Deleted profile:', id);
+    this.emit('changed', this.getConfig());
+  }
+
+  /**
+   * Replace the selection rules and/or toggle automatic switching
+   *
+   * @throws Error if a rule is invalid
+   */
+  updateRules(updates: { rules?: ProfileRule[]; autoSwitch?: boolean }): ProfileConfig {
+    const config = this.getConfig();
+    for (const rule of updates.rules ?? []) {
+      const error = validateProfileRule(rule, config.profiles);
+      if (error) throw new Error(error);
+    }
+    const updated = updateProfileConfig(updates);
+    this.lastMatch = null;
+    this.emit('changed', updated);
+    return updated;
+  }
+
+  /**
+   * Make another profile active
+   *
+   * @returns The active profile after the switch
+   * @throws Error if the profile does not exist
+   */
+  async switchTo(id: string, reason: ProfileSwitchReason = 'manual'): Promise<Profile> {
+    // Serialize switches; a second request waits for the first to finish
+    while (this.switching) {
+      await this.switching.catch(() => undefined);
+    }
+
+    const from = getActiveProfile();
+    const to = this.getConfig().profiles.find((p) => p.id === id);
+    if (!to) {
+      throw new Error(`Unknown profile: ${id}`);
+    }
+    if (to.id === from.id) return from;
+
+    this.switching = this.performSwitch(from, to, reason);
+    try {
+      return await this.switching;
+    } finally {
+      this.switching = null;
+    }
+  }
+
+  /**
+   * Check selection rules now and switch if a newly matching rule selects another profile
+   *
+   * @returns The profile switched to, or null if nothing changed
+   */
+  async evaluateRules(now: Date = new Date()): Promise<Profile | null> {
+    const config = this.getConfig();
+    if (!config.autoSwitch || config.rules.length === 0 || this.switching) return null;
+
+    const index = matchProfileRule(config.rules, this.opts.getCurrentApp?.(), now);
+    const match = index >= 0 ? `${index}:${config.rules[index].profileId}` : null;
+    if (match === this.lastMatch) return null;
+    this.lastMatch = match;
+
+    if (index < 0 || config.rules[index].profileId === config.activeProfileId) return null;
+    return this.switchTo(config.rules[index].profileId, 'rule');
+  }
+
+  // ============================================================================
+  // Internals
+  // ============================================================================
+
+  private async performSwitch(from: Profile, to: Profile, reason: ProfileSwitchReason): Promise<Profile> {
+    console.log(`[profiles] Switching from "${from.name}" to "${to.name}" (${reason})`);
+    await this.opts.beforeSwitch?.(from, to);
+
+    try {
+      await switchDatabase(to.id);
+      setActiveProfileId(to.id);
+    } catch (err) {
+      // Fall back to the previous profile so the app keeps a working database
+      console.error('[profiles] Switch failed, restoring previous profile:', err);
+      await switchDatabase(from.id);
+      await this.opts.afterSwitch?.(from, reason);
+      throw err;
+    }
+
+    await this.opts.afterSwitch?.(to, reason);
+    this.emit('switched', to, reason);
+    this.emit('changed', this.getConfig());
+    return to;
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Pseudonym Vault
+ *
+ * Replaces people, organizations and email addresses with stable tokens
+ * (e.g. `person_3fa9c21b`) in everything that leaves the device. The
+ * token → value mapping is stored only in the local database (values are
+ * field-encrypted), so the local UI and chat can resolve tokens back.
+ *
+ * - Tokens are random and assigned once per value, so they are stable on
+ *   this device and meaningless anywhere else
+ * - People and organizations come from the entity registry; emails are
+ *   registered as they are found in outgoing text
+ * - Names are matched in any case, as whole words; in free text only names
+ *   of at least MIN_NAME_LENGTH characters are replaced
+ * - An entity's own name is always replaced (see pseudonymizeEntityName)
+ */
+
+import { randomBytes } from 'crypto';
+import type Database from 'better-sqlite3';
+import { getDatabase } from '../db/database';
+import { decryptField, encryptField } from '../db/fieldEncryption';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PseudonymKind = 'person' | 'organization' | 'email';
+
+export interface Pseudonym {
+  token: string;
+  kind: PseudonymKind;
+  value: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TOKEN_PREFIX: Record<PseudonymKind, string> = {
+  person: 'person',
+  organization: 'org',
+  email: 'email',
+};
+
+const TOKEN_PATTERN = /\b(?:person|org|email)_[0-9a-f]{8}\b/g;
+const EMAIL_SOURCE = '[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)*\\.[A-Za-z]{2,}';
+const EMAIL_PATTERN = new RegExp(`^${EMAIL_SOURCE}$`);
+
+// Shorter names match too much ordinary text (Jira keys, initials); free text only
+const MIN_NAME_LENGTH = 3;
+
+// ============================================================================
+// Vault Cache
+// ============================================================================
+
+interface VaultCache {
+  db: Database.Database;
+  byValue: Map<string, Pseudonym>;
+  byToken: Map<string, Pseudonym>;
+  matcher: RegExp | null;
+}
+
+// Keyed by database instance so switching profiles reloads the vault
+let cache: VaultCache | null = null;
+
+function valueKey(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function loadVault(): VaultCache {
+  const db = getDatabase();
+  if (cache && cache.db === db) return cache;
+
+  const rows = db.prepare('SELECT token, kind, value FROM pseudonyms ORDER BY id').all() as
+    { token: string; kind: PseudonymKind; value: string }[];
+
+  const next: VaultCache = { db, byValue: new Map(), byToken: new Map(), matcher: null };
+  for (const row of rows) {
+    const value = decryptField(row.value);
+    if (value === null) {
+      // A partial vault would hand out second tokens for the same names
+      throw new Error('Pseudonym vault could not be read; unlock the database first');
+    }
+    const entry: Pseudonym = { token: row.token, kind: row.kind, value };
+    next.byValue.set(valueKey(value), entry);
+    next.byToken.set(row.token, entry);
+  }
+
+  cache = next;
+  return next;
+}
+
+/**
+ * One case-insensitive pattern for emails and every known name long enough
+ * for free text, longest names first so "Jan de Vries" wins over "Jan"
+ */
+function getMatcher(vault: VaultCache): RegExp {
+  if (!vault.matcher) {
+    const names = [...vault.byValue.values()]
+      .filter((p) => p.kind !== 'email')
+      .map((p) => p.value.trim())
+      .filter((name) => name.length >= MIN_NAME_LENGTH)
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp);
+    const alternatives = [EMAIL_SOURCE];
+    if (names.length > 0) {
+      alternatives.push(`(?<![\\w@.])(?:${names.join('|')})(?![\\w@])`);
+    }
+    vault.matcher = new RegExp(alternatives.join('|'), 'gi');
+  }
+  vault.matcher.lastIndex = 0;
+  return vault.matcher;
+}
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+/**
+ * Get the token for a value, creating it on first use
+ *
+ * @throws Error if the database is locked
+ */
+export function registerPseudonym(value: string, kind: PseudonymKind): string {
+  const vault = loadVault();
+  const key = valueKey(value);
+  const existing = vault.byValue.get(key);
+  if (existing) return existing.token;
+
+  let token: string;
+  do {
+    token = `${TOKEN_PREFIX[kind]}_${randomBytes(4).toString('hex')}`;
+  } while (vault.byToken.has(token));
+
+  const trimmed = value.trim();
+  vault.db.prepare(`
+    INSERT INTO pseudonyms (token, kind, value, created_at) VALUES (?, ?, ?, ?)
+  `).run(token, kind, encryptField(trimmed), Date.now());
+
+  const entry: Pseudonym = { token, kind, value: trimmed };
+  vault.byValue.set(key, entry);
+  vault.byToken.set(token, entry);
+  if (kind !== 'email') vault.matcher = null;
+  return token;
+}
+
+/**
+ * Register every person and organization entity that has no token yet
+ *
+ * @returns Number of new pseudonyms
+ */
+export function importEntityPseudonyms(): number {
+  const vault = loadVault();
+  const rows = vault.db.prepare(`
+    SELECT DISTINCT name, type FROM semantic_entities WHERE type IN ('person', 'organization')
+  `).all() as { name: string; type: 'person' | 'organization' }[];
+
+  let added = 0;
+  for (const row of rows) {
+    if (row.name.trim().length === 0 || vault.byValue.has(valueKey(row.name))) continue;
+    registerPseudonym(row.name, row.type);
+    added++;
+  }
+  return added;
+}
+
+/**
+ * Delete the tokens for these values (right-to-erasure). Tokens already
+ * uploaded can no longer be resolved on this device.
+ *
+ * @returns Number of pseudonyms deleted (or that would be deleted)
+ */
+export function forgetPseudonyms(values: string[], dryRun = false): number {
+  const vault = loadVault();
+  const entries = [...new Set(values.map(valueKey))]
+    .map((key) => vault.byValue.get(key))
+    .filter((entry): entry is Pseudonym => entry !== undefined);
+  if (dryRun || entries.length === 0) return entries.length;
+
+  const del = vault.db.prepare('DELETE FROM pseudonyms WHERE token = ?');
+  for (const entry of entries) {
+    del.run(entry.token);
+    vault.byValue.delete(valueKey(entry.value));
+    vault.byToken.delete(entry.token);
+  }
+  vault.matcher = null;
+  return entries.length;
+}
+
+// ============================================================================
+// Pseudonymize / Resolve
+// ============================================================================
+
+/**
+ * Replace known names and any email address with their tokens
+ */
+export function pseudonymizeText(text: string): string;
+export function pseudonymizeText(text: string | null | undefined): string | null | undefined;
+export function pseudonymizeText(text: string | null | undefined): string | null | undefined {
+  if (!text) return text;
+  const vault = loadVault();
+  return text.replace(getMatcher(vault), (match) => {
+    if (EMAIL_PATTERN.test(match)) return registerPseudonym(match, 'email');
+    return vault.byValue.get(valueKey(match))?.token ?? match;
+  });
+}
+
+/**
+ * Pseudonymize the name of an entity row. People and organizations are
+ * always replaced by their token, however short the name; other entity
+ * types go through pseudonymizeText.
+ */
+export function pseudonymizeEntityName(name: string, type: string): string {
+  if ((type === 'person' || type === 'organization') && name.trim().length > 0) {
+    return registerPseudonym(name, type);
+  }
+  return pseudonymizeText(name);
+}
+
+/**
+ * Pseudonymize every string inside a JSON-like value
+ */
+export function pseudonymizeJson<T>(value: T): T {
+  if (typeof value === 'string') return pseudonymizeText(value) as T;
+  if (Array.isArray(value)) return value.map((item) => pseudonymizeJson(item)) as T;
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = pseudonymizeJson(item);
+    }
+    return result as T;
+  }
+  return value;
+}
+
+/**
+ * Replace tokens with the original values; unknown tokens are left as-is
+ */
+export function resolvePseudonyms(text: string): string {
+  if (!text) return text;
+  const vault = loadVault();
+  TOKEN_PATTERN.lastIndex = 0;
+  return text.replace(TOKEN_PATTERN, (token) => vault.byToken.get(token)?.value ?? token);
+}
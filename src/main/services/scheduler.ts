@@ -349,26 +349,26 @@ export class Scheduler {
         }
       }
 
-      // Merge commitments from accessibility-based DeepContextEngine
-      if (this.deepContextEngine) {
+      // Commitments from both detectors share one table, which the screen
+      // pipeline already read; without it, read them through the engine
+      if (this.deepContextEngine && !deepContextData?.commitments) {
         try {
           const now = new Date();
           const lastHour = new Date(now);
           lastHour.setHours(lastHour.getHours() - 1);
           lastHour.setMinutes(0, 0, 0);
-          const engineCommitments = this.deepContextEngine.getCommitments(lastHour.getTime());
+          const hourStart = lastHour.getTime();
+          const engineCommitments = this.deepContextEngine.getCommitments(hourStart, hourStart + 60 * 60 * 1000);
           if (engineCommitments.length > 0) {
             deepContextData = deepContextData || {};
-            const existing = deepContextData.commitments || [];
-            deepContextData.commitments = [
-              ...existing,
-              ...engineCommitments.map(c => ({
-                text: c.description,
-                type: c.requiredAction || 'other',
-                confidence: 0.8,
-              })),
-            ];
-            console.log(`[scheduler] Merged ${engineCommitments.length} commitments from deep context engine`);
+            deepContextData.commitments = engineCommitments.slice(0, 10).map(c => ({
+              text: c.text,
+              type: c.type,
+              recipient: c.recipient ?? null,
+              deadline: c.deadline ?? null,
+              confidence: c.confidence,
+            }));
+            console.log(`[scheduler] Included ${engineCommitments.length} commitments from deep context engine`);
           }
         } catch (error) {
           console.error('[scheduler] Failed to get engine commitments:', error);
@@ -453,24 +453,22 @@ export class Scheduler {
           }
         }
 
-        // Merge commitments from accessibility-based DeepContextEngine
-        if (this.deepContextEngine) {
+        // Same as the hourly summary: only when the screen pipeline had none
+        if (this.deepContextEngine && !deepContextData?.commitments) {
           try {
             const now = new Date();
             const currentHour = new Date(now);
             currentHour.setMinutes(0, 0, 0);
-            const engineCommitments = this.deepContextEngine.getCommitments(currentHour.getTime());
+            const engineCommitments = this.deepContextEngine.getCommitments(currentHour.getTime(), now.getTime());
             if (engineCommitments.length > 0) {
               deepContextData = deepContextData || {};
-              const existing = deepContextData.commitments || [];
-              deepContextData.commitments = [
-                ...existing,
-                ...engineCommitments.map(c => ({
-                  text: c.description,
-                  type: c.requiredAction || 'other',
-                  confidence: 0.8,
-                })),
-              ];
+              deepContextData.commitments = engineCommitments.slice(0, 10).map(c => ({
+                text: c.text,
+                type: c.type,
+                recipient: c.recipient ?? null,
+                deadline: c.deadline ?? null,
+                confidence: c.confidence,
+              }));
             }
           } catch (err) {
             console.error('[scheduler] Failed to get engine commitments for sync:', err);
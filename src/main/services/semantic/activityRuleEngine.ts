@@ -9,6 +9,7 @@
  * 0.3–0.9 depending on match strength.
  */
 
+import { SHELL_APPLICATION } from '../../../deep-context/capture/shellHistory';
 import type { ContextEvent } from '../../../deep-context/types';
 import type { ActivityType, ActivitySubtype, ActivityClassification } from './types';
 
@@ -42,6 +43,7 @@ const APP_ACTIVITY_MAP: Record<string, AppActivity> = {
   'android studio': { type: 'BUILDING', subtype: 'coding', confidence: 0.85 },
   'fleet': { type: 'BUILDING', subtype: 'coding', confidence: 0.85 },
   'nova': { type: 'BUILDING', subtype: 'coding', confidence: 0.85 },
+  'git': { type: 'BUILDING', subtype: 'coding', confidence: 0.90 }, // git activity capture source
 
   // --- Design Tools → BUILDING / designing ---
   'figma': { type: 'BUILDING', subtype: 'designing', confidence: 0.85 },
@@ -345,6 +347,17 @@ const BROWSER_APPS = new Set([
   'google chrome', 'microsoft edge', 'mozilla firefox',
 ]);
 
+// Command categories from the shell history capture source (event intent)
+const SHELL_INTENT_MAP: Record<string, AppActivity> = {
+  'deploy': { type: 'OPERATING', subtype: 'deploying', confidence: 0.90 },
+  'test': { type: 'OPERATING', subtype: 'testing_infra', confidence: 0.90 },
+  'infrastructure': { type: 'OPERATING', subtype: 'configuring', confidence: 0.85 },
+  'monitor': { type: 'OPERATING', subtype: 'monitoring', confidence: 0.85 },
+  'install packages': { type: 'OPERATING', subtype: 'updating', confidence: 0.85 },
+  'build': { type: 'BUILDING', subtype: 'coding', confidence: 0.80 },
+  'version control': { type: 'BUILDING', subtype: 'coding', confidence: 0.75 },
+};
+
 // ============================================================================
 // Rule Engine
 // ============================================================================
@@ -360,6 +373,19 @@ export class ActivityRuleEngine {
     const url = event.source.url || '';
     const combinedTitle = `${windowTitle} ${url}`.trim();
 
+    // 0. Shell commands carry their category as the intent
+    if (event.source.application === SHELL_APPLICATION) {
+      const shellMatch = SHELL_INTENT_MAP[event.semanticPayload.intent ?? ''];
+      if (shellMatch) {
+        return {
+          activityType: shellMatch.type,
+          activitySubtype: shellMatch.subtype,
+          confidence: shellMatch.confidence,
+          method: 'rule',
+        };
+      }
+    }
+
     // 1. Try window title patterns first (they override app-level classification)
     //    — but only for browsers and terminals where context varies heavily
     const isBrowser = BROWSER_APPS.has(appName);
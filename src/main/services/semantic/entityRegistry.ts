@@ -12,7 +12,8 @@
 import { EventEmitter } from 'events';
 import { randomUUID } from 'crypto';
 import type { ContextEvent } from '../../../deep-context/types';
-import type { Entity, EntityType, EntityRole, ExtractionMethod, RelationshipType } from './types';
+import { GIT_APPLICATION } from '../../../deep-context/capture/gitActivity';
+import type { Entity, EntityType, EntityRole, ExtractionMethod, PrivacyLevel, RelationshipType } from './types';
 import {
   insertEntity,
   updateEntity,
@@ -114,6 +115,9 @@ const FILE_EXT_TECHNOLOGY: Record<string, string> = {
 // Git branch → project extraction
 const GIT_BRANCH_PATTERN = /(?:feat|fix|chore|hotfix)[/]([A-Za-z0-9_-]+)/i;
 
+// Branches that say nothing about the work on them
+const DEFAULT_BRANCHES = new Set(['main', 'master', 'develop', 'development', 'trunk']);
+
 // Window title patterns for project context
 const TITLE_PROJECT_PATTERNS = [
   // "filename — ProjectName" (VS Code, Cursor, etc.)
@@ -369,20 +373,43 @@ export class EntityRegistry extends EventEmitter {
     const now = Date.now();
     const entities: Entity[] = [];
     const seen = new Set<string>();
+    // Entities first seen in a local_only event stay on the device
+    const privacyLevel: PrivacyLevel = event.privacyLevel ?? 'sync_allowed';
 
     // 1. Tool entity from app name
     const tool = this.extractToolEntity(event.source.application);
     if (tool && !seen.has(this.normalizeKey(tool.name))) {
-      const resolved = this.resolveOrCreate(tool.name, 'tool', 'rule', now, event.source.application);
+      const resolved = this.resolveOrCreate(tool.name, 'tool', 'rule', now, event.source.application, privacyLevel);
       entities.push(resolved);
       seen.add(this.normalizeKey(tool.name));
     }
 
+    // 1.5 Repository, branch and ticket from git activity events,
+    // whose entities are [repository, branch?, ticket?]
+    if (event.source.application === GIT_APPLICATION) {
+      const [repository, branch, ticket] = event.semanticPayload.entities ?? [];
+      const gitEntities: [string | undefined, EntityType, string][] = [
+        [repository, 'project', 'git_repository'],
+        [branch && !DEFAULT_BRANCHES.has(branch.toLowerCase()) ? branch : undefined, 'topic', 'git_branch'],
+        [ticket, 'topic', 'git_ticket'],
+      ];
+      for (const [name, type, source] of gitEntities) {
+        if (name && !seen.has(this.normalizeKey(name))) {
+          entities.push(this.resolveOrCreate(name, type, 'rule', now, source, privacyLevel));
+          seen.add(this.normalizeKey(name));
+        }
+      }
+      // Keep default branch names out of the generic topic pass below
+      for (const name of event.semanticPayload.entities ?? []) {
+        seen.add(this.normalizeKey(name));
+      }
+    }
+
     // 2. Project entity from window title / file path
     const projects = this.extractProjectEntities(event.source.windowTitle, event.source.filePath);
     for (const projectName of projects) {
       if (!seen.has(this.normalizeKey(projectName))) {
-        const resolved = this.resolveOrCreate(projectName, 'project', 'rule', now, event.source.windowTitle);
+        const resolved = this.resolveOrCreate(projectName, 'project', 'rule', now, event.source.windowTitle, privacyLevel);
         entities.push(resolved);
         seen.add(this.normalizeKey(projectName));
       }
@@ -391,7 +418,7 @@ export class EntityRegistry extends EventEmitter {
     // 2.5 Technology entity from file extension
     const techEntity = this.extractTechnologyEntity(event.source.filePath, event.source.windowTitle);
     if (techEntity && !seen.has(this.normalizeKey(techEntity))) {
-      const resolved = this.resolveOrCreate(techEntity, 'topic', 'rule', now, 'file_extension');
+      const resolved = this.resolveOrCreate(techEntity, 'topic', 'rule', now, 'file_extension', privacyLevel);
       entities.push(resolved);
       seen.add(this.normalizeKey(techEntity));
     }
@@ -405,7 +432,7 @@ export class EntityRegistry extends EventEmitter {
     const people = this.extractPeopleEntities(textSources);
     for (const personName of people) {
       if (!seen.has(this.normalizeKey(personName))) {
-        const resolved = this.resolveOrCreate(personName, 'person', 'regex', now, 'text_extraction');
+        const resolved = this.resolveOrCreate(personName, 'person', 'regex', now, 'text_extraction', privacyLevel);
         entities.push(resolved);
         seen.add(this.normalizeKey(personName));
       }
@@ -415,7 +442,7 @@ export class EntityRegistry extends EventEmitter {
     const orgs = this.extractOrganizationEntities(event.source.windowTitle, event.source.url);
     for (const orgName of orgs) {
       if (!seen.has(this.normalizeKey(orgName))) {
-        const resolved = this.resolveOrCreate(orgName, 'organization', 'rule', now, 'title_extraction');
+        const resolved = this.resolveOrCreate(orgName, 'organization', 'rule', now, 'title_extraction', privacyLevel);
         entities.push(resolved);
         seen.add(this.normalizeKey(orgName));
       }
@@ -425,7 +452,7 @@ export class EntityRegistry extends EventEmitter {
     if (event.semanticPayload.entities) {
       for (const entityStr of event.semanticPayload.entities) {
         if (!seen.has(this.normalizeKey(entityStr)) && this.isValidTopic(entityStr)) {
-          const resolved = this.resolveOrCreate(entityStr, 'topic', 'regex', now, 'deep_context');
+          const resolved = this.resolveOrCreate(entityStr, 'topic', 'regex', now, 'deep_context', privacyLevel);
           entities.push(resolved);
           seen.add(this.normalizeKey(resolved.name));
         }
@@ -439,7 +466,7 @@ export class EntityRegistry extends EventEmitter {
         if (Array.isArray(skillPath) && skillPath.length > 0) {
           const leafSkill = skillPath[skillPath.length - 1];
           if (leafSkill && typeof leafSkill === 'string' && !seen.has(this.normalizeKey(leafSkill)) && this.isValidTopic(leafSkill)) {
-            const resolved = this.resolveOrCreate(leafSkill, 'topic', 'rule', now, 'skill_signal');
+            const resolved = this.resolveOrCreate(leafSkill, 'topic', 'rule', now, 'skill_signal', privacyLevel);
             entities.push(resolved);
             seen.add(this.normalizeKey(leafSkill));
           }
@@ -491,6 +518,7 @@ export class EntityRegistry extends EventEmitter {
     method: ExtractionMethod,
     timestamp: number,
     source: string,
+    privacyLevel: PrivacyLevel = 'sync_allowed',
   ): Entity {
     const normalizedKey = this.normalizeKey(mention);
 
@@ -551,7 +579,7 @@ export class EntityRegistry extends EventEmitter {
       lastSeen: timestamp,
       occurrenceCount: 1,
       metadata: { source },
-      privacyLevel: 'sync_allowed',
+      privacyLevel,
       synced: false,
       createdAt: now,
       updatedAt: now,
@@ -951,6 +979,13 @@ export class EntityRegistry extends EventEmitter {
       db.prepare('UPDATE OR IGNORE entity_relationships SET target_entity_id = ? WHERE target_entity_id = ?')
         .run(targetId, sourceId);
 
+      // A local_only entity never becomes syncable by being merged
+      db.prepare(`
+        UPDATE semantic_entities SET privacy_level = 'local_only' WHERE entity_id = ? AND EXISTS (
+          SELECT 1 FROM semantic_entities WHERE entity_id = ? AND privacy_level = 'local_only'
+        )
+      `).run(targetId, sourceId);
+
       // Delete the source entity
       db.prepare('DELETE FROM semantic_entities WHERE entity_id = ?').run(sourceId);
 
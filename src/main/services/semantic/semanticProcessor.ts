@@ -30,6 +30,7 @@ import {
   setSyncMetadata,
 } from '../../db/queries';
 import { ActivityRuleEngine } from './activityRuleEngine';
+import { decryptField, decryptJson } from '../../db/fieldEncryption';
 
 // ============================================================================
 // Constants
@@ -242,11 +243,9 @@ export class SemanticProcessor extends EventEmitter {
       unprocessedEvents = rows
         .filter(row => !processedEventIds.has(String(row.id)))
         .map(row => {
-          // Parse JSON fields safely
-          let entities: string[] = [];
-          try { entities = JSON.parse(row.entities || '[]'); } catch { /* not JSON */ }
-          let commitments: any[] = [];
-          try { commitments = JSON.parse(row.commitments || '[]'); } catch { /* not JSON */ }
+          // Decrypt and parse JSON fields safely
+          const entities: string[] = decryptJson(row.entities, []);
+          const commitments: any[] = decryptJson(row.commitments, []);
           let skillSignals: any[] = [];
           try { skillSignals = JSON.parse(row.skillSignals || '[]'); } catch { /* not JSON */ }
 
@@ -256,12 +255,12 @@ export class SemanticProcessor extends EventEmitter {
             eventType: row.eventType,
             source: {
               application: row.sourceApp || '',
-              windowTitle: row.sourceWindow || '',
-              url: row.sourceUrl || undefined,
-              filePath: row.sourceFile || undefined,
+              windowTitle: decryptField(row.sourceWindow) || '',
+              url: decryptField(row.sourceUrl) || undefined,
+              filePath: decryptField(row.sourceFile) || undefined,
             },
             semanticPayload: {
-              summary: row.summary || '',
+              summary: decryptField(row.summary) || '',
               entities,
               intent: row.intent || undefined,
               commitments,
@@ -284,18 +283,25 @@ export class SemanticProcessor extends EventEmitter {
       try {
         const { getDatabase } = await import('../../db/database');
         const db = getDatabase();
-        // Group consecutive same-app entries to avoid processing duplicates
-        const activityRows = db.prepare(`
-          SELECT MIN(id) as id, MIN(timestamp) as timestamp,
-                 app_name, window_title, url,
-                 SUM(duration_seconds) as total_duration,
-                 COUNT(*) as entry_count
+        // Group same-app, same-title entries to avoid processing duplicates.
+        // Window titles are encrypted, so grouping happens after decryption.
+        const logRows = db.prepare(`
+          SELECT id, timestamp, app_name, window_title, url
           FROM activity_logs
           WHERE timestamp >= ? AND timestamp < ?
-          GROUP BY app_name, window_title
-          ORDER BY MIN(timestamp) ASC
+          ORDER BY timestamp ASC, id ASC
         `).all(lastCycle, now) as any[];
 
+        const groups = new Map<string, any>();
+        for (const log of logRows) {
+          const windowTitle = decryptField(log.window_title);
+          const key = JSON.stringify([log.app_name, windowTitle]);
+          if (!groups.has(key)) {
+            groups.set(key, { ...log, window_title: windowTitle, url: decryptField(log.url) });
+          }
+        }
+        const activityRows = Array.from(groups.values());
+
         if (activityRows.length > 0) {
           console.log(`[semantic-processor] No context_events found, synthesizing ${activityRows.length} grouped events from activity_logs`);
           for (const row of activityRows) {
@@ -0,0 +1,255 @@
+/**
+ * Snooze Service
+ *
+ * Pauses all tracking for a while and resumes it on its own:
+ * - For a number of minutes (15 min / 1 h from the tray)
+ * - Until tomorrow morning
+ * - Until the app that is focused now loses focus
+ *
+ * The host stops and restarts the tracking services on `change`. The active
+ * snooze is kept in the main store, so it survives a restart and a profile
+ * switch; each snoozed stretch is written to `tracking_pauses` so hourly
+ * summaries show it as a paused interval instead of a gap.
+ */
+
+import { EventEmitter } from 'events';
+import { getSnoozeState, setSnoozeState } from '../store';
+import { insertTrackingPause, endTrackingPause } from '../db/queries';
+import { SnoozeRequest, SnoozeState } from '../../shared/types';
+import { loadGetWindows } from './getWindowsLoader';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SnoozeServiceOptions {
+  /** Frontmost app name (default: get-windows `activeWindow`) */
+  getFrontmostApp?: () => Promise<string | null>;
+  /** How often the end of the snooze is checked (default: 5s) */
+  checkIntervalMs?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MAX_SNOOZE_MINUTES = 24 * 60;
+
+// "Until tomorrow" resumes at this local hour the next day
+const TOMORROW_RESUME_HOUR = 6;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * When a timed snooze ends
+ *
+ * @returns Timestamp, or null for snoozes that end on a focus change
+ * @throws Error if the duration is out of range
+ */
+export function snoozeEndTime(request: SnoozeRequest, now: Date = new Date()): number | null {
+  switch (request.kind) {
+    case 'duration':
+      if (!Number.isInteger(request.minutes) || request.minutes < 1 || request.minutes > MAX_SNOOZE_MINUTES) {
+        throw new Error(`minutes must be a whole number from 1 to ${MAX_SNOOZE_MINUTES}`);
+      }
+      return now.getTime() + request.minutes * 60 * 1000;
+    case 'until_tomorrow': {
+      const tomorrow = new Date(now);
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      tomorrow.setHours(TOMORROW_RESUME_HOUR, 0, 0, 0);
+      return tomorrow.getTime();
+    }
+    case 'until_app_blur':
+      return null;
+  }
+}
+
+async function getActiveApp(): Promise<string | null> {
+  const { activeWindow } = await loadGetWindows();
+  const window = await activeWindow();
+  return window?.owner?.name ?? null;
+}
+
+// ============================================================================
+// Snooze Service Class
+// ============================================================================
+
+export class SnoozeService extends EventEmitter {
+  private getFrontmostApp: () => Promise<string | null>;
+  private checkIntervalMs: number;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private checking = false;
+  private state: SnoozeState | null = null;
+
+  constructor(options: SnoozeServiceOptions = {}) {
+    super();
+    this.getFrontmostApp = options.getFrontmostApp ?? getActiveApp;
+    this.checkIntervalMs = options.checkIntervalMs ?? 5000;
+  }
+
+  // ============================================================================
+  // Lifecycle
+  // ============================================================================
+
+  /**
+   * Restore a snooze saved before the last quit and start watching for its
+   * end. Does not emit; the host checks `isSnoozed()` before starting
+   * tracking.
+   */
+  start(now: number = Date.now()): void {
+    const saved = getSnoozeState();
+    if (saved) {
+      // Focus can't be followed across a restart, and timed snoozes may have run out
+      const expired = saved.until === null || saved.until <= now;
+      if (expired) {
+        this.recordEnd(saved.until ?? now);
+        setSnoozeState(null);
+        console.log('[snooze] Saved snooze ended while the app was closed');
+      } else {
+        this.state = saved;
+        console.log(`[snooze] Restored snooze until ${new Date(saved.until!).toISOString()}`);
+      }
+    }
+
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.check().catch(() => {});
+    }, this.checkIntervalMs);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ============================================================================
+  // Snooze / Resume
+  // ============================================================================
+
+  /**
+   * Pause tracking. Snoozing again replaces the current snooze.
+   *
+   * @throws Error if the request is invalid or no app is focused
+   */
+  async snooze(request: SnoozeRequest): Promise<SnoozeState> {
+    const now = new Date();
+    const state: SnoozeState = {
+      kind: request.kind,
+      startedAt: now.getTime(),
+      until: snoozeEndTime(request, now),
+    };
+
+    if (request.kind === 'until_app_blur') {
+      const app = request.app?.trim() || (await this.getFrontmostApp());
+      if (!app) {
+        throw new Error('No focused app to snooze on');
+      }
+      state.app = app;
+    }
+
+    if (this.state) this.recordEnd(state.startedAt);
+    this.recordStart(state);
+    this.state = state;
+    setSnoozeState(state);
+
+    console.log(`[snooze] Tracking snoozed (${state.kind}${state.app ? `: ${state.app}` : ''})`);
+    this.emit('change', state);
+    return state;
+  }
+
+  /**
+   * End the snooze now
+   */
+  resume(): void {
+    if (!this.state) return;
+    this.recordEnd(Date.now());
+    this.state = null;
+    setSnoozeState(null);
+
+    console.log('[snooze] Tracking resumed');
+    this.emit('change', null);
+  }
+
+  /**
+   * Resume once the snooze has run out or its app lost focus
+   *
+   * @returns True if the snooze ended
+   */
+  async check(now: number = Date.now()): Promise<boolean> {
+    if (!this.state || this.checking) return false;
+    this.checking = true;
+    try {
+      const state = this.state;
+      if (state.until !== null) {
+        if (now < state.until) return false;
+      } else {
+        // A failed read says nothing about focus; try again next check
+        const app = await this.getFrontmostApp().catch(() => null);
+        if (!app || app.toLowerCase() === state.app?.toLowerCase()) return false;
+      }
+      if (this.state !== state) return false;
+      this.resume();
+      return true;
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  // ============================================================================
+  // Profile Switching
+  // ============================================================================
+
+  /**
+   * Close the paused interval before the profile's database is closed
+   */
+  beforeDatabaseSwitch(): void {
+    if (this.state) this.recordEnd(Date.now());
+  }
+
+  /**
+   * Continue the paused interval in the new profile's database
+   */
+  afterDatabaseSwitch(): void {
+    if (this.state) this.recordStart({ ...this.state, startedAt: Date.now() });
+  }
+
+  // ============================================================================
+  // Status
+  // ============================================================================
+
+  isSnoozed(): boolean {
+    return this.state !== null;
+  }
+
+  getState(): SnoozeState | null {
+    return this.state;
+  }
+
+  // ============================================================================
+  // Internals
+  // ============================================================================
+
+  // Recording is best effort: a locked database must not keep tracking paused
+
+  private recordStart(state: SnoozeState): void {
+    try {
+      insertTrackingPause(state.startedAt, state.kind);
+    } catch (error) {
+      console.error('[snooze] Failed to record paused interval:', error);
+    }
+  }
+
+  private recordEnd(endedAt: number): void {
+    try {
+      endTrackingPause(endedAt);
+    } catch (error) {
+      console.error('[snooze] Failed to close paused interval:', error);
+    }
+  }
+}
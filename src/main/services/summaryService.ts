@@ -3,9 +3,11 @@
  *
  * Aggregates activity data into hourly summaries.
  * Provides insights on productivity patterns and app usage.
+ * Snoozed stretches are recorded as paused intervals, so a gap in the
+ * data can be told apart from time away from the computer.
  */
 
-import { ActivityLog, HourlySummary } from '../../shared/types';
+import { ActivityLog, HourlySummary, PausedInterval } from '../../shared/types';
 import {
   getActivityByDateRange,
   insertHourlySummary,
@@ -13,6 +15,7 @@ import {
   getHourlySummaryByRange,
   getUnsyncedHourlySummaries,
   markHourlySummaryAsSynced,
+  getTrackingPausesByRange,
 } from '../db/queries';
 import { registerHealthProvider } from './healthCheck';
 
@@ -36,6 +39,8 @@ export interface HourlySummaryData {
   topApp: string;
   topCategory: string;
   contextSwitches: number;
+  pausedIntervals: PausedInterval[];
+  pausedMinutes: number;
 }
 
 // App categories for classification
@@ -137,14 +142,15 @@ export class SummaryService {
     const end = new Date(start);
     end.setHours(end.getHours() + 1);
 
-    // Get activities for this hour
+    // Get activities and snoozed stretches for this hour
     const activities = getActivityByDateRange(start, end);
+    const pausedIntervals = getTrackingPausesByRange(start, end);
 
-    if (activities.length === 0) {
+    if (activities.length === 0 && pausedIntervals.length === 0) {
       return null;
     }
 
-    return this.computeSummary(activities, start, end);
+    return this.computeSummary(activities, start, end, pausedIntervals);
   }
 
   /**
@@ -189,6 +195,7 @@ export class SummaryService {
         ocrText: deepContextData?.ocrText || null,
         semanticCategory: deepContextData?.semanticCategory || null,
         commitments: deepContextData?.commitments ? JSON.stringify(deepContextData.commitments) : null,
+        pausedIntervals: summary.pausedIntervals,
         synced: false,
       });
 
@@ -227,6 +234,7 @@ export class SummaryService {
         ocrText: deepContextData?.ocrText || null,
         semanticCategory: deepContextData?.semanticCategory || null,
         commitments: deepContextData?.commitments ? JSON.stringify(deepContextData.commitments) : null,
+        pausedIntervals: summary.pausedIntervals,
         synced: false,
       });
     } catch (error) {
@@ -260,6 +268,7 @@ export class SummaryService {
         ocrText: deepContextData?.ocrText || null,
         semanticCategory: deepContextData?.semanticCategory || null,
         commitments: deepContextData?.commitments ? JSON.stringify(deepContextData.commitments) : null,
+        pausedIntervals: summary.pausedIntervals,
         synced: false,
       });
 
@@ -280,7 +289,8 @@ export class SummaryService {
   private computeSummary(
     activities: ActivityLog[],
     hourStart: Date,
-    hourEnd: Date
+    hourEnd: Date,
+    pausedIntervals: PausedInterval[] = []
   ): HourlySummaryData {
     // Calculate app breakdown
     const appMap = new Map<string, number>();
@@ -339,6 +349,8 @@ export class SummaryService {
       topApp: appBreakdown[0]?.appName || 'None',
       topCategory,
       contextSwitches,
+      pausedIntervals,
+      pausedMinutes: Math.round(pausedIntervals.reduce((sum, p) => sum + (p.end - p.start), 0) / 60000),
     };
   }
 
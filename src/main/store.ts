@@ -2,6 +2,10 @@
  * Electron Store Configuration
  *
  * Typed store for app settings, auth, and other persistent data.
+ *
+ * Settings and auth are per profile. The default profile lives in the main
+ * store file (config.json) together with the profile registry; every other
+ * profile has its own file (profile-<id>.json).
  */
 
 import Store from 'electron-store';
@@ -10,7 +14,16 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { app } from 'electron';
-import { AppSettings, DEFAULT_SETTINGS, User } from '../shared/types';
+import {
+  AppSettings,
+  DEFAULT_SETTINGS,
+  DEFAULT_PROFILE_ID,
+  DEFAULT_PROFILE_CONFIG,
+  Profile,
+  ProfileConfig,
+  SnoozeState,
+  User,
+} from '../shared/types';
 
 // ============================================================================
 // Store Type
@@ -22,6 +35,8 @@ export interface StoreSchema {
   authState?: string;
   authStateTimestamp?: number;
   user?: User;
+  profiles?: ProfileConfig; // main store only
+  snooze?: SnoozeState | null; // main store only
 }
 
 // ============================================================================
@@ -37,9 +52,11 @@ const machineKey = crypto
 
 // Try opening with new machine-specific key first; if data is unreadable (migrating
 // from old key), open with the legacy key, read data, then re-create with new key.
-function createStore(): any {
+function createStore(name?: string): any {
+  const nameOpt = name ? { name } : {};
   try {
     const s = new Store({
+      ...nameOpt,
       defaults: { settings: DEFAULT_SETTINGS, auth: {} },
       encryptionKey: machineKey,
     }) as any;
@@ -50,6 +67,7 @@ function createStore(): any {
     // Decryption failed — likely still encrypted with legacy key. Migrate.
     try {
       const legacy = new Store({
+        ...nameOpt,
         defaults: { settings: DEFAULT_SETTINGS, auth: {} },
         encryptionKey: LEGACY_ENCRYPTION_KEY,
       }) as any;
@@ -59,6 +77,7 @@ function createStore(): any {
       legacy.clear();
 
       const migrated = new Store({
+        ...nameOpt,
         defaults: { settings: DEFAULT_SETTINGS, auth: {} },
         encryptionKey: machineKey,
       }) as any;
@@ -78,10 +97,11 @@ function createStore(): any {
 
       // Try multiple paths to find and delete the corrupted file.
       // app.getPath('userData') may not be available if called before app is ready.
+      const fileName = `${name ?? 'config'}.json`;
       const pathsToTry: string[] = [];
-      try { pathsToTry.push(path.join(app.getPath('userData'), 'config.json')); } catch { /* app not ready */ }
+      try { pathsToTry.push(path.join(app.getPath('userData'), fileName)); } catch { /* app not ready */ }
       // Hardcoded macOS fallback path — matches Electron's userData convention
-      pathsToTry.push(path.join(os.homedir(), 'Library', 'Application Support', 'sync-desktop', 'config.json'));
+      pathsToTry.push(path.join(os.homedir(), 'Library', 'Application Support', 'sync-desktop', fileName));
 
       for (const storePath of pathsToTry) {
         try {
@@ -98,13 +118,14 @@ function createStore(): any {
       // Create fresh store — wrap in try-catch in case the file is still present
       try {
         return new Store({
+          ...nameOpt,
           defaults: { settings: DEFAULT_SETTINGS, auth: {} },
           encryptionKey: machineKey,
         }) as any;
       } catch (freshErr) {
         // Last resort: create store with no encryption so it always works
         console.error('[store] Even fresh store creation failed, using unencrypted fallback:', freshErr);
-        return new Store({ defaults: { settings: DEFAULT_SETTINGS, auth: {} } }) as any;
+        return new Store({ ...nameOpt, defaults: { settings: DEFAULT_SETTINGS, auth: {} } }) as any;
       }
     }
   }
@@ -112,16 +133,132 @@ function createStore(): any {
 
 const store = createStore();
 
+// ============================================================================
+// Profiles
+// ============================================================================
+
+const profileStores = new Map<string, any>([[DEFAULT_PROFILE_ID, store]]);
+
+function profileStore(id: string): any {
+  let s = profileStores.get(id);
+  if (!s) {
+    s = createStore(`profile-${id}`);
+    profileStores.set(id, s);
+  }
+  return s;
+}
+
+export function getProfileConfig(): ProfileConfig {
+  const config = store.get('profiles') as ProfileConfig | undefined;
+  return { ...DEFAULT_PROFILE_CONFIG, ...config };
+}
+
+function saveProfileConfig(config: ProfileConfig): void {
+  store.set('profiles', config);
+}
+
+/**
+ * Update automatic selection rules or the auto-switch flag
+ */
+export function updateProfileConfig(updates: Partial<Pick<ProfileConfig, 'rules' | 'autoSwitch'>>): ProfileConfig {
+  const updated = { ...getProfileConfig(), ...updates };
+  saveProfileConfig(updated);
+  return updated;
+}
+
+export function getActiveProfile(): Profile {
+  const config = getProfileConfig();
+  return config.profiles.find((p) => p.id === config.activeProfileId) ?? DEFAULT_PROFILE_CONFIG.profiles[0];
+}
+
+/**
+ * Create a profile with default settings and no sign-in
+ */
+export function createProfile(name: string): Profile {
+  const trimmed = name.trim();
+  const config = getProfileConfig();
+  if (!trimmed) {
+    throw new Error('Profile name is required');
+  }
+  if (config.profiles.some((p) => p.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A profile named "${trimmed}" already exists`);
+  }
+
+  const profile: Profile = { id: crypto.randomUUID().slice(0, 8), name: trimmed, createdAt: Date.now() };
+  saveProfileConfig({ ...config, profiles: [...config.profiles, profile] });
+  return profile;
+}
+
+/**
+ * Delete a profile's settings and credentials. The default and the active
+ * profile cannot be deleted. Rules that select the profile are removed.
+ */
+export function deleteProfile(id: string): void {
+  const config = getProfileConfig();
+  if (id === DEFAULT_PROFILE_ID) {
+    throw new Error('The default profile cannot be deleted');
+  }
+  if (id === config.activeProfileId) {
+    throw new Error('Switch to another profile before deleting this one');
+  }
+  if (!config.profiles.some((p) => p.id === id)) {
+    throw new Error(`Unknown profile: ${id}`);
+  }
+
+  const s = profileStore(id);
+  s.clear();
+  if (s.path && fs.existsSync(s.path)) {
+    fs.unlinkSync(s.path);
+  }
+  profileStores.delete(id);
+
+  saveProfileConfig({
+    ...config,
+    profiles: config.profiles.filter((p) => p.id !== id),
+    rules: config.rules.filter((r) => r.profileId !== id),
+  });
+}
+
+/**
+ * Point settings/auth accessors at another profile's store.
+ * Only switches the store — use ProfileService to switch the whole app.
+ */
+export function setActiveProfileId(id: string): void {
+  const config = getProfileConfig();
+  if (!config.profiles.some((p) => p.id === id)) {
+    throw new Error(`Unknown profile: ${id}`);
+  }
+  saveProfileConfig({ ...config, activeProfileId: id });
+  activeStore = profileStore(id);
+}
+
+/** Store holding the active profile's settings and auth */
+let activeStore: any = profileStore(getActiveProfile().id);
+
+// ============================================================================
+// Snooze
+// ============================================================================
+
+// Not per profile: a snooze pauses tracking on this device, whichever profile is active
+
+export function getSnoozeState(): SnoozeState | null {
+  return (store.get('snooze') as SnoozeState | null | undefined) ?? null;
+}
+
+export function setSnoozeState(state: SnoozeState | null): void {
+  store.set('snooze', state);
+}
+
 // ============================================================================
 // Typed Store Accessors
 // ============================================================================
 
 export function getSettings(): AppSettings {
-  return store.get('settings') as AppSettings;
+  return activeStore.get('settings') as AppSettings;
 }
 
 export function setSettings(settings: AppSettings): void {
-  store.set('settings', settings);
+  activeStore.set('settings', settings);
 }
 
 export function updateSettings(updates: Partial<AppSettings>): AppSettings {
@@ -132,23 +269,23 @@ export function updateSettings(updates: Partial<AppSettings>): AppSettings {
 }
 
 export function getAccessToken(): string | undefined {
-  const auth = store.get('auth') as { accessToken?: string; refreshToken?: string } | undefined;
+  const auth = activeStore.get('auth') as { accessToken?: string; refreshToken?: string } | undefined;
   return auth?.accessToken;
 }
 
 export function getRefreshToken(): string | undefined {
-  const auth = store.get('auth') as { accessToken?: string; refreshToken?: string } | undefined;
+  const auth = activeStore.get('auth') as { accessToken?: string; refreshToken?: string } | undefined;
   return auth?.refreshToken;
 }
 
 export function setAccessToken(token: string | null): void {
-  const auth = store.get('auth') as { accessToken?: string; refreshToken?: string } || {};
-  store.set('auth', { ...auth, accessToken: token || undefined });
+  const auth = activeStore.get('auth') as { accessToken?: string; refreshToken?: string } || {};
+  activeStore.set('auth', { ...auth, accessToken: token || undefined });
 }
 
 export function setRefreshToken(token: string | null): void {
-  const auth = store.get('auth') as { accessToken?: string; refreshToken?: string } || {};
-  store.set('auth', { ...auth, refreshToken: token || undefined });
+  const auth = activeStore.get('auth') as { accessToken?: string; refreshToken?: string } || {};
+  activeStore.set('auth', { ...auth, refreshToken: token || undefined });
 }
 
 // SEC-007: Auth state with expiry — state is only valid for 10 minutes
@@ -158,16 +295,16 @@ const AUTH_STATE_TIMEOUT_MS = 10 * 60 * 1000;
 // authStateTimestamp is persisted to store (not in-memory) so it survives app restarts mid-auth
 
 export function getAuthState(): string | undefined {
-  const state = store.get('authState') as string | undefined;
+  const state = activeStore.get('authState') as string | undefined;
   if (!state) return undefined;
 
   // Check stored timestamp
-  const timestamp = store.get('authStateTimestamp') as number | undefined;
+  const timestamp = activeStore.get('authStateTimestamp') as number | undefined;
   if (!timestamp || (Date.now() - timestamp > AUTH_STATE_TIMEOUT_MS)) {
     // Expired — clear it
     console.warn('[store] Auth state expired or missing timestamp, clearing');
-    store.delete('authState');
-    store.delete('authStateTimestamp');
+    activeStore.delete('authState');
+    activeStore.delete('authStateTimestamp');
     return undefined;
   }
   return state;
@@ -175,38 +312,38 @@ export function getAuthState(): string | undefined {
 
 export function setAuthState(state: string | null): void {
   if (state) {
-    store.set('authState', state);
-    store.set('authStateTimestamp', Date.now());
+    activeStore.set('authState', state);
+    activeStore.set('authStateTimestamp', Date.now());
   } else {
-    store.delete('authState');
-    store.delete('authStateTimestamp');
+    activeStore.delete('authState');
+    activeStore.delete('authStateTimestamp');
   }
 }
 
 export function isAuthStateExpired(): boolean {
-  const state = store.get('authState') as string | undefined;
+  const state = activeStore.get('authState') as string | undefined;
   if (!state) return true;
-  const timestamp = store.get('authStateTimestamp') as number | undefined;
+  const timestamp = activeStore.get('authStateTimestamp') as number | undefined;
   if (!timestamp) return true;
   return Date.now() - timestamp > AUTH_STATE_TIMEOUT_MS;
 }
 
 export function clearAuth(): void {
-  store.set('auth', { accessToken: undefined, refreshToken: undefined });
-  store.delete('authState');
-  store.delete('authStateTimestamp');
-  store.delete('user');
+  activeStore.set('auth', { accessToken: undefined, refreshToken: undefined });
+  activeStore.delete('authState');
+  activeStore.delete('authStateTimestamp');
+  activeStore.delete('user');
 }
 
 export function getUser(): User | undefined {
-  return store.get('user') as User | undefined;
+  return activeStore.get('user') as User | undefined;
 }
 
 export function setUser(user: User | null): void {
   if (user) {
-    store.set('user', user);
+    activeStore.set('user', user);
   } else {
-    store.delete('user');
+    activeStore.delete('user');
   }
 }
 
@@ -5,7 +5,7 @@
  * Provides quick access to SYNC features and settings
  */
 
-import { Tray, Menu, nativeImage, app, shell, dialog } from 'electron';
+import { Tray, Menu, MenuItemConstructorOptions, nativeImage, app, shell, dialog } from 'electron';
 import path from 'path';
 import {
   getFloatingWidget,
@@ -16,10 +16,18 @@ import {
   collapseToAvatar,
 } from '../windows/floatingWidget';
 import { WEB_APP_URL, AUTH_CALLBACK_PATH } from '../../shared/constants';
-import { getActivityTracker, setActivityTracker, getCloudSyncService } from '../index';
+import {
+  getActivityTracker,
+  setActivityTracker,
+  getCloudSyncService,
+  getProfileService,
+  getPresentationDetector,
+  getSnoozeService,
+} from '../index';
 import { ActivityTracker } from '../services/activityTracker';
-import { getSettings, updateSettings, getUser, clearAuth, setAuthState } from '../store';
+import { getSettings, updateSettings, getUser, clearAuth, setAuthState, getProfileConfig } from '../store';
 import { checkForUpdates, getUpdateStatus } from '../services/autoUpdater';
+import { SnoozeRequest, SnoozeState } from '../../shared/types';
 
 // ============================================================================
 // State
@@ -91,12 +99,76 @@ export function createSystemTray(): Tray {
 // Menu Updates
 // ============================================================================
 
+function describeSnooze(snooze: SnoozeState): string {
+  if (snooze.until === null) {
+    return `until you leave ${snooze.app}`;
+  }
+  const until = new Date(snooze.until);
+  const time = until.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return until.toDateString() === new Date().toDateString() ? `until ${time}` : `until tomorrow ${time}`;
+}
+
+function startSnooze(request: SnoozeRequest): void {
+  getSnoozeService()?.snooze(request).catch((err) => {
+    console.error('[tray] Snooze failed:', err);
+  });
+}
+
 export function updateTrayMenu(): void {
   if (!tray) return;
 
   const settings = getSettings();
   const activityTracker = getActivityTracker();
   const isTracking = !!activityTracker;
+  const profileConfig = getProfileConfig();
+  const activeProfile = profileConfig.profiles.find((p) => p.id === profileConfig.activeProfileId);
+  const presenting = getPresentationDetector()?.getSignal() ?? null;
+  const snooze = getSnoozeService()?.getState() ?? null;
+  const currentApp = activityTracker?.getCurrentActivity()?.appName;
+
+  // Show that tracking is snoozed or capture is paused, in the menu bar and the menu
+  tray.setToolTip(snooze ? `Sync — snoozed ${describeSnooze(snooze)}` : presenting ? 'Sync — paused while presenting' : 'Sync');
+  if (process.platform === 'darwin') {
+    tray.setTitle(snooze ? 'Snoozed' : presenting ? 'Paused' : '');
+  }
+
+  const trackingItems: MenuItemConstructorOptions[] = snooze
+    ? [
+      { label: `Snoozed ${describeSnooze(snooze)}`, enabled: false },
+      { label: 'Resume Tracking Now', click: () => getSnoozeService()?.resume() },
+    ]
+    : [
+      {
+        label: isTracking ? 'Pause Tracking' : 'Resume Tracking',
+        click: () => {
+          if (isTracking) {
+            activityTracker?.stop();
+            setActivityTracker(null);
+            updateSettings({ trackingEnabled: false });
+            console.log('[tray] Tracking paused');
+          } else {
+            const newTracker = new ActivityTracker();
+            newTracker.start();
+            setActivityTracker(newTracker);
+            updateSettings({ trackingEnabled: true });
+            console.log('[tray] Tracking resumed');
+          }
+          updateTrayMenu();
+        },
+      },
+      {
+        label: 'Snooze Tracking',
+        enabled: isTracking,
+        submenu: [
+          { label: 'For 15 Minutes', click: () => startSnooze({ kind: 'duration', minutes: 15 }) },
+          { label: 'For 1 Hour', click: () => startSnooze({ kind: 'duration', minutes: 60 }) },
+          { label: 'Until Tomorrow', click: () => startSnooze({ kind: 'until_tomorrow' }) },
+          ...(currentApp
+            ? [{ label: `Until I Leave ${currentApp}`, click: () => startSnooze({ kind: 'until_app_blur', app: currentApp }) }]
+            : []),
+        ],
+      },
+    ];
 
   const contextMenu = Menu.buildFromTemplate([
     {
@@ -133,24 +205,13 @@ export function updateTrayMenu(): void {
       },
     },
     { type: 'separator' },
-    {
-      label: isTracking ? 'Pause Tracking' : 'Resume Tracking',
-      click: () => {
-        if (isTracking) {
-          activityTracker?.stop();
-          setActivityTracker(null);
-          updateSettings({ trackingEnabled: false });
-          console.log('[tray] Tracking paused');
-        } else {
-          const newTracker = new ActivityTracker();
-          newTracker.start();
-          setActivityTracker(newTracker);
-          updateSettings({ trackingEnabled: true });
-          console.log('[tray] Tracking resumed');
-        }
-        updateTrayMenu();
-      },
-    },
+    ...(presenting
+      ? [{
+        label: `Capture paused: ${presenting.reason === 'slideshow' ? 'presenting' : 'sharing screen'} (${presenting.app})`,
+        enabled: false,
+      }]
+      : []),
+    ...trackingItems,
     {
       label: 'Sync Now',
       click: async () => {
@@ -188,6 +249,35 @@ export function updateTrayMenu(): void {
         }
       },
     },
+    {
+      label: `Profile: ${activeProfile?.name ?? 'Default'}`,
+      submenu: [
+        ...profileConfig.profiles.map((profile) => ({
+          label: profile.name,
+          type: 'radio' as const,
+          checked: profile.id === profileConfig.activeProfileId,
+          click: async () => {
+            try {
+              await getProfileService()?.switchTo(profile.id, 'manual');
+            } catch (err) {
+              console.error('[tray] Profile switch failed:', err);
+            }
+            updateTrayMenu();
+          },
+        })),
+        { type: 'separator' },
+        {
+          label: 'Switch Automatically',
+          type: 'checkbox',
+          checked: profileConfig.autoSwitch,
+          enabled: profileConfig.rules.length > 0,
+          click: (item) => {
+            getProfileService()?.updateRules({ autoSwitch: item.checked });
+            updateTrayMenu();
+          },
+        },
+      ],
+    },
     { type: 'separator' },
     ...((() => {
       const user = getUser();
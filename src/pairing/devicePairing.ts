@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import os from 'os';
+import { EventEmitter } from 'events';
+import {
+  storeApiKey,
+  getApiKey,
+  deleteApiKey,
+  ensureDeviceKeyPair,
+  rotateDeviceKeyPair,
+  storeRecipientPublicKey,
+  deleteEnvelopeKeys,
+  getDeviceId,
+  getPairingRecord,
+  savePairingRecord,
+  clearPairingRecord,
+} from './pairing';
+import { APP_VERSION } from '../shared/constants';
+import type { PairingState } from '../shared/types';
+
+/**
+ * Pairing protocol (all bodies JSON, paths relative to the pairing endpoint):
+ *
+ * 1. `POST /api/v1/pairing/codes`
+ *    `{ code, device_id, device_name, platform, client_version, public_key }`
+ *    → `201 { expires_at, verification_url?, poll_interval_ms? }`, or 409 if the code is taken.
+ *    The code is generated on the device and shown to the user, who enters it
+ *    (or opens `verification_url`, which a QR code can encode) in the web app.
+ * 2. `POST /api/v1/pairing/codes/:code/exchange` `{ device_id }`
+ *    → `202` while waiting for approval,
+ *    `200 { api_key, scopes, recipient_public_key? }` once approved,
+ *    `404`/`410` if the code expired or was rejected.
+ * 3. `POST /api/v1/devices/:id/keys/rotate` with `Authorization: Bearer <api_key>`
+ *    `{ public_key }` → `200 { api_key, scopes }`; `401` means the key was revoked.
+ *
+ * `public_key` is the device's envelope encryption key (see envelope.ts).
+ * LocalReceiver implements the same routes for offline use.
+ */
+
+export type DevicePairingOptions = {
+  /** Pairing API base URL (e.g. 'https://app.isyncso.com') */
+  endpoint: string;
+  /** Name shown in the web app (default: hostname) */
+  deviceName?: string;
+  /** Exchange poll interval when the server does not suggest one (default: 2000) */
+  pollIntervalMs?: number;
+};
+
+/** Unambiguous characters for pairing codes (no 0/O, 1/I/L) */
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Generate a short pairing code, e.g. `K7QM-3XTA`
+ */
+export function generatePairingCode(): string {
+  let code = '';
+  for (let i = 0; i < 8; i++) {
+    code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * DevicePairing - Pairs this device with the SYNC backend and manages its key
+ *
+ * Emits `state` with the new PairingState whenever it changes.
+ *
+ * @example
+ * ```typescript
+ * const pairing = new DevicePairing({ endpoint: 'https://app.isyncso.com' });
+ * const { code } = await pairing.start();   // show code to the user
+ * pairing.on('state', (s) => s.status === 'paired' && transport.clearAuthRevoked());
+ * ```
+ */
+export class DevicePairing extends EventEmitter {
+  private opts: Required<DevicePairingOptions>;
+  private pending: { code: string; verificationUrl?: string; expiresAt: number } | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private error?: string;
+
+  constructor(opts: DevicePairingOptions) {
+    super();
+    this.opts = {
+      deviceName: os.hostname(),
+      pollIntervalMs: 2000,
+      ...opts,
+      endpoint: opts.endpoint.replace(/\/$/, ''),
+    };
+  }
+
+  /**
+   * Change the pairing endpoint (e.g. after a settings change).
+   * Cancels a pending pairing; an existing pairing is kept.
+   */
+  setEndpoint(endpoint: string): void {
+    const normalized = endpoint.replace(/\/$/, '');
+    if (normalized === this.opts.endpoint) return;
+    this.cancel();
+    this.opts.endpoint = normalized;
+    this.emitState();
+  }
+
+  getState(): PairingState {
+    const record = getPairingRecord();
+    const base = { deviceId: getDeviceId(), endpoint: this.opts.endpoint, error: this.error };
+
+    if (this.pending) {
+      return { ...base, status: 'pending', ...this.pending };
+    }
+    if (!record) {
+      return { ...base, status: 'unpaired' };
+    }
+    return {
+      ...base,
+      status: record.revokedAt ? 'revoked' : 'paired',
+      endpoint: record.endpoint,
+      pairedAt: record.pairedAt,
+      scopes: record.scopes,
+      keyRotatedAt: record.keyRotatedAt,
+      revokedAt: record.revokedAt,
+    };
+  }
+
+  /**
+   * Register a new pairing code and start polling for approval
+   *
+   * @returns State with the code to show to the user
+   * @throws Error if the endpoint rejects the registration
+   */
+  async start(): Promise<PairingState> {
+    this.cancel();
+    this.error = undefined;
+
+    const keyPair = await ensureDeviceKeyPair();
+
+    // A collision with another device's pending code is unlikely; retry once with a new code
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const code = generatePairingCode();
+      const res = await this.request('POST', '/api/v1/pairing/codes', {
+        code,
+        device_id: getDeviceId(),
+        device_name: this.opts.deviceName,
+        platform: process.platform,
+        client_version: APP_VERSION,
+        public_key: keyPair.publicKey,
+      });
+
+      if (res.status === 409) continue;
+      if (!res.ok) {
+        throw this.fail(`Pairing endpoint returned ${res.status}`);
+      }
+
+      const data = res.data ?? {};
+      this.pending = {
+        code,
+        verificationUrl: data.verification_url ?? `${this.opts.endpoint}/pair?code=${code}`,
+        expiresAt: data.expires_at ?? Date.now() + 10 * 60 * 1000,
+      };
+      this.schedulePoll(data.poll_interval_ms ?? this.opts.pollIntervalMs);
+      console.log('[pairing] Pairing code registered, waiting for approval');
+      this.emitState();
+      return this.getState();
+    }
+
+    throw this.fail('Could not register a unique pairing code');
+  }
+
+  /**
+   * Try to exchange the pending code for a device key once
+   *
+   * Called on a timer after start(); exposed for callers that drive polling themselves.
+   *
+   * @returns Updated state
+   */
+  async poll(): Promise<PairingState> {
+    const pending = this.pending;
+    if (!pending) return this.getState();
+
+    if (Date.now() >= pending.expiresAt) {
+      this.fail('Pairing code expired');
+      this.cancel();
+      return this.getState();
+    }
+
+    const res = await this.request('POST', `/api/v1/pairing/codes/${encodeURIComponent(pending.code)}/exchange`, {
+      device_id: getDeviceId(),
+    });
+
+    // Cancelled while the request was in flight
+    if (this.pending !== pending) return this.getState();
+
+    if (res.status === 202) {
+      return this.getState();
+    }
+
+    if (res.ok && typeof res.data?.api_key === 'string') {
+      this.stopPolling();
+      await storeApiKey(res.data.api_key);
+      if (typeof res.data.recipient_public_key === 'string') {
+        storeRecipientPublicKey(res.data.recipient_public_key);
+      }
+      savePairingRecord({
+        endpoint: this.opts.endpoint,
+        pairedAt: Date.now(),
+        scopes: Array.isArray(res.data.scopes) ? res.data.scopes : [],
+      });
+      this.error = undefined;
+      console.log('[pairing] Device paired');
+      this.emitState();
+      return this.getState();
+    }
+
+    if (res.status === 404 || res.status === 410) {
+      this.fail('Pairing code expired or was rejected');
+      this.cancel();
+      return this.getState();
+    }
+
+    // Transient failure (5xx, malformed response) - keep polling
+    this.error = `Pairing exchange returned ${res.status}`;
+    return this.getState();
+  }
+
+  /**
+   * Stop waiting for a pending pairing
+   */
+  cancel(): void {
+    const wasPending = this.pending !== null;
+    this.stopPolling();
+    if (wasPending) {
+      this.emitState();
+    }
+  }
+
+  /**
+   * Replace the device API key (and envelope keypair) with new ones
+   *
+   * @returns Updated state
+   * @throws Error if the device is not paired or the endpoint rejects the rotation
+   */
+  async rotateKey(): Promise<PairingState> {
+    const record = getPairingRecord();
+    const apiKey = await getApiKey();
+    if (!record || !apiKey) {
+      throw this.fail('Device is not paired');
+    }
+
+    const keyPair = await rotateDeviceKeyPair();
+    const res = await this.request(
+      'POST',
+      `/api/v1/devices/${encodeURIComponent(getDeviceId())}/keys/rotate`,
+      { public_key: keyPair.publicKey },
+      apiKey
+    );
+
+    if (res.status === 401) {
+      this.markRevoked();
+      throw this.fail('Device key was revoked');
+    }
+    if (!res.ok || typeof res.data?.api_key !== 'string') {
+      throw this.fail(`Key rotation failed (${res.status})`);
+    }
+
+    await storeApiKey(res.data.api_key);
+    savePairingRecord({
+      ...record,
+      scopes: Array.isArray(res.data.scopes) ? res.data.scopes : record.scopes,
+      keyRotatedAt: Date.now(),
+    });
+    this.error = undefined;
+    console.log('[pairing] Device key rotated');
+    this.emitState();
+    return this.getState();
+  }
+
+  /**
+   * Record that the backend rejected the device key (e.g. Transport got a 401)
+   */
+  markRevoked(): void {
+    const record = getPairingRecord();
+    if (!record || record.revokedAt) return;
+    savePairingRecord({ ...record, revokedAt: Date.now() });
+    console.warn('[pairing] Device key rejected by backend, pairing marked revoked');
+    this.emitState();
+  }
+
+  /**
+   * Forget the pairing and all device keys
+   */
+  async unpair(): Promise<void> {
+    this.cancel();
+    await deleteApiKey();
+    await deleteEnvelopeKeys();
+    clearPairingRecord();
+    this.error = undefined;
+    this.emitState();
+  }
+
+  /**
+   * Stop polling and release timers
+   */
+  close(): void {
+    this.stopPolling();
+    this.removeAllListeners();
+  }
+
+  // ============================================================================
+  // Internals
+  // ============================================================================
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.pending = null;
+  }
+
+  private schedulePoll(intervalMs: number): void {
+    this.pollTimer = setTimeout(async () => {
+      this.pollTimer = null;
+      try {
+        await this.poll();
+      } catch (err: any) {
+        // Network errors are transient while waiting for approval
+        this.error = err.message || 'Pairing exchange failed';
+      }
+      // start() may have scheduled its own poll while this one was in flight
+      if (this.pending && !this.pollTimer) {
+        this.schedulePoll(intervalMs);
+      }
+    }, intervalMs);
+    this.pollTimer.unref?.();
+  }
+
+  private async request(
+    method: string,
+    path: string,
+    body: object,
+    apiKey?: string
+  ): Promise<{ ok: boolean; status: number; data: any }> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': `sync.desktop/${APP_VERSION}`,
+    };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const res = await fetch(`${this.opts.endpoint}${path}`, {
+      method,
+      headers,
+      body: JSON.stringify(body),
+    });
+    const text = await res.text();
+    let data: any = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      // Non-JSON body - callers only rely on the status
+    }
+    return { ok: res.ok, status: res.status, data };
+  }
+
+  private fail(message: string): Error {
+    this.error = message;
+    console.warn(`[pairing] ${message}`);
+    return new Error(message);
+  }
+
+  private emitState(): void {
+    this.emit('state', this.getState());
+  }
+}
@@ -1,9 +1,12 @@
 import Store from 'electron-store';
 import crypto from 'crypto';
 import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { EnvelopeKeyPair, EnvelopeKeys, generateEnvelopeKeyPair } from '../transport/envelope';
 
 const SERVICE_NAME = 'frogody-sync-desktop';
 const ACCOUNT_NAME = 'device-api-key';
+const ENVELOPE_ACCOUNT_NAME = 'device-envelope-key';
 
 // SEC-020/SEC-030: Derive a machine-specific encryption key for the fallback store
 // so the API key is not stored in plaintext when keytar is unavailable.
@@ -37,28 +40,34 @@ try {
  * If keytar is unavailable (e.g., missing native dependencies), it automatically
  * falls back to encrypted electron-store.
  * 
- * @param apiKey - The device API key obtained from app.isyncso.com
+ * @param apiKey - The scoped device key issued by the pairing exchange (see devicePairing.ts)
  * @returns Promise that resolves to true if successful
  * 
  * @example
  * ```typescript
  * import { storeApiKey } from './pairing/pairing';
  * 
- * // Store API key (typically done during device pairing)
+ * // Store API key (DevicePairing does this when pairing completes)
  * await storeApiKey('sk_live_abc123...');
  * ```
  */
 export async function storeApiKey(apiKey: string): Promise<boolean> {
+  let stored = false;
   try {
     if (keytarAvailable && keytar && typeof keytar.setPassword === 'function') {
       await keytar.setPassword(SERVICE_NAME, ACCOUNT_NAME, apiKey);
-      return true;
+      stored = true;
     }
   } catch (e) {
     console.warn('[pairing] keytar setPassword failed, falling back to electron-store:', e);
   }
-  // Fallback to electron-store
-  store.set('device_api_key_enc', apiKey);
+  if (!stored) {
+    // Fallback to electron-store
+    store.set('device_api_key_enc', apiKey);
+  }
+
+  // Pairing is also when the device gets its upload encryption keypair
+  await ensureDeviceKeyPair();
   return true;
 }
 
@@ -124,3 +133,175 @@ export async function deleteApiKey(): Promise<boolean> {
   store.delete('device_api_key_enc');
   return true;
 }
+
+// ============================================================================
+// Envelope Encryption Keys
+// ============================================================================
+
+/**
+ * Get this device's envelope encryption keypair
+ * 
+ * The keypair is stored like the API key: OS keychain when available,
+ * encrypted electron-store otherwise.
+ * 
+ * @returns Promise that resolves to the keypair, or undefined if none was created yet
+ */
+export async function getDeviceKeyPair(): Promise<EnvelopeKeyPair | undefined> {
+  let raw: string | undefined;
+  try {
+    if (keytarAvailable && keytar && typeof keytar.getPassword === 'function') {
+      raw = (await keytar.getPassword(SERVICE_NAME, ENVELOPE_ACCOUNT_NAME)) || undefined;
+    }
+  } catch (e) {
+    console.warn('[pairing] keytar getPassword failed, falling back to electron-store:', e);
+  }
+  raw = raw ?? (store.get('device_envelope_key_enc') as string | undefined);
+  return raw ? (JSON.parse(raw) as EnvelopeKeyPair) : undefined;
+}
+
+/**
+ * Get this device's envelope keypair, creating one if needed
+ * 
+ * Called during pairing so the public key can be registered with the backend.
+ * 
+ * @returns Promise that resolves to the (possibly new) keypair
+ */
+export async function ensureDeviceKeyPair(): Promise<EnvelopeKeyPair> {
+  return (await getDeviceKeyPair()) ?? rotateDeviceKeyPair();
+}
+
+/**
+ * Replace this device's envelope keypair with a new one
+ * 
+ * Batches sealed afterwards carry the new key ID. The new public key must be
+ * registered with the backend before it will accept them.
+ * 
+ * @returns Promise that resolves to the new keypair
+ * 
+ * @example
+ * ```typescript
+ * import { rotateDeviceKeyPair } from './pairing/pairing';
+ * 
+ * const { kid, publicKey } = await rotateDeviceKeyPair();
+ * // Register publicKey for this device with the backend
+ * ```
+ */
+export async function rotateDeviceKeyPair(): Promise<EnvelopeKeyPair> {
+  const keyPair = generateEnvelopeKeyPair();
+  const raw = JSON.stringify(keyPair);
+  try {
+    if (keytarAvailable && keytar && typeof keytar.setPassword === 'function') {
+      await keytar.setPassword(SERVICE_NAME, ENVELOPE_ACCOUNT_NAME, raw);
+      return keyPair;
+    }
+  } catch (e) {
+    console.warn('[pairing] keytar setPassword failed, falling back to electron-store:', e);
+  }
+  store.set('device_envelope_key_enc', raw);
+  return keyPair;
+}
+
+/**
+ * Store the backend public key that uploads are encrypted to
+ * 
+ * @param publicKey - Recipient public key, base64 DER (SPKI), obtained at pairing
+ */
+export function storeRecipientPublicKey(publicKey: string): void {
+  store.set('recipient_public_key', publicKey);
+}
+
+/**
+ * Get the backend public key that uploads are encrypted to
+ * 
+ * @returns The recipient public key, or undefined if not set
+ */
+export function getRecipientPublicKey(): string | undefined {
+  return store.get('recipient_public_key') as string | undefined;
+}
+
+/**
+ * Load everything Transport needs to seal a batch
+ * 
+ * @returns Promise that resolves to the keys, or null if the device keypair or recipient key is missing
+ */
+export async function getEnvelopeKeys(): Promise<EnvelopeKeys | null> {
+  const device = await getDeviceKeyPair();
+  const recipientPublicKey = getRecipientPublicKey();
+  if (!device || !recipientPublicKey) return null;
+  return { device, recipientPublicKey };
+}
+
+/**
+ * Delete the device keypair and recipient key (e.g. when unpairing)
+ * 
+ * @returns Promise that resolves to true when deletion is complete
+ */
+export async function deleteEnvelopeKeys(): Promise<boolean> {
+  try {
+    if (keytarAvailable && keytar && typeof keytar.deletePassword === 'function') {
+      await keytar.deletePassword(SERVICE_NAME, ENVELOPE_ACCOUNT_NAME);
+    }
+  } catch (e) {
+    console.warn('[pairing] keytar deletePassword failed:', e);
+  }
+  store.delete('device_envelope_key_enc');
+  store.delete('recipient_public_key');
+  return true;
+}
+
+// ============================================================================
+// Device Identity & Pairing Record
+// ============================================================================
+
+/**
+ * Non-secret pairing metadata persisted between launches
+ */
+export type PairingRecord = {
+  /** Endpoint the device was paired against */
+  endpoint: string;
+  /** Epoch ms when pairing completed */
+  pairedAt: number;
+  /** Scopes granted to the device key */
+  scopes: string[];
+  /** Epoch ms of the last API key rotation */
+  keyRotatedAt?: number;
+  /** Epoch ms when the backend rejected the device key */
+  revokedAt?: number;
+};
+
+/**
+ * Get the stable identifier of this device, creating it on first use
+ * 
+ * @returns Device ID (UUID)
+ */
+export function getDeviceId(): string {
+  let deviceId = store.get('device_id') as string | undefined;
+  if (!deviceId) {
+    deviceId = uuidv4();
+    store.set('device_id', deviceId);
+  }
+  return deviceId;
+}
+
+/**
+ * Get the stored pairing metadata
+ * 
+ * @returns The pairing record, or undefined if the device is not paired
+ */
+export function getPairingRecord(): PairingRecord | undefined {
+  return store.get('pairing') as PairingRecord | undefined;
+}
+
+/**
+ * Persist pairing metadata
+ */
+export function savePairingRecord(record: PairingRecord): void {
+  store.set('pairing', record);
+}
+
+/**
+ * Forget pairing metadata (the device ID is kept)
+ */
+export function clearPairingRecord(): void {
+  store.delete('pairing');
+}
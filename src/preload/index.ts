@@ -7,7 +7,23 @@
 
 import { contextBridge, ipcRenderer } from 'electron';
 import { IPC_CHANNELS } from '../shared/ipcChannels';
-import type { AppSettings, WidgetMode } from '../shared/types';
+import type {
+  AppSettings,
+  CapturePreview,
+  CapturePreviewInput,
+  DatabaseEncryptionStatus,
+  ErasureResult,
+  ErasureSelector,
+  OutboundAuditEntry,
+  OutboundAuditSummary,
+  PairingState,
+  Profile,
+  ProfileConfig,
+  ProfileRule,
+  SnoozeRequest,
+  SnoozeState,
+  WidgetMode,
+} from '../shared/types';
 
 // ============================================================================
 // Type Definitions for Exposed API
@@ -153,6 +169,80 @@ export interface ElectronAPI {
     error?: string;
   }>;
 
+  // Transport Dead Letters
+  getDeadLetters: (limit?: number) => Promise<{
+    success: boolean;
+    data?: Array<{
+      id: string;
+      created_at: number;
+      failed_at: number;
+      payload: string;
+      status_code: number | null;
+      reason: string;
+      attempts: number;
+    }>;
+    error?: string;
+  }>;
+  requeueDeadLetter: (id: string, editedEvent?: object) => Promise<{ success: boolean; error?: string }>;
+  purgeDeadLetters: (ids?: string[]) => Promise<{
+    success: boolean;
+    data?: { purged: number };
+    error?: string;
+  }>;
+
+  // Device Pairing
+  getPairingState: () => Promise<{ success: boolean; data?: PairingState; error?: string }>;
+  startPairing: () => Promise<{ success: boolean; data?: PairingState; error?: string }>;
+  cancelPairing: () => Promise<{ success: boolean; data?: PairingState; error?: string }>;
+  rotatePairingKey: () => Promise<{ success: boolean; data?: PairingState; error?: string }>;
+  unpairDevice: () => Promise<{ success: boolean; data?: PairingState; error?: string }>;
+
+  // Local Profiles
+  getProfiles: () => Promise<{ success: boolean; data?: ProfileConfig; error?: string }>;
+  createProfile: (name: string) => Promise<{ success: boolean; data?: Profile; error?: string }>;
+  deleteProfile: (id: string) => Promise<{ success: boolean; data?: ProfileConfig; error?: string }>;
+  switchProfile: (id: string) => Promise<{ success: boolean; data?: Profile; error?: string }>;
+  updateProfileRules: (updates: {
+    rules?: ProfileRule[];
+    autoSwitch?: boolean;
+  }) => Promise<{ success: boolean; data?: ProfileConfig; error?: string }>;
+  onProfileChanged: (
+    callback: (data: { activeProfileId: string; user: unknown }) => void
+  ) => () => void;
+
+  // Snooze
+  getSnooze: () => Promise<{ success: boolean; data?: SnoozeState | null; error?: string }>;
+  snooze: (request: SnoozeRequest) => Promise<{ success: boolean; data?: SnoozeState; error?: string }>;
+  resumeFromSnooze: () => Promise<{ success: boolean; error?: string }>;
+  onSnoozeChanged: (callback: (state: SnoozeState | null) => void) => () => void;
+
+  // Database Encryption
+  getDatabaseEncryptionStatus: () => Promise<{ success: boolean; data?: DatabaseEncryptionStatus; error?: string }>;
+  unlockDatabase: (passphrase: string) => Promise<{ success: boolean; data?: DatabaseEncryptionStatus; error?: string }>;
+  setDatabasePassphrase: (
+    passphrase: string | null
+  ) => Promise<{ success: boolean; data?: DatabaseEncryptionStatus; error?: string }>;
+
+  // Pseudonym Vault
+  pseudonymize: (text: string) => Promise<{ success: boolean; data?: string; error?: string }>;
+  resolvePseudonyms: (text: string) => Promise<{ success: boolean; data?: string; error?: string }>;
+
+  // Outbound Audit
+  getOutboundAudit: (query?: {
+    limit?: number;
+    beforeId?: number;
+    privacyLevel?: string;
+  }) => Promise<{ success: boolean; data?: OutboundAuditEntry[]; error?: string }>;
+  getOutboundAuditSummary: () => Promise<{ success: boolean; data?: OutboundAuditSummary; error?: string }>;
+  exportOutboundAudit: (format: 'json' | 'csv') => Promise<{ success: boolean; data?: string | null; error?: string }>;
+
+  // Privacy Debugger (omit the capture to preview the focused window)
+  previewCapture: (capture?: CapturePreviewInput) => Promise<{ success: boolean; data?: CapturePreview | null; error?: string }>;
+
+  // Erasure (preview counts first; erasure also sends cloud deletes)
+  previewErasure: (selector: ErasureSelector) => Promise<{ success: boolean; data?: ErasureResult; error?: string }>;
+  eraseData: (selector: ErasureSelector) => Promise<{ success: boolean; data?: ErasureResult; error?: string }>;
+
   // Platform
   platform: string;
 }
@@ -237,6 +327,64 @@ const electronAPI: ElectronAPI = {
   getActivityDistribution: (days) =>
     ipcRenderer.invoke(IPC_CHANNELS.SEMANTIC_GET_ACTIVITY_DISTRIBUTION, days),
 
+  // Transport Dead Letters
+  getDeadLetters: (limit) =>
+    ipcRenderer.invoke(IPC_CHANNELS.TRANSPORT_GET_DEAD_LETTERS, limit),
+  requeueDeadLetter: (id, editedEvent) =>
+    ipcRenderer.invoke(IPC_CHANNELS.TRANSPORT_REQUEUE_DEAD_LETTER, id, editedEvent),
+  purgeDeadLetters: (ids) =>
+    ipcRenderer.invoke(IPC_CHANNELS.TRANSPORT_PURGE_DEAD_LETTERS, ids),
+
+  // Device Pairing
+  getPairingState: () => ipcRenderer.invoke(IPC_CHANNELS.PAIRING_GET_STATE),
+  startPairing: () => ipcRenderer.invoke(IPC_CHANNELS.PAIRING_START),
+  cancelPairing: () => ipcRenderer.invoke(IPC_CHANNELS.PAIRING_CANCEL),
+  rotatePairingKey: () => ipcRenderer.invoke(IPC_CHANNELS.PAIRING_ROTATE_KEY),
+  unpairDevice: () => ipcRenderer.invoke(IPC_CHANNELS.PAIRING_UNPAIR),
+
+  // Local Profiles
+  getProfiles: () => ipcRenderer.invoke(IPC_CHANNELS.PROFILES_GET),
+  createProfile: (name) => ipcRenderer.invoke(IPC_CHANNELS.PROFILES_CREATE, name),
+  deleteProfile: (id) => ipcRenderer.invoke(IPC_CHANNELS.PROFILES_DELETE, id),
+  switchProfile: (id) => ipcRenderer.invoke(IPC_CHANNELS.PROFILES_SWITCH, id),
+  updateProfileRules: (updates) => ipcRenderer.invoke(IPC_CHANNELS.PROFILES_UPDATE_RULES, updates),
+  onProfileChanged: (callback) => {
+    const handler = (_event: any, data: { activeProfileId: string; user: unknown }) => callback(data);
+    ipcRenderer.on(IPC_CHANNELS.PROFILES_CHANGED, handler);
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.PROFILES_CHANGED, handler);
+  },
+
+  // Snooze
+  getSnooze: () => ipcRenderer.invoke(IPC_CHANNELS.SNOOZE_GET),
+  snooze: (request) => ipcRenderer.invoke(IPC_CHANNELS.SNOOZE_START, request),
+  resumeFromSnooze: () => ipcRenderer.invoke(IPC_CHANNELS.SNOOZE_RESUME),
+  onSnoozeChanged: (callback) => {
+    const handler = (_event: any, state: SnoozeState | null) => callback(state);
+    ipcRenderer.on(IPC_CHANNELS.SNOOZE_CHANGED, handler);
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.SNOOZE_CHANGED, handler);
+  },
+
+  // Database Encryption
+  getDatabaseEncryptionStatus: () => ipcRenderer.invoke(IPC_CHANNELS.DATABASE_ENCRYPTION_STATUS),
+  unlockDatabase: (passphrase) => ipcRenderer.invoke(IPC_CHANNELS.DATABASE_UNLOCK, passphrase),
+  setDatabasePassphrase: (passphrase) => ipcRenderer.invoke(IPC_CHANNELS.DATABASE_SET_PASSPHRASE, passphrase),
+
+  // Pseudonym Vault
+  pseudonymize: (text) => ipcRenderer.invoke(IPC_CHANNELS.PSEUDONYMS_PSEUDONYMIZE, text),
+  resolvePseudonyms: (text) => ipcRenderer.invoke(IPC_CHANNELS.PSEUDONYMS_RESOLVE, text),
+
+  // Outbound Audit
+  getOutboundAudit: (query) => ipcRenderer.invoke(IPC_CHANNELS.AUDIT_GET_ENTRIES, query),
+  getOutboundAuditSummary: () => ipcRenderer.invoke(IPC_CHANNELS.AUDIT_GET_SUMMARY),
+  exportOutboundAudit: (format) => ipcRenderer.invoke(IPC_CHANNELS.AUDIT_EXPORT, format),
+
+  // Privacy Debugger
+  previewCapture: (capture) => ipcRenderer.invoke(IPC_CHANNELS.PRIVACY_PREVIEW_CAPTURE, capture),
+
+  // Erasure
+  previewErasure: (selector) => ipcRenderer.invoke(IPC_CHANNELS.ERASURE_PREVIEW, selector),
+  eraseData: (selector) => ipcRenderer.invoke(IPC_CHANNELS.ERASURE_RUN, selector),
+
   // Platform
   platform: process.platform,
 };
@@ -286,6 +286,12 @@ export default function ChatWidget({ onClose, onDashboard }: ChatWidgetProps) {
       const detailedResult = await window.electron.getDetailedContext(10);
       const detailedContext = detailedResult.success ? detailedResult.data : null;
 
+      // Names and emails leave the device as vault tokens
+      const pseudonymized = await window.electron.pseudonymize(userMessage.content);
+      if (!pseudonymized.success) {
+        throw new Error('PSEUDONYMIZE_ERROR');
+      }
+
       // Get auth status
       const authResult = await window.electron.getAuthStatus();
       const accessToken = authResult.data?.accessToken;
@@ -323,7 +329,7 @@ export default function ChatWidget({ onClose, onDashboard }: ChatWidgetProps) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          message: userMessage.content,
+          message: pseudonymized.data,
           sessionId,
           stream: true,
           context: {
@@ -446,7 +452,11 @@ export default function ChatWidget({ onClose, onDashboard }: ChatWidgetProps) {
         console.log('[ChatWidget] Final content length:', fullContent.length);
       }
 
-      // Finalize the message - strip ACTION tags from display
+      // Resolve vault tokens back to names, then strip ACTION tags from display
+      const resolved = await window.electron.resolvePseudonyms(fullContent);
+      if (resolved.success && resolved.data !== undefined) {
+        fullContent = resolved.data;
+      }
       const cleanContent = stripActionTags(fullContent) || 'Your request was processed, but SYNC returned no visible response. Please try rephrasing your question.';
       setMessages((prev) =>
         prev.map((msg) =>
@@ -475,6 +485,8 @@ export default function ChatWidget({ onClose, onDashboard }: ChatWidgetProps) {
         errorMessage = 'Too many requests. Please wait a moment and try again.';
       } else if (errMsg === 'SERVER_ERROR') {
         errorMessage = 'SYNC is temporarily unavailable. Please try again in a few minutes.';
+      } else if (errMsg === 'PSEUDONYMIZE_ERROR') {
+        errorMessage = 'Your message could not be prepared for sending. Unlock the database and try again.';
       } else if (errMsg === 'Failed to fetch' || errMsg === 'NetworkError when attempting to fetch resource.' || errMsg === 'Load failed') {
         errorMessage = 'Could not reach SYNC. Check your internet connection and try again.';
       } else {
@@ -6,13 +6,24 @@
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { AppSettings } from '../../shared/types';
+import {
+  AppSettings,
+  CapturePreview,
+  CapturePreviewInput,
+  ErasureResult,
+  ErasureSelector,
+  OutboundAuditEntry,
+  OutboundAuditSummary,
+  PairingState,
+  SnoozeRequest,
+  SnoozeState,
+} from '../../shared/types';
 
 interface SettingsProps {
   onClose: () => void;
 }
 
-type Section = 'tracking' | 'sync' | 'privacy' | 'about';
+type Section = 'tracking' | 'sync' | 'device' | 'privacy' | 'about';
 
 export default function Settings({ onClose }: SettingsProps) {
   const [settings, setSettings] = useState<AppSettings | null>(null);
@@ -104,6 +115,7 @@ export default function Settings({ onClose }: SettingsProps) {
   const sections: { id: Section; label: string }[] = [
     { id: 'tracking', label: 'Tracking' },
     { id: 'sync', label: 'Sync' },
+    { id: 'device', label: 'Device' },
     { id: 'privacy', label: 'Privacy' },
     { id: 'about', label: 'About' },
   ];
@@ -174,6 +186,7 @@ export default function Settings({ onClose }: SettingsProps) {
               ]}
               onChange={v => update('dataRetentionDays', Number(v))}
             />
+            {settings.trackingEnabled && <SnoozePanel />}
           </>
         )}
 
@@ -198,6 +211,42 @@ export default function Settings({ onClose }: SettingsProps) {
               ]}
               onChange={v => update('syncIntervalMinutes', Number(v))}
             />
+            <Toggle
+              label="Wait for Power"
+              description="Hold back large uploads while on battery"
+              value={settings.deferUploadsOnBattery ?? true}
+              onChange={v => update('deferUploadsOnBattery', v)}
+            />
+            <Toggle
+              label="Metered Connection"
+              description="Hold back large uploads on this network (e.g. a phone hotspot)"
+              value={settings.meteredConnection ?? false}
+              onChange={v => update('meteredConnection', v)}
+            />
+            <Select
+              label="Upload Limit"
+              description="Maximum data uploaded per hour"
+              value={String(settings.maxUploadMbPerHour ?? 0)}
+              options={[
+                { value: '0', label: 'Unlimited' },
+                { value: '1', label: '1 MB / hour' },
+                { value: '5', label: '5 MB / hour' },
+                { value: '20', label: '20 MB / hour' },
+              ]}
+              onChange={v => update('maxUploadMbPerHour', Number(v))}
+            />
+          </>
+        )}
+
+        {activeSection === 'device' && (
+          <>
+            <DevicePairingPanel />
+            <TextInput
+              label="Pairing Server"
+              description="Where this device pairs and uploads"
+              value={settings.pairingEndpoint ?? 'https://app.isyncso.com'}
+              onChange={v => update('pairingEndpoint', v)}
+            />
           </>
         )}
 
@@ -215,11 +264,20 @@ export default function Settings({ onClose }: SettingsProps) {
               value={settings.anonymizeWindowTitles}
               onChange={v => update('anonymizeWindowTitles', v)}
             />
+            <Toggle
+              label="Pause While Presenting"
+              description="Stop capture and action pills while you share your screen or run a slide show"
+              value={settings.pauseWhilePresenting ?? true}
+              onChange={v => update('pauseWhilePresenting', v)}
+            />
             <div className="mt-2">
               <p className="text-xs text-white/40 leading-relaxed">
                 SYNC Desktop only collects app usage data. Sensitive apps (passwords, banking) are always excluded.
               </p>
             </div>
+            <OutboundAuditPanel />
+            <PrivacyDebuggerPanel />
+            <DataErasurePanel />
           </>
         )}
 
@@ -333,6 +391,588 @@ function Select({
   );
 }
 
+function TextInput({
+  label,
+  description,
+  value,
+  onChange,
+}: {
+  label: string;
+  description: string;
+  value: string;
+  onChange: (v: string) => void;
+}) {
+  return (
+    <div className="py-1 space-y-1.5">
+      <div>
+        <p className="text-sm text-white/90 font-medium">{label}</p>
+        <p className="text-xs text-white/40 mt-0.5">{description}</p>
+      </div>
+      <input
+        type="url"
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="w-full bg-white/10 border border-white/20 text-white/90 text-xs rounded-lg px-2 py-1.5 focus:outline-none focus:border-sync-teal"
+      />
+    </div>
+  );
+}
+
+const PAIRING_STATUS_LABELS: Record<PairingState['status'], string> = {
+  unpaired: 'Not paired',
+  pending: 'Waiting for approval',
+  paired: 'Paired',
+  revoked: 'Key revoked',
+};
+
+function DevicePairingPanel() {
+  const [state, setState] = useState<PairingState | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (action: () => Promise<{ success: boolean; data?: PairingState; error?: string }>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (result.success && result.data) {
+        setState(result.data);
+      } else {
+        setError(result.error || 'Pairing request failed.');
+      }
+    } catch {
+      setError('Failed to communicate with the app.');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    run(() => (window as any).electron.getPairingState());
+  }, [run]);
+
+  // Poll while waiting for the code to be approved in the web app
+  useEffect(() => {
+    if (state?.status !== 'pending') return;
+    const timer = setInterval(async () => {
+      try {
+        const result = await (window as any).electron.getPairingState();
+        if (result.success && result.data) setState(result.data);
+      } catch {
+        // Next tick will retry
+      }
+    }, 2000);
+    return () => clearInterval(timer);
+  }, [state?.status]);
+
+  if (!state) {
+    return error ? <p className="text-red-400 text-xs">{error}</p> : null;
+  }
+
+  const electron = (window as any).electron;
+  const shownError = error || state.error;
+
+  return (
+    <div className="space-y-2">
+      <InfoRow label="Status" value={PAIRING_STATUS_LABELS[state.status]} />
+
+      {state.status === 'pending' && state.code && (
+        <div className="rounded-lg bg-white/5 border border-white/10 p-3 space-y-2 text-center">
+          <p className="text-xs text-white/50">Enter this code in the SYNC web app</p>
+          <p className="text-2xl font-mono tracking-widest text-white">{state.code}</p>
+          {state.verificationUrl && <ExternalLink label="Open pairing page" url={state.verificationUrl} />}
+        </div>
+      )}
+
+      {(state.status === 'paired' || state.status === 'revoked') && (
+        <>
+          <InfoRow label="Device ID" value={state.deviceId.slice(0, 8)} />
+          {state.pairedAt && <InfoRow label="Paired" value={new Date(state.pairedAt).toLocaleDateString()} />}
+          {state.scopes && state.scopes.length > 0 && <InfoRow label="Scopes" value={state.scopes.join(', ')} />}
+          {state.keyRotatedAt && <InfoRow label="Key Rotated" value={new Date(state.keyRotatedAt).toLocaleDateString()} />}
+        </>
+      )}
+
+      {state.status === 'revoked' && (
+        <p className="text-xs text-amber-400 leading-relaxed">
+          The server rejected this device's key. Uploads are paused until you pair again.
+        </p>
+      )}
+
+      {shownError && <p className="text-red-400 text-xs">{shownError}</p>}
+
+      <div className="flex gap-2 pt-1">
+        {(state.status === 'unpaired' || state.status === 'revoked') && (
+          <PanelButton label={state.status === 'revoked' ? 'Pair Again' : 'Pair Device'} disabled={busy} onClick={() => run(electron.startPairing)} />
+        )}
+        {state.status === 'pending' && (
+          <PanelButton label="Cancel" disabled={busy} onClick={() => run(electron.cancelPairing)} />
+        )}
+        {state.status === 'paired' && (
+          <PanelButton label="Rotate Key" disabled={busy} onClick={() => run(electron.rotatePairingKey)} />
+        )}
+        {(state.status === 'paired' || state.status === 'revoked') && (
+          <PanelButton label="Unpair" disabled={busy} onClick={() => run(electron.unpairDevice)} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SnoozePanel() {
+  const [snooze, setSnooze] = useState<SnoozeState | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const electron = (window as any).electron;
+    electron.getSnooze().then((result: { success: boolean; data?: SnoozeState | null }) => {
+      if (result.success) setSnooze(result.data ?? null);
+    }).catch(() => {});
+    // The snooze can also start or end from the tray, or run out
+    return electron.onSnoozeChanged((state: SnoozeState | null) => setSnooze(state));
+  }, []);
+
+  const run = async (action: () => Promise<{ success: boolean; data?: SnoozeState; error?: string }>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.success) setError(result.error || 'Snooze request failed.');
+    } catch {
+      setError('Failed to communicate with the app.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const electron = (window as any).electron;
+  const start = (request: SnoozeRequest) => run(() => electron.snooze(request));
+
+  return (
+    <div className="pt-3 mt-2 border-t border-white/10 space-y-2">
+      <div>
+        <p className="text-sm text-white/90 font-medium">Snooze Tracking</p>
+        <p className="text-xs text-white/40 mt-0.5">Pause all tracking for a while; it resumes on its own</p>
+      </div>
+
+      {snooze && (
+        <InfoRow
+          label="Snoozed until"
+          value={snooze.until === null ? `you leave ${snooze.app}` : new Date(snooze.until).toLocaleString()}
+        />
+      )}
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+
+      <div className="flex flex-wrap gap-2 pt-1">
+        {snooze ? (
+          <PanelButton label="Resume Now" disabled={busy} onClick={() => run(electron.resumeFromSnooze)} />
+        ) : (
+          <>
+            <PanelButton label="15 Minutes" disabled={busy} onClick={() => start({ kind: 'duration', minutes: 15 })} />
+            <PanelButton label="1 Hour" disabled={busy} onClick={() => start({ kind: 'duration', minutes: 60 })} />
+            <PanelButton label="Until Tomorrow" disabled={busy} onClick={() => start({ kind: 'until_tomorrow' })} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function OutboundAuditPanel() {
+  const [summary, setSummary] = useState<OutboundAuditSummary | null>(null);
+  const [entries, setEntries] = useState<OutboundAuditEntry[]>([]);
+  const [localOnly, setLocalOnly] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const electron = (window as any).electron;
+      const [summaryResult, entriesResult] = await Promise.all([
+        electron.getOutboundAuditSummary(),
+        electron.getOutboundAudit({ limit: 20, privacyLevel: localOnly ? 'local_only' : undefined }),
+      ]);
+      if (summaryResult.success) setSummary(summaryResult.data);
+      if (entriesResult.success) setEntries(entriesResult.data);
+      if (!summaryResult.success || !entriesResult.success) {
+        setMessage(summaryResult.error || entriesResult.error || 'Could not load the upload log.');
+      }
+    } catch {
+      setMessage('Failed to communicate with the app.');
+    }
+  }, [localOnly]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const exportLog = async (format: 'json' | 'csv') => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await (window as any).electron.exportOutboundAudit(format);
+      if (!result.success) {
+        setMessage(result.error || 'Export failed.');
+      } else if (result.data) {
+        setMessage(`Saved to ${result.data}`);
+      }
+    } catch {
+      setMessage('Failed to communicate with the app.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="pt-3 mt-2 border-t border-white/10 space-y-2">
+      <div>
+        <p className="text-sm text-white/90 font-medium">What Left This Device</p>
+        <p className="text-xs text-white/40 mt-0.5">Every upload is recorded locally with its size and a hash of the payload</p>
+      </div>
+
+      {summary && (
+        <>
+          <InfoRow label="Uploads" value={`${summary.totalEntries} (${formatBytes(summary.totalBytes)})`} />
+          <InfoRow label="Local-only uploads" value={String(summary.localOnlyEntries)} />
+          <InfoRow label="Log integrity" value={summary.chainValid ? 'Verified' : `Broken at #${summary.firstBrokenId}`} />
+          {(summary.localOnlyEntries > 0 || !summary.chainValid) && (
+            <p className="text-xs text-amber-400 leading-relaxed">
+              {summary.localOnlyEntries > 0
+                ? 'Some uploads carried data marked local-only. Export the log to review them.'
+                : 'The upload log was changed outside the app.'}
+            </p>
+          )}
+        </>
+      )}
+
+      <Toggle
+        label="Local-only Uploads Only"
+        description="Show only uploads that carried local-only data"
+        value={localOnly}
+        onChange={setLocalOnly}
+      />
+
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {entries.length === 0 && <p className="text-xs text-white/40">No uploads recorded.</p>}
+        {entries.map(entry => (
+          <div key={entry.id} className="rounded-lg bg-white/5 px-2 py-1.5 text-xs">
+            <div className="flex justify-between gap-2">
+              <span className="text-white/80 truncate">{entry.tableName}</span>
+              <span className="text-white/40 flex-shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between gap-2 text-white/40">
+              <span className="truncate">
+                {entry.rowIds.length} rows · {formatBytes(entry.byteSize)} · {entry.privacyLevels.join(', ') || 'no level'}
+              </span>
+              <span className={entry.status !== null && entry.status < 300 ? 'text-white/40' : 'text-red-400'}>
+                {entry.status ?? 'failed'}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {message && <p className="text-xs text-white/60 break-all">{message}</p>}
+
+      <div className="flex gap-2 pt-1">
+        <PanelButton label="Export JSON" disabled={busy} onClick={() => exportLog('json')} />
+        <PanelButton label="Export CSV" disabled={busy} onClick={() => exportLog('csv')} />
+        <PanelButton label="Refresh" disabled={busy} onClick={load} />
+      </div>
+    </div>
+  );
+}
+
+const LIVE_PREVIEW_DELAY_SECONDS = 5;
+
+const DIFF_SEGMENT_CLASSES: Record<'equal' | 'removed' | 'added', string> = {
+  equal: 'text-white/60',
+  removed: 'text-red-400 line-through',
+  added: 'text-green-400',
+};
+
+function PrivacyDebuggerPanel() {
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState<CapturePreviewInput>({ appName: '', windowTitle: '', url: '', visibleText: '' });
+  const [preview, setPreview] = useState<CapturePreview | null>(null);
+  const [countdown, setCountdown] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const run = async (capture?: CapturePreviewInput) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await (window as any).electron.previewCapture(capture);
+      if (!result.success) {
+        setMessage(result.error || 'Preview failed.');
+      } else if (!result.data) {
+        setMessage('No focused window could be read. Check the accessibility permission.');
+      } else {
+        setPreview(result.data);
+      }
+    } catch {
+      setMessage('Failed to communicate with the app.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Count down so there is time to switch to the window under test
+  useEffect(() => {
+    if (countdown === 0) return;
+    const timer = setTimeout(() => {
+      if (countdown === 1) run();
+      setCountdown(countdown - 1);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [countdown]);
+
+  const field = (key: 'appName' | 'windowTitle' | 'url', placeholder: string) => (
+    <input
+      value={input[key] ?? ''}
+      placeholder={placeholder}
+      onChange={e => setInput({ ...input, [key]: e.target.value })}
+      className="w-full bg-white/10 border border-white/20 text-white/90 text-xs rounded-lg px-2 py-1.5 focus:outline-none focus:border-sync-teal"
+    />
+  );
+
+  return (
+    <div className="pt-3 mt-2 border-t border-white/10 space-y-2">
+      <Toggle
+        label="Privacy Debugger"
+        description="Preview what a capture would store and which rules fired"
+        value={open}
+        onChange={setOpen}
+      />
+
+      {open && (
+        <>
+          {field('appName', 'App name, e.g. Google Chrome')}
+          {field('windowTitle', 'Window title')}
+          {field('url', 'URL (optional)')}
+          <textarea
+            value={input.visibleText ?? ''}
+            placeholder="Visible text"
+            rows={3}
+            onChange={e => setInput({ ...input, visibleText: e.target.value })}
+            className="w-full bg-white/10 border border-white/20 text-white/90 text-xs rounded-lg px-2 py-1.5 focus:outline-none focus:border-sync-teal resize-none"
+          />
+
+          <div className="flex gap-2">
+            <PanelButton
+              label="Preview"
+              disabled={busy || countdown > 0 || !input.appName}
+              onClick={() => run({ ...input, url: input.url || undefined })}
+            />
+            <PanelButton
+              label={countdown > 0 ? `Reading in ${countdown}s...` : 'Preview Focused Window'}
+              disabled={busy || countdown > 0}
+              onClick={() => setCountdown(LIVE_PREVIEW_DELAY_SECONDS)}
+            />
+          </div>
+
+          {message && <p className="text-xs text-red-400">{message}</p>}
+
+          {preview && (
+            <div className="space-y-2">
+              <InfoRow label="Evaluated" value={`${preview.capture.appName} — ${preview.capture.windowTitle || '(no title)'}`} />
+              <InfoRow label="Decision" value={`${preview.action} (${preview.ruleId ?? 'default'})`} />
+              <InfoRow label="Stored as" value={preview.stored ? preview.privacyLevel ?? '—' : 'not stored'} />
+              {preview.event && <InfoRow label="Event" value={preview.event.eventType} />}
+
+              <div className="rounded-lg bg-white/5 px-2 py-1.5 text-xs space-y-0.5">
+                {preview.trace.length === 0 && <p className="text-white/40">No rules checked.</p>}
+                {preview.trace.map(t => (
+                  <div key={t.ruleId} className="flex justify-between gap-2">
+                    <span className={t.matched ? 'text-sync-teal-light' : 'text-white/40'}>{t.ruleId}</span>
+                    <span className="text-white/40">{t.matched ? 'matched' : `no ${t.failed}`}</span>
+                  </div>
+                ))}
+              </div>
+
+              {preview.fields.filter(f => f.original || f.stored).map(f => (
+                <div key={f.field} className="rounded-lg bg-white/5 px-2 py-1.5 text-xs">
+                  <p className="text-white/40 mb-0.5">{f.field}</p>
+                  <p className="break-words whitespace-pre-wrap max-h-32 overflow-y-auto">
+                    {f.segments.map((segment, i) => (
+                      <span key={i} className={DIFF_SEGMENT_CLASSES[segment.op]}>{segment.text}</span>
+                    ))}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+type ErasureKind = ErasureSelector['kind'];
+
+function toLocalInput(time: number): string {
+  const date = new Date(time);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+}
+
+function DataErasurePanel() {
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<ErasureKind>('app');
+  const [value, setValue] = useState('');
+  const [start, setStart] = useState(() => toLocalInput(Date.now() - 60 * 60 * 1000));
+  const [end, setEnd] = useState(() => toLocalInput(Date.now()));
+  const [preview, setPreview] = useState<ErasureResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selector = (): ErasureSelector | null => {
+    if (kind === 'time_range') {
+      const from = new Date(start).getTime();
+      const to = new Date(end).getTime();
+      return Number.isFinite(from) && Number.isFinite(to) && from < to ? { kind, start: from, end: to } : null;
+    }
+    if (!value.trim()) return null;
+    return kind === 'app' ? { kind, appName: value.trim() } : { kind, name: value.trim() };
+  };
+
+  const run = async (dryRun: boolean) => {
+    const target = selector();
+    if (!target) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      const electron = (window as any).electron;
+      const result = dryRun ? await electron.previewErasure(target) : await electron.eraseData(target);
+      if (!result.success) {
+        setMessage(result.error || 'Erasure failed.');
+      } else if (dryRun) {
+        setPreview(result.data);
+      } else {
+        const data: ErasureResult = result.data;
+        const cloudErrors = data.cloud?.errors.length ?? 0;
+        setPreview(null);
+        setMessage(
+          !data.cloud
+            ? 'Deleted on this device. Sign in to delete synced copies.'
+            : cloudErrors > 0
+              ? `Deleted on this device; ${cloudErrors} cloud delete(s) failed.`
+              : 'Deleted on this device and in the cloud.'
+        );
+      }
+    } catch {
+      setMessage('Failed to communicate with the app.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Any change to the selection invalidates the preview
+  const change = (update: () => void) => {
+    update();
+    setPreview(null);
+    setMessage(null);
+  };
+
+  const inputClass = 'w-full bg-white/10 border border-white/20 text-white/90 text-xs rounded-lg px-2 py-1.5 focus:outline-none focus:border-sync-teal';
+  const rows = preview ? Object.entries(preview.counts).filter(([, count]) => count > 0) : [];
+
+  return (
+    <div className="pt-3 mt-2 border-t border-white/10 space-y-2">
+      <Toggle
+        label="Delete My Data"
+        description="Erase everything about a person or topic, from an app, or in a time range"
+        value={open}
+        onChange={setOpen}
+      />
+
+      {open && (
+        <>
+          <Select
+            label="Delete"
+            description="What to match"
+            value={kind}
+            options={[
+              { value: 'app', label: 'From an app' },
+              { value: 'entity', label: 'About a person or topic' },
+              { value: 'time_range', label: 'In a time range' },
+            ]}
+            onChange={v => change(() => setKind(v as ErasureKind))}
+          />
+
+          {kind === 'time_range' ? (
+            <div className="flex gap-2">
+              <input type="datetime-local" value={start} onChange={e => change(() => setStart(e.target.value))} className={inputClass} />
+              <input type="datetime-local" value={end} onChange={e => change(() => setEnd(e.target.value))} className={inputClass} />
+            </div>
+          ) : (
+            <input
+              value={value}
+              placeholder={kind === 'app' ? 'App name, e.g. Slack' : 'Name, e.g. Anna de Vries'}
+              onChange={e => change(() => setValue(e.target.value))}
+              className={inputClass}
+            />
+          )}
+
+          {preview && (
+            <div className="rounded-lg bg-white/5 px-2 py-1.5 text-xs space-y-0.5">
+              {rows.length === 0 && preview.transportQueue === 0 && preview.rewrittenSummaries === 0 && (
+                <p className="text-white/40">Nothing matches.</p>
+              )}
+              {rows.map(([table, count]) => (
+                <div key={table} className="flex justify-between gap-2">
+                  <span className="text-white/60">{table}</span>
+                  <span className="text-white/80">{count}</span>
+                </div>
+              ))}
+              {preview.rewrittenSummaries > 0 && (
+                <div className="flex justify-between gap-2">
+                  <span className="text-white/60">hourly summaries (app removed)</span>
+                  <span className="text-white/80">{preview.rewrittenSummaries}</span>
+                </div>
+              )}
+              {preview.transportQueue > 0 && (
+                <div className="flex justify-between gap-2">
+                  <span className="text-white/60">queued uploads</span>
+                  <span className="text-white/80">{preview.transportQueue}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {message && <p className="text-xs text-white/60">{message}</p>}
+
+          <div className="flex gap-2">
+            <PanelButton label="Preview" disabled={busy || !selector()} onClick={() => run(true)} />
+            <PanelButton label="Delete Permanently" disabled={busy || !preview} onClick={() => run(false)} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function PanelButton({ label, disabled, onClick }: { label: string; disabled: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="px-3 py-1.5 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-lg text-xs text-white/80 transition-colors"
+    >
+      {label}
+    </button>
+  );
+}
+
 function InfoRow({ label, value }: { label: string; value: string }) {
   return (
     <div className="flex items-center justify-between py-1">
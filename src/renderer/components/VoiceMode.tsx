@@ -146,6 +146,12 @@ export default function VoiceMode({ onClose }: VoiceModeProps) {
         const detailedResult = await window.electron.getDetailedContext(10);
         const detailedContext = detailedResult.success ? detailedResult.data : null;
 
+        // Names and emails leave the device as vault tokens
+        const pseudonymized = await window.electron.pseudonymize(text);
+        if (!pseudonymized.success) {
+          throw new Error('PSEUDONYMIZE_ERROR');
+        }
+
         // Get auth status
         const authResult = await window.electron.getAuthStatus();
         const accessToken = authResult.data?.accessToken;
@@ -164,7 +170,7 @@ export default function VoiceMode({ onClose }: VoiceModeProps) {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            message: text,
+            message: pseudonymized.data,
             sessionId,
             voice: 'tara',
             context: {
@@ -192,7 +198,8 @@ export default function VoiceMode({ onClose }: VoiceModeProps) {
 
         const data = await response.json();
 
-        const responseText = data.text || '';
+        const resolved = await window.electron.resolvePseudonyms(data.text || '');
+        const responseText = resolved.success ? resolved.data || '' : data.text || '';
         setResponse(responseText);
         setState('speaking');
 
@@ -220,6 +227,8 @@ export default function VoiceMode({ onClose }: VoiceModeProps) {
           setError('Too many requests. Please wait a moment and try again.');
         } else if (errMsg === 'SERVER_ERROR') {
           setError('SYNC is temporarily unavailable. Please try again in a few minutes.');
+        } else if (errMsg === 'PSEUDONYMIZE_ERROR') {
+          setError('Your request could not be prepared for sending. Unlock the database and try again.');
         } else if (errMsg === 'Failed to fetch' || errMsg === 'NetworkError when attempting to fetch resource.' || errMsg === 'Load failed') {
           setError('Could not reach SYNC. Check your internet connection and try again.');
         } else {
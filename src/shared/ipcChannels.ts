@@ -78,8 +78,58 @@ export const IPC_CHANNELS = {
   DEEP_CONTEXT_GET_PENDING_FOLLOWUPS: 'deep-context:get-pending-followups',
   DEEP_CONTEXT_DISMISS_COMMITMENT: 'deep-context:dismiss-commitment',
   DEEP_CONTEXT_COMPLETE_COMMITMENT: 'deep-context:complete-commitment',
+  DEEP_CONTEXT_SNOOZE_COMMITMENT: 'deep-context:snooze-commitment',
+  DEEP_CONTEXT_REASSIGN_COMMITMENT: 'deep-context:reassign-commitment',
+  DEEP_CONTEXT_GET_COMMITMENT_HISTORY: 'deep-context:get-commitment-history',
   DEEP_CONTEXT_GET_ENRICHED_CONTEXT: 'deep-context:get-enriched-context',
 
+  // Transport Dead Letters
+  TRANSPORT_GET_DEAD_LETTERS: 'transport:get-dead-letters',
+  TRANSPORT_REQUEUE_DEAD_LETTER: 'transport:requeue-dead-letter',
+  TRANSPORT_PURGE_DEAD_LETTERS: 'transport:purge-dead-letters',
+
+  // Device Pairing
+  PAIRING_GET_STATE: 'pairing:get-state',
+  PAIRING_START: 'pairing:start',
+  PAIRING_CANCEL: 'pairing:cancel',
+  PAIRING_ROTATE_KEY: 'pairing:rotate-key',
+  PAIRING_UNPAIR: 'pairing:unpair',
+
+  // Local Profiles
+  PROFILES_GET: 'profiles:get',
+  PROFILES_CREATE: 'profiles:create',
+  PROFILES_DELETE: 'profiles:delete',
+  PROFILES_SWITCH: 'profiles:switch',
+  PROFILES_UPDATE_RULES: 'profiles:update-rules',
+  PROFILES_CHANGED: 'profiles:changed',
+
+  // Snooze
+  SNOOZE_GET: 'snooze:get',
+  SNOOZE_START: 'snooze:start',
+  SNOOZE_RESUME: 'snooze:resume',
+  SNOOZE_CHANGED: 'snooze:changed',
+
+  // Database Encryption
+  DATABASE_ENCRYPTION_STATUS: 'database:encryption-status',
+  DATABASE_UNLOCK: 'database:unlock',
+  DATABASE_SET_PASSPHRASE: 'database:set-passphrase',
+
+  // Pseudonym Vault
+  PSEUDONYMS_PSEUDONYMIZE: 'pseudonyms:pseudonymize',
+  PSEUDONYMS_RESOLVE: 'pseudonyms:resolve',
+
+  // Outbound Audit
+  AUDIT_GET_ENTRIES: 'audit:get-entries',
+  AUDIT_GET_SUMMARY: 'audit:get-summary',
+  AUDIT_EXPORT: 'audit:export',
+
+  // Privacy Debugger
+  PRIVACY_PREVIEW_CAPTURE: 'privacy:preview-capture',
+
+  // Erasure
+  ERASURE_PREVIEW: 'erasure:preview',
+  ERASURE_RUN: 'erasure:run',
+
   // Health Checks (INF-009)
   HEALTH_CHECK: 'health:check',
 
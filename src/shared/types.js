@@ -1,21 +0,0 @@
-"use strict";
-// ============================================================================
-// Activity Tracking Types
-// ============================================================================
-Object.defineProperty(exports, "__esModule", { value: true });
-exports.DEFAULT_SETTINGS = void 0;
-exports.DEFAULT_SETTINGS = {
-    trackingEnabled: true,
-    excludedApps: [],
-    dataRetentionDays: 30,
-    autoSync: true,
-    syncIntervalMinutes: 5,
-    avatarPosition: 'top-right',
-    avatarSize: 'medium',
-    showInDock: false,
-    launchAtLogin: true,
-    voiceEnabled: true,
-    voiceName: 'tara',
-    trackBrowserUrls: true,
-    anonymizeWindowTitles: false,
-};
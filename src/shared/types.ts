@@ -30,6 +30,7 @@ export interface HourlySummary {
   ocrText?: string | null;
   semanticCategory?: string | null;
   commitments?: string | null;
+  pausedIntervals?: PausedInterval[]; // snoozed stretches within the hour
   synced: boolean;
 }
 
@@ -130,6 +131,10 @@ export interface AppSettings {
   // Sync
   autoSync: boolean;
   syncIntervalMinutes: number;
+  deferUploadsOnBattery: boolean;
+  meteredConnection: boolean; // No OS API for this — the user marks their connection as metered
+  maxUploadMbPerHour: number; // 0 = unlimited
+  pairingEndpoint: string;
 
   // UI
   avatarPosition: 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left';
@@ -144,6 +149,7 @@ export interface AppSettings {
   // Privacy
   trackBrowserUrls: boolean;
   anonymizeWindowTitles: boolean;
+  pauseWhilePresenting: boolean; // pause capture and notch pills during screen sharing and slide shows
 }
 
 export const DEFAULT_SETTINGS: AppSettings = {
@@ -152,6 +158,10 @@ export const DEFAULT_SETTINGS: AppSettings = {
   dataRetentionDays: 30,
   autoSync: true,
   syncIntervalMinutes: 1,
+  deferUploadsOnBattery: true,
+  meteredConnection: false,
+  maxUploadMbPerHour: 0,
+  pairingEndpoint: 'https://app.isyncso.com',
   avatarPosition: 'top-right',
   avatarSize: 'medium',
   showInDock: true,
@@ -160,8 +170,189 @@ export const DEFAULT_SETTINGS: AppSettings = {
   voiceName: 'tara',
   trackBrowserUrls: true,
   anonymizeWindowTitles: false,
+  pauseWhilePresenting: true,
 };
 
+// ============================================================================
+// Device Pairing Types
+// ============================================================================
+
+export type PairingStatus = 'unpaired' | 'pending' | 'paired' | 'revoked';
+
+export interface PairingState {
+  status: PairingStatus;
+  deviceId: string;
+  endpoint: string;
+  code?: string; // pending only
+  verificationUrl?: string; // pending only
+  expiresAt?: number; // pending only
+  pairedAt?: number;
+  scopes?: string[];
+  keyRotatedAt?: number;
+  revokedAt?: number; // set when the backend rejected the device key
+  error?: string;
+}
+
+// ============================================================================
+// Profile Types
+// ============================================================================
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+/**
+ * Automatic profile selection rule. Every condition that is set must match;
+ * rules are checked in order and the first match wins.
+ */
+export interface ProfileRule {
+  profileId: string;
+  apps?: string[]; // app names, case-insensitive
+  days?: number[]; // 0 = Sunday
+  startTime?: string; // 'HH:MM' local time
+  endTime?: string; // 'HH:MM', may be earlier than startTime to wrap past midnight
+}
+
+export interface ProfileConfig {
+  profiles: Profile[];
+  activeProfileId: string;
+  rules: ProfileRule[];
+  autoSwitch: boolean;
+}
+
+export const DEFAULT_PROFILE_CONFIG: ProfileConfig = {
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Default', createdAt: 0 }],
+  activeProfileId: DEFAULT_PROFILE_ID,
+  rules: [],
+  autoSwitch: true,
+};
+
+// ============================================================================
+// Database Encryption Types
+// ============================================================================
+
+export type DatabaseKeyMode = 'keychain' | 'passphrase';
+
+export interface DatabaseEncryptionStatus {
+  mode: DatabaseKeyMode | null;
+  locked: boolean; // key missing from the keychain; the passphrase is needed
+}
+
+// ============================================================================
+// Outbound Audit Types
+// ============================================================================
+
+export type OutboundChannel = 'cloud_sync' | 'transport';
+
+export interface OutboundAuditEntry {
+  id: number;
+  timestamp: number;
+  channel: OutboundChannel;
+  destination: string; // URL without query string, or `sink:<name>`
+  tableName: string; // local table (cloud sync) or event types (transport)
+  rowIds: string[];
+  byteSize: number;
+  payloadHash: string; // sha256 of the exact body sent
+  privacyLevels: string[];
+  status: number | null; // HTTP status; null when no response arrived
+  entryHash: string; // sha256 over the previous entry's hash and this entry
+}
+
+export interface OutboundAuditSummary {
+  totalEntries: number;
+  totalBytes: number;
+  localOnlyEntries: number; // entries whose payload carried local_only rows
+  chainValid: boolean;
+  firstBrokenId: number | null;
+}
+
+// ============================================================================
+// Snooze Types
+// ============================================================================
+
+export type SnoozeKind = 'duration' | 'until_tomorrow' | 'until_app_blur';
+
+export type SnoozeRequest =
+  | { kind: 'duration'; minutes: number }
+  | { kind: 'until_tomorrow' }
+  | { kind: 'until_app_blur'; app?: string }; // defaults to the frontmost app
+
+export interface SnoozeState {
+  kind: SnoozeKind;
+  startedAt: number;
+  until: number | null; // null for until_app_blur
+  app?: string; // until_app_blur only
+}
+
+export interface PausedInterval {
+  start: number;
+  end: number;
+  kind: SnoozeKind;
+}
+
+// ============================================================================
+// Privacy Debugger Types
+// ============================================================================
+
+export interface CapturePreviewInput {
+  appName: string;
+  windowTitle: string;
+  bundleId?: string;
+  url?: string;
+  filePath?: string;
+  visibleText?: string;
+  focusedElementText?: string;
+  timestamp?: number; // defaults to now; time-window rules use it
+}
+
+export type CaptureTextField = 'windowTitle' | 'url' | 'filePath' | 'focusedElementText' | 'visibleText';
+
+export interface TextDiffSegment {
+  op: 'equal' | 'removed' | 'added';
+  text: string;
+}
+
+export interface CaptureFieldDiff {
+  field: CaptureTextField;
+  original: string;
+  stored: string;
+  segments: TextDiffSegment[];
+}
+
+export interface CapturePreview {
+  capture: CapturePreviewInput; // what was evaluated (the live capture when none was given)
+  action: 'allow' | 'deny' | 'redact' | 'local_only';
+  ruleId: string | null; // null when the default action applied
+  trace: { ruleId: string; matched: boolean; failed?: string }[];
+  stored: boolean; // false when the policy drops the capture
+  privacyLevel: 'local_only' | 'sync_allowed' | null;
+  pii: { field: CaptureTextField; recognizerId: string; token: string }[];
+  fields: CaptureFieldDiff[];
+  event: { eventType: string; summary: string; entities: string[]; intent?: string } | null;
+}
+
+// ============================================================================
+// Erasure Types
+// ============================================================================
+
+export type ErasureSelector =
+  | { kind: 'entity'; name: string } // entity name or alias, case-insensitive
+  | { kind: 'app'; appName: string } // case-insensitive
+  | { kind: 'time_range'; start: number; end: number }; // [start, end)
+
+export interface ErasureResult {
+  selector: ErasureSelector;
+  dryRun: boolean;
+  counts: Record<string, number>; // local rows per table, deleted or to be deleted
+  rewrittenSummaries: number; // hourly summaries with the app removed from the breakdown
+  transportQueue: number; // queued and dead-lettered transport events
+  cloud: { requests: number; errors: string[] } | null; // null on a dry run or when signed out
+}
+
 // ============================================================================
 // IPC Types
 // ============================================================================
@@ -233,7 +424,14 @@ export interface VoiceSyncResponse {
 // ============================================================================
 
 export type CommitmentType = 'send_email' | 'create_event' | 'send_file' | 'follow_up' | 'make_call' | 'other';
-export type CommitmentStatus = 'pending' | 'completed' | 'expired' | 'dismissed';
+/**
+ * Commitment lifecycle (see commitmentService.ts). A commitment starts out
+ * `detected` and becomes `pending` once it is seen with enough confidence or a
+ * second time; `completed`, `dismissed` and `expired` are final.
+ */
+export type CommitmentStatus = 'detected' | 'pending' | 'snoozed' | 'overdue' | 'completed' | 'dismissed' | 'expired';
+/** Which detector found a commitment: OCR of screen captures, or the accessibility pipeline */
+export type CommitmentSource = 'screen' | 'accessibility';
 export type ActionPriority = 'high' | 'medium' | 'low';
 export type ActionSource = 'email' | 'document' | 'chat' | 'calendar' | 'browser' | 'other';
 export type ActivityType = 'composing_email' | 'reading_email' | 'editing_doc' | 'browsing' | 'coding' | 'meeting' | 'calendar' | 'chatting' | 'other';
@@ -253,17 +451,38 @@ export interface Commitment {
   id?: number;
   text: string;
   type: CommitmentType;
+  source: CommitmentSource;
   recipient?: string;
+  involvedParties?: string[];
+  /** Who owns the commitment after a reassignment; undefined means the user */
+  assignee?: string;
   deadline?: number;
   detectedAt: number;
+  /** Last time either detector saw it again */
+  lastSeenAt?: number;
+  sightings?: number;
   completedAt?: number;
   status: CommitmentStatus;
+  snoozedUntil?: number;
+  /** 0 until overdue, then one level per escalation step passed */
+  escalationLevel?: number;
   sourceCaptureId?: number;
+  contextEventId?: number;
   context?: Record<string, unknown>;
   confidence: number;
   synced: boolean;
 }
 
+export interface CommitmentTransition {
+  commitmentId: number;
+  /** null when the commitment was first recorded */
+  from: CommitmentStatus | null;
+  to: CommitmentStatus;
+  at: number;
+  /** e.g. 'confirmed', 'deadline_passed', 'snoozed', 'reassigned', 'user' */
+  reason?: string;
+}
+
 export interface ActionItem {
   id?: number;
   text: string;
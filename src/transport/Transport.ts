@@ -1,16 +1,36 @@
 import zlib from 'zlib';
-import fetch from 'node-fetch';
 import { v4 as uuidv4 } from 'uuid';
-import { SQLiteQueue } from './sqliteQueue';
-import { getApiKey } from '../pairing/pairing';
+import {
+  SQLiteQueue,
+  QueueItem,
+  QueueLane,
+  QueuePolicy,
+  DeadLetterItem,
+  EnqueueOptions,
+  DEFAULT_QUEUE_POLICIES,
+} from './sqliteQueue';
+import { HttpSink, SinkResponse, TransportSink, UploadBatch, uploadPath } from './sinks';
+import { BatchEncoding, BATCH_ENCODING_HEADER, encodeDictDelta } from './batchEncoding';
+import { UploadPolicy, UploadDecision } from './uploadPolicy';
+import { EnvelopeKeys, ENVELOPE_HEADER, ENVELOPE_VERSION, sealEnvelope } from './envelope';
+import {
+  EventSchema,
+  EVENT_SCHEMAS,
+  isEventEnvelope,
+  createEventEnvelope,
+  migrateEventEnvelope,
+  validateEventEnvelope,
+} from './eventSchema';
+import { getApiKey, getEnvelopeKeys } from '../pairing/pairing';
 import { APP_VERSION } from '../shared/constants';
+import type { PrivacyLevel } from '../deep-context/types';
 
 /**
  * Configuration options for the Transport layer
  */
 export type TransportOptions = {
-  /** SYNC API endpoint base URL (e.g., 'https://app.isyncso.com') */
-  endpoint: string;
+  /** SYNC API endpoint base URL (e.g., 'https://app.isyncso.com'). Required unless `sink` is given. */
+  endpoint?: string;
   /** Unique device identifier */
   deviceId: string;
   /** Maximum number of events per batch (default: 200) */
@@ -25,6 +45,44 @@ export type TransportOptions = {
   clientVersion?: string;
   /** Optional custom path for queue database (mainly for testing) */
   queueDbPath?: string;
+  /** Per-event-type lane/quota/TTL policies (default: DEFAULT_QUEUE_POLICIES) */
+  queuePolicies?: Record<string, QueuePolicy>;
+  /** Where batches are delivered (default: HttpSink for `endpoint`) */
+  sink?: TransportSink;
+  /** Batch body encoding (default: 'json'). 'dict-delta-v1' falls back to 'json' if the endpoint answers 415. */
+  batchEncoding?: BatchEncoding;
+  /** Optional power/bandwidth-aware scheduling policy (default: always send) */
+  uploadPolicy?: UploadPolicy;
+  /** Encrypt every batch for the backend (default: false). Batches are never sent in plaintext while keys are missing. */
+  encryptPayloads?: boolean;
+  /** Source of envelope keys, read for every batch so rotation applies immediately (default: keys stored at pairing) */
+  envelopeKeys?: () => Promise<EnvelopeKeys | null>;
+  /** Called when the endpoint rejects the device key with 401 (e.g. to mark the pairing revoked) */
+  onAuthRevoked?: () => void;
+  /** Called for every batch handed to the sink, including failed sends (e.g. to write an audit log) */
+  onUpload?: (record: TransportUploadRecord) => void;
+  /** Schemas that event envelopes are validated and migrated against (default: EVENT_SCHEMAS) */
+  eventSchemas?: Record<string, EventSchema>;
+  /** What to do with an envelope that fails validation: park it in the dead-letter table, or throw (default: 'quarantine') */
+  invalidEvents?: 'quarantine' | 'reject';
+};
+
+/**
+ * A batch that was handed to the sink
+ */
+export type TransportUploadRecord = {
+  /** Upload URL, or `sink:<name>` for a custom sink */
+  destination: string;
+  /** event_id of every event in the batch */
+  eventIds: string[];
+  /** Distinct event types in the batch */
+  eventTypes: string[];
+  /** Distinct privacy levels of the event envelopes in the batch */
+  privacyLevels: string[];
+  /** Exact body handed to the sink (gzipped, or an envelope when encrypted) */
+  body: Buffer;
+  /** Sink status, or null when the send threw */
+  status: number | null;
 };
 
 /**
@@ -33,8 +91,20 @@ export type TransportOptions = {
 export type TransportStatus = {
   /** Number of events waiting in the queue */
   queueLength: number;
+  /** Waiting events per priority lane */
+  queueByLane: Record<QueueLane, number>;
   /** Whether a batch upload is currently in progress */
   sending: boolean;
+  /** Number of events parked in the dead-letter table */
+  deadLetterCount: number;
+  /** Batch encoding currently in use (after any 415 fallback) */
+  batchEncoding: BatchEncoding;
+  /** Latest upload policy decision (why data is or isn't leaving), if a policy is set */
+  uploadDecision: UploadDecision | null;
+  /** Whether batches are envelope-encrypted */
+  encrypted: boolean;
+  /** Whether uploads are paused because the device key was rejected (401) */
+  authRevoked: boolean;
   /** Last error message, if any */
   lastError?: string;
 };
@@ -45,18 +115,29 @@ export type TransportStatus = {
  * The Transport layer handles uploading activity events to the SYNC cloud with:
  * - **Persistent queue**: Events survive app restarts (SQLite)
  * - **Batching**: Groups events to reduce network requests
- * - **Compression**: Gzip compression to reduce bandwidth
+ * - **Priority lanes**: High-priority events (e.g. commitments) are sent first;
+ *   low-priority context events can be capped per type and expire
+ * - **Compression**: Gzip compression to reduce bandwidth, plus opt-in
+ *   dictionary/timestamp-delta batch encoding (see batchEncoding.ts)
+ * - **Encryption**: Opt-in per-batch envelope encryption to the backend's
+ *   public key (see envelope.ts)
  * - **Idempotency**: upload_id and event_id prevent duplicates
+ * - **Schema validation**: Versioned event envelopes are validated before they
+ *   are queued and migrated when a schema changes (see eventSchema.ts)
  * - **Retry logic**: Exponential backoff with jitter for failures
- * - **Error handling**: Smart retry vs. drop decisions based on HTTP status
+ * - **Scheduling policy**: Optional UploadPolicy defers large uploads on battery
+ *   or metered networks, caps bytes per hour, and coalesces flushes
+ * - **Error handling**: Smart retry vs. dead-letter decisions based on HTTP status
+ * - **Audit hook**: `onUpload` reports every batch handed to the sink
  * 
  * @example
  * ```typescript
  * import { Transport } from './transport/Transport';
- * import { storeApiKey } from './pairing/pairing';
+ * import { DevicePairing } from './pairing/devicePairing';
  * 
- * // First, store the device API key (obtained from app.isyncso.com)
- * await storeApiKey('your-device-api-key');
+ * // First, pair the device (DevicePairing stores the issued device key)
+ * const pairing = new DevicePairing({ endpoint: 'https://app.isyncso.com' });
+ * await pairing.start(); // user enters the code in the web app
  * 
  * // Create transport instance
  * const transport = new Transport({
@@ -64,6 +145,8 @@ export type TransportStatus = {
  *   deviceId: 'unique-device-id',
  *   batchSize: 200,
  *   maxRetries: 6,
+ *   onAuthRevoked: () => pairing.markRevoked(),
+ *   onUpload: recordTransportUpload, // main/services/outboundAudit.ts
  * });
  * 
  * // Enqueue events (stored persistently)
@@ -73,6 +156,13 @@ export type TransportStatus = {
  *   timestamp: Date.now(),
  * });
  * 
+ * // Or enqueue a typed, schema-validated event envelope
+ * await transport.enqueueEvent('action_approval', {
+ *   action_id: 'act-1',
+ *   status: 'approved',
+ *   resolved_at: Date.now(),
+ * });
+ * 
  * // Trigger upload (batches, compresses, and sends)
  * await transport.flushSoon();
  * 
@@ -91,9 +181,24 @@ export type TransportStatus = {
  * 
  * - **5xx errors & network failures**: Retry with exponential backoff (2s, 4s, 8s, 16s, 32s, 60s max)
  * - **429 rate limit**: Retry with backoff
- * - **4xx errors (except 429)**: Drop batch to prevent stuck queue
+ * - **401 Unauthorized**: Keep the batch queued and pause uploads until
+ *   clearAuthRevoked() is called (the device key was revoked; re-pair first)
+ * - **Other 4xx errors (except 429)**: Move batch to the dead-letter table to prevent a stuck queue
+ * - **Events larger than maxBatchBytes**: Moved to the dead-letter table
+ * - **Invalid event envelopes**: Quarantined in the dead-letter table before they
+ *   are queued; queued envelopes whose schema migration fails are dead-lettered
  * - **Max retries exceeded**: Stop and log error
  * 
+ * Dead-lettered events are never deleted implicitly. Inspect them with
+ * getDeadLetters(), fix and requeue them with requeueDeadLetter(), or
+ * discard them with purgeDeadLetters().
+ * 
+ * ## Sinks
+ * 
+ * Batches go to an HttpSink for `endpoint` by default. Pass `sink` to deliver
+ * them elsewhere: FileSink (NDJSON), UnixSocketSink, or CallbackSink (in-process).
+ * LocalReceiver speaks the upload format for fully offline runs.
+ * 
  * ## Batch Upload Format
  * 
  * The upload endpoint receives a gzipped JSON payload:
@@ -108,23 +213,30 @@ export type TransportStatus = {
  *   ]
  * }
  * ```
+ * 
+ * With `batchEncoding: 'dict-delta-v1'` the body is sent with an
+ * `X-Sync-Batch-Encoding` header in the compact format documented in batchEncoding.ts.
+ * 
+ * With `encryptPayloads: true` the gzipped body is replaced by a JSON envelope
+ * and the request carries `X-Sync-Envelope: 1` instead of `Content-Encoding: gzip`
+ * (format documented in envelope.ts).
  */
 export class Transport {
   private queue: SQLiteQueue;
+  private sink: TransportSink;
+  private batchEncoding: BatchEncoding;
+  private deferTimer: NodeJS.Timeout | null = null;
   private opts: TransportOptions;
   private sending = false;
   private retryCount = 0;
+  private authRevoked = false;
   private lastError?: string;
 
   /**
    * Creates a new Transport instance
    * 
    * @param opts - Transport configuration options
-   */
-  /**
-   * Creates a new Transport instance
-   * 
-   * @param opts - Transport configuration options
+   * @throws Error if neither `endpoint` nor `sink` is provided
    */
   constructor(opts: TransportOptions) {
     this.opts = {
@@ -135,102 +247,184 @@ export class Transport {
       clientVersion: APP_VERSION,
       ...opts,
     };
-    this.queue = new SQLiteQueue(opts.queueDbPath);
+    if (opts.sink) {
+      this.sink = opts.sink;
+    } else if (opts.endpoint) {
+      this.sink = new HttpSink(opts.endpoint);
+    } else {
+      throw new Error('Transport requires an endpoint or a sink');
+    }
+    this.batchEncoding = opts.batchEncoding ?? 'json';
+    this.queue = new SQLiteQueue(opts.queueDbPath, opts.queuePolicies ?? DEFAULT_QUEUE_POLICIES);
   }
 
   /**
    * Add an event to the persistent queue
    * 
    * Events are stored locally in SQLite and will be uploaded on the next flush.
-   * Each event receives a unique event_id for idempotency.
+   * Each event receives a unique event_id for idempotency. The priority lane
+   * comes from the queue policy for the event's type unless overridden.
+   * 
+   * Event envelopes (see eventSchema.ts) are migrated to the current schema
+   * version and validated first. An invalid envelope is quarantined in the
+   * dead-letter table, or throws when `invalidEvents` is 'reject'.
    * 
    * @param event - Event object to enqueue (will be JSON stringified)
-   * @returns Unique ID of the queued event
+   * @param opts - Optional lane/type overrides
+   * @returns Unique ID of the queued event (or of its dead-letter item when quarantined)
+   * @throws Error if the envelope is invalid and `invalidEvents` is 'reject'
    */
-  async enqueue(event: object): Promise<string> {
+  async enqueue(event: object, opts?: EnqueueOptions): Promise<string> {
     // Ensure event has event_id for idempotency
-    const e: any = { ...event };
+    let e: any = { ...event };
     if (!e.event_id) {
       e.event_id = uuidv4();
     }
-    return this.queue.enqueue(e);
+
+    // Envelopes are upgraded and validated before they are queued; plain objects pass through
+    if (isEventEnvelope(e)) {
+      const result = this._checkEnvelope(e);
+      if ('errors' in result) {
+        const reason = `Invalid ${e.type} event: ${result.errors.join('; ')}`;
+        if (this.opts.invalidEvents === 'reject') {
+          throw new Error(reason);
+        }
+        console.warn(`[transport] ${reason}, quarantined`);
+        return this.queue.quarantine(e, `Quarantined: ${reason}`);
+      }
+      e = result.envelope;
+    }
+
+    return this.queue.enqueue(e, opts);
+  }
+
+  /**
+   * Wrap a payload in a versioned event envelope and enqueue it
+   * 
+   * @param type - Event type with a registered schema
+   * @param payload - Event payload
+   * @param opts - Optional privacy level (default: 'sync_allowed') and lane override
+   * @returns Unique ID of the queued event
+   * @throws Error if the type is unknown or the payload does not match its schema
+   */
+  async enqueueEvent(
+    type: string,
+    payload: object,
+    opts: { privacyLevel?: PrivacyLevel; lane?: EnqueueOptions['lane'] } = {}
+  ): Promise<string> {
+    const envelope = createEventEnvelope(
+      type,
+      payload,
+      { deviceId: this.opts.deviceId, privacyLevel: opts.privacyLevel },
+      this._schemas()
+    );
+    return this.enqueue(envelope, { lane: opts.lane });
   }
 
   /**
    * Trigger a batch upload of queued events
    * 
    * This method:
-   * 1. Groups events into batches (up to batchSize and maxBatchBytes)
+   * 1. Prunes expired low-priority events, then groups events into batches
+   *    (high lane first, up to batchSize and maxBatchBytes)
    * 2. Compresses each batch with gzip
    * 3. Uploads to the SYNC API with authentication
    * 4. Handles retries for failures with exponential backoff
    * 5. Removes successfully uploaded events from the queue
    * 
    * If another flush is already in progress, this call returns immediately.
+   * If the upload policy defers the flush or a batch, a single follow-up flush
+   * is scheduled for when the policy suggests re-checking.
    * 
    * @returns Promise that resolves when the flush completes (or fails)
    */
   async flushSoon(): Promise<void> {
-    if (this.sending) return;
+    if (this.sending || this.authRevoked) return;
+
+    const flushDecision = this.opts.uploadPolicy?.shouldFlush();
+    if (flushDecision && !flushDecision.allowed) {
+      this._deferFlush(flushDecision);
+      return;
+    }
+
     this.sending = true;
     this.lastError = undefined;
 
     try {
+      const pruned = this.queue.pruneExpired();
+      if (pruned > 0) {
+        console.log(`[transport] Pruned ${pruned} expired low-priority events`);
+      }
+
+      let batchLimit = this.opts.batchSize!;
       while (this.queue.size() > 0) {
-        const items = this.queue.peek(this.opts.batchSize!);
-        if (items.length === 0) break;
+        const peeked = this.queue.peek(batchLimit);
+        if (peeked.length === 0) break;
+
+        // Envelopes queued before a schema change are upgraded on the way out
+        const items = this._upgradeQueued(peeked);
+        if (items.length === 0) continue;
 
         // Parse events and check batch size
         const events = items.map(i => JSON.parse(i.payload));
         
         // Build batch metadata
-        const upload_id = uuidv4();
-        const payload = JSON.stringify({
-          upload_id,
+        const batch: UploadBatch = {
+          upload_id: uuidv4(),
           device_id: this.opts.deviceId,
           client_version: this.opts.clientVersion,
           events,
-        });
+        };
+        const encoding = this.batchEncoding;
+        const payload = JSON.stringify(encoding === 'dict-delta-v1' ? encodeDictDelta(batch) : batch);
 
-        // Check if batch exceeds max size
-        if (Buffer.byteLength(payload, 'utf8') > this.opts.maxBatchBytes!) {
-          // If single event is too large, drop it to avoid infinite loop
+        // Check if (encoded) batch exceeds max size
+        const payloadBytes = Buffer.byteLength(payload, 'utf8');
+        if (payloadBytes > this.opts.maxBatchBytes!) {
+          // If single event is too large, dead-letter it to avoid infinite loop
           if (items.length === 1) {
-            console.warn('[transport] Single event exceeds maxBatchBytes, dropping');
-            this.queue.remove(items[0].id);
-            continue;
-          }
-          // Otherwise, reduce batch size and try again
-          const halfBatch = this.queue.peek(Math.floor(items.length / 2));
-          const halfEvents = halfBatch.map(i => JSON.parse(i.payload));
-          const halfPayload = JSON.stringify({
-            upload_id,
-            device_id: this.opts.deviceId,
-            client_version: this.opts.clientVersion,
-            events: halfEvents,
-          });
-          const gz = zlib.gzipSync(Buffer.from(halfPayload, 'utf8'));
-          const apiKey = await getApiKey();
-          const res = await this._post(gz, apiKey);
-          
-          if (res.ok || res.status === 202) {
-            // Remove processed items
-            for (const it of halfBatch) {
-              this.queue.remove(it.id);
-            }
-            this.retryCount = 0;
+            console.warn('[transport] Single event exceeds maxBatchBytes, moving to dead letters');
+            this.queue.deadLetter(items, {
+              statusCode: null,
+              reason: `Event exceeds maxBatchBytes (${payloadBytes} > ${this.opts.maxBatchBytes})`,
+              attempts: 0,
+            });
+            batchLimit = this.opts.batchSize!;
             continue;
           }
-          
-          // Handle errors
-          await this._handleError(res.status, halfBatch);
-          return;
+          // Otherwise, halve the batch and re-check it on the next pass
+          batchLimit = Math.floor(items.length / 2);
+          continue;
         }
 
         // Send full batch
         const gz = zlib.gzipSync(Buffer.from(payload, 'utf8'));
+        const body = this.opts.encryptPayloads ? await this._seal(gz) : gz;
+
+        const uploadDecision = this.opts.uploadPolicy?.shouldUpload(body.length);
+        if (uploadDecision && !uploadDecision.allowed) {
+          console.log(`[transport] ${uploadDecision.detail}`);
+          this._deferFlush(uploadDecision);
+          break;
+        }
+
         const apiKey = await getApiKey();
-        const res = await this._post(gz, apiKey);
+        let res: SinkResponse;
+        try {
+          res = await this._post(body, apiKey, encoding, !!this.opts.encryptPayloads);
+        } catch (err) {
+          this._recordUpload(events, body, null);
+          throw err;
+        }
+        this._recordUpload(events, body, res.status);
+        this.opts.uploadPolicy?.recordUpload(body.length);
+
+        // Endpoint does not understand the compact encoding - resend these items as plain JSON
+        if (res.status === 415 && encoding !== 'json') {
+          console.warn(`[transport] Endpoint rejected ${encoding} batch encoding, falling back to json`);
+          this.batchEncoding = 'json';
+          continue;
+        }
 
         if (res.ok || res.status === 202) {
           // Success - remove processed items
@@ -238,6 +432,7 @@ export class Transport {
             this.queue.remove(it.id);
           }
           this.retryCount = 0;
+          batchLimit = this.opts.batchSize!;
           continue;
         }
 
@@ -286,14 +481,28 @@ export class Transport {
    * @param status - HTTP status code
    * @param items - Queue items that failed to upload
    */
-  private async _handleError(status: number, items: any[]): Promise<void> {
-    // 4xx client errors (except 429 rate limit) - drop batch to avoid stuck queue
+  private async _handleError(status: number, items: QueueItem[]): Promise<void> {
+    // 401 - the device key is no longer valid; keep the batch for after re-pairing
+    if (status === 401) {
+      this.lastError = 'Device key rejected (401)';
+      console.warn(`[transport] ${this.lastError}, pausing uploads until the device is re-paired`);
+      this.authRevoked = true;
+      this.retryCount = 0;
+      this.sending = false;
+      this.opts.onAuthRevoked?.();
+      return;
+    }
+
+    // 4xx client errors (except 429 rate limit) - dead-letter batch to avoid stuck queue
     if (status >= 400 && status < 500 && status !== 429) {
       this.lastError = `Client error ${status}`;
-      console.warn(`[transport] ${this.lastError}, dropping batch to prevent stuck queue`);
-      for (const it of items) {
-        this.queue.remove(it.id);
-      }
+      console.warn(`[transport] ${this.lastError}, moving ${items.length} events to dead letters`);
+      this.queue.deadLetter(items, {
+        statusCode: status,
+        reason: this.lastError,
+        attempts: this.retryCount + 1,
+      });
+      this.retryCount = 0;
       this.sending = false;
       return;
     }
@@ -316,6 +525,93 @@ export class Transport {
     }
   }
 
+  /**
+   * Schedule one follow-up flush after an upload policy deferral
+   * 
+   * @private
+   * @param decision - The deferring policy decision
+   */
+  private _deferFlush(decision: UploadDecision): void {
+    if (this.deferTimer) return;
+    this.deferTimer = setTimeout(() => {
+      this.deferTimer = null;
+      this.flushSoon();
+    }, decision.retryAfterMs ?? 60000);
+    this.deferTimer.unref?.();
+  }
+
+  /**
+   * Migrate an envelope to its current schema version and validate it
+   * 
+   * @private
+   * @param envelope - Envelope at any schema version
+   * @returns The current-version envelope, or the validation errors
+   */
+  private _checkEnvelope(envelope: any): { envelope: any } | { errors: string[] } {
+    const schemas = this._schemas();
+    let current;
+    try {
+      current = migrateEventEnvelope(envelope, schemas);
+    } catch (err: any) {
+      return { errors: [err.message] };
+    }
+    const errors = validateEventEnvelope(current, schemas);
+    return errors.length > 0 ? { errors } : { envelope: current };
+  }
+
+  /**
+   * Bring queued envelopes up to the current schema versions
+   * 
+   * Items whose migration fails are moved to the dead-letter table.
+   * 
+   * @private
+   * @param items - Items about to be sent
+   * @returns Items to send, with upgraded payloads
+   */
+  private _upgradeQueued(items: QueueItem[]): QueueItem[] {
+    const schemas = this._schemas();
+    const ready: QueueItem[] = [];
+
+    for (const item of items) {
+      const event = JSON.parse(item.payload);
+      if (!isEventEnvelope(event) || event.schema_version === schemas[event.type]?.version) {
+        ready.push(item);
+        continue;
+      }
+
+      const result = this._checkEnvelope(event);
+      if ('errors' in result) {
+        const reason = `Migration failed for ${event.type} event: ${result.errors.join('; ')}`;
+        console.warn(`[transport] ${reason}, moving to dead letters`);
+        this.queue.deadLetter([item], { statusCode: null, reason, attempts: 0 });
+        continue;
+      }
+      ready.push({ ...item, payload: JSON.stringify(result.envelope) });
+    }
+
+    return ready;
+  }
+
+  private _schemas(): Record<string, EventSchema> {
+    return this.opts.eventSchemas ?? EVENT_SCHEMAS;
+  }
+
+  /**
+   * Encrypt a gzipped batch body for the backend
+   * 
+   * @private
+   * @param gz - Gzipped batch body
+   * @returns Serialized envelope
+   * @throws Error if the device keypair or recipient key is missing (the batch stays queued)
+   */
+  private async _seal(gz: Buffer): Promise<Buffer> {
+    const keys = await (this.opts.envelopeKeys ?? getEnvelopeKeys)();
+    if (!keys) {
+      throw new Error('Envelope keys unavailable, not sending unencrypted batch');
+    }
+    return Buffer.from(JSON.stringify(sealEnvelope(gz, this.opts.deviceId, keys)), 'utf8');
+  }
+
   /**
    * Calculate exponential backoff delay with jitter
    * 
@@ -331,30 +627,67 @@ export class Transport {
   }
 
   /**
-   * Send a gzipped batch to the upload endpoint
+   * Report a sent batch to the `onUpload` callback
    * 
    * @private
-   * @param bodyBuffer - Gzipped request body
+   * @param events - Events in the batch
+   * @param body - Body handed to the sink
+   * @param status - Sink status, or null when the send threw
+   */
+  private _recordUpload(events: any[], body: Buffer, status: number | null): void {
+    if (!this.opts.onUpload) return;
+    const distinct = (values: unknown[]) =>
+      [...new Set(values.filter((v): v is string => typeof v === 'string'))];
+    try {
+      this.opts.onUpload({
+        destination: this.opts.sink
+          ? `sink:${this.sink.name}`
+          : `${this.opts.endpoint!.replace(/\/$/, '')}${uploadPath(this.opts.deviceId)}`,
+        eventIds: distinct(events.map((e) => e.event_id)),
+        eventTypes: distinct(events.map((e) => e.type)),
+        privacyLevels: distinct(events.map((e) => e.privacy_level)),
+        body,
+        status,
+      });
+    } catch (err) {
+      console.warn('[transport] onUpload callback failed:', err);
+    }
+  }
+
+  /**
+   * Send a gzipped batch to the configured sink
+   * 
+   * @private
+   * @param bodyBuffer - Gzipped request body, or a serialized envelope when encrypted
    * @param apiKey - Optional API key for authentication
-   * @returns Fetch response
+   * @param encoding - Batch encoding of the body (sent as X-Sync-Batch-Encoding unless 'json')
+   * @param encrypted - Whether the body is an envelope (sent as X-Sync-Envelope instead of Content-Encoding)
+   * @returns Sink response (ok + HTTP-style status)
    */
-  async _post(bodyBuffer: Buffer, apiKey?: string): Promise<any> {
-    const headers: any = {
+  async _post(bodyBuffer: Buffer, apiKey?: string, encoding: BatchEncoding = 'json', encrypted = false): Promise<SinkResponse> {
+    const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      'Content-Encoding': 'gzip',
       'User-Agent': `sync.desktop/${this.opts.clientVersion}`,
     };
+
+    if (encrypted) {
+      headers[ENVELOPE_HEADER] = String(ENVELOPE_VERSION);
+    } else {
+      headers['Content-Encoding'] = 'gzip';
+    }
     
     if (apiKey) {
       headers['Authorization'] = `Bearer ${apiKey}`;
     }
 
-    const url = `${this.opts.endpoint.replace(/\/$/, '')}/api/v1/devices/${this.opts.deviceId}/upload`;
-    
-    return fetch(url, {
-      method: 'POST',
-      headers,
+    if (encoding !== 'json') {
+      headers[BATCH_ENCODING_HEADER] = encoding;
+    }
+
+    return this.sink.send({
+      deviceId: this.opts.deviceId,
       body: bodyBuffer,
+      headers,
     });
   }
 
@@ -370,22 +703,105 @@ export class Transport {
   /**
    * Get the current status of the transport layer
    * 
-   * @returns Status object with queue length, sending state, and last error
+   * @returns Status object with queue length, sending state, dead-letter count, and last error
    */
   getStatus(): TransportStatus {
     return {
       queueLength: this.getQueueLength(),
+      queueByLane: this.queue.sizeByLane(),
       sending: this.sending,
+      deadLetterCount: this.queue.deadLetterSize(),
+      batchEncoding: this.batchEncoding,
+      uploadDecision: this.opts.uploadPolicy?.getLastDecision() ?? null,
+      encrypted: !!this.opts.encryptPayloads,
+      authRevoked: this.authRevoked,
       lastError: this.lastError,
     };
   }
 
+  /**
+   * Resume uploads after a 401 paused them (call once the device has a valid key again)
+   */
+  clearAuthRevoked(): void {
+    this.authRevoked = false;
+    this.lastError = undefined;
+  }
+
+  /**
+   * List events that could not be delivered, most recent failure first
+   * 
+   * @param limit - Maximum number of items to return (default: 100)
+   * @returns Dead-letter items with status code, reason, and attempt count
+   */
+  getDeadLetters(limit = 100): DeadLetterItem[] {
+    return this.queue.peekDeadLetters(limit);
+  }
+
+  /**
+   * Move a dead-lettered event back into the upload queue
+   * 
+   * The original event_id is kept when the replacement event does not set one,
+   * so the server can still deduplicate it.
+   * 
+   * @param id - Dead-letter item ID
+   * @param event - Optional edited event to send instead of the original payload
+   * @returns True if the event was requeued, false if it was not found
+   * @throws Error if the edited event is an envelope that still fails validation
+   */
+  requeueDeadLetter(id: string, event?: object): boolean {
+    if (!event) {
+      return this.queue.requeueDeadLetter(id);
+    }
+    const item = this.queue.getDeadLetter(id);
+    if (!item) return false;
+
+    let edited: any = { ...event };
+    if (!edited.event_id) {
+      edited.event_id = JSON.parse(item.payload).event_id;
+    }
+    if (isEventEnvelope(edited)) {
+      const result = this._checkEnvelope(edited);
+      if ('errors' in result) {
+        throw new Error(`Invalid ${edited.type} event: ${result.errors.join('; ')}`);
+      }
+      edited = result.envelope;
+    }
+    return this.queue.requeueDeadLetter(id, edited);
+  }
+
+  /**
+   * Permanently delete dead-lettered events
+   * 
+   * @param ids - Item IDs to delete. Omit to delete all.
+   * @returns Number of items deleted
+   */
+  purgeDeadLetters(ids?: string[]): number {
+    return this.queue.purgeDeadLetters(ids);
+  }
+
+  /**
+   * Permanently delete queued and dead-lettered events that match
+   * (used for right-to-erasure requests)
+   *
+   * @param match - Called with each event
+   * @param dryRun - Only count the matching events
+   * @returns Number of events deleted (or that would be deleted)
+   */
+  removeMatching(match: (event: any) => boolean, dryRun = false): number {
+    return this.queue.removeMatching(match, dryRun);
+  }
+
   /**
    * Close the transport and release resources
    * 
    * Call this when shutting down the application
    */
   close(): void {
+    if (this.deferTimer) {
+      clearTimeout(this.deferTimer);
+      this.deferTimer = null;
+    }
     this.queue.close();
+    this.sink.close?.();
   }
 }
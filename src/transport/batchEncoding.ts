@@ -0,0 +1,162 @@
+/**
+ * Batch encodings for Transport uploads
+ *
+ * `json` is the original format: the batch object is sent as-is.
+ *
+ * `dict-delta-v1` is an opt-in compact format for runs of near-identical
+ * activity events. It is selected with the `X-Sync-Batch-Encoding` request
+ * header and replaces the `events` array with:
+ *
+ * ```json
+ * {
+ *   "upload_id": "...", "device_id": "...", "client_version": "...",
+ *   "encoding": "dict-delta-v1",
+ *   "dict": ["Google Chrome", "Pull requests · acme/app"],
+ *   "events": [
+ *     { "v": { "event_id": "e1", "type": "activity" }, "d": { "app": 0, "title": 1 }, "t": { "timestamp": 1718000000000 } },
+ *     { "v": { "event_id": "e2", "type": "activity" }, "d": { "app": 0, "title": 1 }, "t": { "timestamp": 5000 } }
+ *   ]
+ * }
+ * ```
+ *
+ * - `v` holds top-level fields stored verbatim
+ * - `d` maps a field to an index in `dict`; strings that appear more than once
+ *   in the batch (at the top level of any event) are stored once in `dict`
+ * - `t` holds integer timestamp fields as the delta from the same field in the
+ *   previous event that had it (the first occurrence is absolute)
+ *
+ * Only top-level fields are rewritten; nested objects pass through in `v`.
+ */
+
+import type { UploadBatch } from './sinks';
+
+/** Request header carrying the batch encoding */
+export const BATCH_ENCODING_HEADER = 'X-Sync-Batch-Encoding';
+
+export type BatchEncoding = 'json' | 'dict-delta-v1';
+
+/** Encodings understood by decodeUploadBody */
+export const SUPPORTED_BATCH_ENCODINGS: BatchEncoding[] = ['json', 'dict-delta-v1'];
+
+/** Fields delta-encoded when they hold integers */
+export const DEFAULT_TIMESTAMP_FIELDS = ['timestamp', 'created_at', 'start_time', 'end_time'];
+
+/** Strings shorter than this stay inline; a dictionary reference would not be smaller */
+const MIN_DICT_STRING_LENGTH = 4;
+
+type EncodedEvent = {
+  v: Record<string, unknown>;
+  d?: Record<string, number>;
+  t?: Record<string, number>;
+};
+
+export type DictDeltaBatch = Omit<UploadBatch, 'events'> & {
+  encoding: 'dict-delta-v1';
+  dict: string[];
+  events: EncodedEvent[];
+};
+
+/**
+ * Encode a batch with dictionary deduplication and timestamp deltas
+ *
+ * @param batch - Plain upload batch
+ * @param timestampFields - Integer fields to delta-encode
+ * @returns Batch in `dict-delta-v1` format
+ */
+export function encodeDictDelta(
+  batch: UploadBatch,
+  timestampFields: string[] = DEFAULT_TIMESTAMP_FIELDS
+): DictDeltaBatch {
+  // Count top-level string values across the batch
+  const counts = new Map<string, number>();
+  for (const event of batch.events) {
+    for (const [key, value] of Object.entries(event ?? {})) {
+      if (typeof value === 'string' && value.length >= MIN_DICT_STRING_LENGTH && !timestampFields.includes(key)) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+  }
+
+  const dict: string[] = [];
+  const dictIndex = new Map<string, number>();
+  const previous = new Map<string, number>();
+
+  const events = batch.events.map((event): EncodedEvent => {
+    const encoded: EncodedEvent = { v: {} };
+
+    for (const [key, value] of Object.entries(event ?? {})) {
+      if (timestampFields.includes(key) && Number.isSafeInteger(value)) {
+        const ts = value as number;
+        encoded.t = encoded.t ?? {};
+        encoded.t[key] = previous.has(key) ? ts - previous.get(key)! : ts;
+        previous.set(key, ts);
+        continue;
+      }
+
+      if (typeof value === 'string' && (counts.get(value) ?? 0) > 1) {
+        let idx = dictIndex.get(value);
+        if (idx === undefined) {
+          idx = dict.push(value) - 1;
+          dictIndex.set(value, idx);
+        }
+        encoded.d = encoded.d ?? {};
+        encoded.d[key] = idx;
+        continue;
+      }
+
+      encoded.v[key] = value;
+    }
+
+    return encoded;
+  });
+
+  return {
+    upload_id: batch.upload_id,
+    device_id: batch.device_id,
+    client_version: batch.client_version,
+    encoding: 'dict-delta-v1',
+    dict,
+    events,
+  };
+}
+
+/**
+ * Decode a `dict-delta-v1` batch back to the plain upload format
+ *
+ * @param encoded - Parsed `dict-delta-v1` batch
+ * @returns Plain upload batch
+ * @throws Error if a dictionary reference is out of range
+ */
+export function decodeDictDelta(encoded: DictDeltaBatch): UploadBatch {
+  if (!Array.isArray(encoded.dict) || !Array.isArray(encoded.events)) {
+    throw new Error('dict-delta-v1 batch requires dict and events arrays');
+  }
+
+  const previous = new Map<string, number>();
+
+  const events = encoded.events.map((e) => {
+    const event: Record<string, unknown> = { ...(e.v ?? {}) };
+
+    for (const [key, idx] of Object.entries(e.d ?? {})) {
+      if (!Number.isInteger(idx) || idx < 0 || idx >= encoded.dict.length) {
+        throw new Error(`Invalid dictionary reference ${idx} for field ${key}`);
+      }
+      event[key] = encoded.dict[idx];
+    }
+
+    for (const [key, delta] of Object.entries(e.t ?? {})) {
+      const ts = previous.has(key) ? previous.get(key)! + delta : delta;
+      previous.set(key, ts);
+      event[key] = ts;
+    }
+
+    return event;
+  });
+
+  return {
+    upload_id: encoded.upload_id,
+    device_id: encoded.device_id,
+    client_version: encoded.client_version,
+    events,
+  };
+}
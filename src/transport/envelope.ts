@@ -0,0 +1,219 @@
+/**
+ * Envelope encryption for Transport uploads
+ *
+ * When enabled, the gzipped batch is encrypted before it leaves the sink, so
+ * proxies and server logs only ever see ciphertext. Only the holder of the
+ * recipient (company backend) private key can open it.
+ *
+ * - Every device has an X25519 keypair, created at pairing (see pairing.ts)
+ * - Every batch gets a fresh random AES-256-GCM data key
+ * - The data key is wrapped with a key-encryption key derived from
+ *   X25519(device private, recipient public) via HKDF-SHA256 with a random
+ *   per-batch salt
+ *
+ * The request carries `X-Sync-Envelope: 1` and this JSON body (binary fields
+ * are base64, public keys are DER/SPKI):
+ *
+ * ```json
+ * {
+ *   "v": 1,
+ *   "alg": "X25519-HKDF-SHA256-A256GCM",
+ *   "device_id": "dev-1",
+ *   "device_kid": "3f9c0a1b2c3d4e5f",
+ *   "device_key": "MCowBQYDK2VuAyEA...",
+ *   "recipient_kid": "a1b2c3d4e5f60718",
+ *   "salt": "...",
+ *   "wrapped_key": "...",
+ *   "iv": "...",
+ *   "ciphertext": "..."
+ * }
+ * ```
+ *
+ * - `*_kid` is the first 16 hex chars of SHA-256 over the DER public key
+ * - `wrapped_key` is iv (12 bytes) + encrypted data key + GCM tag (16 bytes)
+ * - `ciphertext` is the encrypted gzipped batch followed by its GCM tag
+ * - Both GCM operations use the JSON array
+ *   `[v, alg, device_id, device_kid, recipient_kid, salt]` as additional
+ *   authenticated data, so none of those fields can be altered
+ *
+ * Receivers must check `device_kid` against the key registered for
+ * `device_id` at pairing; the embedded `device_key` only saves a lookup.
+ * After key rotation the device sends the new kid, which the backend has to
+ * learn through pairing before it accepts uploads under it.
+ */
+
+import crypto from 'crypto';
+
+/** Request header marking an encrypted body (value: envelope version) */
+export const ENVELOPE_HEADER = 'X-Sync-Envelope';
+
+export const ENVELOPE_VERSION = 1;
+
+export const ENVELOPE_ALG = 'X25519-HKDF-SHA256-A256GCM';
+
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+/**
+ * An X25519 keypair as stored on disk/in the keychain
+ */
+export type EnvelopeKeyPair = {
+  /** Key identifier derived from the public key */
+  kid: string;
+  /** Public key, base64 DER (SPKI) */
+  publicKey: string;
+  /** Private key, base64 DER (PKCS#8) */
+  privateKey: string;
+  /** Epoch ms when the keypair was generated */
+  createdAt: number;
+};
+
+/**
+ * Keys needed to seal a batch
+ */
+export type EnvelopeKeys = {
+  /** This device's keypair */
+  device: EnvelopeKeyPair;
+  /** Recipient (backend) public key, base64 DER (SPKI) */
+  recipientPublicKey: string;
+};
+
+export type Envelope = {
+  v: typeof ENVELOPE_VERSION;
+  alg: typeof ENVELOPE_ALG;
+  device_id: string;
+  device_kid: string;
+  device_key: string;
+  recipient_kid: string;
+  salt: string;
+  wrapped_key: string;
+  iv: string;
+  ciphertext: string;
+};
+
+/**
+ * Derive the key identifier for a public key
+ *
+ * @param publicKey - Base64 DER (SPKI) public key
+ */
+export function keyId(publicKey: string): string {
+  return crypto.createHash('sha256').update(Buffer.from(publicKey, 'base64')).digest('hex').slice(0, 16);
+}
+
+/**
+ * Generate a new X25519 keypair
+ */
+export function generateEnvelopeKeyPair(): EnvelopeKeyPair {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('x25519');
+  const pub = (publicKey.export({ type: 'spki', format: 'der' }) as Buffer).toString('base64');
+  return {
+    kid: keyId(pub),
+    publicKey: pub,
+    privateKey: (privateKey.export({ type: 'pkcs8', format: 'der' }) as Buffer).toString('base64'),
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Encrypt a request body for the recipient
+ *
+ * @param plaintext - Gzipped batch body
+ * @param deviceId - Device the batch belongs to
+ * @param keys - Device keypair and recipient public key
+ * @returns Envelope to send as the JSON request body
+ */
+export function sealEnvelope(plaintext: Buffer, deviceId: string, keys: EnvelopeKeys): Envelope {
+  const header = {
+    v: ENVELOPE_VERSION,
+    alg: ENVELOPE_ALG,
+    device_id: deviceId,
+    device_kid: keys.device.kid,
+    device_key: keys.device.publicKey,
+    recipient_kid: keyId(keys.recipientPublicKey),
+    salt: crypto.randomBytes(KEY_BYTES).toString('base64'),
+  } as const;
+  const aad = additionalData(header);
+  const kek = deriveKek(keys.device.privateKey, keys.recipientPublicKey, header);
+
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  const iv = crypto.randomBytes(IV_BYTES);
+  const ciphertext = gcmEncrypt(dataKey, iv, plaintext, aad);
+
+  const wrapIv = crypto.randomBytes(IV_BYTES);
+  const wrappedKey = Buffer.concat([wrapIv, gcmEncrypt(kek, wrapIv, dataKey, aad)]);
+
+  return {
+    ...header,
+    wrapped_key: wrappedKey.toString('base64'),
+    iv: iv.toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * Decrypt an envelope (receiver side)
+ *
+ * @param envelope - Parsed envelope
+ * @param recipientPrivateKey - Recipient private key, base64 DER (PKCS#8)
+ * @returns The original gzipped batch body
+ * @throws Error if the envelope is malformed, addressed to another key, or was tampered with
+ */
+export function openEnvelope(envelope: Envelope, recipientPrivateKey: string): Buffer {
+  if (!envelope || envelope.v !== ENVELOPE_VERSION || envelope.alg !== ENVELOPE_ALG) {
+    throw new Error('Unsupported envelope version or algorithm');
+  }
+  if (keyId(envelope.device_key) !== envelope.device_kid) {
+    throw new Error('Envelope device_kid does not match device_key');
+  }
+
+  const recipientPublicKey = (
+    crypto.createPublicKey(privateKeyObject(recipientPrivateKey)).export({ type: 'spki', format: 'der' }) as Buffer
+  ).toString('base64');
+  if (keyId(recipientPublicKey) !== envelope.recipient_kid) {
+    throw new Error(`Envelope is addressed to key ${envelope.recipient_kid}`);
+  }
+
+  const aad = additionalData(envelope);
+  const kek = deriveKek(recipientPrivateKey, envelope.device_key, envelope);
+
+  const wrapped = Buffer.from(envelope.wrapped_key, 'base64');
+  const dataKey = gcmDecrypt(kek, wrapped.subarray(0, IV_BYTES), wrapped.subarray(IV_BYTES), aad);
+  return gcmDecrypt(dataKey, Buffer.from(envelope.iv, 'base64'), Buffer.from(envelope.ciphertext, 'base64'), aad);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+type EnvelopeHeader = Pick<Envelope, 'v' | 'alg' | 'device_id' | 'device_kid' | 'recipient_kid' | 'salt'>;
+
+function additionalData(h: EnvelopeHeader): Buffer {
+  return Buffer.from(JSON.stringify([h.v, h.alg, h.device_id, h.device_kid, h.recipient_kid, h.salt]), 'utf8');
+}
+
+function privateKeyObject(key: string): crypto.KeyObject {
+  return crypto.createPrivateKey({ key: Buffer.from(key, 'base64'), format: 'der', type: 'pkcs8' });
+}
+
+function deriveKek(privateKey: string, publicKey: string, h: EnvelopeHeader): Buffer {
+  const shared = crypto.diffieHellman({
+    privateKey: privateKeyObject(privateKey),
+    publicKey: crypto.createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' }),
+  });
+  const info = `sync-envelope-v${h.v}|${h.device_kid}|${h.recipient_kid}`;
+  return Buffer.from(crypto.hkdfSync('sha256', shared, Buffer.from(h.salt, 'base64'), info, KEY_BYTES));
+}
+
+function gcmEncrypt(key: Buffer, iv: Buffer, plaintext: Buffer, aad: Buffer): Buffer {
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(aad);
+  return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+}
+
+function gcmDecrypt(key: Buffer, iv: Buffer, data: Buffer, aad: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(aad);
+  decipher.setAuthTag(data.subarray(data.length - TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(0, data.length - TAG_BYTES)), decipher.final()]);
+}
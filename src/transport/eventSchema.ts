@@ -0,0 +1,489 @@
+/**
+ * Versioned event envelope and payload schemas
+ *
+ * Every event the app emits has a registered schema. Events travel in an
+ * envelope that names the schema version their payload was written against:
+ *
+ * ```json
+ * {
+ *   "event_id": "evt-1",
+ *   "type": "commitment_detected",
+ *   "schema_version": 1,
+ *   "device_id": "device-123",
+ *   "privacy_level": "sync_allowed",
+ *   "payload": { "timestamp": 1718000000000, "summary": "Send the deck to Anna", ... }
+ * }
+ * ```
+ *
+ * Payloads are checked field by field against the schema for their type;
+ * unknown fields are errors, so a typo cannot silently drop data.
+ *
+ * ## Changing a schema
+ *
+ * Bump `version`, update `fields`, and add a migration keyed by the version it
+ * upgrades *from*. Envelopes already queued under an older version are passed
+ * through each migration in turn before they are sent:
+ *
+ * ```typescript
+ * hourly_summary: {
+ *   version: 2,
+ *   fields: { ...v1Fields, idle_minutes: { type: 'integer', min: 0 } },
+ *   migrations: { 1: (p) => ({ ...p, idle_minutes: 0 }) },
+ * }
+ * ```
+ */
+
+import type { ContextEventType, PrivacyLevel } from '../deep-context/types';
+
+export type FieldType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'array'
+  | 'object'
+  /** Epoch milliseconds */
+  | 'timestamp'
+  /** ISO 8601 date or date-time string */
+  | 'datetime'
+  /** Any JSON value */
+  | 'json';
+
+export type FieldRule = {
+  type: FieldType;
+  /** Field may be absent */
+  optional?: boolean;
+  /** Field may be null */
+  nullable?: boolean;
+  /** Allowed values */
+  enum?: readonly (string | number)[];
+  /** Minimum value (numbers) */
+  min?: number;
+  /** Maximum value (numbers) */
+  max?: number;
+  /** Maximum length (strings and arrays) */
+  maxLength?: number;
+};
+
+/** Upgrades a payload from one schema version to the next */
+export type PayloadMigration = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+export type EventSchema = {
+  /** Current schema version */
+  version: number;
+  /** Payload fields at the current version */
+  fields: Record<string, FieldRule>;
+  /** Migrations keyed by the version they upgrade from */
+  migrations?: Record<number, PayloadMigration>;
+};
+
+export type EventEnvelope<P extends object = Record<string, unknown>> = {
+  event_id?: string;
+  type: string;
+  schema_version: number;
+  device_id: string;
+  privacy_level: PrivacyLevel;
+  payload: P;
+};
+
+const PRIVACY_LEVELS: readonly PrivacyLevel[] = ['local_only', 'sync_allowed'];
+
+const CONFIDENCE: FieldRule = { type: 'number', min: 0, max: 1 };
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/** Deep context events, queued for Transport under their ContextEventType */
+const CONTEXT_EVENT_FIELDS: Record<string, FieldRule> = {
+  timestamp: { type: 'timestamp' },
+  source_application: { type: 'string' },
+  source_window_title: { type: 'string', optional: true, nullable: true, maxLength: 200 },
+  source_url: { type: 'string', optional: true, nullable: true },
+  source_file_path: { type: 'string', optional: true, nullable: true },
+  summary: { type: 'string' },
+  entities: { type: 'array' },
+  intent: { type: 'string', optional: true, nullable: true },
+  commitments: { type: 'array', optional: true },
+  skill_signals: { type: 'array', optional: true },
+  confidence: CONFIDENCE,
+};
+
+const CONTEXT_EVENT_TYPES: ContextEventType[] = [
+  'commitment_detected',
+  'task_started',
+  'task_completed',
+  'context_switch',
+  'skill_signal',
+  'opportunity_detected',
+  'document_interaction',
+  'communication_event',
+];
+
+/** Every cloud row carries the owning user and company */
+const OWNER_FIELDS: Record<string, FieldRule> = {
+  user_id: { type: 'string' },
+  company_id: { type: 'string' },
+};
+
+/**
+ * Schemas for every event kind the app emits
+ *
+ * Context event types and `action_approval` are queued through Transport;
+ * the remaining kinds are the rows CloudSyncService uploads.
+ */
+export const EVENT_SCHEMAS: Record<string, EventSchema> = {
+  ...Object.fromEntries(CONTEXT_EVENT_TYPES.map((type) => [type, { version: 1, fields: CONTEXT_EVENT_FIELDS }])),
+
+  action_approval: {
+    version: 1,
+    fields: {
+      action_id: { type: 'string' },
+      status: { type: 'string', enum: ['approved', 'dismissed'] },
+      resolved_at: { type: 'timestamp' },
+    },
+  },
+
+  hourly_summary: {
+    version: 1,
+    fields: {
+      ...OWNER_FIELDS,
+      hour_start: { type: 'datetime' },
+      app_breakdown: { type: 'array' },
+      total_minutes: { type: 'number', min: 0 },
+      focus_score: { type: 'number', min: 0 },
+      ocr_text: { type: 'string', nullable: true },
+      semantic_category: { type: 'string', nullable: true },
+      commitments: { type: 'string', nullable: true },
+    },
+  },
+
+  daily_journal: {
+    version: 1,
+    fields: {
+      ...OWNER_FIELDS,
+      journal_date: { type: 'datetime' },
+      overview: { type: 'string' },
+      highlights: { type: 'array' },
+      focus_areas: { type: 'array' },
+    },
+  },
+
+  /** Row in desktop_context_events (deep context events and screen captures) */
+  context_event: {
+    version: 1,
+    fields: {
+      ...OWNER_FIELDS,
+      event_type: { type: 'string' },
+      source_application: { type: 'string' },
+      source_window_title: { type: 'string', nullable: true, maxLength: 200 },
+      summary: { type: 'string' },
+      entities: { type: 'array' },
+      intent: { type: 'string', nullable: true },
+      commitments: { type: 'array' },
+      skill_signals: { type: 'array' },
+      confidence: CONFIDENCE,
+      privacy_level: { type: 'string', enum: PRIVACY_LEVELS },
+      created_at: { type: 'datetime' },
+    },
+  },
+
+  semantic_entity: {
+    version: 1,
+    fields: {
+      ...OWNER_FIELDS,
+      entity_id: { type: 'string' },
+      name: { type: 'string' },
+      type: { type: 'string', enum: ['person', 'project', 'tool', 'topic', 'organization', 'document'] },
+      confidence: CONFIDENCE,
+      first_seen: { type: 'datetime' },
+      last_seen: { type: 'datetime' },
+      occurrence_count: { type: 'integer', min: 0 },
+      metadata: { type: 'object' },
+      privacy_level: { type: 'string', enum: PRIVACY_LEVELS },
+      created_at: { type: 'datetime' },
+      updated_at: { type: 'datetime' },
+    },
+  },
+
+  semantic_activity: {
+    version: 1,
+    fields: {
+      ...OWNER_FIELDS,
+      activity_id: { type: 'string' },
+      event_id: { type: 'string' },
+      activity_type: { type: 'string' },
+      activity_subtype: { type: 'string', nullable: true },
+      confidence: CONFIDENCE,
+      classification_method: { type: 'string', enum: ['rule', 'mlx', 'hybrid'] },
+      duration_ms: { type: 'number', nullable: true, min: 0 },
+      metadata: { type: 'object' },
+      privacy_level: { type: 'string', enum: PRIVACY_LEVELS },
+      created_at: { type: 'datetime' },
+    },
+  },
+
+  semantic_thread: {
+    version: 1,
+    fields: {
+      ...OWNER_FIELDS,
+      thread_id: { type: 'string' },
+      title: { type: 'string', nullable: true },
+      status: { type: 'string', enum: ['active', 'paused', 'completed', 'abandoned'] },
+      started_at: { type: 'datetime' },
+      last_activity_at: { type: 'datetime' },
+      event_count: { type: 'integer', min: 0 },
+      primary_entities: { type: 'array' },
+      primary_activity_type: { type: 'string', nullable: true },
+      metadata: { type: 'object' },
+      privacy_level: { type: 'string', enum: PRIVACY_LEVELS },
+      created_at: { type: 'datetime' },
+      updated_at: { type: 'datetime' },
+    },
+  },
+
+  semantic_intent: {
+    version: 1,
+    fields: {
+      ...OWNER_FIELDS,
+      intent_id: { type: 'string' },
+      thread_id: { type: 'string', nullable: true },
+      intent_type: { type: 'string', enum: ['SHIP', 'MANAGE', 'PLAN', 'MAINTAIN', 'RESPOND'] },
+      intent_subtype: { type: 'string', nullable: true },
+      confidence: CONFIDENCE,
+      classification_method: { type: 'string', enum: ['rule', 'mlx', 'hybrid'] },
+      evidence: { type: 'array' },
+      resolved_at: { type: 'datetime', nullable: true },
+      outcome: { type: 'string', nullable: true, enum: ['completed', 'abandoned', 'deferred'] },
+      privacy_level: { type: 'string', enum: PRIVACY_LEVELS },
+      created_at: { type: 'datetime' },
+      updated_at: { type: 'datetime' },
+    },
+  },
+
+  behavioral_signature: {
+    version: 1,
+    fields: {
+      ...OWNER_FIELDS,
+      signature_id: { type: 'string' },
+      category: { type: 'string', enum: ['rhythm', 'workflow', 'quality', 'collaboration', 'tool', 'stress'] },
+      metric_name: { type: 'string' },
+      current_value: { type: 'json' },
+      trend: { type: 'string', enum: ['improving', 'declining', 'stable', 'volatile'] },
+      confidence: CONFIDENCE,
+      sample_size: { type: 'integer', min: 0 },
+      window_days: { type: 'integer', min: 1 },
+      computed_at: { type: 'datetime' },
+      privacy_level: { type: 'string', enum: PRIVACY_LEVELS },
+      created_at: { type: 'datetime' },
+      updated_at: { type: 'datetime' },
+    },
+  },
+};
+
+// ============================================================================
+// Envelope helpers
+// ============================================================================
+
+/**
+ * Check whether a value is shaped like an event envelope
+ *
+ * Only the envelope markers are checked; use validateEventEnvelope for the payload.
+ */
+export function isEventEnvelope(value: unknown): value is EventEnvelope {
+  const v = value as any;
+  return !!v && typeof v === 'object' && typeof v.type === 'string' && 'schema_version' in v && 'payload' in v;
+}
+
+/**
+ * Wrap a payload in an envelope at the current schema version
+ *
+ * @param type - Event type (must have a registered schema)
+ * @param payload - Event payload
+ * @param opts - Device and privacy level for the envelope
+ * @param schemas - Schema registry (default: EVENT_SCHEMAS)
+ * @returns The envelope
+ * @throws Error if the type is unknown or the payload does not match its schema
+ */
+export function createEventEnvelope<P extends object>(
+  type: string,
+  payload: P,
+  opts: { deviceId: string; privacyLevel?: PrivacyLevel },
+  schemas: Record<string, EventSchema> = EVENT_SCHEMAS
+): EventEnvelope<P> {
+  const schema = schemas[type];
+  if (!schema) {
+    throw new Error(`Unknown event type "${type}"`);
+  }
+  const envelope: EventEnvelope<P> = {
+    type,
+    schema_version: schema.version,
+    device_id: opts.deviceId,
+    privacy_level: opts.privacyLevel ?? 'sync_allowed',
+    payload,
+  };
+  const errors = validateEventEnvelope(envelope, schemas);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${type} event: ${errors.join('; ')}`);
+  }
+  return envelope;
+}
+
+/**
+ * Upgrade an envelope to the current version of its schema
+ *
+ * @param envelope - Envelope at any known version
+ * @param schemas - Schema registry (default: EVENT_SCHEMAS)
+ * @returns The same envelope if it is current, otherwise an upgraded copy
+ * @throws Error if the type is unknown, the version is newer than the schema,
+ *   or a migration step is missing
+ */
+export function migrateEventEnvelope(
+  envelope: EventEnvelope,
+  schemas: Record<string, EventSchema> = EVENT_SCHEMAS
+): EventEnvelope {
+  const schema = schemas[envelope.type];
+  if (!schema) {
+    throw new Error(`Unknown event type "${envelope.type}"`);
+  }
+  const from = envelope.schema_version;
+  if (!Number.isInteger(from) || from < 1 || from > schema.version) {
+    throw new Error(`Unsupported ${envelope.type} schema version ${from} (current: ${schema.version})`);
+  }
+  if (from === schema.version) return envelope;
+
+  let payload = envelope.payload;
+  for (let version = from; version < schema.version; version++) {
+    const migrate = schema.migrations?.[version];
+    if (!migrate) {
+      throw new Error(`No migration for ${envelope.type} from schema version ${version}`);
+    }
+    payload = migrate(payload);
+  }
+  return { ...envelope, schema_version: schema.version, payload };
+}
+
+/**
+ * Validate an envelope and its payload against the current schema
+ *
+ * Envelopes at an older version must be migrated first.
+ *
+ * @returns Error messages; empty if the envelope is valid
+ */
+export function validateEventEnvelope(
+  envelope: EventEnvelope<object>,
+  schemas: Record<string, EventSchema> = EVENT_SCHEMAS
+): string[] {
+  const errors: string[] = [];
+  const schema = schemas[envelope.type];
+  if (!schema) {
+    return [`Unknown event type "${envelope.type}"`];
+  }
+  if (envelope.schema_version !== schema.version) {
+    errors.push(`schema_version must be ${schema.version}, got ${JSON.stringify(envelope.schema_version)}`);
+  }
+  if (typeof envelope.device_id !== 'string' || envelope.device_id === '') {
+    errors.push('device_id must be a non-empty string');
+  }
+  if (!PRIVACY_LEVELS.includes(envelope.privacy_level)) {
+    errors.push(`privacy_level must be one of ${PRIVACY_LEVELS.join(', ')}`);
+  }
+  if (envelope.event_id !== undefined && typeof envelope.event_id !== 'string') {
+    errors.push('event_id must be a string');
+  }
+  return errors.concat(checkFields(schema.fields, envelope.payload));
+}
+
+/**
+ * Validate a bare payload against the current schema for its type
+ *
+ * @returns Error messages; empty if the payload is valid
+ */
+export function validatePayload(
+  type: string,
+  payload: unknown,
+  schemas: Record<string, EventSchema> = EVENT_SCHEMAS
+): string[] {
+  const schema = schemas[type];
+  if (!schema) {
+    return [`Unknown event type "${type}"`];
+  }
+  return checkFields(schema.fields, payload);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function checkFields(fields: Record<string, FieldRule>, payload: unknown): string[] {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return ['payload must be an object'];
+  }
+  const record = payload as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const [name, rule] of Object.entries(fields)) {
+    const value = record[name];
+    if (value === undefined) {
+      if (!rule.optional) errors.push(`${name} is required`);
+      continue;
+    }
+    if (value === null) {
+      if (!rule.nullable) errors.push(`${name} must not be null`);
+      continue;
+    }
+    const error = checkValue(rule, value);
+    if (error) errors.push(`${name} ${error}`);
+  }
+
+  for (const name of Object.keys(record)) {
+    if (!(name in fields)) {
+      errors.push(`${name} is not a known field`);
+    }
+  }
+
+  return errors;
+}
+
+function checkValue(rule: FieldRule, value: unknown): string | null {
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') return 'must be a string';
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a finite number';
+      break;
+    case 'integer':
+      if (!Number.isSafeInteger(value)) return 'must be an integer';
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') return 'must be a boolean';
+      break;
+    case 'array':
+      if (!Array.isArray(value)) return 'must be an array';
+      break;
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) return 'must be an object';
+      break;
+    case 'timestamp':
+      if (!Number.isSafeInteger(value) || (value as number) < 0) return 'must be an epoch-ms timestamp';
+      break;
+    case 'datetime':
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) return 'must be an ISO 8601 date';
+      break;
+    case 'json':
+      break;
+  }
+
+  if (rule.enum && !rule.enum.includes(value as string | number)) {
+    return `must be one of ${rule.enum.join(', ')}`;
+  }
+  if (typeof value === 'number') {
+    if (rule.min !== undefined && value < rule.min) return `must be >= ${rule.min}`;
+    if (rule.max !== undefined && value > rule.max) return `must be <= ${rule.max}`;
+  }
+  if (rule.maxLength !== undefined && (typeof value === 'string' || Array.isArray(value)) && value.length > rule.maxLength) {
+    return `must be at most ${rule.maxLength} long`;
+  }
+  return null;
+}
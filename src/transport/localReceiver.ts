@@ -0,0 +1,467 @@
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import { decodeUploadBody, UploadBatch } from './sinks';
+import { BatchEncoding, SUPPORTED_BATCH_ENCODINGS } from './batchEncoding';
+import { Envelope, openEnvelope } from './envelope';
+
+/**
+ * Configuration options for the local receiver
+ */
+export type LocalReceiverOptions = {
+  /** TCP port to listen on (default: 0, an ephemeral port) */
+  port?: number;
+  /** Host to bind (default: '127.0.0.1') */
+  host?: string;
+  /** Listen on a Unix socket instead of TCP */
+  socketPath?: string;
+  /** Append every accepted batch to this NDJSON file */
+  outputPath?: string;
+  /** If set, require `Authorization: Bearer <apiKey>` on uploads */
+  apiKey?: string;
+  /** Batch encodings to accept; others get 415 (default: all supported) */
+  batchEncodings?: BatchEncoding[];
+  /** Recipient private key (base64 DER) for opening encrypted uploads */
+  recipientPrivateKey?: string;
+  /** Recipient public key handed to devices at pairing */
+  recipientPublicKey?: string;
+  /** Approve pairing codes on the first exchange instead of waiting for approvePairing() (default: false) */
+  autoApprovePairing?: boolean;
+  /** Scopes granted to paired devices (default: ['upload']) */
+  pairingScopes?: string[];
+};
+
+type PairingCode = {
+  deviceId: string;
+  deviceName?: string;
+  publicKey?: string;
+  expiresAt: number;
+  status: 'pending' | 'approved' | 'rejected';
+};
+
+/** How long a registered pairing code stays valid */
+const PAIRING_CODE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * A batch accepted by the receiver
+ */
+export type ReceivedBatch = UploadBatch & {
+  /** Epoch ms when the batch was received */
+  received_at: number;
+};
+
+const UPLOAD_ROUTE = /^\/api\/v1\/devices\/([^/]+)\/upload$/;
+const PAIRING_CODES_ROUTE = /^\/api\/v1\/pairing\/codes$/;
+const PAIRING_EXCHANGE_ROUTE = /^\/api\/v1\/pairing\/codes\/([^/]+)\/exchange$/;
+const ROTATE_KEY_ROUTE = /^\/api\/v1\/devices\/([^/]+)\/keys\/rotate$/;
+
+/**
+ * LocalReceiver - Offline stand-in for the SYNC upload endpoint
+ *
+ * Speaks the same gzip batch format as `POST /api/v1/devices/:id/upload`, so the
+ * whole upload path can be exercised without app.isyncso.com:
+ *
+ * - `POST /api/v1/devices/:id/upload` - accepts a batch (200), or 202 for a
+ *   repeated upload_id, 400 for malformed bodies or envelopes it cannot open,
+ *   401 for a bad API key, 415 for a batch encoding it was not configured to accept
+ * - `GET /batches` - returns every accepted batch as JSON
+ * - The pairing routes used by DevicePairing (`/api/v1/pairing/codes`,
+ *   `/api/v1/pairing/codes/:code/exchange`, `/api/v1/devices/:id/keys/rotate`).
+ *   Codes wait for approvePairing() unless `autoApprovePairing` is set. Once a
+ *   device is paired here, its uploads require the issued key; revokeDevice()
+ *   makes them fail with 401.
+ *
+ * Emits `batch` with each accepted ReceivedBatch.
+ *
+ * @example
+ * ```typescript
+ * const receiver = new LocalReceiver({ port: 8787 });
+ * const url = await receiver.start();
+ *
+ * const transport = new Transport({ endpoint: url, deviceId: 'dev-1' });
+ * ```
+ *
+ * Can also be run standalone after `npm run build:main`:
+ * `node dist/transport/localReceiver.js --port 8787 --out ./batches.ndjson`
+ */
+export class LocalReceiver extends EventEmitter {
+  private opts: LocalReceiverOptions;
+  private server: http.Server | null = null;
+  private batches: ReceivedBatch[] = [];
+  private seenUploadIds = new Set<string>();
+  private forcedStatuses: number[] = [];
+  private pairingCodes = new Map<string, PairingCode>();
+  private deviceKeys = new Map<string, string>();
+  private revokedDevices = new Set<string>();
+
+  constructor(opts: LocalReceiverOptions = {}) {
+    super();
+    this.opts = {
+      port: 0,
+      host: '127.0.0.1',
+      batchEncodings: SUPPORTED_BATCH_ENCODINGS,
+      ...opts,
+    };
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns Base URL (e.g. `http://127.0.0.1:8787`), or the socket path when listening on a Unix socket
+   */
+  start(): Promise<string> {
+    if (this.opts.outputPath) {
+      fs.mkdirSync(path.dirname(this.opts.outputPath), { recursive: true });
+    }
+
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+
+    return new Promise((resolve, reject) => {
+      const server = this.server!;
+      server.once('error', reject);
+
+      const onListening = () => {
+        server.off('error', reject);
+        if (this.opts.socketPath) {
+          resolve(this.opts.socketPath);
+        } else {
+          const address = server.address() as AddressInfo;
+          resolve(`http://${this.opts.host}:${address.port}`);
+        }
+      };
+
+      if (this.opts.socketPath) {
+        // A stale socket file from a previous run would make listen() fail
+        if (fs.existsSync(this.opts.socketPath)) {
+          fs.unlinkSync(this.opts.socketPath);
+        }
+        server.listen(this.opts.socketPath, onListening);
+      } else {
+        server.listen(this.opts.port, this.opts.host, onListening);
+      }
+    });
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Respond to the next upload(s) with a fixed status instead of accepting them.
+   * Handy for exercising Transport retry and drop behavior.
+   *
+   * @param status - HTTP status to return
+   * @param times - Number of uploads to respond to (default: 1)
+   */
+  failNext(status: number, times: number = 1): void {
+    for (let i = 0; i < times; i++) {
+      this.forcedStatuses.push(status);
+    }
+  }
+
+  /**
+   * Approve a pending pairing code; the device receives its key on the next exchange
+   *
+   * @returns True if the code was pending
+   */
+  approvePairing(code: string): boolean {
+    const entry = this.pairingCodes.get(code);
+    if (!entry || entry.status !== 'pending') return false;
+    entry.status = 'approved';
+    return true;
+  }
+
+  /**
+   * Reject a pending pairing code
+   *
+   * @returns True if the code was pending
+   */
+  rejectPairing(code: string): boolean {
+    const entry = this.pairingCodes.get(code);
+    if (!entry || entry.status !== 'pending') return false;
+    entry.status = 'rejected';
+    return true;
+  }
+
+  /**
+   * Get codes registered by devices and not yet exchanged
+   */
+  getPendingPairings(): { code: string; deviceId: string; deviceName?: string }[] {
+    return [...this.pairingCodes.entries()]
+      .filter(([, e]) => e.status === 'pending')
+      .map(([code, e]) => ({ code, deviceId: e.deviceId, deviceName: e.deviceName }));
+  }
+
+  /**
+   * Revoke a paired device's key; its uploads and key rotations get 401
+   */
+  revokeDevice(deviceId: string): void {
+    this.deviceKeys.delete(deviceId);
+    this.revokedDevices.add(deviceId);
+  }
+
+  /**
+   * Get all accepted batches, oldest first
+   */
+  getBatches(): ReceivedBatch[] {
+    return [...this.batches];
+  }
+
+  /**
+   * Get all events across accepted batches, oldest first
+   */
+  getEvents(): any[] {
+    return this.batches.flatMap(b => b.events);
+  }
+
+  /**
+   * Forget all received batches
+   */
+  clear(): void {
+    this.batches = [];
+    this.seenUploadIds.clear();
+  }
+
+  // ============================================================================
+  // Request Handling
+  // ============================================================================
+
+  private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = (req.url || '/').split('?')[0];
+
+    if (req.method === 'GET' && url === '/batches') {
+      this.respond(res, 200, this.batches);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      this.respond(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks);
+      let match: RegExpExecArray | null;
+
+      if ((match = UPLOAD_ROUTE.exec(url))) {
+        this.handleUpload(decodeURIComponent(match[1]), req, body, res);
+      } else if (PAIRING_CODES_ROUTE.test(url)) {
+        this.handlePairingCode(body, res);
+      } else if ((match = PAIRING_EXCHANGE_ROUTE.exec(url))) {
+        this.handlePairingExchange(decodeURIComponent(match[1]), body, res);
+      } else if ((match = ROTATE_KEY_ROUTE.exec(url))) {
+        this.handleRotateKey(decodeURIComponent(match[1]), req, res);
+      } else {
+        this.respond(res, 404, { error: 'Not found' });
+      }
+    });
+  }
+
+  private handleUpload(
+    deviceId: string,
+    req: http.IncomingMessage,
+    body: Buffer,
+    res: http.ServerResponse
+  ): void {
+    if (this.opts.apiKey && req.headers['authorization'] !== `Bearer ${this.opts.apiKey}`) {
+      this.respond(res, 401, { error: 'Invalid API key' });
+      return;
+    }
+    if (!this.opts.apiKey && !this.isDeviceAuthorized(deviceId, req)) {
+      this.respond(res, 401, { error: 'Invalid device key' });
+      return;
+    }
+
+    const forced = this.forcedStatuses.shift();
+    if (forced !== undefined) {
+      this.respond(res, forced, { error: `Forced status ${forced}` });
+      return;
+    }
+
+    const batchEncoding = req.headers['x-sync-batch-encoding'] as string | undefined;
+    if (batchEncoding && !(this.opts.batchEncodings as string[]).includes(batchEncoding)) {
+      this.respond(res, 415, { error: `Unsupported batch encoding: ${batchEncoding}` });
+      return;
+    }
+
+    let batch: UploadBatch;
+    try {
+      let contentEncoding = req.headers['content-encoding'];
+      if (req.headers['x-sync-envelope']) {
+        if (!this.opts.recipientPrivateKey) {
+          throw new Error('Encrypted batch received but no recipient key is configured');
+        }
+        body = openEnvelope(JSON.parse(body.toString('utf8')) as Envelope, this.opts.recipientPrivateKey);
+        contentEncoding = 'gzip';
+      }
+      batch = decodeUploadBody(body, contentEncoding, batchEncoding);
+    } catch (err: any) {
+      this.respond(res, 400, { error: err.message || 'Malformed batch' });
+      return;
+    }
+
+    if (batch.device_id !== deviceId) {
+      this.respond(res, 400, { error: 'device_id does not match upload path' });
+      return;
+    }
+
+    // Idempotency: a replayed upload_id is acknowledged but not stored twice
+    if (this.seenUploadIds.has(batch.upload_id)) {
+      this.respond(res, 202, { upload_id: batch.upload_id, duplicate: true });
+      return;
+    }
+
+    const received: ReceivedBatch = { ...batch, received_at: Date.now() };
+    this.seenUploadIds.add(batch.upload_id);
+    this.batches.push(received);
+
+    if (this.opts.outputPath) {
+      fs.appendFileSync(this.opts.outputPath, JSON.stringify(received) + '\n', 'utf8');
+    }
+
+    this.emit('batch', received);
+    this.respond(res, 200, { upload_id: batch.upload_id, accepted: batch.events.length });
+  }
+
+  private handlePairingCode(body: Buffer, res: http.ServerResponse): void {
+    const data = this.parseJson(body);
+    if (typeof data?.code !== 'string' || typeof data?.device_id !== 'string') {
+      this.respond(res, 400, { error: 'code and device_id are required' });
+      return;
+    }
+    if (this.pairingCodes.has(data.code)) {
+      this.respond(res, 409, { error: 'Code already registered' });
+      return;
+    }
+
+    const expiresAt = Date.now() + PAIRING_CODE_TTL_MS;
+    this.pairingCodes.set(data.code, {
+      deviceId: data.device_id,
+      deviceName: data.device_name,
+      publicKey: data.public_key,
+      expiresAt,
+      status: 'pending',
+    });
+    this.emit('pairing', { code: data.code, deviceId: data.device_id, deviceName: data.device_name });
+    this.respond(res, 201, { expires_at: expiresAt, poll_interval_ms: 1000 });
+  }
+
+  private handlePairingExchange(code: string, body: Buffer, res: http.ServerResponse): void {
+    const data = this.parseJson(body);
+    const entry = this.pairingCodes.get(code);
+    if (!entry || entry.deviceId !== data?.device_id) {
+      this.respond(res, 404, { error: 'Unknown pairing code' });
+      return;
+    }
+    if (entry.status === 'rejected' || Date.now() >= entry.expiresAt) {
+      this.pairingCodes.delete(code);
+      this.respond(res, 410, { error: 'Pairing code expired or rejected' });
+      return;
+    }
+    if (entry.status === 'pending' && !this.opts.autoApprovePairing) {
+      this.respond(res, 202, { status: 'pending' });
+      return;
+    }
+
+    // Codes are single-use
+    this.pairingCodes.delete(code);
+    this.respond(res, 200, {
+      api_key: this.issueDeviceKey(entry.deviceId),
+      scopes: this.opts.pairingScopes ?? ['upload'],
+      recipient_public_key: this.opts.recipientPublicKey,
+    });
+  }
+
+  private handleRotateKey(deviceId: string, req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!this.deviceKeys.has(deviceId) || !this.isDeviceAuthorized(deviceId, req)) {
+      this.respond(res, 401, { error: 'Invalid device key' });
+      return;
+    }
+    this.respond(res, 200, {
+      api_key: this.issueDeviceKey(deviceId),
+      scopes: this.opts.pairingScopes ?? ['upload'],
+    });
+  }
+
+  /**
+   * Devices that never paired with this receiver upload without a key;
+   * paired devices must present their current key, and revoked ones are refused.
+   */
+  private isDeviceAuthorized(deviceId: string, req: http.IncomingMessage): boolean {
+    if (this.revokedDevices.has(deviceId)) return false;
+    const key = this.deviceKeys.get(deviceId);
+    return !key || req.headers['authorization'] === `Bearer ${key}`;
+  }
+
+  private issueDeviceKey(deviceId: string): string {
+    const key = `sk_local_${crypto.randomBytes(16).toString('hex')}`;
+    this.deviceKeys.set(deviceId, key);
+    this.revokedDevices.delete(deviceId);
+    return key;
+  }
+
+  private parseJson(body: Buffer): any {
+    try {
+      return JSON.parse(body.toString('utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private respond(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+// ============================================================================
+// Standalone Entry Point
+// ============================================================================
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const arg = (name: string) => {
+    const i = args.indexOf(name);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+
+  const receiver = new LocalReceiver({
+    port: Number(arg('--port') ?? 8787),
+    socketPath: arg('--socket'),
+    outputPath: arg('--out'),
+    apiKey: arg('--api-key'),
+    recipientPrivateKey: arg('--recipient-key'),
+    autoApprovePairing: args.includes('--auto-approve'),
+  });
+
+  receiver.on('pairing', (p: { code: string; deviceId: string; deviceName?: string }) => {
+    console.log(`[receiver] Pairing code ${p.code} from ${p.deviceName ?? p.deviceId}`);
+  });
+
+  receiver.on('batch', (batch: ReceivedBatch) => {
+    console.log(`[receiver] ${batch.upload_id} from ${batch.device_id}: ${batch.events.length} events`);
+  });
+
+  receiver.start().then((address) => {
+    console.log(`[receiver] Listening on ${address}`);
+  });
+
+  process.on('SIGINT', () => {
+    receiver.stop().then(() => process.exit(0));
+  });
+}
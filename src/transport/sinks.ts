@@ -0,0 +1,264 @@
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import zlib from 'zlib';
+import fetch from 'node-fetch';
+import { BATCH_ENCODING_HEADER, DictDeltaBatch, decodeDictDelta } from './batchEncoding';
+import { ENVELOPE_HEADER, Envelope, openEnvelope } from './envelope';
+
+/**
+ * Decoded upload batch, as produced by Transport and accepted by the upload endpoint
+ */
+export type UploadBatch = {
+  /** Unique batch identifier used for idempotency */
+  upload_id: string;
+  /** Device that produced the batch */
+  device_id: string;
+  /** Client version identifier */
+  client_version?: string;
+  /** Queued events, each carrying an event_id */
+  events: any[];
+};
+
+/**
+ * A single gzipped batch handed to a sink by Transport
+ */
+export type SinkRequest = {
+  /** Device the batch belongs to (used to build the upload path) */
+  deviceId: string;
+  /** Gzipped JSON body, or a JSON envelope when X-Sync-Envelope is set */
+  body: Buffer;
+  /** Request headers (Content-Type, Content-Encoding, User-Agent, Authorization, X-Sync-Batch-Encoding, X-Sync-Envelope) */
+  headers: Record<string, string>;
+};
+
+/**
+ * Result of a sink delivery. Mirrors the subset of a fetch Response Transport relies on.
+ */
+export type SinkResponse = {
+  ok: boolean;
+  status: number;
+};
+
+/**
+ * Destination for uploaded batches
+ *
+ * Transport owns batching, compression and retries; a sink only delivers one
+ * gzipped batch and reports an HTTP-style status. Throwing from `send` is
+ * treated like a network failure and retried with backoff.
+ */
+export interface TransportSink {
+  /** Short name used in logs */
+  readonly name: string;
+  /** Deliver a single batch */
+  send(req: SinkRequest): Promise<SinkResponse>;
+  /** Release any resources held by the sink */
+  close?(): void;
+}
+
+/**
+ * Build the upload path for a device
+ *
+ * @param deviceId - Device identifier
+ * @returns Path component, e.g. `/api/v1/devices/abc/upload`
+ */
+export function uploadPath(deviceId: string): string {
+  return `/api/v1/devices/${encodeURIComponent(deviceId)}/upload`;
+}
+
+/**
+ * Decode a request body in the batch upload format
+ *
+ * @param body - Raw request body
+ * @param contentEncoding - Value of the Content-Encoding header (gzip bodies are inflated)
+ * @param batchEncoding - Value of the X-Sync-Batch-Encoding header (default: 'json')
+ * @returns Parsed batch
+ * @throws Error if the body is not valid JSON, uses an unknown encoding, or is missing required fields
+ */
+export function decodeUploadBody(body: Buffer, contentEncoding?: string, batchEncoding?: string): UploadBatch {
+  const raw = contentEncoding === 'gzip' ? zlib.gunzipSync(body) : body;
+  let batch = JSON.parse(raw.toString('utf8'));
+
+  if (!batch || typeof batch !== 'object') {
+    throw new Error('Batch must be a JSON object');
+  }
+  if (batchEncoding === 'dict-delta-v1') {
+    batch = decodeDictDelta(batch as DictDeltaBatch);
+  } else if (batchEncoding !== undefined && batchEncoding !== 'json') {
+    throw new Error(`Unsupported batch encoding: ${batchEncoding}`);
+  }
+  if (typeof batch.upload_id !== 'string' || !batch.upload_id) {
+    throw new Error('Batch is missing upload_id');
+  }
+  if (typeof batch.device_id !== 'string' || !batch.device_id) {
+    throw new Error('Batch is missing device_id');
+  }
+  if (!Array.isArray(batch.events)) {
+    throw new Error('Batch events must be an array');
+  }
+
+  return batch as UploadBatch;
+}
+
+/**
+ * Decode a sink request, opening the envelope first if it is encrypted
+ *
+ * @param req - Request handed to the sink
+ * @param recipientPrivateKey - Recipient private key (base64 DER) for encrypted requests
+ * @returns Parsed batch
+ * @throws Error if the request is encrypted and no key is given, or decoding fails
+ */
+export function decodeSinkRequest(req: SinkRequest, recipientPrivateKey?: string): UploadBatch {
+  const batchEncoding = req.headers[BATCH_ENCODING_HEADER];
+  if (!req.headers[ENVELOPE_HEADER]) {
+    return decodeUploadBody(req.body, req.headers['Content-Encoding'], batchEncoding);
+  }
+  if (!recipientPrivateKey) {
+    throw new Error('Encrypted batch received but no recipient key is configured');
+  }
+  const envelope = JSON.parse(req.body.toString('utf8')) as Envelope;
+  return decodeUploadBody(openEnvelope(envelope, recipientPrivateKey), 'gzip', batchEncoding);
+}
+
+// ============================================================================
+// HTTP
+// ============================================================================
+
+/**
+ * POSTs batches to `${endpoint}/api/v1/devices/:id/upload` (the SYNC cloud default)
+ */
+export class HttpSink implements TransportSink {
+  readonly name = 'http';
+  private endpoint: string;
+
+  /**
+   * @param endpoint - API base URL (e.g., 'https://app.isyncso.com')
+   */
+  constructor(endpoint: string) {
+    this.endpoint = endpoint.replace(/\/$/, '');
+  }
+
+  async send(req: SinkRequest): Promise<SinkResponse> {
+    return fetch(`${this.endpoint}${uploadPath(req.deviceId)}`, {
+      method: 'POST',
+      headers: req.headers,
+      body: req.body,
+    });
+  }
+}
+
+// ============================================================================
+// Unix Socket
+// ============================================================================
+
+/**
+ * POSTs batches over HTTP on a Unix domain socket (e.g. a local receiver or sidecar)
+ */
+export class UnixSocketSink implements TransportSink {
+  readonly name = 'unix-socket';
+  private socketPath: string;
+
+  /**
+   * @param socketPath - Path to the listening Unix socket
+   */
+  constructor(socketPath: string) {
+    this.socketPath = socketPath;
+  }
+
+  send(req: SinkRequest): Promise<SinkResponse> {
+    return new Promise((resolve, reject) => {
+      const request = http.request(
+        {
+          socketPath: this.socketPath,
+          path: uploadPath(req.deviceId),
+          method: 'POST',
+          headers: { ...req.headers, 'Content-Length': String(req.body.length) },
+        },
+        (res) => {
+          // Drain the body so the socket is released
+          res.resume();
+          res.on('end', () => {
+            const status = res.statusCode ?? 0;
+            resolve({ ok: status >= 200 && status < 300, status });
+          });
+        }
+      );
+      request.on('error', reject);
+      request.end(req.body);
+    });
+  }
+}
+
+// ============================================================================
+// NDJSON File
+// ============================================================================
+
+/**
+ * Appends each decoded batch as one JSON line to a local file
+ *
+ * Useful for running the upload path fully offline and inspecting the output.
+ */
+export class FileSink implements TransportSink {
+  readonly name = 'file';
+  private filePath: string;
+  private recipientPrivateKey?: string;
+
+  /**
+   * @param filePath - NDJSON output file (parent directories are created)
+   * @param recipientPrivateKey - Key for opening encrypted batches
+   */
+  constructor(filePath: string, recipientPrivateKey?: string) {
+    this.filePath = filePath;
+    this.recipientPrivateKey = recipientPrivateKey;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  async send(req: SinkRequest): Promise<SinkResponse> {
+    const batch = decodeSinkRequest(req, this.recipientPrivateKey);
+    fs.appendFileSync(this.filePath, JSON.stringify(batch) + '\n', 'utf8');
+    return { ok: true, status: 200 };
+  }
+}
+
+// ============================================================================
+// In-Process Callback
+// ============================================================================
+
+/**
+ * Handler invoked by CallbackSink. Returning nothing counts as a 200.
+ */
+export type BatchHandler = (
+  batch: UploadBatch,
+  req: SinkRequest
+) => SinkResponse | number | void | Promise<SinkResponse | number | void>;
+
+/**
+ * Hands each decoded batch to an in-process handler
+ */
+export class CallbackSink implements TransportSink {
+  readonly name = 'callback';
+  private handler: BatchHandler;
+  private recipientPrivateKey?: string;
+
+  /**
+   * @param handler - Called once per batch; may return a status code or SinkResponse
+   * @param recipientPrivateKey - Key for opening encrypted batches
+   */
+  constructor(handler: BatchHandler, recipientPrivateKey?: string) {
+    this.handler = handler;
+    this.recipientPrivateKey = recipientPrivateKey;
+  }
+
+  async send(req: SinkRequest): Promise<SinkResponse> {
+    const batch = decodeSinkRequest(req, this.recipientPrivateKey);
+    const result = await this.handler(batch, req);
+
+    if (result === undefined) {
+      return { ok: true, status: 200 };
+    }
+    if (typeof result === 'number') {
+      return { ok: result >= 200 && result < 300, status: result };
+    }
+    return result;
+  }
+}
@@ -10,18 +10,81 @@ const DB_PATH = path.join(DB_DIR, 'transport_queue.db');
 export type QueueItem = { id: string; created_at: number; payload: string };
 
 /**
- * SQLiteQueue - A persistent FIFO queue backed by SQLite
+ * Priority lane for queued items. Higher lanes are always drained first.
+ */
+export type QueueLane = 'high' | 'normal' | 'low';
+
+/**
+ * Per-event-type queue policy
+ */
+export type QueuePolicy = {
+  /** Lane for items of this type (default: 'normal') */
+  lane?: QueueLane;
+  /** Max items of this type kept in the queue; the oldest are evicted beyond this */
+  maxItems?: number;
+  /** Time-to-live in ms. Expired items are pruned unless they are in the high lane. */
+  ttlMs?: number;
+};
+
+/**
+ * Options for a single enqueue call
+ */
+export type EnqueueOptions = {
+  /** Override the lane resolved from the type policy */
+  lane?: QueueLane;
+  /** Override the event type read from the payload */
+  type?: string;
+};
+
+/** Numeric sort key per lane (lower drains first) */
+const LANE_PRIORITY: Record<QueueLane, number> = { high: 0, normal: 1, low: 2 };
+
+/**
+ * Default policies keyed by event type (`payload.type` or `payload.eventType`)
+ *
+ * Commitments and action approvals jump the queue; high-volume context
+ * signals are capped and expire after a day so a backlog cannot starve them.
+ */
+export const DEFAULT_QUEUE_POLICIES: Record<string, QueuePolicy> = {
+  commitment_detected: { lane: 'high' },
+  action_approval: { lane: 'high' },
+  context_switch: { lane: 'low', maxItems: 5000, ttlMs: 24 * 60 * 60 * 1000 },
+  document_interaction: { lane: 'low', maxItems: 5000, ttlMs: 24 * 60 * 60 * 1000 },
+  skill_signal: { lane: 'low', maxItems: 2000, ttlMs: 24 * 60 * 60 * 1000 },
+};
+
+/**
+ * A payload that could not be delivered and was moved out of the live queue
+ */
+export type DeadLetterItem = QueueItem & {
+  /** Epoch ms when the item was dead-lettered */
+  failed_at: number;
+  /** HTTP status that caused the failure, or null for local rejections (e.g. oversize) */
+  status_code: number | null;
+  /** Human-readable failure reason */
+  reason: string;
+  /** Delivery attempts made before the item was dead-lettered */
+  attempts: number;
+};
+
+/**
+ * SQLiteQueue - A persistent priority queue backed by SQLite
  * 
  * This queue provides durable storage for events/messages that need to survive
  * application restarts. All data is stored in a SQLite database in the user's
  * home directory (~/.sync-desktop/transport_queue.db).
  * 
+ * Items are drained lane by lane (high, normal, low) and FIFO within a lane.
+ * Per-type policies assign the lane and can cap the item count (oldest evicted)
+ * or set a TTL (expired non-high items are removed by pruneExpired()).
+ * 
  * @example
  * ```typescript
  * const queue = new SQLiteQueue();
  * 
  * // Add items to the queue
  * const id = queue.enqueue({ type: 'activity', data: 'user clicked button' });
+ * queue.enqueue({ type: 'approval' }, { lane: 'high' });
  * 
  * // Peek at the next items (without removing)
  * const items = queue.peek(10);
@@ -35,6 +98,10 @@ export type QueueItem = { id: string; created_at: number; payload: string };
  * // Check queue size
  * console.log(`Queue has ${queue.size()} items`);
  * 
+ * // Move undeliverable items aside instead of deleting them
+ * queue.deadLetter(items, { statusCode: 400, reason: 'Client error 400', attempts: 1 });
+ * queue.requeueDeadLetter(items[0].id);
+ * 
  * // Clear all items
  * queue.clearAll();
  * 
@@ -44,13 +111,16 @@ export type QueueItem = { id: string; created_at: number; payload: string };
  */
 export class SQLiteQueue {
   private db: Database.Database;
+  private policies: Record<string, QueuePolicy>;
   
   /**
    * Creates a new SQLiteQueue instance
    * 
    * @param dbPath - Optional custom database path. Defaults to ~/.sync-desktop/transport_queue.db
+   * @param policies - Per-event-type lane/quota/TTL policies (default: DEFAULT_QUEUE_POLICIES)
    */
-  constructor(dbPath = DB_PATH) {
+  constructor(dbPath = DB_PATH, policies: Record<string, QueuePolicy> = DEFAULT_QUEUE_POLICIES) {
+    this.policies = policies;
     // Only create directory if not using in-memory database
     if (dbPath !== ':memory:') {
       const dir = path.dirname(dbPath);
@@ -60,34 +130,103 @@ export class SQLiteQueue {
     }
     this.db = new Database(dbPath);
     this.db.exec(`CREATE TABLE IF NOT EXISTS queue (id TEXT PRIMARY KEY, created_at INTEGER, payload TEXT);`);
+    // Lane/type/TTL columns were added after the first release; upgrade older queue files in place
+    const columns = (this.db.prepare('PRAGMA table_info(queue)').all() as any[]).map(c => c.name);
+    if (!columns.includes('priority')) {
+      this.db.exec(`ALTER TABLE queue ADD COLUMN priority INTEGER DEFAULT ${LANE_PRIORITY.normal}`);
+    }
+    if (!columns.includes('event_type')) {
+      this.db.exec('ALTER TABLE queue ADD COLUMN event_type TEXT');
+    }
+    if (!columns.includes('expires_at')) {
+      this.db.exec('ALTER TABLE queue ADD COLUMN expires_at INTEGER');
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_queue_priority ON queue(priority, created_at)');
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_queue_type ON queue(event_type, created_at)');
+    this.db.exec(`CREATE TABLE IF NOT EXISTS dead_letter (
+      id TEXT PRIMARY KEY,
+      created_at INTEGER,
+      failed_at INTEGER,
+      payload TEXT,
+      status_code INTEGER,
+      reason TEXT,
+      attempts INTEGER DEFAULT 0
+    );`);
   }
 
   /**
    * Add an item to the queue
    * 
+   * The lane, quota and TTL come from the policy for the item's type
+   * (`payload.type` or `payload.eventType`). If the type's quota is exceeded,
+   * its oldest items are evicted.
+   * 
    * @param payload - Object to enqueue (will be JSON stringified)
+   * @param opts - Optional lane/type overrides
    * @returns Unique ID of the enqueued item
    */
-  enqueue(payload: object) {
+  enqueue(payload: object, opts: EnqueueOptions = {}) {
     const id = uuidv4();
-    const stmt = this.db.prepare('INSERT INTO queue (id, created_at, payload) VALUES (?, ?, ?)');
-    stmt.run(id, Date.now(), JSON.stringify(payload));
+    const now = Date.now();
+    const type = opts.type ?? this.typeOf(payload);
+    const policy = (type && this.policies[type]) || {};
+    const lane = opts.lane ?? policy.lane ?? 'normal';
+    const expiresAt = policy.ttlMs ? now + policy.ttlMs : null;
+
+    this.db.transaction(() => {
+      this.db.prepare('INSERT INTO queue (id, created_at, payload, priority, event_type, expires_at) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(id, now, JSON.stringify(payload), LANE_PRIORITY[lane], type ?? null, expiresAt);
+
+      if (type && policy.maxItems !== undefined) {
+        this.db.prepare(`
+          DELETE FROM queue WHERE id IN (
+            SELECT id FROM queue WHERE event_type = ?
+            ORDER BY created_at DESC, rowid DESC LIMIT -1 OFFSET ?
+          )
+        `).run(type, policy.maxItems);
+      }
+    })();
     return id;
   }
 
   /**
    * Retrieve the next N items from the queue (without removing them)
-   * Items are returned in FIFO order (oldest first)
+   * Items are returned highest lane first, FIFO (oldest first) within a lane
    * 
    * @param n - Maximum number of items to retrieve (default: 100)
    * @returns Array of queue items with id, created_at timestamp, and JSON payload
    */
   peek(n = 100): QueueItem[] {
-    const stmt = this.db.prepare('SELECT id, created_at, payload FROM queue ORDER BY created_at LIMIT ?');
+    const stmt = this.db.prepare('SELECT id, created_at, payload FROM queue ORDER BY priority, created_at, rowid LIMIT ?');
     const rows = stmt.all(n) as any[];
     return rows.map(r => ({ id: r.id, created_at: r.created_at, payload: r.payload }));
   }
 
+  /**
+   * Delete expired items outside the high lane
+   * 
+   * @param now - Reference time in epoch ms (default: Date.now())
+   * @returns Number of items pruned
+   */
+  pruneExpired(now = Date.now()): number {
+    const stmt = this.db.prepare('DELETE FROM queue WHERE expires_at IS NOT NULL AND expires_at <= ? AND priority > ?');
+    return stmt.run(now, LANE_PRIORITY.high).changes;
+  }
+
+  /**
+   * Count queued items per lane
+   * 
+   * @returns Item counts keyed by lane
+   */
+  sizeByLane(): Record<QueueLane, number> {
+    const rows = this.db.prepare('SELECT priority, COUNT(1) as c FROM queue GROUP BY priority').all() as any[];
+    const counts: Record<QueueLane, number> = { high: 0, normal: 0, low: 0 };
+    for (const lane of Object.keys(LANE_PRIORITY) as QueueLane[]) {
+      counts[lane] = rows.find(r => r.priority === LANE_PRIORITY[lane])?.c ?? 0;
+    }
+    return counts;
+  }
+
   /**
    * Remove an item from the queue by ID
    * 
@@ -118,6 +257,175 @@ export class SQLiteQueue {
     stmt.run();
   }
 
+  /**
+   * Delete queued and dead-lettered items whose payload matches
+   *
+   * WARNING: This operation is not reversible
+   *
+   * @param match - Called with each parsed payload
+   * @param dryRun - Only count the matching items
+   * @returns Number of items deleted (or that would be deleted)
+   */
+  removeMatching(match: (payload: any) => boolean, dryRun = false): number {
+    let count = 0;
+    this.db.transaction(() => {
+      for (const table of ['queue', 'dead_letter']) {
+        const rows = this.db.prepare(`SELECT id, payload FROM ${table}`).all() as { id: string; payload: string }[];
+        const del = this.db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+        for (const row of rows) {
+          let payload: unknown;
+          try {
+            payload = JSON.parse(row.payload);
+          } catch {
+            continue;
+          }
+          if (!match(payload)) continue;
+          count++;
+          if (!dryRun) del.run(row.id);
+        }
+      }
+    })();
+    return count;
+  }
+
+  // ============================================================================
+  // Dead Letters
+  // ============================================================================
+
+  /**
+   * Move items from the live queue into the dead-letter table
+   * 
+   * @param items - Queue items to move
+   * @param info - Failure details recorded with each item
+   */
+  deadLetter(items: QueueItem[], info: { statusCode?: number | null; reason: string; attempts: number }) {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO dead_letter (id, created_at, failed_at, payload, status_code, reason, attempts)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const remove = this.db.prepare('DELETE FROM queue WHERE id = ?');
+    const now = Date.now();
+
+    this.db.transaction(() => {
+      for (const item of items) {
+        insert.run(item.id, item.created_at, now, item.payload, info.statusCode ?? null, info.reason, info.attempts);
+        remove.run(item.id);
+      }
+    })();
+  }
+
+  /**
+   * Store a payload that was refused before it reached the live queue
+   *
+   * The payload goes straight to the dead-letter table so it can be inspected,
+   * fixed and requeued like any other undeliverable item.
+   *
+   * @param payload - Object that failed validation
+   * @param reason - Why it was refused
+   * @returns Unique ID of the dead-letter item
+   */
+  quarantine(payload: object, reason: string): string {
+    const id = uuidv4();
+    const now = Date.now();
+    this.db.prepare(`
+      INSERT INTO dead_letter (id, created_at, failed_at, payload, status_code, reason, attempts)
+      VALUES (?, ?, ?, ?, NULL, ?, 0)
+    `).run(id, now, now, JSON.stringify(payload), reason);
+    return id;
+  }
+
+  /**
+   * List dead-lettered items, most recent failure first
+   * 
+   * @param n - Maximum number of items to return (default: 100)
+   * @returns Dead-letter items including failure details
+   */
+  peekDeadLetters(n = 100): DeadLetterItem[] {
+    const stmt = this.db.prepare(`
+      SELECT id, created_at, failed_at, payload, status_code, reason, attempts
+      FROM dead_letter ORDER BY failed_at DESC, created_at DESC LIMIT ?
+    `);
+    return stmt.all(n) as DeadLetterItem[];
+  }
+
+  /**
+   * Get a single dead-lettered item
+   * 
+   * @param id - Item ID
+   * @returns The item, or undefined if it is not in the dead-letter table
+   */
+  getDeadLetter(id: string): DeadLetterItem | undefined {
+    const stmt = this.db.prepare(`
+      SELECT id, created_at, failed_at, payload, status_code, reason, attempts
+      FROM dead_letter WHERE id = ?
+    `);
+    return stmt.get(id) as DeadLetterItem | undefined;
+  }
+
+  /**
+   * Move a dead-lettered item back to the end of the live queue
+   * 
+   * @param id - Item ID
+   * @param payload - Optional replacement payload (e.g. after fixing a schema error)
+   * @returns True if the item was requeued, false if it was not found
+   */
+  requeueDeadLetter(id: string, payload?: object): boolean {
+    const item = this.getDeadLetter(id);
+    if (!item) return false;
+
+    // Requeued items keep their type's lane but never expire: the user asked for them back
+    const body = payload ? JSON.stringify(payload) : item.payload;
+    const type = this.typeOf(JSON.parse(body));
+    const lane = (type && this.policies[type]?.lane) || 'normal';
+
+    this.db.transaction(() => {
+      this.db.prepare('INSERT OR REPLACE INTO queue (id, created_at, payload, priority, event_type) VALUES (?, ?, ?, ?, ?)')
+        .run(id, Date.now(), body, LANE_PRIORITY[lane], type ?? null);
+      this.db.prepare('DELETE FROM dead_letter WHERE id = ?').run(id);
+    })();
+    return true;
+  }
+
+  /**
+   * Permanently delete dead-lettered items
+   * 
+   * WARNING: This operation is not reversible
+   * 
+   * @param ids - Item IDs to delete. Omit to delete every dead-lettered item.
+   * @returns Number of items deleted
+   */
+  purgeDeadLetters(ids?: string[]): number {
+    if (!ids) {
+      return this.db.prepare('DELETE FROM dead_letter').run().changes;
+    }
+    const stmt = this.db.prepare('DELETE FROM dead_letter WHERE id = ?');
+    let deleted = 0;
+    this.db.transaction(() => {
+      for (const id of ids) {
+        deleted += stmt.run(id).changes;
+      }
+    })();
+    return deleted;
+  }
+
+  /**
+   * Get the current number of dead-lettered items
+   * 
+   * @returns Number of items in the dead-letter table
+   */
+  deadLetterSize(): number {
+    const row = this.db.prepare('SELECT COUNT(1) as c FROM dead_letter').get() as any;
+    return row.c;
+  }
+
+  /**
+   * Read the event type used for policy lookup
+   */
+  private typeOf(payload: any): string | undefined {
+    const type = payload?.type ?? payload?.eventType;
+    return typeof type === 'string' ? type : undefined;
+  }
+
   /**
    * Close the database connection
    * 
@@ -0,0 +1,203 @@
+/**
+ * Upload scheduling policy shared by Transport and CloudSyncService
+ *
+ * Decides whether an upload may leave the machine right now, based on:
+ * - **Power**: large uploads wait while on battery
+ * - **Network cost**: large uploads wait on a metered connection
+ * - **Byte budget**: total upload bytes per rolling hour
+ * - **Coalescing**: a minimum gap between flushes so bursts become one upload
+ *
+ * The policy has no Electron dependency; the host supplies power/network
+ * state through provider functions. Every check records its decision so
+ * callers can surface why data has not been sent.
+ */
+
+export type PowerState = {
+  onBattery: boolean;
+};
+
+export type NetworkState = {
+  metered: boolean;
+};
+
+export type UploadPolicyConfig = {
+  /** Defer large uploads while on battery (default: true) */
+  deferOnBattery: boolean;
+  /** Defer large uploads on a metered connection (default: true) */
+  deferOnMetered: boolean;
+  /** Uploads at or above this many bytes count as large (default: 64KB) */
+  largeUploadBytes: number;
+  /** Max bytes per rolling hour; 0 disables the cap (default: 0) */
+  maxBytesPerHour: number;
+  /** Minimum gap between flushes in ms; 0 disables coalescing (default: 0) */
+  coalesceMs: number;
+  /** Allow a large upload anyway once battery/metered deferral has lasted this long (default: 4h) */
+  maxDeferMs: number;
+};
+
+export type UploadPolicyOptions = Partial<UploadPolicyConfig> & {
+  /** Current power state (default: always on AC power) */
+  getPowerState?: () => PowerState;
+  /** Current network state (default: never metered) */
+  getNetworkState?: () => NetworkState;
+};
+
+export type UploadDecisionReason = 'allowed' | 'on_battery' | 'metered' | 'byte_cap' | 'coalescing';
+
+export type UploadDecision = {
+  /** Whether the upload may proceed now */
+  allowed: boolean;
+  /** Why the decision was made */
+  reason: UploadDecisionReason;
+  /** Human-readable explanation */
+  detail: string;
+  /** Suggested wait before asking again, when deferred */
+  retryAfterMs?: number;
+  /** Epoch ms of the decision */
+  decidedAt: number;
+};
+
+export type UploadPolicyStatus = {
+  lastDecision: UploadDecision | null;
+  bytesLastHour: number;
+  maxBytesPerHour: number;
+  deferredSince: number | null;
+};
+
+export const DEFAULT_UPLOAD_POLICY_CONFIG: UploadPolicyConfig = {
+  deferOnBattery: true,
+  deferOnMetered: true,
+  largeUploadBytes: 64 * 1024,
+  maxBytesPerHour: 0,
+  coalesceMs: 0,
+  maxDeferMs: 4 * 60 * 60 * 1000,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** How long to wait before re-checking power/network state */
+const STATE_RECHECK_MS = 5 * 60 * 1000;
+
+export class UploadPolicy {
+  private config: UploadPolicyConfig;
+  private getPowerState: () => PowerState;
+  private getNetworkState: () => NetworkState;
+  private uploads: { at: number; bytes: number }[] = [];
+  private lastFlushAt: number | null = null;
+  private deferredSince: number | null = null;
+  private lastDecision: UploadDecision | null = null;
+
+  constructor(opts: UploadPolicyOptions = {}) {
+    const { getPowerState, getNetworkState, ...config } = opts;
+    this.config = { ...DEFAULT_UPLOAD_POLICY_CONFIG, ...config };
+    this.getPowerState = getPowerState ?? (() => ({ onBattery: false }));
+    this.getNetworkState = getNetworkState ?? (() => ({ metered: false }));
+  }
+
+  /**
+   * Update policy thresholds (e.g. after a settings change)
+   */
+  updateConfig(config: Partial<UploadPolicyConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Check whether a flush may start now (coalescing)
+   *
+   * An allowed check counts as a flush start.
+   *
+   * @param now - Reference time in epoch ms
+   */
+  shouldFlush(now = Date.now()): UploadDecision {
+    const { coalesceMs } = this.config;
+    if (coalesceMs > 0 && this.lastFlushAt !== null && now - this.lastFlushAt < coalesceMs) {
+      const wait = coalesceMs - (now - this.lastFlushAt);
+      return this.decide(false, 'coalescing', `Coalescing flushes, next in ${Math.ceil(wait / 1000)}s`, now, wait);
+    }
+    this.lastFlushAt = now;
+    return this.decide(true, 'allowed', 'Flush allowed', now);
+  }
+
+  /**
+   * Check whether an upload of the given size may be sent now
+   *
+   * @param bytes - Size of the upload in bytes (as sent on the wire)
+   * @param now - Reference time in epoch ms
+   */
+  shouldUpload(bytes: number, now = Date.now()): UploadDecision {
+    const { maxBytesPerHour, largeUploadBytes, deferOnBattery, deferOnMetered, maxDeferMs } = this.config;
+
+    // Byte budget applies to every upload. A single upload larger than the whole
+    // budget is let through once the window is empty, otherwise it would never leave.
+    if (maxBytesPerHour > 0) {
+      this.pruneWindow(now);
+      const used = this.bytesInWindow();
+      if (used > 0 && used + bytes > maxBytesPerHour) {
+        const wait = this.uploads[0].at + HOUR_MS - now;
+        return this.decide(false, 'byte_cap', `Hourly upload cap reached (${used}/${maxBytesPerHour} bytes)`, now, wait);
+      }
+    }
+
+    if (bytes >= largeUploadBytes) {
+      const starved = this.deferredSince !== null && now - this.deferredSince >= maxDeferMs;
+
+      if (!starved && deferOnBattery && this.getPowerState().onBattery) {
+        this.deferredSince = this.deferredSince ?? now;
+        return this.decide(false, 'on_battery', `Deferring ${bytes}-byte upload while on battery`, now, STATE_RECHECK_MS);
+      }
+      if (!starved && deferOnMetered && this.getNetworkState().metered) {
+        this.deferredSince = this.deferredSince ?? now;
+        return this.decide(false, 'metered', `Deferring ${bytes}-byte upload on a metered connection`, now, STATE_RECHECK_MS);
+      }
+    }
+
+    this.deferredSince = null;
+    return this.decide(true, 'allowed', 'Upload allowed', now);
+  }
+
+  /**
+   * Record bytes that were actually sent
+   */
+  recordUpload(bytes: number, now = Date.now()): void {
+    this.uploads.push({ at: now, bytes });
+    this.pruneWindow(now);
+  }
+
+  /**
+   * Most recent decision made by shouldFlush/shouldUpload
+   */
+  getLastDecision(): UploadDecision | null {
+    return this.lastDecision;
+  }
+
+  getStatus(now = Date.now()): UploadPolicyStatus {
+    this.pruneWindow(now);
+    return {
+      lastDecision: this.lastDecision,
+      bytesLastHour: this.bytesInWindow(),
+      maxBytesPerHour: this.config.maxBytesPerHour,
+      deferredSince: this.deferredSince,
+    };
+  }
+
+  private decide(
+    allowed: boolean,
+    reason: UploadDecisionReason,
+    detail: string,
+    now: number,
+    retryAfterMs?: number
+  ): UploadDecision {
+    this.lastDecision = { allowed, reason, detail, retryAfterMs, decidedAt: now };
+    return this.lastDecision;
+  }
+
+  private pruneWindow(now: number): void {
+    while (this.uploads.length > 0 && this.uploads[0].at <= now - HOUR_MS) {
+      this.uploads.shift();
+    }
+  }
+
+  private bytesInWindow(): number {
+    return this.uploads.reduce((sum, u) => sum + u.bytes, 0);
+  }
+}
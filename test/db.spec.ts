@@ -65,7 +65,9 @@ const MIGRATION_SQL = `
     ocr_text TEXT,
     semantic_category TEXT,
     commitments TEXT,
+    paused_intervals TEXT,
     synced INTEGER DEFAULT 0,
+    sync_error TEXT,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
   );
   CREATE INDEX IF NOT EXISTS idx_hourly_start ON hourly_summaries(hour_start);
@@ -78,6 +80,7 @@ const MIGRATION_SQL = `
     highlights TEXT,
     focus_areas TEXT,
     synced INTEGER DEFAULT 0,
+    sync_error TEXT,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
   );
   CREATE INDEX IF NOT EXISTS idx_journal_date ON daily_journals(journal_date);
@@ -109,6 +112,7 @@ const MIGRATION_SQL = `
     analysis TEXT,
     image_hash TEXT,
     synced INTEGER DEFAULT 0,
+    sync_error TEXT,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
   );
   CREATE INDEX IF NOT EXISTS idx_captures_timestamp ON screen_captures(timestamp);
@@ -127,7 +131,16 @@ const MIGRATION_SQL = `
     source_capture_id INTEGER REFERENCES screen_captures(id),
     context TEXT,
     confidence REAL DEFAULT 0.5,
-    synced INTEGER DEFAULT 0
+    synced INTEGER DEFAULT 0,
+    source TEXT NOT NULL DEFAULT 'screen',
+    context_event_id INTEGER,
+    involved_parties TEXT,
+    assignee TEXT,
+    last_seen_at INTEGER,
+    sightings INTEGER NOT NULL DEFAULT 1,
+    snoozed_until INTEGER,
+    escalation_level INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER
   );
   CREATE INDEX IF NOT EXISTS idx_commitments_status ON commitments(status);
   CREATE INDEX IF NOT EXISTS idx_commitments_deadline ON commitments(deadline);
@@ -206,6 +219,7 @@ const MIGRATION_SQL = `
     confidence REAL DEFAULT 0.5,
     privacy_level TEXT DEFAULT 'sync_allowed',
     synced INTEGER DEFAULT 0,
+    sync_error TEXT,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP
   );
   CREATE INDEX IF NOT EXISTS idx_context_events_timestamp ON context_events(timestamp);
@@ -229,6 +243,7 @@ const MIGRATION_SQL = `
     metadata TEXT DEFAULT '{}',
     privacy_level TEXT DEFAULT 'sync_allowed',
     synced INTEGER DEFAULT 0,
+    sync_error TEXT,
     created_at INTEGER NOT NULL,
     updated_at INTEGER NOT NULL
   );
@@ -294,6 +309,7 @@ const MIGRATION_SQL = `
     metadata TEXT DEFAULT '{}',
     privacy_level TEXT DEFAULT 'sync_allowed',
     synced INTEGER DEFAULT 0,
+    sync_error TEXT,
     created_at INTEGER NOT NULL
   );
   CREATE INDEX IF NOT EXISTS idx_activities_type ON semantic_activities(activity_type);
@@ -326,6 +342,7 @@ const MIGRATION_SQL = `
     metadata TEXT DEFAULT '{}',
     privacy_level TEXT DEFAULT 'sync_allowed',
     synced INTEGER DEFAULT 0,
+    sync_error TEXT,
     created_at INTEGER NOT NULL,
     updated_at INTEGER NOT NULL
   );
@@ -367,6 +384,7 @@ const MIGRATION_SQL = `
     outcome TEXT,
     privacy_level TEXT DEFAULT 'sync_allowed',
     synced INTEGER DEFAULT 0,
+    sync_error TEXT,
     created_at INTEGER NOT NULL,
     updated_at INTEGER NOT NULL
   );
@@ -407,6 +425,7 @@ const MIGRATION_SQL = `
     computed_at INTEGER NOT NULL,
     privacy_level TEXT DEFAULT 'sync_allowed',
     synced INTEGER DEFAULT 0,
+    sync_error TEXT,
     created_at INTEGER NOT NULL,
     updated_at INTEGER NOT NULL
   );
@@ -434,6 +453,56 @@ const MIGRATION_SQL = `
     created_at TEXT DEFAULT (datetime('now')),
     resolved_at TEXT
   );
+
+  -- 019_pseudonym_vault
+  CREATE TABLE IF NOT EXISTS pseudonyms (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    token TEXT NOT NULL UNIQUE,
+    kind TEXT NOT NULL,
+    value TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  -- 020_outbound_audit
+  CREATE TABLE IF NOT EXISTS outbound_audit (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp INTEGER NOT NULL,
+    channel TEXT NOT NULL,
+    destination TEXT NOT NULL,
+    table_name TEXT NOT NULL,
+    row_ids TEXT NOT NULL DEFAULT '[]',
+    byte_size INTEGER NOT NULL,
+    payload_hash TEXT NOT NULL,
+    privacy_levels TEXT NOT NULL DEFAULT '[]',
+    status INTEGER,
+    entry_hash TEXT NOT NULL
+  );
+  CREATE TRIGGER IF NOT EXISTS outbound_audit_no_update
+    BEFORE UPDATE ON outbound_audit
+    BEGIN SELECT RAISE(ABORT, 'outbound_audit is append-only'); END;
+  CREATE TRIGGER IF NOT EXISTS outbound_audit_no_delete
+    BEFORE DELETE ON outbound_audit
+    BEGIN SELECT RAISE(ABORT, 'outbound_audit is append-only'); END;
+
+  -- 021_tracking_pauses
+  CREATE TABLE IF NOT EXISTS tracking_pauses (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    started_at INTEGER NOT NULL,
+    ended_at INTEGER,
+    kind TEXT NOT NULL
+  );
+
+  -- 022_commitment_lifecycle
+  CREATE TABLE IF NOT EXISTS commitment_transitions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    commitment_id INTEGER NOT NULL REFERENCES commitments(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    at INTEGER NOT NULL,
+    reason TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_commitment_transitions_commitment ON commitment_transitions(commitment_id);
+  CREATE INDEX IF NOT EXISTS idx_commitment_transitions_to ON commitment_transitions(to_status, at);
 `;
 
 function createTestDb(): Database.Database {
@@ -466,6 +535,9 @@ import {
   getUnsyncedSummaries,
   markHourlySummaryAsSynced,
   markSummariesSynced,
+  insertTrackingPause,
+  endTrackingPause,
+  getTrackingPausesByRange,
   insertDailyJournal,
   upsertDailyJournal,
   getDailyJournalByDate,
@@ -509,7 +581,51 @@ import {
   getUnsyncedEntities,
   markEntitiesSynced,
   cleanupSemanticData,
+  quarantineSyncRow,
+  getSyncQuarantineCounts,
 } from '../src/main/db/queries';
+import {
+  setFieldKey,
+  lockFields,
+  deriveFieldKey,
+  encryptField,
+  decryptField,
+  isEncryptedValue,
+  createKeyCheck,
+  verifyKeyCheck,
+  reencryptDatabase,
+} from '../src/main/db/fieldEncryption';
+import {
+  registerPseudonym,
+  importEntityPseudonyms,
+  pseudonymizeEntityName,
+  pseudonymizeText,
+  pseudonymizeJson,
+  resolvePseudonyms,
+  forgetPseudonyms,
+} from '../src/main/services/pseudonymVault';
+import {
+  recordOutbound,
+  recordTransportUpload,
+  getOutboundAudit,
+  verifyOutboundAudit,
+  getOutboundAuditSummary,
+  exportOutboundAudit,
+} from '../src/main/services/outboundAudit';
+import { eraseData } from '../src/main/services/erasureService';
+import { CommitmentService, OPEN_STATUSES, commitmentSimilarity } from '../src/main/services/commitmentService';
+import { createCipheriv, createHash, randomBytes } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EntityRegistry } from '../src/main/services/semantic/entityRegistry';
+import { ContextEventPipeline } from '../src/deep-context/pipeline/contextEventPipeline';
+import type { PipelineEvent } from '../src/deep-context/pipeline/contextEventPipeline';
+import { CaptureSourceRegistry } from '../src/deep-context/capture/captureSource';
+import type { ContextEventStore } from '../src/deep-context/store/contextEventStore';
+import { DEFAULT_ENGINE_CONFIG } from '../src/deep-context/types';
+import type { ContextEvent } from '../src/deep-context/types';
+import { FakeCaptureSource } from '../src/deep-context/__tests__/fixtures/fakeCaptureSource';
 
 // ============================================================================
 // Test Helpers
@@ -610,6 +726,7 @@ describe('Database Migrations', () => {
       'behavioral_signatures',
       'calendar_contexts',
       'chat_sessions',
+      'commitment_transitions',
       'commitments',
       'completed_actions',
       'context_events',
@@ -935,6 +1052,39 @@ describe('Hourly Summaries', () => {
     const results = getHourlySummaryByRange(new Date(4000), new Date(6000));
     expect(results[0].appBreakdown).toEqual(breakdown);
   });
+
+  it('should store paused intervals and default to none', () => {
+    const pausedIntervals = [{ start: 6100, end: 6500, kind: 'duration' }];
+    insertHourlySummary(makeSummary({ hourStart: 6000, pausedIntervals }));
+    insertHourlySummary(makeSummary({ hourStart: 7000 }));
+
+    const results = getHourlySummaryByRange(new Date(6000), new Date(8000));
+    expect(results[0].pausedIntervals).toEqual(pausedIntervals);
+    expect(results[1].pausedIntervals).toEqual([]);
+
+    upsertHourlySummary(makeSummary({ hourStart: 6000, pausedIntervals: [] }));
+    expect(getUnsyncedHourlySummaries(50)[0].pausedIntervals).toEqual([]);
+  });
+
+  it('should clip tracking pauses to the range and run open ones until now', () => {
+    insertTrackingPause(500, 'duration');
+    endTrackingPause(1500);
+    insertTrackingPause(1800, 'until_app_blur');
+
+    expect(getTrackingPausesByRange(new Date(1000), new Date(2000), 1900)).toEqual([
+      { start: 1000, end: 1500, kind: 'duration' },
+      { start: 1800, end: 1900, kind: 'until_app_blur' },
+    ]);
+    expect(getTrackingPausesByRange(new Date(2000), new Date(3000), 1900)).toEqual([]);
+
+    // Closing only touches the open interval
+    endTrackingPause(2500);
+    const rows = db.prepare('SELECT started_at, ended_at FROM tracking_pauses ORDER BY id').all();
+    expect(rows).toEqual([
+      { started_at: 500, ended_at: 1500 },
+      { started_at: 1800, ended_at: 2500 },
+    ]);
+  });
 });
 
 // ============================================================================
@@ -1247,6 +1397,42 @@ describe('Semantic Entities', () => {
     const result = getEntityById('e-mark');
     expect(result!.synced).toBe(true);
   });
+
+  it('keeps entities from events a local_only rule matched off the sync queue', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-only-entities-'));
+    const policyPath = path.join(dir, 'privacy-policy.json');
+    fs.writeFileSync(policyPath, JSON.stringify({
+      version: 1,
+      rules: [{ id: 'client-work', action: 'local_only', apps: ['Xcode'] }],
+    }));
+    const source = new FakeCaptureSource('fake');
+    const pipeline = new ContextEventPipeline(
+      { ...DEFAULT_ENGINE_CONFIG, privacyPolicyPath: policyPath },
+      { insert: vi.fn(() => 1) } as unknown as ContextEventStore,
+      new CaptureSourceRegistry([{ id: 'fake', create: () => source }]),
+    );
+    const events: ContextEvent[] = [];
+    pipeline.on('pipeline', (e: PipelineEvent) => e.event && events.push(e.event));
+    pipeline.start();
+
+    source.pushActivity({
+      appName: 'Xcode',
+      windowTitle: 'AcmeBanking — Payments.swift',
+      summary: 'Editing Payments.swift',
+      entities: ['Swift', 'Ledger Migration'],
+    });
+    pipeline.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(events[0].privacyLevel).toBe('local_only');
+    const registry = new EntityRegistry();
+    expect(registry.extractAndResolve(events[0]).length).toBeGreaterThan(0);
+    expect(getUnsyncedEntities(100)).toEqual([]);
+
+    // Seeing the same names in a syncable event later doesn't upgrade them
+    registry.extractAndResolve({ ...events[0], privacyLevel: 'sync_allowed' });
+    expect(getUnsyncedEntities(100)).toEqual([]);
+  });
 });
 
 // ============================================================================
@@ -1691,6 +1877,63 @@ describe('Sync Metadata', () => {
   });
 });
 
+describe('Sync Quarantine', () => {
+  beforeEach(() => {
+    db = createTestDb();
+  });
+
+  afterEach(() => {
+    if (db) db.close();
+  });
+
+  const makeSummary = (overrides: Record<string, unknown> = {}) => ({
+    id: 0,
+    hourStart: NOW,
+    appBreakdown: [],
+    totalMinutes: 60,
+    focusScore: 0.85,
+    ocrText: null,
+    semanticCategory: null,
+    commitments: null,
+    synced: false,
+    ...overrides,
+  });
+
+  it('should keep quarantined rows unsynced behind the other rows', () => {
+    const bad = insertHourlySummary(makeSummary({ hourStart: 1000 }));
+    const good = insertHourlySummary(makeSummary({ hourStart: 2000 }));
+
+    expect(quarantineSyncRow('hourly_summaries', bad, 'malformed hourly_summary')).toBe(true);
+    // Same error again is not news
+    expect(quarantineSyncRow('hourly_summaries', bad, 'malformed hourly_summary')).toBe(false);
+
+    expect(getUnsyncedHourlySummaries(50).map((s) => s.id)).toEqual([good, bad]);
+    expect(getUnsyncedHourlySummaries(1).map((s) => s.id)).toEqual([good]);
+    expect(getSyncQuarantineCounts()).toEqual({ hourly_summaries: 1 });
+  });
+
+  it('should release a row once it syncs', () => {
+    const id = insertHourlySummary(makeSummary({ hourStart: 1000 }));
+    quarantineSyncRow('hourly_summaries', id, 'malformed hourly_summary');
+
+    markHourlySummaryAsSynced(id);
+
+    expect(getSyncQuarantineCounts()).toEqual({});
+    const row = db.prepare('SELECT sync_error FROM hourly_summaries WHERE id = ?').get(id) as any;
+    expect(row.sync_error).toBeNull();
+  });
+
+  it('should key semantic tables by their string ids', () => {
+    insertEntity(makeEntity({ entityId: 'ent-bad' }));
+    insertEntity(makeEntity({ entityId: 'ent-good' }));
+
+    quarantineSyncRow('semantic_entities', 'ent-bad', 'malformed semantic_entity');
+
+    expect(getSyncQuarantineCounts()).toEqual({ semantic_entities: 1 });
+    expect(getUnsyncedEntities(1).map((e) => e.entityId)).toEqual(['ent-good']);
+  });
+});
+
 // ============================================================================
 // 14. Edge Cases
 // ============================================================================
@@ -1796,3 +2039,722 @@ describe('Edge Cases', () => {
     expect(rels.length).toBe(0);
   });
 });
+
+// ============================================================================
+// 15. Field Encryption
+// ============================================================================
+
+describe('Field Encryption', () => {
+  const key = randomBytes(32);
+
+  beforeEach(() => {
+    db = createTestDb();
+  });
+
+  afterEach(() => {
+    setFieldKey(null);
+    if (db) db.close();
+  });
+
+  it('stores sensitive columns as ciphertext and reads them back', () => {
+    setFieldKey(key);
+    insertActivityLog({ timestamp: NOW, appName: 'Mail', windowTitle: 'Offer for ACME', url: 'https://mail.example.com', synced: false });
+    saveChatSession('s-enc', [{ role: 'user', content: 'secret plans' }]);
+
+    const raw = db.prepare('SELECT app_name, window_title, url FROM activity_logs').get() as any;
+    expect(raw.app_name).toBe('Mail');
+    expect(isEncryptedValue(raw.window_title)).toBe(true);
+    expect(raw.window_title).not.toContain('ACME');
+    expect(isEncryptedValue(raw.url)).toBe(true);
+
+    const rawChat = db.prepare('SELECT messages FROM chat_sessions').get() as any;
+    expect(rawChat.messages).not.toContain('secret plans');
+
+    expect(getRecentActivity(10)[0].windowTitle).toBe('Offer for ACME');
+    expect(getChatSession('s-enc')).toEqual([{ role: 'user', content: 'secret plans' }]);
+  });
+
+  it('passes values through without a key and keeps reading plaintext rows', () => {
+    insertActivityLog({ timestamp: NOW, appName: 'Code', windowTitle: 'main.ts', synced: false });
+    expect((db.prepare('SELECT window_title FROM activity_logs').get() as any).window_title).toBe('main.ts');
+
+    setFieldKey(key);
+    expect(getRecentActivity(10)[0].windowTitle).toBe('main.ts');
+  });
+
+  it('reads values encrypted with another key as null', () => {
+    setFieldKey(key);
+    const sealed = encryptField('hello');
+    setFieldKey(randomBytes(32));
+    expect(decryptField(sealed)).toBeNull();
+  });
+
+  it('refuses writes while locked', () => {
+    lockFields();
+    expect(() => encryptField('x')).toThrow(/locked/);
+    expect(encryptField(null)).toBeNull();
+  });
+
+  it('derives the same key from the same passphrase and salt', () => {
+    const salt = randomBytes(16);
+    const a = deriveFieldKey('correct horse', salt);
+    expect(a.equals(deriveFieldKey('correct horse', salt))).toBe(true);
+    expect(a.equals(deriveFieldKey('correct horse', randomBytes(16)))).toBe(false);
+
+    const check = createKeyCheck(a);
+    expect(verifyKeyCheck(check, a)).toBe(true);
+    expect(verifyKeyCheck(check, deriveFieldKey('wrong', salt))).toBe(false);
+  });
+
+  it('encrypts existing plaintext in place, including legacy context events', () => {
+    insertActivityLog({ timestamp: NOW, appName: 'Slack', windowTitle: 'general', synced: false });
+
+    // Format written by the old ContextEventStore
+    const legacyKey = createHash('sha256').update('sync-desktop-deep-context-v1').digest();
+    const iv = randomBytes(16);
+    const cipher = createCipheriv('aes-256-gcm', legacyKey, iv);
+    const ct = cipher.update('old summary', 'utf8', 'hex') + cipher.final('hex');
+    const legacy = `${iv.toString('hex')}:${cipher.getAuthTag().toString('hex')}:${ct}`;
+    db.prepare(`
+      INSERT INTO context_events (timestamp, event_type, source_application, source_window_title, summary, confidence, synced)
+      VALUES (?, 'app_switch', 'Slack', 'general', ?, 0.5, 0)
+    `).run(NOW, legacy);
+
+    expect(reencryptDatabase(db, null, key)).toBe(2);
+
+    const raw = db.prepare('SELECT source_window_title, summary FROM context_events').get() as any;
+    expect(isEncryptedValue(raw.summary)).toBe(true);
+    setFieldKey(key);
+    expect(decryptField(raw.summary)).toBe('old summary');
+    expect(decryptField(raw.source_window_title)).toBe('general');
+    expect(getRecentActivity(10)[0].windowTitle).toBe('general');
+
+    // Re-keying rewrites every value; the old key can no longer read them
+    const nextKey = randomBytes(32);
+    expect(reencryptDatabase(db, key, nextKey)).toBe(2);
+    expect(getRecentActivity(10)[0].windowTitle).toBe('');
+    setFieldKey(nextKey);
+    expect(getRecentActivity(10)[0].windowTitle).toBe('general');
+  });
+
+  it('aborts re-encryption without changes when the current key is wrong', () => {
+    setFieldKey(key);
+    insertActivityLog({ timestamp: NOW, appName: 'Mail', windowTitle: 'Inbox', synced: false });
+    const before = (db.prepare('SELECT window_title FROM activity_logs').get() as any).window_title;
+
+    expect(() => reencryptDatabase(db, randomBytes(32), randomBytes(32))).toThrow(/could not be decrypted/);
+    expect((db.prepare('SELECT window_title FROM activity_logs').get() as any).window_title).toBe(before);
+  });
+});
+
+// ============================================================================
+// 16. Pseudonym Vault
+// ============================================================================
+
+describe('Pseudonym Vault', () => {
+  beforeEach(() => {
+    db = createTestDb();
+  });
+
+  afterEach(() => {
+    setFieldKey(null);
+    if (db) db.close();
+  });
+
+  it('replaces registered names and emails with stable tokens', () => {
+    const jan = registerPseudonym('Jan de Vries', 'person');
+    expect(jan).toMatch(/^person_[0-9a-f]{8}$/);
+    expect(registerPseudonym('  jan de  vries ', 'person')).toBe(jan);
+
+    const text = pseudonymizeText('Call with Jan de Vries (jan@acme.nl) about Jan de Vriesland');
+    expect(text).toMatch(/^Call with person_[0-9a-f]{8} \(email_[0-9a-f]{8}\) about Jan de Vriesland$/);
+    expect(text).toContain(jan);
+    const email = text.match(/email_[0-9a-f]{8}/)![0];
+    expect(pseudonymizeText('Mail jan@acme.nl')).toBe(`Mail ${email}`);
+  });
+
+  it('prefers the longest known name', () => {
+    const org = registerPseudonym('Acme', 'organization');
+    const team = registerPseudonym('Acme Platform Team', 'organization');
+    expect(pseudonymizeText('Acme Platform Team and Acme')).toBe(`${team} and ${org}`);
+  });
+
+  it('imports person and organization entities', () => {
+    insertEntity(makeEntity({ entityId: 'p1', name: 'Sarah Chen', type: 'person' }));
+    insertEntity(makeEntity({ entityId: 'o1', name: 'Globex', type: 'organization' }));
+    insertEntity(makeEntity({ entityId: 't1', name: 'TypeScript', type: 'topic' }));
+
+    expect(importEntityPseudonyms()).toBe(2);
+    expect(importEntityPseudonyms()).toBe(0);
+    expect(pseudonymizeText('Sarah Chen uses TypeScript at Globex')).toMatch(/^person_[0-9a-f]{8} uses TypeScript at org_[0-9a-f]{8}$/);
+  });
+
+  it('matches known names in any case', () => {
+    const sarah = registerPseudonym('Sarah Chen', 'person');
+    expect(pseudonymizeText('Ping SARAH CHEN and sarah chen')).toBe(`Ping ${sarah} and ${sarah}`);
+  });
+
+  it('always tokenises short entity names but leaves them alone in free text', () => {
+    insertEntity(makeEntity({ entityId: 'p1', name: 'Al', type: 'person' }));
+    insertEntity(makeEntity({ entityId: 'o1', name: 'HP', type: 'organization' }));
+    insertEntity(makeEntity({ entityId: 't1', name: 'Go', type: 'topic' }));
+
+    expect(importEntityPseudonyms()).toBe(2);
+    const al = pseudonymizeEntityName('Al', 'person');
+    expect(al).toMatch(/^person_[0-9a-f]{8}$/);
+    expect(pseudonymizeEntityName('al', 'person')).toBe(al);
+    expect(pseudonymizeEntityName('HP', 'organization')).toMatch(/^org_[0-9a-f]{8}$/);
+    expect(pseudonymizeEntityName('Go', 'topic')).toBe('Go');
+    expect(pseudonymizeText('Al fixed the HP printer')).toBe('Al fixed the HP printer');
+  });
+
+  it('pseudonymizes nested JSON and resolves tokens back', () => {
+    registerPseudonym('Sarah Chen', 'person');
+    const payload = { commitments: [{ description: 'Send Sarah Chen the deck', dueDate: NOW }] };
+    const out = pseudonymizeJson(payload);
+
+    expect(JSON.stringify(out)).not.toContain('Sarah');
+    expect(out.commitments[0].dueDate).toBe(NOW);
+    expect(resolvePseudonyms(out.commitments[0].description)).toBe('Send Sarah Chen the deck');
+    expect(resolvePseudonyms('Ask person_00000000')).toBe('Ask person_00000000');
+  });
+
+  it('stores values encrypted and keeps tokens across reloads', () => {
+    setFieldKey(randomBytes(32));
+    const token = registerPseudonym('Sarah Chen', 'person');
+
+    const raw = db.prepare('SELECT value FROM pseudonyms').get() as any;
+    expect(isEncryptedValue(raw.value)).toBe(true);
+
+    // A fresh connection to the same data loads the vault again
+    const reopened = db;
+    db = createTestDb();
+    db.prepare('INSERT INTO pseudonyms (token, kind, value, created_at) VALUES (?, ?, ?, ?)').run(token, 'person', raw.value, NOW);
+    reopened.close();
+    expect(registerPseudonym('Sarah Chen', 'person')).toBe(token);
+    expect(resolvePseudonyms(token)).toBe('Sarah Chen');
+  });
+
+  it('refuses to work with an unreadable vault', () => {
+    setFieldKey(randomBytes(32));
+    registerPseudonym('Sarah Chen', 'person');
+    const raw = db.prepare('SELECT value FROM pseudonyms').get() as any;
+
+    db.close();
+    db = createTestDb();
+    db.prepare('INSERT INTO pseudonyms (token, kind, value, created_at) VALUES (?, ?, ?, ?)').run('person_00000001', 'person', raw.value, NOW);
+    setFieldKey(randomBytes(32));
+    expect(() => pseudonymizeText('Sarah Chen')).toThrow(/unlock/);
+  });
+});
+
+// ============================================================================
+// 17. Outbound Audit
+// ============================================================================
+
+describe('Outbound Audit', () => {
+  const URL = 'https://example.supabase.co/rest/v1/context_events';
+
+  function record(overrides: Partial<Parameters<typeof recordOutbound>[0]> = {}) {
+    recordOutbound({
+      channel: 'cloud_sync',
+      destination: URL,
+      tableName: 'context_events',
+      rowIds: [1, 2],
+      body: '[{"id":1},{"id":2}]',
+      privacyLevels: ['sync_allowed'],
+      status: 201,
+      ...overrides,
+    });
+  }
+
+  beforeEach(() => {
+    db = createTestDb();
+  });
+
+  afterEach(() => {
+    if (db) db.close();
+  });
+
+  it('records size, hash and row ids without the payload', () => {
+    record();
+    const [entry] = getOutboundAudit();
+
+    expect(entry).toMatchObject({
+      channel: 'cloud_sync',
+      destination: URL,
+      tableName: 'context_events',
+      rowIds: ['1', '2'],
+      byteSize: 19,
+      payloadHash: createHash('sha256').update('[{"id":1},{"id":2}]').digest('hex'),
+      privacyLevels: ['sync_allowed'],
+      status: 201,
+    });
+    expect(Object.values(db.prepare('SELECT * FROM outbound_audit').get() as any)).not.toContain('[{"id":1},{"id":2}]');
+  });
+
+  it('rejects updates and deletes', () => {
+    record();
+    expect(() => db.prepare('UPDATE outbound_audit SET status = 500').run()).toThrow(/append-only/);
+    expect(() => db.prepare('DELETE FROM outbound_audit').run()).toThrow(/append-only/);
+  });
+
+  it('detects edits made with the triggers removed', () => {
+    record();
+    record({ tableName: 'screen_captures', rowIds: [7] });
+    record({ tableName: 'hourly_summaries', rowIds: [3] });
+    expect(verifyOutboundAudit()).toEqual({ valid: true, firstBrokenId: null });
+
+    db.exec('DROP TRIGGER outbound_audit_no_update');
+    db.prepare('UPDATE outbound_audit SET row_ids = ? WHERE id = 2').run('[]');
+    expect(verifyOutboundAudit()).toEqual({ valid: false, firstBrokenId: 2 });
+  });
+
+  it('filters by privacy level and counts local_only uploads', () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    record();
+    record({ privacyLevels: ['local_only', 'sync_allowed'] });
+
+    expect(getOutboundAudit({ privacyLevel: 'local_only' }).map((e) => e.id)).toEqual([2]);
+    expect(getOutboundAudit({ limit: 1 }).map((e) => e.id)).toEqual([2]);
+    expect(getOutboundAudit({ beforeId: 2 }).map((e) => e.id)).toEqual([1]);
+    expect(getOutboundAuditSummary()).toEqual({
+      totalEntries: 2,
+      totalBytes: 38,
+      localOnlyEntries: 1,
+      chainValid: true,
+      firstBrokenId: null,
+    });
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('local_only data sent'));
+    errorSpy.mockRestore();
+  });
+
+  it('maps transport uploads', () => {
+    recordTransportUpload({
+      destination: 'sink:callback',
+      eventIds: ['e1', 'e2'],
+      eventTypes: ['activity', 'commitment'],
+      privacyLevels: [],
+      body: Buffer.from('gzipped'),
+      status: null,
+    });
+
+    expect(getOutboundAudit()[0]).toMatchObject({
+      channel: 'transport',
+      destination: 'sink:callback',
+      tableName: 'activity,commitment',
+      rowIds: ['e1', 'e2'],
+      byteSize: 7,
+      status: null,
+    });
+  });
+
+  it('exports the ledger oldest first as JSON or CSV', () => {
+    record();
+    record({ destination: 'https://example.com/a,b', status: null });
+
+    const json = JSON.parse(exportOutboundAudit('json'));
+    expect(json.summary.totalEntries).toBe(2);
+    expect(json.entries.map((e: any) => e.id)).toEqual([1, 2]);
+
+    const lines = exportOutboundAudit('csv').trim().split('\n');
+    expect(lines[0]).toBe('id,timestamp,channel,destination,tableName,rowIds,byteSize,payloadHash,privacyLevels,status,entryHash');
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toContain('"https://example.com/a,b",context_events,1 2,19,');
+  });
+});
+
+// ============================================================================
+// 18. Erasure
+// ============================================================================
+
+describe('Erasure', () => {
+  const HOUR = 60 * 60 * 1000;
+  const T0 = Math.floor(NOW / HOUR) * HOUR - 24 * HOUR;
+
+  const count = (table: string) => (db.prepare(`SELECT COUNT(*) AS c FROM ${table}`).get() as { c: number }).c;
+
+  function insertEvent(timestamp: number, app: string): number {
+    return Number(db.prepare(`
+      INSERT INTO context_events (timestamp, event_type, source_application, synced) VALUES (?, 'app_switch', ?, 1)
+    `).run(timestamp, app).lastInsertRowid);
+  }
+
+  function insertCapture(timestamp: number, app: string): number {
+    return Number(db.prepare(`
+      INSERT INTO screen_captures (timestamp, app_name, window_title) VALUES (?, ?, 'Inbox')
+    `).run(timestamp, app).lastInsertRowid);
+  }
+
+  function insertCommitment(text: string, detectedAt: number, captureId: number | null = null): number {
+    return Number(db.prepare(`
+      INSERT INTO commitments (text, type, recipient, detected_at, source_capture_id) VALUES (?, 'follow_up', NULL, ?, ?)
+    `).run(encryptField(text), detectedAt, captureId).lastInsertRowid);
+  }
+
+  function summary(hourStart: number, apps: [string, number][]) {
+    insertHourlySummary({
+      hourStart,
+      appBreakdown: apps.map(([appName, minutes]) => ({ appName, minutes, percentage: 0, category: 'Other' })),
+      totalMinutes: apps.reduce((sum, [, minutes]) => sum + minutes, 0),
+      focusScore: 0.5,
+      ocrText: null,
+      semanticCategory: null,
+      commitments: null,
+      synced: true,
+    });
+  }
+
+  beforeEach(() => {
+    db = createTestDb();
+  });
+
+  afterEach(() => {
+    setFieldKey(null);
+    if (db) db.close();
+  });
+
+  it('previews a time range with the exact counts it then deletes', async () => {
+    insertActivityLog(makeActivity({ timestamp: T0 + 14 * HOUR + 60000 }));
+    insertActivityLog(makeActivity({ timestamp: T0 + 16 * HOUR }));
+    const inside = insertEvent(T0 + 14 * HOUR + 120000, 'Slack');
+    const outside = insertEvent(T0 + 16 * HOUR, 'Slack');
+    const capture = insertCapture(T0 + 14 * HOUR + 30000, 'Mail');
+    const commitment = insertCommitment('Send the deck', T0 + 10 * HOUR, capture);
+    db.prepare('INSERT INTO completed_actions (action_type, timestamp, matched_commitment_id) VALUES (?, ?, ?)')
+      .run('sent_email', T0 + 18 * HOUR, commitment);
+
+    insertSemanticActivity(makeSemanticActivity({ activityId: 'a-in', eventId: String(inside), createdAt: T0 + 20 * HOUR }));
+    insertThread(makeThread({ threadId: 't-only' }));
+    insertThread(makeThread({ threadId: 't-mixed' }));
+    addEventToThread({ threadId: 't-only', eventId: String(inside), relevanceScore: 1, addedAt: NOW });
+    addEventToThread({ threadId: 't-mixed', eventId: String(inside), relevanceScore: 1, addedAt: NOW });
+    addEventToThread({ threadId: 't-mixed', eventId: String(outside), relevanceScore: 1, addedAt: NOW });
+    insertIntent({
+      intentId: 'i-only', threadId: 't-only', intentType: 'SHIP', intentSubtype: null, confidence: 0.8,
+      classificationMethod: 'rule', evidence: [], resolvedAt: null, outcome: null,
+      privacyLevel: 'sync_allowed', synced: false, createdAt: NOW, updatedAt: NOW,
+    });
+    summary(T0 + 14 * HOUR, [['Slack', 30]]);
+    summary(T0 + 16 * HOUR, [['Slack', 30]]);
+
+    const selector = { kind: 'time_range' as const, start: T0 + 14 * HOUR, end: T0 + 15 * HOUR };
+    const preview = await eraseData(selector, { dryRun: true });
+    expect(count('context_events')).toBe(2);
+
+    const result = await eraseData(selector);
+    expect(result.counts).toEqual(preview.counts);
+    expect(result.counts).toMatchObject({
+      activity_logs: 1,
+      context_events: 1,
+      screen_captures: 1,
+      commitments: 1,
+      semantic_activities: 1,
+      thread_events: 2,
+      semantic_threads: 1,
+      semantic_intents: 1,
+      hourly_summaries: 1,
+    });
+    expect(result.cloud).toBeNull();
+
+    expect(count('activity_logs')).toBe(1);
+    expect(db.prepare('SELECT thread_id FROM semantic_threads').pluck().all()).toEqual(['t-mixed']);
+    expect(db.prepare('SELECT matched_commitment_id FROM completed_actions').pluck().get()).toBeNull();
+    expect(db.prepare('SELECT hour_start FROM hourly_summaries').pluck().all()).toEqual([T0 + 16 * HOUR]);
+  });
+
+  it('removes an app everywhere and rewrites the hours it shared', async () => {
+    insertActivityLog(makeActivity({ appName: 'Slack' }));
+    insertActivityLog(makeActivity({ appName: 'VS Code' }));
+    insertEvent(NOW, 'slack');
+    insertCapture(NOW, 'Slack');
+    summary(T0, [['Slack', 20], ['VS Code', 60]]);
+    summary(T0 + HOUR, [['Slack', 30]]);
+
+    const queued = [{ type: 'activity', app: 'Slack' }, { payload: { source_application: 'VS Code' } }];
+    const transport = {
+      removeMatching: vi.fn((match: (e: any) => boolean, dryRun: boolean) => queued.filter(match).length),
+    };
+    const cloudSync = {
+      isAuthenticated: () => true,
+      eraseFromCloud: vi.fn(async () => ({ requests: 3, errors: [] })),
+    };
+
+    const result = await eraseData({ kind: 'app', appName: 'Slack' }, { transport: transport as any, cloudSync: cloudSync as any });
+
+    expect(result.counts).toMatchObject({ activity_logs: 1, context_events: 1, screen_captures: 1, hourly_summaries: 1 });
+    expect(result.rewrittenSummaries).toBe(1);
+    expect(result.transportQueue).toBe(1);
+    expect(result.cloud).toEqual({ requests: 3, errors: [] });
+    expect(transport.removeMatching).toHaveBeenCalledWith(expect.any(Function), false);
+    expect(cloudSync.eraseFromCloud.mock.calls[0][0]).toMatchObject({
+      appNames: expect.arrayContaining(['Slack', 'slack']),
+      hourStarts: [T0 + HOUR],
+    });
+
+    const [rewritten] = getHourlySummaryByRange(new Date(T0), new Date(T0 + HOUR));
+    expect(rewritten.appBreakdown).toEqual([{ appName: 'VS Code', minutes: 60, percentage: 100, category: 'Other' }]);
+    expect(rewritten.totalMinutes).toBe(60);
+    expect(rewritten.synced).toBe(false);
+  });
+
+  it('erases an entity with its links, mentions and pseudonym', async () => {
+    setFieldKey(randomBytes(32));
+    insertEntity(makeEntity({ entityId: 'p-anna', name: 'Anna de Vries' }));
+    insertEntity(makeEntity({ entityId: 'p-bob', name: 'Bob' }));
+    upsertEntityAlias({ entityId: 'p-anna', alias: 'Anna', source: 'manual', frequency: 1, createdAt: NOW });
+    upsertEntityRelationship({
+      sourceEntityId: 'p-bob', targetEntityId: 'p-anna', relationshipType: 'collaborates_with',
+      strength: 0.5, evidenceCount: 1, lastEvidence: NOW, synced: false, createdAt: NOW, updatedAt: NOW,
+    });
+    const event = insertEvent(NOW, 'Mail');
+    insertEvent(NOW, 'Mail');
+    linkEventToEntity({ eventId: String(event), entityId: 'p-anna', role: 'mentioned', extractionMethod: 'regex', confidence: 1, createdAt: NOW });
+    insertCommitment('Send the deck to anna', NOW);
+    insertCommitment('Send the deck to Annabel', NOW);
+    registerPseudonym('Anna de Vries', 'person');
+
+    const preview = await eraseData({ kind: 'entity', name: 'anna' }, { dryRun: true });
+    expect(preview.counts).toMatchObject({
+      semantic_entities: 1,
+      entity_aliases: 1,
+      entity_relationships: 1,
+      event_entity_links: 1,
+      context_events: 1,
+      commitments: 1,
+      pseudonyms: 1,
+    });
+    expect(forgetPseudonyms(['Anna de Vries'], true)).toBe(1);
+
+    await eraseData({ kind: 'entity', name: 'anna' });
+    expect(db.prepare('SELECT entity_id FROM semantic_entities').pluck().all()).toEqual(['p-bob']);
+    expect(count('context_events')).toBe(1);
+    expect(count('commitments')).toBe(1);
+    expect(pseudonymizeText('Call Anna de Vries')).toBe('Call Anna de Vries');
+  });
+
+  it('erases commitments found in erased context events, with their history', async () => {
+    const event = insertEvent(T0 + HOUR, 'Slack');
+    const service = new CommitmentService();
+    service.record({ text: "I'll send the roadmap", type: 'send_file', source: 'accessibility', detectedAt: T0 + HOUR, confidence: 0.9, contextEventId: event });
+
+    const result = await eraseData({ kind: 'app', appName: 'Slack' });
+
+    expect(result.counts).toMatchObject({ context_events: 1, commitments: 1, commitment_transitions: 2 });
+    expect(count('commitment_transitions')).toBe(0);
+  });
+
+  it('rejects malformed selectors', async () => {
+    await expect(eraseData({ kind: 'time_range', start: 2, end: 1 })).rejects.toThrow('start before end');
+    await expect(eraseData({ kind: 'app', appName: ' ' })).rejects.toThrow('appName');
+  });
+});
+
+// ============================================================================
+// Commitment Lifecycle
+// ============================================================================
+
+describe('Commitment Lifecycle', () => {
+  const HOUR = 60 * 60 * 1000;
+  const T = Date.parse('2026-10-19T10:00:00Z');
+  let service: CommitmentService;
+
+  function sighting(overrides: Record<string, unknown> = {}) {
+    return {
+      text: "I'll send the quarterly report to Sarah",
+      type: 'send_file' as const,
+      source: 'screen' as const,
+      detectedAt: T,
+      confidence: 0.5,
+      ...overrides,
+    };
+  }
+
+  const statuses = (id: number) => service.getHistory(id).map((t) => [t.from, t.to, t.reason]);
+
+  beforeEach(() => {
+    db = createTestDb();
+    service = new CommitmentService();
+  });
+
+  afterEach(() => {
+    setFieldKey(null);
+    if (db) db.close();
+  });
+
+  it('starts unconfirmed commitments as detected and confident ones as pending', () => {
+    const unsure = service.record(sighting(), T).commitment;
+    const sure = service.record(sighting({ text: 'We will book the venue', type: 'create_event', confidence: 0.9 }), T).commitment;
+
+    expect(unsure.status).toBe('detected');
+    expect(sure.status).toBe('pending');
+    expect(statuses(sure.id!)).toEqual([[null, 'detected', 'screen'], ['detected', 'pending', 'confident']]);
+  });
+
+  it('counts every status that can still move on as open', () => {
+    expect(OPEN_STATUSES).toEqual(['detected', 'pending', 'snoozed', 'overdue']);
+  });
+
+  it('merges sightings of one commitment from both detectors', () => {
+    const first = service.record(sighting(), T);
+    const second = service.record(sighting({
+      text: 'I will send the quarterly report to Sarah!',
+      source: 'accessibility',
+      detectedAt: T + HOUR,
+      confidence: 0.6,
+      deadline: T + 24 * HOUR,
+      involvedParties: ['Sarah'],
+      contextEventId: 7,
+    }), T + HOUR);
+
+    expect(second.duplicate).toBe(true);
+    expect(second.commitment).toMatchObject({
+      id: first.commitment.id,
+      source: 'screen',
+      status: 'pending',
+      sightings: 2,
+      lastSeenAt: T + HOUR,
+      confidence: 0.6,
+      deadline: T + 24 * HOUR,
+      involvedParties: ['Sarah'],
+      contextEventId: 7,
+    });
+    expect(statuses(first.commitment.id!).at(-1)).toEqual(['detected', 'pending', 'confirmed']);
+    expect(service.list()).toHaveLength(1);
+  });
+
+  it('keeps different, closed and old commitments apart', () => {
+    const report = service.record(sighting(), T).commitment;
+    expect(service.record(sighting({ text: 'I will call Sarah about the invoice' }), T).duplicate).toBe(false);
+
+    service.dismiss(report.id!, 'user', T);
+    expect(service.record(sighting({ detectedAt: T + HOUR }), T + HOUR).duplicate).toBe(false);
+    expect(service.record(sighting({ detectedAt: T + 3 * 24 * HOUR }), T + 3 * 24 * HOUR).duplicate).toBe(false);
+    expect(service.list()).toHaveLength(4);
+  });
+
+  it('scores word overlap regardless of case, accents and punctuation', () => {
+    expect(commitmentSimilarity('Ich schicke dir den Bericht.', 'ich schicke dir den bericht')).toBe(1);
+    expect(commitmentSimilarity('Café at noon', 'cafe at noon')).toBe(1);
+    expect(commitmentSimilarity('send the report', 'book the venue')).toBeLessThan(0.5);
+    expect(commitmentSimilarity('', 'anything')).toBe(0);
+  });
+
+  it('marks missed deadlines overdue and escalates them step by step', () => {
+    const escalations: number[] = [];
+    service.on('escalation', (event) => escalations.push(event.level));
+    const { id } = service.record(sighting({ confidence: 0.9, deadline: T + HOUR }), T).commitment;
+
+    service.tick(T + HOUR - 1);
+    expect(service.get(id!)!.status).toBe('pending');
+
+    service.tick(T + HOUR);
+    expect(service.get(id!)).toMatchObject({ status: 'overdue', escalationLevel: 1 });
+
+    service.tick(T + 2 * HOUR);
+    service.tick(T + 2 * HOUR + 1000);
+    service.tick(T + 30 * HOUR);
+    expect(escalations).toEqual([1, 2, 4]);
+
+    service.tick(T + HOUR + 7 * 24 * HOUR);
+    expect(service.get(id!)!.status).toBe('expired');
+    expect(statuses(id!).slice(2)).toEqual([['pending', 'overdue', 'deadline_passed'], ['overdue', 'expired', 'overdue_too_long']]);
+  });
+
+  it('expires commitments that are never confirmed', () => {
+    const { id } = service.record(sighting(), T).commitment;
+    service.tick(T + 24 * HOUR);
+    expect(service.get(id!)!.status).toBe('expired');
+  });
+
+  it('brings snoozed commitments back when the snooze ends', () => {
+    const { id } = service.record(sighting({ confidence: 0.9, deadline: T + 3 * HOUR }), T).commitment;
+
+    expect(service.snooze(id!, T + HOUR, T)).toMatchObject({ status: 'snoozed', snoozedUntil: T + HOUR });
+    expect(service.snooze(id!, T + 2 * HOUR, T).snoozedUntil).toBe(T + 2 * HOUR);
+    service.tick(T + HOUR);
+    expect(service.get(id!)!.status).toBe('snoozed');
+
+    service.tick(T + 2 * HOUR);
+    expect(service.get(id!)).toMatchObject({ status: 'pending', snoozedUntil: undefined });
+
+    // Woken after the deadline: overdue right away
+    service.snooze(id!, T + 4 * HOUR, T + 2 * HOUR);
+    service.tick(T + 4 * HOUR);
+    expect(service.get(id!)!.status).toBe('overdue');
+    expect(statuses(id!).slice(-2)).toEqual([['snoozed', 'pending', 'snooze_ended'], ['pending', 'overdue', 'deadline_passed']]);
+
+    expect(() => service.snooze(id!, T, T + 4 * HOUR)).toThrow('future');
+  });
+
+  it('reassigns open commitments and logs it', () => {
+    setFieldKey(randomBytes(32));
+    const { id } = service.record(sighting({ involvedParties: ['Sarah'] }), T).commitment;
+
+    expect(service.reassign(id!, '  Tom ', T + HOUR).assignee).toBe('Tom');
+    expect(service.getHistory(id!).at(-1)).toEqual({ commitmentId: id, from: 'detected', to: 'detected', at: T + HOUR, reason: 'reassigned' });
+    expect(service.reassign(id!, null, T + HOUR).assignee).toBeUndefined();
+
+    const row = db.prepare('SELECT text, involved_parties FROM commitments WHERE id = ?').get(id) as any;
+    expect(isEncryptedValue(row.text)).toBe(true);
+    expect(isEncryptedValue(row.involved_parties)).toBe(true);
+
+    service.complete(id!, 'user', T + 2 * HOUR);
+    expect(() => service.reassign(id!, 'Tom')).toThrow('completed');
+  });
+
+  it('only allows moves the state machine has', () => {
+    const { id } = service.record(sighting({ confidence: 0.9 }), T).commitment;
+
+    expect(service.complete(id!, 'user', T + HOUR)).toMatchObject({ status: 'completed', completedAt: T + HOUR });
+    expect(() => service.dismiss(id!)).toThrow('from completed to dismissed');
+    expect(() => service.complete(999)).toThrow('not found');
+  });
+
+  it('lists commitments by status, detection time and transition time', () => {
+    const made = service.record(sighting({ confidence: 0.9 }), T).commitment;
+    service.record(sighting({ text: 'We will book the venue', detectedAt: T - 24 * HOUR }), T - 24 * HOUR);
+    service.complete(made.id!, 'user', T + HOUR);
+
+    expect(service.list({ since: T - HOUR }).map((c) => c.id)).toEqual([made.id]);
+    expect(service.list({ statuses: ['detected'] })).toHaveLength(1);
+    expect(service.listTransitionedTo(['completed'], T, T + 2 * HOUR).map((c) => c.id)).toEqual([made.id]);
+    expect(service.listTransitionedTo(['completed'], T + 2 * HOUR, T + 3 * HOUR)).toEqual([]);
+  });
+
+  it('imports the commitments stored on context events once the database is unlocked', () => {
+    const key = randomBytes(32);
+    const insertEvent = db.prepare(`
+      INSERT INTO context_events (timestamp, event_type, source_application, commitments, confidence)
+      VALUES (?, 'commitment_detected', 'Mail', ?, 0.6)
+    `);
+    setFieldKey(key);
+    const first = Number(insertEvent.run(T, encryptField(JSON.stringify([
+      { description: 'I will send the quarterly report to Sarah', involvedParties: ['Sarah'], requiredAction: 'send_file' },
+      { description: 'Finish the slides', involvedParties: [], requiredAction: 'deadline', dueDate: T + 24 * HOUR },
+    ]))).lastInsertRowid);
+    insertEvent.run(T + HOUR, encryptField(JSON.stringify([
+      { description: 'I will send the quarterly report to Sarah!', involvedParties: [] },
+    ])));
+
+    lockFields();
+    expect(service.importContextEventCommitments()).toBeNull();
+
+    setFieldKey(key);
+    expect(service.importContextEventCommitments()).toBe(2);
+    expect(service.importContextEventCommitments()).toBeNull();
+
+    const [report] = service.list({ statuses: ['pending'] });
+    const [slides] = service.list({ statuses: ['detected'] });
+    expect(report).toMatchObject({
+      source: 'accessibility',
+      type: 'send_file',
+      status: 'pending',
+      sightings: 2,
+      contextEventId: first,
+      involvedParties: ['Sarah'],
+    });
+    expect(slides).toMatchObject({ type: 'other', status: 'detected', deadline: T + 24 * HOUR });
+    expect(statuses(slides.id!)).toEqual([[null, 'detected', 'accessibility']]);
+  });
+});
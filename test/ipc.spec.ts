@@ -9,6 +9,9 @@
  */
 
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // ============================================================================
 // Mock Setup — must be before imports
@@ -43,9 +46,18 @@ vi.mock('electron', () => ({
   app: {
     getVersion: vi.fn().mockReturnValue('2.2.0'),
     getName: vi.fn().mockReturnValue('SYNC Desktop'),
+    getPath: vi.fn(() => mockDialog.downloadsPath),
+  },
+  dialog: {
+    showSaveDialog: (options: unknown) => mockDialog.showSaveDialog(options),
   },
 }));
 
+const mockDialog = {
+  downloadsPath: os.tmpdir(),
+  showSaveDialog: vi.fn(async (_options: unknown): Promise<{ canceled: boolean; filePath?: string }> => ({ canceled: true })),
+};
+
 // Mock all service getters from main/index
 const mockCloudSyncService = {
   forceSync: vi.fn().mockResolvedValue({ synced: true }),
@@ -71,9 +83,44 @@ const mockContextManager = {
 
 const mockDeepContextEngine = {
   getContextForSync: vi.fn().mockReturnValue('Deep context data'),
+  previewCapture: vi.fn(async (capture?: { appName: string }) => ({ capture: capture ?? { appName: 'Live' }, action: 'allow' })),
 };
 
 const mockNotchBridge = { running: false, sendAuthUpdate: vi.fn() };
+const mockTransport: Record<string, any> = {
+  getDeadLetters: vi.fn().mockReturnValue([]),
+  requeueDeadLetter: vi.fn().mockReturnValue(true),
+  purgeDeadLetters: vi.fn().mockReturnValue(0),
+  flushSoon: vi.fn(),
+};
+const mockDevicePairing: Record<string, any> = {
+  getState: vi.fn().mockReturnValue({ status: 'unpaired' }),
+  start: vi.fn(),
+  cancel: vi.fn(),
+  rotateKey: vi.fn(),
+  unpair: vi.fn(),
+  setEndpoint: vi.fn(),
+};
+const mockSnoozeService: Record<string, any> = {
+  getState: vi.fn(),
+  snooze: vi.fn(),
+  resume: vi.fn(),
+};
+const mockCommitmentService: Record<string, any> = {
+  list: vi.fn(),
+  complete: vi.fn(),
+  dismiss: vi.fn(),
+  snooze: vi.fn(),
+  reassign: vi.fn(),
+  getHistory: vi.fn(),
+};
+const mockProfileService: Record<string, any> = {
+  getConfig: vi.fn(),
+  create: vi.fn(),
+  delete: vi.fn(),
+  switchTo: vi.fn(),
+  updateRules: vi.fn(),
+};
 const mockSummaryService = { getTodayStats: vi.fn().mockReturnValue({ totalMinutes: 120 }) };
 const mockJournalService = { getWeeklySummary: vi.fn().mockReturnValue({ days: 7 }) };
 
@@ -90,6 +137,13 @@ vi.mock('../src/main/index', () => {
     getThreadManager: () => null,
     getIntentClassifier: () => null,
     getSignatureComputer: () => null,
+    getTransport: () => mockTransport,
+    getDevicePairing: () => mockDevicePairing,
+    getProfileService: () => mockProfileService,
+    applyUploadPolicySettings: vi.fn(),
+    applyPresentingSettings: vi.fn(),
+    getSnoozeService: () => mockSnoozeService,
+    getCommitmentService: () => mockCommitmentService,
   };
 });
 
@@ -119,6 +173,55 @@ vi.mock('../src/main/db/queries', () => ({
   getActivityDistribution: vi.fn().mockReturnValue([]),
 }));
 
+// Mock database encryption
+const mockDatabase = {
+  getEncryptionStatus: vi.fn(() => ({ mode: 'passphrase', locked: false })),
+  unlockWithPassphrase: vi.fn(async (passphrase: string) => passphrase === 'correct horse'),
+  changePassphrase: vi.fn(async (_passphrase: string | null) => undefined),
+};
+vi.mock('../src/main/db/database', () => ({
+  getEncryptionStatus: () => mockDatabase.getEncryptionStatus(),
+  unlockWithPassphrase: (passphrase: string) => mockDatabase.unlockWithPassphrase(passphrase),
+  changePassphrase: (passphrase: string | null) => mockDatabase.changePassphrase(passphrase),
+}));
+
+// Mock pseudonym vault
+const mockVault = {
+  pseudonymizeText: vi.fn((text: string) => text.replace('Sarah Chen', 'person_0a1b2c3d')),
+  resolvePseudonyms: vi.fn((text: string) => text.replace('person_0a1b2c3d', 'Sarah Chen')),
+};
+vi.mock('../src/main/services/pseudonymVault', () => ({
+  pseudonymizeText: (text: string) => mockVault.pseudonymizeText(text),
+  resolvePseudonyms: (text: string) => mockVault.resolvePseudonyms(text),
+}));
+
+// Mock outbound audit ledger
+const mockAudit = {
+  getOutboundAudit: vi.fn((_query: unknown) => [] as unknown[]),
+  getOutboundAuditSummary: vi.fn(() => ({ totalEntries: 0, totalBytes: 0, localOnlyEntries: 0, chainValid: true, firstBrokenId: null })),
+  exportOutboundAudit: vi.fn((format: string) => (format === 'csv' ? 'id,timestamp\n' : '{"entries":[]}')),
+};
+vi.mock('../src/main/services/outboundAudit', () => ({
+  getOutboundAudit: (query: unknown) => mockAudit.getOutboundAudit(query),
+  getOutboundAuditSummary: () => mockAudit.getOutboundAuditSummary(),
+  exportOutboundAudit: (format: string) => mockAudit.exportOutboundAudit(format),
+}));
+
+// Mock erasure service
+const mockErasure = {
+  eraseData: vi.fn(async (selector: unknown, options: { dryRun?: boolean }) => ({
+    selector,
+    dryRun: options.dryRun ?? false,
+    counts: { activity_logs: 2 },
+    rewrittenSummaries: 0,
+    transportQueue: 0,
+    cloud: null,
+  })),
+};
+vi.mock('../src/main/services/erasureService', () => ({
+  eraseData: (selector: unknown, options: { dryRun?: boolean }) => mockErasure.eraseData(selector, options),
+}));
+
 // Mock store
 let mockStore: Record<string, any> = {};
 vi.mock('../src/main/store', () => ({
@@ -192,6 +295,10 @@ describe('IPC Handlers', () => {
     mockDeepContextManager.dismissCommitment = vi.fn();
     mockDeepContextManager.completeCommitment = vi.fn();
     mockDeepContextManager.updateSettings = vi.fn();
+    mockTransport.getDeadLetters = vi.fn().mockReturnValue([]);
+    mockTransport.requeueDeadLetter = vi.fn().mockReturnValue(true);
+    mockTransport.purgeDeadLetters = vi.fn().mockReturnValue(0);
+    mockTransport.flushSoon = vi.fn();
 
     // Register all handlers
     setupIpcHandlers(store, null);
@@ -560,6 +667,388 @@ describe('IPC Handlers', () => {
   });
 });
 
+// ============================================================================
+// Transport Dead Letters
+// ============================================================================
+
+describe('Transport dead-letter handlers', () => {
+  beforeEach(() => {
+    handlersMap.clear();
+    onHandlersMap.clear();
+    mockTransport.getDeadLetters = vi.fn().mockReturnValue([]);
+    mockTransport.requeueDeadLetter = vi.fn().mockReturnValue(true);
+    mockTransport.purgeDeadLetters = vi.fn().mockReturnValue(2);
+    mockTransport.flushSoon = vi.fn();
+    setupIpcHandlers(store, null);
+  });
+
+  it('caps the dead-letter listing limit', () => {
+    invokeHandler(IPC_CHANNELS.TRANSPORT_GET_DEAD_LETTERS, 50000);
+    expect(mockTransport.getDeadLetters).toHaveBeenCalledWith(1000);
+
+    invokeHandler(IPC_CHANNELS.TRANSPORT_GET_DEAD_LETTERS, -1);
+    expect(mockTransport.getDeadLetters).toHaveBeenLastCalledWith(100);
+  });
+
+  it('requeues with an edited event and triggers a flush', () => {
+    const result = invokeHandler(IPC_CHANNELS.TRANSPORT_REQUEUE_DEAD_LETTER, 'dl-1', { type: 'fixed' });
+    expect(result.success).toBe(true);
+    expect(mockTransport.requeueDeadLetter).toHaveBeenCalledWith('dl-1', { type: 'fixed' });
+    expect(mockTransport.flushSoon).toHaveBeenCalled();
+  });
+
+  it('rejects invalid requeue arguments', () => {
+    expect(invokeHandler(IPC_CHANNELS.TRANSPORT_REQUEUE_DEAD_LETTER, '').success).toBe(false);
+    expect(invokeHandler(IPC_CHANNELS.TRANSPORT_REQUEUE_DEAD_LETTER, 'dl-1', 'not-an-object').success).toBe(false);
+    expect(invokeHandler(IPC_CHANNELS.TRANSPORT_REQUEUE_DEAD_LETTER, 'dl-1', [1, 2]).success).toBe(false);
+    expect(mockTransport.requeueDeadLetter).not.toHaveBeenCalled();
+  });
+
+  it('reports unknown dead letters', () => {
+    mockTransport.requeueDeadLetter = vi.fn().mockReturnValue(false);
+    const result = invokeHandler(IPC_CHANNELS.TRANSPORT_REQUEUE_DEAD_LETTER, 'missing');
+    expect(result).toEqual({ success: false, error: 'Dead letter not found' });
+    expect(mockTransport.flushSoon).not.toHaveBeenCalled();
+  });
+
+  it('purges dead letters and validates ids', () => {
+    expect(invokeHandler(IPC_CHANNELS.TRANSPORT_PURGE_DEAD_LETTERS, ['a', 'b'])).toEqual({ success: true, data: { purged: 2 } });
+    expect(invokeHandler(IPC_CHANNELS.TRANSPORT_PURGE_DEAD_LETTERS, [1]).success).toBe(false);
+  });
+});
+
+// ============================================================================
+// Device Pairing
+// ============================================================================
+
+describe('Device pairing handlers', () => {
+  beforeEach(() => {
+    handlersMap.clear();
+    onHandlersMap.clear();
+    mockDevicePairing.getState = vi.fn().mockReturnValue({ status: 'unpaired' });
+    mockDevicePairing.start = vi.fn().mockResolvedValue({ status: 'pending', code: 'K7QM-3XTA' });
+    mockDevicePairing.rotateKey = vi.fn().mockRejectedValue(new Error('Device is not paired'));
+    mockDevicePairing.setEndpoint = vi.fn();
+    setupIpcHandlers(store, null);
+  });
+
+  it('returns the pairing state', () => {
+    expect(invokeHandler(IPC_CHANNELS.PAIRING_GET_STATE)).toEqual({ success: true, data: { status: 'unpaired' } });
+  });
+
+  it('starts pairing and returns the code', async () => {
+    const result = await invokeHandler(IPC_CHANNELS.PAIRING_START);
+    expect(result).toEqual({ success: true, data: { status: 'pending', code: 'K7QM-3XTA' } });
+  });
+
+  it('reports key rotation failures', async () => {
+    const result = await invokeHandler(IPC_CHANNELS.PAIRING_ROTATE_KEY);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Device is not paired');
+  });
+
+  it('validates and applies the pairing endpoint setting', () => {
+    expect(invokeHandler(IPC_CHANNELS.SETTINGS_SET, { pairingEndpoint: 'file:///etc/passwd' }).success).toBe(false);
+    expect(mockDevicePairing.setEndpoint).not.toHaveBeenCalled();
+
+    expect(invokeHandler(IPC_CHANNELS.SETTINGS_SET, { pairingEndpoint: 'http://127.0.0.1:8787' }).success).toBe(true);
+    expect(mockDevicePairing.setEndpoint).toHaveBeenCalledWith('http://127.0.0.1:8787');
+  });
+});
+
+// ============================================================================
+// Local Profiles
+// ============================================================================
+
+describe('Profile handlers', () => {
+  beforeEach(() => {
+    handlersMap.clear();
+    onHandlersMap.clear();
+    mockProfileService.getConfig = vi.fn().mockReturnValue({ profiles: [], activeProfileId: 'default', rules: [], autoSwitch: true });
+    mockProfileService.create = vi.fn().mockReturnValue({ id: 'ab12cd34', name: 'Work', createdAt: 1 });
+    mockProfileService.switchTo = vi.fn().mockResolvedValue({ id: 'ab12cd34', name: 'Work', createdAt: 1 });
+    mockProfileService.updateRules = vi.fn(() => {
+      throw new Error('Unknown profile: missing');
+    });
+    setupIpcHandlers(store, null);
+  });
+
+  it('validates the profile name before creating', () => {
+    expect(invokeHandler(IPC_CHANNELS.PROFILES_CREATE, '   ').success).toBe(false);
+    expect(invokeHandler(IPC_CHANNELS.PROFILES_CREATE, 42).success).toBe(false);
+    expect(mockProfileService.create).not.toHaveBeenCalled();
+
+    expect(invokeHandler(IPC_CHANNELS.PROFILES_CREATE, 'Work')).toEqual({
+      success: true,
+      data: { id: 'ab12cd34', name: 'Work', createdAt: 1 },
+    });
+  });
+
+  it('switches profiles manually', async () => {
+    const result = await invokeHandler(IPC_CHANNELS.PROFILES_SWITCH, 'ab12cd34');
+    expect(result.success).toBe(true);
+    expect(mockProfileService.switchTo).toHaveBeenCalledWith('ab12cd34', 'manual');
+  });
+
+  it('rejects malformed rule updates and reports invalid rules', () => {
+    expect(invokeHandler(IPC_CHANNELS.PROFILES_UPDATE_RULES, { rules: 'all' }).success).toBe(false);
+    expect(invokeHandler(IPC_CHANNELS.PROFILES_UPDATE_RULES, { autoSwitch: 'yes' }).success).toBe(false);
+
+    const result = invokeHandler(IPC_CHANNELS.PROFILES_UPDATE_RULES, { rules: [{ profileId: 'missing' }] });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Unknown profile');
+  });
+});
+
+describe('Commitment handlers', () => {
+  beforeEach(() => {
+    handlersMap.clear();
+    onHandlersMap.clear();
+    mockCommitmentService.list = vi.fn().mockReturnValue([]);
+    mockCommitmentService.complete = vi.fn((id: number) => ({ id, status: 'completed' }));
+    mockCommitmentService.snooze = vi.fn((id: number, until: number) => ({ id, status: 'snoozed', snoozedUntil: until }));
+    mockCommitmentService.reassign = vi.fn((id: number, assignee: string | null) => ({ id, assignee: assignee ?? undefined }));
+    mockCommitmentService.getHistory = vi.fn().mockReturnValue([]);
+    setupIpcHandlers(store, null);
+  });
+
+  it('reads and changes commitments through the commitment service', () => {
+    expect(invokeHandler(IPC_CHANNELS.DEEP_CONTEXT_GET_COMMITMENTS, 'overdue')).toEqual({ success: true, data: [] });
+    expect(mockCommitmentService.list).toHaveBeenCalledWith({ statuses: ['overdue'], limit: 20 });
+
+    expect(invokeHandler(IPC_CHANNELS.DEEP_CONTEXT_COMPLETE_COMMITMENT, 3).data).toEqual({ id: 3, status: 'completed' });
+    expect(invokeHandler(IPC_CHANNELS.DEEP_CONTEXT_SNOOZE_COMMITMENT, 3, 5000).data).toMatchObject({ status: 'snoozed', snoozedUntil: 5000 });
+    expect(invokeHandler(IPC_CHANNELS.DEEP_CONTEXT_REASSIGN_COMMITMENT, 3, 'Tom').data).toEqual({ id: 3, assignee: 'Tom' });
+    expect(invokeHandler(IPC_CHANNELS.DEEP_CONTEXT_GET_COMMITMENT_HISTORY, 3)).toEqual({ success: true, data: [] });
+  });
+
+  it('validates snooze and reassignment arguments', () => {
+    expect(invokeHandler(IPC_CHANNELS.DEEP_CONTEXT_SNOOZE_COMMITMENT, 0, 5000).success).toBe(false);
+    expect(invokeHandler(IPC_CHANNELS.DEEP_CONTEXT_SNOOZE_COMMITMENT, 3, '5000').success).toBe(false);
+    expect(invokeHandler(IPC_CHANNELS.DEEP_CONTEXT_REASSIGN_COMMITMENT, 3, { name: 'Tom' }).success).toBe(false);
+    expect(invokeHandler(IPC_CHANNELS.DEEP_CONTEXT_GET_COMMITMENT_HISTORY, 1.5).success).toBe(false);
+    expect(mockCommitmentService.snooze).not.toHaveBeenCalled();
+    expect(mockCommitmentService.reassign).not.toHaveBeenCalled();
+  });
+
+  it('reports service errors', () => {
+    mockCommitmentService.complete = vi.fn(() => {
+      throw new Error("Commitment 3 can't go from dismissed to completed");
+    });
+    const result = invokeHandler(IPC_CHANNELS.DEEP_CONTEXT_COMPLETE_COMMITMENT, 3);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('dismissed to completed');
+  });
+});
+
+describe('Snooze handlers', () => {
+  beforeEach(() => {
+    handlersMap.clear();
+    onHandlersMap.clear();
+    mockSnoozeService.getState = vi.fn().mockReturnValue(null);
+    mockSnoozeService.snooze = vi.fn(async (request: any) => ({ kind: request.kind, startedAt: 1, until: 900001 }));
+    mockSnoozeService.resume = vi.fn();
+    setupIpcHandlers(store, null);
+  });
+
+  it('validates the snooze request before snoozing', async () => {
+    expect((await invokeHandler(IPC_CHANNELS.SNOOZE_START, null)).success).toBe(false);
+    expect((await invokeHandler(IPC_CHANNELS.SNOOZE_START, { kind: 'forever' })).success).toBe(false);
+    expect((await invokeHandler(IPC_CHANNELS.SNOOZE_START, { kind: 'duration', minutes: '15' })).success).toBe(false);
+    expect((await invokeHandler(IPC_CHANNELS.SNOOZE_START, { kind: 'until_app_blur', app: 7 })).success).toBe(false);
+    expect(mockSnoozeService.snooze).not.toHaveBeenCalled();
+
+    const result = await invokeHandler(IPC_CHANNELS.SNOOZE_START, { kind: 'duration', minutes: 15 });
+    expect(result).toEqual({ success: true, data: { kind: 'duration', startedAt: 1, until: 900001 } });
+  });
+
+  it('reports service errors and resumes', async () => {
+    mockSnoozeService.snooze = vi.fn().mockRejectedValue(new Error('No focused app to snooze on'));
+    const result = await invokeHandler(IPC_CHANNELS.SNOOZE_START, { kind: 'until_app_blur' });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No focused app');
+
+    expect(invokeHandler(IPC_CHANNELS.SNOOZE_GET)).toEqual({ success: true, data: null });
+    expect(invokeHandler(IPC_CHANNELS.SNOOZE_RESUME)).toEqual({ success: true });
+    expect(mockSnoozeService.resume).toHaveBeenCalled();
+  });
+});
+
+describe('Database encryption handlers', () => {
+  beforeEach(() => {
+    handlersMap.clear();
+    onHandlersMap.clear();
+    vi.clearAllMocks();
+    setupIpcHandlers(store, null);
+  });
+
+  it('returns the encryption status', () => {
+    expect(invokeHandler(IPC_CHANNELS.DATABASE_ENCRYPTION_STATUS)).toEqual({
+      success: true,
+      data: { mode: 'passphrase', locked: false },
+    });
+  });
+
+  it('unlocks with the right passphrase only', async () => {
+    expect((await invokeHandler(IPC_CHANNELS.DATABASE_UNLOCK, '')).success).toBe(false);
+    expect(mockDatabase.unlockWithPassphrase).not.toHaveBeenCalled();
+
+    const wrong = await invokeHandler(IPC_CHANNELS.DATABASE_UNLOCK, 'wrong');
+    expect(wrong).toEqual({ success: false, error: 'Wrong passphrase' });
+    expect((await invokeHandler(IPC_CHANNELS.DATABASE_UNLOCK, 'correct horse')).success).toBe(true);
+  });
+
+  it('validates the new passphrase before re-keying', async () => {
+    expect((await invokeHandler(IPC_CHANNELS.DATABASE_SET_PASSPHRASE, 'short')).success).toBe(false);
+    expect((await invokeHandler(IPC_CHANNELS.DATABASE_SET_PASSPHRASE, 42)).success).toBe(false);
+    expect(mockDatabase.changePassphrase).not.toHaveBeenCalled();
+
+    expect((await invokeHandler(IPC_CHANNELS.DATABASE_SET_PASSPHRASE, 'long enough')).success).toBe(true);
+    expect((await invokeHandler(IPC_CHANNELS.DATABASE_SET_PASSPHRASE, null)).success).toBe(true);
+    expect(mockDatabase.changePassphrase).toHaveBeenCalledWith(null);
+  });
+});
+
+describe('Pseudonym vault handlers', () => {
+  beforeEach(() => {
+    handlersMap.clear();
+    onHandlersMap.clear();
+    vi.clearAllMocks();
+    setupIpcHandlers(store, null);
+  });
+
+  it('pseudonymizes and resolves text', () => {
+    expect(invokeHandler(IPC_CHANNELS.PSEUDONYMS_PSEUDONYMIZE, 'Ask Sarah Chen')).toEqual({
+      success: true,
+      data: 'Ask person_0a1b2c3d',
+    });
+    expect(invokeHandler(IPC_CHANNELS.PSEUDONYMS_RESOLVE, 'Ask person_0a1b2c3d')).toEqual({
+      success: true,
+      data: 'Ask Sarah Chen',
+    });
+  });
+
+  it('rejects non-string input', () => {
+    expect(invokeHandler(IPC_CHANNELS.PSEUDONYMS_PSEUDONYMIZE, 42).success).toBe(false);
+    expect(invokeHandler(IPC_CHANNELS.PSEUDONYMS_RESOLVE, null).success).toBe(false);
+    expect(mockVault.pseudonymizeText).not.toHaveBeenCalled();
+  });
+
+  it('reports vault errors instead of sending names', () => {
+    mockVault.pseudonymizeText.mockImplementationOnce(() => {
+      throw new Error('Pseudonym vault could not be read; unlock the database first');
+    });
+    const result = invokeHandler(IPC_CHANNELS.PSEUDONYMS_PSEUDONYMIZE, 'Ask Sarah Chen');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('unlock');
+  });
+});
+
+describe('Privacy debugger handlers', () => {
+  beforeEach(() => {
+    handlersMap.clear();
+    onHandlersMap.clear();
+    vi.clearAllMocks();
+    setupIpcHandlers(store, null);
+  });
+
+  it('previews a given capture or the focused window', async () => {
+    const capture = { appName: 'Slack', windowTitle: 'general', visibleText: 'hi' };
+    expect((await invokeHandler(IPC_CHANNELS.PRIVACY_PREVIEW_CAPTURE, capture)).data).toMatchObject({ capture });
+    expect((await invokeHandler(IPC_CHANNELS.PRIVACY_PREVIEW_CAPTURE)).data).toMatchObject({ capture: { appName: 'Live' } });
+    expect(mockDeepContextEngine.previewCapture).toHaveBeenLastCalledWith(undefined);
+  });
+
+  it('rejects malformed captures', async () => {
+    expect((await invokeHandler(IPC_CHANNELS.PRIVACY_PREVIEW_CAPTURE, 'Slack')).success).toBe(false);
+    expect((await invokeHandler(IPC_CHANNELS.PRIVACY_PREVIEW_CAPTURE, { appName: '', windowTitle: '' })).success).toBe(false);
+    expect((await invokeHandler(IPC_CHANNELS.PRIVACY_PREVIEW_CAPTURE, { appName: 'Slack', windowTitle: '', url: 1 })).success).toBe(false);
+    expect((await invokeHandler(IPC_CHANNELS.PRIVACY_PREVIEW_CAPTURE, {
+      appName: 'Slack',
+      windowTitle: '',
+      visibleText: 'x'.repeat(100001),
+    })).success).toBe(false);
+    expect(mockDeepContextEngine.previewCapture).not.toHaveBeenCalled();
+  });
+});
+
+describe('Erasure handlers', () => {
+  beforeEach(() => {
+    handlersMap.clear();
+    onHandlersMap.clear();
+    vi.clearAllMocks();
+    setupIpcHandlers(store, null);
+  });
+
+  it('previews and erases with the transport and cloud sync attached', async () => {
+    const selector = { kind: 'app', appName: 'Slack' };
+    const preview = await invokeHandler(IPC_CHANNELS.ERASURE_PREVIEW, selector);
+    expect(preview).toMatchObject({ success: true, data: { dryRun: true, counts: { activity_logs: 2 } } });
+
+    await invokeHandler(IPC_CHANNELS.ERASURE_RUN, selector);
+    expect(mockErasure.eraseData).toHaveBeenLastCalledWith(selector, expect.objectContaining({
+      dryRun: false,
+      transport: mockTransport,
+    }));
+  });
+
+  it('rejects malformed selectors', async () => {
+    expect((await invokeHandler(IPC_CHANNELS.ERASURE_RUN, null)).success).toBe(false);
+    expect((await invokeHandler(IPC_CHANNELS.ERASURE_RUN, { kind: 'everything' })).success).toBe(false);
+    expect((await invokeHandler(IPC_CHANNELS.ERASURE_RUN, { kind: 'entity', name: '  ' })).success).toBe(false);
+    expect((await invokeHandler(IPC_CHANNELS.ERASURE_RUN, { kind: 'time_range', start: 5, end: 5 })).success).toBe(false);
+    expect(mockErasure.eraseData).not.toHaveBeenCalled();
+  });
+});
+
+describe('Outbound audit handlers', () => {
+  beforeEach(() => {
+    handlersMap.clear();
+    onHandlersMap.clear();
+    vi.clearAllMocks();
+    setupIpcHandlers(store, null);
+  });
+
+  it('validates entry queries', () => {
+    expect(invokeHandler(IPC_CHANNELS.AUDIT_GET_ENTRIES).success).toBe(true);
+    expect(invokeHandler(IPC_CHANNELS.AUDIT_GET_ENTRIES, { limit: 20, privacyLevel: 'local_only' }).success).toBe(true);
+    expect(mockAudit.getOutboundAudit).toHaveBeenLastCalledWith({ limit: 20, beforeId: undefined, privacyLevel: 'local_only' });
+
+    expect(invokeHandler(IPC_CHANNELS.AUDIT_GET_ENTRIES, { limit: 5000 }).success).toBe(false);
+    expect(invokeHandler(IPC_CHANNELS.AUDIT_GET_ENTRIES, { beforeId: '3' }).success).toBe(false);
+    expect(invokeHandler(IPC_CHANNELS.AUDIT_GET_ENTRIES, { privacyLevel: 1 }).success).toBe(false);
+    expect(invokeHandler(IPC_CHANNELS.AUDIT_GET_ENTRIES, 'all').success).toBe(false);
+    expect(mockAudit.getOutboundAudit).toHaveBeenCalledTimes(2);
+  });
+
+  it('returns the summary', () => {
+    expect(invokeHandler(IPC_CHANNELS.AUDIT_GET_SUMMARY).data).toMatchObject({ totalEntries: 0, chainValid: true });
+  });
+
+  it('exports to the chosen file', async () => {
+    const filePath = path.join(os.tmpdir(), `sync-audit-test-${process.pid}.csv`);
+    mockDialog.showSaveDialog.mockResolvedValueOnce({ canceled: false, filePath });
+
+    const result = await invokeHandler(IPC_CHANNELS.AUDIT_EXPORT, 'csv');
+    expect(result).toEqual({ success: true, data: filePath });
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('id,timestamp\n');
+    fs.unlinkSync(filePath);
+
+    const [options] = mockDialog.showSaveDialog.mock.calls[0] as any[];
+    expect(options.defaultPath).toMatch(/sync-outbound-audit-\d{4}-\d{2}-\d{2}\.csv$/);
+  });
+
+  it('does nothing when the save dialog is cancelled', async () => {
+    expect(await invokeHandler(IPC_CHANNELS.AUDIT_EXPORT, 'json')).toEqual({ success: true, data: null });
+    expect(mockAudit.exportOutboundAudit).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown formats', async () => {
+    expect((await invokeHandler(IPC_CHANNELS.AUDIT_EXPORT, 'xml')).success).toBe(false);
+    expect(mockDialog.showSaveDialog).not.toHaveBeenCalled();
+  });
+});
+
 // ============================================================================
 // Preload Tests
 // ============================================================================
@@ -680,12 +1169,42 @@ describe('Handler Registration', () => {
       IPC_CHANNELS.DEEP_CONTEXT_GET_PENDING_FOLLOWUPS,
       IPC_CHANNELS.DEEP_CONTEXT_DISMISS_COMMITMENT,
       IPC_CHANNELS.DEEP_CONTEXT_COMPLETE_COMMITMENT,
+      IPC_CHANNELS.DEEP_CONTEXT_SNOOZE_COMMITMENT,
+      IPC_CHANNELS.DEEP_CONTEXT_REASSIGN_COMMITMENT,
+      IPC_CHANNELS.DEEP_CONTEXT_GET_COMMITMENT_HISTORY,
       IPC_CHANNELS.DEEP_CONTEXT_GET_ENRICHED_CONTEXT,
       IPC_CHANNELS.SEMANTIC_GET_WORK_CONTEXT,
       IPC_CHANNELS.SEMANTIC_GET_ENTITIES,
       IPC_CHANNELS.SEMANTIC_GET_THREADS,
       IPC_CHANNELS.SEMANTIC_GET_SIGNATURES,
       IPC_CHANNELS.SEMANTIC_GET_ACTIVITY_DISTRIBUTION,
+      IPC_CHANNELS.TRANSPORT_GET_DEAD_LETTERS,
+      IPC_CHANNELS.TRANSPORT_REQUEUE_DEAD_LETTER,
+      IPC_CHANNELS.TRANSPORT_PURGE_DEAD_LETTERS,
+      IPC_CHANNELS.PAIRING_GET_STATE,
+      IPC_CHANNELS.PAIRING_START,
+      IPC_CHANNELS.PAIRING_CANCEL,
+      IPC_CHANNELS.PAIRING_ROTATE_KEY,
+      IPC_CHANNELS.PAIRING_UNPAIR,
+      IPC_CHANNELS.PROFILES_GET,
+      IPC_CHANNELS.PROFILES_CREATE,
+      IPC_CHANNELS.PROFILES_DELETE,
+      IPC_CHANNELS.PROFILES_SWITCH,
+      IPC_CHANNELS.PROFILES_UPDATE_RULES,
+      IPC_CHANNELS.SNOOZE_GET,
+      IPC_CHANNELS.SNOOZE_START,
+      IPC_CHANNELS.SNOOZE_RESUME,
+      IPC_CHANNELS.DATABASE_ENCRYPTION_STATUS,
+      IPC_CHANNELS.DATABASE_UNLOCK,
+      IPC_CHANNELS.DATABASE_SET_PASSPHRASE,
+      IPC_CHANNELS.PSEUDONYMS_PSEUDONYMIZE,
+      IPC_CHANNELS.PSEUDONYMS_RESOLVE,
+      IPC_CHANNELS.AUDIT_GET_ENTRIES,
+      IPC_CHANNELS.AUDIT_GET_SUMMARY,
+      IPC_CHANNELS.AUDIT_EXPORT,
+      IPC_CHANNELS.PRIVACY_PREVIEW_CAPTURE,
+      IPC_CHANNELS.ERASURE_PREVIEW,
+      IPC_CHANNELS.ERASURE_RUN,
     ];
 
     for (const channel of expectedHandleChannels) {
@@ -208,7 +208,7 @@ describe('PrivacyFilter', () => {
 
     it('handles mixed PII in one string', () => {
       const filter = makeFilter();
-      const text = 'Send to user@email.com, card 4532-1234-5678-9012, SSN 123-45-6789';
+      const text = 'Send to user@email.com, card 4532-0151-1283-0366, SSN 123-45-6789';
       const sanitized = filter.stripPII(text);
       expect(sanitized).toContain('[email]');
       expect(sanitized).toContain('[card]');
@@ -811,45 +811,25 @@ describe('AutoUpdater — state machine and logic', () => {
 
 describe('DeepContextManager — extractable logic', () => {
   describe('parseDeadline', () => {
-    // Replicate the parseDeadline logic from deepContextManager.ts
-    function parseDeadline(deadlineStr: string): number | undefined {
-      const lowerStr = deadlineStr.toLowerCase();
-
-      if (lowerStr.includes('tomorrow')) {
-        const tomorrow = new Date();
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        tomorrow.setHours(9, 0, 0, 0);
-        return tomorrow.getTime();
-      }
-
-      if (lowerStr.includes('today')) {
-        const today = new Date();
-        today.setHours(17, 0, 0, 0);
-        return today.getTime();
-      }
-
-      if (lowerStr.includes('next week')) {
-        const nextWeek = new Date();
-        nextWeek.setDate(nextWeek.getDate() + 7);
-        return nextWeek.getTime();
-      }
+    // DeepContextManager resolves analyzer deadlines with the shared parser
+    let DeadlineParser: typeof import('../src/deep-context/pipeline/deadlineParser').DeadlineParser;
 
-      const parsed = Date.parse(deadlineStr);
-      if (!isNaN(parsed)) {
-        return parsed;
-      }
+    beforeAll(async () => {
+      ({ DeadlineParser } = await import('../src/deep-context/pipeline/deadlineParser'));
+    });
 
-      return undefined;
+    function parseDeadline(deadlineStr: string): number | undefined {
+      return new DeadlineParser().parse(deadlineStr)?.dueAt;
     }
 
-    it('parses "tomorrow" to 9 AM next day', () => {
+    it('parses "tomorrow" to the end of the next workday', () => {
       const result = parseDeadline('tomorrow');
       expect(result).toBeDefined();
       const date = new Date(result!);
       const tomorrow = new Date();
       tomorrow.setDate(tomorrow.getDate() + 1);
       expect(date.getDate()).toBe(tomorrow.getDate());
-      expect(date.getHours()).toBe(9);
+      expect(date.getHours()).toBe(17);
       expect(date.getMinutes()).toBe(0);
     });
 
@@ -861,19 +841,20 @@ describe('DeepContextManager — extractable logic', () => {
       expect(date.getHours()).toBe(17);
     });
 
-    it('parses "next week" to 7 days from now', () => {
+    it('parses "next week" to the last workday of next week', () => {
       const result = parseDeadline('next week');
       expect(result).toBeDefined();
-      const date = new Date(result!);
-      const expected = new Date();
-      expected.setDate(expected.getDate() + 7);
-      expect(date.getDate()).toBe(expected.getDate());
+      const days = (result! - Date.now()) / (24 * 60 * 60 * 1000);
+      expect(days).toBeGreaterThan(4);
+      expect(days).toBeLessThan(14);
+      expect(new Date(result!).getDay()).toBe(5);
     });
 
     it('parses ISO date strings', () => {
       const result = parseDeadline('2026-03-25');
       expect(result).toBeDefined();
-      expect(typeof result).toBe('number');
+      expect(new Date(result!).getMonth()).toBe(2);
+      expect(new Date(result!).getDate()).toBe(25);
     });
 
     it('returns undefined for unparseable strings', () => {
@@ -885,12 +866,13 @@ describe('DeepContextManager — extractable logic', () => {
       const result = parseDeadline('TOMORROW');
       expect(result).toBeDefined();
       const date = new Date(result!);
-      expect(date.getHours()).toBe(9);
+      expect(date.getHours()).toBe(17);
     });
 
     it('handles "by tomorrow" phrases', () => {
       const result = parseDeadline('by tomorrow evening');
       expect(result).toBeDefined();
+      expect(new Date(result!).getHours()).toBe(21);
     });
   });
 
@@ -367,6 +367,31 @@ describe('EntityRegistry', () => {
       const orgs = extracted.filter((e: Entity) => e.type === 'organization');
       expect(orgs.some((o: Entity) => o.name === 'isyncso')).toBe(true);
     });
+
+    it('extracts repository, branch and ticket from git activity', () => {
+      const event = createEvent({
+        eventType: 'task_completed',
+        source: { application: 'Git', windowTitle: 'sync-app', filePath: '/Users/dev/code/sync-app' },
+        semanticPayload: {
+          summary: 'Committed in sync-app on feat/ABC-12-login: 1 file, +3 -0',
+          entities: ['sync-app', 'feat/ABC-12-login', 'ABC-12'],
+        },
+      });
+      const extracted = registry.extractAndResolve(event);
+      expect(extracted.map((e: Entity) => [e.type, e.name])).toEqual(expect.arrayContaining([
+        ['project', 'sync-app'],
+        ['topic', 'feat/ABC-12-login'],
+        ['topic', 'ABC-12'],
+      ]));
+
+      const onMain = registry.extractAndResolve(createEvent({
+        source: { application: 'Git', windowTitle: 'sync-app', filePath: '/Users/dev/code/sync-app' },
+        semanticPayload: { summary: 'Committed in sync-app on master', entities: ['sync-app', 'master'] },
+      }));
+      expect(onMain.some((e: Entity) => e.name === 'master')).toBe(false);
+      expect(onMain.find((e: Entity) => e.name === 'sync-app')?.entityId)
+        .toBe(extracted.find((e: Entity) => e.name === 'sync-app')?.entityId);
+    });
   });
 
   describe('Entity deduplication', () => {
@@ -543,6 +568,20 @@ describe('SemanticProcessor / ActivityRuleEngine', () => {
       expect(result.activitySubtype).toBe('debugging');
     });
 
+    it('classifies shell commands by their command category', () => {
+      const deploy = createEvent({
+        source: { application: 'Shell', windowTitle: 'vercel --prod', filePath: '/Users/dev/code/site' },
+        semanticPayload: { summary: 'Ran vercel --prod (in site, exit 0, 41s)', entities: ['vercel'], intent: 'deploy' },
+      });
+      const test = createEvent({
+        source: { application: 'Shell', windowTitle: 'npm test' },
+        semanticPayload: { summary: 'Ran npm test', entities: ['npm'], intent: 'test' },
+      });
+
+      expect(ruleEngine.classify(deploy)).toMatchObject({ activityType: 'OPERATING', activitySubtype: 'deploying', confidence: 0.9 });
+      expect(ruleEngine.classify(test)).toMatchObject({ activityType: 'OPERATING', activitySubtype: 'testing_infra' });
+    });
+
     it('classifies Chrome with StackOverflow as INVESTIGATING/searching', () => {
       const event = createEvent({
         source: {
@@ -2,7 +2,8 @@
  * Main Process Services Tests
  *
  * Covers: ActivityTracker, ContextManager, SummaryService, JournalService,
- * CloudSyncService, AuthUtils, Scheduler, Store
+ * CloudSyncService, AuthUtils, Scheduler, Store, Profiles, SnoozeService,
+ * PresentationDetector
  */
 
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
@@ -27,9 +28,15 @@ vi.mock('electron-store', () => {
   if (!(globalThis as any).__mockStoreData) {
     (globalThis as any).__mockStoreData = {};
   }
-  const data = (globalThis as any).__mockStoreData as Record<string, any>;
+  // Named stores (per-profile files) get their own data objects
+  const named: Record<string, Record<string, any>> = ((globalThis as any).__mockNamedStores ??= {});
   class MockStore {
+    private data: Record<string, any>;
     constructor(opts?: any) {
+      const data = opts?.name
+        ? (named[opts.name] ??= {})
+        : ((globalThis as any).__mockStoreData as Record<string, any>);
+      this.data = data;
       if (opts?.defaults) {
         for (const [key, value] of Object.entries(opts.defaults)) {
           if (!(key in data)) {
@@ -39,21 +46,21 @@ vi.mock('electron-store', () => {
       }
     }
     get(key: string) {
-      return data[key];
+      return this.data[key];
     }
     set(key: string, value: any) {
-      data[key] = value;
+      this.data[key] = value;
     }
     delete(key: string) {
-      delete data[key];
+      delete this.data[key];
     }
     clear() {
-      for (const k of Object.keys(data)) {
-        delete data[k];
+      for (const k of Object.keys(this.data)) {
+        delete this.data[k];
       }
     }
     get store() {
-      return data;
+      return this.data;
     }
   }
   return { default: MockStore };
@@ -111,6 +118,9 @@ vi.mock('../src/main/db/queries', () => ({
     const s = mockHourlySummaries.find((s) => s.id === id);
     if (s) s.synced = true;
   }),
+  getTrackingPausesByRange: vi.fn(() => []),
+  insertTrackingPause: vi.fn(() => 1),
+  endTrackingPause: vi.fn(),
   insertDailyJournal: vi.fn((journal: any) => {
     const id = mockInsertId++;
     mockDailyJournals.push({ ...journal, id });
@@ -138,6 +148,17 @@ vi.mock('../src/main/db/queries', () => ({
   markIntentsSynced: vi.fn(),
   getUnsyncedSignatures: vi.fn(() => []),
   markSignaturesSynced: vi.fn(),
+  quarantineSyncRow: vi.fn((table: string, rowId: number, error: string) => {
+    const rows = table === 'hourly_summaries' ? mockHourlySummaries : table === 'daily_journals' ? mockDailyJournals : [];
+    const row = rows.find((r) => r.id === rowId);
+    if (!row || row.syncError === error) return false;
+    row.syncError = error;
+    return true;
+  }),
+  getSyncQuarantineCounts: vi.fn(() => {
+    const count = mockHourlySummaries.filter((s) => !s.synced && s.syncError).length;
+    return count > 0 ? { hourly_summaries: count } : {};
+  }),
 }));
 
 // Mock deepContextManager
@@ -155,9 +176,13 @@ vi.mock('../src/main/db/database', () => ({
   getDatabase: vi.fn(() => ({
     prepare: vi.fn(() => ({
       all: vi.fn(() => []),
+      get: vi.fn(),
       run: vi.fn(),
     })),
+    transaction: (fn: () => void) => fn,
   })),
+  switchDatabase: vi.fn(async () => {}),
+  deleteDatabaseFiles: vi.fn(),
 }));
 
 // Global fetch mock
@@ -173,6 +198,7 @@ import { ContextManager } from '../src/main/services/contextManager';
 import { SummaryService } from '../src/main/services/summaryService';
 import { JournalService } from '../src/main/services/journalService';
 import { CloudSyncService } from '../src/main/services/cloudSyncService';
+import { UploadPolicy } from '../src/transport/uploadPolicy';
 import { Scheduler } from '../src/main/services/scheduler';
 import {
   getActivityByDateRange,
@@ -180,6 +206,10 @@ import {
   getHourlySummaryByRange,
   getUnsyncedHourlySummaries,
   getUnsyncedDailyJournals,
+  getTrackingPausesByRange,
+  insertTrackingPause,
+  endTrackingPause,
+  getUnsyncedEntities,
 } from '../src/main/db/queries';
 
 // ============================================================================
@@ -772,6 +802,19 @@ describe('SummaryService', () => {
       const result = summaryService.generateHourlySummary(new Date());
       expect(result).toBeNull();
     });
+
+    it('records a snoozed hour as a paused interval instead of a gap', () => {
+      const hourStart = new Date(2026, 0, 5, 10);
+      const paused = [{ start: hourStart.getTime(), end: hourStart.getTime() + 45 * 60000, kind: 'duration' as const }];
+      (getActivityByDateRange as any).mockReturnValueOnce([]);
+      vi.mocked(getTrackingPausesByRange).mockReturnValueOnce(paused);
+
+      const result = summaryService.generateHourlySummary(hourStart);
+      expect(result).not.toBeNull();
+      expect(result!.totalMinutes).toBe(0);
+      expect(result!.pausedIntervals).toEqual(paused);
+      expect(result!.pausedMinutes).toBe(45);
+    });
   });
 });
 
@@ -1106,6 +1149,144 @@ describe('CloudSyncService', () => {
       const result = await syncService.sync();
       expect(result.syncedItems.summaries).toBe(1);
     });
+
+    it('quarantines rows that do not match their event schema', async () => {
+      mockStoreData.auth = { accessToken: 'token123' };
+      mockStoreData.user = {
+        id: 'user-1',
+        email: 'test@test.com',
+        companyId: 'company-1',
+      };
+
+      mockHourlySummaries.push(
+        makeHourlySummary({ synced: false, id: 43, focusScore: NaN })
+      );
+
+      const result = await syncService.sync();
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Summary 43: malformed hourly_summary (focus_score must be a finite number)');
+      expect(result.syncedItems.summaries).toBe(0);
+      expect(mockFetch).not.toHaveBeenCalled();
+      // Left unsynced and shown in the status instead
+      expect(mockHourlySummaries.find((s) => s.id === 43)?.synced).toBe(false);
+      expect(syncService.getStatus().quarantinedItems).toEqual({ hourly_summaries: 1 });
+
+      // Re-checked on the next sync without failing it again
+      const again = await syncService.sync();
+      expect(again.success).toBe(true);
+      expect(again.syncedItems.summaries).toBe(0);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('replaces email addresses with vault tokens before upload', async () => {
+      mockStoreData.auth = { accessToken: 'token123' };
+      mockStoreData.user = {
+        id: 'user-1',
+        email: 'test@test.com',
+        companyId: 'company-1',
+      };
+      mockHourlySummaries.push(
+        makeHourlySummary({ synced: false, id: 44, ocrText: 'Reply to jan@acme.nl about the offer' })
+      );
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Map([['content-length', '2']]),
+        text: () => Promise.resolve('[]'),
+      });
+
+      await syncService.sync();
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.ocr_text).toMatch(/^Reply to email_[0-9a-f]{8} about the offer$/);
+    });
+  });
+
+  describe('semantic entities', () => {
+    it('uploads person names as tokens however short they are', async () => {
+      mockStoreData.auth = { accessToken: 'token123' };
+      mockStoreData.user = { id: 'user-1', email: 'test@test.com', companyId: 'company-1' };
+      const now = Date.now();
+      vi.mocked(getUnsyncedEntities).mockReturnValueOnce([{
+        entityId: 'ent-al', name: 'Al', type: 'person', confidence: 0.9,
+        firstSeen: now, lastSeen: now, occurrenceCount: 1, metadata: {},
+        privacyLevel: 'sync_allowed', synced: false, createdAt: now, updatedAt: now,
+      }]);
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Map([['content-length', '2']]),
+        text: () => Promise.resolve('[]'),
+      });
+
+      await syncService.sync();
+      const call = mockFetch.mock.calls.find(([url]) => String(url).includes('/semantic_entities'));
+      const [row] = JSON.parse(call![1].body);
+      expect(row.name).toMatch(/^person_[0-9a-f]{8}$/);
+    });
+  });
+
+  describe('upload policy', () => {
+    beforeEach(() => {
+      mockStoreData.auth = { accessToken: 'token123' };
+      mockStoreData.user = {
+        id: 'user-1',
+        email: 'test@test.com',
+        companyId: 'company-1',
+      };
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Map([['content-length', '2']]),
+        text: () => Promise.resolve('[]'),
+      });
+    });
+
+    it('defers sync while the policy is coalescing', async () => {
+      const policy = new UploadPolicy({ coalesceMs: 60_000 });
+      syncService = new CloudSyncService(summaryService, journalService, undefined, policy);
+
+      const first = await syncService.sync();
+      expect(first.deferred).toBeUndefined();
+
+      const second = await syncService.sync();
+      expect(second.success).toBe(false);
+      expect(second.deferred?.reason).toBe('coalescing');
+      expect(second.error).toContain('Upload deferred');
+      expect(syncService.getStatus().uploadDecision?.reason).toBe('coalescing');
+    });
+
+    it('stops the sync once the hourly byte budget is spent', async () => {
+      const policy = new UploadPolicy({ maxBytesPerHour: 100 });
+      syncService = new CloudSyncService(summaryService, journalService, undefined, policy);
+      mockHourlySummaries.push(
+        makeHourlySummary({ synced: false, id: 1, hourStart: 1000 }),
+        makeHourlySummary({ synced: false, id: 2, hourStart: 2000 }),
+        makeHourlySummary({ synced: false, id: 3, hourStart: 3000 })
+      );
+
+      const result = await syncService.sync();
+
+      // The first request fits the empty window; the second would go over it
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.syncedItems.summaries).toBe(1);
+      expect(result.success).toBe(false);
+      expect(result.deferred?.reason).toBe('byte_cap');
+      expect(result.error).toBe(`Upload deferred: ${result.deferred?.detail}`);
+      expect(mockHourlySummaries.filter((s) => !s.synced).map((s) => s.id)).toEqual([2, 3]);
+      expect(policy.getStatus().bytesLastHour).toBe(Buffer.byteLength(mockFetch.mock.calls[0][1].body));
+    });
+
+    it('forceSync bypasses the policy and records sent bytes', async () => {
+      const policy = new UploadPolicy({ coalesceMs: 60_000 });
+      syncService = new CloudSyncService(summaryService, journalService, undefined, policy);
+      mockHourlySummaries.push(makeHourlySummary({ synced: false, id: 7 }));
+
+      await syncService.sync();
+      const forced = await syncService.forceSync();
+
+      expect(forced.deferred).toBeUndefined();
+      expect(policy.getStatus().bytesLastHour).toBeGreaterThan(0);
+    });
   });
 
   describe('token refresh on 401', () => {
@@ -1569,3 +1750,348 @@ describe('Store', () => {
     });
   });
 });
+
+// ============================================================================
+// 9. Profile Tests
+// ============================================================================
+
+describe('Profiles', () => {
+  beforeEach(async () => {
+    for (const key of Object.keys(mockStoreData)) {
+      delete mockStoreData[key];
+    }
+    mockStoreData.auth = {};
+    mockStoreData.settings = { trackingEnabled: true, excludedApps: [], autoSync: true };
+    // Point the store accessors back at the default profile
+    const { setActiveProfileId } = await import('../src/main/store');
+    setActiveProfileId('default');
+  });
+
+  describe('matchProfileRule', () => {
+    // Monday 2024-01-15
+    const at = (time: string) => new Date(`2024-01-15T${time}:00`);
+
+    it('matches app names case-insensitively', async () => {
+      const { matchProfileRule } = await import('../src/main/services/profileService');
+      const rules = [{ profileId: 'work', apps: ['Slack'] }];
+      expect(matchProfileRule(rules, 'slack', at('10:00'))).toBe(0);
+      expect(matchProfileRule(rules, 'Spotify', at('10:00'))).toBe(-1);
+      expect(matchProfileRule(rules, null, at('10:00'))).toBe(-1);
+    });
+
+    it('matches days and time windows, including windows past midnight', async () => {
+      const { matchProfileRule } = await import('../src/main/services/profileService');
+      const weekdays = [{ profileId: 'work', days: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:30' }];
+      expect(matchProfileRule(weekdays, 'Mail', at('09:00'))).toBe(0);
+      expect(matchProfileRule(weekdays, 'Mail', at('17:30'))).toBe(-1);
+      expect(matchProfileRule(weekdays, 'Mail', new Date('2024-01-14T10:00:00'))).toBe(-1); // Sunday
+
+      const night = [{ profileId: 'personal', startTime: '22:00', endTime: '06:00' }];
+      expect(matchProfileRule(night, null, at('23:15'))).toBe(0);
+      expect(matchProfileRule(night, null, at('05:59'))).toBe(0);
+      expect(matchProfileRule(night, null, at('12:00'))).toBe(-1);
+    });
+
+    it('returns the first matching rule', async () => {
+      const { matchProfileRule } = await import('../src/main/services/profileService');
+      const rules = [
+        { profileId: 'personal', apps: ['Spotify'] },
+        { profileId: 'work', startTime: '09:00', endTime: '17:00' },
+      ];
+      expect(matchProfileRule(rules, 'Spotify', at('10:00'))).toBe(0);
+      expect(matchProfileRule(rules, 'Xcode', at('10:00'))).toBe(1);
+    });
+
+    it('rejects rules for unknown profiles or with bad times', async () => {
+      const { validateProfileRule } = await import('../src/main/services/profileService');
+      const profiles = [{ id: 'default', name: 'Default', createdAt: 0 }];
+      expect(validateProfileRule({ profileId: 'default', startTime: '08:00', endTime: '12:00' }, profiles)).toBeNull();
+      expect(validateProfileRule({ profileId: 'nope' }, profiles)).toMatch(/Unknown profile/);
+      expect(validateProfileRule({ profileId: 'default', startTime: '25:00', endTime: '12:00' }, profiles)).toMatch(/HH:MM/);
+      expect(validateProfileRule({ profileId: 'default', startTime: '08:00' }, profiles)).toMatch(/together/);
+      expect(validateProfileRule({ profileId: 'default', days: [7] }, profiles)).toMatch(/days/);
+    });
+  });
+
+  describe('profile store', () => {
+    it('keeps settings and sign-in separate per profile', async () => {
+      const store = await import('../src/main/store');
+      store.setAccessToken('default-token');
+      const work = store.createProfile('Work');
+
+      store.setActiveProfileId(work.id);
+      expect(store.getAccessToken()).toBeUndefined();
+      store.updateSettings({ excludedApps: ['Spotify'] });
+      store.setAccessToken('work-token');
+
+      store.setActiveProfileId('default');
+      expect(store.getAccessToken()).toBe('default-token');
+      expect(store.getSettings().excludedApps).toEqual([]);
+
+      store.setActiveProfileId(work.id);
+      expect(store.getSettings().excludedApps).toEqual(['Spotify']);
+      expect(store.getActiveProfile().name).toBe('Work');
+    });
+
+    it('rejects duplicate names and deleting the default or active profile', async () => {
+      const store = await import('../src/main/store');
+      const work = store.createProfile('Work');
+      expect(() => store.createProfile(' work ')).toThrow(/already exists/);
+      expect(() => store.deleteProfile('default')).toThrow();
+
+      store.setActiveProfileId(work.id);
+      expect(() => store.deleteProfile(work.id)).toThrow(/Switch to another profile/);
+    });
+
+    it('removes rules that select a deleted profile', async () => {
+      const store = await import('../src/main/store');
+      const work = store.createProfile('Work');
+      store.updateProfileConfig({ rules: [{ profileId: work.id, apps: ['Slack'] }, { profileId: 'default', apps: ['Music'] }] });
+
+      store.deleteProfile(work.id);
+
+      const config = store.getProfileConfig();
+      expect(config.profiles.map((p) => p.id)).toEqual(['default']);
+      expect(config.rules).toEqual([{ profileId: 'default', apps: ['Music'] }]);
+    });
+  });
+
+  describe('ProfileService', () => {
+    it('switches the database and settings between the before/after hooks', async () => {
+      const { ProfileService } = await import('../src/main/services/profileService');
+      const { switchDatabase } = await import('../src/main/db/database');
+      const store = await import('../src/main/store');
+      const calls: string[] = [];
+      vi.mocked(switchDatabase).mockImplementationOnce(async (id: string) => {
+        calls.push(`db:${id}`);
+      });
+
+      const service = new ProfileService({
+        beforeSwitch: (from) => { calls.push(`before:${from.id}`); },
+        afterSwitch: (profile, reason) => { calls.push(`after:${profile.id}:${reason}`); },
+      });
+      const work = service.create('Work');
+      const switched = vi.fn();
+      service.on('switched', switched);
+
+      await service.switchTo(work.id);
+
+      expect(calls).toEqual(['before:default', `db:${work.id}`, `after:${work.id}:manual`]);
+      expect(store.getActiveProfile().id).toBe(work.id);
+      expect(switched).toHaveBeenCalledWith(expect.objectContaining({ id: work.id }), 'manual');
+      await expect(service.switchTo('missing')).rejects.toThrow(/Unknown profile/);
+    });
+
+    it('switches by rule only when the matching rule changes', async () => {
+      const { ProfileService } = await import('../src/main/services/profileService');
+      let app = 'Slack';
+      const service = new ProfileService({ getCurrentApp: () => app });
+      const work = service.create('Work');
+      service.updateRules({ rules: [{ profileId: work.id, apps: ['Slack'] }] });
+
+      expect((await service.evaluateRules())?.id).toBe(work.id);
+
+      // A manual switch sticks while the same rule keeps matching
+      await service.switchTo('default', 'manual');
+      expect(await service.evaluateRules()).toBeNull();
+      expect(service.getActiveProfile().id).toBe('default');
+
+      // Leaving and re-entering the app re-applies the rule
+      app = 'Finder';
+      await service.evaluateRules();
+      app = 'Slack';
+      expect((await service.evaluateRules())?.id).toBe(work.id);
+    });
+
+    it('does not switch automatically when auto-switch is off', async () => {
+      const { ProfileService } = await import('../src/main/services/profileService');
+      const service = new ProfileService({ getCurrentApp: () => 'Slack' });
+      const work = service.create('Work');
+      service.updateRules({ rules: [{ profileId: work.id, apps: ['Slack'] }], autoSwitch: false });
+
+      expect(await service.evaluateRules()).toBeNull();
+      expect(service.getActiveProfile().id).toBe('default');
+      expect(() => service.updateRules({ rules: [{ profileId: 'missing' }] })).toThrow(/Unknown profile/);
+    });
+  });
+});
+
+// ============================================================================
+// 10. SnoozeService Tests
+// ============================================================================
+
+describe('SnoozeService', () => {
+  beforeEach(() => {
+    const data = (globalThis as any).__mockStoreData as Record<string, any>;
+    delete data.snooze;
+    vi.mocked(insertTrackingPause).mockClear();
+    vi.mocked(endTrackingPause).mockClear();
+  });
+
+  it('computes the end of timed snoozes and rejects bad durations', async () => {
+    const { snoozeEndTime } = await import('../src/main/services/snoozeService');
+    const now = new Date(2026, 0, 5, 22, 30);
+
+    expect(snoozeEndTime({ kind: 'duration', minutes: 15 }, now)).toBe(now.getTime() + 15 * 60000);
+    expect(snoozeEndTime({ kind: 'until_tomorrow' }, now)).toBe(new Date(2026, 0, 6, 6, 0).getTime());
+    expect(snoozeEndTime({ kind: 'until_app_blur' }, now)).toBeNull();
+    expect(() => snoozeEndTime({ kind: 'duration', minutes: 0 }, now)).toThrow(/minutes/);
+    expect(() => snoozeEndTime({ kind: 'duration', minutes: 2.5 }, now)).toThrow(/minutes/);
+  });
+
+  it('records the paused interval and resumes when the time is up', async () => {
+    const { SnoozeService } = await import('../src/main/services/snoozeService');
+    const { getSnoozeState } = await import('../src/main/store');
+    const service = new SnoozeService();
+    const changes: any[] = [];
+    service.on('change', (state) => changes.push(state));
+
+    const state = await service.snooze({ kind: 'duration', minutes: 15 });
+    expect(service.isSnoozed()).toBe(true);
+    expect(getSnoozeState()).toEqual(state);
+    expect(insertTrackingPause).toHaveBeenCalledWith(state.startedAt, 'duration');
+
+    expect(await service.check(state.until! - 1000)).toBe(false);
+    expect(await service.check(state.until!)).toBe(true);
+    expect(service.isSnoozed()).toBe(false);
+    expect(getSnoozeState()).toBeNull();
+    expect(endTrackingPause).toHaveBeenCalledTimes(1);
+    expect(changes).toEqual([state, null]);
+  });
+
+  it('ends an app snooze once another app is focused', async () => {
+    const { SnoozeService } = await import('../src/main/services/snoozeService');
+    let frontmost: string | null = 'Messages';
+    const service = new SnoozeService({ getFrontmostApp: async () => frontmost });
+
+    const state = await service.snooze({ kind: 'until_app_blur' });
+    expect(state).toMatchObject({ kind: 'until_app_blur', app: 'Messages', until: null });
+
+    // Unknown focus keeps the snooze
+    frontmost = null;
+    expect(await service.check()).toBe(false);
+    frontmost = 'messages';
+    expect(await service.check()).toBe(false);
+    frontmost = 'Slack';
+    expect(await service.check()).toBe(true);
+    expect(service.isSnoozed()).toBe(false);
+
+    frontmost = null;
+    await expect(service.snooze({ kind: 'until_app_blur' })).rejects.toThrow(/No focused app/);
+  });
+
+  it('restores an unexpired snooze on start and closes expired ones', async () => {
+    const { SnoozeService } = await import('../src/main/services/snoozeService');
+    const { setSnoozeState, getSnoozeState } = await import('../src/main/store');
+    const now = Date.now();
+
+    setSnoozeState({ kind: 'duration', startedAt: now - 60000, until: now + 60000 });
+    const restored = new SnoozeService();
+    restored.start(now);
+    restored.stop();
+    expect(restored.getState()?.until).toBe(now + 60000);
+    expect(endTrackingPause).not.toHaveBeenCalled();
+
+    setSnoozeState({ kind: 'duration', startedAt: now - 120000, until: now - 60000 });
+    const expired = new SnoozeService();
+    expired.start(now);
+    expired.stop();
+    expect(expired.isSnoozed()).toBe(false);
+    expect(getSnoozeState()).toBeNull();
+    expect(endTrackingPause).toHaveBeenCalledWith(now - 60000);
+  });
+});
+
+// ============================================================================
+// 11. PresentationDetector Tests
+// ============================================================================
+
+describe('PresentationDetector', () => {
+  const DISPLAY = { x: 0, y: 0, width: 1512, height: 982 };
+
+  describe('matchPresenting', () => {
+    it('detects meeting share indicators and sharing titles', async () => {
+      const { matchPresenting } = await import('../src/main/services/presentationDetector');
+
+      expect(matchPresenting([{ app: 'zoom.us', title: 'zoom share toolbar window' }], [DISPLAY])?.rule.id)
+        .toBe('zoom-share');
+      expect(matchPresenting([{ app: 'Microsoft Teams (work or school)', title: 'Sharing control bar | Microsoft Teams' }], [DISPLAY])?.rule.id)
+        .toBe('teams-share');
+      expect(matchPresenting([{ app: 'Google Chrome', title: 'meet.google.com is sharing your screen.' }], [DISPLAY])?.rule.id)
+        .toBe('sharing-indicator');
+
+      // A normal meeting window is not presenting
+      expect(matchPresenting([{ app: 'zoom.us', title: 'Zoom Meeting' }], [DISPLAY])).toBeNull();
+    });
+
+    it('treats a slide app filling a display as a slide show', async () => {
+      const { matchPresenting } = await import('../src/main/services/presentationDetector');
+
+      expect(matchPresenting([{ app: 'Keynote', title: 'Q3 Review', bounds: DISPLAY }], [DISPLAY])?.rule.id)
+        .toBe('slideshow-fullscreen');
+      expect(matchPresenting([{ app: 'Keynote', title: 'Q3 Review', bounds: { ...DISPLAY, width: 1200 } }], [DISPLAY]))
+        .toBeNull();
+      expect(matchPresenting([{ app: 'Microsoft PowerPoint', title: 'PowerPoint Slide Show - Deck.pptx' }], [DISPLAY])?.rule.id)
+        .toBe('slideshow-window');
+      // Full-screen editors are not presenting
+      expect(matchPresenting([{ app: 'Visual Studio Code', title: 'index.ts', bounds: DISPLAY }], [DISPLAY])).toBeNull();
+    });
+  });
+
+  describe('detector', () => {
+    it('emits when presenting starts and only ends after consecutive clear checks', async () => {
+      const { PresentationDetector } = await import('../src/main/services/presentationDetector');
+      let windows = [{ app: 'zoom.us', title: 'zoom share toolbar window' }];
+      const detector = new PresentationDetector({
+        listWindows: async () => windows,
+        getDisplays: () => [DISPLAY],
+        clearAfterChecks: 2,
+      });
+      const changes: any[] = [];
+      detector.on('change', (signal) => changes.push(signal));
+
+      await detector.check();
+      expect(detector.isPresenting()).toBe(true);
+      expect(changes).toEqual([expect.objectContaining({ ruleId: 'zoom-share', reason: 'screen_share', app: 'zoom.us' })]);
+
+      // Toolbar hides for one check — still presenting
+      windows = [];
+      await detector.check();
+      expect(detector.isPresenting()).toBe(true);
+
+      windows = [{ app: 'zoom.us', title: 'zoom share toolbar window' }];
+      await detector.check();
+      windows = [];
+      await detector.check();
+      expect(detector.isPresenting()).toBe(true);
+      await detector.check();
+      expect(detector.isPresenting()).toBe(false);
+      expect(changes).toHaveLength(2);
+      expect(changes[1]).toBeNull();
+    });
+
+    it('keeps the state when windows cannot be listed and clears it on stop', async () => {
+      const { PresentationDetector } = await import('../src/main/services/presentationDetector');
+      let fail = false;
+      const detector = new PresentationDetector({
+        listWindows: async () => {
+          if (fail) throw new Error('no permission');
+          return [{ app: 'Keynote', title: 'Play Slideshow' }];
+        },
+        getDisplays: () => [DISPLAY],
+        clearAfterChecks: 1,
+      });
+      const onChange = vi.fn();
+      detector.on('change', onChange);
+
+      await detector.check();
+      fail = true;
+      await detector.check();
+      expect(detector.getSignal()?.ruleId).toBe('slideshow-window');
+
+      detector.stop();
+      expect(detector.isPresenting()).toBe(false);
+      expect(onChange).toHaveBeenLastCalledWith(null);
+    });
+  });
+});
@@ -1,11 +1,36 @@
 import { SQLiteQueue } from '../src/transport/sqliteQueue';
+import Database from 'better-sqlite3';
 import { Transport } from '../src/transport/Transport';
-import { storeApiKey, getApiKey, deleteApiKey } from '../src/pairing/pairing';
+import { CallbackSink, FileSink, UnixSocketSink, HttpSink, decodeUploadBody, UploadBatch } from '../src/transport/sinks';
+import { LocalReceiver } from '../src/transport/localReceiver';
+import { DevicePairing, generatePairingCode } from '../src/pairing/devicePairing';
+import { encodeDictDelta, decodeDictDelta, BATCH_ENCODING_HEADER } from '../src/transport/batchEncoding';
+import { UploadPolicy } from '../src/transport/uploadPolicy';
+import { generateEnvelopeKeyPair, sealEnvelope, openEnvelope, ENVELOPE_HEADER, Envelope } from '../src/transport/envelope';
+import {
+  EventSchema,
+  EVENT_SCHEMAS,
+  createEventEnvelope,
+  migrateEventEnvelope,
+  validatePayload,
+} from '../src/transport/eventSchema';
+import {
+  storeApiKey,
+  getApiKey,
+  deleteApiKey,
+  getDeviceKeyPair,
+  rotateDeviceKeyPair,
+  storeRecipientPublicKey,
+  getEnvelopeKeys,
+  deleteEnvelopeKeys,
+  getRecipientPublicKey,
+} from '../src/pairing/pairing';
 import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
 import zlib from 'zlib';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { createRequire } from 'module';
 
 // Mock node-fetch
 vi.mock('node-fetch', () => ({
@@ -64,6 +89,107 @@ describe('SQLiteQueue', () => {
     expect(items.length).toBe(5);
   });
 
+  it('should move items to dead letters and requeue them', () => {
+    const id1 = queue.enqueue({ n: 1 });
+    const id2 = queue.enqueue({ n: 2 });
+
+    queue.deadLetter(queue.peek(10), { statusCode: 422, reason: 'Client error 422', attempts: 2 });
+    expect(queue.size()).toBe(0);
+    expect(queue.deadLetterSize()).toBe(2);
+
+    const dead = queue.getDeadLetter(id1)!;
+    expect(dead.status_code).toBe(422);
+    expect(dead.reason).toBe('Client error 422');
+    expect(dead.attempts).toBe(2);
+    expect(JSON.parse(dead.payload)).toEqual({ n: 1 });
+
+    expect(queue.requeueDeadLetter(id1, { n: 1, fixed: true })).toBe(true);
+    expect(queue.requeueDeadLetter('missing')).toBe(false);
+    expect(queue.size()).toBe(1);
+    expect(JSON.parse(queue.peek(1)[0].payload)).toEqual({ n: 1, fixed: true });
+
+    expect(queue.purgeDeadLetters([id2, 'missing'])).toBe(1);
+    expect(queue.deadLetterSize()).toBe(0);
+  });
+
+  it('should remove matching queued and dead-lettered items', () => {
+    queue.enqueue({ app: 'Slack', n: 1 });
+    queue.enqueue({ app: 'Mail', n: 2 });
+    queue.quarantine({ app: 'Slack', n: 3 }, 'Quarantined: bad');
+    const isSlack = (payload: any) => payload.app === 'Slack';
+
+    expect(queue.removeMatching(isSlack, true)).toBe(2);
+    expect(queue.size() + queue.deadLetterSize()).toBe(3);
+
+    expect(queue.removeMatching(isSlack)).toBe(2);
+    expect(queue.size()).toBe(1);
+    expect(queue.deadLetterSize()).toBe(0);
+    expect(JSON.parse(queue.peek(1)[0].payload).n).toBe(2);
+  });
+
+  it('should drain higher lanes first and stay FIFO within a lane', () => {
+    queue.enqueue({ type: 'context_switch', n: 1 });
+    queue.enqueue({ type: 'activity', n: 2 });
+    queue.enqueue({ type: 'commitment_detected', n: 3 });
+    queue.enqueue({ type: 'activity', n: 4 }, { lane: 'high' });
+
+    const order = queue.peek(10).map(i => JSON.parse(i.payload).n);
+    expect(order).toEqual([3, 4, 2, 1]);
+    expect(queue.sizeByLane()).toEqual({ high: 2, normal: 1, low: 1 });
+  });
+
+  it('should evict the oldest items of a type beyond its quota', () => {
+    const capped = new SQLiteQueue(':memory:', { chatter: { lane: 'low', maxItems: 2 } });
+    try {
+      for (let i = 0; i < 4; i++) {
+        capped.enqueue({ type: 'chatter', n: i });
+      }
+      capped.enqueue({ type: 'other' });
+
+      expect(capped.size()).toBe(3);
+      const kept = capped.peek(10).map(i => JSON.parse(i.payload));
+      expect(kept.filter(p => p.type === 'chatter').map(p => p.n)).toEqual([2, 3]);
+    } finally {
+      capped.close();
+    }
+  });
+
+  it('should prune expired items except in the high lane', () => {
+    const ttl = new SQLiteQueue(':memory:', {
+      stale: { lane: 'low', ttlMs: 1000 },
+      urgent: { lane: 'high', ttlMs: 1000 },
+    });
+    try {
+      ttl.enqueue({ type: 'stale' });
+      ttl.enqueue({ type: 'urgent' });
+      ttl.enqueue({ type: 'no-ttl' });
+
+      expect(ttl.pruneExpired()).toBe(0);
+      expect(ttl.pruneExpired(Date.now() + 2000)).toBe(1);
+      expect(ttl.peek(10).map(i => JSON.parse(i.payload).type)).toEqual(['urgent', 'no-ttl']);
+    } finally {
+      ttl.close();
+    }
+  });
+
+  it('should upgrade a queue file created before priority lanes', () => {
+    const dbPath = path.join(os.tmpdir(), `legacy-queue-${Date.now()}-${Math.random()}.db`);
+    const legacy = new Database(dbPath);
+    legacy.exec('CREATE TABLE queue (id TEXT PRIMARY KEY, created_at INTEGER, payload TEXT)');
+    legacy.prepare('INSERT INTO queue VALUES (?, ?, ?)').run('old-1', 1, JSON.stringify({ type: 'activity' }));
+    legacy.close();
+
+    const upgraded = new SQLiteQueue(dbPath);
+    try {
+      upgraded.enqueue({ type: 'commitment_detected' });
+      const types = upgraded.peek(10).map(i => JSON.parse(i.payload).type);
+      expect(types).toEqual(['commitment_detected', 'activity']);
+    } finally {
+      upgraded.close();
+      fs.unlinkSync(dbPath);
+    }
+  });
+
   it('should order items by created_at', () => {
     queue.enqueue({ order: 1 });
     queue.enqueue({ order: 2 });
@@ -187,6 +313,108 @@ describe('Transport', () => {
     expect(transport.getQueueLength()).toBe(0);
   });
 
+  it('should keep dropped 4xx batches as dead letters', async () => {
+    fetch.mockResolvedValueOnce({ ok: false, status: 403 });
+
+    await transport.enqueue({ type: 'auth-event', event_id: 'evt-1' });
+    await transport.flushSoon();
+
+    expect(transport.getQueueLength()).toBe(0);
+    expect(transport.getStatus().deadLetterCount).toBe(1);
+
+    const [dead] = transport.getDeadLetters();
+    expect(dead.status_code).toBe(403);
+    expect(dead.reason).toBe('Client error 403');
+    expect(dead.attempts).toBe(1);
+
+    // Edited replay keeps the original event_id
+    fetch.mockResolvedValueOnce({ ok: true, status: 200 });
+    expect(transport.requeueDeadLetter(dead.id, { type: 'auth-event', fixed: true })).toBe(true);
+    expect(transport.getStatus().deadLetterCount).toBe(0);
+    await transport.flushSoon();
+
+    const body = JSON.parse(zlib.gunzipSync(fetch.mock.calls[1][1].body).toString('utf8'));
+    expect(body.events[0]).toEqual({ type: 'auth-event', fixed: true, event_id: 'evt-1' });
+    expect(transport.getQueueLength()).toBe(0);
+  });
+
+  it('should keep the batch and pause uploads on 401 until auth is restored', async () => {
+    const onAuthRevoked = vi.fn();
+    transport.close();
+    transport = new Transport({
+      endpoint: 'https://api.test.com',
+      deviceId: 'test-device-123',
+      queueDbPath: ':memory:',
+      onAuthRevoked,
+    });
+    fetch.mockResolvedValueOnce({ ok: false, status: 401 });
+
+    await transport.enqueue({ type: 'activity' });
+    await transport.flushSoon();
+    await transport.flushSoon();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(onAuthRevoked).toHaveBeenCalledTimes(1);
+    expect(transport.getQueueLength()).toBe(1);
+    expect(transport.getStatus().authRevoked).toBe(true);
+    expect(transport.getStatus().deadLetterCount).toBe(0);
+
+    fetch.mockResolvedValueOnce({ ok: true, status: 200 });
+    transport.clearAuthRevoked();
+    await transport.flushSoon();
+
+    expect(transport.getQueueLength()).toBe(0);
+    expect(transport.getStatus().authRevoked).toBe(false);
+  });
+
+  it('should report every batch handed to the sink to onUpload', async () => {
+    const onUpload = vi.fn();
+    transport.close();
+    transport = new Transport({
+      endpoint: 'https://api.test.com/',
+      deviceId: 'test-device-123',
+      queueDbPath: ':memory:',
+      maxRetries: 0,
+      onUpload,
+    });
+    fetch.mockRejectedValueOnce(new Error('offline'));
+    fetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+    await transport.enqueue({ type: 'activity', event_id: 'e1', privacy_level: 'sync_allowed' });
+    await transport.enqueue({ type: 'commitment', event_id: 'e2' });
+    await transport.flushSoon();
+    await transport.flushSoon();
+
+    expect(onUpload).toHaveBeenCalledTimes(2);
+    const [failed, sent] = onUpload.mock.calls.map((c) => c[0]);
+    expect(failed.status).toBeNull();
+    expect(sent).toMatchObject({
+      destination: 'https://api.test.com/api/v1/devices/test-device-123/upload',
+      eventTypes: ['activity', 'commitment'],
+      privacyLevels: ['sync_allowed'],
+      status: 200,
+    });
+    expect(sent.eventIds.sort()).toEqual(['e1', 'e2']);
+    expect(sent.body).toEqual(fetch.mock.calls[1][1].body);
+  });
+
+  it('should dead-letter single events larger than maxBatchBytes', async () => {
+    fetch.mockResolvedValue({ ok: true, status: 200 });
+
+    await transport.enqueue({ type: 'huge', data: 'x'.repeat(2048) });
+    await transport.enqueue({ type: 'small' });
+    await transport.flushSoon();
+
+    const dead = transport.getDeadLetters();
+    expect(dead.length).toBe(1);
+    expect(dead[0].status_code).toBeNull();
+    expect(dead[0].reason).toMatch(/exceeds maxBatchBytes/);
+    expect(transport.getQueueLength()).toBe(0);
+
+    expect(transport.purgeDeadLetters()).toBe(1);
+    expect(transport.getStatus().deadLetterCount).toBe(0);
+  });
+
   it('should retry on 429 rate limit', async () => {
     // Mock rate limit followed by success
     fetch
@@ -289,10 +517,711 @@ describe('Transport', () => {
     }
   });
 
+  it('should send high-priority events in the first batch', async () => {
+    fetch.mockResolvedValue({ ok: true, status: 200 });
+
+    for (let i = 0; i < 6; i++) {
+      await transport.enqueue({ type: 'context_switch', n: i });
+    }
+    await transport.enqueue({ type: 'commitment_detected', n: 'c' });
+    await transport.flushSoon();
+
+    const firstBatch = JSON.parse(zlib.gunzipSync(fetch.mock.calls[0][1].body).toString('utf8'));
+    expect(firstBatch.events[0].type).toBe('commitment_detected');
+    expect(transport.getQueueLength()).toBe(0);
+  });
+
   it('should report status correctly', () => {
     const status = transport.getStatus();
     expect(status.queueLength).toBe(0);
     expect(status.sending).toBe(false);
+    expect(status.deadLetterCount).toBe(0);
+    expect(status.queueByLane).toEqual({ high: 0, normal: 0, low: 0 });
+  });
+});
+
+describe('Transport sinks', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-sinks-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should require an endpoint or a sink', () => {
+    expect(() => new Transport({ deviceId: 'dev', queueDbPath: ':memory:' })).toThrow(/endpoint or a sink/);
+  });
+
+  it('should decode gzipped upload bodies and reject malformed ones', () => {
+    const body = zlib.gzipSync(Buffer.from(JSON.stringify({ upload_id: 'u1', device_id: 'd1', events: [] })));
+    expect(decodeUploadBody(body, 'gzip').upload_id).toBe('u1');
+
+    expect(() => decodeUploadBody(Buffer.from('{"device_id":"d1","events":[]}'))).toThrow(/upload_id/);
+    expect(() => decodeUploadBody(Buffer.from('{"upload_id":"u1","device_id":"d1"}'))).toThrow(/events/);
+  });
+
+  it('should deliver decoded batches to a CallbackSink without touching fetch', async () => {
+    const received: UploadBatch[] = [];
+    const transport = new Transport({
+      deviceId: 'cb-device',
+      queueDbPath: ':memory:',
+      sink: new CallbackSink((batch) => {
+        received.push(batch);
+      }),
+    });
+
+    try {
+      await transport.enqueue({ type: 'event1' });
+      await transport.enqueue({ type: 'event2' });
+      await transport.flushSoon();
+
+      expect(fetch).not.toHaveBeenCalled();
+      expect(received.length).toBe(1);
+      expect(received[0].device_id).toBe('cb-device');
+      expect(received[0].events.map(e => e.type)).toEqual(['event1', 'event2']);
+      expect(transport.getQueueLength()).toBe(0);
+    } finally {
+      transport.close();
+    }
+  });
+
+  it('should apply status codes returned by a CallbackSink', async () => {
+    const transport = new Transport({
+      deviceId: 'cb-device',
+      queueDbPath: ':memory:',
+      sink: new CallbackSink(() => 400),
+    });
+
+    try {
+      await transport.enqueue({ type: 'bad-event' });
+      await transport.flushSoon();
+
+      expect(transport.getQueueLength()).toBe(0);
+      expect(transport.getStatus().lastError).toBe('Client error 400');
+    } finally {
+      transport.close();
+    }
+  });
+
+  it('should append one NDJSON line per batch with FileSink', async () => {
+    const outFile = path.join(tmpDir, 'nested', 'batches.ndjson');
+    const transport = new Transport({
+      deviceId: 'file-device',
+      batchSize: 2,
+      queueDbPath: ':memory:',
+      sink: new FileSink(outFile),
+    });
+
+    try {
+      for (let i = 0; i < 3; i++) {
+        await transport.enqueue({ index: i });
+      }
+      await transport.flushSoon();
+
+      const lines = fs.readFileSync(outFile, 'utf8').trim().split('\n').map(l => JSON.parse(l));
+      expect(lines.length).toBe(2);
+      expect(lines[0].events.length).toBe(2);
+      expect(lines[1].events[0].index).toBe(2);
+      expect(lines[0].upload_id).not.toBe(lines[1].upload_id);
+    } finally {
+      transport.close();
+    }
+  });
+
+  it('should upload to the LocalReceiver over HTTP', async () => {
+    const actual = await vi.importActual<typeof import('node-fetch')>('node-fetch');
+    fetch.mockImplementation(actual.default);
+
+    const receiver = new LocalReceiver();
+    const url = await receiver.start();
+    const transport = new Transport({ endpoint: url, deviceId: 'http-device', queueDbPath: ':memory:' });
+
+    try {
+      await transport.enqueue({ type: 'event1' });
+      await transport.flushSoon();
+
+      expect(receiver.getEvents().map(e => e.type)).toEqual(['event1']);
+      expect(receiver.getBatches()[0].device_id).toBe('http-device');
+      expect(transport.getQueueLength()).toBe(0);
+
+      const listed = await actual.default(`${url}/batches`).then(r => r.json());
+      expect(listed.length).toBe(1);
+    } finally {
+      transport.close();
+      await receiver.stop();
+      fetch.mockReset();
+    }
+  });
+
+  it('should upload to the LocalReceiver over a Unix socket and honor forced statuses', async () => {
+    const socketPath = path.join(tmpDir, 'receiver.sock');
+    const outputPath = path.join(tmpDir, 'received.ndjson');
+    const receiver = new LocalReceiver({ socketPath, outputPath, apiKey: 'secret' });
+    await receiver.start();
+
+    const sink = new UnixSocketSink(socketPath);
+    const body = (uploadId: string) =>
+      zlib.gzipSync(Buffer.from(JSON.stringify({ upload_id: uploadId, device_id: 'sock-device', events: [{ n: 1 }] })));
+    const headers = { 'Content-Type': 'application/json', 'Content-Encoding': 'gzip', Authorization: 'Bearer secret' };
+
+    try {
+      receiver.failNext(503);
+      expect((await sink.send({ deviceId: 'sock-device', body: body('a'), headers })).status).toBe(503);
+
+      const ok = await sink.send({ deviceId: 'sock-device', body: body('a'), headers });
+      expect(ok).toEqual({ ok: true, status: 200 });
+
+      // Replayed upload_id is acknowledged but not stored again
+      expect((await sink.send({ deviceId: 'sock-device', body: body('a'), headers })).status).toBe(202);
+
+      expect((await sink.send({ deviceId: 'other-device', body: body('b'), headers })).status).toBe(400);
+      expect((await sink.send({ deviceId: 'sock-device', body: body('c'), headers: { ...headers, Authorization: 'Bearer nope' } })).status).toBe(401);
+
+      expect(receiver.getBatches().length).toBe(1);
+      expect(fs.readFileSync(outputPath, 'utf8').trim().split('\n').length).toBe(1);
+    } finally {
+      await receiver.stop();
+    }
+  });
+
+  it('should build upload URLs from the endpoint in HttpSink', async () => {
+    fetch.mockResolvedValueOnce({ ok: true, status: 200 });
+    const sink = new HttpSink('https://api.test.com/');
+
+    await sink.send({ deviceId: 'dev 1', body: Buffer.from(''), headers: {} });
+
+    expect(fetch.mock.calls[0][0]).toBe('https://api.test.com/api/v1/devices/dev%201/upload');
+  });
+});
+
+describe('Batch encoding', () => {
+  const activityBatch = (n: number): UploadBatch => ({
+    upload_id: 'u1',
+    device_id: 'd1',
+    client_version: '2.4.1',
+    events: Array.from({ length: n }, (_, i) => ({
+      event_id: `evt-${i}`,
+      type: 'activity',
+      app: 'Google Chrome',
+      title: 'Pull requests · acme/app',
+      timestamp: 1718000000000 + i * 5000,
+      meta: { nested: 'Google Chrome' },
+    })),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should round-trip dict-delta-v1 batches', () => {
+    const batch = activityBatch(20);
+    const encoded = encodeDictDelta(batch);
+
+    expect(encoded.dict).toEqual(['activity', 'Google Chrome', 'Pull requests · acme/app']);
+    expect(encoded.events[0].t).toEqual({ timestamp: 1718000000000 });
+    expect(encoded.events[1].t).toEqual({ timestamp: 5000 });
+    // Unique values and nested objects stay verbatim
+    expect(encoded.events[1].v).toEqual({ event_id: 'evt-1', meta: { nested: 'Google Chrome' } });
+
+    expect(decodeDictDelta(encoded)).toEqual(batch);
+    expect(JSON.stringify(encoded).length).toBeLessThan(JSON.stringify(batch).length);
+  });
+
+  it('should leave non-integer timestamps and short strings inline', () => {
+    const batch: UploadBatch = {
+      upload_id: 'u1',
+      device_id: 'd1',
+      events: [
+        { type: 'a', timestamp: '2024-06-10T09:00:00Z' },
+        { type: 'a', timestamp: 1.5 },
+      ],
+    };
+    const encoded = encodeDictDelta(batch);
+
+    expect(encoded.dict).toEqual([]);
+    expect(encoded.events[0].t).toBeUndefined();
+    expect(decodeDictDelta(encoded)).toEqual(batch);
+  });
+
+  it('should reject out-of-range dictionary references', () => {
+    const encoded = encodeDictDelta(activityBatch(2));
+    encoded.events[0].d!.app = 99;
+    expect(() => decodeDictDelta(encoded)).toThrow(/Invalid dictionary reference/);
+  });
+
+  it('should send dict-delta-v1 with the negotiation header and decode it in sinks', async () => {
+    const received: UploadBatch[] = [];
+    const headersSeen: Record<string, string>[] = [];
+    const transport = new Transport({
+      deviceId: 'enc-device',
+      queueDbPath: ':memory:',
+      batchEncoding: 'dict-delta-v1',
+      sink: new CallbackSink((batch, req) => {
+        received.push(batch);
+        headersSeen.push(req.headers);
+      }),
+    });
+
+    try {
+      await transport.enqueue({ type: 'activity', app: 'Slack', timestamp: 1000 });
+      await transport.enqueue({ type: 'activity', app: 'Slack', timestamp: 1500 });
+      await transport.flushSoon();
+
+      expect(headersSeen[0][BATCH_ENCODING_HEADER]).toBe('dict-delta-v1');
+      expect(received[0].events.map(e => [e.app, e.timestamp])).toEqual([['Slack', 1000], ['Slack', 1500]]);
+      expect(transport.getStatus().batchEncoding).toBe('dict-delta-v1');
+    } finally {
+      transport.close();
+    }
+  });
+
+  it('should fall back to json when the receiver answers 415', async () => {
+    const socketDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-enc-'));
+    const socketPath = path.join(socketDir, 'receiver.sock');
+    const receiver = new LocalReceiver({ socketPath, batchEncodings: ['json'] });
+    await receiver.start();
+
+    const transport = new Transport({
+      deviceId: 'enc-device',
+      queueDbPath: ':memory:',
+      batchEncoding: 'dict-delta-v1',
+      sink: new UnixSocketSink(socketPath),
+    });
+
+    try {
+      await transport.enqueue({ type: 'activity', app: 'Slack' });
+      await transport.flushSoon();
+
+      expect(receiver.getEvents().map(e => e.app)).toEqual(['Slack']);
+      expect(transport.getQueueLength()).toBe(0);
+      expect(transport.getStatus().batchEncoding).toBe('json');
+      expect(transport.getStatus().deadLetterCount).toBe(0);
+    } finally {
+      transport.close();
+      await receiver.stop();
+      fs.rmSync(socketDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should accept dict-delta-v1 uploads in the LocalReceiver', async () => {
+    const socketDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-enc-'));
+    const socketPath = path.join(socketDir, 'receiver.sock');
+    const receiver = new LocalReceiver({ socketPath });
+    await receiver.start();
+
+    try {
+      const batch = activityBatch(3);
+      const res = await new UnixSocketSink(socketPath).send({
+        deviceId: 'd1',
+        body: zlib.gzipSync(Buffer.from(JSON.stringify(encodeDictDelta(batch)))),
+        headers: { 'Content-Encoding': 'gzip', [BATCH_ENCODING_HEADER]: 'dict-delta-v1' },
+      });
+
+      expect(res.status).toBe(200);
+      expect(receiver.getEvents()).toEqual(batch.events);
+    } finally {
+      await receiver.stop();
+      fs.rmSync(socketDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('UploadPolicy', () => {
+  const HOUR = 60 * 60 * 1000;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should coalesce flushes within coalesceMs', () => {
+    const policy = new UploadPolicy({ coalesceMs: 30_000 });
+
+    expect(policy.shouldFlush(1000).allowed).toBe(true);
+    const deferred = policy.shouldFlush(11_000);
+    expect(deferred.allowed).toBe(false);
+    expect(deferred.reason).toBe('coalescing');
+    expect(deferred.retryAfterMs).toBe(20_000);
+    expect(policy.shouldFlush(31_000).allowed).toBe(true);
+  });
+
+  it('should defer only large uploads on battery or a metered connection', () => {
+    let onBattery = true;
+    let metered = false;
+    const policy = new UploadPolicy({
+      largeUploadBytes: 1000,
+      getPowerState: () => ({ onBattery }),
+      getNetworkState: () => ({ metered }),
+    });
+
+    expect(policy.shouldUpload(500).allowed).toBe(true);
+    expect(policy.shouldUpload(5000).reason).toBe('on_battery');
+
+    onBattery = false;
+    metered = true;
+    expect(policy.shouldUpload(5000).reason).toBe('metered');
+
+    policy.updateConfig({ deferOnMetered: false });
+    expect(policy.shouldUpload(5000).allowed).toBe(true);
+  });
+
+  it('should send large uploads anyway once deferral exceeds maxDeferMs', () => {
+    const policy = new UploadPolicy({
+      largeUploadBytes: 1000,
+      maxDeferMs: HOUR,
+      getPowerState: () => ({ onBattery: true }),
+    });
+
+    expect(policy.shouldUpload(5000, 0).allowed).toBe(false);
+    expect(policy.getStatus(0).deferredSince).toBe(0);
+    expect(policy.shouldUpload(5000, HOUR - 1).allowed).toBe(false);
+    expect(policy.shouldUpload(5000, HOUR).allowed).toBe(true);
+    expect(policy.getStatus(HOUR).deferredSince).toBeNull();
+  });
+
+  it('should enforce the hourly byte cap over a rolling window', () => {
+    const policy = new UploadPolicy({ maxBytesPerHour: 10_000 });
+
+    // A single upload over the cap still goes out when nothing else was sent
+    expect(policy.shouldUpload(12_000, 0).allowed).toBe(true);
+    policy.recordUpload(12_000, 0);
+
+    const capped = policy.shouldUpload(100, 10 * 60 * 1000);
+    expect(capped.allowed).toBe(false);
+    expect(capped.reason).toBe('byte_cap');
+    expect(capped.retryAfterMs).toBe(50 * 60 * 1000);
+    expect(policy.getStatus(10 * 60 * 1000).bytesLastHour).toBe(12_000);
+
+    expect(policy.shouldUpload(100, HOUR).allowed).toBe(true);
+  });
+
+  it('should keep the queue and report the decision when Transport is deferred', async () => {
+    const handler = vi.fn();
+    const transport = new Transport({
+      deviceId: 'policy-device',
+      queueDbPath: ':memory:',
+      sink: new CallbackSink(handler),
+      uploadPolicy: new UploadPolicy({
+        largeUploadBytes: 1,
+        getPowerState: () => ({ onBattery: true }),
+      }),
+    });
+
+    try {
+      await transport.enqueue({ type: 'activity', app: 'Slack' });
+      await transport.flushSoon();
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(transport.getQueueLength()).toBe(1);
+      expect(transport.getStatus().uploadDecision?.reason).toBe('on_battery');
+    } finally {
+      transport.close();
+    }
+  });
+
+  it('should record sent bytes against the byte cap in Transport', async () => {
+    const handler = vi.fn();
+    const policy = new UploadPolicy({ maxBytesPerHour: 1 });
+    const transport = new Transport({
+      deviceId: 'policy-device',
+      queueDbPath: ':memory:',
+      batchSize: 1,
+      sink: new CallbackSink(handler),
+      uploadPolicy: policy,
+    });
+
+    try {
+      await transport.enqueue({ type: 'activity', app: 'Slack' });
+      await transport.enqueue({ type: 'activity', app: 'Zoom' });
+      await transport.flushSoon();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(transport.getQueueLength()).toBe(1);
+      expect(policy.getStatus().bytesLastHour).toBeGreaterThan(0);
+      expect(transport.getStatus().uploadDecision?.reason).toBe('byte_cap');
+    } finally {
+      transport.close();
+    }
+  });
+});
+
+describe('Envelope encryption', () => {
+  const recipient = generateEnvelopeKeyPair();
+  const device = generateEnvelopeKeyPair();
+  const keys = { device, recipientPublicKey: recipient.publicKey };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should seal and open a batch body', () => {
+    const body = zlib.gzipSync(Buffer.from('{"secret":"Quarterly plan.docx"}'));
+    const envelope = sealEnvelope(body, 'dev-1', keys);
+
+    expect(envelope.device_kid).toBe(device.kid);
+    expect(envelope.recipient_kid).toBe(recipient.kid);
+    expect(JSON.stringify(envelope)).not.toContain('Quarterly');
+    expect(openEnvelope(envelope, recipient.privateKey)).toEqual(body);
+  });
+
+  it('should reject tampered envelopes and other recipients', () => {
+    const envelope = sealEnvelope(Buffer.from('payload'), 'dev-1', keys);
+
+    expect(() => openEnvelope({ ...envelope, device_id: 'dev-2' }, recipient.privateKey)).toThrow();
+    expect(() => openEnvelope(envelope, generateEnvelopeKeyPair().privateKey)).toThrow(/addressed to key/);
+    expect(() => openEnvelope({ ...envelope, device_key: generateEnvelopeKeyPair().publicKey }, recipient.privateKey))
+      .toThrow(/device_kid/);
+  });
+
+  it('should encrypt Transport batches and pick up rotated device keys', async () => {
+    const requests: { headers: Record<string, string>; envelope: Envelope }[] = [];
+    const received: UploadBatch[] = [];
+    let current = keys;
+    const transport = new Transport({
+      deviceId: 'enc-device',
+      queueDbPath: ':memory:',
+      encryptPayloads: true,
+      envelopeKeys: async () => current,
+      sink: new CallbackSink((batch, req) => {
+        received.push(batch);
+        requests.push({ headers: req.headers, envelope: JSON.parse(req.body.toString('utf8')) });
+      }, recipient.privateKey),
+    });
+
+    try {
+      await transport.enqueue({ type: 'activity', title: 'Quarterly plan.docx' });
+      await transport.flushSoon();
+
+      const rotated = generateEnvelopeKeyPair();
+      current = { device: rotated, recipientPublicKey: recipient.publicKey };
+      await transport.enqueue({ type: 'activity', title: 'Roadmap' });
+      await transport.flushSoon();
+
+      expect(requests[0].headers[ENVELOPE_HEADER]).toBe('1');
+      expect(requests[0].headers['Content-Encoding']).toBeUndefined();
+      expect(JSON.stringify(requests[0].envelope)).not.toContain('Quarterly');
+      expect(requests.map(r => r.envelope.device_kid)).toEqual([device.kid, rotated.kid]);
+      expect(received.map(b => b.events[0].title)).toEqual(['Quarterly plan.docx', 'Roadmap']);
+      expect(transport.getStatus().encrypted).toBe(true);
+    } finally {
+      transport.close();
+    }
+  });
+
+  it('should keep batches queued when envelope keys are missing', async () => {
+    const handler = vi.fn();
+    const transport = new Transport({
+      deviceId: 'enc-device',
+      queueDbPath: ':memory:',
+      maxRetries: 0,
+      encryptPayloads: true,
+      envelopeKeys: async () => null,
+      sink: new CallbackSink(handler),
+    });
+
+    try {
+      await transport.enqueue({ type: 'activity' });
+      await transport.flushSoon();
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(transport.getQueueLength()).toBe(1);
+    } finally {
+      transport.close();
+    }
+  });
+
+  it('should open encrypted uploads in the LocalReceiver', async () => {
+    const socketDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-env-'));
+    const socketPath = path.join(socketDir, 'receiver.sock');
+    const receiver = new LocalReceiver({ socketPath, recipientPrivateKey: recipient.privateKey });
+    await receiver.start();
+
+    const transport = new Transport({
+      deviceId: 'enc-device',
+      queueDbPath: ':memory:',
+      encryptPayloads: true,
+      envelopeKeys: async () => keys,
+      sink: new UnixSocketSink(socketPath),
+    });
+
+    try {
+      await transport.enqueue({ type: 'activity', app: 'Slack' });
+      await transport.flushSoon();
+
+      expect(receiver.getEvents().map(e => e.app)).toEqual(['Slack']);
+      expect(transport.getQueueLength()).toBe(0);
+    } finally {
+      transport.close();
+      await receiver.stop();
+      fs.rmSync(socketDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Event schemas', () => {
+  const approval = { action_id: 'act-1', status: 'approved', resolved_at: 1718000000000 };
+
+  // v1 had a free-form `state`; v2 renamed it to `status` and added `note`
+  const schemasV1: Record<string, EventSchema> = {
+    review: { version: 1, fields: { id: { type: 'string' }, state: { type: 'string' } } },
+  };
+  const schemasV2: Record<string, EventSchema> = {
+    review: {
+      version: 2,
+      fields: {
+        id: { type: 'string' },
+        status: { type: 'string', enum: ['open', 'done'] },
+        note: { type: 'string', nullable: true },
+      },
+      migrations: {
+        1: ({ state, ...rest }) => ({ ...rest, status: state, note: null }),
+      },
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should wrap valid payloads at the current schema version', () => {
+    const envelope = createEventEnvelope('action_approval', approval, { deviceId: 'dev-1' });
+    expect(envelope).toEqual({
+      type: 'action_approval',
+      schema_version: EVENT_SCHEMAS.action_approval.version,
+      device_id: 'dev-1',
+      privacy_level: 'sync_allowed',
+      payload: approval,
+    });
+    expect(() => createEventEnvelope('nope', {}, { deviceId: 'dev-1' })).toThrow('Unknown event type');
+  });
+
+  it('should report every field that does not match the schema', () => {
+    const errors = validatePayload('action_approval', {
+      action_id: 42,
+      status: 'maybe',
+      extra: true,
+    });
+    expect(errors).toEqual([
+      'action_id must be a string',
+      'status must be one of approved, dismissed',
+      'resolved_at is required',
+      'extra is not a known field',
+    ]);
+
+    const summary = validatePayload('context_switch', {
+      timestamp: Date.now(),
+      source_application: 'Slack',
+      summary: 'Switched to Slack',
+      entities: [],
+      confidence: 1.5,
+    });
+    expect(summary).toEqual(['confidence must be <= 1']);
+  });
+
+  it('should migrate envelopes step by step and refuse unknown versions', () => {
+    const v1 = createEventEnvelope('review', { id: 'r1', state: 'open' }, { deviceId: 'dev-1' }, schemasV1);
+    const v2 = migrateEventEnvelope(v1, schemasV2);
+    expect(v2.schema_version).toBe(2);
+    expect(v2.payload).toEqual({ id: 'r1', status: 'open', note: null });
+    expect(migrateEventEnvelope(v2, schemasV2)).toBe(v2);
+
+    expect(() => migrateEventEnvelope({ ...v1, schema_version: 3 }, schemasV2)).toThrow('Unsupported review schema version 3');
+    const noMigrations = { review: { ...schemasV2.review, migrations: undefined } };
+    expect(() => migrateEventEnvelope(v1, noMigrations)).toThrow('No migration for review from schema version 1');
+  });
+
+  it('should queue valid envelopes and quarantine malformed ones', async () => {
+    const transport = new Transport({ deviceId: 'dev-1', queueDbPath: ':memory:', sink: new CallbackSink(() => {}) });
+
+    try {
+      await transport.enqueueEvent('action_approval', approval);
+      expect(transport.getQueueLength()).toBe(1);
+      expect(transport.getStatus().queueByLane.high).toBe(1);
+
+      await transport.enqueue({
+        type: 'action_approval',
+        schema_version: 1,
+        device_id: 'dev-1',
+        privacy_level: 'sync_allowed',
+        payload: { ...approval, status: 'maybe' },
+      });
+      expect(transport.getQueueLength()).toBe(1);
+
+      const [quarantined] = transport.getDeadLetters();
+      expect(quarantined.status_code).toBeNull();
+      expect(quarantined.reason).toContain('Quarantined: Invalid action_approval event: status must be one of');
+
+      // Requeueing needs a fixed payload
+      const fixed = { ...JSON.parse(quarantined.payload), payload: approval };
+      expect(() => transport.requeueDeadLetter(quarantined.id, { ...fixed, payload: {} })).toThrow('action_id is required');
+      expect(transport.requeueDeadLetter(quarantined.id, fixed)).toBe(true);
+      expect(transport.getQueueLength()).toBe(2);
+
+      // Plain objects are not envelopes and pass through unchanged
+      await transport.enqueue({ type: 'activity', app: 'Chrome' });
+      expect(transport.getQueueLength()).toBe(3);
+    } finally {
+      transport.close();
+    }
+  });
+
+  it('should throw instead of quarantining in reject mode', async () => {
+    const transport = new Transport({
+      deviceId: 'dev-1',
+      queueDbPath: ':memory:',
+      sink: new CallbackSink(() => {}),
+      invalidEvents: 'reject',
+    });
+
+    try {
+      await expect(transport.enqueueEvent('action_approval', { action_id: 'act-1' })).rejects.toThrow('resolved_at is required');
+      await expect(transport.enqueue({ type: 'mystery', schema_version: 1, payload: {} })).rejects.toThrow('Unknown event type');
+      expect(transport.getQueueLength()).toBe(0);
+      expect(transport.getStatus().deadLetterCount).toBe(0);
+    } finally {
+      transport.close();
+    }
+  });
+
+  it('should upgrade envelopes queued before a schema change when flushing', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sync-schema-'));
+    const queueDbPath = path.join(dir, 'queue.db');
+    const received: UploadBatch[] = [];
+
+    try {
+      const before = new Transport({ deviceId: 'dev-1', queueDbPath, sink: new CallbackSink(() => {}), eventSchemas: schemasV1 });
+      await before.enqueueEvent('review', { id: 'r1', state: 'done' });
+      await before.enqueueEvent('review', { id: 'r2', state: 'blocked' });
+      before.close();
+
+      const after = new Transport({
+        deviceId: 'dev-1',
+        queueDbPath,
+        sink: new CallbackSink((batch) => {
+          received.push(batch);
+        }),
+        eventSchemas: schemasV2,
+      });
+      try {
+        await after.flushSoon();
+
+        expect(received.length).toBe(1);
+        expect(received[0].events.map(e => [e.schema_version, e.payload])).toEqual([
+          [2, { id: 'r1', status: 'done', note: null }],
+        ]);
+        // 'blocked' is not a valid v2 status, so that event cannot be upgraded
+        const [failed] = after.getDeadLetters();
+        expect(failed.reason).toContain('Migration failed for review event: status must be one of');
+        expect(after.getQueueLength()).toBe(0);
+      } finally {
+        after.close();
+      }
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
   });
 });
 
@@ -301,6 +1230,7 @@ describe('Pairing', () => {
 
   afterEach(async () => {
     await deleteApiKey();
+    await deleteEnvelopeKeys();
   });
 
   it('should store and retrieve API key', async () => {
@@ -318,4 +1248,152 @@ describe('Pairing', () => {
     retrieved = await getApiKey();
     expect(retrieved).toBeUndefined();
   });
+
+  it('should create a device keypair at pairing and rotate it', async () => {
+    await storeApiKey(testApiKey);
+    const created = await getDeviceKeyPair();
+    expect(created?.kid).toBeTruthy();
+    expect(await getEnvelopeKeys()).toBeNull();
+
+    storeRecipientPublicKey(generateEnvelopeKeyPair().publicKey);
+    expect((await getEnvelopeKeys())?.device.kid).toBe(created!.kid);
+
+    const rotated = await rotateDeviceKeyPair();
+    expect(rotated.kid).not.toBe(created!.kid);
+    expect((await getDeviceKeyPair())?.kid).toBe(rotated.kid);
+  });
+
+  it('should create a device keypair when the key is stored in the keychain', async () => {
+    // Load pairing.ts again with a working keytar in the require cache
+    const keychain = new Map<string, string>();
+    const keytarPath = createRequire(import.meta.url).resolve('keytar');
+    const cache = createRequire(import.meta.url).cache;
+    cache[keytarPath] = {
+      id: keytarPath,
+      filename: keytarPath,
+      loaded: true,
+      exports: {
+        setPassword: vi.fn(async (service: string, account: string, value: string) => { keychain.set(account, value); }),
+        getPassword: vi.fn(async (_service: string, account: string) => keychain.get(account) ?? null),
+        deletePassword: vi.fn(async (_service: string, account: string) => keychain.delete(account)),
+      },
+    } as any;
+    vi.resetModules();
+    try {
+      const pairing = await import('../src/pairing/pairing');
+      await pairing.storeApiKey(testApiKey);
+
+      expect(keychain.get('device-api-key')).toBe(testApiKey);
+      expect(keychain.has('device-envelope-key')).toBe(true);
+      expect((await pairing.getDeviceKeyPair())?.kid).toBeTruthy();
+    } finally {
+      delete cache[keytarPath];
+      vi.resetModules();
+    }
+  });
+});
+
+describe('Device pairing flow', () => {
+  let receiver: LocalReceiver;
+  let pairing: DevicePairing;
+  let url: string;
+
+  beforeEach(async () => {
+    const actual = await vi.importActual<typeof import('node-fetch')>('node-fetch');
+    fetch.mockImplementation(actual.default);
+    receiver = new LocalReceiver({ recipientPublicKey: 'recipient-key' });
+    url = await receiver.start();
+    pairing = new DevicePairing({ endpoint: url, pollIntervalMs: 60_000 });
+  });
+
+  afterEach(async () => {
+    await pairing.unpair();
+    pairing.close();
+    await receiver.stop();
+    fetch.mockReset();
+  });
+
+  it('should generate readable pairing codes', () => {
+    expect(generatePairingCode()).toMatch(/^[A-HJKMNP-Z2-9]{4}-[A-HJKMNP-Z2-9]{4}$/);
+  });
+
+  it('should exchange an approved code for a scoped device key', async () => {
+    const started = await pairing.start();
+    expect(started.status).toBe('pending');
+    expect(receiver.getPendingPairings()).toEqual([
+      expect.objectContaining({ code: started.code, deviceId: started.deviceId }),
+    ]);
+
+    expect((await pairing.poll()).status).toBe('pending');
+
+    receiver.approvePairing(started.code!);
+    const paired = await pairing.poll();
+
+    expect(paired.status).toBe('paired');
+    expect(paired.scopes).toEqual(['upload']);
+    expect(await getApiKey()).toMatch(/^sk_local_/);
+    expect(getRecipientPublicKey()).toBe('recipient-key');
+    expect(receiver.getPendingPairings()).toEqual([]);
+  });
+
+  it('should report rejected codes', async () => {
+    const started = await pairing.start();
+    receiver.rejectPairing(started.code!);
+
+    const state = await pairing.poll();
+    expect(state.status).toBe('unpaired');
+    expect(state.error).toMatch(/expired or was rejected/);
+  });
+
+  it('should rotate the device key', async () => {
+    const started = await pairing.start();
+    receiver.approvePairing(started.code!);
+    await pairing.poll();
+    const firstKey = await getApiKey();
+
+    const rotated = await pairing.rotateKey();
+
+    expect(rotated.keyRotatedAt).toBeTruthy();
+    expect(await getApiKey()).not.toBe(firstKey);
+  });
+
+  it('should detect revocation through Transport and recover after re-pairing', async () => {
+    const started = await pairing.start();
+    receiver.approvePairing(started.code!);
+    await pairing.poll();
+
+    const transport = new Transport({
+      endpoint: url,
+      deviceId: started.deviceId,
+      queueDbPath: ':memory:',
+      onAuthRevoked: () => pairing.markRevoked(),
+    });
+    pairing.on('state', (state) => {
+      if (state.status === 'paired') transport.clearAuthRevoked();
+    });
+
+    try {
+      await transport.enqueue({ type: 'activity', app: 'Slack' });
+      await transport.flushSoon();
+      expect(receiver.getEvents()).toHaveLength(1);
+
+      receiver.revokeDevice(started.deviceId);
+      await transport.enqueue({ type: 'activity', app: 'Zoom' });
+      await transport.flushSoon();
+
+      expect(pairing.getState().status).toBe('revoked');
+      expect(transport.getQueueLength()).toBe(1);
+      await expect(pairing.rotateKey()).rejects.toThrow(/revoked/);
+
+      const again = await pairing.start();
+      receiver.approvePairing(again.code!);
+      await pairing.poll();
+      await transport.flushSoon();
+
+      expect(pairing.getState().status).toBe('paired');
+      expect(receiver.getEvents().map(e => e.app)).toEqual(['Slack', 'Zoom']);
+    } finally {
+      transport.close();
+    }
+  });
 });